@@ -1,7 +1,7 @@
 /**
  * 2Bot Plugin SDK
  *
- * Provides event handling, storage, gateway, config, fetch, and lifecycle APIs
+ * Provides event handling, storage, KV store, object store, gateway, config, fetch, and lifecycle APIs
  * for plugins running inside workspace containers.
  *
  * Communicates with the platform via IPC (Node.js child process messaging).
@@ -294,6 +294,129 @@ const storage = {
   },
 };
 
+// ===========================================
+// KV Store API (project KV_STORE resources)
+// ===========================================
+
+const kv = {
+  /**
+   * Get a value from a project KV store.
+   * @param {string} store - KV_STORE resource slug
+   * @param {string} key
+   * @returns {Promise<*>} The stored value, or null if missing/expired
+   */
+  async get(store, key) {
+    return ipcRequest('kv.get', { store, key });
+  },
+
+  /**
+   * Set a value in a project KV store. Rejected when the store's key or
+   * byte quota would be exceeded.
+   * @param {string} store - KV_STORE resource slug
+   * @param {string} key
+   * @param {*} value - Must be JSON-serializable
+   * @param {number} [ttlSeconds] - Overrides the store's default TTL (0 = never expires)
+   * @returns {Promise<{ key: string, sizeBytes: number, expiresAt: string | null }>}
+   */
+  async set(store, key, value, ttlSeconds) {
+    return ipcRequest('kv.set', { store, key, value, ttlSeconds });
+  },
+
+  /**
+   * Delete a key from a project KV store.
+   * @returns {Promise<boolean>} True if the key existed
+   */
+  async delete(store, key) {
+    return ipcRequest('kv.delete', { store, key });
+  },
+
+  /**
+   * Check if a live (non-expired) key exists in a project KV store.
+   * @returns {Promise<boolean>}
+   */
+  async has(store, key) {
+    return ipcRequest('kv.has', { store, key });
+  },
+
+  /**
+   * List entries by key prefix, ordered by key. Pass `nextCursor` from the
+   * previous page as `cursor` to continue.
+   * @param {string} store - KV_STORE resource slug
+   * @param {{ prefix?: string, limit?: number, cursor?: string }} [options]
+   * @returns {Promise<{ entries: Array<{ key: string, value: *, sizeBytes: number, expiresAt: string | null, updatedAt: string }>, nextCursor: string | null }>}
+   */
+  async list(store, options = {}) {
+    return ipcRequest('kv.list', { store, ...options });
+  },
+};
+
+// ===========================================
+// Object Store API (project OBJECT_STORE resources)
+// ===========================================
+
+const objects = {
+  /**
+   * Upload an object, replacing any existing one under the same key.
+   * LOCAL stores count against the plan's object storage quota.
+   * @param {string} store - OBJECT_STORE resource slug
+   * @param {string} key - Path-like key, e.g. "exports/2024/report.csv"
+   * @param {Buffer|string} body - Strings are stored as UTF-8
+   * @param {{ contentType?: string }} [options]
+   * @returns {Promise<{ key: string, sizeBytes: number, contentType: string, sha256: string, updatedAt: string }>}
+   */
+  async put(store, key, body, options = {}) {
+    const buf = Buffer.isBuffer(body) ? body : Buffer.from(String(body), 'utf8');
+    return ipcRequest('objects.put', {
+      store,
+      key,
+      dataBase64: buf.toString('base64'),
+      contentType: options.contentType,
+    });
+  },
+
+  /**
+   * Download an object.
+   * @returns {Promise<{ body: Buffer, contentType: string, sizeBytes: number, sha256: string } | null>}
+   *   null if the object does not exist
+   */
+  async get(store, key) {
+    const result = await ipcRequest('objects.get', { store, key });
+    if (!result) return null;
+    const { dataBase64, ...meta } = result;
+    return { body: Buffer.from(dataBase64, 'base64'), ...meta };
+  },
+
+  /**
+   * Delete an object.
+   * @returns {Promise<boolean>} True if the object existed
+   */
+  async delete(store, key) {
+    return ipcRequest('objects.delete', { store, key });
+  },
+
+  /**
+   * List object metadata by key prefix, ordered by key. Pass `nextCursor`
+   * from the previous page as `cursor` to continue.
+   * @param {string} store - OBJECT_STORE resource slug
+   * @param {{ prefix?: string, limit?: number, cursor?: string }} [options]
+   * @returns {Promise<{ objects: Array<{ key: string, sizeBytes: number, contentType: string, sha256: string, updatedAt: string }>, nextCursor: string | null }>}
+   */
+  async list(store, options = {}) {
+    return ipcRequest('objects.list', { store, ...options });
+  },
+
+  /**
+   * Create a time-limited download URL that works without authentication.
+   * @param {string} store - OBJECT_STORE resource slug
+   * @param {string} key
+   * @param {number} [expiresInSeconds=3600] - Max 7 days
+   * @returns {Promise<{ url: string, expiresAt: string }>}
+   */
+  async signedUrl(store, key, expiresInSeconds) {
+    return ipcRequest('objects.signedUrl', { store, key, expiresInSeconds });
+  },
+};
+
 // ===========================================
 // Database API (per-plugin SQLite)
 // ===========================================
@@ -1052,6 +1175,15 @@ function circuitFailure(gatewayId, reason) {
  */
 const AI_TIMEOUT_MS = 60000;
 
+/**
+ * Run and step of a workflow step event, so AI credits spent handling it
+ * are attributed to the run in workflow analytics.
+ */
+function workflowRef(event) {
+  const meta = event && event._workflow;
+  return meta ? { runId: meta.runId, stepOrder: meta.stepOrder } : undefined;
+}
+
 const ai = {
   /**
    * Generate a text response using 2Bot AI.
@@ -1063,6 +1195,7 @@ const ai = {
    * @param {string} [options.model='auto'] - Model ID: "auto" (cheapest), real model ID, or legacy 2Bot tier
    * @param {number} [options.temperature] - Sampling temperature (0-2)
    * @param {number} [options.maxTokens] - Max output tokens (capped at 4096 server-side)
+   * @param {object} [options.event] - The event being handled; credits spent on a workflow step are attributed to its run
    * @returns {Promise<{ content: string, model: string, usage: { inputTokens: number, outputTokens: number, totalTokens: number }, creditsUsed: number }>}
    *
    * @example
@@ -1075,6 +1208,12 @@ const ai = {
    * console.log(result.content); // "4"
    *
    * @example
+   * // In a workflow step: pass the event so the run's analytics show the cost
+   * sdk.onEvent(async (event) => {
+   *   const reply = await sdk.ai.chat({ messages, event });
+   * });
+   *
+   * @example
    * // With model and temperature
    * const result = await sdk.ai.chat({
    *   messages: [{ role: 'user', content: 'Write a poem about coding.' }],
@@ -1092,6 +1231,7 @@ const ai = {
       model: options.model,
       temperature: options.temperature,
       maxTokens: options.maxTokens,
+      workflow: workflowRef(options.event),
     }, AI_TIMEOUT_MS);
   },
 
@@ -1105,6 +1245,7 @@ const ai = {
    * @param {string} [options.size='1024x1024'] - Image size: '1024x1024' | '1792x1024' | '1024x1792'
    * @param {string} [options.quality='standard'] - Image quality: 'standard' | 'hd'
    * @param {number} [options.n=1] - Number of images (max 4)
+   * @param {object} [options.event] - The event being handled; credits spent on a workflow step are attributed to its run
    * @returns {Promise<{ images: Array<{ url: string, revisedPrompt?: string }>, model: string, creditsUsed: number }>}
    *
    * @example
@@ -1122,6 +1263,7 @@ const ai = {
       size: options.size,
       quality: options.quality,
       n: options.n,
+      workflow: workflowRef(options.event),
     }, AI_TIMEOUT_MS);
   },
 
@@ -1135,6 +1277,7 @@ const ai = {
    * @param {string} [options.voice='alloy'] - Voice: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer'
    * @param {string} [options.format='mp3'] - Audio format: 'mp3' | 'opus' | 'aac' | 'flac' | 'wav' | 'pcm'
    * @param {number} [options.speed=1.0] - Speed: 0.25 to 4.0
+   * @param {object} [options.event] - The event being handled; credits spent on a workflow step are attributed to its run
    * @returns {Promise<{ audioUrl?: string, audioBase64?: string, format: string, characterCount: number, creditsUsed: number }>}
    *
    * @example
@@ -1152,6 +1295,7 @@ const ai = {
       voice: options.voice,
       format: options.format,
       speed: options.speed,
+      workflow: workflowRef(options.event),
     }, AI_TIMEOUT_MS);
   },
 };
@@ -1324,6 +1468,8 @@ const gateway = {
  */
 const sdk = {
   storage,
+  kv,
+  objects,
   gateway,
   ai,
   database,
@@ -0,0 +1,42 @@
+-- Phase 8.1: KV_STORE ProjectResource sidecar + entries table.
+-- Project-scoped key-value namespace shared by every plugin and workflow in
+-- the project. Quotas live on the sidecar; TTL is per entry.
+
+CREATE TABLE "kv_stores" (
+  "id"                  TEXT          NOT NULL,
+  "resource_id"         TEXT          NOT NULL,
+  "max_bytes"           INTEGER       NOT NULL DEFAULT 10485760,
+  "max_keys"            INTEGER       NOT NULL DEFAULT 10000,
+  "default_ttl_seconds" INTEGER       NOT NULL DEFAULT 0,
+  "created_at"          TIMESTAMP(3)  NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at"          TIMESTAMP(3)  NOT NULL,
+
+  CONSTRAINT "kv_stores_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "kv_entries" (
+  "id"         TEXT          NOT NULL,
+  "store_id"   TEXT          NOT NULL,
+  "key"        TEXT          NOT NULL,
+  "value"      JSONB         NOT NULL,
+  "size_bytes" INTEGER       NOT NULL,
+  "expires_at" TIMESTAMP(3),
+  "created_at" TIMESTAMP(3)  NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3)  NOT NULL,
+
+  CONSTRAINT "kv_entries_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "kv_stores_resource_id_key"      ON "kv_stores" ("resource_id");
+CREATE UNIQUE INDEX "kv_entries_store_id_key_key"    ON "kv_entries" ("store_id", "key");
+CREATE INDEX        "kv_entries_store_id_expires_at_idx" ON "kv_entries" ("store_id", "expires_at");
+
+ALTER TABLE "kv_stores"
+  ADD CONSTRAINT "kv_stores_resource_id_fkey"
+  FOREIGN KEY ("resource_id") REFERENCES "project_resources"("id")
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "kv_entries"
+  ADD CONSTRAINT "kv_entries_store_id_fkey"
+  FOREIGN KEY ("store_id") REFERENCES "kv_stores"("id")
+  ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- Phase 8.2: OBJECT_STORE ProjectResource sidecar + object index.
+-- Blobs live in the configured backend (local disk or S3-compatible);
+-- `stored_objects` indexes keys for listing and plan-quota accounting.
+
+CREATE TYPE "ObjectStoreBackend" AS ENUM ('LOCAL', 'S3');
+
+CREATE TABLE "object_stores" (
+  "id"                    TEXT                  NOT NULL,
+  "resource_id"           TEXT                  NOT NULL,
+  "backend"               "ObjectStoreBackend"  NOT NULL DEFAULT 'LOCAL',
+  "bucket"                TEXT,
+  "region"                TEXT,
+  "endpoint"              TEXT,
+  "force_path_style"      BOOLEAN               NOT NULL DEFAULT false,
+  "key_prefix"            TEXT                  NOT NULL DEFAULT '',
+  "access_key_id"         TEXT,
+  "secret_access_key_enc" TEXT                  NOT NULL DEFAULT '',
+  "created_at"            TIMESTAMP(3)          NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at"            TIMESTAMP(3)          NOT NULL,
+
+  CONSTRAINT "object_stores_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "stored_objects" (
+  "id"           TEXT          NOT NULL,
+  "store_id"     TEXT          NOT NULL,
+  "key"          TEXT          NOT NULL,
+  "size_bytes"   BIGINT        NOT NULL,
+  "content_type" TEXT          NOT NULL DEFAULT 'application/octet-stream',
+  "sha256"       TEXT          NOT NULL,
+  "created_at"   TIMESTAMP(3)  NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at"   TIMESTAMP(3)  NOT NULL,
+
+  CONSTRAINT "stored_objects_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "object_stores_resource_id_key"   ON "object_stores" ("resource_id");
+CREATE INDEX        "object_stores_backend_idx"       ON "object_stores" ("backend");
+CREATE UNIQUE INDEX "stored_objects_store_id_key_key" ON "stored_objects" ("store_id", "key");
+
+ALTER TABLE "object_stores"
+  ADD CONSTRAINT "object_stores_resource_id_fkey"
+  FOREIGN KEY ("resource_id") REFERENCES "project_resources"("id")
+  ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "stored_objects"
+  ADD CONSTRAINT "stored_objects_store_id_fkey"
+  FOREIGN KEY ("store_id") REFERENCES "object_stores"("id")
+  ON DELETE CASCADE ON UPDATE CASCADE;
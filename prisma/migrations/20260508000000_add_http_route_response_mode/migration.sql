@@ -0,0 +1,8 @@
+-- Phase 8.3: synchronous request/response mode for Workflow-targeted
+-- HTTP_ROUTE resources.
+
+CREATE TYPE "HttpRouteResponseMode" AS ENUM ('ASYNC', 'WORKFLOW_OUTPUT');
+
+ALTER TABLE "http_routes"
+  ADD COLUMN "response_mode"    "HttpRouteResponseMode" NOT NULL DEFAULT 'ASYNC',
+  ADD COLUMN "response_step_id" TEXT;
@@ -0,0 +1,14 @@
+-- Phase 8.5: foreach steps record one WorkflowStepRun per item for each
+-- step in the loop body. iteration = -1 marks ordinary (top-level) rows.
+
+ALTER TABLE "workflow_step_runs"
+  ADD COLUMN "iteration"          INTEGER NOT NULL DEFAULT -1,
+  ADD COLUMN "parent_step_run_id" TEXT;
+
+DROP INDEX "workflow_step_runs_run_id_step_order_key";
+
+CREATE UNIQUE INDEX "workflow_step_runs_run_id_step_order_iteration_key"
+  ON "workflow_step_runs"("run_id", "step_order", "iteration");
+
+CREATE INDEX "workflow_step_runs_parent_step_run_id_idx"
+  ON "workflow_step_runs"("parent_step_run_id");
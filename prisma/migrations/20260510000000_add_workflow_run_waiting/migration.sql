@@ -0,0 +1,7 @@
+-- Phase 8.6: durable delay / wait-until steps. Paused runs move to status
+-- 'waiting' and persist their execution state until a delayed queue job
+-- resumes them.
+
+ALTER TABLE "workflow_runs"
+  ADD COLUMN "resume_at"    TIMESTAMP(3),
+  ADD COLUMN "paused_state" JSONB;
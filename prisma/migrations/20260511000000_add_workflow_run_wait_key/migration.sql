@@ -0,0 +1,6 @@
+-- Phase 8.7: "wait for reply" steps. A waiting run records the chat it is
+-- waiting on so inbound bot messages from that chat resume it.
+
+ALTER TABLE "workflow_runs" ADD COLUMN "wait_key" TEXT;
+
+CREATE INDEX "workflow_runs_wait_key_status_idx" ON "workflow_runs"("wait_key", "status");
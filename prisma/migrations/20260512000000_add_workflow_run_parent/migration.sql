@@ -0,0 +1,9 @@
+-- Phase 8.8: sub-workflow steps. Child runs link to the run that called
+-- them and record how deeply they are nested.
+
+ALTER TABLE "workflow_runs" ADD COLUMN "parent_run_id" TEXT;
+ALTER TABLE "workflow_runs" ADD COLUMN "depth" INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX "workflow_runs_parent_run_id_idx" ON "workflow_runs"("parent_run_id");
+
+ALTER TABLE "workflow_runs" ADD CONSTRAINT "workflow_runs_parent_run_id_fkey" FOREIGN KEY ("parent_run_id") REFERENCES "workflow_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- Phase 8.10: resume a failed run from its failing step. The new run links
+-- to the run it retries.
+
+ALTER TABLE "workflow_runs" ADD COLUMN "retry_of_run_id" TEXT;
+
+CREATE INDEX "workflow_runs_retry_of_run_id_idx" ON "workflow_runs"("retry_of_run_id");
+
+ALTER TABLE "workflow_runs" ADD CONSTRAINT "workflow_runs_retry_of_run_id_fkey" FOREIGN KEY ("retry_of_run_id") REFERENCES "workflow_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- Phase 8.11: published workflow versions. Live runs execute the published
+-- snapshot; edits to steps and edges stay a draft until published.
+
+ALTER TABLE "workflows" ADD COLUMN "published_version" INTEGER;
+
+ALTER TABLE "workflow_runs" ADD COLUMN "workflow_version" INTEGER;
+
+CREATE TABLE "workflow_versions" (
+    "id" TEXT NOT NULL,
+    "workflow_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "note" TEXT,
+    "published_by" TEXT,
+    "reverted_from" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workflow_versions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "workflow_versions_workflow_id_version_key" ON "workflow_versions"("workflow_id", "version");
+
+CREATE INDEX "workflow_versions_workflow_id_idx" ON "workflow_versions"("workflow_id");
+
+ALTER TABLE "workflow_versions" ADD CONSTRAINT "workflow_versions_workflow_id_fkey" FOREIGN KEY ("workflow_id") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
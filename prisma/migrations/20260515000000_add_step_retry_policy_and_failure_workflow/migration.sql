@@ -0,0 +1,10 @@
+-- Phase 8.12: per-step retry policy (backoff, retryable error classes) and a
+-- workflow-level on-failure workflow.
+
+ALTER TABLE "workflow_steps" ADD COLUMN "retry_policy" JSONB;
+
+ALTER TABLE "workflows" ADD COLUMN "on_failure_workflow_id" TEXT;
+
+CREATE INDEX "workflows_on_failure_workflow_id_idx" ON "workflows"("on_failure_workflow_id");
+
+ALTER TABLE "workflows" ADD CONSTRAINT "workflows_on_failure_workflow_id_fkey" FOREIGN KEY ("on_failure_workflow_id") REFERENCES "workflows"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- Phase 8.13: per-conversation run ordering (concurrency key) and per-key
+-- rate limits for workflow runs.
+
+ALTER TABLE "workflows" ADD COLUMN "concurrency_key" TEXT;
+
+ALTER TABLE "workflows" ADD COLUMN "rate_limit" JSONB;
@@ -0,0 +1,33 @@
+-- Phase 8.14: workflow analytics. AI usage rows record the run and step they
+-- were spent on, and daily rollups keep latency / failure / cost history
+-- after the retention cron deletes the raw runs.
+
+ALTER TABLE "ai_usage" ADD COLUMN "workflow_run_id" TEXT;
+
+ALTER TABLE "ai_usage" ADD COLUMN "workflow_step_order" INTEGER;
+
+CREATE INDEX "ai_usage_workflow_run_id_idx" ON "ai_usage"("workflow_run_id");
+
+CREATE TABLE "workflow_daily_stats" (
+    "id" TEXT NOT NULL,
+    "workflow_id" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "step_id" TEXT NOT NULL DEFAULT '',
+    "step_order" INTEGER,
+    "plugin_slug" TEXT,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "total_duration_ms" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "duration_buckets" INTEGER[],
+    "errors" JSONB NOT NULL DEFAULT '{}',
+    "credits_used" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workflow_daily_stats_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "workflow_daily_stats_workflow_id_day_step_id_key" ON "workflow_daily_stats"("workflow_id", "day", "step_id");
+
+CREATE INDEX "workflow_daily_stats_day_idx" ON "workflow_daily_stats"("day");
+
+ALTER TABLE "workflow_daily_stats" ADD CONSTRAINT "workflow_daily_stats_workflow_id_fkey" FOREIGN KEY ("workflow_id") REFERENCES "workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
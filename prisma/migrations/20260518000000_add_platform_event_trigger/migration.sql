@@ -0,0 +1,7 @@
+-- Phase 8.15: Platform-event workflow triggers
+--
+-- PLATFORM_EVENT workflows run when a platform event of their owner fires
+-- (workflow.completed, gateway.status_changed, alert.fired,
+-- resource.updated). The event name and filters live in trigger_config.
+
+ALTER TYPE "WorkflowTriggerType" ADD VALUE IF NOT EXISTS 'PLATFORM_EVENT';
@@ -0,0 +1,34 @@
+-- Phase 8.16: schedule date windows, misfire policies and fire history.
+-- Fires are limited to [start_date, end_date]; fires missed while the tick
+-- service was down are skipped, coalesced or replayed per misfire_policy;
+-- every fire / skip is recorded in schedule_fires.
+
+CREATE TYPE "ScheduleMisfirePolicy" AS ENUM ('SKIP', 'FIRE_ONCE', 'CATCH_UP');
+
+CREATE TYPE "ScheduleFireOutcome" AS ENUM ('FIRED', 'FAILED', 'SKIPPED');
+
+ALTER TABLE "schedules" ADD COLUMN "start_date" TIMESTAMP(3),
+ADD COLUMN "end_date" TIMESTAMP(3),
+ADD COLUMN "misfire_policy" "ScheduleMisfirePolicy" NOT NULL DEFAULT 'FIRE_ONCE',
+ADD COLUMN "catch_up_limit" INTEGER NOT NULL DEFAULT 10;
+
+CREATE TABLE "schedule_fires" (
+    "id" TEXT NOT NULL,
+    "schedule_id" TEXT NOT NULL,
+    "scheduled_at" TIMESTAMP(3) NOT NULL,
+    "outcome" "ScheduleFireOutcome" NOT NULL,
+    "skipped_through" TIMESTAMP(3),
+    "skipped_count" INTEGER NOT NULL DEFAULT 0,
+    "late_ms" INTEGER NOT NULL DEFAULT 0,
+    "run_id" TEXT,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "schedule_fires_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "schedule_fires_schedule_id_scheduled_at_idx" ON "schedule_fires"("schedule_id", "scheduled_at");
+
+CREATE INDEX "schedule_fires_created_at_idx" ON "schedule_fires"("created_at");
+
+ALTER TABLE "schedule_fires" ADD CONSTRAINT "schedule_fires_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- Phase 8.17: first-party web chat gateway.
+-- A WEB_CHAT gateway backs the embeddable website chat widget; anonymous
+-- visitors authenticate with session tokens signed by the gateway's secret.
+
+ALTER TYPE "GatewayType" ADD VALUE IF NOT EXISTS 'WEB_CHAT';
@@ -0,0 +1,5 @@
+-- Phase 8.18: email gateway.
+-- An EMAIL gateway polls a mailbox over IMAP and replies over SMTP, keeping
+-- replies in the sender's thread (In-Reply-To / References).
+
+ALTER TYPE "GatewayType" ADD VALUE IF NOT EXISTS 'EMAIL';
@@ -0,0 +1,8 @@
+-- Phase 8.19: Matrix gateway.
+-- A MATRIX gateway syncs a bot account on any homeserver. Its rooms are
+-- tracked in gateway_chats, whose chat IDs become text: Matrix room IDs
+-- ("!abc:example.org") aren't numeric. Telegram IDs keep their digits.
+
+ALTER TYPE "GatewayType" ADD VALUE IF NOT EXISTS 'MATRIX';
+
+ALTER TABLE "gateway_chats" ALTER COLUMN "chat_id" TYPE TEXT USING "chat_id"::TEXT;
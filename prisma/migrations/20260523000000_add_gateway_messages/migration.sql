@@ -0,0 +1,41 @@
+-- Phase 8.20: gateway message log.
+-- Inbound and outbound bot messages per chat, searchable by full text for the
+-- dashboard inbox. search_vector is a generated column; Prisma never writes it.
+
+CREATE TYPE "MessageDirection" AS ENUM ('INBOUND', 'OUTBOUND');
+
+ALTER TABLE "gateways" ADD COLUMN "log_messages" BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE "gateways" ADD COLUMN "redact_pii" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE "gateway_messages" (
+    "id" TEXT NOT NULL,
+    "gateway_id" TEXT NOT NULL,
+    "direction" "MessageDirection" NOT NULL,
+    "chat_id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "sender_id" TEXT,
+    "sender_name" TEXT,
+    "text" TEXT,
+    "platform_message_id" TEXT,
+    "redacted" BOOLEAN NOT NULL DEFAULT false,
+    "workflow_run_id" TEXT,
+    "search_vector" tsvector GENERATED ALWAYS AS (to_tsvector('simple', coalesce("text", ''))) STORED,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "gateway_messages_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "gateway_messages_gateway_id_created_at_idx" ON "gateway_messages"("gateway_id", "created_at" DESC);
+
+CREATE INDEX "gateway_messages_gateway_id_chat_id_created_at_idx" ON "gateway_messages"("gateway_id", "chat_id", "created_at" DESC);
+
+CREATE INDEX "gateway_messages_gateway_id_sender_id_idx" ON "gateway_messages"("gateway_id", "sender_id");
+
+CREATE INDEX "gateway_messages_workflow_run_id_idx" ON "gateway_messages"("workflow_run_id");
+
+CREATE INDEX "gateway_messages_created_at_idx" ON "gateway_messages"("created_at");
+
+CREATE INDEX "gateway_messages_search_vector_idx" ON "gateway_messages" USING GIN ("search_vector");
+
+ALTER TABLE "gateway_messages" ADD CONSTRAINT "gateway_messages_gateway_id_fkey" FOREIGN KEY ("gateway_id") REFERENCES "gateways"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -3,20 +3,37 @@
  *
  * Dedicated process that consumes the BullMQ workflow queue and runs each
  * job through the existing workflow executor. Run alongside the API server,
- * scaled horizontally as throughput demands.
+ * scaled horizontally as throughput demands; set
+ * WORKFLOW_WORKER_EMBEDDED=false on the API so it leaves the queue to these.
  *
  *   npm run worker:start
  *   docker-compose up --scale workflow-worker=N
  */
 
+import { BUILTIN_PLUGINS } from "@/modules/plugin/handlers";
+import { registerPlugin } from "@/modules/plugin/plugin.executor";
+import { requeueWaitingRuns } from "@/modules/workflow/workflow.executor";
+import { registerPlatformEventTriggers } from "@/modules/workflow/workflow.triggers";
 import { closeWorkflowQueue } from "@/modules/workflow/workflow-queue";
 import { createWorkflowWorker } from "@/modules/workflow/workflow-worker";
+import { initializeGatewayProviders } from "@/server/init-providers";
 
 import { logger } from "@/lib/logger";
 
 const log = logger.child({ module: "workflow-worker-entrypoint" });
 
 async function main(): Promise<void> {
+  // Reply steps and gateway actions look their platform's provider up
+  initializeGatewayProviders();
+
+  // Built-in steps (HTTP request, AI prompt, …) run in-process here too
+  for (const [slug, reg] of BUILTIN_PLUGINS) {
+    registerPlugin(slug, reg.handler);
+  }
+
+  // Runs finishing here emit workflow.completed events in this process
+  registerPlatformEventTriggers();
+
   const worker = createWorkflowWorker();
 
   const shutdown = async (signal: string): Promise<void> => {
@@ -38,6 +55,12 @@ async function main(): Promise<void> {
     void shutdown("SIGTERM");
   });
 
+  // Waiting runs (delay / wait-until) whose resume jobs were lost, e.g.
+  // with a Redis flush, are re-scheduled; existing jobs are deduplicated.
+  requeueWaitingRuns()
+    .then((count) => log.info({ count }, "Re-scheduled waiting workflow runs"))
+    .catch((err) => log.error({ err }, "Failed to re-schedule waiting workflow runs"));
+
   log.info("Workflow worker entry point ready");
 }
 
@@ -67,6 +67,12 @@ function getGatewayTypeName(type: string): string {
       return "Slack Bot";
     case "WHATSAPP_BOT":
       return "WhatsApp Bot";
+    case "WEB_CHAT":
+      return "Web Chat";
+    case "EMAIL":
+      return "Email";
+    case "MATRIX":
+      return "Matrix";
     default:
       return type;
   }
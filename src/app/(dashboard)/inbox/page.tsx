@@ -0,0 +1,383 @@
+"use client";
+
+/**
+ * Inbox Page
+ *
+ * Logged bot conversations across the user's (or current org's) gateways:
+ * a conversation list next to the messages of the selected chat, with
+ * full-text search and gateway / sender / direction filters. Messages a
+ * workflow sent link to the run in the bot's analytics tab.
+ *
+ * @module app/(dashboard)/inbox
+ */
+
+import { ArrowDownLeft, ArrowUpRight, Inbox, RefreshCw, Search, ShieldCheck, X } from "lucide-react";
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { useAuth } from "@/components/providers/auth-provider";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    getConversations,
+    getMessages,
+    getOrgGateways,
+    getUserGateways,
+    type GatewayConversation,
+    type GatewayMessageEntry,
+    type GatewayOption,
+} from "@/lib/api-client";
+import { cn } from "@/lib/utils";
+
+const PAGE_SIZE = 50;
+
+interface ChatRef {
+  gatewayId: string;
+  chatId: string;
+}
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function conversationLabel(c: { chatTitle: string | null; chatId: string }): string {
+  return c.chatTitle ?? c.chatId;
+}
+
+export default function InboxPage() {
+  const { token, context } = useAuth();
+  const organizationId =
+    context.type === "organization" ? context.organizationId : undefined;
+
+  const [gateways, setGateways] = useState<GatewayOption[]>([]);
+  const [conversations, setConversations] = useState<GatewayConversation[]>([]);
+  const [messages, setMessages] = useState<GatewayMessageEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Filters
+  const [gatewayFilter, setGatewayFilter] = useState("all");
+  const [directionFilter, setDirectionFilter] = useState("all");
+  const [selectedChat, setSelectedChat] = useState<ChatRef | null>(null);
+  const [sender, setSender] = useState<{ id: string; name: string } | null>(null);
+  const [searchInput, setSearchInput] = useState("");
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    const load = organizationId
+      ? getOrgGateways(organizationId, token ?? undefined)
+      : getUserGateways(token ?? undefined);
+    void load.then((result) => {
+      if (result.success && result.data) setGateways(result.data);
+    });
+  }, [organizationId, token]);
+
+  const fetchConversations = useCallback(async () => {
+    const result = await getConversations(
+      { gatewayId: gatewayFilter !== "all" ? gatewayFilter : undefined },
+      { organizationId },
+      token ?? undefined
+    );
+    if (result.success && result.data) setConversations(result.data);
+  }, [gatewayFilter, organizationId, token]);
+
+  const fetchMessages = useCallback(
+    async (cursor?: string) => {
+      setIsLoading(true);
+      try {
+        const result = await getMessages(
+          {
+            gatewayId: selectedChat?.gatewayId ?? (gatewayFilter !== "all" ? gatewayFilter : undefined),
+            chatId: selectedChat?.chatId,
+            senderId: sender?.id,
+            direction: directionFilter !== "all" ? (directionFilter as "INBOUND" | "OUTBOUND") : undefined,
+            q: query || undefined,
+            cursor,
+            limit: PAGE_SIZE,
+          },
+          { organizationId },
+          token ?? undefined
+        );
+        if (!result.success || !result.data) {
+          toast.error(result.error?.message ?? "Failed to load messages");
+          return;
+        }
+        const page = result.data;
+        setMessages((prev) => (cursor ? [...prev, ...page.messages] : page.messages));
+        setNextCursor(page.nextCursor);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [selectedChat, gatewayFilter, sender, directionFilter, query, organizationId, token]
+  );
+
+  useEffect(() => {
+    void fetchConversations();
+  }, [fetchConversations]);
+
+  useEffect(() => {
+    void fetchMessages();
+  }, [fetchMessages]);
+
+  const refresh = () => {
+    void fetchConversations();
+    void fetchMessages();
+  };
+
+  const selectGateway = (value: string) => {
+    setGatewayFilter(value);
+    setSelectedChat(null);
+  };
+
+  const selectChat = (chat: ChatRef | null) => {
+    setSelectedChat(chat);
+    setSender(null);
+  };
+
+  const selected = selectedChat
+    ? conversations.find((c) => c.gatewayId === selectedChat.gatewayId && c.chatId === selectedChat.chatId)
+    : undefined;
+
+  return (
+    <div className="container mx-auto max-w-7xl space-y-4 p-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Inbox</h1>
+          <p className="text-sm text-muted-foreground">
+            Messages your bots received and sent. Logging and PII redaction are set per bot in its settings.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={refresh} disabled={isLoading}>
+          <RefreshCw className={cn("mr-2 h-4 w-4", isLoading && "animate-spin")} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <form
+          className="relative min-w-[240px] flex-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setQuery(searchInput.trim());
+          }}
+        >
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder='Search messages — "exact phrase", or, -exclude'
+            className="pl-8"
+          />
+        </form>
+        <Select value={gatewayFilter} onValueChange={selectGateway}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All bots</SelectItem>
+            {gateways.map((g) => (
+              <SelectItem key={g.id} value={g.id}>
+                {g.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={directionFilter} onValueChange={setDirectionFilter}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All messages</SelectItem>
+            <SelectItem value="INBOUND">Received</SelectItem>
+            <SelectItem value="OUTBOUND">Sent</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {query || sender || selected ? (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {query ? (
+            <Badge variant="secondary" className="gap-1">
+              Search: {query}
+              <button
+                type="button"
+                aria-label="Clear search"
+                onClick={() => {
+                  setQuery("");
+                  setSearchInput("");
+                }}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ) : null}
+          {sender ? (
+            <Badge variant="secondary" className="gap-1">
+              From: {sender.name}
+              <button type="button" aria-label="Clear sender filter" onClick={() => setSender(null)}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ) : null}
+          {selected ? (
+            <Badge variant="secondary" className="gap-1">
+              Chat: {conversationLabel(selected)}
+              <button type="button" aria-label="Show all chats" onClick={() => selectChat(null)}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ) : null}
+        </div>
+      ) : null}
+
+      <div className="grid gap-4 md:grid-cols-[300px_1fr]">
+        {/* Conversations */}
+        <div className="rounded-md border">
+          <button
+            type="button"
+            onClick={() => selectChat(null)}
+            className={cn(
+              "w-full border-b px-3 py-2 text-left text-sm font-medium hover:bg-muted/50",
+              !selectedChat && "bg-muted"
+            )}
+          >
+            All conversations
+          </button>
+          <div className="max-h-[70vh] overflow-y-auto">
+            {conversations.length === 0 ? (
+              <p className="p-4 text-xs text-muted-foreground">No conversations logged yet.</p>
+            ) : null}
+            {conversations.map((c) => {
+              const active = selectedChat?.gatewayId === c.gatewayId && selectedChat.chatId === c.chatId;
+              return (
+                <button
+                  key={`${c.gatewayId}:${c.chatId}`}
+                  type="button"
+                  onClick={() => selectChat({ gatewayId: c.gatewayId, chatId: c.chatId })}
+                  className={cn(
+                    "w-full border-b px-3 py-2 text-left last:border-b-0 hover:bg-muted/50",
+                    active && "bg-muted"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate text-sm font-medium">{conversationLabel(c)}</span>
+                    <span className="shrink-0 text-[10px] text-muted-foreground">
+                      {formatTime(c.lastMessageAt)}
+                    </span>
+                  </div>
+                  <div className="truncate text-xs text-muted-foreground">
+                    {c.gatewayName} · {c.messageCount} messages
+                  </div>
+                  {c.lastMessage?.text ? (
+                    <div className="truncate text-xs text-muted-foreground">
+                      {c.lastMessage.direction === "OUTBOUND" ? "Bot: " : ""}
+                      {c.lastMessage.text}
+                    </div>
+                  ) : null}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Messages */}
+        <div className="rounded-md border">
+          {!isLoading && messages.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 p-10 text-center text-sm text-muted-foreground">
+              <Inbox className="h-8 w-8" />
+              {query ? "No messages match your search." : "No messages yet."}
+            </div>
+          ) : null}
+          <ul className="divide-y">
+            {messages.map((m) => (
+              <li key={m.id} className="space-y-1 px-4 py-3">
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  {m.direction === "INBOUND" ? (
+                    <ArrowDownLeft className="h-3.5 w-3.5 text-blue-500" />
+                  ) : (
+                    <ArrowUpRight className="h-3.5 w-3.5 text-green-500" />
+                  )}
+                  {m.direction === "INBOUND" && m.senderId ? (
+                    <button
+                      type="button"
+                      className="font-medium text-foreground hover:underline"
+                      title="Show messages from this sender"
+                      onClick={() => setSender({ id: m.senderId ?? "", name: m.senderName ?? m.senderId ?? "" })}
+                    >
+                      {m.senderName ?? m.senderId}
+                    </button>
+                  ) : (
+                    <span className="font-medium text-foreground">
+                      {m.direction === "OUTBOUND" ? "Bot" : (m.senderName ?? "Unknown")}
+                    </span>
+                  )}
+                  {selectedChat ? null : (
+                    <button
+                      type="button"
+                      className="hover:underline"
+                      onClick={() => selectChat({ gatewayId: m.gatewayId, chatId: m.chatId })}
+                    >
+                      in {conversationLabel(m)}
+                    </button>
+                  )}
+                  <span>· {m.gatewayName}</span>
+                  <span>· {formatTime(m.createdAt)}</span>
+                  {m.kind !== "message" ? (
+                    <Badge variant="outline" className="h-4 px-1 text-[10px]">
+                      {m.kind}
+                    </Badge>
+                  ) : null}
+                  {m.redacted ? (
+                    <span className="flex items-center gap-0.5" title="Personal data was masked">
+                      <ShieldCheck className="h-3 w-3" />
+                      redacted
+                    </span>
+                  ) : null}
+                  {m.workflowRun ? (
+                    <Link
+                      href={`/studio/bot/${m.gatewayId}?tab=analytics&workflowId=${m.workflowRun.workflowId}`}
+                      className="ml-auto text-primary hover:underline"
+                    >
+                      {m.workflowRun.workflowName} run · {m.workflowRun.status.toLowerCase()}
+                    </Link>
+                  ) : null}
+                </div>
+                <p className="whitespace-pre-wrap break-words text-sm">
+                  {m.text ?? <span className="italic text-muted-foreground">(no text)</span>}
+                </p>
+              </li>
+            ))}
+          </ul>
+          {nextCursor ? (
+            <div className="border-t p-3 text-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isLoading}
+                onClick={() => void fetchMessages(nextCursor)}
+              >
+                Load older messages
+              </Button>
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -35,6 +35,7 @@ import {
     CreditCard,
     FolderKanban,
     Home,
+    Inbox,
     Layers,
     LogOut,
     Menu,
@@ -55,6 +56,7 @@ import { useState, type ReactNode } from "react";
 const sharedNavItemsBase = [
   { path: "", label: "Dashboard", icon: Home },
   { path: "/bots", label: "Bots", icon: Bot },
+  { path: "/inbox", label: "Inbox", icon: Inbox },
   { path: "/marketplace", label: "Marketplace", icon: Store },
   { path: "/workspace", label: "Workspace", icon: Box },
 ];
@@ -0,0 +1,12 @@
+"use client";
+
+/**
+ * Organization Inbox Page
+ *
+ * Re-uses the personal Inbox page — org context is detected
+ * automatically via useAuth.
+ *
+ * @module app/(dashboard)/organizations/[orgSlug]/inbox
+ */
+
+export { default } from "@/app/(dashboard)/inbox/page";
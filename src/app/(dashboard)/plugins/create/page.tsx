@@ -571,6 +571,9 @@ function CreatePluginContent() {
                     <SelectItem value="DISCORD_BOT">Discord Bot</SelectItem>
                     <SelectItem value="SLACK_BOT">Slack Bot</SelectItem>
                     <SelectItem value="WHATSAPP_BOT">WhatsApp Bot</SelectItem>
+                    <SelectItem value="WEB_CHAT">Web Chat</SelectItem>
+                    <SelectItem value="EMAIL">Email</SelectItem>
+                    <SelectItem value="MATRIX">Matrix</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -928,6 +931,9 @@ package.json      # Optional — dependencies will be auto-installed`}
                   { type: "DISCORD_BOT", label: "Discord Bot", desc: "Receive messages from Discord", icon: "🤖" },
                   { type: "SLACK_BOT", label: "Slack Bot", desc: "Receive messages from Slack", icon: "🤖" },
                   { type: "WHATSAPP_BOT", label: "WhatsApp Bot", desc: "Receive messages from WhatsApp", icon: "🤖" },
+                  { type: "WEB_CHAT", label: "Web Chat", desc: "Receive messages from your website chat widget", icon: "💬" },
+                  { type: "EMAIL", label: "Email", desc: "Receive messages from an email inbox", icon: "✉️" },
+                  { type: "MATRIX", label: "Matrix", desc: "Receive messages from Matrix rooms", icon: "🟩" },
                 ] as const).map((gw) => {
                   const isSelected = requiredGateways.includes(gw.type);
                   return (
@@ -680,6 +680,9 @@ function WorkspaceGatewaysPanel({ containerId }: { containerId: string | null })
       case "DISCORD_BOT": return <Network className="h-3 w-3 text-indigo-400 flex-shrink-0" />;
       case "SLACK_BOT": return <Network className="h-3 w-3 text-green-400 flex-shrink-0" />;
       case "WHATSAPP_BOT": return <Network className="h-3 w-3 text-emerald-400 flex-shrink-0" />;
+      case "WEB_CHAT": return <Network className="h-3 w-3 text-sky-400 flex-shrink-0" />;
+      case "EMAIL": return <Network className="h-3 w-3 text-amber-400 flex-shrink-0" />;
+      case "MATRIX": return <Network className="h-3 w-3 text-teal-400 flex-shrink-0" />;
       default: return <Network className="h-3 w-3 text-muted-foreground flex-shrink-0" />;
     }
   };
@@ -690,6 +693,9 @@ function WorkspaceGatewaysPanel({ containerId }: { containerId: string | null })
       case "DISCORD_BOT": return "Discord";
       case "SLACK_BOT": return "Slack";
       case "WHATSAPP_BOT": return "WhatsApp";
+      case "WEB_CHAT": return "Web Chat";
+      case "EMAIL": return "Email";
+      case "MATRIX": return "Matrix";
       default: return type;
     }
   };
@@ -60,6 +60,9 @@ const RECOMMENDED_SLUGS: Record<string, string[]> = {
   DISCORD_BOT: ["ai-chat-bot", "command-bot", "auto-responder"],
   SLACK_BOT: ["ai-chat-bot", "auto-responder"],
   WHATSAPP_BOT: ["ai-chat-bot", "auto-responder"],
+  WEB_CHAT: ["ai-chat-bot", "auto-responder"],
+  EMAIL: ["ai-chat-bot", "auto-responder"],
+  MATRIX: ["ai-chat-bot", "auto-responder"],
 };
 
 // Hidden from browse (developer tools)
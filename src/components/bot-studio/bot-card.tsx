@@ -42,6 +42,9 @@ const GATEWAY_TYPE_LABEL: Record<string, string> = {
   DISCORD_BOT: "Discord",
   SLACK_BOT: "Slack",
   WHATSAPP_BOT: "WhatsApp",
+  WEB_CHAT: "Web Chat",
+  EMAIL: "Email",
+  MATRIX: "Matrix",
 };
 
 // ===========================================
@@ -119,6 +119,9 @@ function defaultTriggerType(gatewayType: string): string {
     case "DISCORD_BOT":
     case "SLACK_BOT":
     case "WHATSAPP_BOT":
+    case "WEB_CHAT":
+    case "EMAIL":
+    case "MATRIX":
       return "BOT_MESSAGE";
     default:
       return "MANUAL";
@@ -130,6 +133,9 @@ const GATEWAY_TYPE_LABEL: Record<string, string> = {
   DISCORD_BOT: "Discord Bot",
   SLACK_BOT: "Slack Bot",
   WHATSAPP_BOT: "WhatsApp Bot",
+  WEB_CHAT: "Web Chat",
+  EMAIL: "Email",
+  MATRIX: "Matrix Bot",
 };
 
 const STATUS_LABELS: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline"; tooltip: string }> = {
@@ -677,6 +683,7 @@ export function BotDetailView({
             config: data.config,
             onError: data.onError,
             maxRetries: data.maxRetries,
+            retryPolicy: data.retryPolicy,
             condition: data.condition,
           },
           { organizationId },
@@ -905,6 +912,7 @@ export function BotDetailView({
             config: step.config as Record<string, unknown> | undefined,
             onError: step.onError,
             maxRetries: step.maxRetries,
+            retryPolicy: step.retryPolicy,
           },
           { organizationId },
           token ?? undefined
@@ -1118,6 +1126,8 @@ export function BotDetailView({
                   triggerType={workflow.triggerType}
                   triggerConfig={workflow.triggerConfig}
                   gatewayType={gateway.type}
+                  concurrencyKey={workflow.concurrencyKey}
+                  rateLimit={workflow.rateLimit}
                   onSave={handleSaveTrigger}
                   onClose={() => setShowTriggerEditor(false)}
                 />
@@ -1627,6 +1637,8 @@ export function BotDetailView({
                     triggerType={workflow.triggerType}
                     triggerConfig={workflow.triggerConfig}
                     gatewayType={gateway.type}
+                    concurrencyKey={workflow.concurrencyKey}
+                    rateLimit={workflow.rateLimit}
                     onSave={handleSaveTrigger}
                     onClose={() => setShowTriggerEditor(false)}
                   />
@@ -80,7 +80,8 @@ function StringField({
   const isLongText =
     fieldKey.toLowerCase().includes("prompt") ||
     fieldKey.toLowerCase().includes("message") ||
-    fieldKey.toLowerCase().includes("welcome");
+    fieldKey.toLowerCase().includes("welcome") ||
+    fieldKey.toLowerCase().includes("template");
 
   return (
     <div className="space-y-2">
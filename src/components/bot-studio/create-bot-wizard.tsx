@@ -18,7 +18,9 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import type { GatewayOption } from "@/lib/api-client";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import type { CreateBotGatewayPayload, GatewayOption } from "@/lib/api-client";
 import {
     addWorkflowStep,
     createOrgGateway,
@@ -43,8 +45,11 @@ import {
 import { toast } from "sonner";
 import {
     DiscordIcon,
+    EmailIcon,
+    MatrixIcon,
     SlackIcon,
     TelegramIcon,
+    WebChatIcon,
     WhatsAppIcon,
 } from "./platform-icons";
 
@@ -54,7 +59,7 @@ import {
 
 type WizardStep = "bot-info" | "add-workflow-step";
 
-type PlatformType = "TELEGRAM_BOT" | "DISCORD_BOT" | "SLACK_BOT" | "WHATSAPP_BOT";
+type PlatformType = "TELEGRAM_BOT" | "DISCORD_BOT" | "SLACK_BOT" | "WHATSAPP_BOT" | "WEB_CHAT" | "EMAIL" | "MATRIX";
 
 interface PlatformOption {
   id: PlatformType;
@@ -88,6 +93,24 @@ const PLATFORMS: PlatformOption[] = [
     description: "Connect via WhatsApp Cloud API",
     icon: WhatsAppIcon,
   },
+  {
+    id: "WEB_CHAT",
+    name: "Web Chat",
+    description: "Embed a chat bubble on your website",
+    icon: WebChatIcon,
+  },
+  {
+    id: "EMAIL",
+    name: "Email",
+    description: "Answer a mailbox over IMAP and SMTP",
+    icon: EmailIcon,
+  },
+  {
+    id: "MATRIX",
+    name: "Matrix",
+    description: "Connect a bot account on any Matrix homeserver",
+    icon: MatrixIcon,
+  },
 ];
 
 interface CreateBotWizardProps {
@@ -111,12 +134,23 @@ function generateSlug(name: string): string {
   return `${base}-${suffix}`;
 }
 
+/** Split the allowed-origins textarea into trimmed, non-empty entries */
+function parseOrigins(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((o) => o.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+}
+
 function defaultTriggerType(gatewayType: string): string {
   switch (gatewayType) {
     case "TELEGRAM_BOT":
     case "DISCORD_BOT":
     case "SLACK_BOT":
     case "WHATSAPP_BOT":
+    case "WEB_CHAT":
+    case "EMAIL":
+    case "MATRIX":
       return "BOT_MESSAGE";
     default:
       return "MANUAL";
@@ -142,6 +176,7 @@ export function CreateBotWizard({
   const [platform, setPlatform] = useState<PlatformType>("TELEGRAM_BOT");
   // Telegram fields
   const [botToken, setBotToken] = useState("");
+  const [telegramPolling, setTelegramPolling] = useState(false);
   // Discord fields
   const [discordBotToken, setDiscordBotToken] = useState("");
   const [discordAppId, setDiscordAppId] = useState("");
@@ -155,6 +190,19 @@ export function CreateBotWizard({
   const [waPhoneNumberId, setWaPhoneNumberId] = useState("");
   const [waBusinessAccountId, setWaBusinessAccountId] = useState("");
   const [waVerifyToken, setWaVerifyToken] = useState("");
+  // Web chat fields
+  const [webChatOrigins, setWebChatOrigins] = useState("");
+  // Email fields
+  const [emailAddress, setEmailAddress] = useState("");
+  const [emailUsername, setEmailUsername] = useState("");
+  const [emailPassword, setEmailPassword] = useState("");
+  const [imapHost, setImapHost] = useState("");
+  const [imapPort, setImapPort] = useState("993");
+  const [smtpHost, setSmtpHost] = useState("");
+  const [smtpPort, setSmtpPort] = useState("465");
+  // Matrix fields
+  const [matrixHomeserver, setMatrixHomeserver] = useState("https://matrix.org");
+  const [matrixAccessToken, setMatrixAccessToken] = useState("");
   const [isCreatingGateway, setIsCreatingGateway] = useState(false);
   const [createdGateway, setCreatedGateway] = useState<GatewayOption | null>(null);
 
@@ -172,6 +220,7 @@ export function CreateBotWizard({
       setBotName("");
       setPlatform("TELEGRAM_BOT");
       setBotToken("");
+      setTelegramPolling(false);
       setDiscordBotToken("");
       setDiscordAppId("");
       setDiscordPublicKey("");
@@ -182,6 +231,16 @@ export function CreateBotWizard({
       setWaPhoneNumberId("");
       setWaBusinessAccountId("");
       setWaVerifyToken("");
+      setWebChatOrigins("");
+      setEmailAddress("");
+      setEmailUsername("");
+      setEmailPassword("");
+      setImapHost("");
+      setImapPort("993");
+      setSmtpHost("");
+      setSmtpPort("465");
+      setMatrixHomeserver("https://matrix.org");
+      setMatrixAccessToken("");
       setCreatedGateway(null);
       setAvailablePlugins([]);
       setSearchQuery("");
@@ -266,7 +325,7 @@ export function CreateBotWizard({
     if (!botName.trim()) return;
     setIsCreatingGateway(true);
     try {
-      let payload: { name: string; type: PlatformType; credentials: Record<string, string> };
+      let payload: CreateBotGatewayPayload;
 
       if (platform === "TELEGRAM_BOT") {
         if (!botToken.trim()) return;
@@ -274,6 +333,7 @@ export function CreateBotWizard({
           name: botName.trim(),
           type: "TELEGRAM_BOT",
           credentials: { botToken: botToken.trim() },
+          ...(telegramPolling ? { config: { updateMode: "polling" } } : {}),
         };
       } else if (platform === "DISCORD_BOT") {
         if (!discordBotToken.trim() || !discordAppId.trim() || !discordPublicKey.trim()) return;
@@ -296,6 +356,40 @@ export function CreateBotWizard({
             signingSecret: slackSigningSecret.trim(),
           },
         };
+      } else if (platform === "WEB_CHAT") {
+        // The session secret is generated server-side
+        payload = {
+          name: botName.trim(),
+          type: "WEB_CHAT",
+          credentials: {},
+          config: { allowedOrigins: parseOrigins(webChatOrigins) },
+        };
+      } else if (platform === "EMAIL") {
+        if (!emailAddress.trim() || !emailPassword || !imapHost.trim() || !smtpHost.trim()) return;
+        payload = {
+          name: botName.trim(),
+          type: "EMAIL",
+          credentials: {
+            fromAddress: emailAddress.trim(),
+            // Most providers log in with the full address
+            username: emailUsername.trim() || emailAddress.trim(),
+            password: emailPassword,
+            imapHost: imapHost.trim(),
+            imapPort: Number(imapPort),
+            smtpHost: smtpHost.trim(),
+            smtpPort: Number(smtpPort),
+          },
+        };
+      } else if (platform === "MATRIX") {
+        if (!matrixHomeserver.trim() || !matrixAccessToken.trim()) return;
+        payload = {
+          name: botName.trim(),
+          type: "MATRIX",
+          credentials: {
+            homeserverUrl: matrixHomeserver.trim().replace(/\/+$/, ""),
+            accessToken: matrixAccessToken.trim(),
+          },
+        };
       } else {
         // WHATSAPP_BOT
         if (!waAccessToken.trim() || !waAppSecret.trim() || !waPhoneNumberId.trim() || !waVerifyToken.trim()) return;
@@ -328,7 +422,7 @@ export function CreateBotWizard({
     } finally {
       setIsCreatingGateway(false);
     }
-  }, [botName, platform, botToken, discordBotToken, discordAppId, discordPublicKey, slackBotToken, slackSigningSecret, waAccessToken, waAppSecret, waPhoneNumberId, waBusinessAccountId, waVerifyToken, token, organizationId]);
+  }, [botName, platform, botToken, telegramPolling, discordBotToken, discordAppId, discordPublicKey, slackBotToken, slackSigningSecret, waAccessToken, waAppSecret, waPhoneNumberId, waBusinessAccountId, waVerifyToken, webChatOrigins, emailAddress, emailUsername, emailPassword, imapHost, imapPort, smtpHost, smtpPort, matrixHomeserver, matrixAccessToken, token, organizationId]);
 
   // Step 2: Add selected plugin as a workflow step
   const handleAddWorkflowStep = useCallback(async () => {
@@ -402,10 +496,30 @@ export function CreateBotWizard({
     /^\d+$/.test(waPhoneNumberId.trim()) &&
     waVerifyToken.trim().length > 0;
 
+  const isValidWebChatOrigins = parseOrigins(webChatOrigins).every((o) =>
+    /^https?:\/\/[^/\s]+$/.test(o),
+  );
+
+  const isValidPort = (port: string) => /^\d{1,5}$/.test(port) && Number(port) > 0 && Number(port) <= 65535;
+  const isValidEmailCreds =
+    /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(emailAddress.trim()) &&
+    emailPassword.length > 0 &&
+    imapHost.trim().length > 0 &&
+    smtpHost.trim().length > 0 &&
+    isValidPort(imapPort.trim()) &&
+    isValidPort(smtpPort.trim());
+
+  const isValidMatrixCreds =
+    /^https?:\/\/[^/\s]+/.test(matrixHomeserver.trim()) &&
+    matrixAccessToken.trim().length > 0;
+
   const canCreate = botName.trim() &&
     (platform === "TELEGRAM_BOT" ? isValidBotToken :
      platform === "DISCORD_BOT" ? isValidDiscordCreds :
-     platform === "SLACK_BOT" ? isValidSlackCreds : isValidWhatsAppCreds);
+     platform === "SLACK_BOT" ? isValidSlackCreds :
+     platform === "WEB_CHAT" ? isValidWebChatOrigins :
+     platform === "EMAIL" ? isValidEmailCreds :
+     platform === "MATRIX" ? isValidMatrixCreds : isValidWhatsAppCreds);
 
   return (
     <Dialog open={open} onOpenChange={(o) => { if (!o) onClose(); }}>
@@ -489,6 +603,22 @@ export function CreateBotWizard({
                     </a>{" "}
                     on Telegram.
                   </p>
+                  <div className="flex items-center justify-between gap-4 pt-2">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="telegram-polling" className="text-foreground font-medium">
+                        Long polling
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        Fetch updates from Telegram instead of receiving webhooks. Use it when the
+                        server isn&apos;t reachable from the internet.
+                      </p>
+                    </div>
+                    <Switch
+                      id="telegram-polling"
+                      checked={telegramPolling}
+                      onCheckedChange={setTelegramPolling}
+                    />
+                  </div>
                 </div>
               )}
 
@@ -680,6 +810,172 @@ export function CreateBotWizard({
                   </p>
                 </div>
               )}
+
+              {/* Web Chat Fields */}
+              {platform === "WEB_CHAT" && (
+                <div className="space-y-2">
+                  <Label htmlFor="webchat-origins" className="text-foreground font-medium">
+                    Allowed Websites
+                    <span className="text-xs text-muted-foreground ml-1">(optional)</span>
+                  </Label>
+                  <Textarea
+                    id="webchat-origins"
+                    value={webChatOrigins}
+                    onChange={(e) => setWebChatOrigins(e.target.value)}
+                    placeholder={"https://example.com\nhttps://www.example.com"}
+                    rows={3}
+                    className="bg-muted border-border text-foreground font-mono"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    One origin per line. Leave empty to allow any site. After creating the bot,
+                    copy the embed snippet from its settings.
+                  </p>
+                </div>
+              )}
+
+              {/* Email Fields */}
+              {platform === "EMAIL" && (
+                <div className="space-y-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="email-address" className="text-foreground font-medium">
+                      Email Address
+                      <span className="text-xs text-destructive ml-1">*required</span>
+                    </Label>
+                    <Input
+                      id="email-address"
+                      type="email"
+                      value={emailAddress}
+                      onChange={(e) => setEmailAddress(e.target.value)}
+                      placeholder="support@example.com"
+                      className="bg-muted border-border text-foreground font-mono"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="email-username" className="text-foreground font-medium">
+                        Username
+                        <span className="text-xs text-muted-foreground ml-1">(optional)</span>
+                      </Label>
+                      <Input
+                        id="email-username"
+                        value={emailUsername}
+                        onChange={(e) => setEmailUsername(e.target.value)}
+                        placeholder="Defaults to the address"
+                        className="bg-muted border-border text-foreground font-mono"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="email-password" className="text-foreground font-medium">
+                        Password
+                        <span className="text-xs text-destructive ml-1">*required</span>
+                      </Label>
+                      <Input
+                        id="email-password"
+                        type="password"
+                        value={emailPassword}
+                        onChange={(e) => setEmailPassword(e.target.value)}
+                        placeholder="Mailbox or app password"
+                        className="bg-muted border-border text-foreground font-mono"
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-[1fr_6rem] gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="email-imap-host" className="text-foreground font-medium">
+                        IMAP Server
+                        <span className="text-xs text-destructive ml-1">*required</span>
+                      </Label>
+                      <Input
+                        id="email-imap-host"
+                        value={imapHost}
+                        onChange={(e) => setImapHost(e.target.value)}
+                        placeholder="imap.example.com"
+                        className="bg-muted border-border text-foreground font-mono"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="email-imap-port" className="text-foreground font-medium">
+                        Port
+                      </Label>
+                      <Input
+                        id="email-imap-port"
+                        inputMode="numeric"
+                        value={imapPort}
+                        onChange={(e) => setImapPort(e.target.value)}
+                        className="bg-muted border-border text-foreground font-mono"
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-[1fr_6rem] gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="email-smtp-host" className="text-foreground font-medium">
+                        SMTP Server
+                        <span className="text-xs text-destructive ml-1">*required</span>
+                      </Label>
+                      <Input
+                        id="email-smtp-host"
+                        value={smtpHost}
+                        onChange={(e) => setSmtpHost(e.target.value)}
+                        placeholder="smtp.example.com"
+                        className="bg-muted border-border text-foreground font-mono"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="email-smtp-port" className="text-foreground font-medium">
+                        Port
+                      </Label>
+                      <Input
+                        id="email-smtp-port"
+                        inputMode="numeric"
+                        value={smtpPort}
+                        onChange={(e) => setSmtpPort(e.target.value)}
+                        className="bg-muted border-border text-foreground font-mono"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Ports 993 (IMAP) and 465 (SMTP) use TLS; 587 upgrades with STARTTLS. New mail is
+                    checked every minute, and replies stay in the sender&apos;s thread.
+                  </p>
+                </div>
+              )}
+
+              {/* Matrix Fields */}
+              {platform === "MATRIX" && (
+                <div className="space-y-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="matrix-homeserver" className="text-foreground font-medium">
+                      Homeserver URL
+                      <span className="text-xs text-destructive ml-1">*required</span>
+                    </Label>
+                    <Input
+                      id="matrix-homeserver"
+                      value={matrixHomeserver}
+                      onChange={(e) => setMatrixHomeserver(e.target.value)}
+                      placeholder="https://matrix.example.com"
+                      className="bg-muted border-border text-foreground font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="matrix-access-token" className="text-foreground font-medium">
+                      Access Token
+                      <span className="text-xs text-destructive ml-1">*required</span>
+                    </Label>
+                    <Input
+                      id="matrix-access-token"
+                      type="password"
+                      value={matrixAccessToken}
+                      onChange={(e) => setMatrixAccessToken(e.target.value)}
+                      placeholder="syt_..."
+                      className="bg-muted border-border text-foreground font-mono"
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Log in as the bot account and copy its access token (Element: Settings &rarr; Help &amp;
+                    About). Invite the bot to a room and it joins automatically.
+                  </p>
+                </div>
+              )}
             </div>
 
             <DialogFooter>
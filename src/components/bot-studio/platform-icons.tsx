@@ -1,5 +1,5 @@
 /**
- * Platform SVG icons for Telegram, Discord, Slack, and WhatsApp.
+ * Platform SVG icons for Telegram, Discord, Slack, WhatsApp, Web Chat, Email, and Matrix.
  * Official brand shapes, rendered as inline SVGs for crisp display at any size.
  */
 
@@ -39,6 +39,30 @@ export function WhatsAppIcon(props: IconProps) {
   );
 }
 
+export function WebChatIcon(props: IconProps) {
+  return (
+    <svg viewBox="0 0 24 24" fill="currentColor" {...props}>
+      <path d="M4 3h16a2 2 0 0 1 2 2v11a2 2 0 0 1-2 2H9l-5 4v-4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2zm3 6.5a1.5 1.5 0 1 0 0 3 1.5 1.5 0 0 0 0-3zm5 0a1.5 1.5 0 1 0 0 3 1.5 1.5 0 0 0 0-3zm5 0a1.5 1.5 0 1 0 0 3 1.5 1.5 0 0 0 0-3z" />
+    </svg>
+  );
+}
+
+export function EmailIcon(props: IconProps) {
+  return (
+    <svg viewBox="0 0 24 24" fill="currentColor" {...props}>
+      <path d="M4 4h16a2 2 0 0 1 2 2v12a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2zm0 3.2V18h16V7.2l-8 5-8-5zM5.3 6 12 10.2 18.7 6H5.3z" />
+    </svg>
+  );
+}
+
+export function MatrixIcon(props: IconProps) {
+  return (
+    <svg viewBox="0 0 24 24" fill="currentColor" {...props}>
+      <path d="M.632.55v22.9H2.28V24H0V0h2.28v.55zm7.043 7.26v1.157h.033c.309-.443.683-.784 1.117-1.024.433-.245.936-.365 1.5-.365.54 0 1.033.107 1.481.314.448.208.785.582 1.02 1.108.254-.374.6-.706 1.034-.992.434-.287.95-.43 1.546-.43.453 0 .872.056 1.26.167.388.11.716.286.993.53.276.245.489.559.646.951.152.392.23.863.23 1.417v5.728h-2.349V11.52c0-.286-.01-.559-.032-.812a1.755 1.755 0 0 0-.18-.66 1.106 1.106 0 0 0-.438-.448c-.194-.11-.457-.166-.785-.166-.332 0-.6.064-.803.189a1.38 1.38 0 0 0-.48.499 1.946 1.946 0 0 0-.231.696 5.56 5.56 0 0 0-.06.785v4.768h-2.35v-4.8c0-.254-.004-.503-.018-.752a2.074 2.074 0 0 0-.143-.688 1.052 1.052 0 0 0-.415-.503c-.194-.125-.476-.19-.854-.19-.111 0-.259.024-.439.074-.18.051-.36.143-.53.282-.171.138-.319.337-.439.595-.12.259-.18.6-.18 1.02v4.966H5.46V7.81zm15.693 15.64V.55H21.72V0H24v24h-2.28v-.55z" />
+    </svg>
+  );
+}
+
 /**
  * Map GatewayType → icon component for use in lists/cards.
  * Returns a sized React element; pass className to customize.
@@ -59,6 +83,12 @@ export function PlatformIcon({
       return <SlackIcon className={className} />;
     case "WHATSAPP_BOT":
       return <WhatsAppIcon className={className} />;
+    case "WEB_CHAT":
+      return <WebChatIcon className={className} />;
+    case "EMAIL":
+      return <EmailIcon className={className} />;
+    case "MATRIX":
+      return <MatrixIcon className={className} />;
     default:
       return <Bot className={className} />;
   }
@@ -0,0 +1,269 @@
+"use client";
+
+/**
+ * Workflow Analytics
+ *
+ * Performance view of a workflow over the last 7 / 30 / 90 days: run
+ * volume per day, latency percentiles, failure rates, the slowest steps
+ * with their most common errors, and AI credits per run and step.
+ *
+ * @module components/bot-studio/workflow-analytics
+ */
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { WorkflowAnalytics, WorkflowDurationStats } from "@/lib/api-client";
+import { getWorkflowAnalytics } from "@/lib/api-client";
+import { Gauge, RefreshCw } from "lucide-react";
+import {
+    Bar,
+    BarChart,
+    CartesianGrid,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis,
+} from "recharts";
+import { toast } from "sonner";
+
+// ===========================================
+// Types
+// ===========================================
+
+interface WorkflowAnalyticsPanelProps {
+  workflowId: string;
+  token: string | null;
+  organizationId?: string;
+}
+
+// ===========================================
+// Helpers
+// ===========================================
+
+function formatMs(ms: number | null): string {
+  if (ms === null) return "—";
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(rate > 0 && rate < 0.1 ? 1 : 0)}%`;
+}
+
+function formatCredits(credits: number): string {
+  return credits < 10 ? credits.toFixed(2) : String(Math.round(credits));
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-md border border-border/60 bg-muted/20 px-3 py-2">
+      <p className="text-[10px] uppercase tracking-wide text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold text-foreground">{value}</p>
+      {hint ? <p className="text-[10px] text-muted-foreground">{hint}</p> : null}
+    </div>
+  );
+}
+
+function Percentiles({ stats }: { stats: WorkflowDurationStats }) {
+  return (
+    <>
+      <td className="px-2 py-1 text-right font-mono">{formatMs(stats.p50)}</td>
+      <td className="px-2 py-1 text-right font-mono">{formatMs(stats.p95)}</td>
+      <td className="px-2 py-1 text-right font-mono">{formatMs(stats.p99)}</td>
+    </>
+  );
+}
+
+// ===========================================
+// Main Component
+// ===========================================
+
+export function WorkflowAnalyticsPanel({ workflowId, token, organizationId }: WorkflowAnalyticsPanelProps) {
+  const [days, setDays] = useState(30);
+  const [analytics, setAnalytics] = useState<WorkflowAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchAnalytics = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const result = await getWorkflowAnalytics(workflowId, days, { organizationId }, token ?? undefined);
+      if (result.success && result.data) setAnalytics(result.data);
+    } catch {
+      toast.error("Failed to load workflow analytics");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workflowId, days, organizationId, token]);
+
+  useEffect(() => {
+    void fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const runs = analytics?.runs;
+
+  return (
+    <Card className="border-border bg-card/80">
+      <CardHeader className="pb-2 px-4 pt-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Gauge className="h-4 w-4 text-emerald-500" />
+            <h3 className="text-sm font-semibold text-foreground">Performance</h3>
+            {analytics ? (
+              <span className="text-[10px] text-muted-foreground">
+                {formatDay(analytics.from)} – {formatDay(analytics.to)} (UTC)
+              </span>
+            ) : null}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Select value={String(days)} onValueChange={(v) => setDays(Number(v))}>
+              <SelectTrigger className="h-7 text-xs w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">Last 7 days</SelectItem>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => void fetchAnalytics()}
+              disabled={isLoading}
+            >
+              <RefreshCw className={`h-3.5 w-3.5 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="px-4 pb-4 space-y-4">
+        {isLoading && !analytics ? (
+          <div className="space-y-2">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        ) : !analytics || !runs || runs.total === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-8">
+            No finished runs in this period yet
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <Stat label="Runs" value={runs.total.toLocaleString()} hint={`${runs.failed} failed`} />
+              <Stat label="Error rate" value={formatPercent(runs.errorRate)} />
+              <Stat
+                label="Duration p50 / p95"
+                value={`${formatMs(runs.durationMs.p50)} / ${formatMs(runs.durationMs.p95)}`}
+                hint={`p99 ${formatMs(runs.durationMs.p99)}`}
+              />
+              <Stat
+                label="AI credits per run"
+                value={formatCredits(runs.creditsPerRun)}
+                hint={`${formatCredits(runs.creditsUsed)} total`}
+              />
+            </div>
+
+            {/* Run volume */}
+            <div className="h-40">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={analytics.volume.map((d) => ({ ...d, label: formatDay(d.date), ok: d.runs - d.failed }))}
+                  margin={{ top: 4, right: 4, left: -20, bottom: 0 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#3f3f46" />
+                  <XAxis dataKey="label" tick={{ fontSize: 10 }} stroke="#71717a" interval="preserveStartEnd" />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 10 }} stroke="#71717a" />
+                  <Tooltip contentStyle={{ fontSize: 11 }} />
+                  <Bar dataKey="ok" name="Completed" stackId="runs" fill="#10b981" />
+                  <Bar dataKey="failed" name="Failed" stackId="runs" fill="#ef4444" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            {/* Steps, slowest first */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-[11px]">
+                <thead className="text-muted-foreground">
+                  <tr className="border-b border-border/50">
+                    <th className="px-2 py-1 text-left font-medium">Step</th>
+                    <th className="px-2 py-1 text-right font-medium">Runs</th>
+                    <th className="px-2 py-1 text-right font-medium">Errors</th>
+                    <th className="px-2 py-1 text-right font-medium">p50</th>
+                    <th className="px-2 py-1 text-right font-medium">p95</th>
+                    <th className="px-2 py-1 text-right font-medium">p99</th>
+                    <th className="px-2 py-1 text-right font-medium">Credits</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analytics.steps.map((step) => (
+                    <tr key={step.stepId} className="border-b border-border/30 align-top">
+                      <td className="px-2 py-1">
+                        <span className="text-foreground">
+                          {step.stepName ?? step.pluginSlug ?? `Step ${(step.stepOrder ?? 0) + 1}`}
+                        </span>
+                        {step.stepName === undefined ? (
+                          <Badge variant="outline" className="ml-1 text-[9px]">deleted</Badge>
+                        ) : null}
+                        {step.errors.length > 0 ? (
+                          <ul className="mt-0.5 space-y-0.5">
+                            {step.errors.slice(0, 3).map((e) => (
+                              <li key={e.message} className="text-[10px] text-red-400/80 truncate max-w-[320px]" title={e.message}>
+                                {e.count}× {e.message}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : null}
+                      </td>
+                      <td className="px-2 py-1 text-right">{step.executions.toLocaleString()}</td>
+                      <td className={`px-2 py-1 text-right ${step.failed > 0 ? "text-red-400" : ""}`}>
+                        {formatPercent(step.errorRate)}
+                      </td>
+                      <Percentiles stats={step.durationMs} />
+                      <td className="px-2 py-1 text-right font-mono">
+                        {step.creditsUsed > 0 ? formatCredits(step.creditsUsed) : "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {analytics.errors.length > 0 ? (
+              <div>
+                <p className="text-[10px] text-muted-foreground font-medium mb-1">Most common run errors</p>
+                <div className="space-y-0.5">
+                  {analytics.errors.map((e) => (
+                    <p key={e.message} className="flex gap-2 text-[10px] text-muted-foreground">
+                      <span className="font-mono text-red-400 shrink-0">{e.count}×</span>
+                      <span className="truncate" title={e.message}>{e.message}</span>
+                    </p>
+                  ))}
+                </div>
+              </div>
+            ) : null}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -59,27 +59,33 @@ import { useWorkspace } from "@/hooks/use-workspace";
 import type { PreflightReport, WorkflowEdgeItem, WorkflowStepItem } from "@/lib/api-client";
 import { parseStackFiles } from "@/lib/stack-trace-parser";
 import { apiUrl } from "@/shared/config/urls";
+import { getStepOutputPorts } from "@/shared/constants/workflow-ports";
 import type { ConfigSchema, PluginSchemaSet } from "@/shared/types/plugin";
 import type { WorkspaceFileEntry } from "@/shared/types/workspace";
 import {
+    AlarmClock,
     AlertCircle,
     ArrowDown,
     ArrowLeft,
     ArrowUpRight,
     BarChart3,
     Bot,
+    Braces,
     CheckCircle2,
     ChevronDown,
     Cloud,
     Code,
     Copy,
     FileText,
+    GitBranch,
     Globe,
     GripVertical,
+    Hourglass,
     Image,
     Loader2,
     MapPin,
     MessageCircle,
+    MessageCircleReply,
     MessageSquare,
     Plus,
     Power,
@@ -91,9 +97,13 @@ import {
     Settings2,
     Shield,
     SkipForward,
+    Sparkles,
+    Split,
     Terminal,
     Timer,
     Trash2,
+    Variable,
+    Workflow,
     XCircle,
     Zap,
     type LucideIcon,
@@ -207,8 +217,8 @@ interface WorkflowCanvasProps {
   onSaveStep?: (stepId: string, data: StepEditorData) => Promise<void>;
   /** Save node position after drag */
   onSaveNodePosition?: (stepId: string, positionX: number, positionY: number) => Promise<void>;
-  /** Add a graph edge (connection) */
-  onAddEdge?: (sourceStepId: string | null, targetStepId: string) => Promise<void>;
+  /** Add a graph edge (connection); sourcePort is set for router step handles */
+  onAddEdge?: (sourceStepId: string | null, targetStepId: string, sourcePort?: string) => Promise<void>;
   /** Delete a graph edge */
   onDeleteEdge?: (edgeId: string) => Promise<void>;
 }
@@ -398,15 +408,27 @@ function _stepSummary(step: WorkflowStepItem): string | null {
 const PLUGIN_ICONS: Record<string, LucideIcon> = {
   "ai-chat-bot": Bot,
   "ai-image-bot": Image,
+  "ai-prompt": Sparkles,
   "analytics": BarChart3,
   "api-service": Globe,
   "auto-responder": Repeat,
   "blank": FileText,
   "command-bot": Terminal,
+  "delay": Hourglass,
   "echo-bot": MessageCircle,
+  "foreach": Repeat,
+  "http-request": Globe,
+  "http-response": Globe,
+  "if-else": GitBranch,
   "multi-file-bot": FileText,
   "scheduled-reporter": Timer,
+  "set-variable": Variable,
   "storage-demo": Code,
+  "sub-workflow": Workflow,
+  "switch": Split,
+  "transform": Braces,
+  "wait-for-reply": MessageCircleReply,
+  "wait-until": AlarmClock,
   "weather-bot": Cloud,
 };
 
@@ -451,6 +473,11 @@ function StepNode({ data }: NodeProps<Node<StepNodeData>>) {
 
   const hasCondition = Boolean(step.condition);
   const inputCount = Object.keys(step.inputMapping ?? {}).length;
+  // Router steps (if/else, switch) get one source handle per named port
+  const outputPorts = useMemo(
+    () => getStepOutputPorts(step.pluginSlug, step.config),
+    [step.pluginSlug, step.config],
+  );
 
   // ---- I/O field labels — dynamic from plugin schemas ----
   const inputFieldLabels = useMemo(
@@ -565,6 +592,10 @@ function StepNode({ data }: NodeProps<Node<StepNodeData>>) {
       <div className="absolute -top-2 -right-2 z-10 flex items-center gap-0.5 bg-sky-500 text-white rounded-full px-1.5 py-0.5 text-[9px] font-medium shadow-sm animate-pulse">
         <Loader2 className="h-2.5 w-2.5 animate-spin" /> Running
       </div>
+    ) : runStatus.status === "waiting" ? (
+      <div className="absolute -top-2 -right-2 z-10 flex items-center gap-0.5 bg-violet-500 text-white rounded-full px-1.5 py-0.5 text-[9px] font-medium shadow-sm">
+        <Hourglass className="h-2.5 w-2.5" /> Waiting
+      </div>
     ) : null
   ) : null;
 
@@ -573,6 +604,8 @@ function StepNode({ data }: NodeProps<Node<StepNodeData>>) {
       className={`rounded-lg border-2 transition-all cursor-pointer group relative ${
         stepDisabled
           ? "border-dashed border-zinc-500/40 bg-zinc-500/5 opacity-50"
+          : runStatus?.status === "running"
+            ? "border-sky-500 bg-sky-500/5 shadow-lg shadow-sky-500/20"
           : stepError
             ? "border-red-500/60 bg-red-500/5 shadow-md shadow-red-500/10"
             : hasCondition && !isSelected
@@ -599,8 +632,28 @@ function StepNode({ data }: NodeProps<Node<StepNodeData>>) {
       {/* Single input handle */}
       <Handle type="target" position={Position.Left} className="!w-3 !h-3 !border-2 !border-background" style={{ backgroundColor: "#38bdf8" }} />
 
-      {/* Single output handle */}
-      <Handle type="source" position={Position.Right} className="!w-3 !h-3 !border-2 !border-background" style={{ backgroundColor: "var(--canvas-accent, #10b981)" }} />
+      {/* Output handle(s) — one per port for router steps */}
+      {outputPorts ? (
+        outputPorts.map((port, i) => (
+          <Handle
+            key={port}
+            id={port}
+            type="source"
+            position={Position.Right}
+            className="!w-3 !h-3 !border-2 !border-background"
+            style={{
+              top: `${((i + 1) / (outputPorts.length + 1)) * 100}%`,
+              backgroundColor: port === "false" || port === "default" ? "#a1a1aa" : "var(--canvas-accent, #10b981)",
+            }}
+          >
+            <span className="absolute left-3.5 -top-1 text-[9px] font-mono text-muted-foreground whitespace-nowrap pointer-events-none">
+              {port}
+            </span>
+          </Handle>
+        ))
+      ) : (
+        <Handle type="source" position={Position.Right} className="!w-3 !h-3 !border-2 !border-background" style={{ backgroundColor: "var(--canvas-accent, #10b981)" }} />
+      )}
 
       {/* Run status overlay */}
       {runStatusIcon}
@@ -1470,6 +1523,8 @@ export function WorkflowCanvas({
       for (const we of workflowEdges) {
         const sourceId = we.sourceStepId ? `step-${we.sourceStepId}` : "trigger";
         const targetId = `step-${we.targetStepId}`;
+        const sourceStep = we.sourceStepId ? sortedSteps.find((s) => s.id === we.sourceStepId) : undefined;
+        const sourcePorts = sourceStep ? getStepOutputPorts(sourceStep.pluginSlug, sourceStep.config) : null;
         const targetStep = sortedSteps.find((s) => s.id === we.targetStepId);
         const stepIsDisabled = targetStep?.isEnabled === false;
 
@@ -1477,6 +1532,8 @@ export function WorkflowCanvas({
         let edgeLabel: string | undefined;
         if (stepIsDisabled) {
           edgeLabel = "skipped";
+        } else if (sourcePorts) {
+          edgeLabel = we.sourcePort;
         } else if (inputKeys.length > 0) {
           edgeLabel = `${inputKeys.length} input${inputKeys.length !== 1 ? "s" : ""} mapped`;
         }
@@ -1485,10 +1542,15 @@ export function WorkflowCanvas({
         edges.push({
           id: edgeId,
           source: sourceId,
+          sourceHandle: sourcePorts ? we.sourcePort : undefined,
           target: targetId,
           type: "insertBetween",
           selectable: !isDisabled,
-          animated: !stepIsDisabled && targetStep?.condition !== null && targetStep?.condition !== undefined,
+          // Animate while data flows in: the target is running, or the edge is conditional
+          animated: !stepIsDisabled && (
+            stepRunStatuses?.[we.targetStepId]?.status === "running" ||
+            (targetStep?.condition !== null && targetStep?.condition !== undefined)
+          ),
           label: edgeLabel,
           data: {
             onDelete: isDisabled ? undefined : () => onDeleteEdge?.(edgeId),
@@ -1522,6 +1584,7 @@ export function WorkflowCanvas({
         const nodeId = `step-${step.id}`;
         const prevStep = sortedSteps[idx - 1];
         const sourceId = idx === 0 || !prevStep ? "trigger" : `step-${prevStep.id}`;
+        const prevPorts = idx > 0 && prevStep ? getStepOutputPorts(prevStep.pluginSlug, prevStep.config) : null;
         const stepIsDisabled = step.isEnabled === false;
 
         const inputKeys = Object.keys(step.inputMapping ?? {});
@@ -1535,9 +1598,13 @@ export function WorkflowCanvas({
         edges.push({
           id: `e-${sourceId}-${nodeId}`,
           source: sourceId,
+          sourceHandle: prevPorts?.[0],
           target: nodeId,
           type: "insertBetween",
-          animated: !stepIsDisabled && step.condition !== null && step.condition !== undefined,
+          animated: !stepIsDisabled && (
+            stepRunStatuses?.[step.id]?.status === "running" ||
+            (step.condition !== null && step.condition !== undefined)
+          ),
           label: edgeLabel,
           data: { onDelete: undefined },
           labelStyle: {
@@ -1756,8 +1823,9 @@ export function WorkflowCanvas({
       const sourceStepId = connection.source === "trigger" ? null : connection.source?.replace("step-", "") ?? null;
       const targetStepId = connection.target?.replace("step-", "");
       if (!targetStepId) return;
-      // Persist to backend (UI refreshes from backend state)
-      onAddEdge(sourceStepId, targetStepId);
+      // Persist to backend (UI refreshes from backend state). Router steps
+      // connect from a named handle, which becomes the edge's sourcePort.
+      onAddEdge(sourceStepId, targetStepId, connection.sourceHandle ?? undefined);
     },
     [onAddEdge, isDisabled]
   );
@@ -32,7 +32,7 @@ import type {
     WorkflowRunSummary,
     WorkflowStepRunDetail,
 } from "@/lib/api-client";
-import { getWorkflowRunDetail, getWorkflowRuns } from "@/lib/api-client";
+import { getWorkflowRunDetail, getWorkflowRuns, retryWorkflowRun } from "@/lib/api-client";
 import { parseStackFiles } from "@/lib/stack-trace-parser";
 import {
     AlertCircle,
@@ -41,11 +41,13 @@ import {
     ChevronRight,
     Clock,
     FileCode,
+    Hourglass,
     Loader2,
     Play,
     RefreshCw,
     RotateCcw,
     SkipForward,
+    StepForward,
     XCircle,
 } from "lucide-react";
 import { toast } from "sonner";
@@ -72,6 +74,10 @@ function formatDuration(ms?: number): string {
   return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
 }
 
+function formatCredits(credits: number): string {
+  return credits < 10 ? credits.toFixed(2) : String(Math.round(credits));
+}
+
 function formatTime(dateStr?: string): string {
   if (!dateStr) return "—";
   const d = new Date(dateStr);
@@ -88,6 +94,7 @@ const STATUS_CONFIG: Record<string, { icon: typeof CheckCircle2; color: string;
   COMPLETED: { icon: CheckCircle2, color: "text-emerald-500", label: "Completed" },
   FAILED: { icon: XCircle, color: "text-red-500", label: "Failed" },
   RUNNING: { icon: Loader2, color: "text-sky-500", label: "Running" },
+  WAITING: { icon: Hourglass, color: "text-violet-500", label: "Waiting" },
   PENDING: { icon: Clock, color: "text-amber-500", label: "Pending" },
   CANCELLED: { icon: XCircle, color: "text-zinc-500", label: "Cancelled" },
 };
@@ -96,6 +103,7 @@ const STEP_STATUS_CONFIG: Record<string, { icon: typeof CheckCircle2; color: str
   COMPLETED: { icon: CheckCircle2, color: "text-emerald-500" },
   FAILED: { icon: XCircle, color: "text-red-500" },
   RUNNING: { icon: Loader2, color: "text-sky-500" },
+  WAITING: { icon: Hourglass, color: "text-violet-500" },
   PENDING: { icon: Clock, color: "text-zinc-400" },
   SKIPPED: { icon: SkipForward, color: "text-zinc-400" },
 };
@@ -120,6 +128,7 @@ function friendlyTriggerSource(raw: string): string {
     WEBHOOK: "Incoming webhook",
     SCHEDULE: "Scheduled",
     MANUAL: "Manual run",
+    workflow_failure: "Failure handler",
   };
   return map[raw] ?? raw;
 }
@@ -147,12 +156,65 @@ const LOG_LEVEL_COLORS: Record<string, string> = {
   debug: "text-zinc-500",
 };
 
+/**
+ * Foreach iterations of one step run, one collapsible group per item. Each
+ * group lists the loop-body step runs recorded for that item.
+ */
+function IterationList({ childRuns }: { childRuns: WorkflowStepRunDetail[] }) {
+  const [openIteration, setOpenIteration] = useState<number | null>(null);
+
+  const byIteration = new Map<number, WorkflowStepRunDetail[]>();
+  for (const sr of childRuns) {
+    const key = sr.iteration ?? 0;
+    byIteration.set(key, [...(byIteration.get(key) ?? []), sr]);
+  }
+  const iterations = [...byIteration.entries()].sort(([a], [b]) => a - b);
+
+  return (
+    <div>
+      <p className="text-[10px] text-muted-foreground font-medium mb-0.5">
+        Iterations ({iterations.length}):
+      </p>
+      {iterations.map(([iteration, runs]) => {
+        const failed = runs.some((sr) => sr.status === "FAILED");
+        const running = runs.some((sr) => sr.status === "RUNNING");
+        const cfg = STEP_STATUS_CONFIG[failed ? "FAILED" : running ? "RUNNING" : "COMPLETED"] ??
+          { icon: Clock, color: "text-zinc-400" };
+        const Icon = cfg.icon;
+        const isOpen = openIteration === iteration;
+        return (
+          <div key={iteration}>
+            <button
+              className="flex items-center gap-2 w-full text-left py-0.5 hover:bg-muted/50 rounded px-1"
+              onClick={() => setOpenIteration(isOpen ? null : iteration)}
+            >
+              <Icon className={`h-3 w-3 ${cfg.color} shrink-0 ${running ? "animate-spin" : ""}`} />
+              <span className="text-[10px] font-medium text-foreground flex-1">Item #{iteration}</span>
+              {isOpen
+                ? <ChevronDown className="h-3 w-3 text-muted-foreground shrink-0" />
+                : <ChevronRight className="h-3 w-3 text-muted-foreground shrink-0" />}
+            </button>
+            {isOpen
+              ? runs
+                  .sort((a, b) => a.stepOrder - b.stepOrder)
+                  .map((sr) => <StepRunRow key={sr.id} stepRun={sr} />)
+              : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 function StepRunRow({
   stepRun,
   logs,
+  childRuns,
 }: {
   stepRun: WorkflowStepRunDetail;
   logs?: CapturedLogLine[];
+  /** Loop-body step runs when this is a foreach step */
+  childRuns?: WorkflowStepRunDetail[];
 }) {
   const cfg = STEP_STATUS_CONFIG[stepRun.status] ?? { icon: Clock, color: "text-zinc-400" };
   const Icon = cfg.icon;
@@ -173,7 +235,7 @@ function StepRunRow({
             {formatDuration(stepRun.durationMs)}
           </span>
         ) : null}
-        {(stepRun.output !== undefined && stepRun.output !== null) || stepRun.error || (stepRun.input !== undefined && stepRun.input !== null) || (logs && logs.length > 0) ? (
+        {(stepRun.output !== undefined && stepRun.output !== null) || stepRun.error || (stepRun.input !== undefined && stepRun.input !== null) || (logs && logs.length > 0) || (childRuns && childRuns.length > 0) ? (
           showDetail
             ? <ChevronDown className="h-3 w-3 text-muted-foreground shrink-0" />
             : <ChevronRight className="h-3 w-3 text-muted-foreground shrink-0" />
@@ -232,6 +294,9 @@ function StepRunRow({
               </div>
             </div>
           ) : null}
+          {childRuns && childRuns.length > 0 ? (
+            <IterationList childRuns={childRuns} />
+          ) : null}
           {logs && logs.length > 0 ? (
             <div>
               <p className="text-[10px] text-muted-foreground font-medium mb-0.5">
@@ -274,6 +339,7 @@ function RunRow({
   token,
   organizationId,
   onRetry,
+  onRunsChanged,
   forceCollapse,
 }: {
   run: WorkflowRunSummary;
@@ -281,11 +347,17 @@ function RunRow({
   token: string | null;
   organizationId?: string;
   onRetry?: () => Promise<void>;
+  /** Called after this row started a new run (resume from failed step) */
+  onRunsChanged?: () => void;
   forceCollapse?: number;
 }) {
   const [expanded, setExpanded] = useState(false);
   const [detail, setDetail] = useState<WorkflowRunDetail | null>(null);
   const [loadingDetail, setLoadingDetail] = useState(false);
+  const [resuming, setResuming] = useState(false);
+
+  // Sub-workflow runs are resumed through the run that called them
+  const canResume = run.status === "FAILED" && !run.parentRunId;
 
   const cfg = STATUS_CONFIG[run.status] ?? { icon: Clock, color: "text-amber-500", label: "Unknown" };
   const Icon = cfg.icon;
@@ -321,6 +393,43 @@ function RunRow({
     }
   }, [expanded, detail, workflowId, run.id, organizationId, token]);
 
+  const handleResume = useCallback(async () => {
+    setResuming(true);
+    try {
+      const result = await retryWorkflowRun(
+        workflowId,
+        run.id,
+        {},
+        { organizationId },
+        token ?? undefined
+      );
+      if (result.success) {
+        toast.success("Run resumed from the failed step");
+        onRunsChanged?.();
+      } else {
+        toast.error(result.error?.message ?? "Failed to resume run");
+      }
+    } catch {
+      toast.error("Failed to resume run");
+    } finally {
+      setResuming(false);
+    }
+  }, [workflowId, run.id, organizationId, token, onRunsChanged]);
+
+  const resumeButton = canResume ? (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-6 px-2 text-[10px] text-red-400 hover:text-foreground gap-1 shrink-0"
+      onClick={(e) => { e.stopPropagation(); void handleResume(); }}
+      disabled={resuming}
+      title="Re-run from the failed step, reusing the results of steps that completed"
+    >
+      {resuming ? <Loader2 className="h-3 w-3 animate-spin" /> : <StepForward className="h-3 w-3" />}
+      {detail?.failedStepOrder !== undefined ? `Resume from step ${detail.failedStepOrder}` : "Resume"}
+    </Button>
+  ) : null;
+
   return (
     <div className="border-b border-border last:border-b-0">
       <button
@@ -351,6 +460,20 @@ function RunRow({
             <span className="text-[10px] text-muted-foreground">
               · {run.stepsCompleted}/{run.totalSteps} steps
             </span>
+            {run.status === "WAITING" && run.resumeAt ? (
+              <span className="text-[10px] text-violet-500">
+                · resumes {formatTime(run.resumeAt)}
+              </span>
+            ) : null}
+            {run.parentRunId ? (
+              <span className="text-[10px] text-muted-foreground">· sub-workflow run</span>
+            ) : null}
+            {run.retryOfRunId ? (
+              <span className="text-[10px] text-muted-foreground">· resumed run</span>
+            ) : null}
+            {run.workflowVersion ? (
+              <span className="text-[10px] text-muted-foreground">· v{run.workflowVersion}</span>
+            ) : null}
           </div>
         </div>
 
@@ -378,6 +501,7 @@ function RunRow({
                 <div className="flex items-start gap-1.5 text-xs text-red-400 bg-red-500/10 rounded px-2 py-1.5 mb-2">
                   <AlertCircle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
                   <span className="break-all flex-1">{detail.error}</span>
+                  {resumeButton}
                   {onRetry && run.status === "FAILED" ? (
                     <Button
                       variant="ghost"
@@ -391,17 +515,20 @@ function RunRow({
                 </div>
               ) : null}
 
-              {/* Retry for failed runs without error text */}
-              {!detail.error && onRetry && run.status === "FAILED" ? (
-                <div className="mb-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="h-6 px-2 text-[10px] gap-1"
-                    onClick={(e) => { e.stopPropagation(); onRetry(); }}
-                  >
-                    <RotateCcw className="h-3 w-3" /> Retry this workflow
-                  </Button>
+              {/* Resume / retry for failed runs without error text */}
+              {!detail.error && (resumeButton || (onRetry && run.status === "FAILED")) ? (
+                <div className="flex items-center gap-1 mb-2">
+                  {resumeButton}
+                  {onRetry && run.status === "FAILED" ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-6 px-2 text-[10px] gap-1"
+                      onClick={(e) => { e.stopPropagation(); onRetry(); }}
+                    >
+                      <RotateCcw className="h-3 w-3" /> Retry this workflow
+                    </Button>
+                  ) : null}
                 </div>
               ) : null}
 
@@ -415,13 +542,16 @@ function RunRow({
                   out && typeof out === "object" && "_stepLogs" in out
                     ? (out as { _stepLogs?: Record<string, CapturedLogLine[]> })._stepLogs
                     : undefined;
+                // Foreach iterations nest under the foreach step's own run.
                 return detail.stepRuns
+                  .filter((stepRun) => stepRun.iteration === undefined)
                   .sort((a, b) => a.stepOrder - b.stepOrder)
                   .map((stepRun) => (
                     <StepRunRow
                       key={stepRun.id}
                       stepRun={stepRun}
                       logs={stepLogs?.[String(stepRun.stepOrder)]}
+                      childRuns={detail.stepRuns.filter((sr) => sr.parentStepRunId === stepRun.id)}
                     />
                   ));
               })()}
@@ -432,6 +562,64 @@ function RunRow({
                 </p>
               )}
 
+              {/* 2Bot AI credits the steps spent */}
+              {detail.creditsUsed ? (
+                <div className="mt-2 border-t border-border/50 pt-2">
+                  <p className="text-[10px] text-muted-foreground font-medium mb-1">
+                    AI credits: {formatCredits(detail.creditsUsed)}
+                  </p>
+                  <div className="space-y-0.5">
+                    {detail.stepCredits?.map((sc) => {
+                      const stepRun = detail.stepRuns.find((sr) => sr.stepOrder === sc.stepOrder);
+                      return (
+                        <p key={sc.stepOrder} className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+                          <span className="truncate">{stepRun?.stepName ?? stepRun?.pluginSlug ?? `Step ${sc.stepOrder + 1}`}</span>
+                          <span className="font-mono text-muted-foreground/60">{formatCredits(sc.creditsUsed)}</span>
+                        </p>
+                      );
+                    })}
+                  </div>
+                </div>
+              ) : null}
+
+              {/* Runs started by sub-workflow steps */}
+              {detail.childRuns && detail.childRuns.length > 0 ? (
+                <div className="mt-2 border-t border-border/50 pt-2">
+                  <p className="text-[10px] text-muted-foreground font-medium mb-1">Sub-workflow runs</p>
+                  <div className="space-y-0.5">
+                    {detail.childRuns.map((child) => {
+                      const childCfg = STATUS_CONFIG[child.status] ?? { color: "text-amber-500", label: child.status };
+                      return (
+                        <p key={child.id} className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+                          <span className={childCfg.color}>{childCfg.label}</span>
+                          <span className="truncate">{child.workflowName}</span>
+                          <span className="font-mono text-muted-foreground/60">{child.id}</span>
+                        </p>
+                      );
+                    })}
+                  </div>
+                </div>
+              ) : null}
+
+              {/* Runs that resumed this one from its failing step */}
+              {detail.retries && detail.retries.length > 0 ? (
+                <div className="mt-2 border-t border-border/50 pt-2">
+                  <p className="text-[10px] text-muted-foreground font-medium mb-1">Resumed as</p>
+                  <div className="space-y-0.5">
+                    {detail.retries.map((retry) => {
+                      const retryCfg = STATUS_CONFIG[retry.status] ?? { color: "text-amber-500", label: retry.status };
+                      return (
+                        <p key={retry.id} className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+                          <span className={retryCfg.color}>{retryCfg.label}</span>
+                          <span>{formatTime(retry.startedAt)}</span>
+                          <span className="font-mono text-muted-foreground/60">{retry.id}</span>
+                        </p>
+                      );
+                    })}
+                  </div>
+                </div>
+              ) : null}
+
               {/* System log (auto-reply status, gateway info) */}
               {(() => {
                 const output = detail.output as Record<string, unknown> | undefined;
@@ -546,6 +734,7 @@ export function WorkflowRunHistory({
                 <SelectItem value="COMPLETED">Completed</SelectItem>
                 <SelectItem value="FAILED">Failed</SelectItem>
                 <SelectItem value="RUNNING">Running</SelectItem>
+                <SelectItem value="WAITING">Waiting</SelectItem>
               </SelectContent>
             </Select>
 
@@ -596,6 +785,7 @@ export function WorkflowRunHistory({
                   token={token}
                   organizationId={organizationId}
                   onRetry={onRetry}
+                  onRunsChanged={fetchRuns}
                   forceCollapse={collapseCounter}
                 />
               ))}
@@ -29,7 +29,7 @@ import {
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
-import type { WorkflowStepItem } from "@/lib/api-client";
+import type { StepErrorClass, StepRetryPolicy, WorkflowStepItem } from "@/lib/api-client";
 import type { ConfigSchema } from "@/shared/types/plugin";
 import {
     ChevronDown,
@@ -265,9 +265,20 @@ export interface StepEditorData {
   config?: Record<string, unknown>;
   onError?: string;
   maxRetries?: number;
+  retryPolicy?: Partial<StepRetryPolicy>;
   condition?: { if: string } | null;
 }
 
+/** Retryable failure classes, in display order */
+const RETRY_ERROR_CLASSES: Array<{ value: StepErrorClass; label: string }> = [
+  { value: "timeout", label: "Timeouts" },
+  { value: "network", label: "Network errors" },
+  { value: "rate_limit", label: "Rate limits (429)" },
+  { value: "server", label: "Server errors (5xx)" },
+  { value: "circuit_open", label: "Plugin paused (circuit open)" },
+  { value: "plugin", label: "Other plugin errors" },
+];
+
 // ===========================================
 // Component
 // ===========================================
@@ -285,6 +296,12 @@ export function WorkflowStepEditor({
   const [pluginConfig, setPluginConfig] = useState<Record<string, unknown>>(step.config || {});
   const [onError, setOnError] = useState(step.onError || "stop");
   const [maxRetries, setMaxRetries] = useState(step.maxRetries ?? 0);
+  const [retryDelaySec, setRetryDelaySec] = useState((step.retryPolicy?.initialDelayMs ?? 1000) / 1000);
+  const [retryMultiplier, setRetryMultiplier] = useState(step.retryPolicy?.multiplier ?? 2);
+  const [retryMaxDelaySec, setRetryMaxDelaySec] = useState((step.retryPolicy?.maxDelayMs ?? 10_000) / 1000);
+  const [retryOn, setRetryOn] = useState<StepErrorClass[]>(
+    () => step.retryPolicy?.retryOn ?? RETRY_ERROR_CLASSES.map((c) => c.value)
+  );
   const [timeoutSec, setTimeoutSec] = useState(() => {
     const ms = (step.config as Record<string, unknown> | null)?.timeoutMs;
     return typeof ms === "number" ? Math.round(ms / 1000) : 60;
@@ -362,6 +379,15 @@ export function WorkflowStepEditor({
         config: { ...pluginConfig, timeoutMs: timeoutSec * 1000, gatewayActionsEnabled },
         onError,
         maxRetries,
+        retryPolicy: onError === "retry"
+          ? {
+              initialDelayMs: Math.round(retryDelaySec * 1000),
+              multiplier: retryMultiplier,
+              maxDelayMs: Math.round(Math.max(retryMaxDelaySec, retryDelaySec) * 1000),
+              jitter: true,
+              retryOn,
+            }
+          : undefined,
         condition: conditionEnabled && conditionExpr.trim()
           ? { if: conditionExpr.trim() }
           : null,
@@ -371,7 +397,7 @@ export function WorkflowStepEditor({
     } finally {
       setIsSaving(false);
     }
-  }, [step.id, name, mappings, pluginConfig, timeoutSec, onError, maxRetries, conditionEnabled, conditionExpr, gatewayActionsEnabled, onSave]);
+  }, [step.id, name, mappings, pluginConfig, timeoutSec, onError, maxRetries, retryDelaySec, retryMultiplier, retryMaxDelaySec, retryOn, conditionEnabled, conditionExpr, gatewayActionsEnabled, onSave]);
 
   return (
     <Card className="border-border">
@@ -623,6 +649,76 @@ export function WorkflowStepEditor({
           </div>
         </div>
 
+        {/* Retry Policy */}
+        {onError === "retry" ? (
+          <div className="space-y-2 rounded-md border border-border bg-muted/30 p-3">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs">First Delay (s)</Label>
+                <Input
+                  type="number"
+                  value={retryDelaySec}
+                  onChange={(e) => setRetryDelaySec(Math.max(0, Math.min(300, parseFloat(e.target.value) || 0)))}
+                  min={0}
+                  max={300}
+                  step={0.5}
+                  className="bg-muted border-border text-sm"
+                  disabled={isDisabled}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Multiplier</Label>
+                <Input
+                  type="number"
+                  value={retryMultiplier}
+                  onChange={(e) => setRetryMultiplier(Math.max(1, Math.min(10, parseFloat(e.target.value) || 1)))}
+                  min={1}
+                  max={10}
+                  step={0.5}
+                  className="bg-muted border-border text-sm"
+                  disabled={isDisabled}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">Max Delay (s)</Label>
+                <Input
+                  type="number"
+                  value={retryMaxDelaySec}
+                  onChange={(e) => setRetryMaxDelaySec(Math.max(0, Math.min(3600, parseFloat(e.target.value) || 0)))}
+                  min={0}
+                  max={3600}
+                  className="bg-muted border-border text-sm"
+                  disabled={isDisabled}
+                />
+              </div>
+            </div>
+            <p className="text-[10px] text-muted-foreground">
+              Each retry waits longer (delay × multiplier, up to the max), with some randomness so retries don&apos;t pile up.
+            </p>
+            <div className="space-y-1">
+              <Label className="text-xs">Retry on</Label>
+              <div className="grid grid-cols-2 gap-1">
+                {RETRY_ERROR_CLASSES.map((c) => (
+                  <label key={c.value} className="flex items-center gap-2 text-[11px] text-muted-foreground cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={retryOn.includes(c.value)}
+                      onChange={(e) =>
+                        setRetryOn((prev) =>
+                          e.target.checked ? [...prev, c.value] : prev.filter((v) => v !== c.value)
+                        )
+                      }
+                      className="rounded"
+                      disabled={isDisabled}
+                    />
+                    {c.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+        ) : null}
+
         {/* Gateway Actions Toggle */}
         <div className="space-y-1.5">
           <div className="flex items-center gap-2">
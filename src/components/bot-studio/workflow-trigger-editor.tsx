@@ -17,6 +17,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import type { WorkflowRateLimit } from "@/lib/api-client";
 import {
   Loader2,
   Save,
@@ -32,18 +34,73 @@ interface WorkflowTriggerEditorProps {
   triggerType: string;
   triggerConfig: Record<string, unknown>;
   gatewayType: string;
-  onSave: (data: { triggerType?: string; triggerConfig?: Record<string, unknown> }) => Promise<void>;
+  /** Workflow started when a run fails */
+  onFailureWorkflowId?: string;
+  /** Workflows that can be picked as the failure handler; hides the picker when unset */
+  failureWorkflowOptions?: Array<{ id: string; name: string }>;
+  /** Template that groups runs to be handled one at a time */
+  concurrencyKey?: string;
+  rateLimit?: WorkflowRateLimit;
+  onSave: (data: {
+    triggerType?: string;
+    triggerConfig?: Record<string, unknown>;
+    onFailureWorkflowId?: string | null;
+    concurrencyKey?: string | null;
+    rateLimit?: WorkflowRateLimit | null;
+  }) => Promise<void>;
   onClose: () => void;
   isDisabled?: boolean;
 }
 
+const NO_FAILURE_WORKFLOW = "none";
+
+const RATE_WINDOW_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: "60", label: "minute" },
+  { value: "3600", label: "hour" },
+  { value: "86400", label: "day" },
+];
+
 const TRIGGER_OPTIONS: Array<{ value: string; label: string; description: string }> = [
   { value: "BOT_MESSAGE", label: "When a message arrives", description: "Runs when any message is sent to your bot" },
   { value: "WEBHOOK", label: "When a webhook is called", description: "Runs when an external service sends data to a URL" },
   { value: "SCHEDULE", label: "On a schedule", description: "Runs at set times using a cron expression" },
   { value: "MANUAL", label: "Run manually", description: "Only runs when you click the Run button" },
+  { value: "PLATFORM_EVENT", label: "When something happens on 2bot", description: "Runs when another workflow finishes, a gateway changes status, an alert fires or a resource is updated" },
+];
+
+const PLATFORM_EVENT_OPTIONS: Array<{ value: string; label: string; fields: string }> = [
+  { value: "workflow.completed", label: "A workflow finished", fields: "workflowId, workflowName, status (completed / failed), triggeredBy" },
+  { value: "gateway.status_changed", label: "A gateway changed status", fields: "gatewayId, gatewayName, gatewayType, previousStatus, status (CONNECTED / ERROR / …)" },
+  { value: "alert.fired", label: "An alert fired", fields: "type (quota_warning, quota_exceeded, …), severity (info / warning / critical), resource" },
+  { value: "resource.updated", label: "A project resource was updated", fields: "resourceId, projectId, kind, slug, status, change (updated / archived)" },
 ];
 
+type EventFilterValue = string | number | boolean;
+
+/** `field = a | b` per line, as stored in `triggerConfig.filters` */
+function formatEventFilters(filters: unknown): string {
+  if (!filters || typeof filters !== "object") return "";
+  return Object.entries(filters as Record<string, EventFilterValue | EventFilterValue[]>)
+    .map(([field, value]) => `${field} = ${(Array.isArray(value) ? value : [value]).join(" | ")}`)
+    .join("\n");
+}
+
+function parseEventFilters(text: string): Record<string, EventFilterValue | EventFilterValue[]> {
+  const filters: Record<string, EventFilterValue | EventFilterValue[]> = {};
+  for (const line of text.split("\n")) {
+    const eq = line.indexOf("=");
+    if (eq <= 0) continue;
+    const field = line.slice(0, eq).trim();
+    const values = line.slice(eq + 1).split("|").map((v) => v.trim()).filter(Boolean).map((v): EventFilterValue => {
+      if (v === "true" || v === "false") return v === "true";
+      return /^-?\d+(\.\d+)?$/.test(v) ? Number(v) : v;
+    });
+    if (!field || values.length === 0) continue;
+    filters[field] = values.length === 1 ? (values[0] as EventFilterValue) : values;
+  }
+  return filters;
+}
+
 // ===========================================
 // Component
 // ===========================================
@@ -52,6 +109,10 @@ export function WorkflowTriggerEditor({
   triggerType,
   triggerConfig,
   gatewayType,
+  onFailureWorkflowId,
+  failureWorkflowOptions,
+  concurrencyKey,
+  rateLimit,
   onSave,
   onClose,
   isDisabled,
@@ -66,6 +127,16 @@ export function WorkflowTriggerEditor({
   const [cronExpr, setCronExpr] = useState(
     (triggerConfig.cron as string) ?? ""
   );
+  const [eventName, setEventName] = useState(
+    (triggerConfig.event as string) ?? "workflow.completed"
+  );
+  const [eventFilters, setEventFilters] = useState(formatEventFilters(triggerConfig.filters));
+  const [eventOrgWide, setEventOrgWide] = useState(triggerConfig.orgWide === true);
+  const [failureWorkflowId, setFailureWorkflowId] = useState(onFailureWorkflowId ?? NO_FAILURE_WORKFLOW);
+  const [runKey, setRunKey] = useState(concurrencyKey ?? "");
+  const [rateMax, setRateMax] = useState(rateLimit ? String(rateLimit.max) : "");
+  const [rateWindow, setRateWindow] = useState(String(rateLimit?.windowSeconds ?? 60));
+  const [rateReply, setRateReply] = useState(rateLimit?.reply ?? "");
   const [isSaving, setIsSaving] = useState(false);
 
   const handleSave = useCallback(async () => {
@@ -82,6 +153,19 @@ export function WorkflowTriggerEditor({
       if (type === "SCHEDULE" && cronExpr.trim()) config.cron = cronExpr.trim();
       else delete config.cron;
 
+      if (type === "PLATFORM_EVENT") {
+        config.event = eventName;
+        const filters = parseEventFilters(eventFilters);
+        if (Object.keys(filters).length > 0) config.filters = filters;
+        else delete config.filters;
+        if (eventOrgWide) config.orgWide = true;
+        else delete config.orgWide;
+      } else {
+        delete config.event;
+        delete config.filters;
+        delete config.orgWide;
+      }
+
       // For bot-message triggers with no filters, store a sentinel so the
       // preflight check knows this is intentional ("match all messages"),
       // not a misconfigured trigger.
@@ -92,13 +176,26 @@ export function WorkflowTriggerEditor({
         delete config.matchAll;
       }
 
-      await onSave({ triggerType: type, triggerConfig: config });
+      const max = parseInt(rateMax, 10);
+
+      await onSave({
+        triggerType: type,
+        triggerConfig: config,
+        ...(failureWorkflowOptions && {
+          onFailureWorkflowId: failureWorkflowId === NO_FAILURE_WORKFLOW ? null : failureWorkflowId,
+        }),
+        concurrencyKey: runKey.trim() || null,
+        rateLimit: max > 0
+          ? { max, windowSeconds: Number(rateWindow), ...(rateReply.trim() && { reply: rateReply.trim() }) }
+          : null,
+      });
     } finally {
       setIsSaving(false);
     }
-  }, [type, textPattern, commandPrefix, cronExpr, triggerConfig, onSave]);
+  }, [type, textPattern, commandPrefix, cronExpr, eventName, eventFilters, eventOrgWide, triggerConfig, failureWorkflowOptions, failureWorkflowId, runKey, rateMax, rateWindow, rateReply, onSave]);
 
   const isBotMessage = type === "BOT_MESSAGE" || type.endsWith("_MESSAGE") || type.endsWith("_COMMAND");
+  const isPlatformEvent = type === "PLATFORM_EVENT";
 
   return (
     <Card className="border-border">
@@ -207,12 +304,156 @@ export function WorkflowTriggerEditor({
           </div>
         ) : null}
 
+        {/* Platform event config */}
+        {isPlatformEvent ? (
+          <>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Event</Label>
+              <Select value={eventName} onValueChange={setEventName} disabled={isDisabled}>
+                <SelectTrigger className="bg-muted border-border text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PLATFORM_EVENT_OPTIONS.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs">Only when (optional)</Label>
+              <Textarea
+                value={eventFilters}
+                onChange={(e) => setEventFilters(e.target.value)}
+                placeholder="status = ERROR"
+                rows={3}
+                className="bg-muted border-border text-sm font-mono"
+                disabled={isDisabled}
+              />
+              <p className="text-[10px] text-muted-foreground">
+                One <code className="bg-muted px-1 rounded">field = value</code> per line; separate alternatives with <code className="bg-muted px-1 rounded">|</code>.
+                Fields: {PLATFORM_EVENT_OPTIONS.find((o) => o.value === eventName)?.fields}.
+                The event data is available as <code className="bg-muted px-1 rounded">{"{{trigger.data}}"}</code>.
+                A workflow never starts from an event its own runs caused.
+              </p>
+            </div>
+
+            <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={eventOrgWide}
+                onChange={(e) => setEventOrgWide(e.target.checked)}
+                className="rounded"
+                disabled={isDisabled}
+              />
+              Include events from other members of the organization
+            </label>
+          </>
+        ) : null}
+
+        {/* Run order & rate limit */}
+        {isBotMessage || type === "WEBHOOK" || isPlatformEvent ? (
+          <>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Handle runs one at a time per (optional)</Label>
+              <Input
+                value={runKey}
+                onChange={(e) => setRunKey(e.target.value)}
+                placeholder="{{trigger.message.chatId}}"
+                className="bg-muted border-border text-sm font-mono"
+                disabled={isDisabled}
+              />
+              <p className="text-[10px] text-muted-foreground">
+                {isBotMessage
+                  ? "Messages with the same value run in the order they arrived, so a fast-typing user gets replies in order."
+                  : "Limits below are counted per value."}
+              </p>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs">Rate limit (optional)</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  value={rateMax}
+                  onChange={(e) => setRateMax(e.target.value)}
+                  placeholder="No limit"
+                  className="bg-muted border-border text-sm w-28"
+                  disabled={isDisabled}
+                />
+                <span className="text-xs text-muted-foreground">runs per</span>
+                <Select value={rateWindow} onValueChange={setRateWindow} disabled={isDisabled}>
+                  <SelectTrigger className="bg-muted border-border text-sm w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RATE_WINDOW_OPTIONS.map((opt) => (
+                      <SelectItem key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isBotMessage && rateMax ? (
+                <Input
+                  value={rateReply}
+                  onChange={(e) => setRateReply(e.target.value)}
+                  placeholder="You're sending messages too fast — please wait a moment."
+                  className="bg-muted border-border text-sm"
+                  disabled={isDisabled}
+                />
+              ) : null}
+              <p className="text-[10px] text-muted-foreground">
+                {isBotMessage
+                  ? "Messages over the limit are ignored; the reply above (if any) is sent instead."
+                  : isPlatformEvent
+                    ? "Events over the limit are ignored."
+                    : "Calls over the limit get a 429 response."}
+              </p>
+            </div>
+          </>
+        ) : null}
+
+        {/* Failure handler */}
+        {failureWorkflowOptions ? (
+          <div className="space-y-1.5">
+            <Label className="text-xs">If a run fails, start…</Label>
+            <Select
+              value={failureWorkflowId}
+              onValueChange={setFailureWorkflowId}
+              disabled={isDisabled}
+            >
+              <SelectTrigger className="bg-muted border-border text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_FAILURE_WORKFLOW}>Nothing</SelectItem>
+                {failureWorkflowOptions.map((w) => (
+                  <SelectItem key={w.id} value={w.id}>
+                    {w.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-[10px] text-muted-foreground">
+              That workflow receives the error, the failed step and the original trigger data — use it to apologise to the user or open a ticket.
+            </p>
+          </div>
+        ) : null}
+
         {/* Gateway context */}
-        <div className="rounded-md border border-border bg-muted/20 p-2">
-          <p className="text-[10px] text-muted-foreground">
-            This trigger is connected to your <span className="font-medium text-foreground">{gatewayType.replace(/_/g, " ").toLowerCase()}</span>. Messages from that platform will start this workflow.
-          </p>
-        </div>
+        {!isPlatformEvent ? (
+          <div className="rounded-md border border-border bg-muted/20 p-2">
+            <p className="text-[10px] text-muted-foreground">
+              This trigger is connected to your <span className="font-medium text-foreground">{gatewayType.replace(/_/g, " ").toLowerCase()}</span>. Messages from that platform will start this workflow.
+            </p>
+          </div>
+        ) : null}
 
         {/* Save */}
         <div className="flex justify-end pt-2">
@@ -0,0 +1,368 @@
+"use client";
+
+/**
+ * Workflow Versions Panel
+ *
+ * Publish the draft (with an optional note), preview what publishing
+ * would change, browse earlier versions with what each one changed, and
+ * revert live traffic to an earlier version in one click.
+ *
+ * @module components/bot-studio/workflow-versions-panel
+ */
+
+import { useCallback, useEffect, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type {
+    WorkflowStepItem,
+    WorkflowVersionDiff,
+    WorkflowVersionSummary,
+} from "@/lib/api-client";
+import {
+    getWorkflowDraftDiff,
+    getWorkflowVersionDiff,
+    listWorkflowVersions,
+    publishWorkflow,
+    revertWorkflowVersion,
+} from "@/lib/api-client";
+import {
+    ChevronDown,
+    ChevronRight,
+    GitCommitHorizontal,
+    Loader2,
+    RefreshCw,
+    RotateCcw,
+    Upload,
+} from "lucide-react";
+import { toast } from "sonner";
+
+// ===========================================
+// Types
+// ===========================================
+
+interface WorkflowVersionsPanelProps {
+  workflowId: string;
+  /** Draft steps — used to label steps in diffs */
+  steps: WorkflowStepItem[];
+  token: string | null;
+  organizationId?: string;
+  /** Called after publish / revert so the workflow reloads */
+  onPublished?: () => void;
+}
+
+// ===========================================
+// Helpers
+// ===========================================
+
+function formatTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString(undefined, {
+    month: "short", day: "numeric", hour: "2-digit", minute: "2-digit",
+  });
+}
+
+function countChanges(diff: WorkflowVersionDiff): number {
+  return (
+    diff.steps.added.length + diff.steps.removed.length + diff.steps.changed.length +
+    diff.edges.added.length + diff.edges.removed.length
+  );
+}
+
+// ===========================================
+// Diff view
+// ===========================================
+
+function DiffView({ diff, steps }: { diff: WorkflowVersionDiff; steps: WorkflowStepItem[] }) {
+  const stepLabel = (entry: { id: string; order: number; name: string | null }) =>
+    entry.name || steps.find((s) => s.id === entry.id)?.pluginName || `Step ${entry.order}`;
+  const edgeCount = diff.edges.added.length + diff.edges.removed.length;
+
+  if (countChanges(diff) === 0) {
+    return <p className="text-[10px] text-muted-foreground">No changes</p>;
+  }
+
+  return (
+    <ul className="space-y-0.5 text-[10px]">
+      {diff.steps.added.map((s) => (
+        <li key={`a-${s.id}`} className="text-emerald-500">+ {stepLabel(s)}</li>
+      ))}
+      {diff.steps.removed.map((s) => (
+        <li key={`r-${s.id}`} className="text-red-400">− {stepLabel(s)}</li>
+      ))}
+      {diff.steps.changed.map((s) => (
+        <li key={`c-${s.id}`} className="text-amber-500">
+          ~ {stepLabel(s)} <span className="text-muted-foreground">({s.fields.join(", ")})</span>
+        </li>
+      ))}
+      {edgeCount > 0 ? (
+        <li className="text-muted-foreground">
+          {diff.edges.added.length} connection(s) added, {diff.edges.removed.length} removed
+        </li>
+      ) : null}
+    </ul>
+  );
+}
+
+// ===========================================
+// Version row
+// ===========================================
+
+function VersionRow({
+  version,
+  workflowId,
+  steps,
+  token,
+  organizationId,
+  onReverted,
+}: {
+  version: WorkflowVersionSummary;
+  workflowId: string;
+  steps: WorkflowStepItem[];
+  token: string | null;
+  organizationId?: string;
+  onReverted: () => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [diff, setDiff] = useState<WorkflowVersionDiff | null>(null);
+  const [loadingDiff, setLoadingDiff] = useState(false);
+  const [reverting, setReverting] = useState(false);
+
+  const handleExpand = useCallback(async () => {
+    if (expanded) {
+      setExpanded(false);
+      return;
+    }
+    setExpanded(true);
+    if (diff) return;
+
+    setLoadingDiff(true);
+    try {
+      const result = await getWorkflowVersionDiff(
+        workflowId,
+        version.version,
+        { organizationId },
+        token ?? undefined
+      );
+      if (result.success && result.data) {
+        setDiff(result.data.diff);
+      }
+    } catch {
+      toast.error("Failed to load version changes");
+    } finally {
+      setLoadingDiff(false);
+    }
+  }, [expanded, diff, workflowId, version.version, organizationId, token]);
+
+  const handleRevert = useCallback(async () => {
+    setReverting(true);
+    try {
+      const result = await revertWorkflowVersion(
+        workflowId,
+        version.version,
+        { organizationId },
+        token ?? undefined
+      );
+      if (result.success) {
+        toast.success(`Reverted to version ${version.version}`);
+        onReverted();
+      } else {
+        toast.error(result.error?.message ?? "Failed to revert");
+      }
+    } catch {
+      toast.error("Failed to revert");
+    } finally {
+      setReverting(false);
+    }
+  }, [workflowId, version.version, organizationId, token, onReverted]);
+
+  return (
+    <div className="border-b border-border last:border-b-0">
+      <button
+        className="flex items-center gap-2 w-full text-left px-3 py-2.5 hover:bg-muted/30 transition-colors"
+        onClick={handleExpand}
+      >
+        <GitCommitHorizontal className="h-4 w-4 text-muted-foreground shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-medium text-foreground">Version {version.version}</span>
+            {version.isPublished ? (
+              <Badge className="text-[9px] px-1 py-0">Live</Badge>
+            ) : null}
+          </div>
+          <div className="text-[10px] text-muted-foreground mt-0.5 truncate">
+            {formatTime(version.createdAt)} · {version.stepCount} steps
+            {version.note ? ` · ${version.note}` : ""}
+          </div>
+        </div>
+        {!version.isPublished ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-[10px] gap-1 shrink-0"
+            onClick={(e) => { e.stopPropagation(); void handleRevert(); }}
+            disabled={reverting}
+            title="Publish this version again as the live version"
+          >
+            {reverting ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+            Revert
+          </Button>
+        ) : null}
+        {expanded
+          ? <ChevronDown className="h-4 w-4 text-muted-foreground shrink-0" />
+          : <ChevronRight className="h-4 w-4 text-muted-foreground shrink-0" />}
+      </button>
+
+      {expanded ? (
+        <div className="px-3 pb-3 pl-9">
+          {loadingDiff ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />
+          ) : diff ? (
+            <DiffView diff={diff} steps={steps} />
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+// ===========================================
+// Main Component
+// ===========================================
+
+export function WorkflowVersionsPanel({
+  workflowId,
+  steps,
+  token,
+  organizationId,
+  onPublished,
+}: WorkflowVersionsPanelProps) {
+  const [versions, setVersions] = useState<WorkflowVersionSummary[]>([]);
+  const [draftDiff, setDraftDiff] = useState<WorkflowVersionDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [note, setNote] = useState("");
+  const [publishing, setPublishing] = useState(false);
+
+  const fetchVersions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [versionsResult, diffResult] = await Promise.all([
+        listWorkflowVersions(workflowId, { organizationId }, token ?? undefined),
+        getWorkflowDraftDiff(workflowId, { organizationId }, token ?? undefined),
+      ]);
+      if (versionsResult.success && versionsResult.data) {
+        setVersions(versionsResult.data);
+      }
+      if (diffResult.success && diffResult.data) {
+        setDraftDiff(diffResult.data.diff);
+      }
+    } catch {
+      toast.error("Failed to load versions");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workflowId, organizationId, token]);
+
+  // Re-fetch when the draft changes so the pending-changes preview stays current
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions, steps]);
+
+  const handleChanged = useCallback(() => {
+    void fetchVersions();
+    onPublished?.();
+  }, [fetchVersions, onPublished]);
+
+  const handlePublish = useCallback(async () => {
+    setPublishing(true);
+    try {
+      const result = await publishWorkflow(
+        workflowId,
+        { note: note.trim() || undefined },
+        { organizationId },
+        token ?? undefined
+      );
+      if (result.success && result.data) {
+        toast.success(`Published version ${result.data.version}`);
+        setNote("");
+        handleChanged();
+      } else {
+        toast.error(result.error?.message ?? "Failed to publish");
+      }
+    } catch {
+      toast.error("Failed to publish");
+    } finally {
+      setPublishing(false);
+    }
+  }, [workflowId, note, organizationId, token, handleChanged]);
+
+  const pendingChanges = draftDiff ? countChanges(draftDiff) : 0;
+
+  return (
+    <div>
+      {/* Draft */}
+      <div className="p-3 border-b border-border space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-foreground">Draft</span>
+          <div className="flex items-center gap-1">
+            <Badge variant="secondary" className="text-[9px] px-1 py-0">
+              {pendingChanges} unpublished change{pendingChanges === 1 ? "" : "s"}
+            </Badge>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={fetchVersions}
+              disabled={isLoading}
+            >
+              <RefreshCw className={`h-3 w-3 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </div>
+        <p className="text-[10px] text-muted-foreground">
+          Edits apply to the draft. Test runs use the draft; live triggers run the published version.
+        </p>
+        {draftDiff && pendingChanges > 0 ? <DiffView diff={draftDiff} steps={steps} /> : null}
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="What changed? (optional)"
+          maxLength={500}
+          className="h-7 text-xs"
+        />
+        <Button
+          size="sm"
+          className="h-7 w-full text-xs gap-1"
+          onClick={handlePublish}
+          disabled={publishing || pendingChanges === 0}
+        >
+          {publishing ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Upload className="h-3.5 w-3.5" />}
+          Publish
+        </Button>
+      </div>
+
+      {/* History */}
+      {isLoading && versions.length === 0 ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="text-xs text-muted-foreground text-center py-8 px-3">
+          Nothing published yet. Publish the draft, or activate the workflow, to create version 1.
+        </p>
+      ) : (
+        versions.map((v) => (
+          <VersionRow
+            key={v.version}
+            version={v}
+            workflowId={workflowId}
+            steps={steps}
+            token={token}
+            organizationId={organizationId}
+            onReverted={handleChanged}
+          />
+        ))
+      )}
+    </div>
+  );
+}
@@ -36,11 +36,20 @@ import {
     type ExternalApiCredentials,
     type ExternalApiSpec,
     type HttpMethod,
+    type HttpRouteResponseMode,
+    type KvStoreSpec,
+    type ObjectStoreBackend,
+    type ObjectStoreSpec,
     type ProjectResourceKind,
 } from "@/lib/api-client";
 import { Loader2 } from "lucide-react";
 import { useState } from "react";
 
+import {
+    DEFAULT_SCHEDULE_TIMING,
+    ScheduleTimingFields,
+    type ScheduleTimingValue,
+} from "./ScheduleTiming";
 import { useResourceTargets } from "./useResourceTargets";
 
 type SupportedKind =
@@ -48,7 +57,9 @@ type SupportedKind =
   | "SCHEDULE"
   | "SECRET"
   | "EXTERNAL_API"
-  | "DATABASE";
+  | "DATABASE"
+  | "KV_STORE"
+  | "OBJECT_STORE";
 
 interface Props {
   open: boolean;
@@ -76,11 +87,15 @@ export function CreateResourceDialog({
   const [httpPath, setHttpPath] = useState("/");
   // "" = no binding; "wf:<id>" = workflow; "up:<id>" = user plugin.
   const [httpTarget, setHttpTarget] = useState<string>("");
+  const [httpResponseMode, setHttpResponseMode] =
+    useState<HttpRouteResponseMode>("ASYNC");
 
   // SCHEDULE
   const [cron, setCron] = useState("0 * * * *");
   const [timezone, setTimezone] = useState("UTC");
   const [scheduleWorkflowId, setScheduleWorkflowId] = useState<string>("");
+  const [scheduleTiming, setScheduleTiming] =
+    useState<ScheduleTimingValue>(DEFAULT_SCHEDULE_TIMING);
 
   // SECRET
   const [secretKey, setSecretKey] = useState("");
@@ -107,14 +122,30 @@ export function CreateResourceDialog({
   const [dbPassword, setDbPassword] = useState("");
   const [dbSslMode, setDbSslMode] = useState<DatabaseSslMode>("REQUIRE");
 
+  // KV_STORE
+  const [kvMaxMb, setKvMaxMb] = useState<string>("10");
+  const [kvMaxKeys, setKvMaxKeys] = useState<string>("10000");
+  const [kvDefaultTtl, setKvDefaultTtl] = useState<string>("0");
+
+  // OBJECT_STORE
+  const [objBackend, setObjBackend] = useState<ObjectStoreBackend>("LOCAL");
+  const [objBucket, setObjBucket] = useState("");
+  const [objRegion, setObjRegion] = useState("us-east-1");
+  const [objEndpoint, setObjEndpoint] = useState("");
+  const [objPathStyle, setObjPathStyle] = useState(false);
+  const [objAccessKeyId, setObjAccessKeyId] = useState("");
+  const [objSecretAccessKey, setObjSecretAccessKey] = useState("");
+
   function reset() {
     setName("");
     setHttpPath("/");
     setHttpMethod("ANY");
     setHttpTarget("");
+    setHttpResponseMode("ASYNC");
     setCron("0 * * * *");
     setTimezone("UTC");
     setScheduleWorkflowId("");
+    setScheduleTiming(DEFAULT_SCHEDULE_TIMING);
     setSecretKey("");
     setSecretValue("");
     setSecretDesc("");
@@ -134,6 +165,16 @@ export function CreateResourceDialog({
     setDbUsername("");
     setDbPassword("");
     setDbSslMode("REQUIRE");
+    setKvMaxMb("10");
+    setKvMaxKeys("10000");
+    setKvDefaultTtl("0");
+    setObjBackend("LOCAL");
+    setObjBucket("");
+    setObjRegion("us-east-1");
+    setObjEndpoint("");
+    setObjPathStyle(false);
+    setObjAccessKeyId("");
+    setObjSecretAccessKey("");
     setError(null);
   }
 
@@ -196,6 +237,7 @@ export function CreateResourceDialog({
         };
         if (httpTarget.startsWith("wf:")) {
           httpRoute.targetWorkflowId = httpTarget.slice(3);
+          httpRoute.responseMode = httpResponseMode;
         } else if (httpTarget.startsWith("up:")) {
           httpRoute.targetUserPluginId = httpTarget.slice(3);
         }
@@ -205,6 +247,7 @@ export function CreateResourceDialog({
           cron: cron.trim(),
           timezone: timezone.trim() || null,
           targetWorkflowId: scheduleWorkflowId || null,
+          ...scheduleTiming,
         };
       } else if (kind === "SECRET") {
         body.secret = {
@@ -269,6 +312,43 @@ export function CreateResourceDialog({
         if (dbUsername.trim()) database.username = dbUsername.trim();
         if (dbPassword) database.password = dbPassword;
         body.database = database;
+      } else if (kind === "KV_STORE") {
+        const maxMb = Number.parseFloat(kvMaxMb);
+        const maxKeys = Number.parseInt(kvMaxKeys, 10);
+        const ttl = Number.parseInt(kvDefaultTtl || "0", 10);
+        if (!Number.isFinite(maxMb) || maxMb <= 0 || maxMb > 100) {
+          setError("Size limit must be between 0 and 100 MB");
+          return;
+        }
+        if (!Number.isFinite(maxKeys) || maxKeys < 1) {
+          setError("Key limit must be a positive number");
+          return;
+        }
+        if (!Number.isFinite(ttl) || ttl < 0) {
+          setError("Default TTL must be 0 or more seconds");
+          return;
+        }
+        const kvStore: KvStoreSpec = {
+          maxBytes: Math.max(1024, Math.round(maxMb * 1024 * 1024)),
+          maxKeys,
+          defaultTtlSeconds: ttl,
+        };
+        body.kvStore = kvStore;
+      } else if (kind === "OBJECT_STORE") {
+        const objectStore: ObjectStoreSpec = { backend: objBackend };
+        if (objBackend === "S3") {
+          if (!objBucket.trim() || !objAccessKeyId.trim() || !objSecretAccessKey) {
+            setError("Bucket, access key ID and secret access key are required");
+            return;
+          }
+          objectStore.bucket = objBucket.trim();
+          objectStore.region = objRegion.trim() || "us-east-1";
+          if (objEndpoint.trim()) objectStore.endpoint = objEndpoint.trim();
+          objectStore.forcePathStyle = objPathStyle;
+          objectStore.accessKeyId = objAccessKeyId.trim();
+          objectStore.secretAccessKey = objSecretAccessKey;
+        }
+        body.objectStore = objectStore;
       }
 
       const res = await createProjectResource(projectId, body, token ?? undefined);
@@ -318,6 +398,8 @@ export function CreateResourceDialog({
                 <SelectItem value="SECRET">Secret</SelectItem>
                 <SelectItem value="EXTERNAL_API">External API</SelectItem>
                 <SelectItem value="DATABASE">Database</SelectItem>
+                <SelectItem value="KV_STORE">KV Store</SelectItem>
+                <SelectItem value="OBJECT_STORE">Object Store</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -405,6 +487,32 @@ export function CreateResourceDialog({
                   the installed plugin directly.
                 </p>
               </div>
+              {httpTarget.startsWith("wf:") ? (
+                <div className="space-y-2">
+                  <Label htmlFor="http-response-mode">Response</Label>
+                  <Select
+                    value={httpResponseMode}
+                    onValueChange={(v) =>
+                      setHttpResponseMode(v as HttpRouteResponseMode)
+                    }
+                    disabled={submitting}
+                  >
+                    <SelectTrigger id="http-response-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ASYNC">202 Accepted + run ID</SelectItem>
+                      <SelectItem value="WORKFLOW_OUTPUT">
+                        Wait for workflow output
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Waiting returns the first HTTP Response step&apos;s output (or
+                    the final output); slow runs still get a 202.
+                  </p>
+                </div>
+              ) : null}
             </>
           ) : null}
 
@@ -459,6 +567,12 @@ export function CreateResourceDialog({
                   Unbound schedules tick but do not fire.
                 </p>
               </div>
+              <ScheduleTimingFields
+                idPrefix="schedule"
+                value={scheduleTiming}
+                onChange={setScheduleTiming}
+                disabled={submitting}
+              />
             </>
           ) : null}
 
@@ -743,6 +857,149 @@ export function CreateResourceDialog({
             </>
           ) : null}
 
+          {kind === "KV_STORE" ? (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="kv-max-mb">Size limit (MB)</Label>
+                <Input
+                  id="kv-max-mb"
+                  inputMode="decimal"
+                  value={kvMaxMb}
+                  onChange={(e) => setKvMaxMb(e.target.value)}
+                  disabled={submitting}
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="kv-max-keys">Key limit</Label>
+                <Input
+                  id="kv-max-keys"
+                  inputMode="numeric"
+                  value={kvMaxKeys}
+                  onChange={(e) => setKvMaxKeys(e.target.value)}
+                  disabled={submitting}
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="kv-ttl">Default TTL (seconds, 0 = never)</Label>
+                <Input
+                  id="kv-ttl"
+                  inputMode="numeric"
+                  value={kvDefaultTtl}
+                  onChange={(e) => setKvDefaultTtl(e.target.value)}
+                  disabled={submitting}
+                  className="font-mono"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Shared by every plugin and workflow in this project. Read it
+                in workflows with <code>{"{{kv.<slug>.<key>}}"}</code>.
+              </p>
+            </>
+          ) : null}
+
+          {kind === "OBJECT_STORE" ? (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="obj-backend">Backend</Label>
+                <Select
+                  value={objBackend}
+                  onValueChange={(v) => setObjBackend(v as ObjectStoreBackend)}
+                >
+                  <SelectTrigger id="obj-backend">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="LOCAL">Platform storage</SelectItem>
+                    <SelectItem value="S3">S3-compatible bucket</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {objBackend === "S3" ? (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="obj-bucket">Bucket</Label>
+                    <Input
+                      id="obj-bucket"
+                      value={objBucket}
+                      onChange={(e) => setObjBucket(e.target.value)}
+                      placeholder="my-bot-uploads"
+                      disabled={submitting}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="obj-region">Region</Label>
+                    <Input
+                      id="obj-region"
+                      value={objRegion}
+                      onChange={(e) => setObjRegion(e.target.value)}
+                      disabled={submitting}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="obj-endpoint">Endpoint (optional, for non-AWS providers)</Label>
+                    <Input
+                      id="obj-endpoint"
+                      value={objEndpoint}
+                      onChange={(e) => setObjEndpoint(e.target.value)}
+                      placeholder="https://<account>.r2.cloudflarestorage.com"
+                      disabled={submitting}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="obj-style">Addressing style</Label>
+                    <Select
+                      value={objPathStyle ? "path" : "virtual"}
+                      onValueChange={(v) => setObjPathStyle(v === "path")}
+                    >
+                      <SelectTrigger id="obj-style">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="virtual">Virtual-hosted (bucket.host)</SelectItem>
+                        <SelectItem value="path">Path-style (host/bucket)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="obj-access-key">Access key ID</Label>
+                    <Input
+                      id="obj-access-key"
+                      value={objAccessKeyId}
+                      onChange={(e) => setObjAccessKeyId(e.target.value)}
+                      disabled={submitting}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="obj-secret-key">Secret access key</Label>
+                    <Input
+                      id="obj-secret-key"
+                      type="password"
+                      value={objSecretAccessKey}
+                      onChange={(e) => setObjSecretAccessKey(e.target.value)}
+                      disabled={submitting}
+                      className="font-mono"
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    The secret key is encrypted at rest. Objects in your own
+                    bucket don&apos;t count against your plan&apos;s storage quota.
+                  </p>
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Files are stored on the platform and count against your
+                  plan&apos;s object storage quota.
+                </p>
+              )}
+            </>
+          ) : null}
+
           {error ? (
             <div className="rounded-md border border-destructive/40 bg-destructive/5 p-2 text-sm text-destructive">
               {error}
@@ -39,12 +39,19 @@ import {
     type ExternalApiCredentials,
     type ExternalApiSpec,
     type HttpMethod,
+    type HttpRouteResponseMode,
     type ProjectResource,
     type ProjectResourceWithSidecar,
 } from "@/lib/api-client";
 import { Loader2 } from "lucide-react";
 import { useEffect, useState } from "react";
 
+import {
+    DEFAULT_SCHEDULE_TIMING,
+    ScheduleFiresPanel,
+    ScheduleTimingFields,
+    type ScheduleTimingValue,
+} from "./ScheduleTiming";
 import { useResourceTargets } from "./useResourceTargets";
 
 interface Props {
@@ -74,12 +81,16 @@ export function EditResourceDialog({
   const [httpMethod, setHttpMethod] = useState<HttpMethod>("ANY");
   const [httpPath, setHttpPath] = useState("/");
   const [httpTarget, setHttpTarget] = useState<string>("");
+  const [httpResponseMode, setHttpResponseMode] =
+    useState<HttpRouteResponseMode>("ASYNC");
 
   // SCHEDULE
   const [cron, setCron] = useState("0 * * * *");
   const [timezone, setTimezone] = useState("UTC");
   const [enabled, setEnabled] = useState(true);
   const [scheduleWorkflowId, setScheduleWorkflowId] = useState<string>("");
+  const [scheduleTiming, setScheduleTiming] =
+    useState<ScheduleTimingValue>(DEFAULT_SCHEDULE_TIMING);
 
   // SECRET
   const [secretValue, setSecretValue] = useState("");
@@ -106,6 +117,20 @@ export function EditResourceDialog({
   const [dbPassword, setDbPassword] = useState("");
   const [dbSslMode, setDbSslMode] = useState<DatabaseSslMode>("REQUIRE");
 
+  // KV_STORE
+  const [kvMaxMb, setKvMaxMb] = useState<string>("10");
+  const [kvMaxKeys, setKvMaxKeys] = useState<string>("10000");
+  const [kvDefaultTtl, setKvDefaultTtl] = useState<string>("0");
+
+  // OBJECT_STORE (secret key is write-only — a non-empty value rotates it).
+  const [objBackend, setObjBackend] = useState<"LOCAL" | "S3">("LOCAL");
+  const [objBucket, setObjBucket] = useState("");
+  const [objRegion, setObjRegion] = useState("");
+  const [objEndpoint, setObjEndpoint] = useState("");
+  const [objPathStyle, setObjPathStyle] = useState(false);
+  const [objAccessKeyId, setObjAccessKeyId] = useState("");
+  const [objSecretAccessKey, setObjSecretAccessKey] = useState("");
+
   const targets = useResourceTargets(open, token);
 
   useEffect(() => {
@@ -134,12 +159,19 @@ export function EditResourceDialog({
             } else {
               setHttpTarget("");
             }
+            setHttpResponseMode(res.data.httpRoute.responseMode);
           }
           if (res.data.schedule) {
             setCron(res.data.schedule.cron);
             setTimezone(res.data.schedule.timezone ?? "UTC");
             setEnabled(res.data.schedule.enabled);
             setScheduleWorkflowId(res.data.schedule.targetWorkflowId ?? "");
+            setScheduleTiming({
+              startDate: res.data.schedule.startDate,
+              endDate: res.data.schedule.endDate,
+              misfirePolicy: res.data.schedule.misfirePolicy,
+              catchUpLimit: res.data.schedule.catchUpLimit,
+            });
           }
           if (res.data.secret) {
             setSecretValue("");
@@ -170,6 +202,20 @@ export function EditResourceDialog({
             setDbPassword("");
             setDbSslMode(res.data.database.sslMode);
           }
+          if (res.data.kvStore) {
+            setKvMaxMb(String(res.data.kvStore.maxBytes / (1024 * 1024)));
+            setKvMaxKeys(String(res.data.kvStore.maxKeys));
+            setKvDefaultTtl(String(res.data.kvStore.defaultTtlSeconds));
+          }
+          if (res.data.objectStore) {
+            setObjBackend(res.data.objectStore.backend);
+            setObjBucket(res.data.objectStore.bucket ?? "");
+            setObjRegion(res.data.objectStore.region ?? "");
+            setObjEndpoint(res.data.objectStore.endpoint ?? "");
+            setObjPathStyle(res.data.objectStore.forcePathStyle);
+            setObjAccessKeyId(res.data.objectStore.accessKeyId ?? "");
+            setObjSecretAccessKey("");
+          }
         } else {
           setError(res.error?.message || "Failed to load resource");
         }
@@ -213,14 +259,24 @@ export function EditResourceDialog({
         targetUserPluginId: httpTarget.startsWith("up:")
           ? httpTarget.slice(3)
           : null,
+        responseMode: httpTarget.startsWith("wf:") ? httpResponseMode : "ASYNC",
       };
       body.httpRoute = httpRoute;
     } else if (loaded.kind === "SCHEDULE") {
+      if (
+        scheduleTiming.startDate &&
+        scheduleTiming.endDate &&
+        scheduleTiming.endDate <= scheduleTiming.startDate
+      ) {
+        setError("End must be after start");
+        return;
+      }
       body.schedule = {
         cron: cron.trim(),
         timezone: timezone.trim() || null,
         enabled,
         targetWorkflowId: scheduleWorkflowId || null,
+        ...scheduleTiming,
       };
     } else if (loaded.kind === "SECRET") {
       body.secret = { description: secretDesc.trim() || null };
@@ -314,6 +370,43 @@ export function EditResourceDialog({
         database.password = dbPassword;
       }
       body.database = database;
+    } else if (loaded.kind === "KV_STORE") {
+      const maxMb = Number.parseFloat(kvMaxMb);
+      const maxKeys = Number.parseInt(kvMaxKeys, 10);
+      const ttl = Number.parseInt(kvDefaultTtl || "0", 10);
+      if (!Number.isFinite(maxMb) || maxMb <= 0 || maxMb > 100) {
+        setError("Size limit must be between 0 and 100 MB");
+        return;
+      }
+      if (!Number.isFinite(maxKeys) || maxKeys < 1) {
+        setError("Key limit must be a positive number");
+        return;
+      }
+      if (!Number.isFinite(ttl) || ttl < 0) {
+        setError("Default TTL must be 0 or more seconds");
+        return;
+      }
+      body.kvStore = {
+        maxBytes: Math.max(1024, Math.round(maxMb * 1024 * 1024)),
+        maxKeys,
+        defaultTtlSeconds: ttl,
+      };
+    } else if (loaded.kind === "OBJECT_STORE" && objBackend === "S3") {
+      if (!objBucket.trim() || !objAccessKeyId.trim()) {
+        setError("Bucket and access key ID are required");
+        return;
+      }
+      body.objectStore = {
+        bucket: objBucket.trim(),
+        region: objRegion.trim() || "us-east-1",
+        endpoint: objEndpoint.trim() || null,
+        forcePathStyle: objPathStyle,
+        accessKeyId: objAccessKeyId.trim(),
+      };
+      // Secret is write-only: only send when the user typed something.
+      if (objSecretAccessKey) {
+        body.objectStore.secretAccessKey = objSecretAccessKey;
+      }
     }
 
     setSubmitting(true);
@@ -343,6 +436,8 @@ export function EditResourceDialog({
   const isSchedule = kind === "SCHEDULE";
   const isExternalApi = kind === "EXTERNAL_API";
   const isDatabase = kind === "DATABASE";
+  const isKvStore = kind === "KV_STORE";
+  const isObjectStore = kind === "OBJECT_STORE";
   const credentialsTouched =
     isExternalApi &&
     (extApiKey.length > 0 ||
@@ -367,7 +462,11 @@ export function EditResourceDialog({
                 ? "Update the API URL or rotate credentials. Existing credentials are never displayed."
                 : isDatabase
                   ? "Update connection details or rotate the password. The existing password is never displayed."
-                  : "Update fields and save."}
+                  : isKvStore
+                    ? "Adjust the quota or default TTL. Lowering a limit below current usage blocks new writes until usage drops."
+                    : isObjectStore
+                      ? "Update bucket settings or rotate the secret key. The existing secret key is never displayed."
+                      : "Update fields and save."}
           </DialogDescription>
         </DialogHeader>
 
@@ -459,6 +558,32 @@ export function EditResourceDialog({
                     </SelectContent>
                   </Select>
                 </div>
+                {httpTarget.startsWith("wf:") ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-http-response-mode">Response</Label>
+                    <Select
+                      value={httpResponseMode}
+                      onValueChange={(v) =>
+                        setHttpResponseMode(v as HttpRouteResponseMode)
+                      }
+                      disabled={submitting}
+                    >
+                      <SelectTrigger id="edit-http-response-mode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="ASYNC">202 Accepted + run ID</SelectItem>
+                        <SelectItem value="WORKFLOW_OUTPUT">
+                          Wait for workflow output
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Waiting returns the first HTTP Response step&apos;s output (or
+                      the final output); slow runs still get a 202.
+                    </p>
+                  </div>
+                ) : null}
               </>
             ) : null}
 
@@ -519,6 +644,17 @@ export function EditResourceDialog({
                     </SelectContent>
                   </Select>
                 </div>
+                <ScheduleTimingFields
+                  idPrefix="edit-schedule"
+                  value={scheduleTiming}
+                  onChange={setScheduleTiming}
+                  disabled={submitting}
+                />
+                <ScheduleFiresPanel
+                  projectId={projectId}
+                  resourceId={loaded.id}
+                  token={token}
+                />
               </>
             ) : null}
 
@@ -795,6 +931,124 @@ export function EditResourceDialog({
               </>
             ) : null}
 
+            {isKvStore ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-kv-max-mb">Size limit (MB)</Label>
+                  <Input
+                    id="edit-kv-max-mb"
+                    inputMode="decimal"
+                    value={kvMaxMb}
+                    onChange={(e) => setKvMaxMb(e.target.value)}
+                    disabled={submitting}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-kv-max-keys">Key limit</Label>
+                  <Input
+                    id="edit-kv-max-keys"
+                    inputMode="numeric"
+                    value={kvMaxKeys}
+                    onChange={(e) => setKvMaxKeys(e.target.value)}
+                    disabled={submitting}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-kv-ttl">
+                    Default TTL (seconds, 0 = never)
+                  </Label>
+                  <Input
+                    id="edit-kv-ttl"
+                    inputMode="numeric"
+                    value={kvDefaultTtl}
+                    onChange={(e) => setKvDefaultTtl(e.target.value)}
+                    disabled={submitting}
+                    className="font-mono"
+                  />
+                </div>
+              </>
+            ) : null}
+
+            {isObjectStore && objBackend === "LOCAL" ? (
+              <p className="text-xs text-muted-foreground">
+                Stored on the platform. Usage counts against your plan&apos;s
+                object storage quota.
+              </p>
+            ) : null}
+
+            {isObjectStore && objBackend === "S3" ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-obj-bucket">Bucket</Label>
+                  <Input
+                    id="edit-obj-bucket"
+                    value={objBucket}
+                    onChange={(e) => setObjBucket(e.target.value)}
+                    disabled={submitting}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-obj-region">Region</Label>
+                  <Input
+                    id="edit-obj-region"
+                    value={objRegion}
+                    onChange={(e) => setObjRegion(e.target.value)}
+                    disabled={submitting}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-obj-endpoint">Endpoint (optional)</Label>
+                  <Input
+                    id="edit-obj-endpoint"
+                    value={objEndpoint}
+                    onChange={(e) => setObjEndpoint(e.target.value)}
+                    disabled={submitting}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <Label htmlFor="edit-obj-path-style">Path-style addressing</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Required by most self-hosted S3 servers (e.g. MinIO).
+                    </p>
+                  </div>
+                  <Switch
+                    id="edit-obj-path-style"
+                    checked={objPathStyle}
+                    onCheckedChange={setObjPathStyle}
+                    disabled={submitting}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-obj-access-key">Access key ID</Label>
+                  <Input
+                    id="edit-obj-access-key"
+                    value={objAccessKeyId}
+                    onChange={(e) => setObjAccessKeyId(e.target.value)}
+                    disabled={submitting}
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-obj-secret-key">New secret access key</Label>
+                  <Input
+                    id="edit-obj-secret-key"
+                    type="password"
+                    value={objSecretAccessKey}
+                    onChange={(e) => setObjSecretAccessKey(e.target.value)}
+                    placeholder="Leave blank to keep the current key"
+                    disabled={submitting}
+                    className="font-mono"
+                  />
+                </div>
+              </>
+            ) : null}
+
             {error ? (
               <div className="rounded-md border border-destructive/40 bg-destructive/5 p-2 text-sm text-destructive">
                 {error}
@@ -0,0 +1,233 @@
+"use client";
+
+/**
+ * Phase 8.16 — SCHEDULE timing controls shared by the Create/Edit dialogs
+ * (date window + misfire policy), and the Edit dialog's panel with the next
+ * fire times and recent fire history.
+ */
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    listScheduleFires,
+    previewScheduleFires,
+    type ScheduleFire,
+    type ScheduleFirePreview,
+    type ScheduleMisfirePolicy,
+} from "@/lib/api-client";
+import { Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+
+export interface ScheduleTimingValue {
+  /** ISO timestamps, or null for an open-ended window. */
+  startDate: string | null;
+  endDate: string | null;
+  misfirePolicy: ScheduleMisfirePolicy;
+  catchUpLimit: number;
+}
+
+export const DEFAULT_SCHEDULE_TIMING: ScheduleTimingValue = {
+  startDate: null,
+  endDate: null,
+  misfirePolicy: "FIRE_ONCE",
+  catchUpLimit: 10,
+};
+
+const MISFIRE_HINTS: Record<ScheduleMisfirePolicy, string> = {
+  SKIP: "Fires missed while the scheduler was down are dropped.",
+  FIRE_ONCE: "Fires missed while the scheduler was down run once, together.",
+  CATCH_UP: "Fires missed while the scheduler was down are replayed, oldest first.",
+};
+
+/** ISO → value of a `datetime-local` input (browser-local wall clock). */
+function toLocalInput(iso: string | null): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+interface FieldsProps {
+  idPrefix: string;
+  value: ScheduleTimingValue;
+  onChange: (value: ScheduleTimingValue) => void;
+  disabled?: boolean;
+}
+
+export function ScheduleTimingFields({ idPrefix, value, onChange, disabled }: FieldsProps) {
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-start`}>Starts (optional)</Label>
+          <Input
+            id={`${idPrefix}-start`}
+            type="datetime-local"
+            value={toLocalInput(value.startDate)}
+            onChange={(e) => onChange({ ...value, startDate: fromLocalInput(e.target.value) })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-end`}>Ends (optional)</Label>
+          <Input
+            id={`${idPrefix}-end`}
+            type="datetime-local"
+            value={toLocalInput(value.endDate)}
+            onChange={(e) => onChange({ ...value, endDate: fromLocalInput(e.target.value) })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-misfire`}>Missed fires</Label>
+          <Select
+            value={value.misfirePolicy}
+            onValueChange={(v) =>
+              onChange({ ...value, misfirePolicy: v as ScheduleMisfirePolicy })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger id={`${idPrefix}-misfire`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="SKIP">Skip</SelectItem>
+              <SelectItem value="FIRE_ONCE">Fire once</SelectItem>
+              <SelectItem value="CATCH_UP">Catch up</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {value.misfirePolicy === "CATCH_UP" ? (
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-catchup`}>Catch-up limit</Label>
+            <Input
+              id={`${idPrefix}-catchup`}
+              type="number"
+              min={1}
+              max={100}
+              value={value.catchUpLimit}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  catchUpLimit: Math.min(100, Math.max(1, Number(e.target.value) || 1)),
+                })
+              }
+              disabled={disabled}
+            />
+          </div>
+        ) : null}
+      </div>
+      <p className="text-xs text-muted-foreground">{MISFIRE_HINTS[value.misfirePolicy]}</p>
+    </>
+  );
+}
+
+const OUTCOME_CLASS: Record<ScheduleFire["outcome"], string> = {
+  FIRED: "text-green-600",
+  FAILED: "text-red-600",
+  SKIPPED: "text-muted-foreground",
+};
+
+interface PanelProps {
+  projectId: string;
+  resourceId: string;
+  token: string | null;
+}
+
+/** Upcoming fire times and recent fire history of a saved schedule. */
+export function ScheduleFiresPanel({ projectId, resourceId, token }: PanelProps) {
+  const [preview, setPreview] = useState<ScheduleFirePreview[]>([]);
+  const [fires, setFires] = useState<ScheduleFire[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      setLoading(true);
+      setError(null);
+      try {
+        const [previewRes, firesRes] = await Promise.all([
+          previewScheduleFires(projectId, resourceId, 10, token ?? undefined),
+          listScheduleFires(projectId, resourceId, 20, token ?? undefined),
+        ]);
+        if (cancelled) return;
+        if (previewRes.success && previewRes.data) setPreview(previewRes.data);
+        if (firesRes.success && firesRes.data) setFires(firesRes.data);
+        if (!previewRes.success || !firesRes.success) {
+          setError(
+            previewRes.error?.message || firesRes.error?.message || "Failed to load schedule timing",
+          );
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, resourceId, token]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" /> Loading schedule timing…
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-3 text-xs">
+      {error ? <p className="text-destructive">{error}</p> : null}
+      <div>
+        <div className="mb-1 font-medium text-foreground">Next fires</div>
+        {preview.length === 0 ? (
+          <p className="text-muted-foreground">No upcoming fires.</p>
+        ) : (
+          <ul className="space-y-0.5 font-mono">
+            {preview.map((p) => (
+              <li key={p.at}>{p.local}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div>
+        <div className="mb-1 font-medium text-foreground">Recent fires</div>
+        {fires.length === 0 ? (
+          <p className="text-muted-foreground">No fires recorded yet.</p>
+        ) : (
+          <ul className="space-y-1">
+            {fires.map((f) => (
+              <li key={f.id} className="flex flex-wrap gap-x-2">
+                <span className={OUTCOME_CLASS[f.outcome]}>{f.outcome}</span>
+                <span className="font-mono">{new Date(f.scheduledAt).toLocaleString()}</span>
+                {f.skippedCount > 1 ? (
+                  <span className="text-muted-foreground">×{f.skippedCount}</span>
+                ) : null}
+                {f.reason ? <span className="text-muted-foreground">{f.reason}</span> : null}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -46,6 +46,9 @@ const GATEWAY_TYPE_SHORT: Record<string, string> = {
   DISCORD_BOT: "Discord",
   SLACK_BOT: "Slack",
   WHATSAPP_BOT: "WhatsApp",
+  WEB_CHAT: "Web Chat",
+  EMAIL: "Email",
+  MATRIX: "Matrix",
 };
 
 // =============================================================================
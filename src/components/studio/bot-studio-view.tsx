@@ -16,6 +16,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 import { useStudio } from "@/app/studio/layout";
 import { PreflightResultDialog } from "@/components/bot-studio/preflight-result-dialog";
+import { WorkflowAnalyticsPanel } from "@/components/bot-studio/workflow-analytics";
 import { WorkflowRunHistory } from "@/components/bot-studio/workflow-run-history";
 import { WorkflowTestChat } from "@/components/bot-studio/workflow-test-chat";
 import { useProvideStudioBarData, useStudioBarActions } from "@/components/cursor/studio-bar-context";
@@ -43,6 +44,8 @@ import type {
     GatewayOption,
     PreflightReport,
     WorkflowListItem,
+    WorkflowRateLimit,
+    WorkflowRunEvent,
     WorkflowStepItem,
 } from "@/lib/api-client";
 import {
@@ -58,6 +61,7 @@ import {
     installPluginToBot,
     installPluginToBotOrg,
     preflightWorkflow,
+    streamWorkflowRunEvents,
     togglePlugin,
     triggerWorkflow,
     uninstallPlugin,
@@ -72,6 +76,7 @@ import {
     Activity,
     BarChart3,
     ChevronDown,
+    Gauge,
     Loader2,
     Play,
     Settings,
@@ -94,13 +99,14 @@ export interface BotStudioViewProps {
 // Constants
 // =============================================================================
 
-const TABS = ["overview", "workflow", "analytics", "settings"] as const;
+const TABS = ["overview", "workflow", "analytics", "performance", "settings"] as const;
 type TabValue = (typeof TABS)[number];
 
 const TAB_ICONS: Record<TabValue, React.ReactNode> = {
   overview: <Activity className="h-3.5 w-3.5" />,
   workflow: <Workflow className="h-3.5 w-3.5" />,
   analytics: <BarChart3 className="h-3.5 w-3.5" />,
+  performance: <Gauge className="h-3.5 w-3.5" />,
   settings: <Settings className="h-3.5 w-3.5" />,
 };
 
@@ -141,6 +147,9 @@ const GATEWAY_TYPE_LABEL: Record<string, string> = {
   DISCORD_BOT: "Discord Bot",
   SLACK_BOT: "Slack Bot",
   WHATSAPP_BOT: "WhatsApp Bot",
+  WEB_CHAT: "Web Chat",
+  EMAIL: "Email",
+  MATRIX: "Matrix Bot",
 };
 
 // =============================================================================
@@ -321,6 +330,24 @@ export function BotStudioView({ gateway, plugins: gatewayPlugins }: BotStudioVie
     fetchWorkflow();
   }, [fetchWorkflow]);
 
+  // Other workflows the owner can pick as this workflow's failure handler
+  const [failureWorkflowOptions, setFailureWorkflowOptions] = useState<Array<{ id: string; name: string }>>();
+  const workflowId = workflow?.id;
+  useEffect(() => {
+    if (!token || !workflowId) return;
+    getWorkflows({ organizationId }, token)
+      .then((result) => {
+        if (result.success && result.data) {
+          setFailureWorkflowOptions(
+            result.data.filter((w) => w.id !== workflowId).map((w) => ({ id: w.id, name: w.name }))
+          );
+        }
+      })
+      .catch(() => {
+        // picker stays hidden
+      });
+  }, [token, workflowId, organizationId]);
+
   // Push page-specific data up to the layout-level CursorStudioBar
   useProvideStudioBarData({ workflow, botName: gateway.name, gatewayId: gateway.id, fetchWorkflow, activeTab });
   const { firePrompt } = useStudioBarActions();
@@ -568,6 +595,7 @@ export function BotStudioView({ gateway, plugins: gatewayPlugins }: BotStudioVie
             config: data.config,
             onError: data.onError,
             maxRetries: data.maxRetries,
+            retryPolicy: data.retryPolicy,
             condition: data.condition,
           },
           { organizationId },
@@ -647,11 +675,11 @@ export function BotStudioView({ gateway, plugins: gatewayPlugins }: BotStudioVie
 
   // --- Graph: add edge ---
   const handleAddEdge = useCallback(
-    async (sourceStepId: string | null, targetStepId: string) => {
+    async (sourceStepId: string | null, targetStepId: string, sourcePort?: string) => {
       if (!workflow) return;
       const result = await addWorkflowEdge(
         workflow.id,
-        { sourceStepId, targetStepId },
+        { sourceStepId, targetStepId, sourcePort },
         { organizationId },
         token ?? undefined
       );
@@ -722,6 +750,7 @@ export function BotStudioView({ gateway, plugins: gatewayPlugins }: BotStudioVie
             config: step.config as Record<string, unknown> | undefined,
             onError: step.onError,
             maxRetries: step.maxRetries,
+            retryPolicy: step.retryPolicy,
           },
           { organizationId },
           token ?? undefined
@@ -750,7 +779,13 @@ export function BotStudioView({ gateway, plugins: gatewayPlugins }: BotStudioVie
   }, []);
 
   const handleSaveTrigger = useCallback(
-    async (data: { triggerType?: string; triggerConfig?: Record<string, unknown> }) => {
+    async (data: {
+      triggerType?: string;
+      triggerConfig?: Record<string, unknown>;
+      onFailureWorkflowId?: string | null;
+      concurrencyKey?: string | null;
+      rateLimit?: WorkflowRateLimit | null;
+    }) => {
       if (!workflow) return;
       const result = await updateWorkflow(workflow.id, data, { organizationId }, token ?? undefined);
       if (result.success && result.data) {
@@ -815,6 +850,49 @@ export function BotStudioView({ gateway, plugins: gatewayPlugins }: BotStudioVie
     [workflow, organizationId, token],
   );
 
+  // Live run events for the test run in flight. Opened before triggering so
+  // no step events are missed; polling (above) still decides when it's done.
+  const closeRunStreamRef = useRef<(() => void) | null>(null);
+
+  const closeRunStream = useCallback(() => {
+    closeRunStreamRef.current?.();
+    closeRunStreamRef.current = null;
+  }, []);
+
+  useEffect(() => closeRunStream, [closeRunStream]);
+
+  const openRunStream = useCallback(
+    (workflowId: string) => {
+      closeRunStream();
+      let runId: string | null = null;
+      const handleEvent = (event: WorkflowRunEvent) => {
+        // Follow the first run that starts after the stream opens
+        if (event.type === "run_started" && !runId) runId = event.runId;
+        if (event.runId !== runId) return;
+        if (event.type === "run_finished") {
+          closeRunStream();
+          return;
+        }
+        if (!("stepId" in event)) return;
+        const next =
+          event.type === "step_started" ? { status: "running" } :
+          event.type === "step_completed" ? { status: "completed", durationMs: event.durationMs } :
+          event.type === "step_failed" ? { status: "failed", durationMs: event.durationMs, error: event.error } :
+          event.type === "step_skipped" ? { status: "skipped" } :
+          event.type === "step_waiting" ? { status: "waiting" } :
+          null;
+        if (next) setStepRunStatuses((prev) => ({ ...prev, [event.stepId]: next }));
+      };
+      closeRunStreamRef.current = streamWorkflowRunEvents(
+        workflowId,
+        handleEvent,
+        { organizationId },
+        token ?? undefined,
+      );
+    },
+    [organizationId, token, closeRunStream],
+  );
+
   /**
    * Run a workflow in the given Test mode.
    *
@@ -839,6 +917,7 @@ export function BotStudioView({ gateway, plugins: gatewayPlugins }: BotStudioVie
 
       setIsTestingWorkflow(true);
       setStepRunStatuses({});
+      if (mode !== "quick") openRunStream(workflow.id);
       try {
         const result = await triggerWorkflow(
           workflow.id,
@@ -870,8 +949,10 @@ export function BotStudioView({ gateway, plugins: gatewayPlugins }: BotStudioVie
             setPendingTestMode(mode);
             setShowPreflight(true);
             setIsTestingWorkflow(false);
+            closeRunStream();
             return;
           }
+          closeRunStream();
           toast.error(result.error?.message ?? "Failed to trigger workflow");
           setIsTestingWorkflow(false);
           return;
@@ -879,6 +960,7 @@ export function BotStudioView({ gateway, plugins: gatewayPlugins }: BotStudioVie
 
         const runId = result.data?.runId;
         if (!runId) {
+          closeRunStream();
           toast.error("No run ID returned from server");
           setIsTestingWorkflow(false);
           return;
@@ -891,11 +973,12 @@ export function BotStudioView({ gateway, plugins: gatewayPlugins }: BotStudioVie
         );
         pollRun(workflow.id, runId);
       } catch {
+        closeRunStream();
         toast.error("Failed to test workflow");
         setIsTestingWorkflow(false);
       }
     },
-    [workflow, organizationId, token, pollRun],
+    [workflow, organizationId, token, pollRun, openRunStream, closeRunStream],
   );
 
   /** Default Test button click — runs Standard mode. */
@@ -1138,6 +1221,7 @@ export function BotStudioView({ gateway, plugins: gatewayPlugins }: BotStudioVie
               onToggleStepEnabled={handleToggleStepEnabled}
               onClickTrigger={handleClickTrigger}
               onSaveTrigger={handleSaveTrigger}
+              failureWorkflowOptions={failureWorkflowOptions}
               onSaveStep={handleSaveStep}
               allPluginSchemas={allPluginSchemas}
               onTestWorkflow={handleTestWorkflow}
@@ -1172,6 +1256,24 @@ export function BotStudioView({ gateway, plugins: gatewayPlugins }: BotStudioVie
             )}
           </TabsContent>
 
+          <TabsContent value="performance" className="h-full m-0 overflow-auto p-4">
+            {workflow ? (
+              <WorkflowAnalyticsPanel
+                workflowId={workflow.id}
+                token={token}
+                organizationId={organizationId}
+              />
+            ) : (
+              <div className="flex items-center justify-center h-64 text-muted-foreground">
+                <div className="text-center">
+                  <Gauge className="h-10 w-10 mx-auto mb-3 opacity-30" />
+                  <p className="text-sm font-medium">No workflow yet</p>
+                  <p className="text-xs mt-1">Performance data will appear once a workflow has run</p>
+                </div>
+              </div>
+            )}
+          </TabsContent>
+
           <TabsContent value="settings" className="h-full m-0 overflow-auto p-4">
             <SettingsTab
               gateway={gateway}
@@ -19,6 +19,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 
 import { useStudio } from "@/app/studio/layout";
@@ -34,6 +35,7 @@ import {
   Copy,
   Globe,
   ImageIcon,
+  Inbox,
   Loader2,
   RefreshCw,
   Save,
@@ -82,6 +84,9 @@ const PLATFORM_LABELS: Record<string, string> = {
   DISCORD_BOT: "Discord Bot",
   SLACK_BOT: "Slack Bot",
   WHATSAPP_BOT: "WhatsApp",
+  WEB_CHAT: "Web Chat",
+  EMAIL: "Email",
+  MATRIX: "Matrix",
 };
 
 function formatDate(d: string | Date | null | undefined): string {
@@ -108,6 +113,11 @@ export function SettingsTab({ gateway, token, organizationId: _organizationId }:
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  // Message log
+  const [logMessages, setLogMessages] = useState(gateway.logMessages ?? true);
+  const [redactPii, setRedactPii] = useState(gateway.redactPii ?? false);
+  const [isSavingLog, setIsSavingLog] = useState(false);
+
   // Connection test
   const [isTesting, setIsTesting] = useState(false);
   const [testResult, setTestResult] = useState<{ success: boolean; latency?: number; error?: string } | null>(null);
@@ -126,6 +136,7 @@ export function SettingsTab({ gateway, token, organizationId: _organizationId }:
 
   const isConnected = gateway.status === "CONNECTED";
   const isTelegram = gateway.type === "TELEGRAM_BOT";
+  const isWebChat = gateway.type === "WEB_CHAT";
 
   // Reset name if gateway changes
   useEffect(() => {
@@ -211,6 +222,25 @@ export function SettingsTab({ gateway, token, organizationId: _organizationId }:
     }
   }, [name, gateway.id, gateway.name, token, refresh]);
 
+  const handleUpdateMessageLog = useCallback(async (data: { logMessages?: boolean; redactPii?: boolean }) => {
+    setIsSavingLog(true);
+    try {
+      const result = await updateGateway(gateway.id, data, token ?? undefined);
+      if (result.success) {
+        if (data.logMessages !== undefined) setLogMessages(data.logMessages);
+        if (data.redactPii !== undefined) setRedactPii(data.redactPii);
+        toast.success("Message log settings updated");
+        refresh();
+      } else {
+        toast.error("Failed to update message log settings");
+      }
+    } catch {
+      toast.error("Failed to update message log settings");
+    } finally {
+      setIsSavingLog(false);
+    }
+  }, [gateway.id, token, refresh]);
+
   const handleTestConnection = useCallback(async () => {
     setIsTesting(true);
     setTestResult(null);
@@ -307,6 +337,13 @@ export function SettingsTab({ gateway, token, organizationId: _organizationId }:
     toast.success("Bot ID copied");
   }, [gateway.id]);
 
+  const embedSnippet = `<script src="${apiUrl("/web-chat/widget.js")}" data-gateway-id="${gateway.id}" async></script>`;
+
+  const handleCopyEmbed = useCallback(() => {
+    navigator.clipboard.writeText(embedSnippet);
+    toast.success("Embed code copied");
+  }, [embedSnippet]);
+
   // =========================================================================
   // Derived metadata values
   // =========================================================================
@@ -619,6 +656,79 @@ export function SettingsTab({ gateway, token, organizationId: _organizationId }:
         </Card>
       )}
 
+      {/* Embed Code — Web Chat */}
+      {isWebChat ? (
+        <Card className="bg-card/60">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-semibold">Embed on Your Website</CardTitle>
+            <p className="text-[11px] text-muted-foreground">
+              Paste this tag before the closing &lt;/body&gt; of every page that should show the chat bubble.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Textarea
+              readOnly
+              value={embedSnippet}
+              rows={3}
+              className="text-xs font-mono"
+              onFocus={(e) => e.currentTarget.select()}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleCopyEmbed}
+              className="gap-1.5 text-xs"
+            >
+              <Copy className="h-3 w-3" />
+              Copy Embed Code
+            </Button>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {/* Message Log */}
+      <Card className="bg-card/60">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm font-semibold flex items-center gap-2">
+            <Inbox className="h-4 w-4" />
+            Message Log
+          </CardTitle>
+          <p className="text-[11px] text-muted-foreground">
+            Logged messages appear in the Inbox and are kept for your plan&apos;s retention period.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="log-messages" className="text-xs">Log messages</Label>
+              <p className="text-[11px] text-muted-foreground">
+                Store messages this bot receives and sends.
+              </p>
+            </div>
+            <Switch
+              id="log-messages"
+              checked={logMessages}
+              disabled={isSavingLog}
+              onCheckedChange={(checked) => void handleUpdateMessageLog({ logMessages: checked })}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="redact-pii" className="text-xs">Redact personal data</Label>
+              <p className="text-[11px] text-muted-foreground">
+                Mask email addresses, phone and card numbers in messages, and store chat and sender IDs as anonymous hashes without names.
+              </p>
+            </div>
+            <Switch
+              id="redact-pii"
+              checked={redactPii}
+              disabled={isSavingLog || !logMessages}
+              onCheckedChange={(checked) => void handleUpdateMessageLog({ redactPii: checked })}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Danger Zone */}
       <Card className="border-red-500/20 bg-card/60">
         <CardHeader className="pb-3">
@@ -5,7 +5,7 @@
  *
  * This is the centerpiece of the 2Bot Studio: a full-height canvas
  * with trigger editor, step editor sidebar, plugin catalog sidebar,
- * test execution trace, test chat, and run history.
+ * test execution trace, test chat, run history, and published versions.
  *
  * @module components/studio/workflow-tab
  */
@@ -18,15 +18,17 @@ import { WorkflowPluginSidebar } from "@/components/bot-studio/workflow-plugin-s
 import { WorkflowRunHistory } from "@/components/bot-studio/workflow-run-history";
 import { WorkflowStepEditor, type StepEditorData } from "@/components/bot-studio/workflow-step-editor";
 import { WorkflowTriggerEditor } from "@/components/bot-studio/workflow-trigger-editor";
+import { WorkflowVersionsPanel } from "@/components/bot-studio/workflow-versions-panel";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 
 
-import type { GatewayOption, PreflightReport, WorkflowListItem, WorkflowStepItem } from "@/lib/api-client";
+import type { GatewayOption, PreflightReport, WorkflowListItem, WorkflowRateLimit, WorkflowStepItem } from "@/lib/api-client";
 import type { ConfigSchema, PluginListItem, PluginSchemaSet, UserPlugin } from "@/shared/types/plugin";
 
 import {
     ChevronRight,
+    GitCommitHorizontal,
     LayoutGrid,
     List,
     Loader2,
@@ -78,7 +80,15 @@ interface WorkflowTabProps {
   onDuplicateStep: (step: WorkflowStepItem) => Promise<void>;
   onToggleStepEnabled: (stepId: string, isEnabled: boolean) => Promise<void>;
   onClickTrigger: () => void;
-  onSaveTrigger: (data: { triggerType?: string; triggerConfig?: Record<string, unknown> }) => Promise<void>;
+  onSaveTrigger: (data: {
+    triggerType?: string;
+    triggerConfig?: Record<string, unknown>;
+    onFailureWorkflowId?: string | null;
+    concurrencyKey?: string | null;
+    rateLimit?: WorkflowRateLimit | null;
+  }) => Promise<void>;
+  /** Other workflows, offered as the on-failure workflow */
+  failureWorkflowOptions?: Array<{ id: string; name: string }>;
   onSaveStep: (stepId: string, data: StepEditorData) => Promise<void>;
   onTestWorkflow: () => void;
   onRetryWorkflow: () => Promise<void>;
@@ -89,7 +99,7 @@ interface WorkflowTabProps {
   onSetViewMode: (mode: "canvas" | "list") => void;
   fetchWorkflow: () => void;
   onSaveNodePosition?: (stepId: string, positionX: number, positionY: number) => Promise<void>;
-  onAddEdge?: (sourceStepId: string | null, targetStepId: string) => Promise<void>;
+  onAddEdge?: (sourceStepId: string | null, targetStepId: string, sourcePort?: string) => Promise<void>;
   onDeleteEdge?: (edgeId: string) => Promise<void>;
 }
 
@@ -124,6 +134,7 @@ export function WorkflowTab({
   onToggleStepEnabled,
   onClickTrigger,
   onSaveTrigger,
+  failureWorkflowOptions,
   onSaveStep,
   onTestWorkflow: _onTestWorkflow,
   onRetryWorkflow,
@@ -139,6 +150,7 @@ export function WorkflowTab({
 }: WorkflowTabProps) {
   const [showPluginSidebar, setShowPluginSidebar] = useState(false);
   const [showRunHistory, setShowRunHistory] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
 
   // Loading state
   if (isLoadingWorkflow) {
@@ -270,13 +282,22 @@ export function WorkflowTab({
             )}
           </div>
 
-          {/* Right-side toolbar: run history toggle */}
+          {/* Right-side toolbar: versions + run history toggles */}
           <div className="absolute top-2 right-2 z-10 flex items-center gap-1">
+            <Button
+              variant={showVersions ? "secondary" : "outline"}
+              size="sm"
+              className="h-7 px-2 text-xs bg-background/80 backdrop-blur-sm gap-1"
+              onClick={() => { setShowVersions((v) => !v); setShowRunHistory(false); }}
+            >
+              <GitCommitHorizontal className="h-3.5 w-3.5" />
+              {workflow.publishedVersion ? `v${workflow.publishedVersion}` : "Versions"}
+            </Button>
             <Button
               variant={showRunHistory ? "secondary" : "outline"}
               size="sm"
               className="h-7 px-2 text-xs bg-background/80 backdrop-blur-sm gap-1"
-              onClick={() => setShowRunHistory((v) => !v)}
+              onClick={() => { setShowRunHistory((v) => !v); setShowVersions(false); }}
             >
               <PanelRight className="h-3.5 w-3.5" />
               Runs
@@ -398,6 +419,10 @@ export function WorkflowTab({
               triggerType={workflow.triggerType}
               triggerConfig={workflow.triggerConfig}
               gatewayType={gateway.type}
+              onFailureWorkflowId={workflow.onFailureWorkflowId}
+              failureWorkflowOptions={failureWorkflowOptions}
+              concurrencyKey={workflow.concurrencyKey}
+              rateLimit={workflow.rateLimit}
               onSave={onSaveTrigger}
               onClose={onCloseTriggerEditor}
             />
@@ -414,6 +439,19 @@ export function WorkflowTab({
               onRetry={onRetryWorkflow}
             />
           </div>
+        ) : showVersions ? (
+          <div className="w-80 shrink-0 border-l border-border overflow-y-auto bg-background">
+            <div className="p-3 border-b border-border">
+              <h3 className="text-sm font-semibold text-foreground">Versions</h3>
+            </div>
+            <WorkflowVersionsPanel
+              workflowId={workflow.id}
+              steps={workflow.steps}
+              token={token}
+              organizationId={organizationId}
+              onPublished={fetchWorkflow}
+            />
+          </div>
         ) : null}
       </div>
 
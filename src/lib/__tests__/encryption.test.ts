@@ -7,7 +7,7 @@
  */
 
 import { afterAll, beforeAll, describe, expect, it } from 'vitest';
-import { decrypt, decryptJson, encrypt, isEncryptionAvailable } from '../encryption';
+import { decrypt, decryptJson, encrypt, isEncryptionAvailable, keyedHash } from '../encryption';
 
 // ===========================================
 // Setup / Teardown - Set encryption key for tests
@@ -321,6 +321,25 @@ describe('Security properties', () => {
   });
 });
 
+// ===========================================
+// keyedHash Tests
+// ===========================================
+
+describe('keyedHash', () => {
+  it('is stable for the same value and differs between values', () => {
+    expect(keyedHash('15551230000')).toBe(keyedHash('15551230000'));
+    expect(keyedHash('15551230000')).not.toBe(keyedHash('15551230001'));
+  });
+
+  it('is not a plain SHA-256 of the value', async () => {
+    const { createHash } = await import('crypto');
+    const plain = createHash('sha256').update('15551230000').digest('hex');
+
+    expect(keyedHash('15551230000')).toMatch(/^[0-9a-f]{64}$/);
+    expect(keyedHash('15551230000')).not.toBe(plain);
+  });
+});
+
 // ===========================================
 // isEncryptionAvailable Tests
 // ===========================================
@@ -0,0 +1,77 @@
+/**
+ * Network Security Tests
+ *
+ * Tests for the SSRF guards on outbound URLs.
+ *
+ * @module lib/__tests__/network-security.test
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const lookup = vi.fn();
+vi.mock('dns/promises', () => ({
+  lookup: (...args: unknown[]) => lookup(...args),
+}));
+
+import { isSafeUrl, isSafeUrlResolved } from '../network-security';
+
+afterEach(() => {
+  lookup.mockReset();
+});
+
+// ===========================================
+// isSafeUrl Tests
+// ===========================================
+
+describe('isSafeUrl', () => {
+  it('allows public http(s) URLs', () => {
+    expect(isSafeUrl('https://example.com/hook')).toBe(true);
+    expect(isSafeUrl('http://93.184.215.14/')).toBe(true);
+  });
+
+  it('blocks private, loopback and metadata addresses', () => {
+    expect(isSafeUrl('http://localhost:3000')).toBe(false);
+    expect(isSafeUrl('http://10.1.2.3/')).toBe(false);
+    expect(isSafeUrl('http://169.254.169.254/latest/meta-data')).toBe(false);
+    expect(isSafeUrl('ftp://example.com')).toBe(false);
+  });
+
+  it('blocks IPv6 loopback and IPv4-mapped private addresses', () => {
+    expect(isSafeUrl('http://[::1]/')).toBe(false);
+    expect(isSafeUrl('http://[::ffff:127.0.0.1]/')).toBe(false);
+    expect(isSafeUrl('http://[::ffff:a00:1]/')).toBe(false);
+  });
+});
+
+// ===========================================
+// isSafeUrlResolved Tests
+// ===========================================
+
+describe('isSafeUrlResolved', () => {
+  it('allows hostnames that resolve only to public addresses', async () => {
+    lookup.mockResolvedValue([{ address: '93.184.215.14', family: 4 }]);
+
+    await expect(isSafeUrlResolved('https://example.com/')).resolves.toBe(true);
+  });
+
+  it('blocks hostnames with any private address', async () => {
+    lookup.mockResolvedValue([
+      { address: '93.184.215.14', family: 4 },
+      { address: 'fd00::5', family: 6 },
+    ]);
+
+    await expect(isSafeUrlResolved('http://redis:6379/')).resolves.toBe(false);
+  });
+
+  it('blocks hostnames that do not resolve', async () => {
+    lookup.mockRejectedValue(Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' }));
+
+    await expect(isSafeUrlResolved('http://nowhere.internal/')).resolves.toBe(false);
+  });
+
+  it('checks IP literals without resolving', async () => {
+    await expect(isSafeUrlResolved('http://10.0.0.1/')).resolves.toBe(false);
+    await expect(isSafeUrlResolved('http://93.184.215.14/')).resolves.toBe(true);
+    expect(lookup).not.toHaveBeenCalled();
+  });
+});
@@ -236,6 +236,10 @@ export interface GatewayOption {
   type: string;
   status: string;
   mode?: string;
+  /** Whether the gateway's messages are kept in the inbox */
+  logMessages?: boolean;
+  /** Mask emails, phone and card numbers in logged messages */
+  redactPii?: boolean;
   workflowSummary?: {
     id: string;
     name: string;
@@ -271,7 +275,8 @@ export function getOrgGateways(
 export interface CreateBotGatewayPayload {
   name: string;
   type: string;
-  credentials: Record<string, string>;
+  credentials: Record<string, string | number | boolean>;
+  config?: Record<string, unknown>;
 }
 
 /** @deprecated Use CreateBotGatewayPayload */
@@ -303,12 +308,92 @@ export function createOrgGateway(
  */
 export function updateGateway(
   gatewayId: string,
-  data: { name?: string },
+  data: { name?: string; logMessages?: boolean; redactPii?: boolean },
   token?: string
 ): Promise<ApiResponse<GatewayOption>> {
   return apiPut<GatewayOption>(`/gateways/${gatewayId}`, data, token);
 }
 
+// --- Message log (inbox) ---
+
+export interface GatewayMessageEntry {
+  id: string;
+  gatewayId: string;
+  gatewayName: string;
+  gatewayType: string;
+  direction: "INBOUND" | "OUTBOUND";
+  chatId: string;
+  chatTitle: string | null;
+  kind: string;
+  senderId: string | null;
+  senderName: string | null;
+  text: string | null;
+  platformMessageId: string | null;
+  redacted: boolean;
+  createdAt: string;
+  /** Run that sent the message; null once it was deleted */
+  workflowRun: { id: string; workflowId: string; workflowName: string; status: string } | null;
+  workflowRunId: string | null;
+}
+
+export interface GatewayConversation {
+  gatewayId: string;
+  gatewayName: string;
+  gatewayType: string;
+  chatId: string;
+  chatTitle: string | null;
+  messageCount: number;
+  lastMessageAt: string;
+  lastMessage: {
+    direction: "INBOUND" | "OUTBOUND";
+    senderName: string | null;
+    text: string | null;
+  } | null;
+}
+
+export function getMessages(
+  params: {
+    gatewayId?: string;
+    chatId?: string;
+    senderId?: string;
+    direction?: "INBOUND" | "OUTBOUND";
+    q?: string;
+    cursor?: string;
+    limit?: number;
+  } = {},
+  opts: { organizationId?: string } = {},
+  token?: string
+): Promise<ApiResponse<{ messages: GatewayMessageEntry[]; nextCursor: string | null }>> {
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") searchParams.set(key, String(value));
+  }
+  const qs = searchParams.toString();
+  return apiRequest(`/messages${qs ? `?${qs}` : ""}`, {
+    token,
+    headers: opts.organizationId
+      ? { "x-organization-id": opts.organizationId }
+      : undefined,
+  });
+}
+
+export function getConversations(
+  params: { gatewayId?: string; limit?: number } = {},
+  opts: { organizationId?: string } = {},
+  token?: string
+): Promise<ApiResponse<GatewayConversation[]>> {
+  const searchParams = new URLSearchParams();
+  if (params.gatewayId) searchParams.set("gatewayId", params.gatewayId);
+  if (params.limit) searchParams.set("limit", String(params.limit));
+  const qs = searchParams.toString();
+  return apiRequest(`/messages/conversations${qs ? `?${qs}` : ""}`, {
+    token,
+    headers: opts.organizationId
+      ? { "x-organization-id": opts.organizationId }
+      : undefined,
+  });
+}
+
 // ============================================================================
 // Plugin API Functions
 // ============================================================================
@@ -563,6 +648,13 @@ export interface WorkflowListItem {
   gatewayId?: string;
   status: string;
   isEnabled: boolean;
+  /** Version live triggers run; unset until the workflow is first published */
+  publishedVersion?: number;
+  /** Workflow started with the failed run's context when a run fails */
+  onFailureWorkflowId?: string;
+  /** Template over the trigger data; bot-message runs with the same key run in order */
+  concurrencyKey?: string;
+  rateLimit?: WorkflowRateLimit;
   steps: WorkflowStepItem[];
   edges: WorkflowEdgeItem[];
   executionCount: number;
@@ -586,6 +678,7 @@ export interface WorkflowStepItem {
   condition?: { if: string };
   onError: string;
   maxRetries: number;
+  retryPolicy?: Partial<StepRetryPolicy>;
   // Canvas position (graph layout)
   positionX: number;
   positionY: number;
@@ -598,6 +691,25 @@ export interface WorkflowStepItem {
   lastError?: string;
 }
 
+/** Runs allowed per concurrency key in a time window */
+export interface WorkflowRateLimit {
+  max: number;
+  windowSeconds: number;
+  /** Sent to the chat when a message is over the limit */
+  reply?: string;
+}
+
+/** Failure categories a step retry policy can retry */
+export type StepErrorClass = "timeout" | "network" | "rate_limit" | "server" | "circuit_open" | "plugin";
+
+export interface StepRetryPolicy {
+  initialDelayMs: number;
+  multiplier: number;
+  maxDelayMs: number;
+  jitter: boolean;
+  retryOn: StepErrorClass[];
+}
+
 export interface WorkflowEdgeItem {
   id: string;
   sourceStepId: string | null;  // null = from trigger
@@ -652,6 +764,9 @@ export function updateWorkflow(
     isEnabled?: boolean;
     triggerType?: string;
     triggerConfig?: Record<string, unknown>;
+    onFailureWorkflowId?: string | null;
+    concurrencyKey?: string | null;
+    rateLimit?: WorkflowRateLimit | null;
   },
   opts: { organizationId?: string },
   token?: string
@@ -677,6 +792,7 @@ export function addWorkflowStep(
     config?: Record<string, unknown>;
     onError?: string;
     maxRetries?: number;
+    retryPolicy?: Partial<StepRetryPolicy>;
   },
   opts: { organizationId?: string },
   token?: string
@@ -732,6 +848,7 @@ export function updateWorkflowStep(
     config?: Record<string, unknown>;
     onError?: string;
     maxRetries?: number;
+    retryPolicy?: Partial<StepRetryPolicy> | null;
     condition?: { if: string } | null;
     positionX?: number;
     positionY?: number;
@@ -828,6 +945,14 @@ export interface WorkflowRunSummary {
   startedAt: string;
   completedAt?: string;
   durationMs?: number;
+  /** When a WAITING run (delay / wait-until step) will resume */
+  resumeAt?: string;
+  /** Run of the calling workflow, when started by a sub-workflow step */
+  parentRunId?: string;
+  /** Failed run this run resumes, when started by "resume from step" */
+  retryOfRunId?: string;
+  /** Published version the run executed; unset for draft (test) runs */
+  workflowVersion?: number;
   stepsCompleted: number;
   totalSteps: number;
 }
@@ -835,6 +960,10 @@ export interface WorkflowRunSummary {
 export interface WorkflowStepRunDetail {
   id: string;
   stepOrder: number;
+  /** Foreach item index; unset for top-level step runs */
+  iteration?: number;
+  /** Step run of the foreach step this iteration belongs to */
+  parentStepRunId?: string;
   stepName?: string;
   pluginSlug: string;
   status: string;
@@ -851,6 +980,13 @@ export interface WorkflowRunDetail extends WorkflowRunSummary {
   output?: unknown;
   failedStepOrder?: number;
   stepRuns: WorkflowStepRunDetail[];
+  /** Runs started by this run's sub-workflow steps */
+  childRuns?: Array<{ id: string; workflowId: string; workflowName: string; status: string }>;
+  /** Runs that resumed this run from its failing step */
+  retries?: Array<{ id: string; status: string; startedAt: string }>;
+  /** 2Bot AI credits the run's steps spent */
+  creditsUsed?: number;
+  stepCredits?: Array<{ stepOrder: number; creditsUsed: number }>;
 }
 
 export function getWorkflowRuns(
@@ -887,6 +1023,342 @@ export function getWorkflowRunDetail(
   });
 }
 
+// --- Workflow Analytics ---
+
+/** Milliseconds; percentiles are estimates, null when nothing ran */
+export interface WorkflowDurationStats {
+  avg: number | null;
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+export interface WorkflowStepAnalytics {
+  stepId: string;
+  stepOrder: number | null;
+  /** Unset when the step has since been deleted */
+  stepName?: string;
+  pluginSlug?: string;
+  executions: number;
+  failed: number;
+  errorRate: number;
+  durationMs: WorkflowDurationStats;
+  creditsUsed: number;
+  errors: Array<{ message: string; count: number }>;
+}
+
+export interface WorkflowAnalytics {
+  from: string;
+  to: string;
+  runs: {
+    total: number;
+    failed: number;
+    errorRate: number;
+    durationMs: WorkflowDurationStats;
+    creditsUsed: number;
+    creditsPerRun: number;
+  };
+  volume: Array<{ date: string; runs: number; failed: number }>;
+  /** Slowest steps (p95) first */
+  steps: WorkflowStepAnalytics[];
+  errors: Array<{ message: string; count: number }>;
+}
+
+export function getWorkflowAnalytics(
+  workflowId: string,
+  days: number,
+  opts: { organizationId?: string } = {},
+  token?: string
+): Promise<ApiResponse<WorkflowAnalytics>> {
+  return apiRequest(`/workflows/${workflowId}/analytics?days=${days}`, {
+    token,
+    headers: opts.organizationId
+      ? { "x-organization-id": opts.organizationId }
+      : undefined,
+  });
+}
+
+/** Live run event, as streamed by `GET /workflows/:id/runs/stream` */
+export type WorkflowRunEvent = {
+  workflowId: string;
+  runId: string;
+  at: string;
+} & (
+  | { type: "run_started"; triggeredBy: string; resumed: boolean }
+  | { type: "run_finished"; status: "completed" | "failed" | "waiting"; durationMs: number; error?: string }
+  | ({ stepId: string; stepOrder: number; iteration?: number } & (
+      | { type: "step_started"; pluginSlug: string }
+      | { type: "step_completed"; durationMs: number; outputPreview: string; ports?: string[] }
+      | { type: "step_failed"; durationMs: number; error: string }
+      | { type: "step_skipped" }
+      | { type: "step_waiting" }
+      | { type: "log"; level: string; message: string }
+    ))
+);
+
+/**
+ * Follow a workflow's runs live. Events arrive until the returned function
+ * is called (or the connection drops, which calls `onError`).
+ *
+ * @returns Function that closes the stream
+ */
+export function streamWorkflowRunEvents(
+  workflowId: string,
+  onEvent: (event: WorkflowRunEvent) => void,
+  opts: { organizationId?: string; runId?: string; onError?: (message: string) => void } = {},
+  token?: string
+): () => void {
+  const controller = new AbortController();
+  const qs = opts.runId ? `?runId=${encodeURIComponent(opts.runId)}` : "";
+
+  void (async () => {
+    try {
+      const response = await fetch(apiUrl(`/workflows/${workflowId}/runs/stream${qs}`), {
+        headers: {
+          Accept: "text/event-stream",
+          ...(token && { Authorization: `Bearer ${token}` }),
+          ...(opts.organizationId && { "x-organization-id": opts.organizationId }),
+        },
+        credentials: "include",
+        signal: controller.signal,
+      });
+      const reader = response.ok ? response.body?.getReader() : undefined;
+      if (!reader) {
+        opts.onError?.(`Run stream unavailable: ${response.status}`);
+        return;
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          if (!line.startsWith("data: ")) continue;
+          try {
+            onEvent(JSON.parse(line.slice(6)) as WorkflowRunEvent);
+          } catch {
+            // Skip malformed events
+          }
+        }
+      }
+      if (!controller.signal.aborted) opts.onError?.("Run stream closed");
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      opts.onError?.(err instanceof Error ? err.message : "Run stream failed");
+    }
+  })();
+
+  return () => controller.abort();
+}
+
+/**
+ * Re-run a failed run from its failing step (or `fromStepOrder`), reusing
+ * the outputs of the steps that completed. Returns the new run's ID.
+ */
+export function retryWorkflowRun(
+  workflowId: string,
+  runId: string,
+  data: { fromStepOrder?: number } = {},
+  opts: { organizationId?: string } = {},
+  token?: string
+): Promise<ApiResponse<{ runId: string }>> {
+  return apiRequest(`/workflows/${workflowId}/runs/${runId}/retry`, {
+    method: "POST",
+    body: data,
+    token,
+    headers: opts.organizationId
+      ? { "x-organization-id": opts.organizationId }
+      : undefined,
+  });
+}
+
+// --- Workflow Export / Import ---
+
+export interface WorkflowImportBinding {
+  kind: "gateway" | "workflow" | "resource";
+  ref: string;
+  name: string;
+  type?: string;
+  resolvedId?: string;
+  candidates: Array<{ id: string; name: string }>;
+}
+
+export interface WorkflowImportResult {
+  /** Unset for dry runs */
+  workflow?: WorkflowListItem;
+  bindings: WorkflowImportBinding[];
+  preflight?: PreflightReport;
+  /** Problems blocking the import (dry runs only) */
+  errors?: Record<string, string[]>;
+}
+
+/**
+ * Export a workflow's draft as a portable JSON / YAML document.
+ */
+export function exportWorkflow(
+  workflowId: string,
+  format: "json" | "yaml" = "yaml",
+  opts: { organizationId?: string } = {},
+  token?: string
+): Promise<ApiResponse<{ format: "json" | "yaml"; filename: string; content: string }>> {
+  return apiRequest(`/workflows/${workflowId}/export?format=${format}`, {
+    token,
+    headers: opts.organizationId
+      ? { "x-organization-id": opts.organizationId }
+      : undefined,
+  });
+}
+
+/**
+ * Import a workflow document. Use `dryRun` first to get the gateway /
+ * workflow / resource refs that need binding, then import with `bindings`.
+ */
+export function importWorkflow(
+  data: {
+    document: string | Record<string, unknown>;
+    name?: string;
+    slug?: string;
+    bindings?: {
+      gateways?: Record<string, string>;
+      workflows?: Record<string, string>;
+      resources?: Record<string, string>;
+    };
+    dryRun?: boolean;
+  },
+  opts: { organizationId?: string } = {},
+  token?: string
+): Promise<ApiResponse<WorkflowImportResult>> {
+  return apiRequest("/workflows/import", {
+    method: "POST",
+    body: data,
+    token,
+    headers: opts.organizationId
+      ? { "x-organization-id": opts.organizationId }
+      : undefined,
+  });
+}
+
+// --- Workflow Versions ---
+
+export interface WorkflowVersionSummary {
+  version: number;
+  note?: string;
+  publishedBy?: string;
+  /** Version this one re-published, when created by a revert */
+  revertedFrom?: number;
+  stepCount: number;
+  isPublished: boolean;
+  createdAt: string;
+}
+
+export interface WorkflowStepDiffEntry {
+  id: string;
+  order: number;
+  name: string | null;
+  pluginId: string;
+}
+
+export interface WorkflowEdgeDiffEntry {
+  id: string;
+  sourceStepId: string | null;
+  targetStepId: string;
+  sourcePort: string;
+  targetPort: string;
+}
+
+export interface WorkflowVersionDiff {
+  steps: {
+    added: WorkflowStepDiffEntry[];
+    removed: WorkflowStepDiffEntry[];
+    changed: Array<WorkflowStepDiffEntry & { fields: string[] }>;
+  };
+  edges: {
+    added: WorkflowEdgeDiffEntry[];
+    removed: WorkflowEdgeDiffEntry[];
+  };
+}
+
+export function listWorkflowVersions(
+  workflowId: string,
+  opts: { organizationId?: string } = {},
+  token?: string
+): Promise<ApiResponse<WorkflowVersionSummary[]>> {
+  return apiRequest(`/workflows/${workflowId}/versions`, {
+    token,
+    headers: opts.organizationId
+      ? { "x-organization-id": opts.organizationId }
+      : undefined,
+  });
+}
+
+/**
+ * Publish the draft as a new version. Live triggers switch to it at once.
+ */
+export function publishWorkflow(
+  workflowId: string,
+  data: { note?: string } = {},
+  opts: { organizationId?: string } = {},
+  token?: string
+): Promise<ApiResponse<WorkflowVersionSummary>> {
+  return apiRequest(`/workflows/${workflowId}/versions`, {
+    method: "POST",
+    body: data,
+    token,
+    headers: opts.organizationId
+      ? { "x-organization-id": opts.organizationId }
+      : undefined,
+  });
+}
+
+export function getWorkflowDraftDiff(
+  workflowId: string,
+  opts: { organizationId?: string } = {},
+  token?: string
+): Promise<ApiResponse<{ publishedVersion?: number; diff: WorkflowVersionDiff }>> {
+  return apiRequest(`/workflows/${workflowId}/draft/diff`, {
+    token,
+    headers: opts.organizationId
+      ? { "x-organization-id": opts.organizationId }
+      : undefined,
+  });
+}
+
+export function getWorkflowVersionDiff(
+  workflowId: string,
+  version: number,
+  opts: { organizationId?: string } = {},
+  token?: string
+): Promise<ApiResponse<{ version: number; previousVersion?: number; diff: WorkflowVersionDiff }>> {
+  return apiRequest(`/workflows/${workflowId}/versions/${version}/diff`, {
+    token,
+    headers: opts.organizationId
+      ? { "x-organization-id": opts.organizationId }
+      : undefined,
+  });
+}
+
+/**
+ * Re-publish an earlier version as a new version. The draft is unchanged.
+ */
+export function revertWorkflowVersion(
+  workflowId: string,
+  version: number,
+  opts: { organizationId?: string } = {},
+  token?: string
+): Promise<ApiResponse<WorkflowVersionSummary>> {
+  return apiRequest(`/workflows/${workflowId}/versions/${version}/revert`, {
+    method: "POST",
+    token,
+    headers: opts.organizationId
+      ? { "x-organization-id": opts.organizationId }
+      : undefined,
+  });
+}
+
 export function triggerWorkflow(
   workflowId: string,
   data: {
@@ -1295,6 +1767,9 @@ export interface ProjectResourceWithSidecar extends ProjectResource {
   externalApi?: SafeExternalApi | null;
   /** DATABASE sidecar metadata only — password is never returned. */
   database?: SafeDatabaseConnection | null;
+  kvStore?: KvStore | null;
+  /** OBJECT_STORE sidecar — S3 secret key is never returned. */
+  objectStore?: SafeObjectStore | null;
 }
 
 // HTTP_ROUTE sidecar
@@ -1311,6 +1786,8 @@ export type HttpMethod =
 
 export type HttpAuthMode = "NONE" | "API_KEY" | "HMAC" | "BEARER_JWT";
 
+export type HttpRouteResponseMode = "ASYNC" | "WORKFLOW_OUTPUT";
+
 export interface HttpRouteSpec {
   method?: HttpMethod;
   path: string;
@@ -1321,6 +1798,13 @@ export interface HttpRouteSpec {
    * unset) an inbound match fires a WEBHOOK-triggered Workflow run.
    */
   targetWorkflowId?: string | null;
+  /**
+   * Phase 8.3: WORKFLOW_OUTPUT waits (up to timeoutMs) for the run's
+   * response step and returns its output instead of 202 + runId.
+   */
+  responseMode?: HttpRouteResponseMode;
+  /** Step whose output is the response. Defaults to the first http-response step. */
+  responseStepId?: string | null;
   authMode?: HttpAuthMode;
   authConfig?: Record<string, unknown>;
   maxBodyKb?: number;
@@ -1337,6 +1821,8 @@ export interface HttpRoute {
   targetUserPluginId: string | null;
   targetExport: string | null;
   targetWorkflowId: string | null;
+  responseMode: HttpRouteResponseMode;
+  responseStepId: string | null;
   authMode: HttpAuthMode;
   authConfig: Record<string, unknown>;
   maxBodyKb: number;
@@ -1358,8 +1844,18 @@ export interface ScheduleSpec {
   targetWorkflowId?: string | null;
   /** When false, the schedule exists but does not fire. */
   enabled?: boolean;
+  /** ISO timestamp — no fires before it. */
+  startDate?: string | null;
+  /** ISO timestamp — no fires after it. */
+  endDate?: string | null;
+  /** Handling of fires missed while the scheduler was down. */
+  misfirePolicy?: ScheduleMisfirePolicy;
+  /** Most missed fires replayed per tick under CATCH_UP (1..100). */
+  catchUpLimit?: number;
 }
 
+export type ScheduleMisfirePolicy = "SKIP" | "FIRE_ONCE" | "CATCH_UP";
+
 export interface Schedule {
   id: string;
   resourceId: string;
@@ -1367,12 +1863,37 @@ export interface Schedule {
   timezone: string | null;
   targetWorkflowId: string | null;
   enabled: boolean;
+  startDate: string | null;
+  endDate: string | null;
+  misfirePolicy: ScheduleMisfirePolicy;
+  catchUpLimit: number;
   lastFiredAt: string | null;
   nextFireAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ScheduleFirePreview {
+  /** ISO timestamp (UTC). */
+  at: string;
+  /** Wall-clock time in the schedule's timezone. */
+  local: string;
+}
+
+export interface ScheduleFire {
+  id: string;
+  scheduleId: string;
+  scheduledAt: string;
+  outcome: "FIRED" | "FAILED" | "SKIPPED";
+  /** Last slot of a skipped range. */
+  skippedThrough: string | null;
+  skippedCount: number;
+  lateMs: number;
+  runId: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
 // SECRET sidecar (Phase 7.4)
 
 export interface SecretSpec {
@@ -1475,6 +1996,67 @@ export interface SafeDatabaseConnection {
   updatedAt: string;
 }
 
+// KV_STORE sidecar (Phase 8.1)
+
+export interface KvStoreSpec {
+  /** Summed serialized size of all live values, in bytes. */
+  maxBytes?: number;
+  /** Number of live keys. */
+  maxKeys?: number;
+  /** TTL applied to writes that don't pass one. 0 = never expire. */
+  defaultTtlSeconds?: number;
+}
+
+export interface KvStore {
+  id: string;
+  resourceId: string;
+  maxBytes: number;
+  maxKeys: number;
+  defaultTtlSeconds: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// OBJECT_STORE sidecar (Phase 8.2)
+
+export type ObjectStoreBackend = "LOCAL" | "S3";
+
+export interface ObjectStoreSpec {
+  backend?: ObjectStoreBackend;
+  /** S3 only. */
+  bucket?: string | null;
+  region?: string | null;
+  /** S3-compatible endpoint (MinIO, R2, ...). Omit for AWS. */
+  endpoint?: string | null;
+  forcePathStyle?: boolean;
+  keyPrefix?: string;
+  accessKeyId?: string | null;
+  /** Write-only. */
+  secretAccessKey?: string | null;
+}
+
+export interface SafeObjectStore {
+  id: string;
+  resourceId: string;
+  backend: ObjectStoreBackend;
+  bucket: string | null;
+  region: string | null;
+  endpoint: string | null;
+  forcePathStyle: boolean;
+  keyPrefix: string;
+  accessKeyId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StoredObject {
+  key: string;
+  sizeBytes: number;
+  contentType: string;
+  sha256: string;
+  updatedAt: string;
+}
+
 export function listProjectResources(
   projectId: string,
   options: { kind?: ProjectResourceKind; status?: ProjectResourceStatus } = {},
@@ -1516,6 +2098,8 @@ export function createProjectResource(
     secret?: SecretSpec;
     externalApi?: ExternalApiSpec;
     database?: DatabaseSpec;
+    kvStore?: KvStoreSpec;
+    objectStore?: ObjectStoreSpec;
   },
   token?: string,
 ): Promise<ApiResponse<ProjectResource>> {
@@ -1540,6 +2124,8 @@ export function updateProjectResource(
     secret?: SecretPatch;
     externalApi?: Partial<ExternalApiSpec>;
     database?: Partial<DatabaseSpec>;
+    kvStore?: KvStoreSpec;
+    objectStore?: ObjectStoreSpec;
   },
   token?: string,
 ): Promise<ApiResponse<ProjectResource>> {
@@ -1573,6 +2159,85 @@ export function deleteProjectResource(
   );
 }
 
+export function previewScheduleFires(
+  projectId: string,
+  resourceId: string,
+  count = 10,
+  token?: string,
+): Promise<ApiResponse<ScheduleFirePreview[]>> {
+  return apiRequest<ScheduleFirePreview[]>(
+    `/projects/${projectId}/resources/${resourceId}/schedule/preview?count=${count}`,
+    { method: "GET", token },
+  );
+}
+
+export function listScheduleFires(
+  projectId: string,
+  resourceId: string,
+  limit = 50,
+  token?: string,
+): Promise<ApiResponse<ScheduleFire[]>> {
+  return apiRequest<ScheduleFire[]>(
+    `/projects/${projectId}/resources/${resourceId}/schedule/fires?limit=${limit}`,
+    { method: "GET", token },
+  );
+}
+
+export function listStoredObjects(
+  projectId: string,
+  resourceId: string,
+  options: { prefix?: string; limit?: number; cursor?: string } = {},
+  token?: string,
+): Promise<ApiResponse<{ objects: StoredObject[]; nextCursor: string | null }>> {
+  const params = new URLSearchParams();
+  if (options.prefix) params.set("prefix", options.prefix);
+  if (options.limit) params.set("limit", String(options.limit));
+  if (options.cursor) params.set("cursor", options.cursor);
+  const qs = params.toString();
+  return apiRequest<{ objects: StoredObject[]; nextCursor: string | null }>(
+    `/projects/${projectId}/resources/${resourceId}/objects${qs ? `?${qs}` : ""}`,
+    { method: "GET", token },
+  );
+}
+
+export function putStoredObject(
+  projectId: string,
+  resourceId: string,
+  body: { key: string; contentType?: string; dataBase64: string },
+  token?: string,
+): Promise<ApiResponse<StoredObject>> {
+  return apiPost<StoredObject>(
+    `/projects/${projectId}/resources/${resourceId}/objects`,
+    body,
+    token,
+  );
+}
+
+export function deleteStoredObject(
+  projectId: string,
+  resourceId: string,
+  key: string,
+  token?: string,
+): Promise<ApiResponse<{ deleted: boolean }>> {
+  return apiDelete<{ deleted: boolean }>(
+    `/projects/${projectId}/resources/${resourceId}/objects?key=${encodeURIComponent(key)}`,
+    token,
+  );
+}
+
+export function signStoredObjectUrl(
+  projectId: string,
+  resourceId: string,
+  body: { key: string; expiresInSeconds?: number },
+  token?: string,
+): Promise<ApiResponse<{ url: string; expiresAt: string }>> {
+  return apiPost<{ url: string; expiresAt: string }>(
+    `/projects/${projectId}/resources/${resourceId}/objects/sign`,
+    body,
+    token,
+  );
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Project Topology (Architecture Canvas)
 // ─────────────────────────────────────────────────────────────────────────────
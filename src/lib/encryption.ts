@@ -177,6 +177,17 @@ export function rewrap(encryptedData: string): string {
   return encrypt(decrypt(encryptedData));
 }
 
+/**
+ * Keyed one-way hash (HMAC-SHA256 under the current key), hex encoded.
+ * For values that must stay comparable without being readable; unlike a
+ * plain hash it can't be reversed by enumerating e.g. all phone numbers.
+ * Results change when the current key version is rotated.
+ */
+export function keyedHash(value: string): string {
+  const key = getKeyByVersion(getCurrentVersion());
+  return crypto.createHmac("sha256", key).update(value, "utf8").digest("hex");
+}
+
 /**
  * Health check: returns true if at least the current key is loadable.
  */
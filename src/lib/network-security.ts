@@ -1,3 +1,4 @@
+import { lookup } from 'dns/promises';
 import { isIP } from 'net';
 
 /**
@@ -17,7 +18,8 @@ export function isSafeUrl(url: string): boolean {
       return false;
     }
 
-    const { hostname } = parsed;
+    // IPv6 literals keep their brackets in `hostname`
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
 
     // Check if hostname is an IP address
     const ipVersion = isIP(hostname);
@@ -40,6 +42,27 @@ export function isSafeUrl(url: string): boolean {
   }
 }
 
+/**
+ * `isSafeUrl`, plus every address the hostname resolves to must pass the
+ * same IP checks — so names like `postgres`, `redis` or an internal DNS
+ * entry pointing at 10.x are refused too. Use before requests to
+ * user-supplied URLs. The request resolves the name again, so a DNS server
+ * that answers differently the second time is not covered.
+ */
+export async function isSafeUrlResolved(url: string): Promise<boolean> {
+  if (!isSafeUrl(url)) return false;
+
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) !== 0) return true; // literal, already checked
+
+  try {
+    const addresses = await lookup(hostname, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every((a) => isSafeIp(a.address));
+  } catch (_e) {
+    return false; // Doesn't resolve
+  }
+}
+
 function isSafeIp(ip: string): boolean {
   // IPv4 Checks
   if (isIP(ip) === 4) {
@@ -68,8 +91,17 @@ function isSafeIp(ip: string): boolean {
   
   // IPv6 Checks
   if (isIP(ip) === 6) {
-    // ::1 (Loopback)
-    if (ip === '::1') return false;
+    const lower = ip.toLowerCase();
+    // ::ffff:a.b.c.d / ::ffff:XXXX:XXXX (IPv4-mapped) — check the IPv4 address
+    const mapped = lower.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+    if (mapped) {
+      if (mapped[1]) return isSafeIp(mapped[1]);
+      const high = parseInt(mapped[2] ?? '0', 16);
+      const low = parseInt(mapped[3] ?? '0', 16);
+      return isSafeIp(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    // :: (Unspecified) and ::1 (Loopback)
+    if (lower === '::' || lower === '::1') return false;
     // fc00::/7 (Unique Local)
     if (ip.toLowerCase().startsWith('fc') || ip.toLowerCase().startsWith('fd')) return false;
     // fe80::/10 (Link-local)
@@ -0,0 +1,137 @@
+/**
+ * Platform Events
+ *
+ * In-process bus for things that happen on the platform — a workflow run
+ * finishing, a gateway changing status, an alert firing, a project
+ * resource being edited — so other modules (workflow triggers) can react
+ * without the emitting module depending on them.
+ *
+ * Events are delivered only inside the process that emitted them; each
+ * process that emits (API server, workflow worker) registers its own
+ * listeners at startup. Emitting never throws and never waits on
+ * listeners.
+ *
+ * @module lib/platform-events
+ */
+
+import { EventEmitter } from "node:events";
+
+import { logger } from "@/lib/logger";
+
+const eventsLogger = logger.child({ module: "platform-events" });
+
+const CHANNEL = "platform-event";
+
+// ===========================================
+// Event types
+// ===========================================
+
+export const PLATFORM_EVENT_NAMES = [
+  "workflow.completed",
+  "gateway.status_changed",
+  "alert.fired",
+  "resource.updated",
+] as const;
+
+export type PlatformEventName = (typeof PLATFORM_EVENT_NAMES)[number];
+
+export interface PlatformEventDataMap {
+  "workflow.completed": {
+    workflowId: string;
+    workflowName: string;
+    runId: string;
+    status: "completed" | "failed";
+    triggeredBy: string;
+    durationMs: number;
+    error?: string;
+  };
+  "gateway.status_changed": {
+    gatewayId: string;
+    gatewayName: string;
+    gatewayType: string;
+    previousStatus: string;
+    status: string;
+    error?: string;
+  };
+  "alert.fired": {
+    alertId: string;
+    type: string;
+    severity: string;
+    title: string;
+    message: string;
+    resource?: string;
+    current?: number;
+    limit?: number;
+    percentage?: number;
+  };
+  "resource.updated": {
+    resourceId: string;
+    projectId: string;
+    kind: string;
+    name: string;
+    slug: string;
+    status: string;
+    change: "updated" | "archived";
+  };
+}
+
+export type PlatformEvent = {
+  [N in PlatformEventName]: {
+    name: N;
+    /** Owning user; null for organization-wide events (alerts) */
+    userId: string | null;
+    organizationId: string | null;
+    data: PlatformEventDataMap[N];
+    /** Workflows whose runs led to this event, oldest first */
+    causedBy?: string[];
+    /** ISO timestamp */
+    at: string;
+  };
+}[PlatformEventName];
+
+/** An event as passed to `emitPlatformEvent` — `at` is filled in. */
+type PlatformEventInput = PlatformEvent extends infer E
+  ? E extends PlatformEvent ? Omit<E, "at"> : never
+  : never;
+
+type PlatformEventListener = (event: PlatformEvent) => void | Promise<void>;
+
+// ===========================================
+// Bus
+// ===========================================
+
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+/**
+ * Publish an event to this process's listeners.
+ * Fire-and-forget: listener errors are logged, never thrown.
+ */
+export function emitPlatformEvent(input: PlatformEventInput): void {
+  const event = { ...input, at: new Date().toISOString() } as PlatformEvent;
+  try {
+    bus.emit(CHANNEL, event);
+  } catch (err) {
+    eventsLogger.warn({ event: event.name, err }, "Platform event listener threw");
+  }
+}
+
+/**
+ * Receive every platform event emitted in this process.
+ *
+ * @returns Unsubscribe function
+ */
+export function onPlatformEvent(listener: PlatformEventListener): () => void {
+  const wrapped = (event: PlatformEvent) => {
+    Promise.resolve(listener(event)).catch((err: unknown) => {
+      eventsLogger.warn(
+        { event: event.name, error: err instanceof Error ? err.message : String(err) },
+        "Platform event listener failed",
+      );
+    });
+  };
+  bus.on(CHANNEL, wrapped);
+  return () => {
+    bus.off(CHANNEL, wrapped);
+  };
+}
@@ -58,6 +58,30 @@ export async function releaseLock(key: string, token: string): Promise<void> {
   }
 }
 
+/**
+ * Extend a lock's TTL, but only if we still own it (token match).
+ * Lets long-running holders (e.g. sync loops) keep a lease alive.
+ *
+ * @returns true if the lock is still ours, false if it expired or was taken
+ */
+export async function extendLock(key: string, token: string, ttlSeconds: number): Promise<boolean> {
+  const fullKey = `lock:${key}`;
+  const script = `
+    if redis.call("get", KEYS[1]) == ARGV[1] then
+      return redis.call("expire", KEYS[1], ARGV[2])
+    else
+      return 0
+    end
+  `;
+  try {
+    const result = await redis.eval(script, 1, fullKey, token, ttlSeconds);
+    return result === 1;
+  } catch (err) {
+    log.warn({ err, key }, "Redis lock extend failed");
+    return false;
+  }
+}
+
 /**
  * Run `fn` only if we win the distributed lock for `key`.
  * Other replicas skip silently. Useful for cron jobs that must run once cluster-wide.
@@ -14,7 +14,7 @@
 
 import { logger } from "@/lib/logger";
 import { prisma } from "@/lib/prisma";
-import type { AICapability } from "./types";
+import type { AICapability, WorkflowStepRef } from "./types";
 
 const log = logger.child({ module: "2bot-ai-usage" });
 
@@ -35,6 +35,8 @@ export interface TwoBotAIUsageData {
   gatewayId?: string | null;
   /** Track which plugin made this AI call (for per-plugin usage analytics) */
   userPluginId?: string;
+  /** Workflow run and step this call was made for (workflow analytics) */
+  workflowStep?: WorkflowStepRef;
   /** AI capability (universal naming) */
   capability: AICapability;
   model: string;
@@ -166,6 +168,8 @@ class TwoBotAIUsageService {
       departmentId: data.departmentId,
       gatewayId: data.gatewayId ?? undefined,
       userPluginId: data.userPluginId ?? undefined,
+      workflowRunId: data.workflowStep?.runId,
+      workflowStepOrder: data.workflowStep?.stepOrder,
       capability: data.capability, // Universal capability naming
       model: data.model,
       source: "2bot", // Always 2Bot for this service
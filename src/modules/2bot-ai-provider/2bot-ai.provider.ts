@@ -62,7 +62,8 @@ import type {
     TextGenerationResponse,
     TextGenerationStreamChunk,
     TwoBotAIModel,
-    TwoBotAIProvider
+    TwoBotAIProvider,
+    WorkflowStepRef
 } from "./types";
 import { TwoBotAIError } from "./types";
 
@@ -268,6 +269,7 @@ async function safeDeductCredits(
     userId: string;
     gatewayId: undefined;
     userPluginId?: string;
+    workflowStep?: WorkflowStepRef;
     capability: "text-generation" | "code-generation";
     model: string;
     source: "2bot";
@@ -577,6 +579,7 @@ export const twoBotAIProvider = {
         userId: request.userId,
         gatewayId: undefined,
         userPluginId: request.userPluginId,
+        workflowStep: request.workflowStep,
         capability: (request.capability || "text-generation") as "text-generation" | "code-generation",
         model: request.model,
         source: "2bot",
@@ -798,6 +801,7 @@ export const twoBotAIProvider = {
         userId: request.userId,
         gatewayId: undefined,
         userPluginId: request.userPluginId,
+        workflowStep: request.workflowStep,
         capability: (request.capability || "text-generation") as "text-generation" | "code-generation",
         model: request.model,
         source: "2bot",
@@ -1041,6 +1045,7 @@ export const twoBotAIProvider = {
       userId: request.userId,
       gatewayId: undefined,
       userPluginId: request.userPluginId,
+      workflowStep: request.workflowStep,
       capability: "image-generation" as const,
       model: providerModelId,
       source: "2bot" as const,
@@ -1234,6 +1239,7 @@ export const twoBotAIProvider = {
       userId: request.userId,
       gatewayId: undefined,
       userPluginId: request.userPluginId,
+      workflowStep: request.workflowStep,
       capability: "speech-synthesis" as const,
       model: providerModelId,
       source: "2bot" as const,
@@ -173,7 +173,8 @@ export type {
     TextGenerationStreamChunk,
     TwoBotAIErrorCode,
     TwoBotAIModel,
-    TwoBotAIProvider
+    TwoBotAIProvider,
+    WorkflowStepRef
 } from "./types";
 
 export {
@@ -11,6 +11,12 @@
 import type { AICapability } from "./ai-capabilities";
 export type { AICapability } from "./ai-capabilities";
 
+/** Workflow step an AI call was made for, recorded on its usage row */
+export interface WorkflowStepRef {
+  runId: string;
+  stepOrder: number;
+}
+
 // ===========================================
 // Model Types
 // ===========================================
@@ -185,6 +191,8 @@ export interface TextGenerationRequest {
   organizationId?: string;
   /** User plugin ID for per-plugin AI usage tracking */
   userPluginId?: string;
+  /** Workflow step making the call (per-run credit analytics) */
+  workflowStep?: WorkflowStepRef;
   conversationId?: string;
   /** Enable smart routing to use cheaper models for simple queries (default: true) */
   smartRouting?: boolean;
@@ -262,6 +270,8 @@ export interface ImageGenerationRequest {
   organizationId?: string;
   /** User plugin ID for per-plugin AI usage tracking */
   userPluginId?: string;
+  /** Workflow step making the call (per-run credit analytics) */
+  workflowStep?: WorkflowStepRef;
   /** User's routing preference: quality=best models, balanced=default, cost=cheapest */
   routingPreference?: 'quality' | 'balanced' | 'cost';
 }
@@ -296,6 +306,8 @@ export interface SpeechSynthesisRequest {
   organizationId?: string;
   /** User plugin ID for per-plugin AI usage tracking */
   userPluginId?: string;
+  /** Workflow step making the call (per-run credit analytics) */
+  workflowStep?: WorkflowStepRef;
 }
 
 export interface SpeechSynthesisResponse {
@@ -10,6 +10,7 @@
 import { sendEmail } from '@/lib/email';
 import { logger } from '@/lib/logger';
 import { isSafeUrl } from '@/lib/network-security';
+import { emitPlatformEvent } from '@/lib/platform-events';
 import { prisma } from '@/lib/prisma';
 import { redis } from '@/lib/redis';
 import { resourceService } from '@/modules/resource';
@@ -170,7 +171,8 @@ class AlertServiceImpl {
   }
 
   /**
-   * Create and send an alert (with cooldown check)
+   * Create and send an alert (with cooldown check). Sent alerts are also
+   * published as `alert.fired` platform events.
    */
   async createAlert(
     organizationId: string,
@@ -186,8 +188,9 @@ class AlertServiceImpl {
     }
     
     // Create alert record
+    const alertId = `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const alert: Alert = {
-      id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: alertId,
       organizationId,
       ...alertData,
       acknowledged: false,
@@ -217,6 +220,23 @@ class AlertServiceImpl {
     
     // Send notifications
     await this.sendAlertNotifications(organizationId, alert);
+
+    emitPlatformEvent({
+      name: 'alert.fired',
+      userId: null,
+      organizationId,
+      data: {
+        alertId,
+        type: alert.type,
+        severity: alert.severity,
+        title: alert.title,
+        message: alert.message,
+        resource: alert.resource,
+        current: alert.current,
+        limit: alert.limit,
+        percentage: alert.percentage,
+      },
+    });
     
     log.info(
       { organizationId, alertId: alert.id, type: alert.type, severity: alert.severity },
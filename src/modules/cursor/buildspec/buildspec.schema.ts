@@ -196,6 +196,7 @@ export const WorkflowTriggerTypeEnum = z.enum([
   "SCHEDULE",
   "WEBHOOK",
   "MANUAL",
+  "PLATFORM_EVENT",
 ]);
 
 export const WorkflowGatewayRoleEnum = z.enum(["trigger", "action-target", "side-effect"]);
@@ -0,0 +1,393 @@
+/**
+ * Email Gateway Tests
+ *
+ * Tests for message parsing and threading helpers, inbox polling against a
+ * fake IMAP client, and the EMAIL provider's send/reply actions.
+ *
+ * @module modules/gateway/__tests__/email.test
+ */
+
+import { simpleParser } from "mailparser";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// ===========================================
+// Mock Dependencies
+// ===========================================
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: { gateway: { findUnique: vi.fn() } },
+}));
+
+vi.mock("@/lib/logger", () => {
+  const log = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: () => log,
+  };
+  return { logger: log, default: log };
+});
+
+vi.mock("../gateway.service", () => ({
+  gatewayService: {
+    updateStatus: vi.fn().mockResolvedValue(undefined),
+    updateMetadata: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock("../gateway-metrics.service", () => ({
+  gatewayMetricService: {
+    recordSuccess: vi.fn().mockResolvedValue(undefined),
+    recordError: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const store = new Map<string, string>();
+vi.mock("@/lib/redis", () => ({
+  redis: {
+    get: async (key: string) => store.get(key) ?? null,
+    set: async (key: string, value: string) => {
+      store.set(key, value);
+      return "OK";
+    },
+  },
+}));
+
+// Fake SMTP transport — records sent mail
+const sendMail = vi.fn();
+vi.mock("nodemailer", () => ({
+  default: {
+    createTransport: () => ({
+      verify: vi.fn().mockResolvedValue(true),
+      sendMail,
+      close: vi.fn(),
+    }),
+  },
+}));
+
+// Fake IMAP mailbox — `mailbox.messages` is what the next fetch returns
+const mailbox = {
+  uidValidity: BigInt(1),
+  uidNext: 1,
+  messages: [] as Array<{ uid: number; source: Buffer; size: number }>,
+  flagged: [] as string[],
+};
+vi.mock("imapflow", () => ({
+  ImapFlow: class {
+    mailbox = { uidValidity: mailbox.uidValidity, uidNext: mailbox.uidNext };
+    connect = vi.fn().mockResolvedValue(undefined);
+    logout = vi.fn().mockResolvedValue(undefined);
+    status = vi.fn().mockResolvedValue({ messages: mailbox.messages.length });
+    getMailboxLock = vi.fn().mockResolvedValue({ release: vi.fn() });
+    messageFlagsAdd = vi.fn(async (range: string) => {
+      mailbox.flagged.push(range);
+      return true;
+    });
+    async *fetch() {
+      yield* mailbox.messages;
+    }
+  },
+}));
+
+// Import after mocking
+import { transformEmailMessage } from "@/modules/plugin/plugin.events";
+
+import {
+    fetchNewEmails,
+    getEmailThread,
+    isAutomatedEmail,
+    pollIntervalSeconds,
+    replySubject,
+    stripQuotedReply,
+    threadIdOf,
+    toInboundEmail,
+} from "../email.service";
+import type { EmailCredentials } from "../gateway.types";
+import { EmailProvider } from "../providers/email.provider";
+
+const GATEWAY_ID = "gw-email-1";
+
+const CREDENTIALS: EmailCredentials = {
+  imapHost: "imap.example.com",
+  imapPort: 993,
+  smtpHost: "smtp.example.com",
+  smtpPort: 465,
+  username: "support@example.com",
+  password: "secret",
+  fromAddress: "support@example.com",
+  fromName: "Support",
+};
+
+function rawEmail(headers: Record<string, string>, body = "Hello"): string {
+  const lines = Object.entries({
+    From: "Jane Doe <jane@customer.test>",
+    To: "support@example.com",
+    Subject: "Order question",
+    Date: "Tue, 01 Jan 2030 10:00:00 +0000",
+    ...headers,
+  }).map(([k, v]) => `${k}: ${v}`);
+  return `${lines.join("\r\n")}\r\n\r\n${body}\r\n`;
+}
+
+beforeEach(() => {
+  store.clear();
+  sendMail.mockReset();
+  sendMail.mockImplementation(async () => ({
+    messageId: `<sent-${sendMail.mock.calls.length}@example.com>`,
+    accepted: ["jane@customer.test"],
+    rejected: [],
+  }));
+  mailbox.uidNext = 1;
+  mailbox.messages = [];
+  mailbox.flagged = [];
+});
+
+// ===========================================
+// Parsing & threading helpers
+// ===========================================
+
+describe("threadIdOf", () => {
+  it("uses the root of the References chain", () => {
+    expect(threadIdOf({ messageId: "<c>", inReplyTo: "<b>", references: ["<a>", "<b>"] })).toBe("<a>");
+  });
+
+  it("falls back to In-Reply-To, then the message itself", () => {
+    expect(threadIdOf({ messageId: "<c>", inReplyTo: "<b>", references: [] })).toBe("<b>");
+    expect(threadIdOf({ messageId: "<c>", references: [] })).toBe("<c>");
+  });
+});
+
+describe("replySubject", () => {
+  it("adds a single Re: prefix", () => {
+    expect(replySubject("Order question")).toBe("Re: Order question");
+    expect(replySubject("RE: Order question")).toBe("RE: Order question");
+    expect(replySubject("  ")).toBe("Re: (no subject)");
+  });
+});
+
+describe("stripQuotedReply", () => {
+  it("drops the quoted original", () => {
+    expect(stripQuotedReply("Thanks!\n\nOn Mon, 1 Jan 2030, Bot <bot@x.test> wrote:\n> Earlier")).toBe("Thanks!");
+    expect(stripQuotedReply("Sure\n-----Original Message-----\nFrom: x")).toBe("Sure");
+    expect(stripQuotedReply("Yes\r\n> quoted")).toBe("Yes");
+  });
+
+  it("handles an attribution line wrapped over two lines", () => {
+    expect(stripQuotedReply("Ok\nOn Mon, 1 Jan 2030 at 10:00, Jane Doe\n<jane@customer.test> wrote:\n> hi")).toBe("Ok");
+  });
+
+  it("keeps messages without quotes intact", () => {
+    expect(stripQuotedReply("Line one\nLine two")).toBe("Line one\nLine two");
+  });
+});
+
+describe("toInboundEmail", () => {
+  it("maps headers, threading and the new reply text", async () => {
+    const parsed = await simpleParser(
+      rawEmail(
+        {
+          "Message-ID": "<m2@customer.test>",
+          "In-Reply-To": "<m1@example.com>",
+          References: "<m0@customer.test> <m1@example.com>",
+          "Reply-To": "orders@customer.test",
+          Subject: "Re: Order question",
+        },
+        "Still waiting\r\n\r\n> Your order ships soon",
+      ),
+    );
+    const message = toInboundEmail(parsed, 7);
+    expect(message).toMatchObject({
+      uid: 7,
+      messageId: "<m2@customer.test>",
+      threadId: "<m0@customer.test>",
+      inReplyTo: "<m1@example.com>",
+      references: ["<m0@customer.test>", "<m1@example.com>"],
+      from: "jane@customer.test",
+      fromName: "Jane Doe",
+      replyTo: "orders@customer.test",
+      to: ["support@example.com"],
+      subject: "Re: Order question",
+      replyText: "Still waiting",
+    });
+  });
+
+  it("starts a new thread for a first message", async () => {
+    const parsed = await simpleParser(rawEmail({ "Message-ID": "<first@customer.test>" }));
+    expect(toInboundEmail(parsed, 1)?.threadId).toBe("<first@customer.test>");
+  });
+});
+
+describe("isAutomatedEmail", () => {
+  it("flags auto-replies, bulk mail and our own messages", async () => {
+    const auto = await simpleParser(rawEmail({ "Auto-Submitted": "auto-replied" }));
+    const bulk = await simpleParser(rawEmail({ Precedence: "bulk" }));
+    const own = await simpleParser(rawEmail({ From: "Support <SUPPORT@example.com>" }));
+    const human = await simpleParser(rawEmail({}));
+    expect(isAutomatedEmail(auto, CREDENTIALS.fromAddress)).toBe(true);
+    expect(isAutomatedEmail(bulk, CREDENTIALS.fromAddress)).toBe(true);
+    expect(isAutomatedEmail(own, CREDENTIALS.fromAddress)).toBe(true);
+    expect(isAutomatedEmail(human, CREDENTIALS.fromAddress)).toBe(false);
+  });
+});
+
+describe("pollIntervalSeconds", () => {
+  it("defaults and clamps the configured interval", () => {
+    expect(pollIntervalSeconds({})).toBe(60);
+    expect(pollIntervalSeconds({ pollIntervalSeconds: 1 })).toBe(30);
+    expect(pollIntervalSeconds({ pollIntervalSeconds: 1e9 })).toBe(3600);
+  });
+});
+
+// ===========================================
+// Inbox polling
+// ===========================================
+
+describe("fetchNewEmails", () => {
+  it("only records the inbox position on the first poll", async () => {
+    mailbox.uidNext = 5;
+    expect(await fetchNewEmails(GATEWAY_ID, CREDENTIALS, {})).toEqual([]);
+  });
+
+  it("returns new mail, skips automated mail and records threads", async () => {
+    mailbox.uidNext = 3;
+    await fetchNewEmails(GATEWAY_ID, CREDENTIALS, {});
+
+    const human = rawEmail({ "Message-ID": "<new@customer.test>" });
+    const bounce = rawEmail({ "Message-ID": "<ooo@customer.test>", "Auto-Submitted": "auto-replied" });
+    mailbox.uidNext = 5;
+    mailbox.messages = [
+      { uid: 3, source: Buffer.from(human), size: human.length },
+      { uid: 4, source: Buffer.from(bounce), size: bounce.length },
+    ];
+
+    const messages = await fetchNewEmails(GATEWAY_ID, CREDENTIALS, {});
+    expect(messages.map((m) => m.messageId)).toEqual(["<new@customer.test>"]);
+    expect(mailbox.flagged).toEqual(["3,4"]);
+    expect(await getEmailThread(GATEWAY_ID, "<new@customer.test>")).toMatchObject({
+      replyTo: "jane@customer.test",
+      lastMessageId: "<new@customer.test>",
+      references: ["<new@customer.test>"],
+    });
+
+    // Nothing new since — the cursor moved past both messages
+    mailbox.messages = [{ uid: 4, source: Buffer.from(bounce), size: bounce.length }];
+    expect(await fetchNewEmails(GATEWAY_ID, CREDENTIALS, {})).toEqual([]);
+  });
+});
+
+// ===========================================
+// Provider
+// ===========================================
+
+describe("EmailProvider", () => {
+  const provider = new EmailProvider();
+
+  beforeEach(async () => {
+    await provider.connect(GATEWAY_ID, CREDENTIALS, {});
+  });
+
+  it("sends a new email with attachments", async () => {
+    const result = await provider.execute(GATEWAY_ID, "sendEmail", {
+      to: "jane@customer.test",
+      subject: "Your invoice",
+      text: "Attached.",
+      attachments: [{ filename: "invoice.txt", content: Buffer.from("total: 10").toString("base64") }],
+    });
+
+    expect(result).toMatchObject({ messageId: "<sent-1@example.com>", accepted: ["jane@customer.test"] });
+    expect(sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: { name: "Support", address: "support@example.com" },
+        to: "jane@customer.test",
+        subject: "Your invoice",
+        attachments: [expect.objectContaining({ filename: "invoice.txt", encoding: "base64" })],
+      }),
+    );
+  });
+
+  it("rejects attachment URLs pointing at private hosts", async () => {
+    await expect(
+      provider.execute(GATEWAY_ID, "sendEmail", {
+        to: "jane@customer.test",
+        subject: "x",
+        text: "x",
+        attachments: [{ filename: "secrets", url: "http://169.254.169.254/latest" }],
+      }),
+    ).rejects.toThrow(/not allowed/);
+  });
+
+  it("replies in a known thread and extends its References chain", async () => {
+    // Initialise the cursor on an empty inbox, then receive the question
+    await fetchNewEmails(GATEWAY_ID, CREDENTIALS, {});
+    const raw = rawEmail({ "Message-ID": "<q1@customer.test>" });
+    mailbox.uidNext = 2;
+    mailbox.messages = [{ uid: 1, source: Buffer.from(raw), size: raw.length }];
+    await fetchNewEmails(GATEWAY_ID, CREDENTIALS, {});
+
+    await provider.execute(GATEWAY_ID, "sendMessage", { chat_id: "<q1@customer.test>", text: "On its way" });
+    expect(sendMail).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        to: "jane@customer.test",
+        subject: "Re: Order question",
+        inReplyTo: "<q1@customer.test>",
+        references: ["<q1@customer.test>"],
+        headers: { "Auto-Submitted": "auto-replied" },
+      }),
+    );
+
+    await provider.execute(GATEWAY_ID, "replyToEmail", { threadId: "<q1@customer.test>", text: "Shipped!" });
+    expect(sendMail).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        inReplyTo: "<sent-1@example.com>",
+        references: ["<q1@customer.test>", "<sent-1@example.com>"],
+        headers: undefined,
+      }),
+    );
+  });
+
+  it("replies to an unknown thread only with an explicit recipient", async () => {
+    await expect(
+      provider.execute(GATEWAY_ID, "sendMessage", { chat_id: "<gone@customer.test>", text: "Hi" }),
+    ).rejects.toThrow(/Unknown email thread/);
+
+    const result = await provider.execute(GATEWAY_ID, "replyToEmail", {
+      to: "jane@customer.test",
+      inReplyTo: "<gone@customer.test>",
+      subject: "Old question",
+      text: "Hi",
+    });
+    expect(result).toMatchObject({ threadId: "<gone@customer.test>" });
+    expect(sendMail).toHaveBeenLastCalledWith(
+      expect.objectContaining({ subject: "Re: Old question", inReplyTo: "<gone@customer.test>" }),
+    );
+  });
+
+  it("requires a body", async () => {
+    await expect(
+      provider.execute(GATEWAY_ID, "sendEmail", { to: "jane@customer.test", subject: "x" }),
+    ).rejects.toThrow(/body/);
+  });
+});
+
+// ===========================================
+// Event transform
+// ===========================================
+
+describe("transformEmailMessage", () => {
+  it("maps an inbound email to the email.message event", async () => {
+    const parsed = await simpleParser(rawEmail({ "Message-ID": "<t1@customer.test>" }));
+    const inbound = toInboundEmail(parsed, 1);
+    if (!inbound) throw new Error("expected a message");
+
+    const event = transformEmailMessage(inbound, GATEWAY_ID);
+    expect(event.type).toBe("email.message");
+    expect(event.data).toMatchObject({
+      messageId: "<t1@customer.test>",
+      threadId: "<t1@customer.test>",
+      from: "jane@customer.test",
+      subject: "Order question",
+      replyText: "Hello",
+    });
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Gateway Message Log Tests
+ *
+ * Tests for PII masking, the per-platform inbound normalizers, and how
+ * recording honors the per-gateway logging switches.
+ *
+ * @module modules/gateway/__tests__/gateway-messages.test
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// ===========================================
+// Mock Dependencies
+// ===========================================
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    gateway: { findUnique: vi.fn() },
+    gatewayMessage: { create: vi.fn(), createMany: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/logger", () => {
+  const log = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: () => log,
+  };
+  return { logger: log, default: log };
+});
+
+vi.mock("@/lib/encryption", async () => {
+  const { createHash } = await import("node:crypto");
+  return { keyedHash: (value: string) => createHash("sha256").update(value).digest("hex") };
+});
+
+// ===========================================
+// Imports (after mocks)
+// ===========================================
+
+import { prisma } from "@/lib/prisma";
+
+import {
+    discordInboundMessages,
+    gatewayMessageService,
+    maskPii,
+    pseudonymizeId,
+    slackInboundMessages,
+    telegramInboundMessages,
+    whatsAppInboundMessages,
+} from "../gateway-messages.service";
+
+const mockPrisma = prisma as unknown as {
+  gateway: { findUnique: ReturnType<typeof vi.fn> };
+  gatewayMessage: { create: ReturnType<typeof vi.fn>; createMany: ReturnType<typeof vi.fn> };
+};
+
+let gatewaySeq = 0;
+/** A fresh gateway ID per test, so cached switches don't leak between tests */
+function nextGatewayId(): string {
+  gatewaySeq += 1;
+  return `gw-log-${gatewaySeq}`;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockPrisma.gatewayMessage.create.mockResolvedValue({});
+  mockPrisma.gatewayMessage.createMany.mockResolvedValue({ count: 1 });
+});
+
+// ===========================================
+// PII redaction
+// ===========================================
+
+describe("maskPii", () => {
+  it("masks email addresses", () => {
+    expect(maskPii("mail me at jane.doe+bot@example.co.uk please")).toEqual({
+      text: "mail me at [email] please",
+      redacted: true,
+    });
+  });
+
+  it("masks card numbers that pass the Luhn check", () => {
+    expect(maskPii("card 4111 1111 1111 1111 exp 12/30").text).toBe("card [card] exp 12/30");
+  });
+
+  it("masks phone numbers in common formats", () => {
+    expect(maskPii("call +1 (555) 123-4567").text).toBe("call [phone]");
+    expect(maskPii("or 020 7946 0958").text).toBe("or [phone]");
+  });
+
+  it("leaves short numbers and plain text alone", () => {
+    expect(maskPii("order 4521 ships in 3 days")).toEqual({
+      text: "order 4521 ships in 3 days",
+      redacted: false,
+    });
+  });
+});
+
+// ===========================================
+// Platform payloads
+// ===========================================
+
+describe("inbound normalizers", () => {
+  it("reads a Telegram message with sender and chat", () => {
+    const messages = telegramInboundMessages({
+      update_id: 1,
+      message: {
+        message_id: 55,
+        chat: { id: -100123, type: "supergroup", title: "Support" },
+        from: { id: 42, first_name: "Ada", last_name: "Lovelace" },
+        text: "hello",
+      },
+    });
+
+    expect(messages).toEqual([{
+      chatId: "-100123",
+      kind: "message",
+      senderId: "42",
+      senderName: "Ada Lovelace",
+      text: "hello",
+      platformMessageId: "55",
+    }]);
+  });
+
+  it("reads a Telegram button press as its callback data", () => {
+    const [message] = telegramInboundMessages({
+      update_id: 2,
+      callback_query: {
+        id: "cb-1",
+        from: { id: 42, first_name: "Ada" },
+        message: { message_id: 9, chat: { id: 42 } },
+        data: "buy:3",
+      },
+    });
+
+    expect(message).toMatchObject({ chatId: "42", kind: "callback_query", text: "buy:3" });
+  });
+
+  it("ignores Telegram updates without a message", () => {
+    expect(telegramInboundMessages({ update_id: 3, my_chat_member: { chat: { id: 1 } } })).toEqual([]);
+  });
+
+  it("renders a Discord slash command with its options", () => {
+    const [message] = discordInboundMessages({
+      id: "int-1",
+      type: 2,
+      channel_id: "chan-1",
+      member: { user: { id: "u-1", username: "ada", global_name: "Ada" } },
+      data: { name: "order", options: [{ name: "item", value: "tea" }] },
+    });
+
+    expect(message).toMatchObject({ chatId: "chan-1", senderName: "Ada", text: "/order item:tea" });
+  });
+
+  it("skips Slack bot echoes but keeps user messages", () => {
+    const event = (extra: Record<string, unknown>) => ({
+      type: "event_callback",
+      event: { type: "message", channel: "C1", user: "U1", text: "hi", ts: "1.2", ...extra },
+    });
+
+    expect(slackInboundMessages(event({}))).toHaveLength(1);
+    expect(slackInboundMessages(event({ bot_id: "B1" }))).toEqual([]);
+  });
+
+  it("reads every message of a WhatsApp notification with the contact name", () => {
+    const messages = whatsAppInboundMessages({
+      entry: [{
+        changes: [{
+          value: {
+            contacts: [{ wa_id: "15551230000", profile: { name: "Ada" } }],
+            messages: [
+              { id: "wamid.1", from: "15551230000", type: "text", text: { body: "first" } },
+              { id: "wamid.2", from: "15551230000", type: "image", image: { caption: "second" } },
+            ],
+          },
+        }],
+      }],
+    });
+
+    expect(messages.map((m) => [m.senderName, m.kind, m.text])).toEqual([
+      ["Ada", "text", "first"],
+      ["Ada", "image", "second"],
+    ]);
+  });
+});
+
+// ===========================================
+// Recording
+// ===========================================
+
+describe("gatewayMessageService", () => {
+  it("records inbound messages for gateways that log", async () => {
+    const gatewayId = nextGatewayId();
+    mockPrisma.gateway.findUnique.mockResolvedValue({ logMessages: true, redactPii: false });
+
+    await gatewayMessageService.recordInbound(gatewayId, [
+      { chatId: 42, kind: "message", senderId: 7, text: "hello" },
+    ]);
+
+    expect(mockPrisma.gatewayMessage.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({
+        gatewayId,
+        direction: "INBOUND",
+        chatId: "42",
+        senderId: "7",
+        text: "hello",
+        redacted: false,
+      })],
+    });
+  });
+
+  it("stores nothing when logging is off", async () => {
+    const gatewayId = nextGatewayId();
+    mockPrisma.gateway.findUnique.mockResolvedValue({ logMessages: false, redactPii: false });
+
+    await gatewayMessageService.recordInbound(gatewayId, [{ chatId: 1, kind: "message", text: "x" }]);
+    await gatewayMessageService.recordOutbound(gatewayId, "sendMessage", { chat_id: 1, text: "y" }, {});
+
+    expect(mockPrisma.gatewayMessage.createMany).not.toHaveBeenCalled();
+    expect(mockPrisma.gatewayMessage.create).not.toHaveBeenCalled();
+  });
+
+  it("masks PII before storing when the gateway redacts", async () => {
+    const gatewayId = nextGatewayId();
+    mockPrisma.gateway.findUnique.mockResolvedValue({ logMessages: true, redactPii: true });
+
+    await gatewayMessageService.recordInbound(gatewayId, [
+      { chatId: 1, kind: "message", text: "I'm ada@example.com" },
+    ]);
+
+    const [row] = mockPrisma.gatewayMessage.createMany.mock.calls[0]![0].data;
+    expect(row).toMatchObject({ text: "I'm [email]", redacted: true });
+  });
+
+  it("stores no phone number for a WhatsApp message when the gateway redacts", async () => {
+    const gatewayId = nextGatewayId();
+    mockPrisma.gateway.findUnique.mockResolvedValue({ logMessages: true, redactPii: true });
+
+    await gatewayMessageService.recordInbound(gatewayId, whatsAppInboundMessages({
+      entry: [{
+        changes: [{
+          value: {
+            contacts: [{ wa_id: "15551230000", profile: { name: "Ada" } }],
+            messages: [{ id: "wamid.1", from: "15551230000", type: "text", text: { body: "call +1 555 123 0000" } }],
+          },
+        }],
+      }],
+    }));
+    await gatewayMessageService.recordOutbound(
+      gatewayId,
+      "sendMessage",
+      { to: "15551230000", text: "Will do" },
+      {}
+    );
+
+    const [inbound] = mockPrisma.gatewayMessage.createMany.mock.calls[0]![0].data;
+    const outbound = mockPrisma.gatewayMessage.create.mock.calls[0]![0].data;
+    expect(inbound).toMatchObject({
+      chatId: pseudonymizeId(gatewayId, "15551230000"),
+      senderId: pseudonymizeId(gatewayId, "15551230000"),
+      senderName: null,
+      text: "call [phone]",
+      redacted: true,
+    });
+    expect(outbound).toMatchObject({ chatId: inbound.chatId, redacted: true });
+    expect(JSON.stringify([inbound, outbound])).not.toContain("15551230000");
+  });
+
+  it("records sends with the run that made them and the platform message ID", async () => {
+    const gatewayId = nextGatewayId();
+    mockPrisma.gateway.findUnique.mockResolvedValue({ logMessages: true, redactPii: false });
+
+    await gatewayMessageService.recordOutbound(
+      gatewayId,
+      "sendMessage",
+      { chat_id: 42, text: "Thanks!" },
+      { message_id: 99 },
+      "run-1"
+    );
+
+    expect(mockPrisma.gatewayMessage.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        gatewayId,
+        direction: "OUTBOUND",
+        chatId: "42",
+        kind: "sendMessage",
+        text: "Thanks!",
+        platformMessageId: "99",
+        workflowRunId: "run-1",
+      }),
+    });
+  });
+
+  it("ignores actions that don't deliver a message", async () => {
+    const gatewayId = nextGatewayId();
+
+    await gatewayMessageService.recordOutbound(gatewayId, "getChat", { chat_id: 42 }, {});
+
+    expect(mockPrisma.gateway.findUnique).not.toHaveBeenCalled();
+    expect(mockPrisma.gatewayMessage.create).not.toHaveBeenCalled();
+  });
+
+  it("re-reads the switches after they are invalidated", async () => {
+    const gatewayId = nextGatewayId();
+    mockPrisma.gateway.findUnique.mockResolvedValueOnce({ logMessages: true, redactPii: false });
+    await gatewayMessageService.recordInbound(gatewayId, [{ chatId: 1, kind: "message" }]);
+
+    mockPrisma.gateway.findUnique.mockResolvedValueOnce({ logMessages: false, redactPii: false });
+    gatewayMessageService.invalidateSettings(gatewayId);
+    await gatewayMessageService.recordInbound(gatewayId, [{ chatId: 1, kind: "message" }]);
+
+    expect(mockPrisma.gateway.findUnique).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.gatewayMessage.createMany).toHaveBeenCalledTimes(1);
+  });
+
+  it("never throws when the write fails", async () => {
+    const gatewayId = nextGatewayId();
+    mockPrisma.gateway.findUnique.mockResolvedValue({ logMessages: true, redactPii: false });
+    mockPrisma.gatewayMessage.createMany.mockRejectedValue(new Error("db down"));
+
+    await expect(
+      gatewayMessageService.recordInbound(gatewayId, [{ chatId: 1, kind: "message", text: "x" }])
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Matrix Gateway Tests
+ *
+ * Tests for `/sync` response processing (rooms, invites, leaves, message
+ * normalization) and the MATRIX provider's room actions against a fake
+ * homeserver.
+ *
+ * @module modules/gateway/__tests__/matrix.test
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// ===========================================
+// Mock Dependencies
+// ===========================================
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: { gateway: { findUnique: vi.fn() }, gatewayChat: { upsert: vi.fn(), updateMany: vi.fn() } },
+}));
+
+vi.mock("@/lib/logger", () => {
+  const log = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: () => log,
+  };
+  return { logger: log, default: log };
+});
+
+vi.mock("../gateway.service", () => ({
+  gatewayService: {
+    updateStatus: vi.fn().mockResolvedValue(undefined),
+    updateMetadata: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock("../gateway-metrics.service", () => ({
+  gatewayMetricService: {
+    recordSuccess: vi.fn().mockResolvedValue(undefined),
+    recordError: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock("@/lib/redis", () => ({
+  redis: { get: vi.fn().mockResolvedValue(null), set: vi.fn().mockResolvedValue("OK") },
+}));
+
+// ===========================================
+// Imports (after mocks)
+// ===========================================
+
+import { transformMatrixMessage } from "@/modules/plugin/plugin.events";
+
+import type { MatrixCredentials } from "../gateway.types";
+import {
+    mentionsUser,
+    processSyncResponse,
+    type MatrixEvent,
+    type MatrixRoomInfo,
+    type MatrixSyncResponse,
+} from "../matrix.service";
+import { MatrixProvider } from "../providers/matrix.provider";
+
+const GATEWAY_ID = "gw-matrix-1";
+const BOT = "@bot:example.org";
+const ALICE = "@alice:example.org";
+const ROOM = "!room1:example.org";
+
+const CREDENTIALS: MatrixCredentials = {
+  homeserverUrl: "https://matrix.example.org",
+  accessToken: "syt_test_token",
+};
+
+let eventSeq = 0;
+function message(content: Record<string, unknown>, sender = ALICE): MatrixEvent {
+  eventSeq += 1;
+  return {
+    type: "m.room.message",
+    event_id: `$event${eventSeq}`,
+    sender,
+    origin_server_ts: Date.UTC(2030, 0, 1),
+    content: { msgtype: "m.text", ...content },
+  };
+}
+
+function member(userId: string, membership: string, sender = userId, displayname?: string): MatrixEvent {
+  return {
+    type: "m.room.member",
+    sender,
+    state_key: userId,
+    content: { membership, ...(displayname && { displayname }) },
+  };
+}
+
+function joinedRoom(timeline: MatrixEvent[], state: MatrixEvent[] = [], joinedMembers?: number) {
+  return {
+    ...(joinedMembers !== undefined && { summary: { "m.joined_member_count": joinedMembers } }),
+    state: { events: state },
+    timeline: { events: timeline },
+  };
+}
+
+function sync(rooms: MatrixSyncResponse["rooms"]): MatrixSyncResponse {
+  return { next_batch: "s2", rooms };
+}
+
+// ===========================================
+// Sync processing
+// ===========================================
+
+describe("processSyncResponse", () => {
+  let rooms: Map<string, MatrixRoomInfo>;
+
+  beforeEach(() => {
+    rooms = new Map();
+  });
+
+  it("reports every joined room on the first sync and skips its history", () => {
+    const result = processSyncResponse(
+      sync({
+        join: {
+          [ROOM]: joinedRoom(
+            [message({ body: "old news" })],
+            [
+              { type: "m.room.name", sender: ALICE, state_key: "", content: { name: "Support" } },
+              member(ALICE, "join", ALICE, "Alice"),
+            ],
+            5,
+          ),
+          "!dm:example.org": joinedRoom([], [], 2),
+        },
+      }),
+      BOT,
+      rooms,
+      true,
+    );
+
+    expect(result.messages).toEqual([]);
+    expect(result.joined.map((r) => r.roomId)).toEqual([ROOM, "!dm:example.org"]);
+    expect(result.joined[0]).toMatchObject({ name: "Support", memberCount: 5, isDirect: false });
+    expect(result.joined[1]).toMatchObject({ isDirect: true });
+  });
+
+  it("normalizes new messages on later syncs", () => {
+    processSyncResponse(sync({ join: { [ROOM]: joinedRoom([], [member(ALICE, "join", ALICE, "Alice")], 3) } }), BOT, rooms, true);
+
+    const reply = message({
+      body: "> quoted\n\nhey @bot:example.org",
+      format: "org.matrix.custom.html",
+      formatted_body: '<a href="https://matrix.to/#/@bot:example.org">bot</a> hey',
+      "m.relates_to": { "m.in_reply_to": { event_id: "$earlier" } },
+    });
+    const result = processSyncResponse(sync({ join: { [ROOM]: joinedRoom([reply]) } }), BOT, rooms, false);
+
+    expect(result.joined).toEqual([]);
+    expect(result.messages).toHaveLength(1);
+    expect(result.messages[0]).toMatchObject({
+      id: reply.event_id,
+      eventId: reply.event_id,
+      roomId: ROOM,
+      sender: ALICE,
+      senderName: "Alice",
+      msgtype: "m.text",
+      isDirect: false,
+      mentioned: true,
+      replyToEventId: "$earlier",
+      formattedBody: expect.stringContaining("matrix.to"),
+    });
+  });
+
+  it("ignores our own messages, notices and edits", () => {
+    processSyncResponse(sync({ join: { [ROOM]: joinedRoom([]) } }), BOT, rooms, true);
+
+    const result = processSyncResponse(
+      sync({
+        join: {
+          [ROOM]: joinedRoom([
+            message({ body: "bot reply" }, BOT),
+            message({ msgtype: "m.notice", body: "other bot" }),
+            message({ body: "* fixed", "m.relates_to": { rel_type: "m.replace", event_id: "$x" } }),
+            { type: "m.reaction", event_id: "$r", sender: ALICE, content: {} },
+            message({ body: "real one" }),
+          ]),
+        },
+      }),
+      BOT,
+      rooms,
+      false,
+    );
+
+    expect(result.messages.map((m) => m.text)).toEqual(["real one"]);
+  });
+
+  it("keeps thread roots on threaded messages", () => {
+    processSyncResponse(sync({ join: { [ROOM]: joinedRoom([]) } }), BOT, rooms, true);
+    const threaded = message({ body: "in thread", "m.relates_to": { rel_type: "m.thread", event_id: "$root" } });
+
+    const result = processSyncResponse(sync({ join: { [ROOM]: joinedRoom([threaded]) } }), BOT, rooms, false);
+    expect(result.messages[0]?.threadRootId).toBe("$root");
+  });
+
+  it("reports a room joined after the first sync, but not a lazy-loaded member event", () => {
+    processSyncResponse(sync({ join: { [ROOM]: joinedRoom([]) } }), BOT, rooms, true);
+
+    const repeat = processSyncResponse(
+      sync({ join: { [ROOM]: joinedRoom([message({ body: "hi" })], [member(BOT, "join")]) } }),
+      BOT,
+      rooms,
+      false,
+    );
+    expect(repeat.joined).toEqual([]);
+
+    const fresh = processSyncResponse(
+      sync({ join: { "!new:example.org": joinedRoom([member(BOT, "join")], [], 4) } }),
+      BOT,
+      rooms,
+      false,
+    );
+    expect(fresh.joined.map((r) => r.roomId)).toEqual(["!new:example.org"]);
+  });
+
+  it("tells leaving, kicks and bans apart, and lists invites", () => {
+    const result = processSyncResponse(
+      sync({
+        leave: {
+          "!left:example.org": { timeline: { events: [member(BOT, "leave")] } },
+          "!kicked:example.org": { timeline: { events: [member(BOT, "leave", ALICE)] } },
+          "!banned:example.org": { timeline: { events: [member(BOT, "ban", ALICE)] } },
+        },
+        invite: { "!invite:example.org": {} },
+      }),
+      BOT,
+      rooms,
+      false,
+    );
+
+    expect(result.left).toEqual([
+      { roomId: "!left:example.org", status: "left" },
+      { roomId: "!kicked:example.org", status: "kicked" },
+      { roomId: "!banned:example.org", status: "banned" },
+    ]);
+    expect(result.invites).toEqual(["!invite:example.org"]);
+  });
+});
+
+describe("mentionsUser", () => {
+  it("accepts explicit mentions, pills and the bare user ID", () => {
+    expect(mentionsUser({ body: "hi", "m.mentions": { user_ids: [BOT] } }, BOT)).toBe(true);
+    expect(mentionsUser({ body: "hi", formatted_body: `<a href="https://matrix.to/#/${BOT}">bot</a>` }, BOT)).toBe(true);
+    expect(mentionsUser({ body: `${BOT}: hi` }, BOT)).toBe(true);
+    expect(mentionsUser({ body: "hi everyone" }, BOT)).toBe(false);
+  });
+});
+
+describe("transformMatrixMessage", () => {
+  it("maps an inbound message to the matrix.message event", () => {
+    const rooms = new Map<string, MatrixRoomInfo>();
+    processSyncResponse(sync({ join: { [ROOM]: joinedRoom([], [], 2) } }), BOT, rooms, true);
+    const inbound = processSyncResponse(
+      sync({ join: { [ROOM]: joinedRoom([message({ body: "hello" })]) } }),
+      BOT,
+      rooms,
+      false,
+    ).messages[0];
+    if (!inbound) throw new Error("expected a message");
+
+    const event = transformMatrixMessage(inbound, GATEWAY_ID);
+    expect(event.type).toBe("matrix.message");
+    expect(event.data).toMatchObject({ roomId: ROOM, sender: ALICE, text: "hello", isDirect: true, mentioned: false });
+  });
+});
+
+// ===========================================
+// Provider
+// ===========================================
+
+describe("MatrixProvider", () => {
+  const provider = new MatrixProvider();
+  const fetchMock = vi.fn();
+
+  function respond(body: unknown, status = 200) {
+    return Promise.resolve(new Response(JSON.stringify(body), { status }));
+  }
+
+  function lastRequest(): { method: string; url: string; body: Record<string, unknown> } {
+    const [url, init] = fetchMock.mock.calls.at(-1) as [URL, RequestInit];
+    return { method: String(init.method), url: url.toString(), body: JSON.parse(String(init.body ?? "{}")) };
+  }
+
+  beforeEach(async () => {
+    fetchMock.mockReset();
+    fetchMock.mockImplementation((url: URL) => {
+      const path = url.pathname;
+      if (path.endsWith("/account/whoami")) return respond({ user_id: BOT, device_id: "DEV1" });
+      if (path.includes("/profile/")) return respond({ displayname: "Helper Bot" });
+      return respond({ event_id: "$sent" });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    await provider.connect(GATEWAY_ID, CREDENTIALS, {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends replies as notices by default, accepting chat_id", async () => {
+    const result = await provider.execute(GATEWAY_ID, "sendMessage", {
+      chat_id: ROOM,
+      text: "Hi there",
+      replyTo: "$question",
+    });
+
+    expect(result).toEqual({ eventId: "$sent", roomId: ROOM });
+    const request = lastRequest();
+    expect(request.method).toBe("PUT");
+    expect(request.url).toContain(`/_matrix/client/v3/rooms/${encodeURIComponent(ROOM)}/send/m.room.message/`);
+    expect(request.body).toEqual({
+      msgtype: "m.notice",
+      body: "Hi there",
+      "m.relates_to": { "m.in_reply_to": { event_id: "$question" } },
+    });
+  });
+
+  it("edits a message with m.replace", async () => {
+    await provider.execute(GATEWAY_ID, "editMessage", { roomId: ROOM, eventId: "$sent", text: "Fixed" });
+
+    expect(lastRequest().body).toEqual({
+      msgtype: "m.notice",
+      body: "* Fixed",
+      "m.new_content": { msgtype: "m.notice", body: "Fixed" },
+      "m.relates_to": { rel_type: "m.replace", event_id: "$sent" },
+    });
+  });
+
+  it("redacts and reacts", async () => {
+    await provider.execute(GATEWAY_ID, "redactMessage", { roomId: ROOM, eventId: "$spam", reason: "spam" });
+    expect(lastRequest().url).toContain(`/redact/${encodeURIComponent("$spam")}/`);
+    expect(lastRequest().body).toEqual({ reason: "spam" });
+
+    await provider.execute(GATEWAY_ID, "sendReaction", { roomId: ROOM, eventId: "$msg", key: "👍" });
+    expect(lastRequest().url).toContain("/send/m.reaction/");
+    expect(lastRequest().body).toEqual({
+      "m.relates_to": { rel_type: "m.annotation", event_id: "$msg", key: "👍" },
+    });
+  });
+
+  it("rejects unknown msgtypes and missing rooms", async () => {
+    await expect(
+      provider.execute(GATEWAY_ID, "sendMessage", { roomId: ROOM, text: "x", msgtype: "m.image" }),
+    ).rejects.toThrow(/msgtype/);
+    await expect(provider.execute(GATEWAY_ID, "sendMessage", { text: "x" })).rejects.toThrow(/roomId/);
+  });
+
+  it("surfaces homeserver errors with their errcode", async () => {
+    fetchMock.mockImplementationOnce(() => respond({ errcode: "M_FORBIDDEN", error: "Not in room" }, 403));
+
+    await expect(provider.execute(GATEWAY_ID, "sendMessage", { roomId: ROOM, text: "x" })).rejects.toMatchObject({
+      name: "MatrixApiError",
+      status: 403,
+      errcode: "M_FORBIDDEN",
+    });
+  });
+
+  it("refuses homeservers on private addresses", async () => {
+    const result = await provider.validateCredentials({ homeserverUrl: "http://127.0.0.1:6167", accessToken: "t" });
+    expect(result.valid).toBe(false);
+    expect(result.error).toMatch(/not allowed/);
+  });
+});
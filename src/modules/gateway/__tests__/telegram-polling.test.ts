@@ -0,0 +1,276 @@
+/**
+ * Telegram Polling Tests
+ *
+ * Tests for the getUpdates loop of polling-mode TELEGRAM_BOT gateways
+ * (webhook removal, offset persistence, fatal errors, the poll lease)
+ * against a fake Bot API.
+ *
+ * @module modules/gateway/__tests__/telegram-polling.test
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// ===========================================
+// Mock Dependencies
+// ===========================================
+
+const store = new Map<string, string>();
+
+vi.mock("@/lib/redis", () => ({
+  redis: {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    set: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+      return "OK";
+    }),
+  },
+}));
+
+vi.mock("@/lib/redis-lock", () => ({
+  acquireLock: vi.fn().mockResolvedValue("lease-token"),
+  extendLock: vi.fn().mockResolvedValue(true),
+  releaseLock: vi.fn().mockResolvedValue(true),
+}));
+
+vi.mock("@/lib/logger", () => {
+  const log = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: () => log,
+  };
+  return { logger: log, default: log };
+});
+
+vi.mock("../gateway.service", () => ({
+  gatewayService: {
+    updateStatus: vi.fn().mockResolvedValue(undefined),
+    updateMetadata: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock("../gateway-metrics.service", () => ({
+  gatewayMetricService: {
+    recordSuccess: vi.fn().mockResolvedValue(undefined),
+    recordError: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+// ===========================================
+// Imports (after mocks)
+// ===========================================
+
+import { acquireLock, releaseLock } from "@/lib/redis-lock";
+
+import type { TelegramBotCredentials } from "../gateway.types";
+import { TelegramBotProvider } from "../providers/telegram-bot.provider";
+import {
+    isPollingMode,
+    isTelegramPollerRunning,
+    startTelegramPoller,
+    stopTelegramPoller,
+    type TelegramPolledUpdate,
+} from "../telegram-polling.service";
+
+const GATEWAY_ID = "gw-telegram-1";
+const CREDENTIALS: TelegramBotCredentials = { botToken: "123456:ABC-test" };
+
+interface ApiCall {
+  method: string;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Fake Bot API: `getUpdates` answers with the queued batches in order, then
+ * holds the request open until aborted (like an idle long-poll).
+ */
+function fakeBotApi(options: {
+  webhookUrl?: string;
+  batches?: TelegramPolledUpdate[][];
+  error?: { code: number; description: string };
+}) {
+  const calls: ApiCall[] = [];
+  const batches = [...(options.batches ?? [])];
+
+  const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+    const method = url.split("/").pop() as string;
+    const body = JSON.parse(String(init.body ?? "{}")) as Record<string, unknown>;
+    calls.push({ method, body });
+
+    const ok = (result: unknown) => new Response(JSON.stringify({ ok: true, result }));
+
+    switch (method) {
+      case "getMe":
+        return ok({ id: 123456, is_bot: true, first_name: "Test Bot", username: "test_bot" });
+      case "getWebhookInfo":
+        return ok({ url: options.webhookUrl ?? "" });
+      case "deleteWebhook":
+        return ok(true);
+      case "getUpdates": {
+        if (options.error) {
+          return new Response(
+            JSON.stringify({ ok: false, error_code: options.error.code, description: options.error.description }),
+            { status: options.error.code },
+          );
+        }
+        const batch = batches.shift();
+        if (batch) return ok(batch);
+        return new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+        });
+      }
+      default:
+        return ok(true);
+    }
+  });
+
+  vi.stubGlobal("fetch", fetchMock);
+  return { calls, fetchMock };
+}
+
+function update(id: number, text = "hi"): TelegramPolledUpdate {
+  return { update_id: id, message: { message_id: id, chat: { id: 42, type: "private" }, text } };
+}
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !check(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  expect(check()).toBe(true);
+}
+
+beforeEach(() => {
+  store.clear();
+  vi.clearAllMocks();
+});
+
+afterEach(async () => {
+  await stopTelegramPoller(GATEWAY_ID);
+  vi.unstubAllGlobals();
+});
+
+// ===========================================
+// Poll loop
+// ===========================================
+
+describe("startTelegramPoller", () => {
+  it("removes a leftover webhook before the first getUpdates", async () => {
+    const { calls } = fakeBotApi({ webhookUrl: "https://example.com/api/webhook/telegram/gw-telegram-1" });
+
+    await startTelegramPoller(GATEWAY_ID, CREDENTIALS, { dropPendingUpdates: true }, { onUpdate: vi.fn() });
+    await waitFor(() => calls.some((c) => c.method === "getUpdates"));
+
+    expect(calls.map((c) => c.method).slice(0, 3)).toEqual(["getWebhookInfo", "deleteWebhook", "getUpdates"]);
+    expect(calls[1]!.body).toEqual({ drop_pending_updates: true });
+  });
+
+  it("dispatches updates in order and advances the stored offset past each one", async () => {
+    const { calls } = fakeBotApi({ batches: [[update(10), update(11)], [update(12)]] });
+    const seen: number[] = [];
+
+    await startTelegramPoller(GATEWAY_ID, CREDENTIALS, {}, {
+      onUpdate: async (u) => {
+        seen.push(u.update_id);
+      },
+    });
+    await waitFor(() => calls.filter((c) => c.method === "getUpdates").length === 3);
+
+    expect(seen).toEqual([10, 11, 12]);
+    expect(store.get(`tg:offset:${GATEWAY_ID}`)).toBe("13");
+
+    const polls = calls.filter((c) => c.method === "getUpdates");
+    expect(polls[0]!.body.offset).toBeUndefined();
+    expect(polls[1]!.body.offset).toBe(12);
+    expect(polls[2]!.body.offset).toBe(13);
+  });
+
+  it("resumes from a saved offset and sends allowed_updates", async () => {
+    store.set(`tg:offset:${GATEWAY_ID}`, "500");
+    const { calls } = fakeBotApi({});
+
+    await startTelegramPoller(GATEWAY_ID, CREDENTIALS, { allowedUpdates: ["message"] }, { onUpdate: vi.fn() });
+    await waitFor(() => calls.some((c) => c.method === "getUpdates"));
+
+    const poll = calls.find((c) => c.method === "getUpdates")!;
+    expect(poll.body).toMatchObject({ offset: 500, allowed_updates: ["message"], timeout: 30 });
+  });
+
+  it("advances the offset even when dispatch of an update fails", async () => {
+    const { calls } = fakeBotApi({ batches: [[update(7)]] });
+
+    await startTelegramPoller(GATEWAY_ID, CREDENTIALS, {}, {
+      onUpdate: vi.fn().mockRejectedValue(new Error("workflow blew up")),
+    });
+    await waitFor(() => calls.filter((c) => c.method === "getUpdates").length === 2);
+
+    expect(store.get(`tg:offset:${GATEWAY_ID}`)).toBe("8");
+  });
+
+  it("stops for good when Telegram rejects the token", async () => {
+    fakeBotApi({ error: { code: 401, description: "Unauthorized" } });
+    const onError = vi.fn();
+
+    await startTelegramPoller(GATEWAY_ID, CREDENTIALS, {}, { onUpdate: vi.fn(), onError });
+    await waitFor(() => !isTelegramPollerRunning(GATEWAY_ID));
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ errorCode: 401 }), true);
+    expect(releaseLock).toHaveBeenCalledWith(`tg-poll:${GATEWAY_ID}`, "lease-token");
+  });
+
+  it("does not start when another replica holds the poll lease", async () => {
+    const { fetchMock } = fakeBotApi({});
+    vi.mocked(acquireLock).mockResolvedValueOnce(null);
+
+    const started = await startTelegramPoller(GATEWAY_ID, CREDENTIALS, {}, { onUpdate: vi.fn() });
+
+    expect(started).toBe(false);
+    expect(isTelegramPollerRunning(GATEWAY_ID)).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("reports healthy once the first poll succeeds", async () => {
+    const { calls } = fakeBotApi({ batches: [[]] });
+    const onHealthy = vi.fn();
+
+    await startTelegramPoller(GATEWAY_ID, CREDENTIALS, {}, { onUpdate: vi.fn(), onHealthy });
+    await waitFor(() => calls.filter((c) => c.method === "getUpdates").length === 2);
+
+    expect(onHealthy).toHaveBeenCalledTimes(1);
+  });
+});
+
+// ===========================================
+// Mode handling
+// ===========================================
+
+describe("polling mode", () => {
+  it("isPollingMode only matches updateMode: polling", () => {
+    expect(isPollingMode({ updateMode: "polling" })).toBe(true);
+    expect(isPollingMode({ updateMode: "webhook" })).toBe(false);
+    expect(isPollingMode({})).toBe(false);
+    expect(isPollingMode(null)).toBe(false);
+  });
+
+  it("provider connect removes the webhook instead of setting one", async () => {
+    const { calls } = fakeBotApi({ webhookUrl: "https://example.com/hook" });
+    const provider = new TelegramBotProvider();
+
+    await provider.connect(GATEWAY_ID, CREDENTIALS, { updateMode: "polling" });
+
+    const methods = calls.map((c) => c.method);
+    expect(methods).toContain("deleteWebhook");
+    expect(methods).not.toContain("setWebhook");
+  });
+
+  it("provider refuses setWebhook and getUpdates for a polling-mode gateway", async () => {
+    fakeBotApi({});
+    const provider = new TelegramBotProvider();
+    await provider.connect(GATEWAY_ID, CREDENTIALS, { updateMode: "polling" });
+
+    await expect(provider.execute(GATEWAY_ID, "getUpdates", {})).rejects.toThrow(/polling mode/);
+    await expect(provider.execute(GATEWAY_ID, "setWebhook", { url: "https://example.com/hook" })).rejects.toThrow(
+      /polling mode/,
+    );
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Web Chat Gateway Tests
+ *
+ * Tests for visitor session tokens, origin allow-listing, the message
+ * channel (history + live delivery) and the WEB_CHAT provider actions.
+ *
+ * @module modules/gateway/__tests__/web-chat.test
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// ===========================================
+// Mock Dependencies
+// ===========================================
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: { gateway: { findUnique: vi.fn() } },
+}));
+
+vi.mock("@/lib/encryption", () => ({
+  decryptJson: vi.fn(),
+}));
+
+vi.mock("@/lib/logger", () => {
+  const log = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: () => log,
+  };
+  return { logger: log, default: log };
+});
+
+vi.mock("../gateway.service", () => ({
+  gatewayService: {
+    updateStatus: vi.fn().mockResolvedValue(undefined),
+    updateMetadata: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock("../gateway-metrics.service", () => ({
+  gatewayMetricService: {
+    recordSuccess: vi.fn().mockResolvedValue(undefined),
+    recordError: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+// In-memory lists for the replay history; publish is a no-op (local emitter covers delivery)
+const lists = new Map<string, string[]>();
+vi.mock("@/lib/redis", () => {
+  const multi = () => {
+    const ops: Array<() => void> = [];
+    const chain = {
+      rpush: (key: string, value: string) => {
+        ops.push(() => lists.set(key, [...(lists.get(key) ?? []), value]));
+        return chain;
+      },
+      ltrim: (key: string, start: number) => {
+        ops.push(() => lists.set(key, (lists.get(key) ?? []).slice(start)));
+        return chain;
+      },
+      expire: () => chain,
+      exec: async () => {
+        ops.forEach((op) => op());
+        return [];
+      },
+    };
+    return chain;
+  };
+  return {
+    redis: {
+      multi,
+      publish: vi.fn().mockResolvedValue(0),
+      lrange: async (key: string) => lists.get(key) ?? [],
+      duplicate: () => ({
+        on: vi.fn(),
+        subscribe: vi.fn().mockResolvedValue(undefined),
+        unsubscribe: vi.fn().mockResolvedValue(undefined),
+      }),
+    },
+    isRedisReady: vi.fn().mockResolvedValue(true),
+  };
+});
+
+// Import after mocking
+import { transformWebChatMessage } from "@/modules/plugin/plugin.events";
+
+import { WebChatProvider } from "../providers/web-chat.provider";
+import {
+    generateSessionSecret,
+    getWebChatHistory,
+    isOriginAllowed,
+    issueSessionToken,
+    MAX_SESSION_TTL_HOURS,
+    postWebChatMessage,
+    sessionTtlHours,
+    subscribeWebChat,
+    verifySessionToken,
+    type WebChatStreamEvent,
+} from "../web-chat.service";
+
+const SECRET = generateSessionSecret();
+const GATEWAY_ID = "gw-web-1";
+
+beforeEach(() => {
+  lists.clear();
+});
+
+// ===========================================
+// Session tokens
+// ===========================================
+
+describe("session tokens", () => {
+  it("round-trips a freshly issued token", () => {
+    const { token, session } = issueSessionToken(SECRET, GATEWAY_ID, { ttlHours: 24 });
+    expect(session.sessionId).toMatch(/^wcs_/);
+    expect(session.visitorId).toMatch(/^wcv_/);
+    expect(verifySessionToken(SECRET, GATEWAY_ID, token)).toEqual(session);
+  });
+
+  it("keeps the session and a well-formed visitor ID when extending", () => {
+    const { session } = issueSessionToken(SECRET, GATEWAY_ID, {
+      ttlHours: 1,
+      sessionId: "wcs_existing",
+      visitorId: "wcv_returning",
+    });
+    expect(session.sessionId).toBe("wcs_existing");
+    expect(session.visitorId).toBe("wcv_returning");
+  });
+
+  it("replaces a visitor ID that does not look like one we issued", () => {
+    const { session } = issueSessionToken(SECRET, GATEWAY_ID, {
+      ttlHours: 1,
+      visitorId: "<script>",
+    });
+    expect(session.visitorId).toMatch(/^wcv_/);
+  });
+
+  it("rejects tokens signed with another secret", () => {
+    const { token } = issueSessionToken(generateSessionSecret(), GATEWAY_ID, { ttlHours: 1 });
+    expect(verifySessionToken(SECRET, GATEWAY_ID, token)).toBeNull();
+  });
+
+  it("rejects a tampered payload", () => {
+    const { token } = issueSessionToken(SECRET, GATEWAY_ID, { ttlHours: 1 });
+    const [, signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ gatewayId: GATEWAY_ID, sessionId: "wcs_other", visitorId: "wcv_x", exp: 9e9 }),
+    ).toString("base64url");
+    expect(verifySessionToken(SECRET, GATEWAY_ID, `${forged}.${signature}`)).toBeNull();
+  });
+
+  it("rejects tokens for another gateway", () => {
+    const { token } = issueSessionToken(SECRET, "gw-other", { ttlHours: 1 });
+    expect(verifySessionToken(SECRET, GATEWAY_ID, token)).toBeNull();
+  });
+
+  it("rejects expired tokens", () => {
+    const now = Date.UTC(2030, 0, 1);
+    const { token } = issueSessionToken(SECRET, GATEWAY_ID, { ttlHours: 1, now });
+    expect(verifySessionToken(SECRET, GATEWAY_ID, token, now + 59 * 60_000)).not.toBeNull();
+    expect(verifySessionToken(SECRET, GATEWAY_ID, token, now + 60 * 60_000)).toBeNull();
+  });
+
+  it("rejects malformed tokens", () => {
+    expect(verifySessionToken(SECRET, GATEWAY_ID, "")).toBeNull();
+    expect(verifySessionToken(SECRET, GATEWAY_ID, "abc")).toBeNull();
+    expect(verifySessionToken(SECRET, GATEWAY_ID, "a.b.c")).toBeNull();
+  });
+});
+
+// ===========================================
+// Config helpers
+// ===========================================
+
+describe("isOriginAllowed", () => {
+  it("allows any origin when none are configured", () => {
+    expect(isOriginAllowed({}, "https://anything.example")).toBe(true);
+    expect(isOriginAllowed({ allowedOrigins: [] }, "https://anything.example")).toBe(true);
+  });
+
+  it("matches configured origins case- and slash-insensitively", () => {
+    const config = { allowedOrigins: ["https://Shop.example.com/"] };
+    expect(isOriginAllowed(config, "https://shop.example.com")).toBe(true);
+    expect(isOriginAllowed(config, "https://evil.example.com")).toBe(false);
+    expect(isOriginAllowed(config, "http://shop.example.com")).toBe(false);
+  });
+
+  it("lets requests without an Origin header through", () => {
+    expect(isOriginAllowed({ allowedOrigins: ["https://shop.example.com"] }, undefined)).toBe(true);
+  });
+});
+
+describe("sessionTtlHours", () => {
+  it("defaults and clamps the configured lifetime", () => {
+    expect(sessionTtlHours({})).toBe(24);
+    expect(sessionTtlHours({ sessionTtlHours: 0 })).toBe(1);
+    expect(sessionTtlHours({ sessionTtlHours: 100_000 })).toBe(MAX_SESSION_TTL_HOURS);
+  });
+});
+
+// ===========================================
+// Message channel
+// ===========================================
+
+describe("message channel", () => {
+  it("stores messages for replay and delivers them to open streams", async () => {
+    const events: WebChatStreamEvent[] = [];
+    const unsubscribe = subscribeWebChat("wcs_a", (e) => events.push(e));
+
+    const sent = await postWebChatMessage("wcs_a", "visitor", "Hello");
+    await postWebChatMessage("wcs_b", "visitor", "Other session");
+
+    expect(events).toEqual([{ type: "message", message: sent }]);
+    expect(await getWebChatHistory("wcs_a")).toEqual([sent]);
+
+    unsubscribe();
+    await postWebChatMessage("wcs_a", "bot", "Nobody listening");
+    expect(events).toHaveLength(1);
+  });
+});
+
+// ===========================================
+// Provider
+// ===========================================
+
+describe("WebChatProvider", () => {
+  const provider = new WebChatProvider();
+
+  beforeEach(async () => {
+    await provider.connect(GATEWAY_ID, { sessionSecret: SECRET });
+  });
+
+  it("sends replies addressed by chat_id to the session", async () => {
+    const events: WebChatStreamEvent[] = [];
+    const unsubscribe = subscribeWebChat("wcs_reply", (e) => events.push(e));
+
+    await provider.execute(GATEWAY_ID, "sendMessage", { chat_id: "wcs_reply", text: "Hi there" });
+    unsubscribe();
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: "message", message: { from: "bot", text: "Hi there" } });
+  });
+
+  it("rejects a reply without a session", async () => {
+    await expect(provider.execute(GATEWAY_ID, "sendMessage", { text: "Hi" })).rejects.toThrow(
+      /session ID/,
+    );
+  });
+
+  it("requires a long enough session secret", async () => {
+    expect(await provider.validateCredentials({ sessionSecret: "short" })).toMatchObject({
+      valid: false,
+    });
+    expect(await provider.validateCredentials({ sessionSecret: SECRET })).toMatchObject({
+      valid: true,
+    });
+  });
+});
+
+// ===========================================
+// Event transform
+// ===========================================
+
+describe("transformWebChatMessage", () => {
+  it("maps an inbound visitor message to the webchat.message event", () => {
+    const event = transformWebChatMessage(
+      {
+        id: "wcm_1",
+        sessionId: "wcs_1",
+        visitorId: "wcv_1",
+        text: "Where is my order?",
+        timestamp: "2030-01-01T00:00:00.000Z",
+        pageUrl: "https://shop.example.com/orders",
+      },
+      GATEWAY_ID,
+    );
+    expect(event.type).toBe("webchat.message");
+    expect(event.data).toMatchObject({
+      sessionId: "wcs_1",
+      visitorId: "wcv_1",
+      messageId: "wcm_1",
+      text: "Where is my order?",
+      pageUrl: "https://shop.example.com/orders",
+    });
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Email Service
+ *
+ * Backing for the EMAIL gateway (IMAP in, SMTP out):
+ *   - connections: IMAP/SMTP clients built from the gateway credentials,
+ *     refusing private hosts unless explicitly allowed (local mail servers
+ *     in development)
+ *   - inbox polling: fetches messages that arrived since the last poll,
+ *     tracked by IMAP UID per gateway in Redis
+ *   - threading: each thread is keyed by its root Message-ID; the reply
+ *     address, subject and References chain are kept in Redis so a reply
+ *     sent from any process (e.g. a workflow auto-reply) lands in-thread
+ *
+ * @module modules/gateway/email.service
+ */
+
+import crypto from "node:crypto";
+
+import { ImapFlow } from "imapflow";
+import { simpleParser, type AddressObject, type ParsedMail } from "mailparser";
+import nodemailer, { type Transporter } from "nodemailer";
+
+import { logger } from "@/lib/logger";
+import { isSafeUrl } from "@/lib/network-security";
+import { redis } from "@/lib/redis";
+import type { EmailInboundMessage } from "@/modules/plugin/plugin.events";
+
+import type { EmailConfig, EmailCredentials } from "./gateway.types";
+
+const emailLogger = logger.child({ module: "email-gateway" });
+
+const K_CURSOR = (gatewayId: string) => `email:cursor:${gatewayId}`;
+const K_THREAD = (gatewayId: string, threadId: string) =>
+  `email:thread:${gatewayId}:${crypto.createHash("sha256").update(threadId).digest("hex").slice(0, 32)}`;
+
+export const DEFAULT_POLL_INTERVAL_SECONDS = 60;
+export const MIN_POLL_INTERVAL_SECONDS = 30;
+export const MAX_POLL_INTERVAL_SECONDS = 3600;
+
+/** Messages handled per poll — the rest wait for the next one */
+export const MAX_EMAILS_PER_POLL = 25;
+/** Larger messages are skipped rather than downloaded */
+const MAX_EMAIL_SIZE_BYTES = 10 * 1024 * 1024;
+/** Thread state outlives a quiet conversation by this much */
+const THREAD_TTL_SECONDS = 30 * 24 * 60 * 60;
+/** References kept per thread; the root is always kept */
+const MAX_REFERENCES = 20;
+const CONNECTION_TIMEOUT_MS = 15_000;
+
+// ===========================================
+// Types
+// ===========================================
+
+/** What a reply needs to land in the right thread */
+export interface EmailThread {
+  threadId: string;
+  /** Address replies go to (Reply-To, else From of the last inbound message) */
+  replyTo: string;
+  subject: string;
+  /** Message-ID the next reply answers (In-Reply-To) */
+  lastMessageId: string;
+  references: string[];
+}
+
+interface PollCursor {
+  uidValidity: string;
+  lastUid: number;
+}
+
+// ===========================================
+// Connections
+// ===========================================
+
+/**
+ * Refuse loopback/private mail hosts — the gateway would otherwise let users
+ * probe internal services. Set EMAIL_GATEWAY_ALLOW_PRIVATE_HOSTS=true to
+ * test against a local mail server.
+ */
+export function assertMailHostAllowed(host: string): void {
+  if (process.env.EMAIL_GATEWAY_ALLOW_PRIVATE_HOSTS === "true") return;
+  if (!isSafeUrl(`https://${host}`)) {
+    throw new Error(`Mail host "${host}" is not allowed (private or loopback address)`);
+  }
+}
+
+export function createImapClient(credentials: EmailCredentials): ImapFlow {
+  assertMailHostAllowed(credentials.imapHost);
+  return new ImapFlow({
+    host: credentials.imapHost,
+    port: credentials.imapPort,
+    // Implicit TLS unless on the plain/STARTTLS port
+    secure: credentials.imapSecure ?? credentials.imapPort !== 143,
+    auth: { user: credentials.username, pass: credentials.password },
+    tls: { rejectUnauthorized: !credentials.allowSelfSigned },
+    connectionTimeout: CONNECTION_TIMEOUT_MS,
+    logger: false,
+  });
+}
+
+export function createSmtpTransport(credentials: EmailCredentials): Transporter {
+  assertMailHostAllowed(credentials.smtpHost);
+  return nodemailer.createTransport({
+    host: credentials.smtpHost,
+    port: credentials.smtpPort,
+    // false = STARTTLS on 587/25
+    secure: credentials.smtpSecure ?? credentials.smtpPort === 465,
+    auth: {
+      user: credentials.smtpUsername ?? credentials.username,
+      pass: credentials.smtpPassword ?? credentials.password,
+    },
+    tls: { rejectUnauthorized: !credentials.allowSelfSigned },
+    connectionTimeout: CONNECTION_TIMEOUT_MS,
+  });
+}
+
+/** Log in to IMAP and log straight out — used by connect, validate and health checks. */
+export async function verifyImapLogin(credentials: EmailCredentials, mailbox?: string): Promise<void> {
+  const client = createImapClient(credentials);
+  await client.connect();
+  try {
+    if (mailbox) await client.status(mailbox, { messages: true });
+  } finally {
+    await client.logout().catch(() => {
+      // connection already gone
+    });
+  }
+}
+
+export function pollIntervalSeconds(config: EmailConfig): number {
+  const seconds = config.pollIntervalSeconds ?? DEFAULT_POLL_INTERVAL_SECONDS;
+  if (!Number.isFinite(seconds)) return DEFAULT_POLL_INTERVAL_SECONDS;
+  return Math.min(MAX_POLL_INTERVAL_SECONDS, Math.max(MIN_POLL_INTERVAL_SECONDS, Math.round(seconds)));
+}
+
+// ===========================================
+// Parsing & threading
+// ===========================================
+
+function firstAddress(field: AddressObject | AddressObject[] | undefined): { address: string; name?: string } | null {
+  const objects = Array.isArray(field) ? field : field ? [field] : [];
+  for (const obj of objects) {
+    for (const entry of obj.value) {
+      if (entry.address) return { address: entry.address.toLowerCase(), name: entry.name || undefined };
+    }
+  }
+  return null;
+}
+
+function allAddresses(field: AddressObject | AddressObject[] | undefined): string[] {
+  const objects = Array.isArray(field) ? field : field ? [field] : [];
+  return objects.flatMap((obj) =>
+    obj.value.flatMap((entry) => [entry.address, ...(entry.group ?? []).map((g) => g.address)]),
+  ).filter((a): a is string => !!a).map((a) => a.toLowerCase());
+}
+
+function toReferenceList(references: string | string[] | undefined): string[] {
+  if (!references) return [];
+  const list = Array.isArray(references) ? references : references.split(/\s+/);
+  return list.map((r) => r.trim()).filter(Boolean);
+}
+
+/**
+ * A thread is identified by its root message: the first References entry,
+ * else In-Reply-To, else the message itself.
+ */
+export function threadIdOf(message: { messageId: string; inReplyTo?: string; references: string[] }): string {
+  return message.references[0] ?? message.inReplyTo ?? message.messageId;
+}
+
+/** `Re: ` prefix without stacking it */
+export function replySubject(subject: string): string {
+  const trimmed = subject.trim();
+  return /^re:/i.test(trimmed) ? trimmed : `Re: ${trimmed || "(no subject)"}`;
+}
+
+/**
+ * The new part of a reply — text above the quoted original ("On … wrote:",
+ * "-----Original Message-----" or `>`-quoted lines).
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const kept: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] ?? "";
+    if (/^\s*>/.test(line)) break;
+    if (/^-{2,}\s*Original Message\s*-{2,}/i.test(line)) break;
+    // "On Mon, 1 Jan 2030 at 10:00, Jane <jane@example.com> wrote:" — often wrapped onto two lines
+    if (/^On\b/.test(line.trim()) && /wrote:$/.test(`${line} ${lines[i + 1] ?? ""}`.trim())) break;
+    if (/^On\b.*wrote:$/.test(line.trim())) break;
+    kept.push(line);
+  }
+  return kept.join("\n").trim();
+}
+
+/**
+ * Whether a message must not be answered automatically: auto-replies,
+ * bulk/list mail and our own outgoing messages (prevents reply loops).
+ */
+export function isAutomatedEmail(parsed: ParsedMail, ownAddress: string): boolean {
+  const autoSubmitted = String(parsed.headers.get("auto-submitted") ?? "no").toLowerCase();
+  if (autoSubmitted !== "no") return true;
+  const precedence = String(parsed.headers.get("precedence") ?? "").toLowerCase();
+  if (["bulk", "junk", "list", "auto_reply"].includes(precedence)) return true;
+  const from = firstAddress(parsed.from);
+  return !from || from.address === ownAddress.toLowerCase();
+}
+
+/**
+ * Turn a parsed message into the inbound shape the triggers and plugin
+ * events use. Returns null for messages without a sender.
+ */
+export function toInboundEmail(parsed: ParsedMail, uid: number): EmailInboundMessage | null {
+  const from = firstAddress(parsed.from);
+  if (!from) return null;
+
+  const messageId = parsed.messageId ?? `<uid-${uid}-${crypto.randomBytes(6).toString("hex")}@2bot.local>`;
+  const references = toReferenceList(parsed.references);
+  const inReplyTo = parsed.inReplyTo?.trim() || undefined;
+  const text = parsed.text ?? "";
+  const replyTo = firstAddress(parsed.replyTo);
+
+  const message: EmailInboundMessage = {
+    id: messageId,
+    uid,
+    messageId,
+    threadId: threadIdOf({ messageId, inReplyTo, references }),
+    references,
+    from: from.address,
+    to: allAddresses(parsed.to),
+    cc: allAddresses(parsed.cc),
+    subject: parsed.subject ?? "",
+    text,
+    replyText: stripQuotedReply(text),
+    timestamp: (parsed.date ?? new Date()).toISOString(),
+    attachments: parsed.attachments.map((a) => ({
+      filename: a.filename ?? "attachment",
+      contentType: a.contentType,
+      size: a.size,
+    })),
+  };
+  if (from.name) message.fromName = from.name;
+  if (inReplyTo) message.inReplyTo = inReplyTo;
+  if (replyTo && replyTo.address !== from.address) message.replyTo = replyTo.address;
+  if (parsed.html) message.html = parsed.html;
+  return message;
+}
+
+export async function getEmailThread(gatewayId: string, threadId: string): Promise<EmailThread | null> {
+  const raw = await redis.get(K_THREAD(gatewayId, threadId));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as EmailThread;
+  } catch {
+    return null;
+  }
+}
+
+/** Record the latest message of a thread (inbound or our own reply). */
+export async function saveEmailThread(gatewayId: string, thread: EmailThread): Promise<void> {
+  const references =
+    thread.references.length > MAX_REFERENCES
+      ? [thread.references[0] as string, ...thread.references.slice(-(MAX_REFERENCES - 1))]
+      : thread.references;
+  await redis.set(
+    K_THREAD(gatewayId, thread.threadId),
+    JSON.stringify({ ...thread, references }),
+    "EX",
+    THREAD_TTL_SECONDS,
+  );
+}
+
+/** The thread a reply to `message` continues */
+export function threadFromInbound(message: EmailInboundMessage): EmailThread {
+  const references = message.references.includes(message.messageId)
+    ? message.references
+    : [...message.references, message.messageId];
+  return {
+    threadId: message.threadId,
+    replyTo: message.replyTo ?? message.from,
+    subject: message.subject,
+    lastMessageId: message.messageId,
+    references,
+  };
+}
+
+// ===========================================
+// Inbox polling
+// ===========================================
+
+async function readCursor(gatewayId: string): Promise<PollCursor | null> {
+  const raw = await redis.get(K_CURSOR(gatewayId));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as PollCursor;
+  } catch {
+    return null;
+  }
+}
+
+async function writeCursor(gatewayId: string, cursor: PollCursor): Promise<void> {
+  await redis.set(K_CURSOR(gatewayId), JSON.stringify(cursor));
+}
+
+/**
+ * Fetch the messages that arrived since the last poll, oldest first.
+ *
+ * The first poll of a mailbox (or after its UIDVALIDITY changes) only
+ * records where the inbox ends — existing mail is never replayed. Auto-
+ * replies, bulk mail and our own messages are skipped but still consumed.
+ */
+export async function fetchNewEmails(
+  gatewayId: string,
+  credentials: EmailCredentials,
+  config: EmailConfig,
+): Promise<EmailInboundMessage[]> {
+  const mailbox = config.mailbox ?? "INBOX";
+  const client = createImapClient(credentials);
+  await client.connect();
+
+  try {
+    const lock = await client.getMailboxLock(mailbox);
+    try {
+      const box = client.mailbox;
+      if (!box) throw new Error(`Could not open mailbox "${mailbox}"`);
+      const uidValidity = String(box.uidValidity);
+
+      const cursor = await readCursor(gatewayId);
+      if (!cursor || cursor.uidValidity !== uidValidity) {
+        await writeCursor(gatewayId, { uidValidity, lastUid: Math.max(0, box.uidNext - 1) });
+        emailLogger.info({ gatewayId, mailbox }, "Email inbox cursor initialised");
+        return [];
+      }
+      if (box.uidNext - 1 <= cursor.lastUid) return [];
+
+      const messages: EmailInboundMessage[] = [];
+      const seenUids: number[] = [];
+      let lastUid = cursor.lastUid;
+
+      for await (const msg of client.fetch(
+        `${cursor.lastUid + 1}:*`,
+        { uid: true, size: true, source: true },
+        { uid: true },
+      )) {
+        // `n:*` always matches the newest message, even below n
+        if (msg.uid <= cursor.lastUid) continue;
+        if (seenUids.length >= MAX_EMAILS_PER_POLL) break;
+        seenUids.push(msg.uid);
+        lastUid = Math.max(lastUid, msg.uid);
+
+        if (!msg.source || (msg.size ?? 0) > MAX_EMAIL_SIZE_BYTES) {
+          emailLogger.warn({ gatewayId, uid: msg.uid, size: msg.size }, "Skipping oversized email");
+          continue;
+        }
+
+        const parsed = await simpleParser(msg.source);
+        if (isAutomatedEmail(parsed, credentials.fromAddress)) continue;
+        const inbound = toInboundEmail(parsed, msg.uid);
+        if (inbound) messages.push(inbound);
+      }
+
+      if (seenUids.length > 0 && config.markSeen !== false) {
+        await client.messageFlagsAdd(seenUids.join(","), ["\\Seen"], { uid: true });
+      }
+      await writeCursor(gatewayId, { uidValidity, lastUid });
+
+      for (const message of messages) {
+        await saveEmailThread(gatewayId, threadFromInbound(message));
+      }
+      return messages;
+    } finally {
+      lock.release();
+    }
+  } finally {
+    await client.logout().catch(() => {
+      // connection already gone
+    });
+  }
+}
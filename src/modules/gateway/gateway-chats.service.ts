@@ -1,8 +1,9 @@
 /**
  * Gateway Chat Tracking Service
  *
- * Tracks which Telegram chats a bot has been added to / removed from.
- * Powered by the `my_chat_member` webhook event.
+ * Tracks which chats a bot has been added to / removed from.
+ * Powered by Telegram's `my_chat_member` webhook event and the Matrix
+ * sync loop's room joins and leaves.
  *
  * @module modules/gateway/gateway-chats.service
  */
@@ -13,15 +14,16 @@ import { prisma } from "@/lib/prisma";
 const chatLogger = logger.child({ module: "gateway-chats" });
 
 /**
- * Payload from Telegram's `my_chat_member` update
+ * Membership change of the bot in a chat (Telegram `my_chat_member`, Matrix room membership)
  */
 export interface ChatMemberUpdate {
   gatewayId: string;
-  chatId: number;
+  chatId: number | string;
   chatType: string;
   chatTitle?: string;
   chatUsername?: string;
-  newStatus: string; // "member" | "administrator" | "kicked" | "left" | "creator" | "restricted"
+  newStatus: string; // "member" | "administrator" | "kicked" | "left" | "creator" | "restricted" | "banned"
+  memberCount?: number;
 }
 
 /**
@@ -29,7 +31,7 @@ export interface ChatMemberUpdate {
  */
 export interface ActiveChat {
   id: string;
-  chatId: bigint;
+  chatId: string;
   chatType: string;
   chatTitle: string | null;
   chatUsername: string | null;
@@ -51,7 +53,7 @@ class GatewayChatService {
   /**
    * Record a bot being added to (or status changed in) a chat.
    *
-   * Uses upsert so duplicate `my_chat_member` events are idempotent.
+   * Uses upsert so duplicate membership events are idempotent.
    */
   async recordChatJoin(update: ChatMemberUpdate): Promise<void> {
     try {
@@ -59,15 +61,16 @@ class GatewayChatService {
         where: {
           gatewayId_chatId: {
             gatewayId: update.gatewayId,
-            chatId: BigInt(update.chatId),
+            chatId: String(update.chatId),
           },
         },
         create: {
           gatewayId: update.gatewayId,
-          chatId: BigInt(update.chatId),
+          chatId: String(update.chatId),
           chatType: update.chatType,
           chatTitle: update.chatTitle ?? null,
           chatUsername: update.chatUsername ?? null,
+          memberCount: update.memberCount ?? null,
           isActive: true,
           botStatus: update.newStatus,
         },
@@ -75,6 +78,7 @@ class GatewayChatService {
           chatType: update.chatType,
           chatTitle: update.chatTitle ?? null,
           chatUsername: update.chatUsername ?? null,
+          ...(update.memberCount !== undefined && { memberCount: update.memberCount }),
           isActive: true,
           leftAt: null,
           botStatus: update.newStatus,
@@ -102,12 +106,12 @@ class GatewayChatService {
         where: {
           gatewayId_chatId: {
             gatewayId: update.gatewayId,
-            chatId: BigInt(update.chatId),
+            chatId: String(update.chatId),
           },
         },
         create: {
           gatewayId: update.gatewayId,
-          chatId: BigInt(update.chatId),
+          chatId: String(update.chatId),
           chatType: update.chatType,
           chatTitle: update.chatTitle ?? null,
           chatUsername: update.chatUsername ?? null,
@@ -205,10 +209,7 @@ class GatewayChatService {
     ]);
 
     return {
-      chats: chats.map((c) => ({
-        ...c,
-        chatId: c.chatId.toString(), // BigInt → string for JSON serialization
-      })),
+      chats,
       pagination: {
         page,
         limit,
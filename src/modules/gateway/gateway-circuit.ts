@@ -58,6 +58,24 @@ const GATEWAY_CIRCUIT_CONFIGS: Record<GatewayType, {
     monitorWindowMs: 60000,   // 1 minute window
     halfOpenMaxAttempts: 2,   // Fewer attempts needed
   },
+  WEB_CHAT: {
+    failureThreshold: 5,      // Only Redis sits behind it, tolerate blips
+    resetTimeoutMs: 15000,    // 15 seconds before retry
+    monitorWindowMs: 60000,   // 1 minute window
+    halfOpenMaxAttempts: 2,   // Fewer attempts needed
+  },
+  EMAIL: {
+    failureThreshold: 3,      // SMTP failures rarely clear up instantly
+    resetTimeoutMs: 60000,    // 1 minute before retry
+    monitorWindowMs: 120000,  // 2 minute window
+    halfOpenMaxAttempts: 1,   // One probe send is enough
+  },
+  MATRIX: {
+    failureThreshold: 3,      // Same as the other messaging platforms
+    resetTimeoutMs: 30000,    // 30 seconds before retry
+    monitorWindowMs: 60000,   // 1 minute window
+    halfOpenMaxAttempts: 2,   // Fewer attempts needed
+  },
 };
 
 // ===========================================
@@ -0,0 +1,672 @@
+/**
+ * Gateway Message Log Service
+ *
+ * Persists the messages bots receive and send, per chat, for the dashboard
+ * inbox. Inbound messages are recorded where each platform's messages
+ * arrive: the webhook routes (and the Telegram poller, which shares their
+ * dispatch), the web chat routes, the email poll and the Matrix sync loop.
+ * Outbound ones are recorded by `BaseGatewayProvider.execute` for
+ * message-sending actions and by the workflow auto-reply, linked to the
+ * run that produced them.
+ *
+ * Logging can be turned off per gateway (`logMessages`), and gateways with
+ * `redactPii` get emails, phone and card numbers masked in the text, chat
+ * and sender IDs replaced by keyed hashes and sender names dropped before
+ * anything is stored. Old rows are removed by the message-retention cron.
+ *
+ * Sends a plugin makes from its workspace container straight to the
+ * Telegram Bot API never pass through the platform and are not logged.
+ *
+ * @module modules/gateway/gateway-messages.service
+ */
+
+import { Prisma, type MessageDirection } from "@prisma/client";
+
+import { keyedHash } from "@/lib/encryption";
+import { logger } from "@/lib/logger";
+import { prisma } from "@/lib/prisma";
+
+const messageLogger = logger.child({ module: "gateway-messages" });
+
+/** Longer texts are cut — the log is for reading conversations, not archiving files */
+const MAX_TEXT_LENGTH = 10_000;
+/** Search considers this many of the newest matching messages */
+const SEARCH_MATCH_LIMIT = 1_000;
+const SETTINGS_TTL_MS = 60_000;
+
+/**
+ * Actions that deliver a message to a chat. Edits, reactions and lookups
+ * are not logged.
+ */
+const OUTBOUND_ACTIONS = new Set([
+  // Cross-platform
+  "sendMessage",
+  // Telegram
+  "sendPhoto",
+  "sendDocument",
+  "sendVideo",
+  "sendAudio",
+  "sendVoice",
+  "sendLocation",
+  "sendContact",
+  "sendPoll",
+  "sendMessageWithInlineKeyboard",
+  // Discord
+  "createMessage",
+  "interactionFollowup",
+  // Slack
+  "postMessage",
+  "chat.postMessage",
+  "postEphemeral",
+  "chat.postEphemeral",
+  // WhatsApp
+  "sendTemplate",
+  "sendImage",
+  "sendSticker",
+  // Email
+  "sendEmail",
+  "replyToEmail",
+]);
+
+// ===========================================
+// Types
+// ===========================================
+
+/** A message a bot received, normalized from a platform payload */
+export interface InboundMessage {
+  chatId: string | number;
+  /** Update kind, e.g. "message", "callback_query", "interaction" */
+  kind: string;
+  senderId?: string | number | null;
+  senderName?: string | null;
+  text?: string | null;
+  platformMessageId?: string | number | null;
+}
+
+/** Whose gateways a query covers — an organization's, or a user's personal ones */
+export interface MessageLogScope {
+  userId: string;
+  organizationId?: string | null;
+}
+
+export interface MessageListFilters {
+  gatewayId?: string;
+  chatId?: string;
+  senderId?: string;
+  direction?: MessageDirection;
+  /** Full-text query (web search syntax: quotes, OR, -exclusions) */
+  q?: string;
+  /** Message ID to continue after (the last one of the previous page) */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface MessageLogEntry {
+  id: string;
+  gatewayId: string;
+  gatewayName: string;
+  gatewayType: string;
+  direction: MessageDirection;
+  chatId: string;
+  chatTitle: string | null;
+  kind: string;
+  senderId: string | null;
+  senderName: string | null;
+  text: string | null;
+  platformMessageId: string | null;
+  redacted: boolean;
+  createdAt: Date;
+  /** Run that sent the message; null once retention deleted it */
+  workflowRun: {
+    id: string;
+    workflowId: string;
+    workflowName: string;
+    status: string;
+  } | null;
+  /** Run ID as recorded — kept after retention deletes the run */
+  workflowRunId: string | null;
+}
+
+export interface ConversationSummary {
+  gatewayId: string;
+  gatewayName: string;
+  gatewayType: string;
+  chatId: string;
+  chatTitle: string | null;
+  messageCount: number;
+  lastMessageAt: Date;
+  lastMessage: {
+    direction: MessageDirection;
+    senderName: string | null;
+    text: string | null;
+  } | null;
+}
+
+interface MessageLogSettings {
+  logMessages: boolean;
+  redactPii: boolean;
+  expiresAt: number;
+}
+
+// ===========================================
+// PII redaction
+// ===========================================
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}/gi;
+// 13–19 digits, optionally grouped by spaces or dashes
+const CARD_PATTERN = /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g;
+// 9–15 digits with an optional leading + and common separators
+const PHONE_PATTERN = /(?<![\w@])\+?\d(?:[\s().-]{0,2}\d){8,14}(?!\w)/g;
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Mask email addresses, payment card numbers and phone numbers in `text`.
+ * Digit runs are masked when they look like a phone number even if they
+ * are something else (order numbers, IDs) — redaction errs on the safe side.
+ */
+export function maskPii(text: string): { text: string; redacted: boolean } {
+  let redacted = false;
+  const masked = text
+    .replace(EMAIL_PATTERN, () => {
+      redacted = true;
+      return "[email]";
+    })
+    .replace(CARD_PATTERN, (match) => {
+      if (!passesLuhn(match.replace(/\D/g, ""))) return match;
+      redacted = true;
+      return "[card]";
+    })
+    .replace(PHONE_PATTERN, () => {
+      redacted = true;
+      return "[phone]";
+    });
+  return { text: masked, redacted };
+}
+
+/**
+ * Pseudonym for a chat or sender ID (a WhatsApp chat ID is the phone
+ * number, an email thread's is the address). Keyed per gateway, so one
+ * person's messages still group into one conversation.
+ */
+export function pseudonymizeId(gatewayId: string, id: string): string {
+  return `anon:${keyedHash(`${gatewayId}:${id}`).slice(0, 24)}`;
+}
+
+// ===========================================
+// Platform payloads
+// ===========================================
+
+type Json = Record<string, unknown>;
+
+function asRecord(value: unknown): Json | undefined {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Json) : undefined;
+}
+
+function asId(value: unknown): string | undefined {
+  return typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+}
+
+function asText(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function displayName(user: Json | undefined): string | undefined {
+  if (!user) return undefined;
+  const full = [user.first_name, user.last_name].filter((p) => typeof p === "string" && p).join(" ");
+  return full || asText(user.global_name) || asText(user.real_name) || asText(user.username) || asText(user.name);
+}
+
+const TELEGRAM_MESSAGE_KINDS = ["message", "edited_message", "channel_post", "edited_channel_post"] as const;
+
+/** Messages and button presses in a Telegram update (membership updates are tracked as chats instead) */
+export function telegramInboundMessages(raw: object): InboundMessage[] {
+  const update = raw as Json;
+  for (const kind of TELEGRAM_MESSAGE_KINDS) {
+    const message = asRecord(update[kind]);
+    const chatId = asId(asRecord(message?.chat)?.id);
+    if (!message || !chatId) continue;
+    const from = asRecord(message.from);
+    return [{
+      chatId,
+      kind,
+      senderId: asId(from?.id) ?? null,
+      senderName: displayName(from) ?? asText(asRecord(message.chat)?.title) ?? null,
+      text: asText(message.text) ?? asText(message.caption) ?? null,
+      platformMessageId: asId(message.message_id) ?? null,
+    }];
+  }
+
+  const callback = asRecord(update.callback_query);
+  const callbackChatId = asId(asRecord(asRecord(callback?.message)?.chat)?.id);
+  if (callback && callbackChatId) {
+    const from = asRecord(callback.from);
+    return [{
+      chatId: callbackChatId,
+      kind: "callback_query",
+      senderId: asId(from?.id) ?? null,
+      senderName: displayName(from) ?? null,
+      text: asText(callback.data) ?? null,
+      platformMessageId: asId(callback.id) ?? null,
+    }];
+  }
+
+  return [];
+}
+
+/** A Discord slash command or component interaction */
+export function discordInboundMessages(raw: object): InboundMessage[] {
+  const interaction = raw as Json;
+  const chatId = asId(interaction.channel_id);
+  if (!chatId) return [];
+  const user = asRecord(asRecord(interaction.member)?.user) ?? asRecord(interaction.user);
+  const data = asRecord(interaction.data);
+
+  let text: string | undefined;
+  if (interaction.type === 2 && asText(data?.name)) {
+    const options = Array.isArray(data?.options) ? (data.options as Json[]) : [];
+    text = [`/${String(data?.name)}`, ...options.map((o) => `${String(o.name)}:${String(o.value ?? "")}`)].join(" ");
+  } else {
+    text = asText(data?.custom_id);
+  }
+
+  return [{
+    chatId,
+    kind: "interaction",
+    senderId: asId(user?.id) ?? null,
+    senderName: displayName(user) ?? null,
+    text: text ?? null,
+    platformMessageId: asId(interaction.id) ?? null,
+  }];
+}
+
+/** A Slack user message / mention, or an interaction payload. The bot's own echoes are skipped. */
+export function slackInboundMessages(raw: object): InboundMessage[] {
+  const payload = raw as Json;
+  if (payload.type === "event_callback") {
+    const event = asRecord(payload.event);
+    if (!event || (event.type !== "message" && event.type !== "app_mention")) return [];
+    if (event.bot_id || event.subtype === "bot_message") return [];
+    const chatId = asId(event.channel);
+    if (!chatId) return [];
+    return [{
+      chatId,
+      kind: String(event.type),
+      senderId: asId(event.user) ?? null,
+      text: asText(event.text) ?? null,
+      platformMessageId: asId(event.ts) ?? asId(event.client_msg_id) ?? null,
+    }];
+  }
+
+  const chatId = asId(asRecord(payload.channel)?.id) ?? asId(asRecord(payload.container)?.channel_id);
+  if (!chatId || typeof payload.type !== "string") return [];
+  const user = asRecord(payload.user);
+  const action = Array.isArray(payload.actions) ? asRecord(payload.actions[0]) : undefined;
+  return [{
+    chatId,
+    kind: payload.type,
+    senderId: asId(user?.id) ?? null,
+    senderName: asText(user?.name) ?? asText(user?.username) ?? null,
+    text: asText(action?.value) ?? asText(action?.action_id) ?? asText(payload.callback_id) ?? null,
+    platformMessageId: asId(payload.trigger_id) ?? null,
+  }];
+}
+
+/** Each message in a WhatsApp Cloud API notification (status updates are skipped) */
+export function whatsAppInboundMessages(raw: object): InboundMessage[] {
+  const payload = raw as Json;
+  const messages: InboundMessage[] = [];
+  const entries = Array.isArray(payload.entry) ? payload.entry : [];
+  for (const entry of entries) {
+    const changes = Array.isArray(asRecord(entry)?.changes) ? (asRecord(entry)?.changes as unknown[]) : [];
+    for (const change of changes) {
+      const value = asRecord(asRecord(change)?.value);
+      const contacts = Array.isArray(value?.contacts) ? (value.contacts as Json[]) : [];
+      for (const raw of Array.isArray(value?.messages) ? value.messages : []) {
+        const message = asRecord(raw);
+        const from = asId(message?.from);
+        if (!message || !from) continue;
+        const contact = contacts.find((c) => c.wa_id === from);
+        const type = asText(message.type) ?? "message";
+        const body = asRecord(message[type]);
+        messages.push({
+          chatId: from,
+          kind: type,
+          senderId: from,
+          senderName: asText(asRecord(contact?.profile)?.name) ?? null,
+          text: asText(asRecord(message.text)?.body) ?? asText(body?.caption) ?? null,
+          platformMessageId: asId(message.id) ?? null,
+        });
+      }
+    }
+  }
+  return messages;
+}
+
+// ===========================================
+// Outbound params
+// ===========================================
+
+function outboundChatId(params: Json): string | undefined {
+  return asId(
+    params.chat_id ?? params.chatId ?? params.channel_id ?? params.channelId ?? params.channel ??
+    params.roomId ?? params.threadId ?? params.sessionId ?? params.to,
+  );
+}
+
+function outboundText(params: Json): string | undefined {
+  return (
+    asText(params.text) ??
+    asText(asRecord(params.text)?.body) ??
+    asText(params.content) ??
+    asText(params.caption) ??
+    asText(params.body) ??
+    asText(params.subject) ??
+    asText(params.name) // sendTemplate
+  );
+}
+
+function outboundMessageId(result: unknown): string | undefined {
+  const r = asRecord(result);
+  if (!r) return undefined;
+  const whatsApp = Array.isArray(r.messages) ? asRecord(r.messages[0]) : undefined;
+  return asId(r.message_id) ?? asId(r.event_id) ?? asId(r.ts) ?? asId(whatsApp?.id) ?? asId(r.messageId) ?? asId(r.id);
+}
+
+// ===========================================
+// Service
+// ===========================================
+
+function scopeFilter(scope: MessageLogScope): Prisma.GatewayWhereInput {
+  return scope.organizationId
+    ? { organizationId: scope.organizationId }
+    : { userId: scope.userId, organizationId: null };
+}
+
+class GatewayMessageService {
+  private settingsCache = new Map<string, MessageLogSettings>();
+
+  /** Per-gateway logging switches, cached briefly — every recorded message needs them */
+  private async getSettings(gatewayId: string): Promise<MessageLogSettings | null> {
+    const cached = this.settingsCache.get(gatewayId);
+    if (cached && cached.expiresAt > Date.now()) return cached;
+
+    const gateway = await prisma.gateway.findUnique({
+      where: { id: gatewayId },
+      select: { logMessages: true, redactPii: true },
+    });
+    if (!gateway) {
+      this.settingsCache.delete(gatewayId);
+      return null;
+    }
+    const settings = { ...gateway, expiresAt: Date.now() + SETTINGS_TTL_MS };
+    this.settingsCache.set(gatewayId, settings);
+    return settings;
+  }
+
+  /** Drop cached switches after a gateway's logging settings change */
+  invalidateSettings(gatewayId: string): void {
+    this.settingsCache.delete(gatewayId);
+  }
+
+  private prepareText(text: string | null | undefined, redact: boolean): { text: string | null; redacted: boolean } {
+    if (!text) return { text: null, redacted: false };
+    const clipped = text.length > MAX_TEXT_LENGTH ? text.slice(0, MAX_TEXT_LENGTH) : text;
+    return redact ? maskPii(clipped) : { text: clipped, redacted: false };
+  }
+
+  /**
+   * Record messages a gateway received (fire-and-forget; never throws).
+   */
+  async recordInbound(gatewayId: string, messages: InboundMessage[]): Promise<void> {
+    if (messages.length === 0) return;
+    try {
+      const settings = await this.getSettings(gatewayId);
+      if (!settings?.logMessages) return;
+
+      await prisma.gatewayMessage.createMany({
+        data: messages.map((message) => {
+          const redact = settings.redactPii;
+          const body = this.prepareText(message.text, redact);
+          const senderId = asId(message.senderId);
+          return {
+            gatewayId,
+            direction: "INBOUND" as const,
+            chatId: redact ? pseudonymizeId(gatewayId, String(message.chatId)) : String(message.chatId),
+            kind: message.kind,
+            senderId: senderId && redact ? pseudonymizeId(gatewayId, senderId) : (senderId ?? null),
+            senderName: redact ? null : (message.senderName ?? null),
+            text: body.text,
+            redacted: redact || body.redacted,
+            platformMessageId: asId(message.platformMessageId) ?? null,
+          };
+        }),
+      });
+    } catch (error) {
+      messageLogger.error(
+        { gatewayId, error: (error as Error).message },
+        "Failed to record inbound messages"
+      );
+    }
+  }
+
+  /**
+   * Record a message a gateway action sent (fire-and-forget; never throws).
+   * Actions that don't deliver a message, and params without a chat, are ignored.
+   */
+  async recordOutbound(
+    gatewayId: string,
+    action: string,
+    params: unknown,
+    result: unknown,
+    workflowRunId?: string
+  ): Promise<void> {
+    if (!OUTBOUND_ACTIONS.has(action)) return;
+    const p = asRecord(params);
+    const chatId = p && outboundChatId(p);
+    if (!p || !chatId) return;
+
+    try {
+      const settings = await this.getSettings(gatewayId);
+      if (!settings?.logMessages) return;
+
+      const body = this.prepareText(outboundText(p), settings.redactPii);
+      await prisma.gatewayMessage.create({
+        data: {
+          gatewayId,
+          direction: "OUTBOUND",
+          chatId: settings.redactPii ? pseudonymizeId(gatewayId, chatId) : chatId,
+          kind: action,
+          text: body.text,
+          redacted: settings.redactPii || body.redacted,
+          platformMessageId: outboundMessageId(result) ?? null,
+          workflowRunId: workflowRunId ?? null,
+        },
+      });
+    } catch (error) {
+      messageLogger.error(
+        { gatewayId, action, error: (error as Error).message },
+        "Failed to record outbound message"
+      );
+    }
+  }
+
+  /** IDs of the newest messages whose text matches a full-text query */
+  private async searchMessageIds(gatewayIds: string[], q: string): Promise<string[]> {
+    const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT id FROM gateway_messages
+      WHERE gateway_id IN (${Prisma.join(gatewayIds)})
+        AND search_vector @@ websearch_to_tsquery('simple', ${q})
+      ORDER BY created_at DESC
+      LIMIT ${SEARCH_MATCH_LIMIT}
+    `;
+    return rows.map((r) => r.id);
+  }
+
+  /**
+   * Messages of the scope's gateways, newest first, with cursor pagination.
+   */
+  async listMessages(
+    scope: MessageLogScope,
+    filters: MessageListFilters = {}
+  ): Promise<{ messages: MessageLogEntry[]; nextCursor: string | null }> {
+    const limit = Math.min(filters.limit ?? 50, 100);
+
+    const gateways = await prisma.gateway.findMany({
+      where: { ...scopeFilter(scope), ...(filters.gatewayId && { id: filters.gatewayId }) },
+      select: { id: true, name: true, type: true },
+    });
+    if (gateways.length === 0) return { messages: [], nextCursor: null };
+    const gatewayById = new Map(gateways.map((g) => [g.id, g]));
+
+    const q = filters.q?.trim();
+    const matchingIds = q ? await this.searchMessageIds([...gatewayById.keys()], q) : undefined;
+    if (matchingIds?.length === 0) return { messages: [], nextCursor: null };
+
+    const rows = await prisma.gatewayMessage.findMany({
+      where: {
+        gatewayId: { in: [...gatewayById.keys()] },
+        ...(filters.chatId && { chatId: filters.chatId }),
+        ...(filters.senderId && { senderId: filters.senderId }),
+        ...(filters.direction && { direction: filters.direction }),
+        ...(matchingIds && { id: { in: matchingIds } }),
+      },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(filters.cursor && { cursor: { id: filters.cursor }, skip: 1 }),
+      select: {
+        id: true,
+        gatewayId: true,
+        direction: true,
+        chatId: true,
+        kind: true,
+        senderId: true,
+        senderName: true,
+        text: true,
+        platformMessageId: true,
+        redacted: true,
+        workflowRunId: true,
+        createdAt: true,
+      },
+    });
+
+    const page = rows.slice(0, limit);
+    const [runs, chats] = await Promise.all([
+      this.loadRuns(page.map((m) => m.workflowRunId)),
+      this.loadChatTitles(page),
+    ]);
+
+    const messages = page.map((m) => {
+      const gateway = gatewayById.get(m.gatewayId);
+      return {
+        ...m,
+        gatewayName: gateway?.name ?? "",
+        gatewayType: gateway?.type ?? "",
+        chatTitle: chats.get(`${m.gatewayId}:${m.chatId}`) ?? null,
+        workflowRun: (m.workflowRunId && runs.get(m.workflowRunId)) || null,
+      };
+    });
+
+    return {
+      messages,
+      nextCursor: rows.length > limit ? (page[page.length - 1]?.id ?? null) : null,
+    };
+  }
+
+  /**
+   * Chats with logged messages, most recently active first.
+   */
+  async listConversations(
+    scope: MessageLogScope,
+    filters: { gatewayId?: string; limit?: number } = {}
+  ): Promise<ConversationSummary[]> {
+    const limit = Math.min(filters.limit ?? 50, 100);
+
+    const gateways = await prisma.gateway.findMany({
+      where: { ...scopeFilter(scope), ...(filters.gatewayId && { id: filters.gatewayId }) },
+      select: { id: true, name: true, type: true },
+    });
+    if (gateways.length === 0) return [];
+    const gatewayById = new Map(gateways.map((g) => [g.id, g]));
+
+    const groups = await prisma.gatewayMessage.groupBy({
+      by: ["gatewayId", "chatId"],
+      where: { gatewayId: { in: [...gatewayById.keys()] } },
+      _count: { _all: true },
+      _max: { createdAt: true },
+      orderBy: { _max: { createdAt: "desc" } },
+      take: limit,
+    });
+    if (groups.length === 0) return [];
+
+    const [latest, chats] = await Promise.all([
+      prisma.gatewayMessage.findMany({
+        where: {
+          OR: groups.map((g) => ({ gatewayId: g.gatewayId, chatId: g.chatId, createdAt: g._max.createdAt ?? undefined })),
+        },
+        select: { gatewayId: true, chatId: true, direction: true, senderName: true, text: true },
+      }),
+      this.loadChatTitles(groups),
+    ]);
+    const latestByChat = new Map(latest.map((m) => [`${m.gatewayId}:${m.chatId}`, m]));
+
+    return groups.map((g) => {
+      const key = `${g.gatewayId}:${g.chatId}`;
+      const last = latestByChat.get(key);
+      const gateway = gatewayById.get(g.gatewayId);
+      return {
+        gatewayId: g.gatewayId,
+        gatewayName: gateway?.name ?? "",
+        gatewayType: gateway?.type ?? "",
+        chatId: g.chatId,
+        chatTitle: chats.get(key) ?? null,
+        messageCount: g._count._all,
+        lastMessageAt: g._max.createdAt ?? new Date(0),
+        lastMessage: last ? { direction: last.direction, senderName: last.senderName, text: last.text } : null,
+      };
+    });
+  }
+
+  private async loadRuns(ids: Array<string | null>): Promise<Map<string, NonNullable<MessageLogEntry["workflowRun"]>>> {
+    const runIds = [...new Set(ids.filter((id): id is string => !!id))];
+    if (runIds.length === 0) return new Map();
+    const runs = await prisma.workflowRun.findMany({
+      where: { id: { in: runIds } },
+      select: { id: true, workflowId: true, status: true, workflow: { select: { name: true } } },
+    });
+    return new Map(runs.map((r) => [r.id, {
+      id: r.id,
+      workflowId: r.workflowId,
+      workflowName: r.workflow.name,
+      status: r.status,
+    }]));
+  }
+
+  /** Titles of tracked chats (Telegram groups, Matrix rooms), by "gatewayId:chatId" */
+  private async loadChatTitles(refs: Array<{ gatewayId: string; chatId: string }>): Promise<Map<string, string>> {
+    if (refs.length === 0) return new Map();
+    const chats = await prisma.gatewayChat.findMany({
+      where: { OR: refs.map((r) => ({ gatewayId: r.gatewayId, chatId: r.chatId })) },
+      select: { gatewayId: true, chatId: true, chatTitle: true, chatUsername: true },
+    });
+    const titles = new Map<string, string>();
+    for (const chat of chats) {
+      const title = chat.chatTitle ?? (chat.chatUsername ? `@${chat.chatUsername}` : null);
+      if (title) titles.set(`${chat.gatewayId}:${chat.chatId}`, title);
+    }
+    return titles;
+  }
+}
+
+export const gatewayMessageService = new GatewayMessageService();
@@ -12,6 +12,14 @@ import type { GatewayType } from "@prisma/client";
 
 const registryLogger = logger.child({ module: "gateway-registry" });
 
+/**
+ * Where a gateway action call comes from, for the message log
+ */
+export interface GatewayActionContext {
+  /** Workflow run whose step or auto-reply made the call */
+  workflowRunId?: string;
+}
+
 /**
  * Gateway Provider interface
  * All gateway implementations must conform to this interface
@@ -51,7 +59,8 @@ export interface GatewayProvider<TCredentials = unknown, TConfig = unknown> {
   execute<TParams = unknown, TResult = unknown>(
     gatewayId: string,
     action: string,
-    params: TParams
+    params: TParams,
+    context?: GatewayActionContext
   ): Promise<TResult>;
 
   /**
@@ -12,6 +12,7 @@ import type { Gateway, GatewayStatus, GatewayType } from "@prisma/client";
 import { auditActions, type AuditContext } from "@/lib/audit";
 import { decryptJson, encrypt } from "@/lib/encryption";
 import { logger } from "@/lib/logger";
+import { emitPlatformEvent } from "@/lib/platform-events";
 import { enforceGatewayLimit } from "@/lib/plan-limits";
 import { prisma } from "@/lib/prisma";
 import { pluginDeployService } from "@/modules/plugin/plugin-deploy.service";
@@ -21,6 +22,7 @@ import { bridgeClientManager } from "@/modules/workspace";
 import { BadRequestError, ForbiddenError, NotFoundError } from "@/shared/errors";
 import type { ServiceContext } from "@/shared/types/context";
 
+import { gatewayMessageService } from "./gateway-messages.service";
 import type {
     CreateGatewayRequest,
     GatewayCredentials,
@@ -96,6 +98,20 @@ function extractCredentialIdentifier(
     if (!phoneNumberId) return null;
     return `whatsapp_bot:${phoneNumberId}`;
   }
+
+  if (type === "EMAIL") {
+    // For email, the mailbox login on its IMAP server identifies the inbox
+    const { imapHost, username } = credentials as { imapHost?: string; username?: string };
+    if (!imapHost || !username) return null;
+    return `email:${username.toLowerCase()}@${imapHost.toLowerCase()}`;
+  }
+
+  if (type === "MATRIX") {
+    // For Matrix, the access token identifies the bot's session on its homeserver
+    const { homeserverUrl, accessToken } = credentials as { homeserverUrl?: string; accessToken?: string };
+    if (!homeserverUrl || !accessToken) return null;
+    return `matrix:${homeserverUrl.toLowerCase()}:${accessToken}`;
+  }
   
   return null;
 }
@@ -317,6 +333,8 @@ class GatewayService {
         status: true,
         lastConnectedAt: true,
         lastError: true,
+        logMessages: true,
+        redactPii: true,
         createdAt: true,
         workflows: {
           take: 1,
@@ -344,6 +362,8 @@ class GatewayService {
         status: gw.status,
         lastConnectedAt: gw.lastConnectedAt,
         lastError: gw.lastError,
+        logMessages: gw.logMessages,
+        redactPii: gw.redactPii,
         createdAt: gw.createdAt,
         ...(wf
           ? {
@@ -387,6 +407,8 @@ class GatewayService {
       name?: string;
       credentialsEnc?: string;
       config?: object;
+      logMessages?: boolean;
+      redactPii?: boolean;
     } = {};
 
     if (data.name !== undefined) {
@@ -402,6 +424,14 @@ class GatewayService {
       updateData.config = { ...(existing.config as object), ...data.config };
     }
 
+    if (data.logMessages !== undefined) {
+      updateData.logMessages = data.logMessages;
+    }
+
+    if (data.redactPii !== undefined) {
+      updateData.redactPii = data.redactPii;
+    }
+
     const gateway = await prisma.gateway.update({
       where: { id },
       data: updateData,
@@ -412,8 +442,14 @@ class GatewayService {
       nameChanged: data.name !== undefined,
       credentialsChanged: data.credentials !== undefined,
       configChanged: data.config !== undefined,
+      ...(data.logMessages !== undefined && { logMessages: data.logMessages }),
+      ...(data.redactPii !== undefined && { redactPii: data.redactPii }),
     });
 
+    if (data.logMessages !== undefined || data.redactPii !== undefined) {
+      gatewayMessageService.invalidateSettings(gateway.id);
+    }
+
     gatewayLogger.info({ gatewayId: gateway.id }, "Gateway updated");
 
     const credentials = this.getDecryptedCredentials(gateway);
@@ -521,7 +557,8 @@ class GatewayService {
 
   /**
    * Update gateway status (internal use, no ownership check)
-   * Used by gateway connectors to update connection status
+   * Used by gateway connectors to update connection status. An actual
+   * change is published as a `gateway.status_changed` platform event.
    */
   async updateStatus(
     id: string,
@@ -547,6 +584,11 @@ class GatewayService {
       data.lastError = error;
     }
 
+    const previous = await prisma.gateway.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+
     const gateway = await prisma.gateway.update({
       where: { id },
       data,
@@ -554,6 +596,22 @@ class GatewayService {
 
     gatewayLogger.debug({ gatewayId: id, status }, "Gateway status updated");
 
+    if (previous && previous.status !== status) {
+      emitPlatformEvent({
+        name: "gateway.status_changed",
+        userId: gateway.userId,
+        organizationId: gateway.organizationId,
+        data: {
+          gatewayId: id,
+          gatewayName: gateway.name,
+          gatewayType: gateway.type,
+          previousStatus: previous.status,
+          status,
+          ...(error && { error }),
+        },
+      });
+    }
+
     // Update gateway routes when a gateway connects or disconnects.
     // A running container may need routes added or removed.
     if (status === "CONNECTED" || status === "DISCONNECTED") {
@@ -773,6 +831,10 @@ class GatewayService {
     } else if ("signingSecret" in credentials && "botToken" in credentials) {
       // Slack Bot credentials
       credentialInfo.hasBotToken = true;
+    } else if ("homeserverUrl" in credentials && "accessToken" in credentials) {
+      // Matrix credentials
+      credentialInfo.hasAccessToken = true;
+      credentialInfo.homeserverUrl = (credentials as { homeserverUrl: string }).homeserverUrl;
     } else if ("accessToken" in credentials && "phoneNumberId" in credentials) {
       // WhatsApp Bot credentials
       credentialInfo.hasAccessToken = true;
@@ -780,6 +842,12 @@ class GatewayService {
     } else if ("botToken" in credentials) {
       // Telegram Bot credentials
       credentialInfo.hasBotToken = true;
+    } else if ("sessionSecret" in credentials) {
+      // Web Chat credentials
+      credentialInfo.hasSessionSecret = true;
+    } else if ("imapHost" in credentials && "fromAddress" in credentials) {
+      // Email credentials
+      credentialInfo.emailAddress = (credentials as { fromAddress: string }).fromAddress;
     }
 
     return {
@@ -53,10 +53,44 @@ export interface WhatsAppBotCredentials {
   verifyToken: string; // User-defined token for GET webhook verification handshake
 }
 
+/**
+ * Web chat credentials (first-party widget)
+ */
+export interface WebChatCredentials {
+  sessionSecret: string; // HMAC key for visitor session tokens — generated on create
+}
+
+/**
+ * Email credentials (IMAP inbound, SMTP outbound)
+ */
+export interface EmailCredentials {
+  imapHost: string;
+  imapPort: number;
+  imapSecure?: boolean; // Implicit TLS (993). Default: true unless port 143
+  smtpHost: string;
+  smtpPort: number;
+  smtpSecure?: boolean; // Implicit TLS (465); false = STARTTLS (587). Default: true on port 465
+  username: string;
+  password: string;
+  smtpUsername?: string; // Defaults to username
+  smtpPassword?: string; // Defaults to password
+  fromAddress: string; // Mailbox address replies are sent from
+  fromName?: string;
+  allowSelfSigned?: boolean; // Accept self-signed TLS certificates (local mail servers)
+}
+
+/**
+ * Matrix credentials (client-server API, bot user account)
+ */
+export interface MatrixCredentials {
+  homeserverUrl: string; // e.g. https://matrix.example.org
+  accessToken: string; // Access token of the bot account
+}
+
 /**
  * Union of all credential types
  */
-export type GatewayCredentials = TelegramBotCredentials | DiscordBotCredentials | SlackBotCredentials | WhatsAppBotCredentials;
+export type GatewayCredentials = TelegramBotCredentials | DiscordBotCredentials | SlackBotCredentials | WhatsAppBotCredentials | WebChatCredentials | EmailCredentials | MatrixCredentials;
 
 // ===========================================
 // Gateway Configuration Types (non-sensitive)
@@ -66,6 +100,12 @@ export type GatewayCredentials = TelegramBotCredentials | DiscordBotCredentials
  * Telegram Bot configuration
  */
 export interface TelegramBotConfig {
+  /**
+   * How updates arrive: "webhook" (default) has Telegram call the webhook
+   * route; "polling" has the Telegram poll cron call getUpdates, for bots
+   * without a publicly reachable URL
+   */
+  updateMode?: "webhook" | "polling";
   webhookUrl?: string;
   allowedUpdates?: string[];
   dropPendingUpdates?: boolean;
@@ -95,10 +135,46 @@ export interface WhatsAppBotConfig {
   webhookUrl?: string;
 }
 
+/**
+ * Web chat configuration — also served to the widget, so nothing secret
+ */
+export interface WebChatConfig {
+  /** Origins allowed to embed the widget (e.g. https://example.com). Empty = any origin */
+  allowedOrigins?: string[];
+  title?: string;
+  welcomeMessage?: string;
+  /** Hex accent colour for the bubble and visitor messages */
+  primaryColor?: string;
+  /** Visitor session lifetime in hours */
+  sessionTtlHours?: number;
+}
+
+/**
+ * Email configuration
+ */
+export interface EmailConfig {
+  /** Mailbox polled for inbound mail. Default INBOX */
+  mailbox?: string;
+  /** Seconds between inbox polls */
+  pollIntervalSeconds?: number;
+  /** Flag fetched messages as seen. Default true */
+  markSeen?: boolean;
+}
+
+/**
+ * Matrix configuration
+ */
+export interface MatrixConfig {
+  /** Join rooms the bot is invited to. Default true */
+  autoJoin?: boolean;
+  /** Answer only in these rooms (room IDs); invites to other rooms are declined. Empty = any room */
+  allowedRoomIds?: string[];
+}
+
 /**
  * Union of all config types
  */
-export type GatewayConfig = TelegramBotConfig | DiscordBotConfig | SlackBotConfig | WhatsAppBotConfig | Record<string, unknown>;
+export type GatewayConfig = TelegramBotConfig | DiscordBotConfig | SlackBotConfig | WhatsAppBotConfig | WebChatConfig | EmailConfig | MatrixConfig | Record<string, unknown>;
 
 // ===========================================
 // Gateway Metadata Types (persisted on connect)
@@ -150,6 +226,16 @@ export interface WhatsAppBotMetadata {
   businessAccountId?: string;
 }
 
+/**
+ * Matrix metadata — persisted from whoami/profile on connect
+ */
+export interface MatrixMetadata {
+  userId: string; // @bot:example.org
+  deviceId?: string;
+  displayName?: string;
+  homeserverUrl: string;
+}
+
 /**
  * Union of all gateway metadata types
  */
@@ -158,6 +244,7 @@ export type GatewayMetadata =
   | DiscordBotMetadata
   | SlackBotMetadata
   | WhatsAppBotMetadata
+  | MatrixMetadata
   | Record<string, unknown>;
 
 // ===========================================
@@ -182,6 +269,10 @@ export interface UpdateGatewayRequest {
   credentials?: GatewayCredentials;
   config?: GatewayConfig;
   mode?: "plugin" | "workflow";
+  /** Record this gateway's messages in the message log */
+  logMessages?: boolean;
+  /** Mask emails, phone and card numbers before logging */
+  redactPii?: boolean;
 }
 
 // ===========================================
@@ -199,6 +290,9 @@ export type SafeGateway = Omit<Gateway, "credentialsEnc"> & {
     hasApplicationId?: boolean; // For DISCORD_BOT
     hasAccessToken?: boolean; // For WHATSAPP_BOT
     phoneNumberId?: string; // For WHATSAPP_BOT (non-sensitive identifier)
+    hasSessionSecret?: boolean; // For WEB_CHAT
+    emailAddress?: string; // For EMAIL (non-sensitive identifier)
+    homeserverUrl?: string; // For MATRIX
   };
   // Provider-specific metadata (bot info, AI provider details, etc.)
   providerMetadata: GatewayMetadata;
@@ -214,6 +308,8 @@ export interface GatewayListItem {
   status: GatewayStatus;
   lastConnectedAt: Date | null;
   lastError: string | null;
+  logMessages: boolean;
+  redactPii: boolean;
   createdAt: Date;
   /** Summary of the first workflow bound to this gateway (if any) */
   workflowSummary?: {
@@ -268,4 +364,29 @@ export function isWhatsAppBotCredentials(
   return "accessToken" in credentials && "phoneNumberId" in credentials && "appSecret" in credentials;
 }
 
+/**
+ * Check if credentials are for Web Chat
+ */
+export function isWebChatCredentials(
+  credentials: GatewayCredentials
+): credentials is WebChatCredentials {
+  return "sessionSecret" in credentials;
+}
+
+/**
+ * Check if credentials are for Email
+ */
+export function isEmailCredentials(
+  credentials: GatewayCredentials
+): credentials is EmailCredentials {
+  return "imapHost" in credentials && "smtpHost" in credentials;
+}
 
+/**
+ * Check if credentials are for Matrix
+ */
+export function isMatrixCredentials(
+  credentials: GatewayCredentials
+): credentials is MatrixCredentials {
+  return "homeserverUrl" in credentials && "accessToken" in credentials;
+}
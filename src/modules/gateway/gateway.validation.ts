@@ -10,6 +10,9 @@
 import { GatewayType } from "@prisma/client";
 import { z } from "zod";
 
+import { MAX_POLL_INTERVAL_SECONDS, MIN_POLL_INTERVAL_SECONDS } from "./email.service";
+import { generateSessionSecret, MAX_SESSION_TTL_HOURS } from "./web-chat.service";
+
 // ===========================================
 // Common Schemas
 // ===========================================
@@ -49,7 +52,58 @@ export const telegramBotCredentialsSchema = z.object({
   botToken: telegramBotTokenSchema,
 });
 
+/**
+ * Web chat credentials schema — the session secret is always generated
+ * server-side, whatever the client sends
+ */
+export const webChatCredentialsSchema = z
+  .object({})
+  .optional()
+  .transform(() => ({ sessionSecret: generateSessionSecret() }));
+
+/**
+ * Mail server host — a hostname or IP, no scheme or port
+ */
+const mailHostSchema = z
+  .string()
+  .trim()
+  .min(1, "Host is required")
+  .max(253)
+  .regex(/^[A-Za-z0-9.-]+$|^\[[0-9A-Fa-f:.]+\]$/, "Host must be a hostname like imap.example.com");
+
+const mailPortSchema = z.coerce.number().int().min(1).max(65535);
 
+/**
+ * Email credentials schema (IMAP + SMTP)
+ */
+export const emailCredentialsSchema = z.object({
+  imapHost: mailHostSchema,
+  imapPort: mailPortSchema.default(993),
+  imapSecure: z.boolean().optional(),
+  smtpHost: mailHostSchema,
+  smtpPort: mailPortSchema.default(465),
+  smtpSecure: z.boolean().optional(),
+  username: z.string().trim().min(1, "Username is required").max(320),
+  password: z.string().min(1, "Password is required").max(1024),
+  smtpUsername: z.string().trim().min(1).max(320).optional(),
+  smtpPassword: z.string().min(1).max(1024).optional(),
+  fromAddress: z.string().trim().email("From address must be a valid email address"),
+  fromName: z.string().trim().max(100).optional(),
+  allowSelfSigned: z.boolean().optional(),
+});
+
+/**
+ * Matrix credentials schema
+ */
+export const matrixCredentialsSchema = z.object({
+  homeserverUrl: z
+    .string()
+    .trim()
+    .url("Homeserver must be a URL like https://matrix.example.org")
+    .regex(/^https?:\/\//, "Homeserver must use http or https")
+    .transform((url) => url.replace(/\/+$/, "")),
+  accessToken: z.string().trim().min(1, "Access token is required").max(1024),
+});
 
 // ===========================================
 // Configuration Schemas
@@ -59,11 +113,59 @@ export const telegramBotCredentialsSchema = z.object({
  * Telegram Bot configuration schema
  */
 export const telegramBotConfigSchema = z.object({
+  updateMode: z.enum(["webhook", "polling"]).optional(),
   webhookUrl: z.string().url("Invalid webhook URL").optional(),
   allowedUpdates: z.array(z.string()).optional(),
   dropPendingUpdates: z.boolean().optional(),
 });
 
+/**
+ * Web chat configuration schema
+ */
+export const webChatConfigSchema = z.object({
+  allowedOrigins: z
+    .array(
+      z
+        .string()
+        .trim()
+        .regex(/^https?:\/\/[^/\s]+$/, "Origins look like https://example.com (no path)")
+    )
+    .max(20, "At most 20 allowed origins")
+    .optional(),
+  title: z.string().trim().max(60).optional(),
+  welcomeMessage: z.string().trim().max(500).optional(),
+  primaryColor: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "Colour must be a hex value like #2563eb")
+    .optional(),
+  sessionTtlHours: z.number().int().min(1).max(MAX_SESSION_TTL_HOURS).optional(),
+});
+
+/**
+ * Email configuration schema
+ */
+export const emailConfigSchema = z.object({
+  mailbox: z.string().trim().min(1).max(200).optional(),
+  pollIntervalSeconds: z
+    .number()
+    .int()
+    .min(MIN_POLL_INTERVAL_SECONDS)
+    .max(MAX_POLL_INTERVAL_SECONDS)
+    .optional(),
+  markSeen: z.boolean().optional(),
+});
+
+/**
+ * Matrix configuration schema
+ */
+export const matrixConfigSchema = z.object({
+  autoJoin: z.boolean().optional(),
+  allowedRoomIds: z
+    .array(z.string().trim().regex(/^![^:\s]+:\S+$/, "Room IDs look like !abc123:example.org"))
+    .max(100, "At most 100 allowed rooms")
+    .optional(),
+});
+
 
 
 // ===========================================
@@ -80,11 +182,44 @@ export const createTelegramBotGatewaySchema = z.object({
   config: telegramBotConfigSchema.optional(),
 });
 
+/**
+ * Create Web Chat gateway request
+ */
+export const createWebChatGatewaySchema = z.object({
+  name: gatewayNameSchema,
+  type: z.literal(GatewayType.WEB_CHAT),
+  credentials: webChatCredentialsSchema,
+  config: webChatConfigSchema.optional(),
+});
+
+/**
+ * Create Email gateway request
+ */
+export const createEmailGatewaySchema = z.object({
+  name: gatewayNameSchema,
+  type: z.literal(GatewayType.EMAIL),
+  credentials: emailCredentialsSchema,
+  config: emailConfigSchema.optional(),
+});
+
+/**
+ * Create Matrix gateway request
+ */
+export const createMatrixGatewaySchema = z.object({
+  name: gatewayNameSchema,
+  type: z.literal(GatewayType.MATRIX),
+  credentials: matrixCredentialsSchema,
+  config: matrixConfigSchema.optional(),
+});
+
 /**
  * Create gateway request - discriminated union based on type
  */
 export const createGatewaySchema = z.discriminatedUnion("type", [
   createTelegramBotGatewaySchema,
+  createWebChatGatewaySchema,
+  createEmailGatewaySchema,
+  createMatrixGatewaySchema,
 ]);
 
 /**
@@ -94,12 +229,20 @@ export const createGatewaySchema = z.discriminatedUnion("type", [
 export const updateGatewaySchema = z.object({
   name: gatewayNameSchema.optional(),
   credentials: z
-    .union([telegramBotCredentialsSchema])
+    .union([telegramBotCredentialsSchema, emailCredentialsSchema, matrixCredentialsSchema])
     .optional(),
   config: z
-    .union([telegramBotConfigSchema, z.record(z.string(), z.unknown())])
+    .union([
+      webChatConfigSchema.strict(),
+      emailConfigSchema.strict(),
+      matrixConfigSchema.strict(),
+      telegramBotConfigSchema,
+      z.record(z.string(), z.unknown()),
+    ])
     .optional(),
   mode: z.enum(["plugin", "workflow"]).optional(),
+  logMessages: z.boolean().optional(),
+  redactPii: z.boolean().optional(),
 });
 
 /**
@@ -109,11 +252,35 @@ export const gatewayIdSchema = z.object({
   id: z.string().cuid("Invalid gateway ID"),
 });
 
+/**
+ * Message log query (inbox)
+ */
+export const messageListQuerySchema = z.object({
+  gatewayId: z.string().cuid().optional(),
+  chatId: z.string().max(200).optional(),
+  senderId: z.string().max(200).optional(),
+  direction: z.enum(["INBOUND", "OUTBOUND"]).optional(),
+  q: z.string().trim().max(200).optional(),
+  cursor: z.string().cuid().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+/**
+ * Conversation list query (inbox)
+ */
+export const conversationListQuerySchema = z.object({
+  gatewayId: z.string().cuid().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
 // ===========================================
 // Export Types from Schemas
 // ===========================================
 
 export type CreateTelegramBotGatewayInput = z.infer<typeof createTelegramBotGatewaySchema>;
+export type CreateWebChatGatewayInput = z.infer<typeof createWebChatGatewaySchema>;
+export type CreateEmailGatewayInput = z.infer<typeof createEmailGatewaySchema>;
+export type CreateMatrixGatewayInput = z.infer<typeof createMatrixGatewaySchema>;
 export type CreateGatewayInput = z.infer<typeof createGatewaySchema>;
 export type UpdateGatewayInput = z.infer<typeof updateGatewaySchema>;
 
@@ -1,7 +1,7 @@
 /**
  * Gateway Module
  *
- * Manages Telegram Bot, Discord Bot, Slack Bot, and WhatsApp Bot gateways
+ * Manages Telegram Bot, Discord Bot, Slack Bot, WhatsApp Bot, Web Chat, Email and Matrix gateways
  * with encrypted credential storage and status tracking.
  *
  * Also includes BYOK (Bring Your Own Key) AI usage tracking.
@@ -27,12 +27,17 @@ export { gatewayChatService, type ActiveChat, type ChatMemberUpdate, type ChatSt
 // Gateway Metrics
 export { gatewayMetricService, type MetricRow, type MetricSummary } from "./gateway-metrics.service";
 
+// Message Log
+export {
+    gatewayMessageService, type ConversationSummary, type InboundMessage, type MessageListFilters, type MessageLogEntry, type MessageLogScope
+} from "./gateway-messages.service";
+
 // Monitoring
 export { gatewayMonitor } from "./gateway-monitor";
 
 // Registry
 export {
-    GatewayRegistryError, gatewayRegistry, type GatewayAction, type GatewayProvider, type ProviderRegistrationOptions
+    GatewayRegistryError, gatewayRegistry, type GatewayAction, type GatewayActionContext, type GatewayProvider, type ProviderRegistrationOptions
 } from "./gateway.registry";
 
 // Providers
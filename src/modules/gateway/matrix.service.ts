@@ -0,0 +1,530 @@
+/**
+ * Matrix Service
+ *
+ * Backing for the MATRIX gateway (client-server API, bot user account):
+ *   - requests: authenticated calls to the gateway's homeserver, refusing
+ *     private hosts unless explicitly allowed (local Synapse/Conduit in
+ *     development)
+ *   - sync processing: turns a `/sync` response into room joins/leaves,
+ *     pending invites and normalized room messages
+ *   - sync loops: one `/sync` long-poll loop per gateway, held under a Redis
+ *     lease so exactly one replica syncs each account. The `since` token is
+ *     kept in Redis, so a loop that moves to another replica resumes where
+ *     the previous one stopped
+ *
+ * @module modules/gateway/matrix.service
+ */
+
+import crypto from "node:crypto";
+
+import { logger } from "@/lib/logger";
+import { isSafeUrl } from "@/lib/network-security";
+import { redis } from "@/lib/redis";
+import { acquireLock, extendLock, releaseLock } from "@/lib/redis-lock";
+import type { MatrixInboundMessage } from "@/modules/plugin/plugin.events";
+
+import { gatewayChatService } from "./gateway-chats.service";
+import type { MatrixConfig, MatrixCredentials } from "./gateway.types";
+
+const matrixLogger = logger.child({ module: "matrix-gateway" });
+
+const K_SINCE = (gatewayId: string) => `matrix:since:${gatewayId}`;
+const LEASE_KEY = (gatewayId: string) => `matrix-sync:${gatewayId}`;
+
+const CLIENT_API_PREFIX = "/_matrix/client/v3";
+const REQUEST_TIMEOUT_MS = 15_000;
+/** How long the homeserver may hold a /sync open */
+export const SYNC_TIMEOUT_MS = 30_000;
+/** Lease outlives one long-poll plus slack; renewed every iteration */
+const LEASE_TTL_SECONDS = 90;
+const MIN_BACKOFF_MS = 2_000;
+const MAX_BACKOFF_MS = 60_000;
+
+/** Keep /sync small: no presence or account data, lazy-loaded members */
+const SYNC_FILTER = JSON.stringify({
+  presence: { types: [] },
+  account_data: { types: [] },
+  room: {
+    timeline: { limit: 50 },
+    state: { lazy_load_members: true },
+    ephemeral: { types: [] },
+    account_data: { types: [] },
+  },
+});
+
+// ===========================================
+// Types
+// ===========================================
+
+export class MatrixApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly errcode?: string,
+  ) {
+    super(message);
+    this.name = "MatrixApiError";
+  }
+}
+
+export interface MatrixEvent {
+  type: string;
+  event_id?: string;
+  sender: string;
+  origin_server_ts?: number;
+  state_key?: string;
+  content: Record<string, unknown>;
+}
+
+interface MatrixJoinedRoom {
+  summary?: { "m.joined_member_count"?: number; "m.invited_member_count"?: number };
+  state?: { events?: MatrixEvent[] };
+  timeline?: { events?: MatrixEvent[]; limited?: boolean };
+}
+
+interface MatrixLeftRoom {
+  state?: { events?: MatrixEvent[] };
+  timeline?: { events?: MatrixEvent[] };
+}
+
+export interface MatrixSyncResponse {
+  next_batch: string;
+  rooms?: {
+    join?: Record<string, MatrixJoinedRoom>;
+    invite?: Record<string, { invite_state?: { events?: MatrixEvent[] } }>;
+    leave?: Record<string, MatrixLeftRoom>;
+  };
+}
+
+/** What the loop knows about a joined room; kept across sync iterations */
+export interface MatrixRoomInfo {
+  roomId: string;
+  name?: string;
+  alias?: string;
+  memberCount?: number;
+  isDirect: boolean;
+  /** Display names by user ID, from member events seen so far */
+  members: Map<string, string>;
+}
+
+export interface MatrixSyncResult {
+  /** Rooms the bot is newly in (every joined room on the first sync) */
+  joined: MatrixRoomInfo[];
+  left: Array<{ roomId: string; status: "left" | "kicked" | "banned" }>;
+  invites: string[];
+  messages: MatrixInboundMessage[];
+}
+
+export interface MatrixSyncHandlers {
+  onMessage(message: MatrixInboundMessage): Promise<void>;
+  /** A sync request failed; `fatal` means the loop stopped (e.g. revoked token) */
+  onError?(error: Error, fatal: boolean): Promise<void> | void;
+  /** A sync succeeded after errors (or for the first time) */
+  onHealthy?(): Promise<void> | void;
+}
+
+// ===========================================
+// Requests
+// ===========================================
+
+export function assertHomeserverAllowed(homeserverUrl: string): void {
+  if (process.env.MATRIX_GATEWAY_ALLOW_PRIVATE_HOSTS === "true") return;
+  if (!isSafeUrl(homeserverUrl)) {
+    throw new Error(`Homeserver "${homeserverUrl}" is not allowed (private or loopback address)`);
+  }
+}
+
+/** Unique transaction ID for idempotent PUT sends */
+export function newTxnId(): string {
+  return `2bot.${Date.now()}.${crypto.randomBytes(6).toString("hex")}`;
+}
+
+/**
+ * Call the client-server API of the gateway's homeserver.
+ * `path` is relative to /_matrix/client/v3 and must already be encoded.
+ */
+export async function matrixRequest<T>(
+  credentials: MatrixCredentials,
+  method: "GET" | "POST" | "PUT" | "DELETE",
+  path: string,
+  options: {
+    body?: unknown;
+    query?: Record<string, string | number | undefined>;
+    timeoutMs?: number;
+    signal?: AbortSignal;
+  } = {},
+): Promise<T> {
+  assertHomeserverAllowed(credentials.homeserverUrl);
+
+  const url = new URL(`${credentials.homeserverUrl.replace(/\/+$/, "")}${CLIENT_API_PREFIX}${path}`);
+  for (const [key, value] of Object.entries(options.query ?? {})) {
+    if (value !== undefined) url.searchParams.set(key, String(value));
+  }
+
+  const timeout = AbortSignal.timeout(options.timeoutMs ?? REQUEST_TIMEOUT_MS);
+  const response = await fetch(url, {
+    method,
+    headers: {
+      Authorization: `Bearer ${credentials.accessToken}`,
+      ...(options.body !== undefined && { "Content-Type": "application/json" }),
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    signal: options.signal ? AbortSignal.any([options.signal, timeout]) : timeout,
+  });
+
+  const data = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+  if (!response.ok) {
+    const errcode = typeof data.errcode === "string" ? data.errcode : undefined;
+    const message = typeof data.error === "string" ? data.error : `HTTP ${response.status}`;
+    throw new MatrixApiError(`Matrix API error: ${message}`, response.status, errcode);
+  }
+  return data as T;
+}
+
+export function roomPath(roomId: string, ...rest: string[]): string {
+  return `/rooms/${[roomId, ...rest].map(encodeURIComponent).join("/")}`;
+}
+
+/** The bot account behind the access token */
+export async function whoami(
+  credentials: MatrixCredentials,
+): Promise<{ user_id: string; device_id?: string }> {
+  return matrixRequest(credentials, "GET", "/account/whoami");
+}
+
+// ===========================================
+// Sync processing
+// ===========================================
+
+function stringField(content: Record<string, unknown>, key: string): string | undefined {
+  const value = content[key];
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function relatesTo(content: Record<string, unknown>): Record<string, unknown> {
+  const rel = content["m.relates_to"];
+  return rel && typeof rel === "object" ? (rel as Record<string, unknown>) : {};
+}
+
+/** Whether a message addresses the bot: an explicit mention, a pill or the bare user ID */
+export function mentionsUser(content: Record<string, unknown>, userId: string): boolean {
+  const mentions = content["m.mentions"] as { user_ids?: unknown } | undefined;
+  if (Array.isArray(mentions?.user_ids) && mentions.user_ids.includes(userId)) return true;
+  const body = stringField(content, "body") ?? "";
+  const formatted = stringField(content, "formatted_body") ?? "";
+  return body.includes(userId) || formatted.includes(`matrix.to/#/${userId}`);
+}
+
+/** Room-wide state and member names from a batch of events */
+function applyStateEvents(room: MatrixRoomInfo, events: MatrixEvent[]): void {
+  for (const event of events) {
+    if (event.type === "m.room.name") {
+      room.name = stringField(event.content, "name");
+    } else if (event.type === "m.room.canonical_alias") {
+      room.alias = stringField(event.content, "alias");
+    } else if (event.type === "m.room.member" && event.state_key) {
+      const name = stringField(event.content, "displayname");
+      if (name) room.members.set(event.state_key, name);
+    }
+  }
+}
+
+function ownMembership(events: MatrixEvent[], ownUserId: string): MatrixEvent | undefined {
+  return [...events].reverse().find((e) => e.type === "m.room.member" && e.state_key === ownUserId);
+}
+
+/**
+ * Turn one `/sync` response into what the gateway acts on.
+ *
+ * `rooms` carries room info between iterations and is updated in place.
+ * On the first sync (`initial`), every joined room is reported and the
+ * timeline is ignored — it is history from before the gateway connected.
+ */
+export function processSyncResponse(
+  response: MatrixSyncResponse,
+  ownUserId: string,
+  rooms: Map<string, MatrixRoomInfo>,
+  initial: boolean,
+): MatrixSyncResult {
+  const result: MatrixSyncResult = { joined: [], left: [], invites: [], messages: [] };
+
+  for (const [roomId, joined] of Object.entries(response.rooms?.join ?? {})) {
+    const stateEvents = joined.state?.events ?? [];
+    const timeline = joined.timeline?.events ?? [];
+    const known = rooms.get(roomId);
+    const room: MatrixRoomInfo = known ?? { roomId, isDirect: false, members: new Map() };
+    rooms.set(roomId, room);
+
+    applyStateEvents(room, stateEvents);
+    applyStateEvents(room, timeline.filter((e) => e.state_key !== undefined));
+
+    const memberCount = joined.summary?.["m.joined_member_count"];
+    if (typeof memberCount === "number") {
+      room.memberCount = memberCount;
+      room.isDirect = memberCount <= 2;
+    }
+
+    // Lazy-loaded state repeats our member event; only a timeline one is a change
+    const ownJoin = ownMembership(timeline, ownUserId);
+    if (initial || !known || ownJoin?.content.membership === "join") {
+      result.joined.push(room);
+    }
+
+    if (initial) continue;
+
+    for (const event of timeline) {
+      const message = toInboundMessage(event, room, ownUserId);
+      if (message) result.messages.push(message);
+    }
+  }
+
+  for (const [roomId, left] of Object.entries(response.rooms?.leave ?? {})) {
+    rooms.delete(roomId);
+    const membership = ownMembership([...(left.state?.events ?? []), ...(left.timeline?.events ?? [])], ownUserId);
+    const status =
+      membership?.content.membership === "ban"
+        ? "banned"
+        : membership && membership.sender !== ownUserId
+          ? "kicked"
+          : "left";
+    result.left.push({ roomId, status });
+  }
+
+  result.invites = Object.keys(response.rooms?.invite ?? {});
+  return result;
+}
+
+/**
+ * A room message worth answering, normalized. Returns null for our own
+ * messages, notices (other bots — answering them risks loops), edits and
+ * anything without a text body.
+ */
+export function toInboundMessage(
+  event: MatrixEvent,
+  room: MatrixRoomInfo,
+  ownUserId: string,
+): MatrixInboundMessage | null {
+  if (event.type !== "m.room.message" || !event.event_id) return null;
+  if (event.sender === ownUserId) return null;
+
+  const msgtype = stringField(event.content, "msgtype");
+  const body = stringField(event.content, "body");
+  if (!msgtype || !body || msgtype === "m.notice") return null;
+
+  const relation = relatesTo(event.content);
+  if (relation.rel_type === "m.replace") return null;
+  const inReplyTo = relation["m.in_reply_to"] as { event_id?: unknown } | undefined;
+
+  const message: MatrixInboundMessage = {
+    id: event.event_id,
+    eventId: event.event_id,
+    roomId: room.roomId,
+    sender: event.sender,
+    text: body,
+    msgtype,
+    isDirect: room.isDirect,
+    mentioned: mentionsUser(event.content, ownUserId),
+    timestamp: new Date(event.origin_server_ts ?? Date.now()).toISOString(),
+  };
+  const senderName = room.members.get(event.sender);
+  if (senderName) message.senderName = senderName;
+  if (event.content.format === "org.matrix.custom.html") {
+    const formatted = stringField(event.content, "formatted_body");
+    if (formatted) message.formattedBody = formatted;
+  }
+  if (typeof inReplyTo?.event_id === "string") message.replyToEventId = inReplyTo.event_id;
+  if (relation.rel_type === "m.thread" && typeof relation.event_id === "string") {
+    message.threadRootId = relation.event_id;
+  }
+  if (room.name ?? room.alias) message.roomName = room.name ?? room.alias;
+  return message;
+}
+
+function isRoomAllowed(config: MatrixConfig, roomId: string): boolean {
+  return !config.allowedRoomIds?.length || config.allowedRoomIds.includes(roomId);
+}
+
+// ===========================================
+// Sync loops
+// ===========================================
+
+interface RunningSync {
+  abort: AbortController;
+  done: Promise<void>;
+}
+
+/** Loops running in this process, by gateway ID */
+const running = new Map<string, RunningSync>();
+
+export function isMatrixSyncRunning(gatewayId: string): boolean {
+  return running.has(gatewayId);
+}
+
+export function runningMatrixSyncs(): string[] {
+  return [...running.keys()];
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Start the `/sync` loop for a gateway in this process.
+ *
+ * Returns false when another replica holds the gateway's sync lease (or
+ * the loop already runs here). The loop runs until `stopMatrixSync`, until
+ * the lease is lost, or until the homeserver rejects the access token.
+ */
+export async function startMatrixSync(
+  gatewayId: string,
+  credentials: MatrixCredentials,
+  config: MatrixConfig,
+  handlers: MatrixSyncHandlers,
+): Promise<boolean> {
+  if (running.has(gatewayId)) return false;
+  const leaseToken = await acquireLock(LEASE_KEY(gatewayId), LEASE_TTL_SECONDS);
+  if (!leaseToken) return false;
+
+  const abort = new AbortController();
+  const done = runSyncLoop(gatewayId, credentials, config, handlers, leaseToken, abort.signal)
+    .catch((err) => {
+      matrixLogger.error({ gatewayId, err }, "Matrix sync loop crashed");
+    })
+    .finally(() => {
+      running.delete(gatewayId);
+      void releaseLock(LEASE_KEY(gatewayId), leaseToken);
+    });
+  running.set(gatewayId, { abort, done });
+  return true;
+}
+
+/** Stop a gateway's loop in this process and wait for it to wind down */
+export async function stopMatrixSync(gatewayId: string): Promise<void> {
+  const sync = running.get(gatewayId);
+  if (!sync) return;
+  sync.abort.abort();
+  await sync.done;
+}
+
+async function runSyncLoop(
+  gatewayId: string,
+  credentials: MatrixCredentials,
+  config: MatrixConfig,
+  handlers: MatrixSyncHandlers,
+  leaseToken: string,
+  signal: AbortSignal,
+): Promise<void> {
+  const rooms = new Map<string, MatrixRoomInfo>();
+  let ownUserId: string | null = null;
+  let warmedUp = false;
+  let backoffMs = MIN_BACKOFF_MS;
+  let healthy = false;
+
+  matrixLogger.info({ gatewayId, homeserver: credentials.homeserverUrl }, "Matrix sync started");
+
+  while (!signal.aborted) {
+    if (!(await extendLock(LEASE_KEY(gatewayId), leaseToken, LEASE_TTL_SECONDS))) {
+      matrixLogger.warn({ gatewayId }, "Matrix sync lease lost — stopping here");
+      break;
+    }
+
+    try {
+      ownUserId ??= (await whoami(credentials)).user_id;
+      const savedSince = (await redis.get(K_SINCE(gatewayId))) ?? undefined;
+
+      // Each loop starts with a full, history-free sync to learn its rooms
+      // (names, members, direct or not); a saved position still wins, so
+      // nothing received meanwhile is skipped
+      const initial = !warmedUp;
+      const since = initial ? undefined : savedSince;
+      const response = await matrixRequest<MatrixSyncResponse>(credentials, "GET", "/sync", {
+        query: { filter: SYNC_FILTER, since, timeout: since ? SYNC_TIMEOUT_MS : 0 },
+        timeoutMs: SYNC_TIMEOUT_MS + REQUEST_TIMEOUT_MS,
+        signal,
+      });
+
+      const result = processSyncResponse(response, ownUserId, rooms, initial);
+      await applySyncResult(gatewayId, credentials, config, handlers, result);
+
+      // Advance only after dispatch — a crash replays the batch, and the
+      // event ID idempotency key keeps replays from running twice
+      if (!initial || !savedSince) {
+        await redis.set(K_SINCE(gatewayId), response.next_batch);
+      }
+      warmedUp = true;
+
+      backoffMs = MIN_BACKOFF_MS;
+      if (!healthy) {
+        healthy = true;
+        await handlers.onHealthy?.();
+      }
+    } catch (error) {
+      if (signal.aborted) break;
+      const err = error instanceof Error ? error : new Error(String(error));
+      const fatal = err instanceof MatrixApiError && err.status === 401;
+      healthy = false;
+      matrixLogger.warn({ gatewayId, error: err.message, fatal }, "Matrix sync failed");
+      await handlers.onError?.(err, fatal);
+      if (fatal) break;
+      await sleep(backoffMs, signal);
+      backoffMs = Math.min(backoffMs * 2, MAX_BACKOFF_MS);
+    }
+  }
+
+  matrixLogger.info({ gatewayId }, "Matrix sync stopped");
+}
+
+async function applySyncResult(
+  gatewayId: string,
+  credentials: MatrixCredentials,
+  config: MatrixConfig,
+  handlers: MatrixSyncHandlers,
+  result: MatrixSyncResult,
+): Promise<void> {
+  for (const roomId of result.invites) {
+    const accept = config.autoJoin !== false && isRoomAllowed(config, roomId);
+    try {
+      // Declining an invite is leaving the room
+      await matrixRequest(credentials, "POST", roomPath(roomId, accept ? "join" : "leave"), { body: {} });
+      matrixLogger.info({ gatewayId, roomId, accepted: accept }, "Handled Matrix room invite");
+    } catch (err) {
+      matrixLogger.warn({ gatewayId, roomId, err }, "Failed to handle Matrix room invite");
+    }
+  }
+
+  for (const room of result.joined) {
+    await gatewayChatService.recordChatJoin({
+      gatewayId,
+      chatId: room.roomId,
+      chatType: room.isDirect ? "direct" : "room",
+      chatTitle: room.name,
+      chatUsername: room.alias,
+      memberCount: room.memberCount,
+      newStatus: "member",
+    });
+  }
+
+  for (const room of result.left) {
+    await gatewayChatService.recordChatLeave({
+      gatewayId,
+      chatId: room.roomId,
+      chatType: "room",
+      newStatus: room.status,
+    });
+  }
+
+  for (const message of result.messages) {
+    if (!isRoomAllowed(config, message.roomId)) continue;
+    try {
+      await handlers.onMessage(message);
+    } catch (err) {
+      matrixLogger.error({ gatewayId, eventId: message.eventId, err }, "Matrix message dispatch failed");
+    }
+  }
+}
@@ -15,8 +15,9 @@ import {
     GatewayUnavailableError,
     removeGatewayCircuit,
 } from "../gateway-circuit";
+import { gatewayMessageService } from "../gateway-messages.service";
 import { gatewayMetricService } from "../gateway-metrics.service";
-import type { GatewayAction, GatewayProvider } from "../gateway.registry";
+import type { GatewayAction, GatewayActionContext, GatewayProvider } from "../gateway.registry";
 import { gatewayService } from "../gateway.service";
 
 /**
@@ -186,12 +187,14 @@ export abstract class BaseGatewayProvider<TCredentials = unknown, TConfig = unkn
 
   /**
    * Execute a gateway action
-   * Wraps doExecute with circuit breaker, logging, and error handling
+   * Wraps doExecute with circuit breaker, logging, and error handling.
+   * Messages sent by the action are added to the message log.
    */
   async execute<TParams = unknown, TResult = unknown>(
     gatewayId: string,
     action: string,
-    params: TParams
+    params: TParams,
+    context?: GatewayActionContext
   ): Promise<TResult> {
     this.initLogger();
     this.log.debug({ gatewayId, action }, "Executing gateway action...");
@@ -214,8 +217,9 @@ export abstract class BaseGatewayProvider<TCredentials = unknown, TConfig = unkn
       // Update last activity
       connection.lastActivity = new Date();
 
-      // Record success metric (fire-and-forget)
+      // Record success metric and any sent message (fire-and-forget)
       void gatewayMetricService.recordSuccess(gatewayId, action, durationMs);
+      void gatewayMessageService.recordOutbound(gatewayId, action, params, result, context?.workflowRunId);
 
       this.log.debug({ gatewayId, action }, "Action executed successfully");
       return result;
@@ -0,0 +1,434 @@
+/**
+ * Email Gateway Provider
+ *
+ * Implements the GatewayProvider interface for a mailbox reached over
+ * IMAP (inbound) and SMTP (outbound). Inbound mail is polled by the email
+ * poll cron (see email.service); this provider sends mail.
+ *
+ * Replies keep the thread: `In-Reply-To` and `References` are set from the
+ * thread state recorded when mail arrives. A thread's root Message-ID plays
+ * the role of a chat ID, so `sendMessage({ chat_id, text })` from workflow
+ * auto-replies answers in-thread like on the chat platforms.
+ *
+ * @module modules/gateway/providers/email.provider
+ */
+
+import type { GatewayType } from "@prisma/client";
+import type { Transporter } from "nodemailer";
+import type Mail from "nodemailer/lib/mailer";
+
+import { isSafeUrl } from "@/lib/network-security";
+
+import {
+    createSmtpTransport,
+    getEmailThread,
+    replySubject,
+    saveEmailThread,
+    verifyImapLogin,
+    type EmailThread,
+} from "../email.service";
+import type { GatewayAction } from "../gateway.registry";
+import type { EmailConfig, EmailCredentials } from "../gateway.types";
+import { BaseGatewayProvider } from "./base.provider";
+
+// ===========================================
+// Types
+// ===========================================
+
+/** Total attachment size accepted per message (decoded) */
+const MAX_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+
+interface EmailAttachmentParam {
+  filename: string;
+  /** Base64-encoded content */
+  content?: string;
+  /** Public URL to fetch the content from */
+  url?: string;
+  contentType?: string;
+}
+
+interface SendEmailParams {
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  subject: string;
+  text?: string;
+  html?: string;
+  replyTo?: string;
+  inReplyTo?: string;
+  references?: string[];
+  attachments?: EmailAttachmentParam[];
+}
+
+export interface EmailSendResult {
+  messageId: string;
+  threadId?: string;
+  accepted: string[];
+  rejected: string[];
+}
+
+// ===========================================
+// Provider Implementation
+// ===========================================
+
+export class EmailProvider extends BaseGatewayProvider<EmailCredentials, EmailConfig> {
+  readonly type: GatewayType = "EMAIL";
+  readonly name = "Email";
+  readonly description = "Answer email from a mailbox over IMAP and SMTP";
+
+  private transports = new Map<string, Transporter>();
+  private credentialsCache = new Map<string, EmailCredentials>();
+
+  // ===========================================
+  // Connection Lifecycle
+  // ===========================================
+
+  protected async doConnect(
+    gatewayId: string,
+    credentials: EmailCredentials,
+    config?: EmailConfig,
+  ): Promise<void> {
+    const transport = createSmtpTransport(credentials);
+    try {
+      await transport.verify();
+      await verifyImapLogin(credentials, config?.mailbox ?? "INBOX");
+    } catch (error) {
+      transport.close();
+      throw error;
+    }
+
+    this.transports.get(gatewayId)?.close();
+    this.transports.set(gatewayId, transport);
+    this.credentialsCache.set(gatewayId, credentials);
+
+    this.log.info({ gatewayId, address: credentials.fromAddress }, `Connected to mailbox ${credentials.fromAddress}`);
+  }
+
+  protected async doDisconnect(gatewayId: string): Promise<void> {
+    this.transports.get(gatewayId)?.close();
+    this.transports.delete(gatewayId);
+    this.credentialsCache.delete(gatewayId);
+  }
+
+  // ===========================================
+  // Credential Validation
+  // ===========================================
+
+  protected async doValidateCredentials(
+    credentials: EmailCredentials,
+  ): Promise<{ valid: boolean; error?: string }> {
+    if (!credentials.imapHost || !credentials.smtpHost) {
+      return { valid: false, error: "IMAP and SMTP hosts are required" };
+    }
+    if (!credentials.username || !credentials.password) {
+      return { valid: false, error: "Username and password are required" };
+    }
+    if (!credentials.fromAddress) {
+      return { valid: false, error: "From address is required" };
+    }
+
+    // Live validation — log in to both servers
+    const transport = createSmtpTransport(credentials);
+    try {
+      await transport.verify();
+    } catch (error) {
+      return { valid: false, error: `SMTP login failed: ${error instanceof Error ? error.message : String(error)}` };
+    } finally {
+      transport.close();
+    }
+    try {
+      await verifyImapLogin(credentials);
+    } catch (error) {
+      return { valid: false, error: `IMAP login failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+    return { valid: true };
+  }
+
+  // ===========================================
+  // Action Execution
+  // ===========================================
+
+  protected async doExecute<TParams, TResult>(
+    gatewayId: string,
+    action: string,
+    params: TParams,
+  ): Promise<TResult> {
+    const transport = this.transports.get(gatewayId);
+    const credentials = this.credentialsCache.get(gatewayId);
+    if (!transport || !credentials) {
+      throw new Error(`No SMTP transport for gateway ${gatewayId}`);
+    }
+
+    const p = (params ?? {}) as Record<string, unknown>;
+
+    switch (action) {
+      case "sendEmail":
+        return this.sendEmail(transport, credentials, p as unknown as SendEmailParams) as TResult;
+
+      case "replyToEmail":
+        return this.replyInThread(gatewayId, transport, credentials, p) as TResult;
+
+      case "sendMessage":
+        // Cross-platform reply: chat_id is the thread ID
+        return this.replyInThread(gatewayId, transport, credentials, {
+          ...p,
+          threadId: p.chat_id ?? p.threadId,
+          automated: true,
+        }) as TResult;
+
+      case "getThread":
+        return getEmailThread(gatewayId, this.requireString(p.threadId ?? p.chat_id, "threadId")) as TResult;
+
+      default:
+        throw new Error(`Unsupported email action: ${action}`);
+    }
+  }
+
+  // ===========================================
+  // Actions
+  // ===========================================
+
+  private async sendEmail(
+    transport: Transporter,
+    credentials: EmailCredentials,
+    params: SendEmailParams,
+    headers?: Record<string, string>,
+  ): Promise<EmailSendResult> {
+    if (!params.to || (Array.isArray(params.to) && params.to.length === 0)) {
+      throw new Error("Email recipient (to) is required");
+    }
+    if (!params.text && !params.html) {
+      throw new Error("Email body (text or html) is required");
+    }
+
+    const mail: Mail.Options = {
+      from: credentials.fromName
+        ? { name: credentials.fromName, address: credentials.fromAddress }
+        : credentials.fromAddress,
+      to: params.to,
+      cc: params.cc,
+      bcc: params.bcc,
+      replyTo: params.replyTo,
+      subject: params.subject ?? "",
+      text: params.text,
+      html: params.html,
+      inReplyTo: params.inReplyTo,
+      references: params.references,
+      attachments: this.toAttachments(params.attachments),
+      headers,
+    };
+
+    const info = (await transport.sendMail(mail)) as {
+      messageId: string;
+      accepted?: Array<string | { address: string }>;
+      rejected?: Array<string | { address: string }>;
+    };
+    const addresses = (list?: Array<string | { address: string }>) =>
+      (list ?? []).map((a) => (typeof a === "string" ? a : a.address));
+
+    return {
+      messageId: info.messageId,
+      accepted: addresses(info.accepted),
+      rejected: addresses(info.rejected),
+    };
+  }
+
+  /**
+   * Reply in a thread recorded from inbound mail (`threadId`), or to an
+   * explicit `to` + `inReplyTo` when the thread is unknown (expired, or mail
+   * that arrived before the gateway existed).
+   */
+  private async replyInThread(
+    gatewayId: string,
+    transport: Transporter,
+    credentials: EmailCredentials,
+    params: Record<string, unknown>,
+  ): Promise<EmailSendResult> {
+    const threadId = typeof params.threadId === "string" ? params.threadId : undefined;
+    let thread: EmailThread | null = threadId ? await getEmailThread(gatewayId, threadId) : null;
+
+    if (!thread) {
+      const inReplyTo = typeof params.inReplyTo === "string" ? params.inReplyTo : threadId;
+      if (!inReplyTo || typeof params.to !== "string") {
+        throw new Error(
+          threadId
+            ? `Unknown email thread ${threadId} — pass to and inReplyTo to reply anyway`
+            : "Email reply needs a threadId (chat_id), or to and inReplyTo",
+        );
+      }
+      const references = Array.isArray(params.references)
+        ? params.references.filter((r): r is string => typeof r === "string")
+        : [];
+      thread = {
+        threadId: references[0] ?? inReplyTo,
+        replyTo: params.to,
+        subject: typeof params.subject === "string" ? params.subject : "",
+        lastMessageId: inReplyTo,
+        references: references.includes(inReplyTo) ? references : [...references, inReplyTo],
+      };
+    }
+
+    const result = await this.sendEmail(
+      transport,
+      credentials,
+      {
+        to: thread.replyTo,
+        cc: params.cc as string | string[] | undefined,
+        subject: replySubject(typeof params.subject === "string" ? params.subject : thread.subject),
+        text: params.text as string | undefined,
+        html: params.html as string | undefined,
+        inReplyTo: thread.lastMessageId,
+        references: thread.references,
+        attachments: params.attachments as EmailAttachmentParam[] | undefined,
+      },
+      // RFC 3834: lets the recipient's auto-responder skip bot replies
+      params.automated ? { "Auto-Submitted": "auto-replied" } : undefined,
+    );
+
+    // Our reply becomes the message the next one answers
+    await saveEmailThread(gatewayId, {
+      ...thread,
+      lastMessageId: result.messageId,
+      references: [...thread.references, result.messageId],
+    });
+
+    return { ...result, threadId: thread.threadId };
+  }
+
+  private toAttachments(attachments: EmailAttachmentParam[] | undefined): Mail.Attachment[] | undefined {
+    if (!attachments || attachments.length === 0) return undefined;
+
+    let totalBytes = 0;
+    return attachments.map((a) => {
+      const filename = this.requireString(a.filename, "attachment filename");
+      if (a.content) {
+        totalBytes += Math.floor((a.content.length * 3) / 4);
+        if (totalBytes > MAX_ATTACHMENT_BYTES) {
+          throw new Error(`Attachments exceed ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+        }
+        return { filename, content: a.content, encoding: "base64", contentType: a.contentType };
+      }
+      if (a.url) {
+        if (!isSafeUrl(a.url)) {
+          throw new Error(`Attachment URL is not allowed: ${a.url}`);
+        }
+        return { filename, path: a.url, contentType: a.contentType };
+      }
+      throw new Error(`Attachment "${filename}" needs content (base64) or url`);
+    });
+  }
+
+  private requireString(value: unknown, name: string): string {
+    if (typeof value !== "string" || value.length === 0) {
+      throw new Error(`Email ${name} is required`);
+    }
+    return value;
+  }
+
+  // ===========================================
+  // Health Check
+  // ===========================================
+
+  protected async doCheckHealth(
+    gatewayId: string,
+    credentials: EmailCredentials,
+  ): Promise<{ healthy: boolean; latency?: number; error?: string }> {
+    const start = Date.now();
+    const transport = this.transports.get(gatewayId) ?? createSmtpTransport(credentials);
+    try {
+      await transport.verify();
+      await verifyImapLogin(credentials);
+      return { healthy: true, latency: Date.now() - start };
+    } catch (error) {
+      return { healthy: false, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      if (!this.transports.has(gatewayId)) transport.close();
+    }
+  }
+
+  // ===========================================
+  // Supported Actions
+  // ===========================================
+
+  getSupportedActions(): GatewayAction[] {
+    const attachments = {
+      type: "array" as const,
+      required: false,
+      description: "Attachments: [{ filename, content (base64) | url, contentType? }]",
+    };
+    return [
+      {
+        name: "sendEmail",
+        description: "Send a new email",
+        params: {
+          to: { type: "string", required: true, description: "Recipient address(es)" },
+          cc: { type: "string", required: false, description: "CC address(es)" },
+          bcc: { type: "string", required: false, description: "BCC address(es)" },
+          subject: { type: "string", required: true, description: "Subject line" },
+          text: { type: "string", required: false, description: "Plain-text body" },
+          html: { type: "string", required: false, description: "HTML body" },
+          replyTo: { type: "string", required: false, description: "Reply-To address" },
+          attachments,
+        },
+        returns: "EmailSendResult",
+      },
+      {
+        name: "replyToEmail",
+        description: "Reply in an email thread (sets In-Reply-To and References)",
+        params: {
+          threadId: { type: "string", required: false, description: "Thread ID from the email.message event" },
+          to: { type: "string", required: false, description: "Recipient, when the thread is unknown" },
+          inReplyTo: { type: "string", required: false, description: "Message-ID answered, when the thread is unknown" },
+          references: { type: "array", required: false, description: "References chain, when the thread is unknown" },
+          subject: { type: "string", required: false, description: "Subject (defaults to Re: <thread subject>)" },
+          text: { type: "string", required: false, description: "Plain-text body" },
+          html: { type: "string", required: false, description: "HTML body" },
+          cc: { type: "string", required: false, description: "CC address(es)" },
+          attachments,
+        },
+        returns: "EmailSendResult",
+      },
+      {
+        name: "sendMessage",
+        description: "Reply in a thread with plain text (cross-platform alias of replyToEmail)",
+        params: {
+          chat_id: { type: "string", required: true, description: "Thread ID" },
+          text: { type: "string", required: true, description: "Plain-text body" },
+        },
+        returns: "EmailSendResult",
+      },
+      {
+        name: "getThread",
+        description: "Get the reply state of a thread (recipient, subject, references)",
+        params: {
+          threadId: { type: "string", required: true, description: "Thread ID" },
+        },
+        returns: "EmailThread",
+      },
+    ];
+  }
+
+  // ===========================================
+  // Provider Metadata
+  // ===========================================
+
+  protected getProviderMetadata(
+    _gatewayId: string,
+    credentials: EmailCredentials,
+  ): Record<string, unknown> {
+    return {
+      platform: "email",
+      address: credentials.fromAddress,
+      imapHost: credentials.imapHost,
+      smtpHost: credentials.smtpHost,
+      inbound: "imap_poll",
+      features: ["text", "html", "attachments", "threading"],
+    };
+  }
+}
+
+// ===========================================
+// Singleton Instance
+// ===========================================
+
+export const emailProvider = new EmailProvider();
@@ -32,5 +32,20 @@ export {
     WhatsAppApiError, WhatsAppBotProvider, whatsAppBotProvider
 } from "./whatsapp-bot.provider";
 
+// Web Chat provider
+export {
+    WebChatProvider, webChatProvider
+} from "./web-chat.provider";
+
+// Email provider
+export {
+    EmailProvider, emailProvider
+} from "./email.provider";
+
+// Matrix provider
+export {
+    MatrixApiError, MatrixProvider, matrixProvider
+} from "./matrix.provider";
+
 // Concrete providers will be exported here as they are implemented:
 // export { WebhookProvider } from "./webhook.provider";
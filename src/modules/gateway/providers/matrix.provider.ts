@@ -0,0 +1,449 @@
+/**
+ * Matrix Gateway Provider
+ *
+ * Implements the GatewayProvider interface for a Matrix bot account on any
+ * homeserver (client-server API, access-token auth). Inbound events arrive
+ * through the `/sync` loop run by the Matrix sync cron (see matrix.service);
+ * this provider sends, edits, redacts and reacts.
+ *
+ * Replies default to `m.notice`: Matrix convention for bot output, and the
+ * sync loop ignores notices, so two bots in one room don't answer each other.
+ *
+ * @module modules/gateway/providers/matrix.provider
+ */
+
+import type { GatewayType } from "@prisma/client";
+
+import type { GatewayAction } from "../gateway.registry";
+import type { MatrixConfig, MatrixCredentials } from "../gateway.types";
+import {
+    matrixRequest,
+    newTxnId,
+    roomPath,
+    whoami,
+} from "../matrix.service";
+import { BaseGatewayProvider } from "./base.provider";
+
+export { MatrixApiError } from "../matrix.service";
+
+// ===========================================
+// Types
+// ===========================================
+
+const TEXT_MSGTYPES = ["m.text", "m.notice", "m.emote"] as const;
+type MatrixTextMsgtype = (typeof TEXT_MSGTYPES)[number];
+
+export interface MatrixSendResult {
+  eventId: string;
+  roomId: string;
+}
+
+interface MatrixIdentity {
+  userId: string;
+  deviceId?: string;
+  displayName?: string;
+}
+
+// ===========================================
+// Provider Implementation
+// ===========================================
+
+export class MatrixProvider extends BaseGatewayProvider<MatrixCredentials, MatrixConfig> {
+  readonly type: GatewayType = "MATRIX";
+  readonly name = "Matrix";
+  readonly description = "Connect a Matrix bot account on any homeserver";
+
+  private identityCache = new Map<string, MatrixIdentity>();
+  private credentialsCache = new Map<string, MatrixCredentials>();
+
+  // ===========================================
+  // Connection Lifecycle
+  // ===========================================
+
+  protected async doConnect(
+    gatewayId: string,
+    credentials: MatrixCredentials,
+    _config?: MatrixConfig,
+  ): Promise<void> {
+    const identity = await this.fetchIdentity(credentials);
+
+    this.identityCache.set(gatewayId, identity);
+    this.credentialsCache.set(gatewayId, credentials);
+
+    this.log.info(
+      { gatewayId, userId: identity.userId, homeserver: credentials.homeserverUrl },
+      `Connected to Matrix as ${identity.userId}`,
+    );
+  }
+
+  protected async doDisconnect(gatewayId: string): Promise<void> {
+    this.identityCache.delete(gatewayId);
+    this.credentialsCache.delete(gatewayId);
+  }
+
+  // ===========================================
+  // Credential Validation
+  // ===========================================
+
+  protected async doValidateCredentials(
+    credentials: MatrixCredentials,
+  ): Promise<{ valid: boolean; error?: string }> {
+    if (!credentials.homeserverUrl || !/^https?:\/\//.test(credentials.homeserverUrl)) {
+      return { valid: false, error: "Homeserver URL must start with http:// or https://" };
+    }
+    if (!credentials.accessToken) {
+      return { valid: false, error: "Access token is required" };
+    }
+
+    // Live validation — ask the homeserver who the token belongs to
+    try {
+      await whoami(credentials);
+      return { valid: true };
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // ===========================================
+  // Action Execution
+  // ===========================================
+
+  protected async doExecute<TParams, TResult>(
+    gatewayId: string,
+    action: string,
+    params: TParams,
+  ): Promise<TResult> {
+    const credentials = this.credentialsCache.get(gatewayId);
+    if (!credentials) {
+      throw new Error(`No credentials for gateway ${gatewayId}`);
+    }
+
+    const p = (params ?? {}) as Record<string, unknown>;
+
+    switch (action) {
+      case "sendMessage":
+        return this.sendMessage(credentials, p) as TResult;
+
+      case "editMessage":
+        return this.editMessage(credentials, p) as TResult;
+
+      case "redactMessage":
+      case "deleteMessage":
+        return this.redactMessage(credentials, p) as TResult;
+
+      case "sendReaction":
+      case "react":
+        return this.sendReaction(credentials, p) as TResult;
+
+      case "joinRoom": {
+        const roomId = this.requireString(p.roomId ?? p.chat_id, "roomId");
+        const result = await matrixRequest<{ room_id: string }>(
+          credentials,
+          "POST",
+          `/join/${encodeURIComponent(roomId)}`,
+          { body: {} },
+        );
+        return { roomId: result.room_id } as TResult;
+      }
+
+      case "leaveRoom": {
+        const roomId = this.requireString(p.roomId ?? p.chat_id, "roomId");
+        await matrixRequest(credentials, "POST", roomPath(roomId, "leave"), { body: {} });
+        return { success: true } as TResult;
+      }
+
+      case "getJoinedRooms": {
+        const result = await matrixRequest<{ joined_rooms: string[] }>(credentials, "GET", "/joined_rooms");
+        return result.joined_rooms as TResult;
+      }
+
+      case "setTyping": {
+        const roomId = this.requireString(p.roomId ?? p.chat_id, "roomId");
+        const identity = await this.getIdentity(gatewayId, credentials);
+        const typing = p.typing !== false;
+        await matrixRequest(credentials, "PUT", roomPath(roomId, "typing", identity.userId), {
+          body: typing ? { typing, timeout: Number(p.timeout ?? 10_000) } : { typing },
+        });
+        return { success: true } as TResult;
+      }
+
+      case "getMe":
+        return this.getIdentity(gatewayId, credentials) as TResult;
+
+      default:
+        throw new Error(`Unsupported Matrix action: ${action}`);
+    }
+  }
+
+  // ===========================================
+  // Actions
+  // ===========================================
+
+  private async sendEvent(
+    credentials: MatrixCredentials,
+    roomId: string,
+    eventType: string,
+    content: Record<string, unknown>,
+  ): Promise<MatrixSendResult> {
+    const result = await matrixRequest<{ event_id: string }>(
+      credentials,
+      "PUT",
+      roomPath(roomId, "send", eventType, newTxnId()),
+      { body: content },
+    );
+    return { eventId: result.event_id, roomId };
+  }
+
+  /**
+   * Send text to a room. Accepts `chat_id` as well as `roomId` so workflow
+   * auto-replies (which pass the trigger's chat ID) work unchanged.
+   */
+  private async sendMessage(
+    credentials: MatrixCredentials,
+    params: Record<string, unknown>,
+  ): Promise<MatrixSendResult> {
+    const roomId = this.requireString(params.roomId ?? params.chat_id, "roomId");
+    const text = this.requireString(params.text, "text");
+    const msgtype = this.msgtypeOf(params.msgtype);
+
+    const content: Record<string, unknown> = { msgtype, body: text };
+    if (typeof params.html === "string" && params.html.length > 0) {
+      content.format = "org.matrix.custom.html";
+      content.formatted_body = params.html;
+    }
+    const replyTo = params.replyTo ?? params.reply_to_event_id;
+    if (typeof replyTo === "string" && replyTo.length > 0) {
+      content["m.relates_to"] = { "m.in_reply_to": { event_id: replyTo } };
+    }
+
+    return this.sendEvent(credentials, roomId, "m.room.message", content);
+  }
+
+  /** Replace an earlier message's text (clients show the latest edit) */
+  private async editMessage(
+    credentials: MatrixCredentials,
+    params: Record<string, unknown>,
+  ): Promise<MatrixSendResult> {
+    const roomId = this.requireString(params.roomId ?? params.chat_id, "roomId");
+    const eventId = this.requireString(params.eventId, "eventId");
+    const text = this.requireString(params.text, "text");
+    const msgtype = this.msgtypeOf(params.msgtype);
+
+    const newContent: Record<string, unknown> = { msgtype, body: text };
+    if (typeof params.html === "string" && params.html.length > 0) {
+      newContent.format = "org.matrix.custom.html";
+      newContent.formatted_body = params.html;
+    }
+
+    return this.sendEvent(credentials, roomId, "m.room.message", {
+      // Fallback for clients that don't render edits
+      msgtype,
+      body: `* ${text}`,
+      "m.new_content": newContent,
+      "m.relates_to": { rel_type: "m.replace", event_id: eventId },
+    });
+  }
+
+  private async redactMessage(
+    credentials: MatrixCredentials,
+    params: Record<string, unknown>,
+  ): Promise<MatrixSendResult> {
+    const roomId = this.requireString(params.roomId ?? params.chat_id, "roomId");
+    const eventId = this.requireString(params.eventId, "eventId");
+
+    const result = await matrixRequest<{ event_id: string }>(
+      credentials,
+      "PUT",
+      roomPath(roomId, "redact", eventId, newTxnId()),
+      { body: typeof params.reason === "string" ? { reason: params.reason } : {} },
+    );
+    return { eventId: result.event_id, roomId };
+  }
+
+  private async sendReaction(
+    credentials: MatrixCredentials,
+    params: Record<string, unknown>,
+  ): Promise<MatrixSendResult> {
+    const roomId = this.requireString(params.roomId ?? params.chat_id, "roomId");
+    const eventId = this.requireString(params.eventId, "eventId");
+    const key = this.requireString(params.key ?? params.emoji, "key");
+
+    return this.sendEvent(credentials, roomId, "m.reaction", {
+      "m.relates_to": { rel_type: "m.annotation", event_id: eventId, key },
+    });
+  }
+
+  private async fetchIdentity(credentials: MatrixCredentials): Promise<MatrixIdentity> {
+    const me = await whoami(credentials);
+    const identity: MatrixIdentity = { userId: me.user_id, deviceId: me.device_id };
+    try {
+      const profile = await matrixRequest<{ displayname?: string }>(
+        credentials,
+        "GET",
+        `/profile/${encodeURIComponent(me.user_id)}/displayname`,
+      );
+      identity.displayName = profile.displayname;
+    } catch {
+      // No display name set — the user ID is enough
+    }
+    return identity;
+  }
+
+  private async getIdentity(gatewayId: string, credentials: MatrixCredentials): Promise<MatrixIdentity> {
+    const cached = this.identityCache.get(gatewayId);
+    if (cached) return cached;
+    const identity = await this.fetchIdentity(credentials);
+    this.identityCache.set(gatewayId, identity);
+    return identity;
+  }
+
+  private msgtypeOf(value: unknown): MatrixTextMsgtype {
+    if (value === undefined) return "m.notice";
+    if (!TEXT_MSGTYPES.includes(value as MatrixTextMsgtype)) {
+      throw new Error(`Matrix msgtype must be one of ${TEXT_MSGTYPES.join(", ")}`);
+    }
+    return value as MatrixTextMsgtype;
+  }
+
+  private requireString(value: unknown, name: string): string {
+    if (typeof value !== "string" || value.length === 0) {
+      throw new Error(`Matrix ${name} is required`);
+    }
+    return value;
+  }
+
+  // ===========================================
+  // Health Check
+  // ===========================================
+
+  protected async doCheckHealth(
+    _gatewayId: string,
+    credentials: MatrixCredentials,
+  ): Promise<{ healthy: boolean; latency?: number; error?: string }> {
+    const start = Date.now();
+    try {
+      await whoami(credentials);
+      return { healthy: true, latency: Date.now() - start };
+    } catch (error) {
+      return { healthy: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // ===========================================
+  // Supported Actions
+  // ===========================================
+
+  getSupportedActions(): GatewayAction[] {
+    const roomId = { type: "string" as const, required: true, description: "Room ID (!abc:server)" };
+    const eventId = { type: "string" as const, required: true, description: "Target event ID" };
+    return [
+      {
+        name: "sendMessage",
+        description: "Send a text message to a room",
+        params: {
+          roomId,
+          text: { type: "string", required: true, description: "Plain-text body" },
+          html: { type: "string", required: false, description: "HTML body (org.matrix.custom.html)" },
+          msgtype: { type: "string", required: false, description: "m.notice (default), m.text or m.emote" },
+          replyTo: { type: "string", required: false, description: "Event ID to reply to" },
+        },
+        returns: "MatrixSendResult",
+      },
+      {
+        name: "editMessage",
+        description: "Edit a message the bot sent",
+        params: {
+          roomId,
+          eventId,
+          text: { type: "string", required: true, description: "New plain-text body" },
+          html: { type: "string", required: false, description: "New HTML body" },
+        },
+        returns: "MatrixSendResult",
+      },
+      {
+        name: "redactMessage",
+        description: "Redact (delete) a message",
+        params: {
+          roomId,
+          eventId,
+          reason: { type: "string", required: false, description: "Reason shown to room members" },
+        },
+        returns: "MatrixSendResult",
+      },
+      {
+        name: "sendReaction",
+        description: "React to a message",
+        params: {
+          roomId,
+          eventId,
+          key: { type: "string", required: true, description: "Reaction key, usually an emoji" },
+        },
+        returns: "MatrixSendResult",
+      },
+      {
+        name: "joinRoom",
+        description: "Join a room by ID or alias",
+        params: {
+          roomId: { type: "string", required: true, description: "Room ID or alias (#room:server)" },
+        },
+        returns: "{ roomId: string }",
+      },
+      {
+        name: "leaveRoom",
+        description: "Leave a room",
+        params: { roomId },
+        returns: "{ success: boolean }",
+      },
+      {
+        name: "getJoinedRooms",
+        description: "List the rooms the bot is in",
+        params: {},
+        returns: "string[]",
+      },
+      {
+        name: "setTyping",
+        description: "Show or clear the typing indicator",
+        params: {
+          roomId,
+          typing: { type: "boolean", required: false, description: "false clears it (default true)" },
+          timeout: { type: "number", required: false, description: "Milliseconds to show it (default 10000)" },
+        },
+        returns: "{ success: boolean }",
+      },
+      {
+        name: "getMe",
+        description: "Get the bot account's user ID and display name",
+        params: {},
+        returns: "MatrixIdentity",
+      },
+    ];
+  }
+
+  // ===========================================
+  // Provider Metadata
+  // ===========================================
+
+  protected getProviderMetadata(
+    gatewayId: string,
+    credentials: MatrixCredentials,
+  ): Record<string, unknown> {
+    const identity = this.identityCache.get(gatewayId);
+    return {
+      platform: "matrix",
+      homeserverUrl: credentials.homeserverUrl,
+      ...(identity && {
+        userId: identity.userId,
+        deviceId: identity.deviceId,
+        displayName: identity.displayName,
+      }),
+      inbound: "sync_loop",
+      features: ["text", "html", "replies", "edits", "redactions", "reactions"],
+    };
+  }
+}
+
+// ===========================================
+// Singleton Instance
+// ===========================================
+
+export const matrixProvider = new MatrixProvider();
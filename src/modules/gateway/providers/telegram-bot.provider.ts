@@ -23,6 +23,23 @@ import {
  */
 const TELEGRAM_API_BASE = "https://api.telegram.org";
 
+/**
+ * Update types subscribed to when the gateway doesn't configure its own —
+ * covers every event type plugins might need
+ */
+export const DEFAULT_ALLOWED_UPDATES = [
+  "message",
+  "edited_message",
+  "channel_post",
+  "edited_channel_post",
+  "callback_query",
+  "inline_query",
+  "chosen_inline_result",
+  "my_chat_member",
+  "chat_member",
+  "chat_join_request",
+];
+
 /**
  * Telegram API response wrapper
  */
@@ -95,6 +112,9 @@ interface _TelegramWebhookInfo {
  * - setWebhook: Configure webhook URL
  * - deleteWebhook: Remove webhook
  * - getWebhookInfo: Get current webhook status
+ *
+ * With `config.updateMode: "polling"` no webhook is set (an existing one is
+ * removed) and updates are fetched by the Telegram poll cron instead.
  */
 export class TelegramBotProvider extends BaseGatewayProvider<
   TelegramBotCredentials,
@@ -110,6 +130,9 @@ export class TelegramBotProvider extends BaseGatewayProvider<
   /** Store credentials per gateway (for execute calls) */
   private credentialsCache: Map<string, TelegramBotCredentials> = new Map();
 
+  /** Gateways in polling mode — their updates belong to the poller */
+  private pollingGateways: Set<string> = new Set();
+
   // ===========================================
   // Abstract Method Implementations
   // ===========================================
@@ -131,6 +154,23 @@ export class TelegramBotProvider extends BaseGatewayProvider<
       `Connected to Telegram bot @${botInfo.username}`
     );
 
+    if (config?.updateMode === "polling") {
+      // Telegram refuses getUpdates while a webhook is set
+      const currentWebhook = await this.callApi<{ url: string }>(
+        credentials.botToken,
+        "getWebhookInfo"
+      );
+      if (currentWebhook.url) {
+        await this.callApi(credentials.botToken, "deleteWebhook", {
+          drop_pending_updates: config.dropPendingUpdates,
+        });
+        this.log.info({ gatewayId }, "Webhook removed for polling mode");
+      }
+      this.pollingGateways.add(gatewayId);
+      return;
+    }
+    this.pollingGateways.delete(gatewayId);
+
     // Derive webhook URL: use explicit config, or auto-generate from the
     // PRODUCTION API URL (must be consistent regardless of which server
     // instance reconnects the gateway, so we never use NEXT_PUBLIC_API_URL
@@ -148,19 +188,7 @@ export class TelegramBotProvider extends BaseGatewayProvider<
     );
 
     if (currentWebhook.url !== desiredWebhookUrl) {
-      // Default allowed updates covering all event types plugins might need
-      const allowedUpdates = config?.allowedUpdates ?? [
-        "message",
-        "edited_message",
-        "channel_post",
-        "edited_channel_post",
-        "callback_query",
-        "inline_query",
-        "chosen_inline_result",
-        "my_chat_member",
-        "chat_member",
-        "chat_join_request",
-      ];
+      const allowedUpdates = config?.allowedUpdates ?? DEFAULT_ALLOWED_UPDATES;
 
       // Generate a webhook secret token for authentication
       // This is sent by Telegram in the X-Telegram-Bot-Api-Secret-Token header
@@ -204,6 +232,7 @@ export class TelegramBotProvider extends BaseGatewayProvider<
     // Clear cached bot info and credentials
     this.botInfoCache.delete(gatewayId);
     this.credentialsCache.delete(gatewayId);
+    this.pollingGateways.delete(gatewayId);
 
     this.log.info({ gatewayId }, "Telegram bot disconnected");
   }
@@ -253,6 +282,9 @@ export class TelegramBotProvider extends BaseGatewayProvider<
         return this.executeSendMessage(botToken, params as Record<string, unknown>) as TResult;
 
       case "setWebhook":
+        if (this.pollingGateways.has(gatewayId)) {
+          throw new Error("Gateway is in polling mode — switch updateMode to \"webhook\" instead of setting a webhook");
+        }
         return this.executeSetWebhook(botToken, params as SetWebhookParams) as TResult;
 
       case "deleteWebhook":
@@ -261,6 +293,13 @@ export class TelegramBotProvider extends BaseGatewayProvider<
       case "getWebhookInfo":
         return this.callApi<TResult>(botToken, "getWebhookInfo");
 
+      case "getUpdates":
+        if (this.pollingGateways.has(gatewayId)) {
+          // Fetching here would confirm the updates and hide them from the poller
+          throw new Error("getUpdates is unavailable in polling mode — the gateway's poller receives updates");
+        }
+        return this.callApi<TResult>(botToken, "getUpdates", params as Record<string, unknown>);
+
       // ── Bot Profile Management ──────────────────────────
       case "getMyName":
         return this.callApi<TResult>(botToken, "getMyName");
@@ -609,7 +648,7 @@ export class TelegramBotProvider extends BaseGatewayProvider<
       },
       {
         name: "getUpdates",
-        description: "Get incoming updates via long polling",
+        description: "Get incoming updates via long polling (not on polling-mode gateways — their poller receives updates)",
         params: {
           offset: { type: "number", required: false, description: "First update ID to return" },
           limit: { type: "number", required: false, description: "Max updates (1-100)" },
@@ -0,0 +1,195 @@
+/**
+ * Web Chat Gateway Provider
+ *
+ * Implements the GatewayProvider interface for the first-party website chat
+ * widget. There is no third-party API behind it: visitors talk to our own
+ * public web chat endpoints, and outbound messages are pushed to the
+ * visitor's session channel (see web-chat.service).
+ *
+ * A session ID plays the role of a chat ID, so `sendMessage({ chat_id, text })`
+ * from workflow auto-replies works the same as on the other platforms.
+ *
+ * @module modules/gateway/providers/web-chat.provider
+ */
+
+import type { GatewayType } from "@prisma/client";
+
+import { isRedisReady } from "@/lib/redis";
+
+import type { GatewayAction } from "../gateway.registry";
+import type { WebChatConfig, WebChatCredentials } from "../gateway.types";
+import {
+    emitWebChatTyping,
+    getWebChatHistory,
+    MAX_WEB_CHAT_MESSAGE_LENGTH,
+    postWebChatMessage,
+    type WebChatMessage,
+} from "../web-chat.service";
+import { BaseGatewayProvider } from "./base.provider";
+
+// ===========================================
+// Provider Implementation
+// ===========================================
+
+export class WebChatProvider extends BaseGatewayProvider<WebChatCredentials, WebChatConfig> {
+  readonly type: GatewayType = "WEB_CHAT";
+  readonly name = "Web Chat";
+  readonly description = "Embed your bot as a chat bubble on your website";
+
+  // ===========================================
+  // Connection Lifecycle
+  // ===========================================
+
+  protected async doConnect(
+    gatewayId: string,
+    credentials: WebChatCredentials,
+    _config?: WebChatConfig,
+  ): Promise<void> {
+    // Nothing to dial — sessions are served by our own web chat endpoints
+    if (!credentials.sessionSecret) {
+      throw new Error("Web chat gateway has no session secret");
+    }
+    this.log.info({ gatewayId }, "Web chat gateway ready");
+  }
+
+  protected async doDisconnect(_gatewayId: string): Promise<void> {
+    // No connection state beyond the base class's
+  }
+
+  // ===========================================
+  // Credential Validation
+  // ===========================================
+
+  protected async doValidateCredentials(
+    credentials: WebChatCredentials,
+  ): Promise<{ valid: boolean; error?: string }> {
+    if (!credentials.sessionSecret || credentials.sessionSecret.length < 32) {
+      return { valid: false, error: "Session secret must be at least 32 characters" };
+    }
+    return { valid: true };
+  }
+
+  // ===========================================
+  // Action Execution
+  // ===========================================
+
+  protected async doExecute<TParams, TResult>(
+    _gatewayId: string,
+    action: string,
+    params: TParams,
+  ): Promise<TResult> {
+    const p = (params ?? {}) as Record<string, unknown>;
+
+    switch (action) {
+      case "sendMessage":
+        return this.sendMessage(p) as TResult;
+
+      case "sendTyping":
+        emitWebChatTyping(this.requireSessionId(p));
+        return { ok: true } as TResult;
+
+      case "getHistory":
+        return getWebChatHistory(this.requireSessionId(p)) as TResult;
+
+      default:
+        throw new Error(`Unsupported web chat action: ${action}`);
+    }
+  }
+
+  // ===========================================
+  // Actions
+  // ===========================================
+
+  private async sendMessage(params: Record<string, unknown>): Promise<WebChatMessage> {
+    const sessionId = this.requireSessionId(params);
+    const { text } = params as { text?: unknown };
+    if (typeof text !== "string" || text.trim().length === 0) {
+      throw new Error("Web chat message text is required");
+    }
+    return postWebChatMessage(sessionId, "bot", text);
+  }
+
+  /** Session ID from `chat_id` (cross-platform callers) or `sessionId`. */
+  private requireSessionId(params: Record<string, unknown>): string {
+    const sessionId = params.chat_id ?? params.sessionId;
+    if (typeof sessionId !== "string" || sessionId.length === 0) {
+      throw new Error("Web chat session ID (chat_id) is required");
+    }
+    return sessionId;
+  }
+
+  // ===========================================
+  // Health Check
+  // ===========================================
+
+  protected async doCheckHealth(
+    _gatewayId: string,
+    _credentials: WebChatCredentials,
+  ): Promise<{ healthy: boolean; latency?: number; error?: string }> {
+    // Redis carries replies between processes and holds the history
+    const start = Date.now();
+    const ready = await isRedisReady();
+    return ready
+      ? { healthy: true, latency: Date.now() - start }
+      : { healthy: false, error: "Redis unavailable — replies only reach widgets on this server" };
+  }
+
+  // ===========================================
+  // Supported Actions
+  // ===========================================
+
+  getSupportedActions(): GatewayAction[] {
+    return [
+      {
+        name: "sendMessage",
+        description: "Send a text message to a visitor's chat session",
+        params: {
+          chat_id: { type: "string", required: true, description: "Web chat session ID" },
+          text: {
+            type: "string",
+            required: true,
+            description: `Message text (max ${MAX_WEB_CHAT_MESSAGE_LENGTH} characters)`,
+          },
+        },
+        returns: "WebChatMessage",
+      },
+      {
+        name: "sendTyping",
+        description: "Show the typing indicator in the visitor's widget",
+        params: {
+          chat_id: { type: "string", required: true, description: "Web chat session ID" },
+        },
+      },
+      {
+        name: "getHistory",
+        description: "Get the recent messages of a chat session",
+        params: {
+          chat_id: { type: "string", required: true, description: "Web chat session ID" },
+        },
+        returns: "WebChatMessage[]",
+      },
+    ];
+  }
+
+  // ===========================================
+  // Provider Metadata
+  // ===========================================
+
+  protected getProviderMetadata(
+    _gatewayId: string,
+    _credentials: WebChatCredentials,
+  ): Record<string, unknown> {
+    return {
+      platform: "webchat",
+      transport: "sse",
+      features: ["text", "typing", "history"],
+      sessionAuth: "hmac_sha256",
+    };
+  }
+}
+
+// ===========================================
+// Singleton Instance
+// ===========================================
+
+export const webChatProvider = new WebChatProvider();
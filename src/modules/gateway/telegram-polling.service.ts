@@ -0,0 +1,246 @@
+/**
+ * Telegram Polling Service
+ *
+ * Long-polling mode for TELEGRAM_BOT gateways (`config.updateMode: "polling"`)
+ * — for bots that can't take webhooks: self-hosted or local setups behind
+ * NAT, or networks whose firewall blocks Telegram's webhook IPs.
+ *
+ * One `getUpdates` loop per gateway, held under a Redis lease so exactly one
+ * replica polls each bot (Telegram answers a second concurrent poller with
+ * 409 Conflict). The next offset is kept in Redis and advanced after each
+ * update is dispatched, so a loop that moves to another replica continues
+ * from the last dispatched update.
+ *
+ * @module modules/gateway/telegram-polling.service
+ */
+
+import { logger } from "@/lib/logger";
+import { redis } from "@/lib/redis";
+import { acquireLock, extendLock, releaseLock } from "@/lib/redis-lock";
+
+import type { TelegramBotConfig, TelegramBotCredentials } from "./gateway.types";
+import { DEFAULT_ALLOWED_UPDATES, TelegramApiError } from "./providers/telegram-bot.provider";
+
+const pollLogger = logger.child({ module: "telegram-polling" });
+
+const K_OFFSET = (gatewayId: string) => `tg:offset:${gatewayId}`;
+const LEASE_KEY = (gatewayId: string) => `tg-poll:${gatewayId}`;
+
+const TELEGRAM_API_BASE = "https://api.telegram.org";
+/** How long Telegram may hold a getUpdates call open */
+export const POLL_TIMEOUT_SECONDS = 30;
+const REQUEST_SLACK_MS = 15_000;
+/** Lease outlives one long-poll plus slack; renewed every iteration */
+const LEASE_TTL_SECONDS = 90;
+const MIN_BACKOFF_MS = 2_000;
+const MAX_BACKOFF_MS = 60_000;
+
+// ===========================================
+// Types
+// ===========================================
+
+/** One entry of a getUpdates result; shaped like a webhook payload */
+export interface TelegramPolledUpdate {
+  update_id: number;
+  [key: string]: unknown;
+}
+
+export interface TelegramPollHandlers {
+  onUpdate(update: TelegramPolledUpdate): Promise<unknown>;
+  /** A poll failed; `fatal` means the loop stopped (e.g. revoked token) */
+  onError?(error: Error, fatal: boolean): Promise<void> | void;
+  /** A poll succeeded after errors (or for the first time) */
+  onHealthy?(): Promise<void> | void;
+}
+
+export function isPollingMode(config: TelegramBotConfig | null | undefined): boolean {
+  return config?.updateMode === "polling";
+}
+
+// ===========================================
+// Requests
+// ===========================================
+
+async function telegramRequest<T>(
+  botToken: string,
+  method: string,
+  params: Record<string, unknown>,
+  options: { timeoutMs: number; signal?: AbortSignal },
+): Promise<T> {
+  const timeout = AbortSignal.timeout(options.timeoutMs);
+  const response = await fetch(`${TELEGRAM_API_BASE}/bot${botToken}/${method}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(params),
+    signal: options.signal ? AbortSignal.any([options.signal, timeout]) : timeout,
+  });
+
+  const data = (await response.json().catch(() => ({}))) as {
+    ok?: boolean;
+    result?: T;
+    description?: string;
+    error_code?: number;
+  };
+  if (!data.ok) {
+    throw new TelegramApiError(data.description || `HTTP ${response.status}`, data.error_code || response.status, method);
+  }
+  return data.result as T;
+}
+
+/** Remove a webhook left from webhook mode — Telegram refuses getUpdates while one is set */
+async function clearWebhook(
+  gatewayId: string,
+  credentials: TelegramBotCredentials,
+  config: TelegramBotConfig,
+  signal: AbortSignal,
+): Promise<void> {
+  const options = { timeoutMs: REQUEST_SLACK_MS, signal };
+  const info = await telegramRequest<{ url: string }>(credentials.botToken, "getWebhookInfo", {}, options);
+  if (!info.url) return;
+
+  await telegramRequest(credentials.botToken, "deleteWebhook", {
+    drop_pending_updates: config.dropPendingUpdates ?? false,
+  }, options);
+  pollLogger.info({ gatewayId }, "Webhook removed for polling mode");
+}
+
+// ===========================================
+// Poll loops
+// ===========================================
+
+interface RunningPoller {
+  abort: AbortController;
+  done: Promise<void>;
+}
+
+/** Loops running in this process, by gateway ID */
+const running = new Map<string, RunningPoller>();
+
+export function isTelegramPollerRunning(gatewayId: string): boolean {
+  return running.has(gatewayId);
+}
+
+export function runningTelegramPollers(): string[] {
+  return [...running.keys()];
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Start the getUpdates loop for a gateway in this process.
+ *
+ * Returns false when another replica holds the gateway's poll lease (or
+ * the loop already runs here). The loop runs until `stopTelegramPoller`,
+ * until the lease is lost, or until Telegram rejects the bot token.
+ */
+export async function startTelegramPoller(
+  gatewayId: string,
+  credentials: TelegramBotCredentials,
+  config: TelegramBotConfig,
+  handlers: TelegramPollHandlers,
+): Promise<boolean> {
+  if (running.has(gatewayId)) return false;
+  const leaseToken = await acquireLock(LEASE_KEY(gatewayId), LEASE_TTL_SECONDS);
+  if (!leaseToken) return false;
+
+  const abort = new AbortController();
+  const done = runPollLoop(gatewayId, credentials, config, handlers, leaseToken, abort.signal)
+    .catch((err) => {
+      pollLogger.error({ gatewayId, err }, "Telegram poll loop crashed");
+    })
+    .finally(() => {
+      running.delete(gatewayId);
+      void releaseLock(LEASE_KEY(gatewayId), leaseToken);
+    });
+  running.set(gatewayId, { abort, done });
+  return true;
+}
+
+/** Stop a gateway's loop in this process and wait for it to wind down */
+export async function stopTelegramPoller(gatewayId: string): Promise<void> {
+  const poller = running.get(gatewayId);
+  if (!poller) return;
+  poller.abort.abort();
+  await poller.done;
+}
+
+async function runPollLoop(
+  gatewayId: string,
+  credentials: TelegramBotCredentials,
+  config: TelegramBotConfig,
+  handlers: TelegramPollHandlers,
+  leaseToken: string,
+  signal: AbortSignal,
+): Promise<void> {
+  let webhookCleared = false;
+  let backoffMs = MIN_BACKOFF_MS;
+  let healthy = false;
+
+  pollLogger.info({ gatewayId }, "Telegram polling started");
+
+  while (!signal.aborted) {
+    if (!(await extendLock(LEASE_KEY(gatewayId), leaseToken, LEASE_TTL_SECONDS))) {
+      pollLogger.warn({ gatewayId }, "Telegram poll lease lost — stopping here");
+      break;
+    }
+
+    try {
+      if (!webhookCleared) {
+        await clearWebhook(gatewayId, credentials, config, signal);
+        webhookCleared = true;
+      }
+
+      const saved = await redis.get(K_OFFSET(gatewayId));
+      const updates = await telegramRequest<TelegramPolledUpdate[]>(
+        credentials.botToken,
+        "getUpdates",
+        {
+          ...(saved && { offset: Number(saved) }),
+          timeout: POLL_TIMEOUT_SECONDS,
+          allowed_updates: config.allowedUpdates ?? DEFAULT_ALLOWED_UPDATES,
+        },
+        { timeoutMs: POLL_TIMEOUT_SECONDS * 1000 + REQUEST_SLACK_MS, signal },
+      );
+
+      for (const update of updates) {
+        try {
+          await handlers.onUpdate(update);
+        } catch (err) {
+          pollLogger.error({ gatewayId, updateId: update.update_id, err }, "Telegram update dispatch failed");
+        }
+        // Advance past each update once handed off — a crash replays at
+        // most the rest of this batch, and dispatch drops repeats by update_id
+        await redis.set(K_OFFSET(gatewayId), String(update.update_id + 1));
+      }
+
+      backoffMs = MIN_BACKOFF_MS;
+      if (!healthy) {
+        healthy = true;
+        await handlers.onHealthy?.();
+      }
+    } catch (error) {
+      if (signal.aborted) break;
+      const err = error instanceof Error ? error : new Error(String(error));
+      // 401: token revoked; 404: token never valid
+      const fatal = err instanceof TelegramApiError && (err.errorCode === 401 || err.errorCode === 404);
+      // 409: a webhook was set again, or another poller uses the token
+      if (err instanceof TelegramApiError && err.errorCode === 409) webhookCleared = false;
+      healthy = false;
+      pollLogger.warn({ gatewayId, error: err.message, fatal }, "Telegram poll failed");
+      await handlers.onError?.(err, fatal);
+      if (fatal) break;
+      await sleep(backoffMs, signal);
+      backoffMs = Math.min(backoffMs * 2, MAX_BACKOFF_MS);
+    }
+  }
+
+  pollLogger.info({ gatewayId }, "Telegram polling stopped");
+}
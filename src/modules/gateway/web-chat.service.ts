@@ -0,0 +1,358 @@
+/**
+ * Web Chat Service
+ *
+ * Backing for the first-party WEB_CHAT gateway — the chat bubble customers
+ * embed on their own sites:
+ *   - visitor sessions: anonymous visitors get a short-lived token signed
+ *     with the gateway's `sessionSecret` (stateless, nothing stored per visit)
+ *   - message channel: bot replies and visitor messages are pushed to every
+ *     open stream of a session — in-process emitter plus a Redis channel, so
+ *     replies sent from the workflow worker reach the API process holding
+ *     the visitor's SSE connection
+ *   - history: the last messages of each session, replayed when the widget
+ *     reconnects or the page reloads
+ *
+ * @module modules/gateway/web-chat.service
+ */
+
+import crypto from "node:crypto";
+import { EventEmitter } from "node:events";
+
+import type { GatewayStatus } from "@prisma/client";
+
+import { decryptJson } from "@/lib/encryption";
+import { logger } from "@/lib/logger";
+import { prisma } from "@/lib/prisma";
+import { redis, type RedisLikeClient } from "@/lib/redis";
+
+import type { WebChatConfig, WebChatCredentials } from "./gateway.types";
+
+const webChatLogger = logger.child({ module: "web-chat" });
+
+/** Identifies this process's own events on the shared channel */
+const ORIGIN_ID = crypto.randomBytes(6).toString("hex");
+
+const CHAN_SESSION = (sessionId: string) => `webchat:session:${sessionId}`;
+const K_HISTORY = (sessionId: string) => `webchat:history:${sessionId}`;
+
+export const DEFAULT_SESSION_TTL_HOURS = 24;
+export const MAX_SESSION_TTL_HOURS = 24 * 30;
+export const MAX_WEB_CHAT_MESSAGE_LENGTH = 4_000;
+
+/** Messages kept per session for replay */
+const HISTORY_LIMIT = 50;
+/** History outlives a quiet session by this much */
+const HISTORY_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** Client-supplied visitor IDs must look like ones we issued */
+const VISITOR_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface WebChatSession {
+  gatewayId: string;
+  sessionId: string;
+  visitorId: string;
+  /** Expiry, epoch seconds */
+  exp: number;
+}
+
+export interface WebChatMessage {
+  id: string;
+  sessionId: string;
+  from: "visitor" | "bot";
+  text: string;
+  /** ISO timestamp */
+  at: string;
+}
+
+export type WebChatStreamEvent =
+  | { type: "message"; message: WebChatMessage }
+  | { type: "typing" };
+
+type WebChatListener = (event: WebChatStreamEvent) => void;
+
+/** A WEB_CHAT gateway as the public widget endpoints need it */
+export interface WebChatGateway {
+  id: string;
+  userId: string;
+  organizationId: string | null;
+  /** Widgets only work while this is CONNECTED */
+  status: GatewayStatus;
+  sessionSecret: string;
+  config: WebChatConfig;
+}
+
+// ===========================================
+// Gateway lookup & config
+// ===========================================
+
+export function generateSessionSecret(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+/**
+ * Load a WEB_CHAT gateway with its decrypted session secret.
+ * Returns null for unknown or non-web-chat gateways.
+ */
+export async function loadWebChatGateway(gatewayId: string): Promise<WebChatGateway | null> {
+  const gateway = await prisma.gateway.findUnique({
+    where: { id: gatewayId },
+    select: {
+      id: true,
+      type: true,
+      credentialsEnc: true,
+      config: true,
+      userId: true,
+      organizationId: true,
+      status: true,
+    },
+  });
+  if (!gateway || gateway.type !== "WEB_CHAT") return null;
+
+  const { sessionSecret } = decryptJson<WebChatCredentials>(gateway.credentialsEnc);
+  return {
+    id: gateway.id,
+    userId: gateway.userId,
+    organizationId: gateway.organizationId,
+    status: gateway.status,
+    sessionSecret,
+    config: (gateway.config ?? {}) as WebChatConfig,
+  };
+}
+
+function normalizeOrigin(origin: string): string {
+  return origin.trim().replace(/\/+$/, "").toLowerCase();
+}
+
+/**
+ * Whether a page on `origin` may use the widget. No configured origins means
+ * any site may embed it; requests without an Origin header (server-side
+ * callers) are always let through — the session token is the real guard.
+ */
+export function isOriginAllowed(config: WebChatConfig, origin: string | undefined): boolean {
+  const allowed = config.allowedOrigins ?? [];
+  if (allowed.length === 0 || !origin) return true;
+  const normalized = normalizeOrigin(origin);
+  return allowed.some((entry) => normalizeOrigin(entry) === normalized);
+}
+
+/** Session lifetime from config, clamped to 1h..MAX_SESSION_TTL_HOURS. */
+export function sessionTtlHours(config: WebChatConfig): number {
+  const hours = config.sessionTtlHours ?? DEFAULT_SESSION_TTL_HOURS;
+  if (!Number.isFinite(hours)) return DEFAULT_SESSION_TTL_HOURS;
+  return Math.min(MAX_SESSION_TTL_HOURS, Math.max(1, Math.round(hours)));
+}
+
+// ===========================================
+// Session tokens
+// ===========================================
+
+function sign(secret: string, payload: string): string {
+  return crypto.createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * Issue a session token. Pass `sessionId` to extend an existing session,
+ * and `visitorId` to keep a returning browser's identity.
+ */
+export function issueSessionToken(
+  secret: string,
+  gatewayId: string,
+  options: { ttlHours: number; sessionId?: string; visitorId?: string; now?: number },
+): { token: string; session: WebChatSession } {
+  const now = options.now ?? Date.now();
+  const session: WebChatSession = {
+    gatewayId,
+    sessionId: options.sessionId ?? `wcs_${crypto.randomBytes(12).toString("base64url")}`,
+    visitorId:
+      options.visitorId && VISITOR_ID_PATTERN.test(options.visitorId)
+        ? options.visitorId
+        : `wcv_${crypto.randomBytes(12).toString("base64url")}`,
+    exp: Math.floor(now / 1000) + options.ttlHours * 60 * 60,
+  };
+  const payload = Buffer.from(JSON.stringify(session)).toString("base64url");
+  return { token: `${payload}.${sign(secret, payload)}`, session };
+}
+
+/**
+ * Verify a session token for this gateway.
+ *
+ * @returns The session, or null when the token is malformed, forged, issued
+ *          for another gateway or expired
+ */
+export function verifySessionToken(
+  secret: string,
+  gatewayId: string,
+  token: string,
+  now = Date.now(),
+): WebChatSession | null {
+  const [payload, signature, extra] = token.split(".");
+  if (!payload || !signature || extra !== undefined) return null;
+
+  const expected = Buffer.from(sign(secret, payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as WebChatSession;
+    if (session.gatewayId !== gatewayId) return null;
+    if (typeof session.exp !== "number" || session.exp * 1000 <= now) return null;
+    if (typeof session.sessionId !== "string" || typeof session.visitorId !== "string") return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+// ===========================================
+// Publishing
+// ===========================================
+
+const localEvents = new EventEmitter();
+// One listener per open widget stream; the default cap of 10 is too low
+localEvents.setMaxListeners(0);
+
+function emitWebChatEvent(sessionId: string, event: WebChatStreamEvent): void {
+  localEvents.emit(sessionId, event);
+  redis
+    .publish(CHAN_SESSION(sessionId), JSON.stringify({ origin: ORIGIN_ID, sessionId, event }))
+    .catch((err: unknown) => {
+      webChatLogger.debug(
+        { sessionId, error: err instanceof Error ? err.message : String(err) },
+        "Could not publish web chat event",
+      );
+    });
+}
+
+/**
+ * Add a message to a session: stored in the replay history, then pushed to
+ * every open stream of the session.
+ */
+export async function postWebChatMessage(
+  sessionId: string,
+  from: WebChatMessage["from"],
+  text: string,
+): Promise<WebChatMessage> {
+  const message: WebChatMessage = {
+    id: `wcm_${crypto.randomBytes(9).toString("base64url")}`,
+    sessionId,
+    from,
+    text: text.slice(0, MAX_WEB_CHAT_MESSAGE_LENGTH),
+    at: new Date().toISOString(),
+  };
+
+  try {
+    const key = K_HISTORY(sessionId);
+    await redis
+      .multi()
+      .rpush(key, JSON.stringify(message))
+      .ltrim(key, -HISTORY_LIMIT, -1)
+      .expire(key, HISTORY_TTL_SECONDS)
+      .exec();
+  } catch (err) {
+    // Live delivery still works; only replay loses the message
+    webChatLogger.warn({ err, sessionId }, "Failed to store web chat message");
+  }
+
+  emitWebChatEvent(sessionId, { type: "message", message });
+  return message;
+}
+
+/** Show the typing indicator in a session's open widgets. Fire-and-forget. */
+export function emitWebChatTyping(sessionId: string): void {
+  emitWebChatEvent(sessionId, { type: "typing" });
+}
+
+/** The session's recent messages, oldest first. */
+export async function getWebChatHistory(sessionId: string): Promise<WebChatMessage[]> {
+  try {
+    const items = await redis.lrange(K_HISTORY(sessionId), 0, -1);
+    const messages: WebChatMessage[] = [];
+    for (const item of items) {
+      try {
+        messages.push(JSON.parse(item) as WebChatMessage);
+      } catch {
+        // skip malformed entries
+      }
+    }
+    return messages;
+  } catch (err) {
+    webChatLogger.warn({ err, sessionId }, "Failed to load web chat history");
+    return [];
+  }
+}
+
+// ===========================================
+// Subscribing
+// ===========================================
+
+let subscriberClient: RedisLikeClient | null = null;
+/** Open local subscriptions per session — the Redis channel is held while > 0 */
+const channelRefs = new Map<string, number>();
+
+function getSubscriber(): RedisLikeClient | null {
+  if (subscriberClient) return subscriberClient;
+  try {
+    // Separate connection — a subscribed ioredis client can't issue other commands
+    subscriberClient = redis.duplicate();
+    subscriberClient.on("error", (err) => {
+      webChatLogger.warn({ err }, "Web chat subscriber error");
+    });
+    subscriberClient.on("message", (_channel: string, raw: string) => {
+      try {
+        const { origin, sessionId, event } = JSON.parse(raw) as {
+          origin: string;
+          sessionId: string;
+          event: WebChatStreamEvent;
+        };
+        if (origin !== ORIGIN_ID) localEvents.emit(sessionId, event);
+      } catch (err) {
+        webChatLogger.warn({ err }, "Malformed web chat event");
+      }
+    });
+  } catch (err) {
+    webChatLogger.warn({ err }, "Failed to start web chat subscriber — delivering same-process replies only");
+    subscriberClient = null;
+  }
+  return subscriberClient;
+}
+
+/**
+ * Receive a session's messages and typing events, from any process.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeWebChat(sessionId: string, listener: WebChatListener): () => void {
+  localEvents.on(sessionId, listener);
+
+  const channel = CHAN_SESSION(sessionId);
+  const refs = channelRefs.get(channel) ?? 0;
+  channelRefs.set(channel, refs + 1);
+  if (refs === 0) {
+    getSubscriber()?.subscribe(channel).catch((err: unknown) => {
+      webChatLogger.warn({ err, sessionId }, "Failed to subscribe to web chat session");
+    });
+  }
+
+  let active = true;
+  return () => {
+    if (!active) return;
+    active = false;
+    localEvents.off(sessionId, listener);
+
+    const remaining = (channelRefs.get(channel) ?? 1) - 1;
+    if (remaining > 0) {
+      channelRefs.set(channel, remaining);
+      return;
+    }
+    channelRefs.delete(channel);
+    subscriberClient?.unsubscribe(channel).catch(() => {
+      // best-effort
+    });
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * Web Chat Widget
+ *
+ * The drop-in script served at `GET /web-chat/widget.js`. Customers embed it
+ * with a single tag:
+ *
+ *   <script src="https://api.2bot.org/web-chat/widget.js"
+ *           data-gateway-id="<gateway id>" async></script>
+ *
+ * Dependency-free vanilla JS, rendered in a shadow root so the host
+ * page's CSS can't leak in. The API base is derived from the script's own
+ * URL; the session token and visitor ID are kept in localStorage so a
+ * returning visitor resumes the same conversation.
+ *
+ * @module modules/gateway/web-chat.widget
+ */
+
+export const WEB_CHAT_WIDGET_JS = String.raw`(function () {
+  "use strict";
+  var script = document.currentScript || document.querySelector("script[data-gateway-id]");
+  if (!script) return;
+  var gatewayId = script.getAttribute("data-gateway-id");
+  if (!gatewayId) return;
+  var loaded = (window.__twoBotWebChat = window.__twoBotWebChat || {});
+  if (loaded[gatewayId]) return;
+  loaded[gatewayId] = true;
+
+  var base = script.src.replace(/\/widget\.js(\?.*)?$/, "") + "/" + encodeURIComponent(gatewayId);
+  var storageKey = "2bot-webchat:" + gatewayId;
+  var state = readState();
+  var seen = {};
+  var source = null;
+  var starting = null;
+  var retryMs = 1000;
+  var typingTimer = null;
+
+  function readState() {
+    try { return JSON.parse(window.localStorage.getItem(storageKey) || "{}"); } catch (e) { return {}; }
+  }
+  function writeState() {
+    try { window.localStorage.setItem(storageKey, JSON.stringify(state)); } catch (e) { /* private mode */ }
+  }
+
+  function post(path, body, token) {
+    var headers = { "Content-Type": "application/json" };
+    if (token) headers.Authorization = "Bearer " + token;
+    return fetch(base + path, { method: "POST", headers: headers, body: JSON.stringify(body) })
+      .then(function (res) {
+        return res.json().catch(function () { return {}; }).then(function (json) {
+          if (!res.ok) {
+            var err = new Error((json.error && json.error.message) || "HTTP " + res.status);
+            err.status = res.status;
+            throw err;
+          }
+          return json.data;
+        });
+      });
+  }
+
+  var STYLE =
+    ":host{all:initial}" +
+    "*{box-sizing:border-box;font-family:system-ui,-apple-system,Segoe UI,Roboto,sans-serif}" +
+    ".bubble{position:fixed;right:20px;bottom:20px;width:56px;height:56px;border-radius:50%;border:0;cursor:pointer;" +
+    "background:var(--wc-color);color:#fff;box-shadow:0 4px 14px rgba(0,0,0,.25);display:flex;align-items:center;justify-content:center;z-index:2147483000}" +
+    ".panel{position:fixed;right:20px;bottom:88px;width:360px;max-width:calc(100vw - 40px);height:520px;max-height:calc(100vh - 120px);" +
+    "background:#fff;color:#111;border-radius:12px;box-shadow:0 8px 30px rgba(0,0,0,.25);display:flex;flex-direction:column;overflow:hidden;z-index:2147483000}" +
+    ".panel[hidden]{display:none}" +
+    ".header{background:var(--wc-color);color:#fff;padding:12px 14px;display:flex;align-items:center;justify-content:space-between;font-size:15px;font-weight:600}" +
+    ".close{background:none;border:0;color:#fff;font-size:20px;line-height:1;cursor:pointer}" +
+    ".messages{flex:1;overflow-y:auto;padding:12px;display:flex;flex-direction:column;gap:8px;background:#f7f7f8}" +
+    ".msg{max-width:80%;padding:8px 12px;border-radius:12px;font-size:14px;line-height:1.4;white-space:pre-wrap;word-wrap:break-word}" +
+    ".msg.bot{align-self:flex-start;background:#fff;border:1px solid #e5e5e5}" +
+    ".msg.visitor{align-self:flex-end;background:var(--wc-color);color:#fff}" +
+    ".msg.system{align-self:center;background:none;color:#888;font-size:12px}" +
+    ".typing{padding:0 14px 6px;font-size:12px;color:#888;background:#f7f7f8}" +
+    ".typing[hidden]{display:none}" +
+    ".composer{display:flex;gap:8px;padding:10px;border-top:1px solid #e5e5e5}" +
+    ".composer input{flex:1;border:1px solid #d4d4d4;border-radius:8px;padding:8px 10px;font-size:14px;outline:none}" +
+    ".composer button{border:0;border-radius:8px;padding:8px 14px;background:var(--wc-color);color:#fff;font-size:14px;cursor:pointer}";
+
+  var MARKUP =
+    '<button class="bubble" type="button" aria-label="Open chat">' +
+    '<svg width="26" height="26" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">' +
+    '<path d="M4 4h16a2 2 0 0 1 2 2v10a2 2 0 0 1-2 2H8l-4 4V6a2 2 0 0 1 2-2z"/></svg></button>' +
+    '<div class="panel" role="dialog" hidden>' +
+    '<div class="header"><span class="title"></span><button class="close" type="button" aria-label="Close chat">&times;</button></div>' +
+    '<div class="messages" role="log" aria-live="polite"></div>' +
+    '<div class="typing" hidden>Typing…</div>' +
+    '<form class="composer"><input type="text" maxlength="4000" placeholder="Type a message…" aria-label="Message" />' +
+    '<button type="submit">Send</button></form>' +
+    "</div>";
+
+  var host = document.createElement("div");
+  host.setAttribute("data-2bot-webchat", gatewayId);
+  host.style.setProperty("--wc-color", "#2563eb");
+  var root = host.attachShadow ? host.attachShadow({ mode: "open" }) : host;
+  root.innerHTML = "<style>" + STYLE + "</style>" + MARKUP;
+
+  var bubble = root.querySelector(".bubble");
+  var panel = root.querySelector(".panel");
+  var title = root.querySelector(".title");
+  var list = root.querySelector(".messages");
+  var typing = root.querySelector(".typing");
+  var form = root.querySelector(".composer");
+  var input = form.querySelector("input");
+
+  function line(text, kind) {
+    var el = document.createElement("div");
+    el.className = "msg " + kind;
+    el.textContent = text;
+    list.appendChild(el);
+    list.scrollTop = list.scrollHeight;
+  }
+
+  function add(message) {
+    if (!message || !message.id || seen[message.id]) return;
+    seen[message.id] = true;
+    if (message.from === "bot") setTyping(false);
+    line(message.text, message.from === "bot" ? "bot" : "visitor");
+  }
+
+  function setTyping(on) {
+    clearTimeout(typingTimer);
+    typing.hidden = !on;
+    if (on) typingTimer = setTimeout(function () { typing.hidden = true; }, 8000);
+  }
+
+  function applyConfig(config) {
+    title.textContent = config.title;
+    host.style.setProperty("--wc-color", config.primaryColor);
+    if (config.welcomeMessage && !list.querySelector(".welcome")) {
+      var el = document.createElement("div");
+      el.className = "msg bot welcome";
+      el.textContent = config.welcomeMessage;
+      list.insertBefore(el, list.firstChild);
+    }
+  }
+
+  function connect() {
+    if (source) source.close();
+    source = new EventSource(base + "/stream?token=" + encodeURIComponent(state.token));
+    source.addEventListener("history", function (e) {
+      try { JSON.parse(e.data).forEach(add); } catch (err) { /* ignore */ }
+    });
+    source.addEventListener("message", function (e) {
+      try { add(JSON.parse(e.data)); } catch (err) { /* ignore */ }
+    });
+    source.addEventListener("typing", function () { setTyping(true); });
+    source.onopen = function () { retryMs = 1000; };
+    source.onerror = function () {
+      // Expired token or dropped connection — refresh the session, then reconnect
+      source.close();
+      source = null;
+      setTimeout(function () { start().catch(function () { /* retried on next error */ }); }, retryMs);
+      retryMs = Math.min(retryMs * 2, 30000);
+    };
+  }
+
+  function start() {
+    if (starting) return starting;
+    starting = post("/sessions", { token: state.token, visitorId: state.visitorId })
+      .then(function (session) {
+        state = { token: session.token, visitorId: session.visitorId };
+        writeState();
+        applyConfig(session.config);
+        connect();
+      })
+      .finally(function () { starting = null; });
+    return starting;
+  }
+
+  function send(text, retried) {
+    return post("/messages", { text: text, pageUrl: window.location.href }, state.token)
+      .then(add)
+      .catch(function (err) {
+        if (err.status === 401 && !retried) {
+          return start().then(function () { return send(text, true); });
+        }
+        line("Message not sent: " + err.message, "system");
+      });
+  }
+
+  bubble.addEventListener("click", function () {
+    panel.hidden = !panel.hidden;
+    if (!panel.hidden) {
+      if (!source && !starting) start().catch(function (err) { line("Chat unavailable: " + err.message, "system"); });
+      input.focus();
+    }
+  });
+  root.querySelector(".close").addEventListener("click", function () { panel.hidden = true; });
+  form.addEventListener("submit", function (e) {
+    e.preventDefault();
+    var text = input.value.trim();
+    if (!text) return;
+    input.value = "";
+    (state.token ? Promise.resolve() : start()).then(function () { return send(text, false); })
+      .catch(function (err) { line("Message not sent: " + err.message, "system"); });
+  });
+
+  function mount() {
+    document.body.appendChild(host);
+    // Returning visitors reconnect right away so replies sent meanwhile show up
+    if (state.token) start().catch(function () { /* retried when opened */ });
+  }
+  if (document.body) mount();
+  else document.addEventListener("DOMContentLoaded", mount);
+})();
+`;
@@ -0,0 +1,121 @@
+/**
+ * HTTP Request Step Tests
+ *
+ * @module modules/plugin/__tests__/http-request.handler.test
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const getExternalApiConnection = vi.fn();
+vi.mock('@/modules/project-resource/project-resource.service', () => ({
+  getExternalApiConnection: (...args: unknown[]) => getExternalApiConnection(...args),
+}));
+
+const lookup = vi.fn();
+vi.mock('dns/promises', () => ({
+  lookup: (...args: unknown[]) => lookup(...args),
+}));
+
+import { httpRequestPlugin } from '../handlers/core/http-request.handler';
+import type { PluginContext, PluginEvent } from '../plugin.interface';
+
+function makeContext(config: Record<string, unknown>): PluginContext {
+  return { userId: 'u1', userPluginId: 'up1', config } as unknown as PluginContext;
+}
+
+function stepEvent(input: Record<string, unknown>): PluginEvent {
+  return { type: 'workflow.step', data: { input } } as unknown as PluginEvent;
+}
+
+const fetchMock = vi.fn();
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock);
+  lookup.mockResolvedValue([{ address: '93.184.215.14', family: 4 }]);
+  fetchMock.mockResolvedValue(
+    new Response(JSON.stringify({ id: 7 }), { status: 200, headers: { 'content-type': 'application/json' } }),
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  fetchMock.mockReset();
+  getExternalApiConnection.mockReset();
+  lookup.mockReset();
+});
+
+describe('http-request step', () => {
+  it('calls the resource base URL with its headers and credentials', async () => {
+    getExternalApiConnection.mockResolvedValue({
+      baseUrl: 'https://api.example.com',
+      authMode: 'BEARER',
+      credentials: { token: 'tok' },
+      defaultHeaders: { 'X-Team': 'ops' },
+      timeoutMs: null,
+    });
+
+    const result = await httpRequestPlugin.onEvent(
+      stepEvent({ path: '/v1/orders', query: { page: 2 }, body: { qty: 1 } }),
+      makeContext({ resourceId: 'res1', method: 'POST' }),
+    );
+
+    expect(result).toMatchObject({ success: true, output: { status: 200, ok: true, body: { id: 7 } } });
+    const [url, init] = fetchMock.mock.calls[0] as [URL, RequestInit];
+    expect(url.toString()).toBe('https://api.example.com/v1/orders?page=2');
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe('{"qty":1}');
+    expect(init.headers).toMatchObject({
+      'x-team': 'ops',
+      authorization: 'Bearer tok',
+      'content-type': 'application/json',
+    });
+  });
+
+  it('reads the input of bot-message runs from _workflow', async () => {
+    const event = {
+      type: 'telegram.message',
+      data: {},
+      _workflow: { input: { path: 'https://example.com/hook' }, stepOrder: 1, runId: 'r1' },
+    } as unknown as PluginEvent;
+
+    const result = await httpRequestPlugin.onEvent(event, makeContext({}));
+
+    expect(result.success).toBe(true);
+    expect(String(fetchMock.mock.calls[0]?.[0])).toBe('https://example.com/hook');
+  });
+
+  it('rejects relative paths without a resource and private addresses', async () => {
+    const relative = await httpRequestPlugin.onEvent(stepEvent({ path: '/v1' }), makeContext({}));
+    expect(relative).toMatchObject({ success: false, error: expect.stringContaining('full http(s) URL') });
+
+    const local = await httpRequestPlugin.onEvent(stepEvent({ path: 'http://127.0.0.1/admin' }), makeContext({}));
+    expect(local).toMatchObject({ success: false, error: expect.stringContaining('private') });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects hostnames that resolve to a private address', async () => {
+    lookup.mockResolvedValue([
+      { address: '93.184.215.14', family: 4 },
+      { address: '10.0.0.5', family: 4 },
+    ]);
+
+    const result = await httpRequestPlugin.onEvent(stepEvent({ path: 'http://postgres:5432/' }), makeContext({}));
+
+    expect(result).toMatchObject({ success: false, error: expect.stringContaining('private') });
+    expect(lookup).toHaveBeenCalledWith('postgres', { all: true, verbatim: true });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('fails on error statuses unless failOnHttpError is off', async () => {
+    fetchMock.mockImplementation(async () => new Response('busy', { status: 503 }));
+
+    const failed = await httpRequestPlugin.onEvent(stepEvent({ path: 'https://example.com' }), makeContext({}));
+    expect(failed).toMatchObject({ success: false, error: 'http-request: HTTP 503 from example.com: busy' });
+
+    const passed = await httpRequestPlugin.onEvent(
+      stepEvent({ path: 'https://example.com' }),
+      makeContext({ failOnHttpError: false }),
+    );
+    expect(passed).toMatchObject({ success: true, output: { status: 503, ok: false, body: 'busy' } });
+  });
+});
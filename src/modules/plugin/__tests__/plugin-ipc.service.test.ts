@@ -56,6 +56,9 @@ vi.mock('@/lib/prisma', () => ({
       findUnique: vi.fn(),
       findMany: vi.fn(),
     },
+    workflowRun: {
+      findFirst: vi.fn(),
+    },
   },
 }));
 
@@ -365,6 +368,65 @@ describe('PluginIpcService', () => {
         expect.objectContaining({ messages }),
       );
     });
+
+    it('should attribute usage to a workflow step the plugin runs in', async () => {
+      mockTextGeneration.mockResolvedValue({
+        content: 'Response',
+        model: 'model-xyz',
+        usage: { inputTokens: 5, outputTokens: 5, totalTokens: 10 },
+        creditsUsed: 0.1,
+        newBalance: 99.9,
+      });
+      vi.mocked(prisma.workflowRun.findFirst).mockResolvedValue({ id: 'run-1' } as never);
+
+      const req = makeRequest('ai.chat', {
+        messages: validMessages,
+        workflow: { runId: 'run-1', stepOrder: 2 },
+      });
+      await pluginIpcService.handleRequest(TEST_CONTAINER_ID, req);
+
+      expect(prisma.workflowRun.findFirst).toHaveBeenCalledWith({
+        where: {
+          id: 'run-1',
+          status: 'running',
+          workflow: {
+            organizationId: TEST_ORG_ID,
+            steps: {
+              some: {
+                order: 2,
+                plugin: { userPlugins: { some: { id: TEST_USER_PLUGIN_ID } } },
+              },
+            },
+          },
+        },
+        select: { id: true },
+      });
+      expect(mockTextGeneration).toHaveBeenCalledWith(
+        expect.objectContaining({ workflowStep: { runId: 'run-1', stepOrder: 2 } }),
+      );
+    });
+
+    it('should drop a workflow reference to a run the plugin has no part in', async () => {
+      mockTextGeneration.mockResolvedValue({
+        content: 'Response',
+        model: 'model-xyz',
+        usage: { inputTokens: 5, outputTokens: 5, totalTokens: 10 },
+        creditsUsed: 0.1,
+        newBalance: 99.9,
+      });
+      vi.mocked(prisma.workflowRun.findFirst).mockResolvedValue(null);
+
+      const req = makeRequest('ai.chat', {
+        messages: validMessages,
+        workflow: { runId: 'someone-elses-run', stepOrder: 0 },
+      });
+      const result = await pluginIpcService.handleRequest(TEST_CONTAINER_ID, req);
+
+      expect(result.success).toBe(true);
+      expect(mockTextGeneration).toHaveBeenCalledWith(
+        expect.objectContaining({ workflowStep: undefined }),
+      );
+    });
   });
 
   // ===========================================
@@ -0,0 +1,173 @@
+/**
+ * AI Prompt Handler
+ *
+ * Built-in step that sends one prompt to 2Bot AI and outputs the answer:
+ *
+ *   { text, model, usage: { inputTokens, outputTokens }, creditsUsed }
+ *
+ * Credits are checked and deducted by the AI provider from the workflow
+ * owner's wallet (the organization's for org workflows) and attributed to
+ * the step's plugin installation, like AI calls made by plugins, and
+ * recorded against the run and step for workflow analytics.
+ *
+ * @module modules/plugin/handlers/core/ai-prompt.handler
+ */
+
+import type { GatewayType } from "@prisma/client";
+
+import {
+    twoBotAIProvider,
+    type TextGenerationMessage,
+    type TwoBotAIModel,
+} from "@/modules/2bot-ai-provider";
+
+import {
+    BasePlugin,
+    type PluginContext,
+    type PluginEvent,
+    type PluginExecutionResult,
+} from "../../plugin.interface";
+import type { JSONSchema, PluginCategory } from "../../plugin.types";
+import { getStepInput } from "./step-input";
+
+export const AI_PROMPT_PLUGIN_SLUG = "ai-prompt";
+
+/** Token cap per call, as for plugin AI calls */
+const MAX_TOKENS_LIMIT = 4096;
+
+export interface AiPromptStepOutput {
+  text: string;
+  model: string;
+  usage: { inputTokens: number; outputTokens: number };
+  creditsUsed: number;
+}
+
+export class AiPromptPlugin extends BasePlugin {
+  readonly slug = AI_PROMPT_PLUGIN_SLUG;
+  readonly name = "AI Prompt";
+  readonly description =
+    "Send a prompt to 2Bot AI and continue with the answer. Uses your AI credits.";
+  readonly version = "1.0.0";
+  readonly category: PluginCategory = "utilities";
+  readonly requiredGateways: GatewayType[] = [];
+  readonly icon = "sparkles";
+  readonly tags: string[] = ["ai", "prompt", "llm", "core"];
+
+  readonly configSchema: JSONSchema = {
+    type: "object",
+    title: "AI Prompt",
+    properties: {
+      model: {
+        type: "string",
+        title: "Model",
+        default: "auto",
+        uiComponent: "ai-model-selector",
+      },
+      systemPrompt: {
+        type: "string",
+        title: "System prompt",
+        description: "Instructions for the model, e.g. Answer in one short sentence.",
+      },
+      temperature: {
+        type: "number",
+        title: "Temperature",
+        minimum: 0,
+        maximum: 2,
+        default: 0.7,
+      },
+      maxTokens: {
+        type: "number",
+        title: "Max tokens",
+        minimum: 1,
+        maximum: MAX_TOKENS_LIMIT,
+        default: 1024,
+      },
+    },
+  };
+
+  readonly inputSchema: JSONSchema = {
+    type: "object",
+    title: "AI Prompt Input",
+    properties: {
+      prompt: { type: "string", description: "e.g. Summarize: {{trigger.message.text}}" },
+      system: { type: "string", description: "Overrides the configured system prompt" },
+    },
+    required: ["prompt"],
+  };
+
+  readonly outputSchema: JSONSchema = {
+    type: "object",
+    title: "AI Prompt Output",
+    properties: {
+      text: { type: "string" },
+      model: { type: "string" },
+      usage: {
+        type: "object",
+        properties: { inputTokens: { type: "number" }, outputTokens: { type: "number" } },
+      },
+      creditsUsed: { type: "number" },
+    },
+  };
+
+  async onEvent(
+    event: PluginEvent,
+    context: PluginContext
+  ): Promise<PluginExecutionResult> {
+    const input = getStepInput(event);
+    if (!input) {
+      return this.failure(`Unsupported event type for ai-prompt: ${event.type}`);
+    }
+    const config = (context.config ?? {}) as Record<string, unknown>;
+
+    const prompt = toText(input.prompt);
+    if (!prompt) {
+      return this.failure("ai-prompt: input \"prompt\" is empty");
+    }
+    const system = toText(input.system) || toText(config.systemPrompt);
+    const messages: TextGenerationMessage[] = [
+      ...(system ? [{ role: "system" as const, content: system }] : []),
+      { role: "user", content: prompt },
+    ];
+
+    const maxTokens = typeof config.maxTokens === "number" && config.maxTokens > 0
+      ? Math.min(config.maxTokens, MAX_TOKENS_LIMIT)
+      : 1024;
+
+    try {
+      const response = await twoBotAIProvider.textGeneration({
+        messages,
+        model: (toText(config.model) || "auto") as TwoBotAIModel,
+        temperature: typeof config.temperature === "number" ? config.temperature : undefined,
+        maxTokens,
+        userId: context.userId,
+        organizationId: context.organizationId,
+        userPluginId: context.userPluginId,
+        workflowStep: event._workflow
+          ? { runId: event._workflow.runId, stepOrder: event._workflow.stepOrder }
+          : undefined,
+        smartRouting: false,
+        stream: false,
+        feature: "workflow",
+        abortSignal: context.signal,
+      });
+      const output: AiPromptStepOutput = {
+        text: response.content,
+        model: response.model,
+        usage: { inputTokens: response.usage.inputTokens, outputTokens: response.usage.outputTokens },
+        creditsUsed: response.creditsUsed,
+      };
+      return this.success(output);
+    } catch (error) {
+      return this.failure(`ai-prompt: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/** Prompts may be mapped from any value; objects are sent as JSON. */
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value.trim();
+  return JSON.stringify(value);
+}
+
+export const aiPromptPlugin = new AiPromptPlugin();
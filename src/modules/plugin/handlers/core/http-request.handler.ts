@@ -0,0 +1,273 @@
+/**
+ * HTTP Request Handler
+ *
+ * Built-in step that calls a REST API from the workflow, in-process — no
+ * workspace plugin needed. With an EXTERNAL_API resource selected, the path
+ * is appended to the resource's base URL and the request carries its
+ * default headers and credentials (API key, bearer token, basic auth or an
+ * HMAC body signature). Without one, `path` must be a full URL.
+ *
+ * Output is the response: `{ status, ok, headers, body }`, the body parsed
+ * as JSON when the server says it is JSON. 4xx / 5xx responses fail the
+ * step (so retry policies apply) unless `failOnHttpError` is off.
+ *
+ * @module modules/plugin/handlers/core/http-request.handler
+ */
+
+import crypto from "node:crypto";
+
+import type { GatewayType } from "@prisma/client";
+
+import { isSafeUrlResolved } from "@/lib/network-security";
+import { getExternalApiConnection } from "@/modules/project-resource/project-resource.service";
+import type { ExternalApiConnection } from "@/modules/project-resource/project-resource.types";
+
+import {
+    BasePlugin,
+    type PluginContext,
+    type PluginEvent,
+    type PluginExecutionResult,
+} from "../../plugin.interface";
+import type { JSONSchema, PluginCategory } from "../../plugin.types";
+import { getStepInput, isRecord } from "./step-input";
+
+export const HTTP_REQUEST_PLUGIN_SLUG = "http-request";
+
+const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"] as const;
+
+/** Timeout when the resource doesn't set one */
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+/** Largest response body read, in characters */
+const MAX_RESPONSE_LENGTH = 1_000_000;
+
+export interface HttpRequestStepOutput {
+  status: number;
+  ok: boolean;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export class HttpRequestPlugin extends BasePlugin {
+  readonly slug = HTTP_REQUEST_PLUGIN_SLUG;
+  readonly name = "HTTP Request";
+  readonly description =
+    "Call a REST API, optionally through an External API resource that holds its base URL and credentials.";
+  readonly version = "1.0.0";
+  readonly category: PluginCategory = "utilities";
+  readonly requiredGateways: GatewayType[] = [];
+  readonly icon = "globe";
+  readonly tags: string[] = ["http", "api", "request", "core"];
+
+  readonly configSchema: JSONSchema = {
+    type: "object",
+    title: "HTTP Request",
+    properties: {
+      resourceId: {
+        type: "string",
+        title: "External API resource",
+        description: "ID of an External API resource; leave empty to call a full URL",
+      },
+      method: {
+        type: "string",
+        title: "Method",
+        enum: [...HTTP_METHODS],
+        default: "GET",
+      },
+      path: {
+        type: "string",
+        title: "Path",
+        description: "Appended to the resource base URL, e.g. /v1/orders — or a full URL",
+      },
+      headers: {
+        type: "object",
+        title: "Headers",
+        description: "Extra request headers, e.g. { \"accept-language\": \"en\" }",
+      },
+      failOnHttpError: {
+        type: "boolean",
+        title: "Fail on error status",
+        description: "Fail the step when the API answers 4xx or 5xx",
+        default: true,
+      },
+    },
+  };
+
+  readonly inputSchema: JSONSchema = {
+    type: "object",
+    title: "HTTP Request Input",
+    description: "Values resolved from the input mapping override the config",
+    properties: {
+      path: { type: "string", description: "e.g. /v1/orders/{{trigger.orderId}}" },
+      query: { type: "object", description: "Query string parameters" },
+      headers: { type: "object" },
+      body: { description: "Request body; objects are sent as JSON" },
+    },
+  };
+
+  readonly outputSchema: JSONSchema = {
+    type: "object",
+    title: "HTTP Request Output",
+    properties: {
+      status: { type: "number" },
+      ok: { type: "boolean" },
+      headers: { type: "object" },
+      body: {},
+    },
+  };
+
+  async onEvent(
+    event: PluginEvent,
+    context: PluginContext
+  ): Promise<PluginExecutionResult> {
+    const input = getStepInput(event);
+    if (!input) {
+      return this.failure(`Unsupported event type for http-request: ${event.type}`);
+    }
+    const config = (context.config ?? {}) as Record<string, unknown>;
+
+    const method = String(input.method ?? config.method ?? "GET").toUpperCase();
+    if (!(HTTP_METHODS as readonly string[]).includes(method)) {
+      return this.failure(`http-request: unsupported method ${method}`);
+    }
+
+    const resourceId = typeof config.resourceId === "string" ? config.resourceId.trim() : "";
+    let connection: ExternalApiConnection | null = null;
+    if (resourceId) {
+      try {
+        connection = await getExternalApiConnection(
+          { userId: context.userId, organizationId: context.organizationId ?? null },
+          resourceId,
+        );
+      } catch (error) {
+        return this.failure(`http-request: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const url = buildUrl(connection?.baseUrl, String(input.path ?? config.path ?? ""));
+    if (!url) {
+      return this.failure(
+        connection
+          ? "http-request: path must start with \"/\""
+          : "http-request: path must be a full http(s) URL when no resource is selected",
+      );
+    }
+    for (const [key, value] of Object.entries(parseObject(input.query) ?? {})) {
+      if (value !== undefined && value !== null) url.searchParams.append(key, String(value));
+    }
+    if (!(await isSafeUrlResolved(url.toString()))) {
+      return this.failure("http-request: requests to local or private addresses are not allowed");
+    }
+
+    const headers: Record<string, string> = {};
+    for (const source of [connection?.defaultHeaders, parseObject(config.headers), parseObject(input.headers)]) {
+      for (const [key, value] of Object.entries(source ?? {})) {
+        if (value !== undefined && value !== null) headers[key.toLowerCase()] = String(value);
+      }
+    }
+
+    const rawBody = "body" in input ? input.body : config.body;
+    let body: string | undefined;
+    if (method !== "GET" && rawBody !== undefined && rawBody !== null && rawBody !== "") {
+      if (typeof rawBody === "string") {
+        body = rawBody;
+      } else {
+        body = JSON.stringify(rawBody);
+        headers["content-type"] ??= "application/json";
+      }
+    }
+    if (connection) applyAuth(connection, headers, body ?? "");
+
+    const timeoutMs = connection?.timeoutMs || DEFAULT_TIMEOUT_MS;
+    const signals = [AbortSignal.timeout(timeoutMs), ...(context.signal ? [context.signal] : [])];
+
+    let response: Response;
+    let text: string;
+    try {
+      // Redirects aren't followed: the target could be a private address
+      response = await fetch(url, {
+        method, headers, body, redirect: "manual", signal: AbortSignal.any(signals),
+      });
+      text = await response.text();
+    } catch (error) {
+      if (error instanceof Error && error.name === "TimeoutError") {
+        return this.failure(`http-request: ${url.host} timed out after ${timeoutMs}ms`);
+      }
+      return this.failure(`http-request: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (text.length > MAX_RESPONSE_LENGTH) {
+      return this.failure(`http-request: response from ${url.host} is larger than ${MAX_RESPONSE_LENGTH} characters`);
+    }
+    if (!response.ok && config.failOnHttpError !== false) {
+      return this.failure(`http-request: HTTP ${response.status} from ${url.host}: ${text.slice(0, 200)}`);
+    }
+
+    const output: HttpRequestStepOutput = {
+      status: response.status,
+      ok: response.ok,
+      headers: Object.fromEntries(response.headers.entries()),
+      body: parseBody(text, response.headers.get("content-type")),
+    };
+    return this.success(output);
+  }
+}
+
+/** Accepts an object or a JSON-encoded object (template-resolved input). */
+function parseObject(raw: unknown): Record<string, unknown> | null {
+  if (isRecord(raw)) return raw;
+  if (typeof raw !== "string" || !raw.trim()) return null;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return isRecord(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function buildUrl(baseUrl: string | undefined, path: string): URL | null {
+  try {
+    if (baseUrl) return path === "" || path.startsWith("/") ? new URL(baseUrl + path) : null;
+    const url = new URL(path);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Add the resource's credentials to the request headers. */
+function applyAuth(connection: ExternalApiConnection, headers: Record<string, string>, body: string): void {
+  const credentials = connection.credentials;
+  switch (connection.authMode) {
+    case "API_KEY": {
+      const headerName = typeof credentials.headerName === "string" ? credentials.headerName : "X-API-Key";
+      headers[headerName.toLowerCase()] = String(credentials.apiKey ?? "");
+      break;
+    }
+    case "BEARER":
+      headers.authorization = `Bearer ${String(credentials.token ?? "")}`;
+      break;
+    case "BASIC": {
+      const pair = `${String(credentials.username ?? "")}:${String(credentials.password ?? "")}`;
+      headers.authorization = `Basic ${Buffer.from(pair).toString("base64")}`;
+      break;
+    }
+    case "HMAC": {
+      // Same scheme HTTP routes verify inbound: `<algorithm>=<hex digest of the body>`
+      const algorithm = credentials.algorithm === "sha512" ? "sha512" : "sha256";
+      const digest = crypto.createHmac(algorithm, String(credentials.hmacSecret ?? "")).update(body).digest("hex");
+      headers["x-signature"] = `${algorithm}=${digest}`;
+      break;
+    }
+  }
+}
+
+function parseBody(text: string, contentType: string | null): unknown {
+  if (!contentType?.includes("json")) return text;
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return text;
+  }
+}
+
+export const httpRequestPlugin = new HttpRequestPlugin();
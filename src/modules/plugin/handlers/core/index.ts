@@ -0,0 +1,32 @@
+/**
+ * Core Nodes Module
+ *
+ * Built-in workflow steps for everyday glue logic that run in-process, with
+ * no workspace plugin: HTTP requests, AI prompts, run variables and JSON
+ * transforms.
+ *
+ * @module modules/plugin/handlers/core
+ */
+
+export {
+    AI_PROMPT_PLUGIN_SLUG,
+    AiPromptPlugin,
+    aiPromptPlugin,
+    type AiPromptStepOutput,
+} from "./ai-prompt.handler";
+export {
+    HTTP_REQUEST_PLUGIN_SLUG,
+    HttpRequestPlugin,
+    httpRequestPlugin,
+    type HttpRequestStepOutput,
+} from "./http-request.handler";
+export {
+    SET_VARIABLE_PLUGIN_SLUG,
+    SetVariablePlugin,
+    setVariablePlugin,
+} from "./set-variable.handler";
+export {
+    TRANSFORM_PLUGIN_SLUG,
+    TransformPlugin,
+    transformPlugin,
+} from "./transform.handler";
@@ -0,0 +1,61 @@
+/**
+ * Set Variable Handler
+ *
+ * Built-in step that stores values for the rest of the run. Every input of
+ * its mapping becomes a run variable of the same name, readable by later
+ * steps as `{{vars.<name>}}`; setting a name again overwrites it. Output is
+ * the variables this step set.
+ *
+ * The workflow executor owns the run's variables and performs the step
+ * itself; this handler only carries the catalog entry and schemas.
+ *
+ * @module modules/plugin/handlers/core/set-variable.handler
+ */
+
+import type { GatewayType } from "@prisma/client";
+
+import {
+    BasePlugin,
+    type PluginEvent,
+    type PluginExecutionResult,
+} from "../../plugin.interface";
+import type { JSONSchema, PluginCategory } from "../../plugin.types";
+
+export const SET_VARIABLE_PLUGIN_SLUG = "set-variable";
+
+export class SetVariablePlugin extends BasePlugin {
+  readonly slug = SET_VARIABLE_PLUGIN_SLUG;
+  readonly name = "Set Variable";
+  readonly description =
+    "Store values for later steps: each mapped input becomes {{vars.<name>}}.";
+  readonly version = "1.0.0";
+  readonly category: PluginCategory = "automation";
+  readonly requiredGateways: GatewayType[] = [];
+  readonly icon = "variable";
+  readonly tags: string[] = ["variable", "state", "workflow", "core"];
+
+  readonly configSchema: JSONSchema = {
+    type: "object",
+    title: "Set Variable",
+    properties: {},
+  };
+
+  readonly inputSchema: JSONSchema = {
+    type: "object",
+    title: "Set Variable Input",
+    description: "Each input is stored under its own name, e.g. total: {{prev.output.sum}} → {{vars.total}}",
+  };
+
+  readonly outputSchema: JSONSchema = {
+    type: "object",
+    title: "Variables set by this step",
+  };
+
+  async onEvent(event: PluginEvent): Promise<PluginExecutionResult> {
+    return this.failure(
+      `Set-variable steps are executed by the workflow engine (got ${event.type})`,
+    );
+  }
+}
+
+export const setVariablePlugin = new SetVariablePlugin();
@@ -0,0 +1,25 @@
+/**
+ * Step input access for the in-process core nodes.
+ *
+ * @module modules/plugin/handlers/core/step-input
+ */
+
+import type { PluginEvent } from "../../plugin.interface";
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The step's resolved input mapping. Runs triggered by a bot message
+ * deliver the original platform event (e.g. `telegram.message`) with the
+ * input in `_workflow`; other runs deliver a `workflow.step` event.
+ *
+ * @returns null when the event isn't a workflow step
+ */
+export function getStepInput(event: PluginEvent): Record<string, unknown> | null {
+  if (event._workflow) return isRecord(event._workflow.input) ? event._workflow.input : {};
+  if (event.type !== "workflow.step") return null;
+  const { input } = event.data as { input?: unknown };
+  return isRecord(input) ? input : {};
+}
@@ -0,0 +1,64 @@
+/**
+ * Transform Handler
+ *
+ * Built-in step that reshapes data. Its `template` is a JSON document —
+ * object, array or value — whose strings may contain `{{...}}` expressions;
+ * the output is the document with every string resolved, so a lone
+ * `{{steps.1.output.items}}` keeps its type:
+ *
+ *   { "name": "{{prev.output.user.first}} {{prev.output.user.last}}",
+ *     "tags": "{{prev.output.labels}}" }
+ *
+ * The workflow executor resolves the template against the run's template
+ * context; this handler only carries the catalog entry and schemas.
+ *
+ * @module modules/plugin/handlers/core/transform.handler
+ */
+
+import type { GatewayType } from "@prisma/client";
+
+import {
+    BasePlugin,
+    type PluginEvent,
+    type PluginExecutionResult,
+} from "../../plugin.interface";
+import type { JSONSchema, PluginCategory } from "../../plugin.types";
+
+export const TRANSFORM_PLUGIN_SLUG = "transform";
+
+export class TransformPlugin extends BasePlugin {
+  readonly slug = TRANSFORM_PLUGIN_SLUG;
+  readonly name = "Transform";
+  readonly description =
+    "Build a new JSON value from earlier outputs, trigger data and variables.";
+  readonly version = "1.0.0";
+  readonly category: PluginCategory = "utilities";
+  readonly requiredGateways: GatewayType[] = [];
+  readonly icon = "braces";
+  readonly tags: string[] = ["transform", "json", "mapping", "core"];
+
+  readonly configSchema: JSONSchema = {
+    type: "object",
+    title: "Transform",
+    properties: {
+      template: {
+        type: "string",
+        title: "Output template",
+        description: "JSON with {{...}} expressions, e.g. { \"id\": \"{{prev.output.id}}\" }",
+      },
+    },
+    required: ["template"],
+  };
+
+  readonly outputSchema: JSONSchema = {
+    title: "The resolved template",
+  };
+
+  async onEvent(event: PluginEvent): Promise<PluginExecutionResult> {
+    return this.failure(
+      `Transform steps are executed by the workflow engine (got ${event.type})`,
+    );
+  }
+}
+
+export const transformPlugin = new TransformPlugin();
@@ -0,0 +1,73 @@
+/**
+ * Delay Handler
+ *
+ * Built-in step that pauses the workflow run for a fixed duration. The run
+ * is persisted in the "waiting" state and resumed by a delayed job on the
+ * workflow queue, so the wait survives restarts. Output is the upstream
+ * output, passed through.
+ *
+ * The workflow executor performs the wait itself; this handler only carries
+ * the catalog entry and schemas.
+ *
+ * @module modules/plugin/handlers/delay/delay.handler
+ */
+
+import type { GatewayType } from "@prisma/client";
+
+import {
+    BasePlugin,
+    type PluginEvent,
+    type PluginExecutionResult,
+} from "../../plugin.interface";
+import type { JSONSchema, PluginCategory } from "../../plugin.types";
+
+export const DELAY_PLUGIN_SLUG = "delay";
+
+export type DelayUnit = "seconds" | "minutes" | "hours" | "days";
+
+export class DelayPlugin extends BasePlugin {
+  readonly slug = DELAY_PLUGIN_SLUG;
+  readonly name = "Delay";
+  readonly description = "Pause the workflow for a fixed amount of time before continuing.";
+  readonly version = "1.0.0";
+  readonly category: PluginCategory = "automation";
+  readonly requiredGateways: GatewayType[] = [];
+  readonly icon = "hourglass";
+  readonly tags: string[] = ["delay", "wait", "timer", "workflow"];
+
+  readonly configSchema: JSONSchema = {
+    type: "object",
+    title: "Delay",
+    properties: {
+      amount: {
+        type: "number",
+        title: "Amount",
+        minimum: 1,
+        default: 1,
+      },
+      unit: {
+        type: "string",
+        title: "Unit",
+        enum: ["seconds", "minutes", "hours", "days"],
+        default: "hours",
+      },
+    },
+    required: ["amount"],
+  };
+
+  readonly inputSchema: JSONSchema = {
+    type: "object",
+    title: "Delay Input",
+    properties: {
+      amount: { description: "Overrides the configured amount, e.g. {{trigger.delay}}" },
+    },
+  };
+
+  async onEvent(event: PluginEvent): Promise<PluginExecutionResult> {
+    return this.failure(
+      `Delay steps are executed by the workflow engine (got ${event.type})`,
+    );
+  }
+}
+
+export const delayPlugin = new DelayPlugin();
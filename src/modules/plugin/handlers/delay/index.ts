@@ -0,0 +1,25 @@
+/**
+ * Delay Plugins Module
+ *
+ * Built-in workflow steps that pause a run (delay, wait until, wait for
+ * reply) and resume it later from the workflow queue or an inbound message.
+ *
+ * @module modules/plugin/handlers/delay
+ */
+
+export {
+    DELAY_PLUGIN_SLUG,
+    DelayPlugin,
+    delayPlugin,
+    type DelayUnit,
+} from "./delay.handler";
+export {
+    WAIT_FOR_REPLY_PLUGIN_SLUG,
+    WaitForReplyPlugin,
+    waitForReplyPlugin,
+} from "./wait-for-reply.handler";
+export {
+    WAIT_UNTIL_PLUGIN_SLUG,
+    WaitUntilPlugin,
+    waitUntilPlugin,
+} from "./wait-until.handler";
@@ -0,0 +1,75 @@
+/**
+ * Wait For Reply Handler
+ *
+ * Built-in step for conversational workflows. Optionally sends a prompt to
+ * the chat that triggered the run, then pauses the run until the same
+ * end-user writes again in that chat (Telegram, Discord, Slack, WhatsApp)
+ * or the timeout elapses. The reply becomes the step output and is bound
+ * as `{{reply}}` for later steps:
+ *
+ *   { text, source, message, timedOut }
+ *
+ * The workflow executor and trigger routing perform the wait; this handler
+ * only carries the catalog entry and schemas.
+ *
+ * @module modules/plugin/handlers/delay/wait-for-reply.handler
+ */
+
+import type { GatewayType } from "@prisma/client";
+
+import {
+    BasePlugin,
+    type PluginEvent,
+    type PluginExecutionResult,
+} from "../../plugin.interface";
+import type { JSONSchema, PluginCategory } from "../../plugin.types";
+
+export const WAIT_FOR_REPLY_PLUGIN_SLUG = "wait-for-reply";
+
+export class WaitForReplyPlugin extends BasePlugin {
+  readonly slug = WAIT_FOR_REPLY_PLUGIN_SLUG;
+  readonly name = "Wait For Reply";
+  readonly description =
+    "Pause until the user answers in the same chat, then continue with their message.";
+  readonly version = "1.0.0";
+  readonly category: PluginCategory = "automation";
+  readonly requiredGateways: GatewayType[] = [];
+  readonly icon = "message-circle-reply";
+  readonly tags: string[] = ["wait", "reply", "conversation", "workflow"];
+
+  readonly configSchema: JSONSchema = {
+    type: "object",
+    title: "Wait For Reply",
+    properties: {
+      timeoutAmount: {
+        type: "number",
+        title: "Timeout",
+        description: "Continue with reply.timedOut = true if nobody answers in time",
+        minimum: 1,
+        default: 24,
+      },
+      timeoutUnit: {
+        type: "string",
+        title: "Timeout unit",
+        enum: ["seconds", "minutes", "hours", "days"],
+        default: "hours",
+      },
+    },
+  };
+
+  readonly inputSchema: JSONSchema = {
+    type: "object",
+    title: "Wait For Reply Input",
+    properties: {
+      prompt: { description: "Message sent to the chat before waiting, e.g. What's your email?" },
+    },
+  };
+
+  async onEvent(event: PluginEvent): Promise<PluginExecutionResult> {
+    return this.failure(
+      `Wait-for-reply steps are executed by the workflow engine (got ${event.type})`,
+    );
+  }
+}
+
+export const waitForReplyPlugin = new WaitForReplyPlugin();
@@ -0,0 +1,69 @@
+/**
+ * Wait Until Handler
+ *
+ * Built-in step that pauses the workflow run until a point in time: either
+ * an explicit `until` timestamp, or the next occurrence of a wall-clock
+ * time in a timezone ("09:00" in "Europe/Berlin"). Durable in the same way
+ * as the delay step. Output is the upstream output, passed through.
+ *
+ * @module modules/plugin/handlers/delay/wait-until.handler
+ */
+
+import type { GatewayType } from "@prisma/client";
+
+import {
+    BasePlugin,
+    type PluginEvent,
+    type PluginExecutionResult,
+} from "../../plugin.interface";
+import type { JSONSchema, PluginCategory } from "../../plugin.types";
+
+export const WAIT_UNTIL_PLUGIN_SLUG = "wait-until";
+
+export class WaitUntilPlugin extends BasePlugin {
+  readonly slug = WAIT_UNTIL_PLUGIN_SLUG;
+  readonly name = "Wait Until";
+  readonly description =
+    "Pause the workflow until a specific time, e.g. 9am in the user's timezone.";
+  readonly version = "1.0.0";
+  readonly category: PluginCategory = "automation";
+  readonly requiredGateways: GatewayType[] = [];
+  readonly icon = "alarm-clock";
+  readonly tags: string[] = ["delay", "wait", "schedule", "workflow"];
+
+  readonly configSchema: JSONSchema = {
+    type: "object",
+    title: "Wait Until",
+    properties: {
+      time: {
+        type: "string",
+        title: "Time of day",
+        description: "24h wall-clock time to wait for (HH:mm)",
+        pattern: "^([01]\\d|2[0-3]):[0-5]\\d$",
+        default: "09:00",
+      },
+      timezone: {
+        type: "string",
+        title: "Timezone",
+        description: "IANA timezone, e.g. America/New_York (default UTC)",
+      },
+    },
+  };
+
+  readonly inputSchema: JSONSchema = {
+    type: "object",
+    title: "Wait Until Input",
+    properties: {
+      until: { description: "ISO timestamp to wait for; takes precedence over the time of day" },
+      timezone: { description: "Overrides the configured timezone, e.g. {{trigger.user.timezone}}" },
+    },
+  };
+
+  async onEvent(event: PluginEvent): Promise<PluginExecutionResult> {
+    return this.failure(
+      `Wait-until steps are executed by the workflow engine (got ${event.type})`,
+    );
+  }
+}
+
+export const waitUntilPlugin = new WaitUntilPlugin();
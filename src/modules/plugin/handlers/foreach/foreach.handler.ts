@@ -0,0 +1,69 @@
+/**
+ * Foreach Handler
+ *
+ * Built-in loop step. Everything downstream of its `each` port runs once per
+ * element of `items`, with `{{item}}` / `{{index}}` bound to the current
+ * element; the collected per-iteration outputs continue on `done`.
+ *
+ * The workflow executor runs the loop itself — it owns the step graph — so
+ * this handler only carries the catalog entry and schemas.
+ *
+ * @module modules/plugin/handlers/foreach/foreach.handler
+ */
+
+import type { GatewayType } from "@prisma/client";
+
+import { FOREACH_PLUGIN_SLUG } from "@/shared/constants/workflow-ports";
+
+import {
+    BasePlugin,
+    type PluginEvent,
+    type PluginExecutionResult,
+} from "../../plugin.interface";
+import type { JSONSchema, PluginCategory } from "../../plugin.types";
+
+export class ForeachPlugin extends BasePlugin {
+  readonly slug = FOREACH_PLUGIN_SLUG;
+  readonly name = "For Each";
+  readonly description =
+    "Run the steps connected to \"each\" once per item of an array, then continue on \"done\" with the collected results.";
+  readonly version = "1.0.0";
+  readonly category: PluginCategory = "automation";
+  readonly requiredGateways: GatewayType[] = [];
+  readonly icon = "repeat";
+  readonly tags: string[] = ["loop", "foreach", "map", "workflow"];
+
+  readonly configSchema: JSONSchema = {
+    type: "object",
+    title: "For Each",
+    properties: {
+      maxParallel: {
+        type: "number",
+        title: "Max parallel iterations",
+        description: "How many items run at the same time (1 = one after another)",
+        minimum: 1,
+        maximum: 10,
+        default: 1,
+      },
+    },
+  };
+
+  readonly inputSchema: JSONSchema = {
+    type: "object",
+    title: "For Each Input",
+    properties: {
+      items: {
+        description: "Array to iterate over, e.g. {{steps.1.output.rows}}",
+      },
+    },
+    required: ["items"],
+  };
+
+  async onEvent(event: PluginEvent): Promise<PluginExecutionResult> {
+    return this.failure(
+      `Foreach steps are executed by the workflow engine (got ${event.type})`,
+    );
+  }
+}
+
+export const foreachPlugin = new ForeachPlugin();
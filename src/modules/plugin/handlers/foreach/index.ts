@@ -0,0 +1,9 @@
+/**
+ * Foreach Plugin Module
+ *
+ * Built-in workflow step that maps a sub-graph over an array.
+ *
+ * @module modules/plugin/handlers/foreach
+ */
+
+export { ForeachPlugin, foreachPlugin } from "./foreach.handler";
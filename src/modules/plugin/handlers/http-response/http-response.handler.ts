@@ -0,0 +1,148 @@
+/**
+ * HTTP Response Plugin Handler
+ *
+ * Built-in workflow step that shapes the reply sent back to the caller of
+ * an HTTP_ROUTE whose `responseMode` is WORKFLOW_OUTPUT. The step's output
+ * (`{ status, headers, body }`) is what the route dispatcher maps onto the
+ * HTTP response; later steps keep running after the reply is sent.
+ *
+ * @module modules/plugin/handlers/http-response/http-response.handler
+ */
+
+import type { GatewayType } from "@prisma/client";
+
+import {
+    BasePlugin,
+    type PluginContext,
+    type PluginEvent,
+    type PluginExecutionResult,
+} from "../../plugin.interface";
+import type { JSONSchema, PluginCategory } from "../../plugin.types";
+
+export const HTTP_RESPONSE_PLUGIN_SLUG = "http-response";
+
+export interface HttpResponseStepOutput {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * HTTP Response Plugin
+ *
+ * Status, headers and body come from the step config and can be overridden
+ * per run through the input mapping (e.g. `body: "{{prev.result}}"`).
+ * Headers from config and input are merged, input winning.
+ */
+export class HttpResponsePlugin extends BasePlugin {
+  readonly slug = HTTP_RESPONSE_PLUGIN_SLUG;
+  readonly name = "HTTP Response";
+  readonly description =
+    "Send the reply for an HTTP route that waits on this workflow. " +
+    "Sets the status code, headers and body returned to the caller.";
+  readonly version = "1.0.0";
+  readonly category: PluginCategory = "utilities";
+  readonly requiredGateways: GatewayType[] = [];
+  readonly icon = "reply";
+  readonly tags: string[] = ["http", "webhook", "response", "workflow"];
+
+  readonly configSchema: JSONSchema = {
+    type: "object",
+    title: "HTTP Response",
+    properties: {
+      status: {
+        type: "number",
+        title: "Status Code",
+        minimum: 100,
+        maximum: 599,
+        default: 200,
+      },
+      headers: {
+        type: "object",
+        title: "Headers",
+        description: "Response headers, e.g. { \"content-type\": \"text/html\" }",
+      },
+      body: {
+        title: "Body",
+        description: "Default body when the input mapping does not provide one",
+      },
+    },
+  };
+
+  readonly inputSchema: JSONSchema = {
+    type: "object",
+    title: "HTTP Response Input",
+    description: "Values resolved from the input mapping override the config",
+    properties: {
+      status: { type: "number", minimum: 100, maximum: 599 },
+      headers: { type: "object" },
+      body: { description: "Response body (JSON value or string)" },
+    },
+  };
+
+  readonly outputSchema: JSONSchema = {
+    type: "object",
+    title: "HTTP Response Output",
+    properties: {
+      status: { type: "number" },
+      headers: { type: "object" },
+      body: {},
+    },
+  };
+
+  async onEvent(
+    event: PluginEvent,
+    context: PluginContext
+  ): Promise<PluginExecutionResult> {
+    if (!this.isWorkflowStep(event)) {
+      return this.failure(`Unsupported event type for http-response: ${event.type}`);
+    }
+
+    const config = (context.config ?? {}) as Record<string, unknown>;
+    const input = isRecord(event.data.input) ? event.data.input : {};
+
+    const status = parseStatus(input.status ?? config.status);
+    if (status === null) {
+      return this.failure("http-response: status must be an integer between 100 and 599");
+    }
+
+    const headers: Record<string, string> = {};
+    for (const source of [config.headers, parseHeaders(input.headers)]) {
+      if (!isRecord(source)) continue;
+      for (const [key, value] of Object.entries(source)) {
+        if (value === undefined || value === null) continue;
+        headers[key.toLowerCase()] = String(value);
+      }
+    }
+
+    const output: HttpResponseStepOutput = {
+      status,
+      headers,
+      body: "body" in input ? input.body : (config.body ?? null),
+    };
+    return this.success(output);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Input mappings resolve to strings, so numeric statuses arrive as "201". */
+function parseStatus(raw: unknown): number | null {
+  if (raw === undefined || raw === null || raw === "") return 200;
+  const status = typeof raw === "number" ? raw : Number(raw);
+  return Number.isInteger(status) && status >= 100 && status < 600 ? status : null;
+}
+
+/** Accepts an object or a JSON-encoded object (template-resolved input). */
+function parseHeaders(raw: unknown): unknown {
+  if (typeof raw !== "string") return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+export const httpResponsePlugin = new HttpResponsePlugin();
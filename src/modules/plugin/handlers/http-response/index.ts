@@ -0,0 +1,15 @@
+/**
+ * HTTP Response Plugin Module
+ *
+ * Built-in workflow step that sets the reply for HTTP_ROUTE resources
+ * running in WORKFLOW_OUTPUT response mode.
+ *
+ * @module modules/plugin/handlers/http-response
+ */
+
+export {
+    HTTP_RESPONSE_PLUGIN_SLUG,
+    HttpResponsePlugin,
+    httpResponsePlugin,
+    type HttpResponseStepOutput,
+} from "./http-response.handler";
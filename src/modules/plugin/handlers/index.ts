@@ -11,6 +11,12 @@ import type { Prisma } from "@prisma/client";
 
 import type { PluginHandler, PluginRegistration } from "../plugin.interface";
 import { analyticsPlugin } from "./analytics";
+import { aiPromptPlugin, httpRequestPlugin, setVariablePlugin, transformPlugin } from "./core";
+import { delayPlugin, waitForReplyPlugin, waitUntilPlugin } from "./delay";
+import { foreachPlugin } from "./foreach";
+import { httpResponsePlugin } from "./http-response";
+import { ifElsePlugin, switchPlugin } from "./router";
+import { subWorkflowPlugin } from "./sub-workflow";
 
 // ===========================================
 // Built-in Plugins Registry
@@ -20,6 +26,15 @@ import { analyticsPlugin } from "./analytics";
  * All built-in plugin handlers
  */
 export const BUILTIN_PLUGINS: Map<string, PluginRegistration> = new Map([
+  [
+    aiPromptPlugin.slug,
+    {
+      handler: aiPromptPlugin,
+      isBuiltin: true,
+      tags: ["ai", "prompt", "llm", "core"],
+      icon: "sparkles",
+    },
+  ],
   [
     analyticsPlugin.slug,
     {
@@ -29,6 +44,105 @@ export const BUILTIN_PLUGINS: Map<string, PluginRegistration> = new Map([
       icon: "chart-bar",
     },
   ],
+  [
+    delayPlugin.slug,
+    {
+      handler: delayPlugin,
+      isBuiltin: true,
+      tags: ["delay", "wait", "timer", "workflow"],
+      icon: "hourglass",
+    },
+  ],
+  [
+    foreachPlugin.slug,
+    {
+      handler: foreachPlugin,
+      isBuiltin: true,
+      tags: ["loop", "foreach", "map", "workflow"],
+      icon: "repeat",
+    },
+  ],
+  [
+    httpRequestPlugin.slug,
+    {
+      handler: httpRequestPlugin,
+      isBuiltin: true,
+      tags: ["http", "api", "request", "core"],
+      icon: "globe",
+    },
+  ],
+  [
+    httpResponsePlugin.slug,
+    {
+      handler: httpResponsePlugin,
+      isBuiltin: true,
+      tags: ["http", "webhook", "response", "workflow"],
+      icon: "reply",
+    },
+  ],
+  [
+    ifElsePlugin.slug,
+    {
+      handler: ifElsePlugin,
+      isBuiltin: true,
+      tags: ["router", "branch", "condition", "workflow"],
+      icon: "git-branch",
+    },
+  ],
+  [
+    setVariablePlugin.slug,
+    {
+      handler: setVariablePlugin,
+      isBuiltin: true,
+      tags: ["variable", "state", "workflow", "core"],
+      icon: "variable",
+    },
+  ],
+  [
+    subWorkflowPlugin.slug,
+    {
+      handler: subWorkflowPlugin,
+      isBuiltin: true,
+      tags: ["sub-workflow", "call", "reuse", "workflow"],
+      icon: "workflow",
+    },
+  ],
+  [
+    switchPlugin.slug,
+    {
+      handler: switchPlugin,
+      isBuiltin: true,
+      tags: ["router", "branch", "switch", "workflow"],
+      icon: "split",
+    },
+  ],
+  [
+    transformPlugin.slug,
+    {
+      handler: transformPlugin,
+      isBuiltin: true,
+      tags: ["transform", "json", "mapping", "core"],
+      icon: "braces",
+    },
+  ],
+  [
+    waitForReplyPlugin.slug,
+    {
+      handler: waitForReplyPlugin,
+      isBuiltin: true,
+      tags: ["wait", "reply", "conversation", "workflow"],
+      icon: "message-circle-reply",
+    },
+  ],
+  [
+    waitUntilPlugin.slug,
+    {
+      handler: waitUntilPlugin,
+      isBuiltin: true,
+      tags: ["delay", "wait", "schedule", "workflow"],
+      icon: "alarm-clock",
+    },
+  ],
 ]);
 
 /**
@@ -71,3 +185,9 @@ export function getAllBuiltinPluginSeedData(): Prisma.PluginCreateInput[] {
 
 // Re-export analytics module
 export * from "./analytics";
+export * from "./core";
+export * from "./delay";
+export * from "./foreach";
+export * from "./http-response";
+export * from "./router";
+export * from "./sub-workflow";
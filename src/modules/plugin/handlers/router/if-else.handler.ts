@@ -0,0 +1,137 @@
+/**
+ * If / Else Router Handler
+ *
+ * Built-in router step with two output ports, `true` and `false`. The
+ * workflow executor only follows edges leaving the port this step emits on;
+ * the step's own output is the upstream output, passed through unchanged.
+ *
+ * @module modules/plugin/handlers/router/if-else.handler
+ */
+
+import type { GatewayType } from "@prisma/client";
+
+import { IF_ELSE_PLUGIN_SLUG } from "@/shared/constants/workflow-ports";
+
+import {
+    BasePlugin,
+    type PluginContext,
+    type PluginEvent,
+    type PluginExecutionResult,
+} from "../../plugin.interface";
+import type { JSONSchema, PluginCategory } from "../../plugin.types";
+
+export type IfElseOperator =
+  | "isTruthy"
+  | "equals"
+  | "notEquals"
+  | "contains"
+  | "greaterThan"
+  | "lessThan";
+
+const OPERATORS: IfElseOperator[] = [
+  "isTruthy",
+  "equals",
+  "notEquals",
+  "contains",
+  "greaterThan",
+  "lessThan",
+];
+
+/**
+ * Compare `value` against `compareTo`. Mapped inputs arrive as strings, so
+ * equality is string-based and ordering is numeric.
+ *
+ * @internal exported for tests.
+ */
+export function evaluateIfElse(
+  value: unknown,
+  operator: IfElseOperator,
+  compareTo: unknown,
+): boolean {
+  switch (operator) {
+    case "equals":
+      return String(value ?? "") === String(compareTo ?? "");
+    case "notEquals":
+      return String(value ?? "") !== String(compareTo ?? "");
+    case "contains":
+      return String(value ?? "").includes(String(compareTo ?? ""));
+    case "greaterThan":
+      return Number(value) > Number(compareTo);
+    case "lessThan":
+      return Number(value) < Number(compareTo);
+    case "isTruthy":
+    default:
+      return Boolean(value) && value !== "false" && value !== "0";
+  }
+}
+
+/**
+ * If / Else Plugin
+ *
+ * `operator` and `compareTo` come from config; any of `value`, `operator`
+ * and `compareTo` may be supplied by the input mapping instead.
+ */
+export class IfElsePlugin extends BasePlugin {
+  readonly slug = IF_ELSE_PLUGIN_SLUG;
+  readonly name = "If / Else";
+  readonly description =
+    "Route the workflow down the true or false branch depending on a value.";
+  readonly version = "1.0.0";
+  readonly category: PluginCategory = "automation";
+  readonly requiredGateways: GatewayType[] = [];
+  readonly icon = "git-branch";
+  readonly tags: string[] = ["router", "branch", "condition", "workflow"];
+
+  readonly configSchema: JSONSchema = {
+    type: "object",
+    title: "If / Else",
+    properties: {
+      operator: {
+        type: "string",
+        title: "Operator",
+        enum: OPERATORS,
+        default: "isTruthy",
+      },
+      compareTo: {
+        type: "string",
+        title: "Compare To",
+        description: "Right-hand side for equals / contains / greaterThan / lessThan",
+      },
+    },
+  };
+
+  readonly inputSchema: JSONSchema = {
+    type: "object",
+    title: "If / Else Input",
+    properties: {
+      value: { description: "Value to test, e.g. {{trigger.text}}" },
+      operator: { type: "string", enum: OPERATORS },
+      compareTo: { type: "string" },
+    },
+  };
+
+  async onEvent(
+    event: PluginEvent,
+    context: PluginContext
+  ): Promise<PluginExecutionResult> {
+    if (!this.isWorkflowStep(event)) {
+      return this.failure(`Unsupported event type for if-else: ${event.type}`);
+    }
+
+    const config = (context.config ?? {}) as Record<string, unknown>;
+    const input = (event.data.input ?? {}) as Record<string, unknown>;
+
+    const operator = String(input.operator ?? config.operator ?? "isTruthy") as IfElseOperator;
+    if (!OPERATORS.includes(operator)) {
+      return this.failure(`if-else: unknown operator "${operator}"`);
+    }
+
+    const matched = evaluateIfElse(input.value, operator, input.compareTo ?? config.compareTo);
+    return {
+      ...this.success(event.data.previousOutput ?? null),
+      ports: [matched ? "true" : "false"],
+    };
+  }
+}
+
+export const ifElsePlugin = new IfElsePlugin();
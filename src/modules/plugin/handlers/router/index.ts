@@ -0,0 +1,16 @@
+/**
+ * Router Plugins Module
+ *
+ * Built-in workflow steps that pick which outgoing branch runs
+ * (if / else and switch).
+ *
+ * @module modules/plugin/handlers/router
+ */
+
+export {
+    IfElsePlugin,
+    evaluateIfElse,
+    ifElsePlugin,
+    type IfElseOperator,
+} from "./if-else.handler";
+export { SwitchPlugin, switchPlugin } from "./switch.handler";
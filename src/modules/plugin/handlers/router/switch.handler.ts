@@ -0,0 +1,79 @@
+/**
+ * Switch Router Handler
+ *
+ * Built-in router step with one output port per configured case plus a
+ * `default` port. Emits on the case equal to `value` (string comparison),
+ * else on `default`. Output is the upstream output, passed through.
+ *
+ * @module modules/plugin/handlers/router/switch.handler
+ */
+
+import type { GatewayType } from "@prisma/client";
+
+import {
+    SWITCH_DEFAULT_PORT,
+    SWITCH_PLUGIN_SLUG,
+    getSwitchCases,
+} from "@/shared/constants/workflow-ports";
+
+import {
+    BasePlugin,
+    type PluginContext,
+    type PluginEvent,
+    type PluginExecutionResult,
+} from "../../plugin.interface";
+import type { JSONSchema, PluginCategory } from "../../plugin.types";
+
+export class SwitchPlugin extends BasePlugin {
+  readonly slug = SWITCH_PLUGIN_SLUG;
+  readonly name = "Switch";
+  readonly description =
+    "Route the workflow down one of several branches by matching a value against cases.";
+  readonly version = "1.0.0";
+  readonly category: PluginCategory = "automation";
+  readonly requiredGateways: GatewayType[] = [];
+  readonly icon = "split";
+  readonly tags: string[] = ["router", "branch", "switch", "workflow"];
+
+  readonly configSchema: JSONSchema = {
+    type: "object",
+    title: "Switch",
+    properties: {
+      cases: {
+        type: "array",
+        title: "Cases",
+        description: "One output port per case; unmatched values go to \"default\"",
+        items: { type: "string" },
+      },
+    },
+  };
+
+  readonly inputSchema: JSONSchema = {
+    type: "object",
+    title: "Switch Input",
+    properties: {
+      value: { description: "Value to match against the cases, e.g. {{trigger.command}}" },
+    },
+  };
+
+  async onEvent(
+    event: PluginEvent,
+    context: PluginContext
+  ): Promise<PluginExecutionResult> {
+    if (!this.isWorkflowStep(event)) {
+      return this.failure(`Unsupported event type for switch: ${event.type}`);
+    }
+
+    const cases = getSwitchCases(context.config as Record<string, unknown>);
+    const input = (event.data.input ?? {}) as Record<string, unknown>;
+    const value = String(input.value ?? "").trim();
+    const port = cases.includes(value) ? value : SWITCH_DEFAULT_PORT;
+
+    return {
+      ...this.success(event.data.previousOutput ?? null),
+      ports: [port],
+    };
+  }
+}
+
+export const switchPlugin = new SwitchPlugin();
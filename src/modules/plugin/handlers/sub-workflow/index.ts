@@ -0,0 +1,13 @@
+/**
+ * Sub-Workflow Plugin Module
+ *
+ * Built-in workflow step that calls another workflow in the same project.
+ *
+ * @module modules/plugin/handlers/sub-workflow
+ */
+
+export {
+    SUB_WORKFLOW_PLUGIN_SLUG,
+    SubWorkflowPlugin,
+    subWorkflowPlugin,
+} from "./sub-workflow.handler";
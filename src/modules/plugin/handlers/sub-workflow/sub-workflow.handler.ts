@@ -0,0 +1,66 @@
+/**
+ * Sub-Workflow Handler
+ *
+ * Built-in step that calls another workflow in the same project and waits
+ * for it to finish. The step's mapped input becomes the callee's trigger
+ * data (`{{trigger.*}}`) and the callee's final output becomes this step's
+ * output. A callee can declare its contract in its trigger config
+ * (`requiredParams`, `paramsSchema`, `outputSchema`); calls are checked
+ * against it.
+ *
+ * The workflow executor runs the callee itself, so this handler only
+ * carries the catalog entry and schemas.
+ *
+ * @module modules/plugin/handlers/sub-workflow/sub-workflow.handler
+ */
+
+import type { GatewayType } from "@prisma/client";
+
+import {
+    BasePlugin,
+    type PluginEvent,
+    type PluginExecutionResult,
+} from "../../plugin.interface";
+import type { JSONSchema, PluginCategory } from "../../plugin.types";
+
+export const SUB_WORKFLOW_PLUGIN_SLUG = "sub-workflow";
+
+export class SubWorkflowPlugin extends BasePlugin {
+  readonly slug = SUB_WORKFLOW_PLUGIN_SLUG;
+  readonly name = "Run Workflow";
+  readonly description =
+    "Call another workflow in this project with the mapped input and continue with its final output.";
+  readonly version = "1.0.0";
+  readonly category: PluginCategory = "automation";
+  readonly requiredGateways: GatewayType[] = [];
+  readonly icon = "workflow";
+  readonly tags: string[] = ["sub-workflow", "call", "reuse", "workflow"];
+
+  readonly configSchema: JSONSchema = {
+    type: "object",
+    title: "Run Workflow",
+    properties: {
+      workflowId: {
+        type: "string",
+        title: "Workflow",
+        description: "ID of the workflow to call. It must be in the same project and active.",
+      },
+    },
+    required: ["workflowId"],
+  };
+
+  readonly inputSchema: JSONSchema = {
+    type: "object",
+    title: "Run Workflow Input",
+    description: "Each mapped field is passed to the called workflow as {{trigger.<field>}}",
+    properties: {},
+  };
+
+  async onEvent(event: PluginEvent): Promise<PluginExecutionResult> {
+    return this.failure(
+      `Sub-workflow steps are executed by the workflow engine (got ${event.type})`,
+    );
+  }
+}
+
+export const subWorkflowPlugin = new SubWorkflowPlugin();
@@ -83,6 +83,9 @@ export function gatewayTypeToPlatform(gatewayType: string): string {
     case 'DISCORD_BOT': return 'discord';
     case 'SLACK_BOT': return 'slack';
     case 'WHATSAPP_BOT': return 'whatsapp';
+    case 'WEB_CHAT': return 'webchat';
+    case 'EMAIL': return 'email';
+    case 'MATRIX': return 'matrix';
     default: return gatewayType.toLowerCase().replace(/_bot$/, '');
   }
 }
@@ -832,7 +835,7 @@ class PluginDeployService {
     const pathsToTry = [filePath];
     // If entryFile uses old format (bots/{gwId}/plugins/...), also try new format
     const oldFmtMatch = filePath.match(/^bots\/([^/]+)\/plugins\//);
-    if (oldFmtMatch && !filePath.match(/^bots\/(telegram|discord|slack|whatsapp)\//)) {
+    if (oldFmtMatch && !filePath.match(/^bots\/(telegram|discord|slack|whatsapp|webchat|email|matrix)\//)) {
       // Old format detected — compute potential new-format path
       const gwId = oldFmtMatch[1];
       const gw = await prisma.gateway.findUnique({ where: { id: gwId }, select: { type: true } });
@@ -843,7 +846,7 @@ class PluginDeployService {
       }
     }
     // If entryFile uses new format, also try old format
-    const newFmtMatch = filePath.match(/^bots\/(telegram|discord|slack|whatsapp)\/([^/]+)\/plugins\//);
+    const newFmtMatch = filePath.match(/^bots\/(telegram|discord|slack|whatsapp|webchat|email|matrix)\/([^/]+)\/plugins\//);
     if (newFmtMatch) {
       const gwId = newFmtMatch[2];
       const oldPath = filePath.replace(`bots/${newFmtMatch[1]}/${gwId}/plugins/`, `bots/${gwId}/plugins/`);
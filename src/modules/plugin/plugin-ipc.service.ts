@@ -16,11 +16,26 @@ import { twoBotAIProvider } from '@/modules/2bot-ai-provider';
 import type {
     TextGenerationMessage,
     TwoBotAIModel,
+    WorkflowStepRef,
 } from '@/modules/2bot-ai-provider/types';
 import { gatewayService } from '@/modules/gateway';
 import { gatewayRegistry } from '@/modules/gateway/gateway.registry';
 import { extractGatewayIdFromPath } from '@/modules/plugin/plugin-deploy.service';
 import { pluginSlugFromPath } from '@/modules/plugin/plugin.types';
+import {
+    kvDelete,
+    kvGet,
+    kvHas,
+    kvList,
+    kvSet,
+} from '@/modules/project-resource/kv-store.service';
+import {
+    createSignedObjectUrl,
+    objectDelete,
+    objectGet,
+    objectList,
+    objectPut,
+} from '@/modules/project-resource/object-store.service';
 
 import { createPluginStorage } from './plugin.executor';
 
@@ -54,6 +69,16 @@ export type PluginIpcMethod =
   | 'storage.setMany'
   | 'storage.clearPlugin'
   | 'storage.dump'
+  | 'kv.get'
+  | 'kv.set'
+  | 'kv.delete'
+  | 'kv.has'
+  | 'kv.list'
+  | 'objects.put'
+  | 'objects.get'
+  | 'objects.delete'
+  | 'objects.list'
+  | 'objects.signedUrl'
   | 'gateway.execute'
   | 'gateway.list'
   | 'gateway.getCredentials'
@@ -86,6 +111,8 @@ interface CachedPluginContext {
   userId: string;
   organizationId: string | null;
   userPluginId: string;
+  /** Project the UserPlugin belongs to — scopes KV_STORE / OBJECT_STORE access. */
+  projectId: string;
   resolvedAt: number;
 }
 
@@ -145,6 +172,58 @@ const AI_RATE_LIMIT_MAX = 30;
 /** Rate limit window: 60 seconds */
 const AI_RATE_LIMIT_WINDOW_S = 60;
 
+/**
+ * Workflow run and step an AI call belongs to. Plugins running as a
+ * workflow step pass the event's `_workflow` (`{ runId, stepOrder }`) so
+ * the credits show up in the workflow's analytics.
+ */
+function readWorkflowStep(data: Record<string, unknown>): WorkflowStepRef | undefined {
+  const ref = data.workflow as { runId?: unknown; stepOrder?: unknown } | null | undefined;
+  if (!ref || typeof ref !== 'object') return undefined;
+  const { runId, stepOrder } = ref;
+  if (typeof runId !== 'string' || !runId || runId.length > 64) return undefined;
+  if (typeof stepOrder !== 'number' || !Number.isInteger(stepOrder) || stepOrder < 0) return undefined;
+  return { runId, stepOrder };
+}
+
+/**
+ * The plugin-supplied workflow reference, if it names a running run of the
+ * caller's own workflows whose step at `stepOrder` executes this plugin.
+ * Anything else is dropped — the credits are still charged, just not
+ * attributed to a run the plugin has no part in.
+ */
+async function verifyWorkflowStep(
+  userId: string,
+  organizationId: string | null,
+  userPluginId: string,
+  data: Record<string, unknown>,
+): Promise<WorkflowStepRef | undefined> {
+  const ref = readWorkflowStep(data);
+  if (!ref) return undefined;
+
+  const run = await prisma.workflowRun.findFirst({
+    where: {
+      id: ref.runId,
+      status: 'running',
+      workflow: {
+        ...(organizationId ? { organizationId } : { userId, organizationId: null }),
+        steps: {
+          some: {
+            order: ref.stepOrder,
+            plugin: { userPlugins: { some: { id: userPluginId } } },
+          },
+        },
+      },
+    },
+    select: { id: true },
+  });
+  if (!run) {
+    ipcLog.warn({ userPluginId, runId: ref.runId, stepOrder: ref.stepOrder }, 'Ignoring workflow reference the plugin does not belong to');
+    return undefined;
+  }
+  return ref;
+}
+
 /**
  * Check and increment the AI rate limit for a plugin using Redis INCR + EXPIRE.
  * Survives server restarts and works across multiple instances.
@@ -230,6 +309,36 @@ class PluginIpcService {
         case 'storage.dump':
           result = await this.storageDump(ctx.userPluginId);
           break;
+        case 'kv.get':
+          result = await this.kvGet(ctx, data);
+          break;
+        case 'kv.set':
+          result = await this.kvSet(ctx, data);
+          break;
+        case 'kv.delete':
+          result = await this.kvDelete(ctx, data);
+          break;
+        case 'kv.has':
+          result = await this.kvHas(ctx, data);
+          break;
+        case 'kv.list':
+          result = await this.kvList(ctx, data);
+          break;
+        case 'objects.put':
+          result = await this.objectsPut(ctx, data);
+          break;
+        case 'objects.get':
+          result = await this.objectsGet(ctx, data);
+          break;
+        case 'objects.delete':
+          result = await this.objectsDelete(ctx, data);
+          break;
+        case 'objects.list':
+          result = await this.objectsList(ctx, data);
+          break;
+        case 'objects.signedUrl':
+          result = await this.objectsSignedUrl(ctx, data);
+          break;
         case 'gateway.execute':
           result = await this.gatewayExecute(ctx.userId, ctx.organizationId, data);
           break;
@@ -317,7 +426,7 @@ class PluginIpcService {
         ...(pathGatewayId ? { gatewayId: pathGatewayId } : {}),
       },
       orderBy: { createdAt: 'desc' },
-      select: { id: true },
+      select: { id: true, projectId: true },
     });
 
     if (!userPlugin && container.organizationId) {
@@ -330,7 +439,7 @@ class PluginIpcService {
           ...(pathGatewayId ? { gatewayId: pathGatewayId } : {}),
         },
         orderBy: { createdAt: 'desc' },
-        select: { id: true },
+        select: { id: true, projectId: true },
       });
     }
 
@@ -344,7 +453,7 @@ class PluginIpcService {
           ...(pathGatewayId ? { gatewayId: pathGatewayId } : {}),
         },
         orderBy: { createdAt: 'desc' },
-        select: { id: true },
+        select: { id: true, projectId: true },
       });
     }
 
@@ -356,6 +465,7 @@ class PluginIpcService {
       userId: container.userId,
       organizationId: container.organizationId,
       userPluginId: userPlugin.id,
+      projectId: userPlugin.projectId,
       resolvedAt: Date.now(),
     };
 
@@ -556,6 +666,115 @@ class PluginIpcService {
     return { deleted: totalDeleted };
   }
 
+  // ===========================================
+  // KV_STORE Operations
+  // ===========================================
+
+  /**
+   * KV_STORE resources are project-scoped and addressed by slug, so unlike
+   * `storage.*` they are shared by every plugin and workflow in the project.
+   */
+  private async kvGet(ctx: CachedPluginContext, data: Record<string, unknown>): Promise<unknown> {
+    const { store, key } = this.kvTarget('kv.get', data);
+    return kvGet(this.resourceOwner(ctx), ctx.projectId, store, key);
+  }
+
+  private async kvSet(
+    ctx: CachedPluginContext,
+    data: Record<string, unknown>,
+  ): Promise<unknown> {
+    const { store, key } = this.kvTarget('kv.set', data);
+    if (data.value === undefined) throw new Error('kv.set requires "value"');
+    return kvSet(this.resourceOwner(ctx), ctx.projectId, store, key, data.value, {
+      ttlSeconds: data.ttlSeconds as number | undefined,
+    });
+  }
+
+  private async kvDelete(ctx: CachedPluginContext, data: Record<string, unknown>): Promise<boolean> {
+    const { store, key } = this.kvTarget('kv.delete', data);
+    return kvDelete(this.resourceOwner(ctx), ctx.projectId, store, key);
+  }
+
+  private async kvHas(ctx: CachedPluginContext, data: Record<string, unknown>): Promise<boolean> {
+    const { store, key } = this.kvTarget('kv.has', data);
+    return kvHas(this.resourceOwner(ctx), ctx.projectId, store, key);
+  }
+
+  private async kvList(ctx: CachedPluginContext, data: Record<string, unknown>): Promise<unknown> {
+    const store = data.store as string;
+    if (!store) throw new Error('kv.list requires "store"');
+    return kvList(this.resourceOwner(ctx), ctx.projectId, store, {
+      prefix: data.prefix as string | undefined,
+      limit: data.limit as number | undefined,
+      cursor: data.cursor as string | undefined,
+    });
+  }
+
+  private kvTarget(method: string, data: Record<string, unknown>): { store: string; key: string } {
+    const store = data.store as string;
+    const key = data.key as string;
+    if (!store || !key) throw new Error(`${method} requires "store" and "key"`);
+    return { store, key };
+  }
+
+  private resourceOwner(ctx: CachedPluginContext): { userId: string; organizationId: string | null } {
+    return { userId: ctx.userId, organizationId: ctx.organizationId };
+  }
+
+  // ===========================================
+  // OBJECT_STORE Operations
+  // ===========================================
+
+  /** Bodies cross the bridge WebSocket base64-encoded in both directions. */
+  private async objectsPut(ctx: CachedPluginContext, data: Record<string, unknown>): Promise<unknown> {
+    const { store, key } = this.kvTarget('objects.put', data);
+    if (typeof data.dataBase64 !== 'string') {
+      throw new Error('objects.put requires "dataBase64"');
+    }
+    return objectPut(
+      this.resourceOwner(ctx),
+      ctx.projectId,
+      store,
+      key,
+      Buffer.from(data.dataBase64, 'base64'),
+      { contentType: data.contentType as string | undefined },
+    );
+  }
+
+  private async objectsGet(ctx: CachedPluginContext, data: Record<string, unknown>): Promise<unknown> {
+    const { store, key } = this.kvTarget('objects.get', data);
+    const object = await objectGet(this.resourceOwner(ctx), ctx.projectId, store, key);
+    if (!object) return null;
+    return {
+      dataBase64: object.body.toString('base64'),
+      contentType: object.contentType,
+      sizeBytes: object.sizeBytes,
+      sha256: object.sha256,
+    };
+  }
+
+  private async objectsDelete(ctx: CachedPluginContext, data: Record<string, unknown>): Promise<boolean> {
+    const { store, key } = this.kvTarget('objects.delete', data);
+    return objectDelete(this.resourceOwner(ctx), ctx.projectId, store, key);
+  }
+
+  private async objectsList(ctx: CachedPluginContext, data: Record<string, unknown>): Promise<unknown> {
+    const store = data.store as string;
+    if (!store) throw new Error('objects.list requires "store"');
+    return objectList(this.resourceOwner(ctx), ctx.projectId, store, {
+      prefix: data.prefix as string | undefined,
+      limit: data.limit as number | undefined,
+      cursor: data.cursor as string | undefined,
+    });
+  }
+
+  private async objectsSignedUrl(ctx: CachedPluginContext, data: Record<string, unknown>): Promise<unknown> {
+    const { store, key } = this.kvTarget('objects.signedUrl', data);
+    return createSignedObjectUrl(this.resourceOwner(ctx), ctx.projectId, store, key, {
+      expiresInSeconds: data.expiresInSeconds as number | undefined,
+    });
+  }
+
   // ===========================================
   // Gateway Operations
   // ===========================================
@@ -767,6 +986,7 @@ class PluginIpcService {
       organizationId: organizationId ?? undefined,
       smartRouting: false, // Plugins use explicit model selection
       userPluginId,
+      workflowStep: await verifyWorkflowStep(userId, organizationId, userPluginId, data),
       feature: "plugin-ipc",
     });
 
@@ -826,6 +1046,7 @@ class PluginIpcService {
       userId,
       organizationId: organizationId ?? undefined,
       userPluginId,
+      workflowStep: await verifyWorkflowStep(userId, organizationId, userPluginId, data),
     } as Parameters<typeof twoBotAIProvider.imageGeneration>[0]);
 
     return {
@@ -882,6 +1103,7 @@ class PluginIpcService {
       userId,
       organizationId: organizationId ?? undefined,
       userPluginId,
+      workflowStep: await verifyWorkflowStep(userId, organizationId, userPluginId, data),
     });
 
     return {
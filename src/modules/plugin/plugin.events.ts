@@ -27,6 +27,8 @@ import type {
     DiscordGuildMemberEventData,
     DiscordInteractionEventData,
     DiscordMessageEventData,
+    EmailMessageEventData,
+    MatrixMessageEventData,
     PluginContext,
     PluginEvent,
     PluginExecutionResult,
@@ -41,6 +43,7 @@ import type {
     TelegramMessageEventData,
     TelegramPollAnswerEventData,
     TelegramPollEventData,
+    WebChatMessageEventData,
     WhatsAppMessageEventData,
     WhatsAppStatusEventData,
 } from "./plugin.interface";
@@ -1625,3 +1628,150 @@ export async function handleWhatsAppWebhook(
     results: allResults,
   };
 }
+
+// ===========================================
+// Web Chat Event Transformation
+// ===========================================
+
+/**
+ * A visitor message as received by the web chat API. Also stored as the
+ * trigger's `rawUpdate`, so `id` doubles as the run idempotency key.
+ */
+export interface WebChatInboundMessage {
+  id: string;
+  sessionId: string;
+  visitorId: string;
+  text: string;
+  timestamp: string; // ISO timestamp
+  visitorName?: string;
+  pageUrl?: string;
+}
+
+/**
+ * Transform a web chat visitor message into a PluginEvent
+ */
+export function transformWebChatMessage(
+  msg: WebChatInboundMessage,
+  gatewayId: string,
+): PluginEvent {
+  const data: WebChatMessageEventData = {
+    sessionId: msg.sessionId,
+    visitorId: msg.visitorId,
+    messageId: msg.id,
+    text: msg.text,
+    timestamp: msg.timestamp,
+  };
+  if (msg.visitorName) data.visitorName = msg.visitorName;
+  if (msg.pageUrl) data.pageUrl = msg.pageUrl;
+
+  return { type: "webchat.message", data, gatewayId };
+}
+
+// ===========================================
+// Email Event Transformation
+// ===========================================
+
+/**
+ * An email as fetched from the gateway's mailbox. Also stored as the
+ * trigger's `rawUpdate`, so `id` (the Message-ID) doubles as the run
+ * idempotency key.
+ */
+export interface EmailInboundMessage {
+  id: string;
+  uid: number; // IMAP UID in the polled mailbox
+  messageId: string;
+  threadId: string;
+  inReplyTo?: string;
+  references: string[];
+  from: string;
+  fromName?: string;
+  replyTo?: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  text: string;
+  replyText: string;
+  html?: string;
+  timestamp: string; // ISO timestamp
+  attachments: Array<{ filename: string; contentType: string; size: number }>;
+}
+
+/**
+ * Transform an inbound email into a PluginEvent
+ */
+export function transformEmailMessage(
+  msg: EmailInboundMessage,
+  gatewayId: string,
+): PluginEvent {
+  const data: EmailMessageEventData = {
+    messageId: msg.messageId,
+    threadId: msg.threadId,
+    references: msg.references,
+    from: msg.from,
+    to: msg.to,
+    cc: msg.cc,
+    subject: msg.subject,
+    text: msg.text,
+    replyText: msg.replyText,
+    timestamp: msg.timestamp,
+    attachments: msg.attachments,
+  };
+  if (msg.inReplyTo) data.inReplyTo = msg.inReplyTo;
+  if (msg.fromName) data.fromName = msg.fromName;
+  if (msg.replyTo) data.replyTo = msg.replyTo;
+  if (msg.html) data.html = msg.html;
+
+  return { type: "email.message", data, gatewayId };
+}
+
+// ===========================================
+// Matrix Event Transformation
+// ===========================================
+
+/**
+ * A room message as normalized by the Matrix sync loop. Also stored as the
+ * trigger's `rawUpdate`, so `id` (the event ID) doubles as the run
+ * idempotency key.
+ */
+export interface MatrixInboundMessage {
+  id: string;
+  eventId: string;
+  roomId: string;
+  sender: string;
+  senderName?: string;
+  text: string;
+  msgtype: string;
+  formattedBody?: string;
+  replyToEventId?: string;
+  threadRootId?: string;
+  isDirect: boolean;
+  mentioned: boolean;
+  timestamp: string; // ISO timestamp
+  roomName?: string;
+}
+
+/**
+ * Transform a Matrix room message into a PluginEvent
+ */
+export function transformMatrixMessage(
+  msg: MatrixInboundMessage,
+  gatewayId: string,
+): PluginEvent {
+  const data: MatrixMessageEventData = {
+    roomId: msg.roomId,
+    eventId: msg.eventId,
+    sender: msg.sender,
+    text: msg.text,
+    msgtype: msg.msgtype,
+    isDirect: msg.isDirect,
+    mentioned: msg.mentioned,
+    timestamp: msg.timestamp,
+  };
+  if (msg.senderName) data.senderName = msg.senderName;
+  if (msg.formattedBody) data.formattedBody = msg.formattedBody;
+  if (msg.replyToEventId) data.replyToEventId = msg.replyToEventId;
+  if (msg.threadRootId) data.threadRootId = msg.threadRootId;
+  if (msg.roomName) data.roomName = msg.roomName;
+
+  return { type: "matrix.message", data, gatewayId };
+}
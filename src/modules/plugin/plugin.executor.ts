@@ -182,26 +182,30 @@ async function executeInProcess(
   // Create abort controller for timeout
   const abortController = new AbortController();
   const timeoutId = setTimeout(() => {
-    abortController.abort();
+    abortController.abort(new PluginTimeoutError(pluginSlug, config.timeoutMs));
   }, config.timeoutMs);
 
+  // A caller-supplied signal (e.g. a workflow step timeout) cancels too
+  const onCallerAbort = () => abortController.abort(context.signal?.reason);
+  if (context.signal?.aborted) onCallerAbort();
+  else context.signal?.addEventListener("abort", onCallerAbort, { once: true });
+
   // Add abort signal to context
   const contextWithSignal: PluginContext = {
     ...context,
     signal: abortController.signal,
   };
 
+  const aborted = rejectOnAbort(abortController.signal);
+
   try {
     const result = await Promise.race([
       handler.onEvent(event, contextWithSignal),
-      new Promise<never>((_, reject) => {
-        abortController.signal.addEventListener("abort", () => {
-          reject(new PluginTimeoutError(pluginSlug, config.timeoutMs));
-        });
-      }),
+      aborted.promise,
     ]);
 
     clearTimeout(timeoutId);
+    context.signal?.removeEventListener("abort", onCallerAbort);
 
     return {
       ...result,
@@ -212,8 +216,9 @@ async function executeInProcess(
     };
   } catch (error) {
     clearTimeout(timeoutId);
+    context.signal?.removeEventListener("abort", onCallerAbort);
 
-    if (error instanceof PluginTimeoutError) {
+    if (error instanceof PluginTimeoutError || error === abortController.signal.reason) {
       throw error;
     }
 
@@ -222,9 +227,34 @@ async function executeInProcess(
       pluginSlug,
       error instanceof Error ? error : undefined
     );
+  } finally {
+    aborted.cleanup();
   }
 }
 
+/**
+ * A promise that rejects with the signal's abort reason once it aborts.
+ * Call `cleanup` when the race settles — run signals outlive many steps,
+ * and each pending listener would stay attached to them.
+ */
+function rejectOnAbort(signal: AbortSignal): { promise: Promise<never>; cleanup: () => void } {
+  let onAbort: (() => void) | undefined;
+  const promise = new Promise<never>((_, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+  return {
+    promise,
+    cleanup: () => {
+      if (onAbort) signal.removeEventListener("abort", onAbort);
+    },
+  };
+}
+
 // ===========================================
 // Workspace Container Executor
 // ===========================================
@@ -372,6 +402,9 @@ async function executeInWorkspace(
       pluginFile = getPluginEntryPath(effectiveGwId, pluginSlug, { platform, isDirectory: isDir });
     }
 
+    // The container process can't be interrupted; stop waiting for it on abort
+    const aborted = context.signal ? rejectOnAbort(context.signal) : undefined;
+
     // Push event to the running plugin via IPC
     // Convert to raw format so container plugins see standard API field names
     // Include _config so the SDK can update sdk.config per-execution (step-level overrides)
@@ -388,7 +421,8 @@ async function executeInWorkspace(
           reject(new PluginTimeoutError(pluginSlug, config.timeoutMs));
         }, config.timeoutMs);
       }),
-    ]);
+      ...(aborted ? [aborted.promise] : []),
+    ]).finally(() => aborted?.cleanup());
 
     const durationMs = Date.now() - startTime;
 
@@ -410,7 +444,7 @@ async function executeInWorkspace(
       };
     }
   } catch (error) {
-    if (error instanceof PluginTimeoutError) {
+    if (error instanceof PluginTimeoutError || (context.signal?.aborted && error === context.signal.reason)) {
       throw error;
     }
     throw new PluginExecutionError(
@@ -514,7 +548,7 @@ export class PluginExecutor {
         // If the plugin declares permissions, enforce them
         if (Object.keys(perms).length > 0) {
           // Events that require "reply" permission (messaging events)
-          const replyEvents = ["telegram.message", "telegram.callback", "discord.message", "slack.message", "whatsapp.message"];
+          const replyEvents = ["telegram.message", "telegram.callback", "discord.message", "slack.message", "whatsapp.message", "webchat.message", "email.message", "matrix.message"];
           if (replyEvents.includes(event.type) && perms.reply === false) {
             executorLogger.warn(
               { pluginSlug, eventType: event.type, userId: context.userId },
@@ -418,6 +418,59 @@ export interface WhatsAppStatusEventData {
   errors?: Array<{ code: number; title: string; message?: string }>;
 }
 
+/**
+ * Web chat inbound message event — a visitor typed into the embedded widget
+ */
+export interface WebChatMessageEventData {
+  sessionId: string; // Widget session — replies go to this
+  visitorId: string; // Stable per browser, survives new sessions
+  messageId: string;
+  text: string;
+  timestamp: string; // ISO timestamp
+  visitorName?: string;
+  pageUrl?: string; // Page the widget was open on
+}
+
+/**
+ * Email inbound message event — a message arrived in the gateway's mailbox
+ */
+export interface EmailMessageEventData {
+  messageId: string; // Message-ID header, e.g. <abc@mail.example.com>
+  threadId: string; // Root Message-ID of the thread — replies go to this
+  inReplyTo?: string;
+  references: string[]; // References header, oldest first
+  from: string; // Sender address (lowercased)
+  fromName?: string;
+  replyTo?: string; // Reply-To address, when it differs from the sender
+  to: string[];
+  cc: string[];
+  subject: string;
+  text: string; // Full plain-text body
+  replyText: string; // Body without the quoted earlier messages
+  html?: string;
+  timestamp: string; // ISO timestamp (Date header)
+  attachments: Array<{ filename: string; contentType: string; size: number }>;
+}
+
+/**
+ * Matrix room message event — someone posted in a room the bot has joined
+ */
+export interface MatrixMessageEventData {
+  roomId: string; // !abc:example.org — replies go to this
+  eventId: string; // $event_id
+  sender: string; // @user:example.org
+  senderName?: string; // Display name in the room
+  text: string; // Plain-text body
+  msgtype: string; // m.text, m.emote, m.image, …
+  formattedBody?: string; // HTML body (org.matrix.custom.html)
+  replyToEventId?: string; // Event this message replies to
+  threadRootId?: string; // Root event when posted in a thread
+  isDirect: boolean; // One-to-one room
+  mentioned: boolean; // The bot was mentioned
+  timestamp: string; // ISO timestamp
+  roomName?: string;
+}
+
 /**
  * Metadata attached to events when executed inside a workflow step.
  * Allows plugins to detect workflow mode and access structured input/output.
@@ -452,6 +505,9 @@ export type PluginEvent = (
   | { type: "slack.reaction_removed"; data: SlackReactionEventData; gatewayId: string }
   | { type: "whatsapp.message"; data: WhatsAppMessageEventData; gatewayId: string }
   | { type: "whatsapp.status"; data: WhatsAppStatusEventData; gatewayId: string }
+  | { type: "webchat.message"; data: WebChatMessageEventData; gatewayId: string }
+  | { type: "email.message"; data: EmailMessageEventData; gatewayId: string }
+  | { type: "matrix.message"; data: MatrixMessageEventData; gatewayId: string }
   | { type: "schedule.trigger"; data: ScheduleTriggerEventData }
   | { type: "manual.trigger"; data: ManualTriggerEventData }
   | { type: "http.request"; data: HttpRequestEventData }
@@ -481,6 +537,9 @@ export const PLUGIN_EVENT_TYPES = {
   SLACK_REACTION_REMOVED: "slack.reaction_removed",
   WHATSAPP_MESSAGE: "whatsapp.message",
   WHATSAPP_STATUS: "whatsapp.status",
+  WEBCHAT_MESSAGE: "webchat.message",
+  EMAIL_MESSAGE: "email.message",
+  MATRIX_MESSAGE: "matrix.message",
   SCHEDULE_TRIGGER: "schedule.trigger",
   MANUAL_TRIGGER: "manual.trigger",
   HTTP_REQUEST: "http.request",
@@ -620,6 +679,12 @@ export interface PluginExecutionResult {
   /** Error message if failed */
   error?: string;
 
+  /**
+   * Output ports this run emitted on (router steps only). Workflow edges
+   * leaving any other port are not followed. Omitted = every port.
+   */
+  ports?: string[];
+
   /** Execution metrics */
   metrics: {
     /** Execution duration in milliseconds */
@@ -21,6 +21,7 @@ vi.mock("@/modules/plugin/plugin.executor", () => ({
 
 import { prisma } from "@/lib/prisma";
 import { handleWebhookTrigger } from "@/modules/workflow/workflow.triggers";
+import type { WorkflowRunHooks as Hooks } from "@/modules/workflow/workflow.types";
 
 import { dispatchHttpRoute } from "../http-route-dispatch";
 
@@ -143,6 +144,140 @@ describe("http-route-dispatch — workflow target", () => {
   });
 });
 
+// ===========================================================================
+// Phase 8.3: WORKFLOW_OUTPUT response mode
+// ===========================================================================
+
+describe("http-route-dispatch — WORKFLOW_OUTPUT response mode", () => {
+  beforeEach(() => {
+    mockedPrisma.httpRoute.findMany.mockReset();
+    mockedHandleWebhookTrigger.mockReset();
+  });
+
+  function dispatch() {
+    return dispatchHttpRoute({
+      projectId: "proj-1",
+      method: "POST",
+      path: "/hooks/run",
+      headers: {},
+      body: { q: 1 },
+    });
+  }
+
+  it("answers with the http-response step output and leaves the run going", async () => {
+    mockedPrisma.httpRoute.findMany.mockResolvedValue([
+      makeRoute({ targetWorkflowId: "wf-1", responseMode: "WORKFLOW_OUTPUT", corsOrigin: "*" }),
+    ]);
+    let finishRun: () => void = () => {};
+    mockedHandleWebhookTrigger.mockImplementation(
+      async (_id: string, _data: unknown, hooks: Hooks) => {
+        hooks.onRunCreated?.("run-1");
+        hooks.onStepCompleted?.({ id: "s-0", order: 0, pluginSlug: "ai-chat" }, { text: "hi" });
+        hooks.onStepCompleted?.(
+          { id: "s-1", order: 1, pluginSlug: "http-response" },
+          { status: 201, headers: { "X-Trace": "abc" }, body: { ok: true } },
+        );
+        // Later steps still pending when the response is sent.
+        await new Promise<void>((r) => (finishRun = r));
+        return "run-1";
+      },
+    );
+
+    const res = await dispatch();
+    finishRun();
+
+    expect(res.status).toBe(201);
+    expect(res.body).toEqual({ ok: true });
+    expect(res.headers).toMatchObject({
+      "x-trace": "abc",
+      "access-control-allow-origin": "*",
+    });
+  });
+
+  it("only answers from the designated responseStepId when set", async () => {
+    mockedPrisma.httpRoute.findMany.mockResolvedValue([
+      makeRoute({
+        targetWorkflowId: "wf-1",
+        responseMode: "WORKFLOW_OUTPUT",
+        responseStepId: "s-2",
+      }),
+    ]);
+    mockedHandleWebhookTrigger.mockImplementation(
+      async (_id: string, _data: unknown, hooks: Hooks) => {
+        hooks.onRunCreated?.("run-2");
+        hooks.onStepCompleted?.({ id: "s-1", order: 1, pluginSlug: "http-response" }, "first");
+        hooks.onStepCompleted?.({ id: "s-2", order: 2, pluginSlug: "transform" }, "second");
+        return "run-2";
+      },
+    );
+
+    const res = await dispatch();
+    expect(res.status).toBe(200);
+    expect(res.body).toBe("second");
+  });
+
+  it("falls back to the final output, or 500 when the run fails", async () => {
+    mockedPrisma.httpRoute.findMany.mockResolvedValue([
+      makeRoute({ targetWorkflowId: "wf-1", responseMode: "WORKFLOW_OUTPUT" }),
+    ]);
+    mockedHandleWebhookTrigger.mockImplementationOnce(
+      async (_id: string, _data: unknown, hooks: Hooks) => {
+        hooks.onRunCreated?.("run-3");
+        hooks.onRunFinished?.({ status: "completed", output: { total: 3 } });
+        return "run-3";
+      },
+    );
+    expect(await dispatch()).toMatchObject({ status: 200, body: { total: 3 } });
+
+    mockedHandleWebhookTrigger.mockImplementationOnce(
+      async (_id: string, _data: unknown, hooks: Hooks) => {
+        hooks.onRunCreated?.("run-4");
+        hooks.onRunFinished?.({ status: "failed", error: "boom" });
+        return "run-4";
+      },
+    );
+    expect(await dispatch()).toMatchObject({
+      status: 500,
+      body: { error: "workflow_failed", runId: "run-4" },
+    });
+  });
+
+  it("falls back to 202 with the runId after timeoutMs", async () => {
+    vi.useFakeTimers();
+    try {
+      mockedPrisma.httpRoute.findMany.mockResolvedValue([
+        makeRoute({ targetWorkflowId: "wf-1", responseMode: "WORKFLOW_OUTPUT", timeoutMs: 500 }),
+      ]);
+      mockedHandleWebhookTrigger.mockImplementation(
+        (_id: string, _data: unknown, hooks: Hooks) => {
+          hooks.onRunCreated?.("run-5");
+          return new Promise<string>(() => {});
+        },
+      );
+
+      const pending = dispatch();
+      await vi.advanceTimersByTimeAsync(500);
+      const res = await pending;
+
+      expect(res.status).toBe(202);
+      expect(res.body).toEqual({ runId: "run-5" });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("returns 503 when the run cannot start", async () => {
+    mockedPrisma.httpRoute.findMany.mockResolvedValue([
+      makeRoute({ targetWorkflowId: "wf-1", responseMode: "WORKFLOW_OUTPUT" }),
+    ]);
+    mockedHandleWebhookTrigger.mockRejectedValue(new Error("Workflow is not active"));
+
+    const res = await dispatch();
+    expect(res.status).toBe(503);
+    expect(res.body).toEqual({ error: "handler_unavailable" });
+  });
+});
+
 // ===========================================================================
 // Phase 7.4: secrets injection into UserPlugin context
 // ===========================================================================
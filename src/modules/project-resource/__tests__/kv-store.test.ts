@@ -0,0 +1,271 @@
+/**
+ * KV_STORE ProjectResource tests (Phase 8.1)
+ *
+ * Validates:
+ *   - `validateKvStoreSpec` enforces quota / TTL bounds
+ *   - `kvSet` rejects writes past `maxKeys` / `maxBytes`, counts only the
+ *     size delta on overwrite, and applies the store's default TTL
+ *   - `kvGet` treats expired entries as missing
+ *   - `kvList` paginates with `nextCursor`
+ *   - stores owned by another tenant resolve as NotFound
+ *   - `loadKvReferences` skips unavailable stores
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(prismaMock)),
+    $queryRaw: vi.fn(async () => []),
+    projectResource: { findUnique: vi.fn() },
+    kvEntry: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+      aggregate: vi.fn(),
+      deleteMany: vi.fn(),
+      upsert: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from "@/lib/prisma";
+import {
+    kvGet,
+    kvList,
+    kvSet,
+    loadKvReferences,
+} from "../kv-store.service";
+import { validateKvStoreSpec } from "../project-resource.service";
+
+type Fn = ReturnType<typeof vi.fn>;
+const prismaMock = prisma as unknown as {
+  $transaction: Fn;
+  $queryRaw: Fn;
+  projectResource: { findUnique: Fn };
+  kvEntry: {
+    findUnique: Fn;
+    findMany: Fn;
+    count: Fn;
+    aggregate: Fn;
+    deleteMany: Fn;
+    upsert: Fn;
+  };
+};
+
+const owner = { userId: "u-1", organizationId: null };
+
+function storeRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "res-1",
+    projectId: "proj-1",
+    userId: "u-1",
+    organizationId: null,
+    kind: "KV_STORE",
+    slug: "cache",
+    status: "ACTIVE",
+    kvStore: {
+      id: "kv-1",
+      resourceId: "res-1",
+      maxBytes: 2048,
+      maxKeys: 2,
+      defaultTtlSeconds: 0,
+    },
+    ...overrides,
+  };
+}
+
+function usage(count: number, bytes: number) {
+  return { _count: { _all: count }, _sum: { sizeBytes: bytes } };
+}
+
+function resetMocks() {
+  prismaMock.$transaction.mockClear();
+  prismaMock.$transaction.mockImplementation(async (fn: (tx: unknown) => unknown) =>
+    fn(prismaMock),
+  );
+  prismaMock.$queryRaw.mockClear();
+  prismaMock.projectResource.findUnique.mockReset();
+  prismaMock.projectResource.findUnique.mockResolvedValue(storeRow());
+  for (const fn of Object.values(prismaMock.kvEntry)) fn.mockReset();
+  prismaMock.kvEntry.deleteMany.mockResolvedValue({ count: 0 });
+  prismaMock.kvEntry.upsert.mockResolvedValue({});
+}
+
+describe("validateKvStoreSpec", () => {
+  it("accepts an empty spec and in-range values", () => {
+    expect(() => validateKvStoreSpec({})).not.toThrow();
+    expect(() =>
+      validateKvStoreSpec({ maxBytes: 1024, maxKeys: 1, defaultTtlSeconds: 0 }),
+    ).not.toThrow();
+  });
+
+  it("rejects out-of-range quotas", () => {
+    expect(() => validateKvStoreSpec({ maxBytes: 1023 })).toThrow(/maxBytes/);
+    expect(() => validateKvStoreSpec({ maxKeys: 0 })).toThrow(/maxKeys/);
+    expect(() => validateKvStoreSpec({ maxKeys: 1.5 })).toThrow(/maxKeys/);
+  });
+
+  it("rejects negative TTLs", () => {
+    expect(() => validateKvStoreSpec({ defaultTtlSeconds: -1 })).toThrow(
+      /defaultTtlSeconds/,
+    );
+  });
+});
+
+describe("kvSet", () => {
+  beforeEach(resetMocks);
+
+  it("writes under a row lock and returns the stored size", async () => {
+    prismaMock.kvEntry.findUnique.mockResolvedValue(null);
+    prismaMock.kvEntry.aggregate.mockResolvedValue(usage(0, 0));
+
+    const result = await kvSet(owner, "proj-1", "cache", "greeting", { hi: 1 });
+
+    expect(prismaMock.$queryRaw).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ key: "greeting", sizeBytes: 8, expiresAt: null });
+    expect(prismaMock.kvEntry.upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects a new key once maxKeys is reached", async () => {
+    prismaMock.kvEntry.findUnique.mockResolvedValue(null);
+    prismaMock.kvEntry.aggregate.mockResolvedValue(usage(2, 10));
+
+    await expect(kvSet(owner, "proj-1", "cache", "third", 1)).rejects.toMatchObject({
+      code: "KV_QUOTA_EXCEEDED",
+    });
+    expect(prismaMock.kvEntry.upsert).not.toHaveBeenCalled();
+  });
+
+  it("allows overwriting an existing key at the key limit", async () => {
+    prismaMock.kvEntry.findUnique.mockResolvedValue({ sizeBytes: 5 });
+    prismaMock.kvEntry.aggregate.mockResolvedValue(usage(2, 10));
+
+    await expect(kvSet(owner, "proj-1", "cache", "first", 1)).resolves.toMatchObject({
+      key: "first",
+    });
+  });
+
+  it("rejects writes that would exceed maxBytes", async () => {
+    prismaMock.kvEntry.findUnique.mockResolvedValue({ sizeBytes: 100 });
+    prismaMock.kvEntry.aggregate.mockResolvedValue(usage(1, 1900));
+
+    await expect(
+      kvSet(owner, "proj-1", "cache", "big", "x".repeat(300)),
+    ).rejects.toThrow(/size limit exceeded/);
+  });
+
+  it("applies the store default TTL unless overridden with 0", async () => {
+    prismaMock.projectResource.findUnique.mockResolvedValue(
+      storeRow({
+        kvStore: { ...storeRow().kvStore, defaultTtlSeconds: 60 },
+      }),
+    );
+    prismaMock.kvEntry.findUnique.mockResolvedValue(null);
+    prismaMock.kvEntry.aggregate.mockResolvedValue(usage(0, 0));
+
+    const before = Date.now();
+    const withDefault = await kvSet(owner, "proj-1", "cache", "a", 1);
+    expect(withDefault.expiresAt!.getTime()).toBeGreaterThanOrEqual(before + 60_000);
+
+    const persistent = await kvSet(owner, "proj-1", "cache", "b", 1, { ttlSeconds: 0 });
+    expect(persistent.expiresAt).toBeNull();
+  });
+
+  it("rejects keys containing dots", async () => {
+    await expect(kvSet(owner, "proj-1", "cache", "a.b", 1)).rejects.toThrow(/key/);
+  });
+
+  it("hides stores owned by another user", async () => {
+    prismaMock.projectResource.findUnique.mockResolvedValue(storeRow({ userId: "u-2" }));
+
+    await expect(kvSet(owner, "proj-1", "cache", "k", 1)).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+});
+
+describe("kvGet", () => {
+  beforeEach(resetMocks);
+
+  it("returns the stored value", async () => {
+    prismaMock.kvEntry.findUnique.mockResolvedValue({ value: { n: 1 }, expiresAt: null });
+    await expect(kvGet(owner, "proj-1", "cache", "k")).resolves.toEqual({ n: 1 });
+  });
+
+  it("treats expired entries as missing", async () => {
+    prismaMock.kvEntry.findUnique.mockResolvedValue({
+      value: "stale",
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    await expect(kvGet(owner, "proj-1", "cache", "k")).resolves.toBeNull();
+  });
+});
+
+describe("kvList", () => {
+  beforeEach(resetMocks);
+
+  function entry(key: string) {
+    return { key, value: key, sizeBytes: 3, expiresAt: null, updatedAt: new Date() };
+  }
+
+  it("returns a nextCursor when more rows exist", async () => {
+    prismaMock.kvEntry.findMany.mockResolvedValue([
+      entry("user:1"),
+      entry("user:2"),
+      entry("user:3"),
+    ]);
+
+    const page = await kvList(owner, "proj-1", "cache", { prefix: "user:", limit: 2 });
+
+    expect(page.entries.map((e) => e.key)).toEqual(["user:1", "user:2"]);
+    expect(page.nextCursor).toBe("user:2");
+    const args = prismaMock.kvEntry.findMany.mock.calls[0]![0] as {
+      where: { key: unknown };
+      take: number;
+    };
+    expect(args.where.key).toEqual({ startsWith: "user:" });
+    expect(args.take).toBe(3);
+  });
+
+  it("continues after the cursor and ends with a null cursor", async () => {
+    prismaMock.kvEntry.findMany.mockResolvedValue([entry("user:3")]);
+
+    const page = await kvList(owner, "proj-1", "cache", {
+      prefix: "user:",
+      limit: 2,
+      cursor: "user:2",
+    });
+
+    expect(page.nextCursor).toBeNull();
+    const args = prismaMock.kvEntry.findMany.mock.calls[0]![0] as {
+      where: { key: unknown };
+    };
+    expect(args.where.key).toEqual({ startsWith: "user:", gt: "user:2" });
+  });
+
+  it("rejects out-of-range limits", async () => {
+    await expect(kvList(owner, "proj-1", "cache", { limit: 0 })).rejects.toThrow(/limit/);
+  });
+});
+
+describe("loadKvReferences", () => {
+  beforeEach(resetMocks);
+
+  it("groups values by store and skips unavailable stores", async () => {
+    prismaMock.projectResource.findUnique.mockImplementation(
+      async (args: { where: { projectId_kind_slug: { slug: string } } }) =>
+        args.where.projectId_kind_slug.slug === "cache" ? storeRow() : null,
+    );
+    prismaMock.kvEntry.findMany.mockResolvedValue([{ key: "k", value: 42 }]);
+
+    const out = await loadKvReferences(owner, "proj-1", [
+      { store: "cache", key: "k" },
+      { store: "cache", key: "missing" },
+      { store: "gone", key: "k" },
+    ]);
+
+    expect(out).toEqual({ cache: { k: 42 } });
+    expect(prismaMock.kvEntry.findMany).toHaveBeenCalledTimes(1);
+  });
+});
@@ -7,6 +7,7 @@
  *   - `processDueSchedules` selects due rows, calls executeWorkflow with the
  *     scheduledAt idempotency key, and advances `nextFireAt`
  *   - unbound schedules (no targetWorkflowId) advance without firing
+ *   - misfire policies and date windows (Phase 8.16), with fire history
  */
 
 import { beforeEach, describe, expect, it, vi } from "vitest";
@@ -17,6 +18,9 @@ vi.mock("@/lib/prisma", () => ({
       findMany: vi.fn(),
       update: vi.fn(),
     },
+    scheduleFire: {
+      createMany: vi.fn(),
+    },
   },
 }));
 
@@ -42,6 +46,9 @@ const mockedPrisma = prisma as unknown as {
     findMany: ReturnType<typeof vi.fn>;
     update: ReturnType<typeof vi.fn>;
   };
+  scheduleFire: {
+    createMany: ReturnType<typeof vi.fn>;
+  };
 };
 const mockedExecuteWorkflow = executeWorkflow as unknown as ReturnType<typeof vi.fn>;
 
@@ -96,6 +103,8 @@ describe("processDueSchedules", () => {
   beforeEach(() => {
     mockedPrisma.schedule.findMany.mockReset();
     mockedPrisma.schedule.update.mockReset();
+    mockedPrisma.scheduleFire.createMany.mockReset();
+    mockedPrisma.scheduleFire.createMany.mockResolvedValue({ count: 0 });
     mockedExecuteWorkflow.mockReset();
   });
 
@@ -201,4 +210,114 @@ describe("processDueSchedules", () => {
     // Both rows still advance.
     expect(mockedPrisma.schedule.update).toHaveBeenCalledTimes(2);
   });
+
+  function hourlyRow(overrides: Record<string, unknown> = {}) {
+    return {
+      id: "sched-h",
+      resourceId: "res-h",
+      cron: "0 * * * *",
+      timezone: null,
+      targetWorkflowId: "wf-h",
+      enabled: true,
+      startDate: null,
+      endDate: null,
+      misfirePolicy: "FIRE_ONCE",
+      catchUpLimit: 10,
+      nextFireAt: new Date("2030-06-15T08:00:00Z"),
+      lastFiredAt: null,
+      resource: { id: "res-h", status: "ACTIVE" },
+      targetWorkflow: { triggerType: "MANUAL", triggerConfig: null },
+      ...overrides,
+    };
+  }
+
+  function recordedFires() {
+    return mockedPrisma.scheduleFire.createMany.mock.calls.flatMap(
+      (call) => (call[0] as { data: Array<Record<string, unknown>> }).data,
+    );
+  }
+
+  it("replays missed fires up to catchUpLimit under CATCH_UP", async () => {
+    const now = new Date("2030-06-15T12:00:30Z");
+    mockedPrisma.schedule.findMany.mockResolvedValue([
+      hourlyRow({ misfirePolicy: "CATCH_UP", catchUpLimit: 2 }),
+    ]);
+    mockedExecuteWorkflow.mockResolvedValueOnce("run-11").mockResolvedValueOnce("run-12");
+    mockedPrisma.schedule.update.mockResolvedValue({});
+
+    const result = await processDueSchedules(now);
+    expect(result).toEqual({ considered: 1, fired: 2, errors: 0 });
+    expect(
+      mockedExecuteWorkflow.mock.calls.map((c) => (c[2] as { scheduledAt: string }).scheduledAt),
+    ).toEqual(["2030-06-15T11:00:00.000Z", "2030-06-15T12:00:00.000Z"]);
+
+    const fires = recordedFires();
+    expect(fires).toHaveLength(3);
+    expect(fires[0]).toMatchObject({
+      outcome: "SKIPPED",
+      skippedCount: 3,
+      scheduledAt: new Date("2030-06-15T08:00:00Z"),
+      skippedThrough: new Date("2030-06-15T10:00:00Z"),
+    });
+    expect(fires[1]).toMatchObject({ outcome: "FIRED", runId: "run-11" });
+    expect(fires[2]).toMatchObject({ outcome: "FIRED", runId: "run-12", lateMs: 30_000 });
+
+    const updateCall = mockedPrisma.schedule.update.mock.calls[0]![0] as {
+      data: { nextFireAt: Date };
+    };
+    expect(updateCall.data.nextFireAt.toISOString()).toBe("2030-06-15T13:00:00.000Z");
+  });
+
+  it("records skipped fires without running under SKIP when every slot was missed", async () => {
+    const now = new Date("2030-06-15T12:30:00Z");
+    mockedPrisma.schedule.findMany.mockResolvedValue([hourlyRow({ misfirePolicy: "SKIP" })]);
+    mockedPrisma.schedule.update.mockResolvedValue({});
+
+    const result = await processDueSchedules(now);
+    expect(result).toEqual({ considered: 1, fired: 0, errors: 0 });
+    expect(mockedExecuteWorkflow).not.toHaveBeenCalled();
+    expect(recordedFires()).toEqual([
+      expect.objectContaining({ outcome: "SKIPPED", skippedCount: 5 }),
+    ]);
+    const updateCall = mockedPrisma.schedule.update.mock.calls[0]![0] as {
+      data: { lastFiredAt?: Date; nextFireAt: Date };
+    };
+    expect(updateCall.data.lastFiredAt).toBeUndefined();
+    expect(updateCall.data.nextFireAt.toISOString()).toBe("2030-06-15T13:00:00.000Z");
+  });
+
+  it("records failed fires with the executor error", async () => {
+    const now = new Date("2030-06-15T08:00:10Z");
+    mockedPrisma.schedule.findMany.mockResolvedValue([hourlyRow()]);
+    mockedExecuteWorkflow.mockRejectedValueOnce(new Error("quota exceeded"));
+    mockedPrisma.schedule.update.mockResolvedValue({});
+
+    const result = await processDueSchedules(now);
+    expect(result).toEqual({ considered: 1, fired: 0, errors: 1 });
+    expect(recordedFires()).toEqual([
+      expect.objectContaining({ outcome: "FAILED", reason: "quota exceeded" }),
+    ]);
+  });
+
+  it("stops a schedule once the workflow's trigger window has ended", async () => {
+    const now = new Date("2030-06-15T12:00:10Z");
+    mockedPrisma.schedule.findMany.mockResolvedValue([
+      hourlyRow({
+        nextFireAt: new Date("2030-06-15T12:00:00Z"),
+        targetWorkflow: {
+          triggerType: "SCHEDULE",
+          triggerConfig: { cron: "0 * * * *", endDate: "2030-06-15T12:30:00Z" },
+        },
+      }),
+    ]);
+    mockedExecuteWorkflow.mockResolvedValue("run-last");
+    mockedPrisma.schedule.update.mockResolvedValue({});
+
+    const result = await processDueSchedules(now);
+    expect(result).toEqual({ considered: 1, fired: 1, errors: 0 });
+    const updateCall = mockedPrisma.schedule.update.mock.calls[0]![0] as {
+      data: { nextFireAt: Date | null };
+    };
+    expect(updateCall.data.nextFireAt).toBeNull();
+  });
 });
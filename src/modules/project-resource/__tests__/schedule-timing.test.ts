@@ -0,0 +1,152 @@
+/**
+ * Schedule timing tests (Phase 8.16)
+ *
+ * Validates:
+ *   - slot enumeration across DST transitions (no duplicate fall-back fire,
+ *     spring-forward slot kept)
+ *   - date windows bound both the due slots and the next fire
+ *   - misfire planning for SKIP / FIRE_ONCE / CATCH_UP
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+    collectDueFires,
+    formatInTimezone,
+    intersectScheduleWindow,
+    listFireTimes,
+    MAX_MISSED_SCAN,
+    nextFireInWindow,
+    planScheduleFires,
+} from "../schedule-timing";
+
+const NY = "America/New_York";
+const iso = (dates: Date[]) => dates.map((d) => d.toISOString());
+
+describe("DST handling", () => {
+  it("fires a fixed-time job once on the fall-back day, even for a late tick", () => {
+    // 01:30 happens twice on 2026-11-01 in New York (05:30Z EDT, 06:30Z EST).
+    const result = collectDueFires(
+      "30 1 * * *",
+      NY,
+      new Date("2026-11-01T05:30:00Z"),
+      new Date("2026-11-01T06:40:00Z"),
+    );
+    expect(iso(result.due)).toEqual(["2026-11-01T05:30:00.000Z"]);
+    expect(result.next?.toISOString()).toBe("2026-11-02T06:30:00.000Z");
+  });
+
+  it("keeps interval jobs firing through the repeated hour", () => {
+    const times = listFireTimes("*/30 * * * *", NY, new Date("2026-11-01T04:50:00Z"), 4);
+    expect(times.map((t) => formatInTimezone(t, NY))).toEqual([
+      "2026-11-01 01:00 EDT",
+      "2026-11-01 01:30 EDT",
+      "2026-11-01 01:00 EST",
+      "2026-11-01 01:30 EST",
+    ]);
+  });
+
+  it("moves a slot inside the spring-forward gap to the next valid time", () => {
+    const times = listFireTimes("30 2 * * *", NY, new Date("2026-03-07T00:00:00Z"), 3);
+    expect(times.map((t) => formatInTimezone(t, NY))).toEqual([
+      "2026-03-07 02:30 EST",
+      "2026-03-08 03:30 EDT",
+      "2026-03-09 02:30 EDT",
+    ]);
+  });
+});
+
+describe("date windows", () => {
+  it("starts at startDate and stops after endDate", () => {
+    const window = {
+      startDate: new Date("2030-01-02T09:00:00Z"),
+      endDate: new Date("2030-01-04T09:00:00Z"),
+    };
+    const times = listFireTimes("0 9 * * *", "UTC", new Date("2030-01-01T00:00:00Z"), 10, window);
+    expect(iso(times)).toEqual([
+      "2030-01-02T09:00:00.000Z",
+      "2030-01-03T09:00:00.000Z",
+      "2030-01-04T09:00:00.000Z",
+    ]);
+    expect(nextFireInWindow("0 9 * * *", "UTC", times[2]!, window)).toBeNull();
+  });
+
+  it("drops due slots before the window and ends the schedule after it", () => {
+    const result = collectDueFires(
+      "0 * * * *",
+      "UTC",
+      new Date("2030-01-01T00:00:00Z"),
+      new Date("2030-01-01T05:30:00Z"),
+      {
+        startDate: new Date("2030-01-01T03:00:00Z"),
+        endDate: new Date("2030-01-01T04:00:00Z"),
+      },
+    );
+    expect(iso(result.due)).toEqual([
+      "2030-01-01T03:00:00.000Z",
+      "2030-01-01T04:00:00.000Z",
+    ]);
+    expect(result.next).toBeNull();
+  });
+
+  it("narrows the window by the workflow's trigger config", () => {
+    const window = intersectScheduleWindow(
+      {
+        startDate: new Date("2030-01-01T00:00:00Z"),
+        endDate: new Date("2030-12-31T00:00:00Z"),
+      },
+      { startDate: "2030-03-01T00:00:00Z", endDate: "not a date" },
+    );
+    expect(window.startDate?.toISOString()).toBe("2030-03-01T00:00:00.000Z");
+    expect(window.endDate?.toISOString()).toBe("2030-12-31T00:00:00.000Z");
+  });
+
+  it("gives up replaying after MAX_MISSED_SCAN slots", () => {
+    const now = new Date("2030-01-01T00:00:00Z");
+    const first = new Date(now.getTime() - (MAX_MISSED_SCAN + 10) * 60_000);
+    const result = collectDueFires("* * * * *", "UTC", first, now);
+    expect(result.truncated).toBe(true);
+    expect(result.due).toHaveLength(MAX_MISSED_SCAN);
+    expect(result.next?.toISOString()).toBe("2030-01-01T00:01:00.000Z");
+  });
+});
+
+describe("planScheduleFires", () => {
+  const now = new Date("2030-06-15T12:00:00Z");
+  const hourly = [8, 9, 10, 11, 12].map(
+    (h) => new Date(`2030-06-15T${String(h).padStart(2, "0")}:00:00Z`),
+  );
+  const GRACE = 60_000;
+
+  it("fires on-time slots regardless of policy", () => {
+    const due = [new Date("2030-06-15T11:59:30Z")];
+    for (const policy of ["SKIP", "FIRE_ONCE", "CATCH_UP"] as const) {
+      expect(planScheduleFires(due, now, policy, 10, GRACE)).toEqual({ fire: due, skipped: [] });
+    }
+  });
+
+  it("SKIP drops missed slots and keeps on-time ones", () => {
+    const plan = planScheduleFires(hourly, now, "SKIP", 10, GRACE);
+    expect(iso(plan.fire)).toEqual(["2030-06-15T12:00:00.000Z"]);
+    expect(plan.skipped).toHaveLength(4);
+  });
+
+  it("FIRE_ONCE coalesces every slot into one run for the oldest", () => {
+    const plan = planScheduleFires(hourly, now, "FIRE_ONCE", 10, GRACE);
+    expect(iso(plan.fire)).toEqual(["2030-06-15T08:00:00.000Z"]);
+    expect(plan.skipped).toHaveLength(4);
+  });
+
+  it("CATCH_UP replays the newest slots up to the limit, oldest first", () => {
+    const plan = planScheduleFires(hourly, now, "CATCH_UP", 3, GRACE);
+    expect(iso(plan.fire)).toEqual([
+      "2030-06-15T10:00:00.000Z",
+      "2030-06-15T11:00:00.000Z",
+      "2030-06-15T12:00:00.000Z",
+    ]);
+    expect(iso(plan.skipped)).toEqual([
+      "2030-06-15T08:00:00.000Z",
+      "2030-06-15T09:00:00.000Z",
+    ]);
+  });
+});
@@ -14,6 +14,14 @@
  *   - When the plugin throws / returns `success: false`, the dispatcher returns
  *     a 500 with a generic error message (details logged, never echoed).
  *
+ * Workflow targets (Phase 8.3):
+ *   - `responseMode=ASYNC` answers 202 `{ runId }` as soon as the run starts.
+ *   - `responseMode=WORKFLOW_OUTPUT` waits up to `timeoutMs` for the response
+ *     step (`responseStepId`, else the first `http-response` step to finish)
+ *     and maps its output with the plugin contract above. A run that ends
+ *     without one answers with its final output (500 when it failed); a
+ *     timeout falls back to 202 `{ runId }` while the run carries on.
+ *
  * NOTEb is platform-side only. The bridge-agent HTTP listener
  * and nginx wildcard config land .3c. This module is invoked by
  * an internal route (added separately) once the inbound path is wired.
@@ -29,7 +37,9 @@ import type {
     PluginContext,
     PluginEvent,
 } from "@/modules/plugin/plugin.interface";
+import { HTTP_RESPONSE_PLUGIN_SLUG } from "@/modules/plugin/handlers/http-response";
 import { handleWebhookTrigger } from "@/modules/workflow/workflow.triggers";
+import type { WorkflowRunHooks } from "@/modules/workflow/workflow.types";
 
 import {
     verifyHttpRouteAuth,
@@ -143,13 +153,34 @@ export async function dispatchHttpRoute(
 
   // ── Phase 7.3c: Workflow target takes priority over UserPlugin target ──
   if (route.targetWorkflowId) {
+    const requestData = {
+      method,
+      headers: stringifyHeaders(input.headers),
+      body: input.body ?? null,
+      query: flattenQuery(input.query ?? {}),
+    };
+
+    if (route.responseMode === "WORKFLOW_OUTPUT") {
+      const response = await dispatchWorkflowAndWait(
+        { ...route, targetWorkflowId: route.targetWorkflowId },
+        requestData,
+      );
+      log.info(
+        {
+          resourceId: route.resourceId,
+          workflowId: route.targetWorkflowId,
+          method,
+          path: input.path,
+          status: response.status,
+          durationMs: Date.now() - startedAt,
+        },
+        "HTTP_ROUTE dispatched to Workflow (WORKFLOW_OUTPUT)",
+      );
+      return response;
+    }
+
     try {
-      const runId = await handleWebhookTrigger(route.targetWorkflowId, {
-        method,
-        headers: stringifyHeaders(input.headers),
-        body: input.body ?? null,
-        query: flattenQuery(input.query ?? {}),
-      });
+      const runId = await handleWebhookTrigger(route.targetWorkflowId, requestData);
       log.info(
         {
           resourceId: route.resourceId,
@@ -161,14 +192,7 @@ export async function dispatchHttpRoute(
         },
         "HTTP_ROUTE dispatched to Workflow",
       );
-      return {
-        status: 202,
-        headers: {
-          "content-type": "application/json; charset=utf-8",
-          ...(route.corsOrigin ? { "access-control-allow-origin": route.corsOrigin } : {}),
-        },
-        body: { runId },
-      };
+      return acceptedResponse(runId, route.corsOrigin);
     } catch (err) {
       log.warn(
         {
@@ -286,10 +310,106 @@ export async function dispatchHttpRoute(
   return response;
 }
 
+// ===========================================
+// Workflow sync response (Phase 8.3)
+// ===========================================
+
+/**
+ * Start the route's Workflow and resolve with the first of: the response
+ * step's output, the run's terminal result, or a 202 once `timeoutMs`
+ * elapses. The run itself is never cancelled.
+ */
+function dispatchWorkflowAndWait(
+  route: {
+    resourceId: string;
+    targetWorkflowId: string;
+    responseStepId: string | null;
+    timeoutMs: number;
+    corsOrigin: string | null;
+  },
+  requestData: Parameters<typeof handleWebhookTrigger>[1],
+): Promise<DispatchHttpRouteResponse> {
+  const timeoutMs = route.timeoutMs > 0 ? route.timeoutMs : 15000;
+
+  return new Promise((resolve) => {
+    let runId: string | null = null;
+    let settled = false;
+    const settle = (response: DispatchHttpRouteResponse) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve(response);
+    };
+
+    const timer = setTimeout(() => {
+      log.warn(
+        { resourceId: route.resourceId, workflowId: route.targetWorkflowId, runId, timeoutMs },
+        "HTTP_ROUTE workflow response timed out — answering 202",
+      );
+      settle(acceptedResponse(runId, route.corsOrigin));
+    }, timeoutMs);
+
+    const hooks: WorkflowRunHooks = {
+      onRunCreated: (id) => {
+        runId = id;
+      },
+      onStepCompleted: (step, output) => {
+        const isResponseStep = route.responseStepId
+          ? step.id === route.responseStepId
+          : step.pluginSlug === HTTP_RESPONSE_PLUGIN_SLUG;
+        if (isResponseStep) {
+          settle(mapPluginOutputToResponse(output, route.corsOrigin));
+        }
+      },
+      onRunFinished: (result) => {
+        if (result.status === "completed") {
+          settle(mapPluginOutputToResponse(result.output, route.corsOrigin));
+        } else {
+          log.warn(
+            { resourceId: route.resourceId, runId, error: result.error },
+            "HTTP_ROUTE workflow run failed before responding",
+          );
+          settle(jsonResponse(500, { error: "workflow_failed", runId }));
+        }
+      },
+    };
+
+    handleWebhookTrigger(route.targetWorkflowId, requestData, hooks).catch((err) => {
+      log.warn(
+        {
+          resourceId: route.resourceId,
+          workflowId: route.targetWorkflowId,
+          error: (err as Error).message,
+        },
+        "HTTP_ROUTE workflow trigger failed",
+      );
+      settle(
+        runId
+          ? jsonResponse(500, { error: "workflow_failed", runId })
+          : jsonResponse(503, { error: "handler_unavailable" }),
+      );
+    });
+  });
+}
+
 // ===========================================
 // Helpers
 // ===========================================
 
+function acceptedResponse(
+  runId: string | null,
+  corsOrigin: string | null,
+): DispatchHttpRouteResponse {
+  return {
+    status: 202,
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      ...(corsOrigin ? { "access-control-allow-origin": corsOrigin } : {}),
+    },
+    body: { runId },
+  };
+}
+
 function stringifyHeaders(
   headers: Record<string, string | string[] | undefined>,
 ): Record<string, string> {
@@ -2,6 +2,8 @@
  * ProjectResource module barrel
  */
 export * from "./kind-handlers";
+export * from "./kv-store.service";
+export * from "./object-store.service";
 export * from "./project-resource.service";
 export * from "./project-resource.types";
 export * from "./project-topology.service";
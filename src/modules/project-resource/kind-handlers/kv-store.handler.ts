@@ -0,0 +1,34 @@
+/**
+ * KV_STORE handler — KindHandler facade.
+ *
+ * @module modules/project-resource/kind-handlers/kv-store.handler
+ */
+
+import {
+    createKvStoreResource,
+    updateKvStoreSidecar,
+} from "../project-resource.service";
+import type {
+    CreateKvStoreResourceInput,
+    ProjectResourceOwnerFilter,
+    UpdateKvStoreSidecarInput,
+} from "../project-resource.types";
+import type { KindHandler } from "./types";
+
+export const kvStoreHandler: KindHandler = {
+  kind: "KV_STORE",
+  hardDeleteAllowed: true,
+
+  create: (owner, input) =>
+    createKvStoreResource(
+      owner as ProjectResourceOwnerFilter,
+      input as CreateKvStoreResourceInput,
+    ),
+
+  updateSidecar: (owner, resourceId, input) =>
+    updateKvStoreSidecar(
+      owner as ProjectResourceOwnerFilter,
+      resourceId,
+      input as UpdateKvStoreSidecarInput,
+    ),
+};
@@ -0,0 +1,34 @@
+/**
+ * OBJECT_STORE handler — KindHandler facade.
+ *
+ * @module modules/project-resource/kind-handlers/object-store.handler
+ */
+
+import {
+    createObjectStoreResource,
+    updateObjectStoreSidecar,
+} from "../project-resource.service";
+import type {
+    CreateObjectStoreResourceInput,
+    ProjectResourceOwnerFilter,
+    UpdateObjectStoreSidecarInput,
+} from "../project-resource.types";
+import type { KindHandler } from "./types";
+
+export const objectStoreHandler: KindHandler = {
+  kind: "OBJECT_STORE",
+  hardDeleteAllowed: true,
+
+  create: (owner, input) =>
+    createObjectStoreResource(
+      owner as ProjectResourceOwnerFilter,
+      input as CreateObjectStoreResourceInput,
+    ),
+
+  updateSidecar: (owner, resourceId, input) =>
+    updateObjectStoreSidecar(
+      owner as ProjectResourceOwnerFilter,
+      resourceId,
+      input as UpdateObjectStoreSidecarInput,
+    ),
+};
@@ -25,6 +25,8 @@ import { databaseHandler } from "./database.handler";
 import { externalApiHandler } from "./external-api.handler";
 import { gatewayBotHandler } from "./gateway-bot.handler";
 import { httpRouteHandler } from "./http-route.handler";
+import { kvStoreHandler } from "./kv-store.handler";
+import { objectStoreHandler } from "./object-store.handler";
 import { scheduleHandler } from "./schedule.handler";
 import { secretHandler } from "./secret.handler";
 import type { KindHandler } from "./types";
@@ -36,6 +38,8 @@ const builtins: KindHandler[] = [
   secretHandler,
   externalApiHandler,
   databaseHandler,
+  kvStoreHandler,
+  objectStoreHandler,
 ];
 
 const registry = new Map<ProjectResourceKind, KindHandler>();
@@ -29,6 +29,8 @@ import type {
     CreateDatabaseResourceInput,
     CreateExternalApiResourceInput,
     CreateHttpRouteResourceInput,
+    CreateKvStoreResourceInput,
+    CreateObjectStoreResourceInput,
     CreateProjectResourceInput,
     CreateScheduleResourceInput,
     CreateSecretResourceInput,
@@ -36,6 +38,8 @@ import type {
     UpdateDatabaseSidecarInput,
     UpdateExternalApiSidecarInput,
     UpdateHttpRouteSidecarInput,
+    UpdateKvStoreSidecarInput,
+    UpdateObjectStoreSidecarInput,
     UpdateScheduleSidecarInput,
     UpdateSecretSidecarInput,
 } from "../project-resource.types";
@@ -51,14 +55,18 @@ export type CreateResourceInput =
   | { kind: "SCHEDULE"; input: CreateScheduleResourceInput }
   | { kind: "SECRET"; input: CreateSecretResourceInput }
   | { kind: "EXTERNAL_API"; input: CreateExternalApiResourceInput }
-  | { kind: "DATABASE"; input: CreateDatabaseResourceInput };
+  | { kind: "DATABASE"; input: CreateDatabaseResourceInput }
+  | { kind: "KV_STORE"; input: CreateKvStoreResourceInput }
+  | { kind: "OBJECT_STORE"; input: CreateObjectStoreResourceInput };
 
 export type UpdateSidecarInput =
   | { kind: "HTTP_ROUTE"; input: UpdateHttpRouteSidecarInput }
   | { kind: "SCHEDULE"; input: UpdateScheduleSidecarInput }
   | { kind: "SECRET"; input: UpdateSecretSidecarInput }
   | { kind: "EXTERNAL_API"; input: UpdateExternalApiSidecarInput }
-  | { kind: "DATABASE"; input: UpdateDatabaseSidecarInput };
+  | { kind: "DATABASE"; input: UpdateDatabaseSidecarInput }
+  | { kind: "KV_STORE"; input: UpdateKvStoreSidecarInput }
+  | { kind: "OBJECT_STORE"; input: UpdateObjectStoreSidecarInput };
 
 /**
  * Per-kind handler. The interface is intentionally permissive on
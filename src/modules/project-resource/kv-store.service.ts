@@ -0,0 +1,373 @@
+/**
+ * KV store runtime (Phase 8.1 — Path C)
+ *
+ * Read/write surface for KV_STORE ProjectResources. A store is addressed by
+ * `(projectId, slug)` so every plugin and workflow in a project shares the
+ * same namespace — contrast with `createPluginStorage()`, whose Redis keys
+ * are prefixed per UserPlugin.
+ *
+ * Callers:
+ *   - plugin IPC (`kv.*` methods in `plugin-ipc.service.ts`)
+ *   - workflow executor (`{{kv.<store>.<key>}}` via `loadKvReferences()`)
+ *
+ * Semantics:
+ *   - Values are arbitrary JSON, capped at `KV_MAX_VALUE_BYTES` each.
+ *   - Per-key TTL; falls back to the store's `defaultTtlSeconds`.
+ *   - Expired entries are invisible to reads and purged on the next write.
+ *   - `maxBytes` / `maxKeys` are checked inside a transaction that holds a
+ *     row lock on the `kv_stores` row, so concurrent writers can't overshoot.
+ *
+ * @module modules/project-resource/kv-store.service
+ */
+
+import type { Prisma } from "@prisma/client";
+
+import { logger } from "@/lib/logger";
+import { prisma } from "@/lib/prisma";
+import {
+    ForbiddenError,
+    NotFoundError,
+    ValidationError,
+} from "@/shared/errors";
+
+import type {
+    KvEntryView,
+    KvListOptions,
+    KvListResult,
+    ProjectResourceOwnerFilter,
+} from "./project-resource.types";
+
+const log = logger.child({ module: "kv-store" });
+
+/** Keys may not contain dots so `{{kv.<store>.<key>.<field>}}` is unambiguous. */
+export const KV_KEY_RE = /^[A-Za-z0-9_\-:/]{1,256}$/;
+const KV_PREFIX_RE = /^[A-Za-z0-9_\-:/]{0,256}$/;
+
+/** Per-value ceiling (serialized JSON, UTF-8 bytes). */
+export const KV_MAX_VALUE_BYTES = 256 * 1024;
+
+const KV_MAX_TTL_SECONDS = 365 * 24 * 60 * 60;
+const DEFAULT_LIST_LIMIT = 100;
+const MAX_LIST_LIMIT = 1000;
+
+interface ResolvedKvStore {
+  id: string;
+  resourceId: string;
+  maxBytes: number;
+  maxKeys: number;
+  defaultTtlSeconds: number;
+}
+
+function assertKey(key: unknown): asserts key is string {
+  if (typeof key !== "string" || !KV_KEY_RE.test(key)) {
+    throw new ValidationError(
+      "KV_STORE: key must match ^[A-Za-z0-9_\\-:/]{1,256}$",
+    );
+  }
+}
+
+function liveFilter(now: Date): Prisma.KvEntryWhereInput {
+  return { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] };
+}
+
+function toView(row: {
+  key: string;
+  value: Prisma.JsonValue;
+  sizeBytes: number;
+  expiresAt: Date | null;
+  updatedAt: Date;
+}): KvEntryView {
+  return {
+    key: row.key,
+    value: row.value,
+    sizeBytes: row.sizeBytes,
+    expiresAt: row.expiresAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Look up an ACTIVE KV_STORE by slug within a project. Ownership mismatches
+ * surface as NotFound so callers can't probe for other tenants' stores.
+ */
+async function resolveStore(
+  owner: ProjectResourceOwnerFilter,
+  projectId: string,
+  store: string,
+): Promise<ResolvedKvStore> {
+  const resource = await prisma.projectResource.findUnique({
+    where: { projectId_kind_slug: { projectId, kind: "KV_STORE", slug: store } },
+    include: { kvStore: true },
+  });
+  if (
+    !resource ||
+    !resource.kvStore ||
+    resource.userId !== owner.userId ||
+    (resource.organizationId ?? null) !== (owner.organizationId ?? null)
+  ) {
+    throw new NotFoundError(`KV_STORE "${store}" not found in project ${projectId}`);
+  }
+  if (resource.status !== "ACTIVE") {
+    throw new ForbiddenError(
+      `KV_STORE "${store}" is ${resource.status.toLowerCase()}`,
+    );
+  }
+  return {
+    id: resource.kvStore.id,
+    resourceId: resource.id,
+    maxBytes: resource.kvStore.maxBytes,
+    maxKeys: resource.kvStore.maxKeys,
+    defaultTtlSeconds: resource.kvStore.defaultTtlSeconds,
+  };
+}
+
+// ===========================================
+// Runtime operations
+// ===========================================
+
+export async function kvGet(
+  owner: ProjectResourceOwnerFilter,
+  projectId: string,
+  store: string,
+  key: string,
+): Promise<unknown> {
+  assertKey(key);
+  const kv = await resolveStore(owner, projectId, store);
+  const row = await prisma.kvEntry.findUnique({
+    where: { storeId_key: { storeId: kv.id, key } },
+    select: { value: true, expiresAt: true },
+  });
+  if (!row) return null;
+  if (row.expiresAt && row.expiresAt.getTime() <= Date.now()) return null;
+  return row.value;
+}
+
+export async function kvHas(
+  owner: ProjectResourceOwnerFilter,
+  projectId: string,
+  store: string,
+  key: string,
+): Promise<boolean> {
+  assertKey(key);
+  const kv = await resolveStore(owner, projectId, store);
+  const count = await prisma.kvEntry.count({
+    where: { storeId: kv.id, key, ...liveFilter(new Date()) },
+  });
+  return count > 0;
+}
+
+/**
+ * Write `value` under `key`. `ttlSeconds` overrides the store default;
+ * pass 0 to store without expiry even when the store has a default TTL.
+ *
+ * Throws ForbiddenError when the write would exceed `maxKeys` or
+ * `maxBytes`. Overwriting an existing key only counts the size delta.
+ */
+export async function kvSet(
+  owner: ProjectResourceOwnerFilter,
+  projectId: string,
+  store: string,
+  key: string,
+  value: unknown,
+  options: { ttlSeconds?: number } = {},
+): Promise<{ key: string; sizeBytes: number; expiresAt: Date | null }> {
+  assertKey(key);
+  if (value === undefined) {
+    throw new ValidationError("KV_STORE: value is required");
+  }
+  const serialized = JSON.stringify(value);
+  const sizeBytes = Buffer.byteLength(serialized, "utf8");
+  if (sizeBytes > KV_MAX_VALUE_BYTES) {
+    throw new ValidationError(
+      `KV_STORE: value must be at most ${KV_MAX_VALUE_BYTES} bytes when serialized (got ${sizeBytes})`,
+    );
+  }
+
+  const kv = await resolveStore(owner, projectId, store);
+
+  const ttlSeconds = options.ttlSeconds ?? kv.defaultTtlSeconds;
+  if (
+    !Number.isInteger(ttlSeconds) ||
+    ttlSeconds < 0 ||
+    ttlSeconds > KV_MAX_TTL_SECONDS
+  ) {
+    throw new ValidationError(
+      `KV_STORE: ttlSeconds must be an integer in 0..${KV_MAX_TTL_SECONDS}`,
+    );
+  }
+  const now = new Date();
+  const expiresAt = ttlSeconds > 0 ? new Date(now.getTime() + ttlSeconds * 1000) : null;
+
+  await prisma.$transaction(async (tx) => {
+    // Serialise writers on this store so the quota check below is exact.
+    await tx.$queryRaw`SELECT id FROM kv_stores WHERE id = ${kv.id} FOR UPDATE`;
+
+    await tx.kvEntry.deleteMany({
+      where: { storeId: kv.id, expiresAt: { lte: now } },
+    });
+
+    const existing = await tx.kvEntry.findUnique({
+      where: { storeId_key: { storeId: kv.id, key } },
+      select: { sizeBytes: true },
+    });
+    const usage = await tx.kvEntry.aggregate({
+      where: { storeId: kv.id },
+      _sum: { sizeBytes: true },
+      _count: { _all: true },
+    });
+
+    const keysAfter = usage._count._all + (existing ? 0 : 1);
+    const bytesAfter =
+      (usage._sum.sizeBytes ?? 0) - (existing?.sizeBytes ?? 0) + sizeBytes;
+
+    if (keysAfter > kv.maxKeys) {
+      throw new ForbiddenError(
+        `KV_STORE "${store}" key limit exceeded (${kv.maxKeys} keys)`,
+        "KV_QUOTA_EXCEEDED",
+      );
+    }
+    if (bytesAfter > kv.maxBytes) {
+      throw new ForbiddenError(
+        `KV_STORE "${store}" size limit exceeded (${bytesAfter}/${kv.maxBytes} bytes)`,
+        "KV_QUOTA_EXCEEDED",
+      );
+    }
+
+    await tx.kvEntry.upsert({
+      where: { storeId_key: { storeId: kv.id, key } },
+      create: {
+        storeId: kv.id,
+        key,
+        value: value as Prisma.InputJsonValue,
+        sizeBytes,
+        expiresAt,
+      },
+      update: {
+        value: value as Prisma.InputJsonValue,
+        sizeBytes,
+        expiresAt,
+      },
+    });
+  });
+
+  return { key, sizeBytes, expiresAt };
+}
+
+/** Returns true when a live or expired entry was removed. */
+export async function kvDelete(
+  owner: ProjectResourceOwnerFilter,
+  projectId: string,
+  store: string,
+  key: string,
+): Promise<boolean> {
+  assertKey(key);
+  const kv = await resolveStore(owner, projectId, store);
+  const result = await prisma.kvEntry.deleteMany({
+    where: { storeId: kv.id, key },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Prefix scan in key order. Paginate by passing the returned `nextCursor`
+ * back as `cursor`; it is null on the last page.
+ */
+export async function kvList(
+  owner: ProjectResourceOwnerFilter,
+  projectId: string,
+  store: string,
+  options: KvListOptions = {},
+): Promise<KvListResult> {
+  const prefix = options.prefix ?? "";
+  if (typeof prefix !== "string" || !KV_PREFIX_RE.test(prefix)) {
+    throw new ValidationError(
+      "KV_STORE: prefix must match ^[A-Za-z0-9_\\-:/]{0,256}$",
+    );
+  }
+  const limit = options.limit ?? DEFAULT_LIST_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    throw new ValidationError(
+      `KV_STORE: limit must be an integer in 1..${MAX_LIST_LIMIT}`,
+    );
+  }
+  if (options.cursor !== undefined && options.cursor !== null) {
+    assertKey(options.cursor);
+  }
+
+  const kv = await resolveStore(owner, projectId, store);
+  const keyFilter: Prisma.StringFilter = {};
+  if (prefix) keyFilter.startsWith = prefix;
+  if (options.cursor) keyFilter.gt = options.cursor;
+
+  const rows = await prisma.kvEntry.findMany({
+    where: {
+      storeId: kv.id,
+      ...(prefix || options.cursor ? { key: keyFilter } : {}),
+      ...liveFilter(new Date()),
+    },
+    orderBy: { key: "asc" },
+    take: limit + 1,
+    select: {
+      key: true,
+      value: true,
+      sizeBytes: true,
+      expiresAt: true,
+      updatedAt: true,
+    },
+  });
+
+  const page = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? (page[page.length - 1]?.key ?? null) : null;
+  return { entries: page.map(toView), nextCursor };
+}
+
+// ===========================================
+// Workflow template support
+// ===========================================
+
+/**
+ * Bulk-load the `(store, key)` pairs a workflow step references and return
+ * them shaped for the template engine's `kv` namespace:
+ * `{ [storeSlug]: { [key]: value } }`.
+ *
+ * Missing keys are simply absent. A store that can't be resolved (deleted,
+ * paused, wrong owner) is logged at warn level and skipped — the step then
+ * sees `{{kv.<store>.<key>}}` resolve to empty, like any other missing path.
+ */
+export async function loadKvReferences(
+  owner: ProjectResourceOwnerFilter,
+  projectId: string,
+  refs: Array<{ store: string; key: string }>,
+): Promise<Record<string, Record<string, unknown>>> {
+  const byStore = new Map<string, Set<string>>();
+  for (const ref of refs) {
+    if (!KV_KEY_RE.test(ref.key)) continue;
+    let keys = byStore.get(ref.store);
+    if (!keys) {
+      keys = new Set();
+      byStore.set(ref.store, keys);
+    }
+    keys.add(ref.key);
+  }
+
+  const out: Record<string, Record<string, unknown>> = {};
+  const now = new Date();
+  for (const [store, keys] of byStore) {
+    try {
+      const kv = await resolveStore(owner, projectId, store);
+      const rows = await prisma.kvEntry.findMany({
+        where: { storeId: kv.id, key: { in: [...keys] }, ...liveFilter(now) },
+        select: { key: true, value: true },
+      });
+      const values: Record<string, unknown> = {};
+      for (const row of rows) values[row.key] = row.value;
+      out[store] = values;
+    } catch (err) {
+      log.warn(
+        { projectId, store, error: (err as Error).message },
+        "loadKvReferences: store unavailable — skipping",
+      );
+    }
+  }
+  return out;
+}
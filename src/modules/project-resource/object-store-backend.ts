@@ -0,0 +1,237 @@
+/**
+ * OBJECT_STORE backends (Phase 8.2)
+ *
+ * Byte-level storage behind an OBJECT_STORE ProjectResource. The service
+ * layer (`object-store.service.ts`) owns validation, the `stored_objects`
+ * index and quota accounting; a backend only moves bytes.
+ *
+ *   - LOCAL: files under `OBJECT_STORE_LOCAL_DIR/<storeId>/<key>`.
+ *   - S3:    any S3-compatible bucket, talked to with SigV4 query-string
+ *            presigned requests over `fetch` (no AWS SDK dependency).
+ *
+ * @module modules/project-resource/object-store-backend
+ */
+
+import crypto from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+export const OBJECT_STORE_LOCAL_DIR =
+  process.env.OBJECT_STORE_LOCAL_DIR || "/var/lib/2bot/object-store";
+
+const S3_REQUEST_TIMEOUT_MS = 30_000;
+
+export interface ObjectStoreBackend {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Returns null when the object does not exist in the backend. */
+  get(key: string): Promise<Buffer | null>;
+  /** Idempotent — deleting a missing object is not an error. */
+  delete(key: string): Promise<void>;
+  /** Remove every object the store holds. Used on hard delete. */
+  purge(keys: string[]): Promise<void>;
+  /**
+   * Backend-native time-limited download URL, or null when the backend
+   * can't serve clients directly and the platform must proxy the bytes.
+   */
+  presignGet(key: string, expiresInSeconds: number): string | null;
+}
+
+export interface S3BackendConfig {
+  bucket: string;
+  region: string;
+  endpoint: string | null;
+  forcePathStyle: boolean;
+  keyPrefix: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// ===========================================
+// LOCAL
+// ===========================================
+
+export class LocalDiskBackend implements ObjectStoreBackend {
+  private readonly root: string;
+
+  constructor(storeId: string, baseDir: string = OBJECT_STORE_LOCAL_DIR) {
+    this.root = path.resolve(baseDir, storeId);
+  }
+
+  /** Keys are validated upstream; this is a second line against traversal. */
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Object key escapes store root: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write-then-rename so readers never observe a partial file.
+    const tmp = `${file}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+    await fs.writeFile(tmp, body);
+    await fs.rename(tmp, file);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async purge(): Promise<void> {
+    await fs.rm(this.root, { recursive: true, force: true });
+  }
+
+  presignGet(): string | null {
+    return null;
+  }
+}
+
+// ===========================================
+// S3-compatible
+// ===========================================
+
+/** RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone). */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data, "utf8").digest();
+}
+
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Build a SigV4 query-string presigned URL for a single S3 request.
+ * Only the `host` header is signed and the payload is UNSIGNED-PAYLOAD,
+ * so the same helper serves GET, PUT and DELETE.
+ *
+ * @internal exported for tests.
+ */
+export function presignS3Request(
+  config: S3BackendConfig,
+  method: "GET" | "PUT" | "DELETE",
+  key: string,
+  expiresInSeconds: number,
+  now: Date = new Date(),
+): string {
+  const fullKey = `${config.keyPrefix}${key}`;
+  const endpoint = new URL(
+    config.endpoint ?? `https://s3.${config.region}.amazonaws.com`,
+  );
+  const host = config.forcePathStyle
+    ? endpoint.host
+    : `${config.bucket}.${endpoint.host}`;
+  const encodedKey = fullKey.split("/").map(encodeRfc3986).join("/");
+  const canonicalUri = config.forcePathStyle
+    ? `/${encodeRfc3986(config.bucket)}/${encodedKey}`
+    : `/${encodedKey}`;
+
+  const amzDate = toAmzDate(now);
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+
+  const canonicalQuery = (
+    [
+      ["X-Amz-Algorithm", "AWS4-HMAC-SHA256"],
+      ["X-Amz-Credential", `${config.accessKeyId}/${scope}`],
+      ["X-Amz-Date", amzDate],
+      ["X-Amz-Expires", String(expiresInSeconds)],
+      ["X-Amz-SignedHeaders", "host"],
+    ] as const
+  )
+    .map(([k, v]) => `${encodeRfc3986(k)}=${encodeRfc3986(v)}`)
+    .sort()
+    .join("&");
+
+  const canonicalRequest = [
+    method,
+    canonicalUri,
+    canonicalQuery,
+    `host:${host}\n`,
+    "host",
+    "UNSIGNED-PAYLOAD",
+  ].join("\n");
+
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    crypto.createHash("sha256").update(canonicalRequest, "utf8").digest("hex"),
+  ].join("\n");
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), "s3"),
+    "aws4_request",
+  );
+  const signature = hmac(signingKey, stringToSign).toString("hex");
+
+  return `${endpoint.protocol}//${host}${canonicalUri}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+}
+
+export class S3Backend implements ObjectStoreBackend {
+  constructor(private readonly config: S3BackendConfig) {}
+
+  private async request(
+    method: "GET" | "PUT" | "DELETE",
+    key: string,
+    init: { body?: Buffer; contentType?: string } = {},
+  ): Promise<Response> {
+    const url = presignS3Request(this.config, method, key, 300);
+    const res = await fetch(url, {
+      method,
+      body: init.body ? new Uint8Array(init.body) : undefined,
+      headers: init.contentType ? { "content-type": init.contentType } : undefined,
+      signal: AbortSignal.timeout(S3_REQUEST_TIMEOUT_MS),
+    });
+    return res;
+  }
+
+  private async fail(op: string, key: string, res: Response): Promise<never> {
+    const detail = (await res.text().catch(() => "")).slice(0, 300);
+    throw new Error(`S3 ${op} ${key} failed: HTTP ${res.status} ${detail}`.trim());
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const res = await this.request("PUT", key, { body, contentType });
+    if (!res.ok) await this.fail("PUT", key, res);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const res = await this.request("GET", key);
+    if (res.status === 404) return null;
+    if (!res.ok) await this.fail("GET", key, res);
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const res = await this.request("DELETE", key);
+    if (!res.ok && res.status !== 404) await this.fail("DELETE", key, res);
+  }
+
+  async purge(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await this.delete(key);
+    }
+  }
+
+  presignGet(key: string, expiresInSeconds: number): string {
+    return presignS3Request(this.config, "GET", key, expiresInSeconds);
+  }
+}
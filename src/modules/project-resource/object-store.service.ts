@@ -0,0 +1,525 @@
+/**
+ * Object store runtime (Phase 8.2 — Path C)
+ *
+ * Put / get / list / delete blobs in OBJECT_STORE ProjectResources and mint
+ * time-limited download URLs. Like KV_STORE, a store is addressed by
+ * `(projectId, slug)` so plugins, workflow steps and HTTP_ROUTE handlers in
+ * the same project share it.
+ *
+ * Callers:
+ *   - plugin IPC (`objects.*` methods in `plugin-ipc.service.ts`)
+ *   - REST (`/projects/:projectId/resources/:resourceId/objects`)
+ *   - public signed downloads (`/object-store/download/:resourceId`)
+ *
+ * Semantics:
+ *   - Bytes live in the store's backend (`object-store-backend.ts`); every
+ *     key is mirrored in `stored_objects` for listing and accounting.
+ *   - LOCAL stores count against the owner's plan quota
+ *     (`objectStorageMb` / `sharedObjectStorageMb`). The check runs before
+ *     the backend write, so concurrent uploads may overshoot by at most
+ *     their own size.
+ *   - Signed URLs: S3 stores presign against the bucket directly; LOCAL
+ *     stores get an HMAC-signed platform URL served by the public route.
+ *
+ * @module modules/project-resource/object-store.service
+ */
+
+import crypto from "node:crypto";
+
+import type { ObjectStore, ProjectResource } from "@prisma/client";
+
+import { decrypt } from "@/lib/encryption";
+import { logger } from "@/lib/logger";
+import { PlanLimitError } from "@/lib/plan-limits";
+import { prisma } from "@/lib/prisma";
+import { apiUrl } from "@/shared/config/urls";
+import { getOrgPlanLimits, type OrgPlanType } from "@/shared/constants/org-plans";
+import { getPlanLimits } from "@/shared/constants/plans";
+import {
+    ForbiddenError,
+    NotFoundError,
+    ValidationError,
+} from "@/shared/errors";
+
+import {
+    LocalDiskBackend,
+    S3Backend,
+    type ObjectStoreBackend,
+} from "./object-store-backend";
+import type {
+    ObjectListOptions,
+    ObjectListResult,
+    ProjectResourceOwnerFilter,
+    SignedObjectUrl,
+    StoredObjectView,
+} from "./project-resource.types";
+
+const log = logger.child({ module: "object-store" });
+
+/**
+ * Object keys: path-like segments separated by "/". No empty, "." or ".."
+ * segments, so a key maps to exactly one file and can never escape its
+ * store directory on the LOCAL backend.
+ */
+export const OBJECT_KEY_RE =
+  /^(?!\/)(?!.*\/\/)(?!.*\/$)(?!(?:.*\/)?\.{1,2}(?:\/|$))[A-Za-z0-9_\-./]{1,512}$/;
+const OBJECT_PREFIX_RE = /^[A-Za-z0-9_\-./]{0,512}$/;
+const CONTENT_TYPE_RE = /^[\w.+-]+\/[\w.+-]+(?:\s*;.*)?$/;
+
+/**
+ * Per-object ceiling. Bodies travel base64-encoded over IPC / JSON, and
+ * both the REST body parser and the bridge WebSocket cap payloads at 10MB.
+ */
+export const OBJECT_MAX_BYTES = 5 * 1024 * 1024;
+
+const DEFAULT_SIGNED_URL_TTL_SECONDS = 60 * 60;
+/** SigV4 presigned URLs cap out at 7 days; LOCAL URLs follow the same limit. */
+const MAX_SIGNED_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DEFAULT_LIST_LIMIT = 100;
+const MAX_LIST_LIMIT = 1000;
+const BYTES_PER_MB = 1024 * 1024;
+
+interface ResolvedObjectStore {
+  resource: ProjectResource;
+  store: ObjectStore;
+}
+
+export interface ObjectBody {
+  body: Buffer;
+  contentType: string;
+  sizeBytes: number;
+  sha256: string;
+}
+
+function assertObjectKey(key: unknown): asserts key is string {
+  if (typeof key !== "string" || !OBJECT_KEY_RE.test(key)) {
+    throw new ValidationError(
+      "OBJECT_STORE: key must be 1..512 chars of [A-Za-z0-9_-./] with no empty, '.' or '..' path segments",
+    );
+  }
+}
+
+function toView(row: {
+  key: string;
+  sizeBytes: bigint;
+  contentType: string;
+  sha256: string;
+  updatedAt: Date;
+}): StoredObjectView {
+  return {
+    key: row.key,
+    sizeBytes: Number(row.sizeBytes),
+    contentType: row.contentType,
+    sha256: row.sha256,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/**
+ * Look up an ACTIVE OBJECT_STORE by slug within a project. Ownership
+ * mismatches surface as NotFound so callers can't probe other tenants.
+ */
+async function resolveObjectStore(
+  owner: ProjectResourceOwnerFilter,
+  projectId: string,
+  store: string,
+): Promise<ResolvedObjectStore> {
+  const resource = await prisma.projectResource.findUnique({
+    where: { projectId_kind_slug: { projectId, kind: "OBJECT_STORE", slug: store } },
+    include: { objectStore: true },
+  });
+  if (
+    !resource ||
+    !resource.objectStore ||
+    resource.userId !== owner.userId ||
+    (resource.organizationId ?? null) !== (owner.organizationId ?? null)
+  ) {
+    throw new NotFoundError(`OBJECT_STORE "${store}" not found in project ${projectId}`);
+  }
+  if (resource.status !== "ACTIVE") {
+    throw new ForbiddenError(
+      `OBJECT_STORE "${store}" is ${resource.status.toLowerCase()}`,
+    );
+  }
+  const { objectStore, ...rest } = resource;
+  return { resource: rest, store: objectStore };
+}
+
+/** @internal exported for tests. */
+export function backendFor(store: ObjectStore): ObjectStoreBackend {
+  if (store.backend === "S3") {
+    if (!store.bucket || !store.accessKeyId || !store.secretAccessKeyEnc) {
+      throw new ValidationError(
+        "OBJECT_STORE: S3 backend is missing bucket or credentials",
+      );
+    }
+    return new S3Backend({
+      bucket: store.bucket,
+      region: store.region ?? "us-east-1",
+      endpoint: store.endpoint,
+      forcePathStyle: store.forcePathStyle,
+      keyPrefix: store.keyPrefix,
+      accessKeyId: store.accessKeyId,
+      secretAccessKey: decrypt(store.secretAccessKeyEnc),
+    });
+  }
+  return new LocalDiskBackend(store.id);
+}
+
+// ===========================================
+// Plan quota (LOCAL backend only)
+// ===========================================
+
+/**
+ * Current LOCAL usage and plan ceiling for the tenant that owns `resource`.
+ * Org-owned stores share the organization's pool. `maxBytes` is -1 when
+ * the plan is unlimited.
+ */
+export async function getObjectStorageUsage(
+  resource: Pick<ProjectResource, "userId" | "organizationId">,
+): Promise<{ usedBytes: number; maxBytes: number }> {
+  let maxMb: number;
+  if (resource.organizationId) {
+    const org = await prisma.organization.findUnique({
+      where: { id: resource.organizationId },
+      select: { plan: true },
+    });
+    if (!org) throw new NotFoundError(`Organization ${resource.organizationId} not found`);
+    maxMb = getOrgPlanLimits(org.plan as OrgPlanType).sharedObjectStorageMb;
+  } else {
+    const user = await prisma.user.findUnique({
+      where: { id: resource.userId },
+      select: { plan: true },
+    });
+    if (!user) throw new NotFoundError(`User ${resource.userId} not found`);
+    maxMb = getPlanLimits(user.plan).objectStorageMb;
+  }
+
+  const usage = await prisma.storedObject.aggregate({
+    where: {
+      store: {
+        backend: "LOCAL",
+        resource: resource.organizationId
+          ? { organizationId: resource.organizationId }
+          : { userId: resource.userId, organizationId: null },
+      },
+    },
+    _sum: { sizeBytes: true },
+  });
+
+  return {
+    usedBytes: Number(usage._sum.sizeBytes ?? 0),
+    maxBytes: maxMb === -1 ? -1 : maxMb * BYTES_PER_MB,
+  };
+}
+
+async function assertObjectStorageQuota(
+  resource: ProjectResource,
+  deltaBytes: number,
+): Promise<void> {
+  if (deltaBytes <= 0) return;
+  const { usedBytes, maxBytes } = await getObjectStorageUsage(resource);
+  if (maxBytes === -1) return;
+  if (usedBytes + deltaBytes > maxBytes) {
+    const currentMb = Math.ceil(usedBytes / BYTES_PER_MB);
+    const maxMb = Math.floor(maxBytes / BYTES_PER_MB);
+    throw new PlanLimitError(
+      `Object storage limit reached (${currentMb}/${maxMb} MB). Upgrade your plan or delete objects to upload more.`,
+      "objectStorage",
+      currentMb,
+      maxMb,
+    );
+  }
+}
+
+// ===========================================
+// Runtime operations
+// ===========================================
+
+/**
+ * Store `body` under `key`, replacing any existing object. Overwrites only
+ * count the size delta against the plan quota.
+ */
+export async function objectPut(
+  owner: ProjectResourceOwnerFilter,
+  projectId: string,
+  store: string,
+  key: string,
+  body: Buffer,
+  options: { contentType?: string } = {},
+): Promise<StoredObjectView> {
+  assertObjectKey(key);
+  if (body.length > OBJECT_MAX_BYTES) {
+    throw new ValidationError(
+      `OBJECT_STORE: object must be at most ${OBJECT_MAX_BYTES} bytes (got ${body.length})`,
+    );
+  }
+  const contentType = options.contentType ?? "application/octet-stream";
+  if (contentType.length > 255 || !CONTENT_TYPE_RE.test(contentType)) {
+    throw new ValidationError("OBJECT_STORE: contentType must be a valid MIME type");
+  }
+
+  const { resource, store: row } = await resolveObjectStore(owner, projectId, store);
+  const existing = await prisma.storedObject.findUnique({
+    where: { storeId_key: { storeId: row.id, key } },
+    select: { sizeBytes: true },
+  });
+
+  if (row.backend === "LOCAL") {
+    await assertObjectStorageQuota(
+      resource,
+      body.length - Number(existing?.sizeBytes ?? 0),
+    );
+  }
+
+  const sha256 = crypto.createHash("sha256").update(body).digest("hex");
+  await backendFor(row).put(key, body, contentType);
+
+  const saved = await prisma.storedObject.upsert({
+    where: { storeId_key: { storeId: row.id, key } },
+    create: {
+      storeId: row.id,
+      key,
+      sizeBytes: BigInt(body.length),
+      contentType,
+      sha256,
+    },
+    update: {
+      sizeBytes: BigInt(body.length),
+      contentType,
+      sha256,
+    },
+  });
+  return toView(saved);
+}
+
+export async function objectGet(
+  owner: ProjectResourceOwnerFilter,
+  projectId: string,
+  store: string,
+  key: string,
+): Promise<ObjectBody | null> {
+  assertObjectKey(key);
+  const { store: row } = await resolveObjectStore(owner, projectId, store);
+  return readObject(row, key);
+}
+
+async function readObject(row: ObjectStore, key: string): Promise<ObjectBody | null> {
+  const meta = await prisma.storedObject.findUnique({
+    where: { storeId_key: { storeId: row.id, key } },
+  });
+  if (!meta) return null;
+  const body = await backendFor(row).get(key);
+  if (!body) {
+    log.warn({ storeId: row.id, key }, "Object indexed but missing from backend");
+    return null;
+  }
+  return {
+    body,
+    contentType: meta.contentType,
+    sizeBytes: Number(meta.sizeBytes),
+    sha256: meta.sha256,
+  };
+}
+
+/** Returns true when the key existed. */
+export async function objectDelete(
+  owner: ProjectResourceOwnerFilter,
+  projectId: string,
+  store: string,
+  key: string,
+): Promise<boolean> {
+  assertObjectKey(key);
+  const { store: row } = await resolveObjectStore(owner, projectId, store);
+  await backendFor(row).delete(key);
+  const result = await prisma.storedObject.deleteMany({
+    where: { storeId: row.id, key },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Prefix scan in key order. Paginate by passing the returned `nextCursor`
+ * back as `cursor`; it is null on the last page.
+ */
+export async function objectList(
+  owner: ProjectResourceOwnerFilter,
+  projectId: string,
+  store: string,
+  options: ObjectListOptions = {},
+): Promise<ObjectListResult> {
+  const prefix = options.prefix ?? "";
+  if (typeof prefix !== "string" || !OBJECT_PREFIX_RE.test(prefix)) {
+    throw new ValidationError(
+      "OBJECT_STORE: prefix must match ^[A-Za-z0-9_\\-./]{0,512}$",
+    );
+  }
+  const limit = options.limit ?? DEFAULT_LIST_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    throw new ValidationError(
+      `OBJECT_STORE: limit must be an integer in 1..${MAX_LIST_LIMIT}`,
+    );
+  }
+  if (options.cursor !== undefined && options.cursor !== null) {
+    assertObjectKey(options.cursor);
+  }
+
+  const { store: row } = await resolveObjectStore(owner, projectId, store);
+  const rows = await prisma.storedObject.findMany({
+    where: {
+      storeId: row.id,
+      ...(prefix || options.cursor
+        ? {
+            key: {
+              ...(prefix ? { startsWith: prefix } : {}),
+              ...(options.cursor ? { gt: options.cursor } : {}),
+            },
+          }
+        : {}),
+    },
+    orderBy: { key: "asc" },
+    take: limit + 1,
+  });
+
+  const page = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? (page[page.length - 1]?.key ?? null) : null;
+  return { objects: page.map(toView), nextCursor };
+}
+
+// ===========================================
+// Signed URLs
+// ===========================================
+
+let _signingSecret: string | null = null;
+
+function getSigningSecret(): string {
+  if (_signingSecret) return _signingSecret;
+  const configured = process.env.OBJECT_STORE_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (configured) {
+    _signingSecret = configured;
+    return _signingSecret;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(
+      "OBJECT_STORE_SIGNING_SECRET (or JWT_SECRET) environment variable is required in production",
+    );
+  }
+  _signingSecret = "dev-object-store-secret-change-in-production";
+  return _signingSecret;
+}
+
+function signDownload(resourceId: string, key: string, expires: number): string {
+  return crypto
+    .createHmac("sha256", getSigningSecret())
+    .update(`${resourceId}\n${key}\n${expires}`, "utf8")
+    .digest("hex");
+}
+
+/**
+ * Mint a time-limited, unauthenticated download URL for one object. The
+ * object must exist at signing time.
+ */
+export async function createSignedObjectUrl(
+  owner: ProjectResourceOwnerFilter,
+  projectId: string,
+  store: string,
+  key: string,
+  options: { expiresInSeconds?: number } = {},
+): Promise<SignedObjectUrl> {
+  assertObjectKey(key);
+  const expiresIn = options.expiresInSeconds ?? DEFAULT_SIGNED_URL_TTL_SECONDS;
+  if (
+    !Number.isInteger(expiresIn) ||
+    expiresIn < 1 ||
+    expiresIn > MAX_SIGNED_URL_TTL_SECONDS
+  ) {
+    throw new ValidationError(
+      `OBJECT_STORE: expiresInSeconds must be an integer in 1..${MAX_SIGNED_URL_TTL_SECONDS}`,
+    );
+  }
+
+  const { resource, store: row } = await resolveObjectStore(owner, projectId, store);
+  const exists = await prisma.storedObject.findUnique({
+    where: { storeId_key: { storeId: row.id, key } },
+    select: { id: true },
+  });
+  if (!exists) {
+    throw new NotFoundError(`Object "${key}" not found in OBJECT_STORE "${store}"`);
+  }
+
+  const expiresAt = new Date(Date.now() + expiresIn * 1000);
+  const native = backendFor(row).presignGet(key, expiresIn);
+  if (native) return { url: native, expiresAt };
+
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  const query = new URLSearchParams({
+    key,
+    expires: String(expires),
+    signature: signDownload(resource.id, key, expires),
+  });
+  return {
+    url: apiUrl(`/object-store/download/${encodeURIComponent(resource.id)}?${query.toString()}`),
+    expiresAt,
+  };
+}
+
+/**
+ * Resolve a platform-signed download (LOCAL stores). Expiry and signature
+ * are checked before any database access, so unsigned probes cost nothing.
+ */
+export async function readSignedObject(params: {
+  resourceId: string;
+  key: string;
+  expires: number;
+  signature: string;
+}): Promise<ObjectBody> {
+  const { resourceId, key, expires, signature } = params;
+  if (!Number.isInteger(expires) || expires * 1000 < Date.now()) {
+    throw new ForbiddenError("Download link has expired", "LINK_EXPIRED");
+  }
+  const expected = Buffer.from(signDownload(resourceId, key, expires), "hex");
+  const given = Buffer.from(signature, "hex");
+  if (
+    !OBJECT_KEY_RE.test(key) ||
+    given.length !== expected.length ||
+    !crypto.timingSafeEqual(given, expected)
+  ) {
+    throw new ForbiddenError("Invalid download signature", "INVALID_SIGNATURE");
+  }
+
+  const resource = await prisma.projectResource.findUnique({
+    where: { id: resourceId },
+    include: { objectStore: true },
+  });
+  if (!resource?.objectStore || resource.status !== "ACTIVE") {
+    throw new NotFoundError("Object not found");
+  }
+  const object = await readObject(resource.objectStore, key);
+  if (!object) throw new NotFoundError("Object not found");
+  return object;
+}
+
+// ===========================================
+// Lifecycle
+// ===========================================
+
+/**
+ * Best-effort removal of every blob a store holds. Called before the
+ * ProjectResource row is hard-deleted (the index rows cascade with it).
+ */
+export async function purgeObjectStore(resourceId: string): Promise<void> {
+  const row = await prisma.objectStore.findUnique({ where: { resourceId } });
+  if (!row) return;
+  const objects = await prisma.storedObject.findMany({
+    where: { storeId: row.id },
+    select: { key: true },
+  });
+  try {
+    await backendFor(row).purge(objects.map((o) => o.key));
+  } catch (err) {
+    log.warn(
+      { resourceId, storeId: row.id, error: (err as Error).message },
+      "purgeObjectStore: backend cleanup failed — continuing with delete",
+    );
+  }
+}
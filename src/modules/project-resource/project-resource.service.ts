@@ -13,6 +13,8 @@ import type {
     DatabaseSslMode,
     ProjectResource,
     ProjectResourceKind,
+    ScheduleFire,
+    ScheduleMisfirePolicy,
 } from "@prisma/client";
 import { Prisma } from "@prisma/client";
 import { parseExpression as parseCron } from "cron-parser";
@@ -31,26 +33,43 @@ import type {
     CreateDatabaseResourceInput,
     CreateExternalApiResourceInput,
     CreateHttpRouteResourceInput,
+    CreateKvStoreResourceInput,
+    CreateObjectStoreResourceInput,
     CreateProjectResourceInput,
     CreateScheduleResourceInput,
     CreateSecretResourceInput,
     DatabaseSpec,
+    ExternalApiConnection,
     ExternalApiCredentials,
     ExternalApiSpec,
     HttpRouteSpec,
+    KvStoreSpec,
     ListProjectResourcesOptions,
+    ObjectStoreSpec,
     ProjectResourceOwnerFilter,
     SafeDatabaseConnection,
     SafeExternalApi,
+    SafeKvStore,
+    SafeObjectStore,
     SafeSecret,
+    ScheduleFirePreview,
     ScheduleSpec,
     UpdateDatabaseSidecarInput,
     UpdateExternalApiSidecarInput,
     UpdateHttpRouteSidecarInput,
+    UpdateKvStoreSidecarInput,
+    UpdateObjectStoreSidecarInput,
     UpdateProjectResourceInput,
     UpdateScheduleSidecarInput,
     UpdateSecretSidecarInput
 } from "./project-resource.types";
+import { purgeObjectStore } from "./object-store.service";
+import {
+    formatInTimezone,
+    intersectScheduleWindow,
+    listFireTimes,
+    nextFireInWindow,
+} from "./schedule-timing";
 
 const log = logger.child({ module: "project-resource" });
 
@@ -194,6 +213,10 @@ export async function getProjectResourceWithGateway(
           updatedAt: true,
         },
       },
+      kvStore: true,
+      // OBJECT_STORE: omit secretAccessKeyEnc so S3 credentials are never
+      // reachable via the standard resource detail endpoint.
+      objectStore: { select: SAFE_OBJECT_STORE_SELECT },
     },
   });
   if (!resource) {
@@ -354,6 +377,9 @@ export async function deleteProjectResource(
       "GATEWAY_BOT resources are deleted automatically when the gateway is deleted",
     );
   }
+  if (existing.kind === "OBJECT_STORE") {
+    await purgeObjectStore(resourceId);
+  }
   await prisma.projectResource.delete({ where: { id: resourceId } });
 }
 
@@ -459,6 +485,35 @@ function validateHttpRouteSpec(spec: HttpRouteSpec): void {
       "HTTP_ROUTE: targetUserPluginId and targetWorkflowId are mutually exclusive",
     );
   }
+  if (spec.responseMode === "WORKFLOW_OUTPUT" && spec.targetUserPluginId) {
+    throw new ValidationError(
+      "HTTP_ROUTE: responseMode=WORKFLOW_OUTPUT requires a targetWorkflowId",
+    );
+  }
+}
+
+/**
+ * The designated response step must belong to the route's target Workflow.
+ * `workflowId` is the effective target after the patch is applied.
+ */
+async function assertResponseStepInWorkflow(
+  tx: Prisma.TransactionClient | typeof prisma,
+  workflowId: string | null | undefined,
+  responseStepId: string | null | undefined,
+): Promise<void> {
+  if (!responseStepId) return;
+  if (!workflowId) {
+    throw new ValidationError("HTTP_ROUTE: responseStepId requires a targetWorkflowId");
+  }
+  const step = await tx.workflowStep.findUnique({
+    where: { id: responseStepId },
+    select: { workflowId: true },
+  });
+  if (!step || step.workflowId !== workflowId) {
+    throw new ValidationError(
+      `HTTP_ROUTE: response step ${responseStepId} is not part of target Workflow ${workflowId}`,
+    );
+  }
 }
 
 async function assertTargetWorkflowOwned(
@@ -539,6 +594,11 @@ export async function createHttpRouteResource(
       project.id,
       input.httpRoute.targetWorkflowId,
     );
+    await assertResponseStepInWorkflow(
+      tx,
+      input.httpRoute.targetWorkflowId,
+      input.httpRoute.responseStepId,
+    );
 
     const slug = await allocateSlug(
       tx,
@@ -571,6 +631,8 @@ export async function createHttpRouteResource(
         targetUserPluginId: input.httpRoute.targetUserPluginId ?? null,
         targetExport: input.httpRoute.targetExport ?? null,
         targetWorkflowId: input.httpRoute.targetWorkflowId ?? null,
+        responseMode: input.httpRoute.responseMode ?? "ASYNC",
+        responseStepId: input.httpRoute.responseStepId ?? null,
         authMode: input.httpRoute.authMode ?? "NONE",
         authConfig: (input.httpRoute.authConfig ?? {}) as Prisma.InputJsonValue,
         maxBodyKb: input.httpRoute.maxBodyKb ?? 0,
@@ -617,6 +679,7 @@ export async function updateHttpRouteSidecar(
       targetUserPluginId: patch.targetUserPluginId,
       targetWorkflowId: patch.targetWorkflowId,
       targetExport: patch.targetExport,
+      responseMode: patch.responseMode,
     });
   }
 
@@ -633,6 +696,36 @@ export async function updateHttpRouteSidecar(
       resource.projectId,
       patch.targetWorkflowId,
     );
+    // Phase 8.3: the response step must live in the effective target
+    // Workflow; retargeting drops a step that belonged to the old one.
+    let responseStepId = patch.responseStepId;
+    if (
+      patch.responseStepId ||
+      patch.targetWorkflowId !== undefined ||
+      patch.responseMode === "WORKFLOW_OUTPUT"
+    ) {
+      const current = await tx.httpRoute.findUnique({
+        where: { resourceId },
+        select: { targetWorkflowId: true, responseStepId: true },
+      });
+      const workflowId =
+        patch.targetWorkflowId !== undefined
+          ? patch.targetWorkflowId
+          : current?.targetWorkflowId;
+      if (patch.responseMode === "WORKFLOW_OUTPUT" && !workflowId) {
+        throw new ValidationError(
+          "HTTP_ROUTE: responseMode=WORKFLOW_OUTPUT requires a targetWorkflowId",
+        );
+      }
+      if (responseStepId === undefined && workflowId !== current?.targetWorkflowId) {
+        responseStepId = null;
+      }
+      await assertResponseStepInWorkflow(
+        tx,
+        workflowId,
+        responseStepId !== undefined ? responseStepId : current?.responseStepId,
+      );
+    }
 
     return tx.httpRoute.update({
       where: { resourceId },
@@ -648,6 +741,10 @@ export async function updateHttpRouteSidecar(
         ...(patch.targetExport !== undefined
           ? { targetExport: patch.targetExport }
           : {}),
+        ...(patch.responseMode !== undefined
+          ? { responseMode: patch.responseMode }
+          : {}),
+        ...(responseStepId !== undefined ? { responseStepId } : {}),
         ...(patch.authMode !== undefined ? { authMode: patch.authMode } : {}),
         ...(patch.authConfig !== undefined
           ? { authConfig: patch.authConfig as Prisma.InputJsonValue }
@@ -700,6 +797,18 @@ export async function findHttpRouteByPathExact(
 // ===========================================
 
 const TIMEZONE_RE = /^[A-Za-z]+(?:[_/][A-Za-z0-9_+-]+)*$/;
+const MISFIRE_POLICIES: readonly ScheduleMisfirePolicy[] = ["SKIP", "FIRE_ONCE", "CATCH_UP"];
+const MAX_CATCH_UP_LIMIT = 100;
+const MAX_PREVIEW_FIRES = 50;
+
+function parseScheduleDate(value: string | null | undefined, field: string): Date | null {
+  if (value === undefined || value === null) return null;
+  const date = new Date(value);
+  if (typeof value !== "string" || Number.isNaN(date.getTime())) {
+    throw new ValidationError(`SCHEDULE: ${field} must be an ISO timestamp`);
+  }
+  return date;
+}
 
 /**
  * Validate a `ScheduleSpec` (cron expression + optional timezone).
@@ -730,6 +839,22 @@ export function validateScheduleSpec(spec: ScheduleSpec): void {
     const msg = err instanceof Error ? err.message : String(err);
     throw new ValidationError(`SCHEDULE: invalid cron expression — ${msg}`);
   }
+  const startDate = parseScheduleDate(spec.startDate, "startDate");
+  const endDate = parseScheduleDate(spec.endDate, "endDate");
+  if (startDate && endDate && endDate <= startDate) {
+    throw new ValidationError("SCHEDULE: endDate must be after startDate");
+  }
+  if (spec.misfirePolicy !== undefined && !MISFIRE_POLICIES.includes(spec.misfirePolicy)) {
+    throw new ValidationError(`SCHEDULE: misfirePolicy must be one of ${MISFIRE_POLICIES.join(", ")}`);
+  }
+  if (
+    spec.catchUpLimit !== undefined &&
+    (!Number.isInteger(spec.catchUpLimit) ||
+      spec.catchUpLimit < 1 ||
+      spec.catchUpLimit > MAX_CATCH_UP_LIMIT)
+  ) {
+    throw new ValidationError(`SCHEDULE: catchUpLimit must be an integer 1..${MAX_CATCH_UP_LIMIT}`);
+  }
 }
 
 /**
@@ -814,8 +939,12 @@ export async function createScheduleResource(
     });
 
     const enabled = input.schedule.enabled ?? true;
+    const window = {
+      startDate: parseScheduleDate(input.schedule.startDate, "startDate"),
+      endDate: parseScheduleDate(input.schedule.endDate, "endDate"),
+    };
     const nextFireAt = enabled
-      ? computeNextFireAt(input.schedule.cron, input.schedule.timezone)
+      ? nextFireInWindow(input.schedule.cron, input.schedule.timezone, new Date(), window)
       : null;
 
     await tx.schedule.create({
@@ -825,6 +954,13 @@ export async function createScheduleResource(
         timezone: input.schedule.timezone ?? null,
         targetWorkflowId: input.schedule.targetWorkflowId ?? null,
         enabled,
+        ...window,
+        ...(input.schedule.misfirePolicy !== undefined
+          ? { misfirePolicy: input.schedule.misfirePolicy }
+          : {}),
+        ...(input.schedule.catchUpLimit !== undefined
+          ? { catchUpLimit: input.schedule.catchUpLimit }
+          : {}),
         nextFireAt,
       },
     });
@@ -856,8 +992,15 @@ export async function updateScheduleSidecar(
     );
   }
 
-  if (patch.cron !== undefined || patch.timezone !== undefined) {
-    // Validate using the cron actually being persisted (existing or new).
+  if (
+    patch.cron !== undefined ||
+    patch.timezone !== undefined ||
+    patch.startDate !== undefined ||
+    patch.endDate !== undefined ||
+    patch.misfirePolicy !== undefined ||
+    patch.catchUpLimit !== undefined
+  ) {
+    // Validate using the spec actually being persisted (existing or new).
     const existing = await prisma.schedule.findUnique({ where: { resourceId } });
     if (!existing) {
       throw new NotFoundError(`Schedule sidecar for ${resourceId} not found`);
@@ -865,6 +1008,11 @@ export async function updateScheduleSidecar(
     validateScheduleSpec({
       cron: patch.cron ?? existing.cron,
       timezone: patch.timezone !== undefined ? patch.timezone : existing.timezone,
+      startDate:
+        patch.startDate !== undefined ? patch.startDate : existing.startDate?.toISOString(),
+      endDate: patch.endDate !== undefined ? patch.endDate : existing.endDate?.toISOString(),
+      misfirePolicy: patch.misfirePolicy,
+      catchUpLimit: patch.catchUpLimit,
     });
   }
 
@@ -887,14 +1035,25 @@ export async function updateScheduleSidecar(
       patch.timezone !== undefined && (patch.timezone ?? null) !== (existing.timezone ?? null);
     const enabledChanged =
       patch.enabled !== undefined && patch.enabled !== existing.enabled;
+    const startDate =
+      patch.startDate !== undefined
+        ? parseScheduleDate(patch.startDate, "startDate")
+        : existing.startDate;
+    const endDate =
+      patch.endDate !== undefined ? parseScheduleDate(patch.endDate, "endDate") : existing.endDate;
+    const windowChanged =
+      (startDate?.getTime() ?? null) !== (existing.startDate?.getTime() ?? null) ||
+      (endDate?.getTime() ?? null) !== (existing.endDate?.getTime() ?? null);
 
     let nextFireAt: Date | null | undefined = undefined;
     const willBeEnabled = patch.enabled ?? existing.enabled;
-    if (cronChanged || tzChanged || enabledChanged) {
+    if (cronChanged || tzChanged || enabledChanged || windowChanged) {
       if (willBeEnabled) {
-        nextFireAt = computeNextFireAt(
+        nextFireAt = nextFireInWindow(
           patch.cron ?? existing.cron,
           patch.timezone !== undefined ? patch.timezone : existing.timezone,
+          new Date(),
+          { startDate, endDate },
         );
       } else {
         nextFireAt = null;
@@ -910,12 +1069,81 @@ export async function updateScheduleSidecar(
           ? { targetWorkflowId: patch.targetWorkflowId }
           : {}),
         ...(patch.enabled !== undefined ? { enabled: patch.enabled } : {}),
+        ...(patch.startDate !== undefined ? { startDate } : {}),
+        ...(patch.endDate !== undefined ? { endDate } : {}),
+        ...(patch.misfirePolicy !== undefined ? { misfirePolicy: patch.misfirePolicy } : {}),
+        ...(patch.catchUpLimit !== undefined ? { catchUpLimit: patch.catchUpLimit } : {}),
         ...(nextFireAt !== undefined ? { nextFireAt } : {}),
       },
     });
   });
 }
 
+async function loadScheduleOrThrow(owner: ProjectResourceOwnerFilter, resourceId: string) {
+  const resource = await getProjectResource(owner, resourceId);
+  if (resource.kind !== "SCHEDULE") {
+    throw new ValidationError(
+      `Resource ${resourceId} is not a SCHEDULE (kind=${resource.kind})`,
+    );
+  }
+  const schedule = await prisma.schedule.findUnique({
+    where: { resourceId },
+    include: { targetWorkflow: { select: { triggerType: true, triggerConfig: true } } },
+  });
+  if (!schedule) {
+    throw new NotFoundError(`Schedule sidecar for ${resourceId} not found`);
+  }
+  return schedule;
+}
+
+/**
+ * The next `count` fire times of a SCHEDULE, honoring its date window (and
+ * the target workflow's SCHEDULE trigger window). Empty when disabled.
+ */
+export async function previewScheduleFires(
+  owner: ProjectResourceOwnerFilter,
+  resourceId: string,
+  count = 10,
+): Promise<ScheduleFirePreview[]> {
+  const schedule = await loadScheduleOrThrow(owner, resourceId);
+  if (!schedule.enabled) return [];
+
+  const window = intersectScheduleWindow(
+    { startDate: schedule.startDate, endDate: schedule.endDate },
+    schedule.targetWorkflow?.triggerType === "SCHEDULE"
+      ? (schedule.targetWorkflow.triggerConfig as { startDate?: unknown; endDate?: unknown } | null)
+      : null,
+  );
+  const times = listFireTimes(
+    schedule.cron,
+    schedule.timezone,
+    new Date(),
+    Math.min(Math.max(1, count), MAX_PREVIEW_FIRES),
+    window,
+  );
+  return times.map((at) => ({
+    at: at.toISOString(),
+    local: formatInTimezone(at, schedule.timezone),
+  }));
+}
+
+/**
+ * Recent fire history of a SCHEDULE (fired, failed and skipped slots),
+ * newest first.
+ */
+export async function listScheduleFires(
+  owner: ProjectResourceOwnerFilter,
+  resourceId: string,
+  limit = 50,
+): Promise<ScheduleFire[]> {
+  const schedule = await loadScheduleOrThrow(owner, resourceId);
+  return prisma.scheduleFire.findMany({
+    where: { scheduleId: schedule.id },
+    orderBy: { scheduledAt: "desc" },
+    take: Math.min(Math.max(1, limit), 200),
+  });
+}
+
 // ===========================================
 // SECRET (Path C — Phase 7.4)
 // ===========================================
@@ -1448,6 +1676,30 @@ export async function getDecryptedExternalApiCredentials(
   return { authMode: row.authMode, credentials: parsed as Record<string, unknown> };
 }
 
+/**
+ * Server-side accessor for calling an EXTERNAL_API: the sidecar settings
+ * with the decrypted credentials. Same ownership check and caveats as
+ * `getDecryptedExternalApiCredentials()`.
+ */
+export async function getExternalApiConnection(
+  owner: ProjectResourceOwnerFilter,
+  resourceId: string,
+): Promise<ExternalApiConnection> {
+  const { credentials } = await getDecryptedExternalApiCredentials(owner, resourceId);
+  const row = await prisma.externalApi.findUnique({
+    where: { resourceId },
+    select: { baseUrl: true, authMode: true, defaultHeaders: true, timeoutMs: true },
+  });
+  if (!row) {
+    throw new NotFoundError(`ExternalApi sidecar for ${resourceId} not found`);
+  }
+  return {
+    ...row,
+    credentials,
+    defaultHeaders: (row.defaultHeaders ?? {}) as Record<string, string>,
+  };
+}
+
 // ===========================================
 // DATABASE (Path C — Phase 7.5)
 // ===========================================
@@ -1721,3 +1973,354 @@ export async function getDecryptedDatabasePassword(
   if (!row.passwordEnc) return "";
   return decrypt(row.passwordEnc);
 }
+
+// ===========================================
+// KV_STORE (Path C — Phase 8.1)
+// ===========================================
+
+/** Hard ceilings a single KV_STORE may be configured up to. */
+const KV_MAX_BYTES_CEILING = 100 * 1024 * 1024;
+const KV_MAX_KEYS_CEILING = 1_000_000;
+const KV_MAX_TTL_SECONDS = 365 * 24 * 60 * 60;
+
+const DEFAULT_KV_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_KV_MAX_KEYS = 10_000;
+
+/**
+ * Validate a `KvStoreSpec` (quota + default TTL).
+ *
+ * Throws `ValidationError` on the first problem encountered.
+ *
+ * @internal exported for tests.
+ */
+export function validateKvStoreSpec(spec: KvStoreSpec): void {
+  if (spec.maxBytes !== undefined) {
+    if (
+      !Number.isInteger(spec.maxBytes) ||
+      spec.maxBytes < 1024 ||
+      spec.maxBytes > KV_MAX_BYTES_CEILING
+    ) {
+      throw new ValidationError(
+        `KV_STORE: maxBytes must be an integer in 1024..${KV_MAX_BYTES_CEILING}`,
+      );
+    }
+  }
+  if (spec.maxKeys !== undefined) {
+    if (
+      !Number.isInteger(spec.maxKeys) ||
+      spec.maxKeys < 1 ||
+      spec.maxKeys > KV_MAX_KEYS_CEILING
+    ) {
+      throw new ValidationError(
+        `KV_STORE: maxKeys must be an integer in 1..${KV_MAX_KEYS_CEILING}`,
+      );
+    }
+  }
+  if (spec.defaultTtlSeconds !== undefined) {
+    if (
+      !Number.isInteger(spec.defaultTtlSeconds) ||
+      spec.defaultTtlSeconds < 0 ||
+      spec.defaultTtlSeconds > KV_MAX_TTL_SECONDS
+    ) {
+      throw new ValidationError(
+        `KV_STORE: defaultTtlSeconds must be an integer in 0..${KV_MAX_TTL_SECONDS}`,
+      );
+    }
+  }
+}
+
+export async function createKvStoreResource(
+  owner: ProjectResourceOwnerFilter,
+  input: CreateKvStoreResourceInput,
+): Promise<ProjectResource> {
+  const project = await loadProjectOrThrow(input.projectId, owner);
+  validateKvStoreSpec(input.kvStore);
+
+  return prisma.$transaction(async (tx) => {
+    const slug = await allocateSlug(
+      tx,
+      project.id,
+      "KV_STORE",
+      input.slug ?? input.name,
+    );
+
+    const resource = await tx.projectResource.create({
+      data: {
+        projectId: project.id,
+        userId: project.userId,
+        organizationId: project.organizationId,
+        kind: "KV_STORE",
+        name: input.name,
+        slug,
+        status: input.status ?? "ACTIVE",
+        config: {},
+        metadata: (input.metadata ?? undefined) as
+          | Prisma.InputJsonValue
+          | undefined,
+      },
+    });
+
+    await tx.kvStore.create({
+      data: {
+        resourceId: resource.id,
+        maxBytes: input.kvStore.maxBytes ?? DEFAULT_KV_MAX_BYTES,
+        maxKeys: input.kvStore.maxKeys ?? DEFAULT_KV_MAX_KEYS,
+        defaultTtlSeconds: input.kvStore.defaultTtlSeconds ?? 0,
+      },
+    });
+
+    log.info(
+      {
+        resourceId: resource.id,
+        projectId: project.id,
+        slug,
+      },
+      "KV_STORE resource created",
+    );
+
+    return resource;
+  });
+}
+
+/**
+ * Patch the quota / default TTL of a KV_STORE. Lowering a quota below the
+ * current usage is allowed — existing entries stay readable, but writes that
+ * grow the store are rejected until usage drops under the new limit.
+ */
+export async function updateKvStoreSidecar(
+  owner: ProjectResourceOwnerFilter,
+  resourceId: string,
+  patch: UpdateKvStoreSidecarInput,
+): Promise<SafeKvStore> {
+  const resource = await getProjectResource(owner, resourceId);
+  if (resource.kind !== "KV_STORE") {
+    throw new ValidationError(
+      `Resource ${resourceId} is not a KV_STORE (kind=${resource.kind})`,
+    );
+  }
+  validateKvStoreSpec(patch);
+
+  const existing = await prisma.kvStore.findUnique({ where: { resourceId } });
+  if (!existing) {
+    throw new NotFoundError(`KvStore sidecar for ${resourceId} not found`);
+  }
+
+  const data: Prisma.KvStoreUpdateInput = {};
+  if (patch.maxBytes !== undefined) data.maxBytes = patch.maxBytes;
+  if (patch.maxKeys !== undefined) data.maxKeys = patch.maxKeys;
+  if (patch.defaultTtlSeconds !== undefined) {
+    data.defaultTtlSeconds = patch.defaultTtlSeconds;
+  }
+
+  return prisma.kvStore.update({ where: { resourceId }, data });
+}
+
+// ===========================================
+// OBJECT_STORE (Path C — Phase 8.2)
+// ===========================================
+
+const S3_BUCKET_RE = /^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/;
+const S3_REGION_RE = /^[a-z0-9-]{1,32}$/;
+const OBJECT_KEY_PREFIX_RE = /^(?:[A-Za-z0-9_\-.]+\/)*$/;
+
+const SAFE_OBJECT_STORE_SELECT = {
+  id: true,
+  resourceId: true,
+  backend: true,
+  bucket: true,
+  region: true,
+  endpoint: true,
+  forcePathStyle: true,
+  keyPrefix: true,
+  accessKeyId: true,
+  createdAt: true,
+  updatedAt: true,
+} as const satisfies Prisma.ObjectStoreSelect;
+
+/**
+ * Validate an `ObjectStoreSpec`. S3 stores need a bucket and an access key
+ * id; the secret is only required on create (`requireSecret`), since
+ * updates keep the stored one unless a new value is passed.
+ *
+ * Throws `ValidationError` on the first problem encountered.
+ *
+ * @internal exported for tests.
+ */
+export function validateObjectStoreSpec(
+  spec: ObjectStoreSpec,
+  options: { requireSecret?: boolean } = {},
+): void {
+  const backend = spec.backend ?? "LOCAL";
+  if (backend !== "LOCAL" && backend !== "S3") {
+    throw new ValidationError(
+      `OBJECT_STORE: backend must be LOCAL or S3 (got ${String(backend)})`,
+    );
+  }
+  if (spec.keyPrefix !== undefined) {
+    if (
+      typeof spec.keyPrefix !== "string" ||
+      spec.keyPrefix.length > 256 ||
+      !OBJECT_KEY_PREFIX_RE.test(spec.keyPrefix)
+    ) {
+      throw new ValidationError(
+        "OBJECT_STORE: keyPrefix must be empty or '/'-terminated path segments (<=256 chars)",
+      );
+    }
+  }
+  if (backend === "LOCAL") return;
+
+  if (!spec.bucket || !S3_BUCKET_RE.test(spec.bucket)) {
+    throw new ValidationError("OBJECT_STORE: bucket must be a valid S3 bucket name");
+  }
+  if (spec.region !== undefined && spec.region !== null && !S3_REGION_RE.test(spec.region)) {
+    throw new ValidationError("OBJECT_STORE: region must match [a-z0-9-]{1,32}");
+  }
+  if (spec.endpoint !== undefined && spec.endpoint !== null) {
+    if (typeof spec.endpoint !== "string" || !HTTPS_URL_RE.test(spec.endpoint)) {
+      throw new ValidationError(
+        "OBJECT_STORE: endpoint must be an http(s) URL",
+      );
+    }
+  }
+  if (!spec.accessKeyId || spec.accessKeyId.length > 128) {
+    throw new ValidationError(
+      "OBJECT_STORE: accessKeyId is required for S3 (<=128 chars)",
+    );
+  }
+  if (spec.secretAccessKey !== undefined && spec.secretAccessKey !== null) {
+    if (typeof spec.secretAccessKey !== "string" || spec.secretAccessKey.length > 256) {
+      throw new ValidationError(
+        "OBJECT_STORE: secretAccessKey must be a string of <=256 chars",
+      );
+    }
+  }
+  if ((options.requireSecret ?? false) && !spec.secretAccessKey) {
+    throw new ValidationError("OBJECT_STORE: secretAccessKey is required for S3");
+  }
+}
+
+export async function createObjectStoreResource(
+  owner: ProjectResourceOwnerFilter,
+  input: CreateObjectStoreResourceInput,
+): Promise<ProjectResource> {
+  const project = await loadProjectOrThrow(input.projectId, owner);
+  validateObjectStoreSpec(input.objectStore, { requireSecret: true });
+
+  const spec = input.objectStore;
+  const backend = spec.backend ?? "LOCAL";
+  const secretAccessKeyEnc =
+    backend === "S3" && spec.secretAccessKey ? encrypt(spec.secretAccessKey) : "";
+
+  return prisma.$transaction(async (tx) => {
+    const slug = await allocateSlug(
+      tx,
+      project.id,
+      "OBJECT_STORE",
+      input.slug ?? input.name,
+    );
+
+    const resource = await tx.projectResource.create({
+      data: {
+        projectId: project.id,
+        userId: project.userId,
+        organizationId: project.organizationId,
+        kind: "OBJECT_STORE",
+        name: input.name,
+        slug,
+        status: input.status ?? "ACTIVE",
+        config: {},
+        metadata: (input.metadata ?? undefined) as
+          | Prisma.InputJsonValue
+          | undefined,
+      },
+    });
+
+    await tx.objectStore.create({
+      data: {
+        resourceId: resource.id,
+        backend,
+        bucket: backend === "S3" ? (spec.bucket ?? null) : null,
+        region: backend === "S3" ? (spec.region ?? "us-east-1") : null,
+        endpoint: backend === "S3" ? (spec.endpoint ?? null) : null,
+        forcePathStyle: spec.forcePathStyle ?? false,
+        keyPrefix: spec.keyPrefix ?? "",
+        accessKeyId: backend === "S3" ? (spec.accessKeyId ?? null) : null,
+        secretAccessKeyEnc,
+      },
+    });
+
+    log.info(
+      {
+        resourceId: resource.id,
+        projectId: project.id,
+        backend,
+      },
+      "OBJECT_STORE resource created",
+    );
+
+    return resource;
+  });
+}
+
+/**
+ * Patch the backend settings of an OBJECT_STORE. Switching `backend` on a
+ * store that already holds objects is rejected — the bytes would be
+ * orphaned in the old backend while the index still lists them.
+ */
+export async function updateObjectStoreSidecar(
+  owner: ProjectResourceOwnerFilter,
+  resourceId: string,
+  patch: UpdateObjectStoreSidecarInput,
+): Promise<SafeObjectStore> {
+  const resource = await getProjectResource(owner, resourceId);
+  if (resource.kind !== "OBJECT_STORE") {
+    throw new ValidationError(
+      `Resource ${resourceId} is not an OBJECT_STORE (kind=${resource.kind})`,
+    );
+  }
+  const existing = await prisma.objectStore.findUnique({ where: { resourceId } });
+  if (!existing) {
+    throw new NotFoundError(`ObjectStore sidecar for ${resourceId} not found`);
+  }
+
+  const backend = patch.backend ?? existing.backend;
+  if (backend !== existing.backend) {
+    const count = await prisma.storedObject.count({ where: { storeId: existing.id } });
+    if (count > 0) {
+      throw new ValidationError(
+        "OBJECT_STORE: cannot change backend while the store holds objects",
+      );
+    }
+  }
+
+  validateObjectStoreSpec(
+    {
+      backend,
+      bucket: patch.bucket !== undefined ? patch.bucket : existing.bucket,
+      region: patch.region !== undefined ? patch.region : existing.region,
+      endpoint: patch.endpoint !== undefined ? patch.endpoint : existing.endpoint,
+      forcePathStyle: patch.forcePathStyle ?? existing.forcePathStyle,
+      keyPrefix: patch.keyPrefix ?? existing.keyPrefix,
+      accessKeyId:
+        patch.accessKeyId !== undefined ? patch.accessKeyId : existing.accessKeyId,
+      secretAccessKey: patch.secretAccessKey ?? null,
+    },
+    { requireSecret: backend === "S3" && !existing.secretAccessKeyEnc },
+  );
+
+  const data: Prisma.ObjectStoreUpdateInput = {};
+  if (patch.backend !== undefined) data.backend = patch.backend;
+  if (patch.bucket !== undefined) data.bucket = patch.bucket;
+  if (patch.region !== undefined) data.region = patch.region;
+  if (patch.endpoint !== undefined) data.endpoint = patch.endpoint;
+  if (patch.forcePathStyle !== undefined) data.forcePathStyle = patch.forcePathStyle;
+  if (patch.keyPrefix !== undefined) data.keyPrefix = patch.keyPrefix;
+  if (patch.accessKeyId !== undefined) data.accessKeyId = patch.accessKeyId;
+  if (patch.secretAccessKey) data.secretAccessKeyEnc = encrypt(patch.secretAccessKey);
+
+  return prisma.objectStore.update({
+    where: { resourceId },
+    data,
+    select: SAFE_OBJECT_STORE_SELECT,
+  });
+}
@@ -10,8 +10,11 @@ import type {
     ExternalApiAuthMode,
     HttpAuthMode,
     HttpMethod,
+    HttpRouteResponseMode,
+    ObjectStoreBackend,
     ProjectResourceKind,
     ProjectResourceStatus,
+    ScheduleMisfirePolicy,
 } from "@prisma/client";
 
 export interface ProjectResourceOwnerFilter {
@@ -55,6 +58,10 @@ export interface HttpRouteSpec {
   targetExport?: string | null;
   /** Phase 7.3c: optional WEBHOOK-triggered Workflow target. */
   targetWorkflowId?: string | null;
+  /** Phase 8.3: ASYNC (202 + runId) or WORKFLOW_OUTPUT (wait for the response step). */
+  responseMode?: HttpRouteResponseMode;
+  /** Phase 8.3: WorkflowStep whose output becomes the response. */
+  responseStepId?: string | null;
   authMode?: HttpAuthMode;
   authConfig?: Record<string, unknown>;
   maxBodyKb?: number;
@@ -79,6 +86,10 @@ export interface UpdateHttpRouteSidecarInput {
   targetExport?: string | null;
   /** Phase 7.3c: optional WEBHOOK-triggered Workflow target. */
   targetWorkflowId?: string | null;
+  /** Phase 8.3: ASYNC (202 + runId) or WORKFLOW_OUTPUT (wait for the response step). */
+  responseMode?: HttpRouteResponseMode;
+  /** Phase 8.3: WorkflowStep whose output becomes the response. */
+  responseStepId?: string | null;
   authMode?: HttpAuthMode;
   authConfig?: Record<string, unknown>;
   maxBodyKb?: number;
@@ -100,6 +111,14 @@ export interface ScheduleSpec {
   targetWorkflowId?: string | null;
   /** When false, the schedule exists but does not fire. */
   enabled?: boolean;
+  /** ISO timestamp — no fires before it. */
+  startDate?: string | null;
+  /** ISO timestamp — no fires after it. */
+  endDate?: string | null;
+  /** Handling of fires missed while the tick was down. Defaults to FIRE_ONCE. */
+  misfirePolicy?: ScheduleMisfirePolicy;
+  /** Most missed fires replayed per tick under CATCH_UP (1..100, default 10). */
+  catchUpLimit?: number;
 }
 
 export interface CreateScheduleResourceInput {
@@ -116,6 +135,18 @@ export interface UpdateScheduleSidecarInput {
   timezone?: string | null;
   targetWorkflowId?: string | null;
   enabled?: boolean;
+  startDate?: string | null;
+  endDate?: string | null;
+  misfirePolicy?: ScheduleMisfirePolicy;
+  catchUpLimit?: number;
+}
+
+/** One upcoming fire returned by the schedule preview. */
+export interface ScheduleFirePreview {
+  /** ISO timestamp (UTC). */
+  at: string;
+  /** Wall-clock time in the schedule's timezone, e.g. "2026-11-01 01:30 EDT". */
+  local: string;
 }
 
 // ===========================================
@@ -231,6 +262,19 @@ export interface SafeExternalApi {
   updatedAt: Date;
 }
 
+/**
+ * What a server-side caller needs to call an EXTERNAL_API: the sidecar
+ * settings plus the DECRYPTED credentials. Never returned by the API.
+ */
+export interface ExternalApiConnection {
+  baseUrl: string;
+  authMode: ExternalApiAuthMode;
+  credentials: Record<string, unknown>;
+  defaultHeaders: Record<string, string>;
+  /** 0 = platform default */
+  timeoutMs: number;
+}
+
 // ===========================================
 // DATABASE sidecar (Phase 7.5)
 // ===========================================
@@ -293,3 +337,139 @@ export interface SafeDatabaseConnection {
   createdAt: Date;
   updatedAt: Date;
 }
+
+// ===========================================
+// KV_STORE sidecar (Phase 8.1)
+// ===========================================
+
+export interface KvStoreSpec {
+  /** Summed serialized size of all live values, in bytes. */
+  maxBytes?: number;
+  /** Number of live keys. */
+  maxKeys?: number;
+  /** TTL applied to writes that don't pass one. 0 = never expire. */
+  defaultTtlSeconds?: number;
+}
+
+export interface CreateKvStoreResourceInput {
+  projectId: string;
+  name: string;
+  slug?: string;
+  status?: ProjectResourceStatus;
+  metadata?: Record<string, unknown> | null;
+  kvStore: KvStoreSpec;
+}
+
+export type UpdateKvStoreSidecarInput = KvStoreSpec;
+
+export interface SafeKvStore {
+  id: string;
+  resourceId: string;
+  maxBytes: number;
+  maxKeys: number;
+  defaultTtlSeconds: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Runtime view of a single live KV entry. */
+export interface KvEntryView {
+  key: string;
+  value: unknown;
+  sizeBytes: number;
+  expiresAt: Date | null;
+  updatedAt: Date;
+}
+
+export interface KvListOptions {
+  /** Only return keys starting with this prefix. */
+  prefix?: string;
+  /** Page size (1..1000, default 100). */
+  limit?: number;
+  /** Opaque cursor from a previous page (the last key returned). */
+  cursor?: string | null;
+}
+
+export interface KvListResult {
+  entries: KvEntryView[];
+  nextCursor: string | null;
+}
+
+// ===========================================
+// OBJECT_STORE sidecar (Phase 8.2)
+// ===========================================
+
+export interface ObjectStoreSpec {
+  /** Defaults to LOCAL (platform disk, counted against the plan quota). */
+  backend?: ObjectStoreBackend;
+  /** S3 only. */
+  bucket?: string | null;
+  /** S3 only. Defaults to `us-east-1`. */
+  region?: string | null;
+  /** S3-compatible endpoint URL (MinIO, R2, …). Null = AWS S3. */
+  endpoint?: string | null;
+  forcePathStyle?: boolean;
+  /** Prepended to every key inside the bucket. */
+  keyPrefix?: string;
+  accessKeyId?: string | null;
+  /** Plaintext secret key. Encrypted before persistence. */
+  secretAccessKey?: string | null;
+}
+
+export interface CreateObjectStoreResourceInput {
+  projectId: string;
+  name: string;
+  slug?: string;
+  status?: ProjectResourceStatus;
+  metadata?: Record<string, unknown> | null;
+  objectStore: ObjectStoreSpec;
+}
+
+/** `secretAccessKey`, when provided, replaces the stored credential. */
+export type UpdateObjectStoreSidecarInput = ObjectStoreSpec;
+
+/**
+ * Public shape of an ObjectStore returned by the API. NEVER includes the
+ * encrypted secret access key.
+ */
+export interface SafeObjectStore {
+  id: string;
+  resourceId: string;
+  backend: ObjectStoreBackend;
+  bucket: string | null;
+  region: string | null;
+  endpoint: string | null;
+  forcePathStyle: boolean;
+  keyPrefix: string;
+  accessKeyId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Index row for a stored blob (no body). */
+export interface StoredObjectView {
+  key: string;
+  sizeBytes: number;
+  contentType: string;
+  sha256: string;
+  updatedAt: Date;
+}
+
+export interface ObjectListOptions {
+  /** Only return keys starting with this prefix. */
+  prefix?: string;
+  /** Page size (1..1000, default 100). */
+  limit?: number;
+  /** Opaque cursor from a previous page (the last key returned). */
+  cursor?: string | null;
+}
+
+export interface ObjectListResult {
+  objects: StoredObjectView[];
+  nextCursor: string | null;
+}
+
+export interface SignedObjectUrl {
+  url: string;
+  expiresAt: Date;
+}
@@ -8,18 +8,31 @@
  *   - replica-safe via `withDistributedLock` (Redis SETNX)
  *   - idempotent: each fire updates `lastFiredAt` + recomputes `nextFireAt`
  *
+ * Phase 8.16: slots are enumerated from the stored `nextFireAt` (see
+ * `schedule-timing`), limited to the schedule's date window, and slots
+ * missed while the tick was down are skipped / coalesced / replayed per the
+ * row's `misfirePolicy`. Every fired, failed or skipped slot is written to
+ * `schedule_fires`.
+ *
  * Gated by `FEATURE_PROJECT_RESOURCES=enabled` — when the flag is off the
  * tick loop is never started.
  *
  * @module modules/project-resource/schedule-tick.service
  */
 
+import type { Prisma } from "@prisma/client";
+
 import { logger } from "@/lib/logger";
 import { prisma } from "@/lib/prisma";
 import { withDistributedLock } from "@/lib/redis-lock";
 import { executeWorkflow } from "@/modules/workflow/workflow.executor";
 
-import { computeNextFireAt } from "./project-resource.service";
+import {
+    collectDueFires,
+    intersectScheduleWindow,
+    MAX_MISSED_SCAN,
+    planScheduleFires,
+} from "./schedule-timing";
 
 const log = logger.child({ module: "schedule-tick" });
 
@@ -34,8 +47,33 @@ const LOCK_TTL_SECONDS = Math.max(
   Math.floor((TICK_INTERVAL_MS / 1000) * 0.9),
 );
 
+/** A slot handled within this long of its time is on time, not a misfire. */
+const MISFIRE_GRACE_MS = Math.max(60_000, 2 * TICK_INTERVAL_MS);
+
+const FIRE_HISTORY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const FIRE_HISTORY_PRUNE_EVERY_MS = 60 * 60 * 1000;
+
 let tickTimer: ReturnType<typeof setInterval> | null = null;
 let tickInFlight = false;
+let lastPrunedAt = 0;
+
+function skippedRange(
+  scheduleId: string,
+  slots: Date[],
+  now: Date,
+  reason: string,
+): Prisma.ScheduleFireCreateManyInput {
+  const first = slots[0] ?? now;
+  return {
+    scheduleId,
+    scheduledAt: first,
+    outcome: "SKIPPED",
+    skippedThrough: slots[slots.length - 1],
+    skippedCount: slots.length,
+    lateMs: now.getTime() - first.getTime(),
+    reason,
+  };
+}
 
 /**
  * Process all due schedules. Each row is processed independently — a single
@@ -54,7 +92,10 @@ export async function processDueSchedules(now: Date = new Date()): Promise<{
       nextFireAt: { lte: now, not: null },
       resource: { status: "ACTIVE" },
     },
-    include: { resource: true },
+    include: {
+      resource: true,
+      targetWorkflow: { select: { triggerType: true, triggerConfig: true } },
+    },
     take: 500,
   });
 
@@ -62,60 +103,118 @@ export async function processDueSchedules(now: Date = new Date()): Promise<{
   let errors = 0;
   for (const row of due) {
     try {
-      const scheduledAt = row.nextFireAt ?? now;
-      const nextFireAt = computeNextFireAt(row.cron, row.timezone, now);
-
-      // Fire only when bound to a workflow. Unbound rows still advance their
-      // schedule so they don't pile up indefinitely.
-      if (row.targetWorkflowId) {
-        const idempotencyKey = `schedule:${row.id}:${scheduledAt.toISOString()}`;
-        try {
-          const runId = await executeWorkflow(
-            row.targetWorkflowId,
-            "schedule",
-            {
-              scheduledAt: scheduledAt.toISOString(),
-              cron: row.cron,
-              timezone: row.timezone ?? "UTC",
-              resourceId: row.resourceId,
-              scheduleId: row.id,
-            },
-            {},
-            idempotencyKey,
-          );
-          fired++;
-          log.info(
-            {
-              scheduleId: row.id,
-              resourceId: row.resourceId,
-              workflowId: row.targetWorkflowId,
-              runId,
-              scheduledAt: scheduledAt.toISOString(),
-            },
-            "Schedule fired workflow run",
-          );
-        } catch (err) {
-          errors++;
-          log.error(
-            {
-              err,
-              scheduleId: row.id,
-              workflowId: row.targetWorkflowId,
-            },
-            "Schedule failed to fire workflow run",
-          );
+      const workflowConfig =
+        row.targetWorkflow?.triggerType === "SCHEDULE"
+          ? (row.targetWorkflow.triggerConfig as { startDate?: unknown; endDate?: unknown } | null)
+          : null;
+      const window = intersectScheduleWindow(
+        { startDate: row.startDate, endDate: row.endDate },
+        workflowConfig,
+      );
+      const slots = collectDueFires(row.cron, row.timezone, row.nextFireAt ?? now, now, window);
+      const history: Prisma.ScheduleFireCreateManyInput[] = [];
+      let rowFired = 0;
+
+      if (slots.truncated) {
+        // Too far behind to replay meaningfully — resume from now.
+        history.push(
+          skippedRange(row.id, slots.due, now, `More than ${MAX_MISSED_SCAN} missed fires`),
+        );
+        log.warn(
+          { scheduleId: row.id, resourceId: row.resourceId, scanned: slots.due.length },
+          "Schedule too far behind — skipping missed fires",
+        );
+      } else if (!row.targetWorkflowId) {
+        // Unbound rows still advance their schedule so they don't pile up
+        // indefinitely.
+        if (slots.due.length > 0) {
+          history.push(skippedRange(row.id, slots.due, now, "No target workflow"));
         }
-      } else {
         log.warn(
           { scheduleId: row.id, resourceId: row.resourceId },
           "Schedule has no targetWorkflowId — skipping fire (advancing nextFireAt)",
         );
+      } else {
+        const plan = planScheduleFires(
+          slots.due,
+          now,
+          row.misfirePolicy,
+          row.catchUpLimit,
+          MISFIRE_GRACE_MS,
+        );
+        if (plan.skipped.length > 0) {
+          const reason =
+            row.misfirePolicy === "SKIP" || row.misfirePolicy === "CATCH_UP"
+              ? `Missed (misfire policy ${row.misfirePolicy})`
+              : `Coalesced into the ${plan.fire[0]?.toISOString()} run`;
+          history.push(skippedRange(row.id, plan.skipped, now, reason));
+        }
+
+        for (const scheduledAt of plan.fire) {
+          const lateMs = now.getTime() - scheduledAt.getTime();
+          const idempotencyKey = `schedule:${row.id}:${scheduledAt.toISOString()}`;
+          try {
+            const runId = await executeWorkflow(
+              row.targetWorkflowId,
+              "schedule",
+              {
+                scheduledAt: scheduledAt.toISOString(),
+                cron: row.cron,
+                timezone: row.timezone ?? "UTC",
+                resourceId: row.resourceId,
+                scheduleId: row.id,
+                lateMs,
+              },
+              {},
+              idempotencyKey,
+            );
+            fired++;
+            rowFired++;
+            history.push({ scheduleId: row.id, scheduledAt, outcome: "FIRED", lateMs, runId });
+            log.info(
+              {
+                scheduleId: row.id,
+                resourceId: row.resourceId,
+                workflowId: row.targetWorkflowId,
+                runId,
+                scheduledAt: scheduledAt.toISOString(),
+              },
+              "Schedule fired workflow run",
+            );
+          } catch (err) {
+            errors++;
+            history.push({
+              scheduleId: row.id,
+              scheduledAt,
+              outcome: "FAILED",
+              lateMs,
+              reason: err instanceof Error ? err.message : String(err),
+            });
+            log.error(
+              {
+                err,
+                scheduleId: row.id,
+                workflowId: row.targetWorkflowId,
+              },
+              "Schedule failed to fire workflow run",
+            );
+          }
+        }
       }
 
       await prisma.schedule.update({
         where: { id: row.id },
-        data: { lastFiredAt: now, nextFireAt },
+        data: {
+          ...(rowFired > 0 ? { lastFiredAt: now } : {}),
+          nextFireAt: slots.next,
+        },
       });
+
+      if (history.length > 0) {
+        await prisma.scheduleFire.createMany({ data: history }).catch((err: unknown) => {
+          log.warn({ err, scheduleId: row.id }, "Failed to record schedule fire history");
+        });
+      }
     } catch (err) {
       errors++;
       log.error(
@@ -128,6 +227,18 @@ export async function processDueSchedules(now: Date = new Date()): Promise<{
   return { considered: due.length, fired, errors };
 }
 
+/** Delete fire history older than the retention window (at most hourly). */
+async function pruneFireHistory(now: Date): Promise<void> {
+  if (now.getTime() - lastPrunedAt < FIRE_HISTORY_PRUNE_EVERY_MS) return;
+  lastPrunedAt = now.getTime();
+  const { count } = await prisma.scheduleFire.deleteMany({
+    where: { createdAt: { lt: new Date(now.getTime() - FIRE_HISTORY_RETENTION_MS) } },
+  });
+  if (count > 0) {
+    log.info({ count }, "Pruned schedule fire history");
+  }
+}
+
 async function tick(): Promise<void> {
   if (tickInFlight) return;
   tickInFlight = true;
@@ -137,6 +248,7 @@ async function tick(): Promise<void> {
       if (result.considered > 0) {
         log.info(result, "Schedule tick complete");
       }
+      await pruneFireHistory(new Date());
     });
   } catch (err) {
     log.error({ err }, "Schedule tick failed");
@@ -0,0 +1,194 @@
+/**
+ * Schedule timing (Phase 8.16)
+ *
+ * Pure helpers shared by the schedule tick and the preview endpoint:
+ *   - date windows — no fires before `startDate` / after `endDate`
+ *   - DST-safe slot enumeration — each slot is computed from the previous
+ *     *scheduled* slot, never from "now", so a late tick inside a repeated
+ *     fall-back hour cannot produce the same wall-clock fire twice
+ *   - misfire planning — which missed slots to fire, coalesce or skip
+ *
+ * @module modules/project-resource/schedule-timing
+ */
+
+import type { ScheduleMisfirePolicy } from "@prisma/client";
+import { parseExpression as parseCron } from "cron-parser";
+
+/** Most slots enumerated per schedule per tick before giving up on replay. */
+export const MAX_MISSED_SCAN = 1_000;
+
+export interface ScheduleWindow {
+  startDate?: Date | null;
+  endDate?: Date | null;
+}
+
+/**
+ * Narrow a schedule window by the target workflow's SCHEDULE trigger config
+ * (`startDate` / `endDate` ISO strings). Invalid dates are ignored.
+ */
+export function intersectScheduleWindow(
+  window: ScheduleWindow,
+  triggerConfig: { startDate?: unknown; endDate?: unknown } | null | undefined,
+): ScheduleWindow {
+  const parse = (value: unknown): Date | null => {
+    if (typeof value !== "string") return null;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  };
+  const wfStart = parse(triggerConfig?.startDate);
+  const wfEnd = parse(triggerConfig?.endDate);
+
+  let startDate = window.startDate ?? null;
+  if (wfStart && (!startDate || wfStart > startDate)) startDate = wfStart;
+  let endDate = window.endDate ?? null;
+  if (wfEnd && (!endDate || wfEnd < endDate)) endDate = wfEnd;
+  return { startDate, endDate };
+}
+
+/**
+ * The cron slot strictly after `after`. A fresh parse per step: cron-parser's
+ * long-lived iterators (and `hasNext()`) misplace slots next to DST changes.
+ */
+function slotAfter(cron: string, timezone: string | null | undefined, after: Date): Date {
+  return parseCron(cron, { tz: timezone ?? undefined, currentDate: after }).next().toDate();
+}
+
+/**
+ * First slot strictly after `after` that lies inside the window, or null
+ * once the window has ended.
+ */
+export function nextFireInWindow(
+  cron: string,
+  timezone: string | null | undefined,
+  after: Date,
+  window: ScheduleWindow = {},
+): Date | null {
+  // Step back 1ms from `startDate` so a slot exactly at the start counts.
+  const from = window.startDate && window.startDate > after
+    ? new Date(window.startDate.getTime() - 1)
+    : after;
+  const slot = slotAfter(cron, timezone, from);
+  return window.endDate && slot > window.endDate ? null : slot;
+}
+
+/**
+ * The next `count` slots after `after` inside the window (fewer when the
+ * window ends first).
+ */
+export function listFireTimes(
+  cron: string,
+  timezone: string | null | undefined,
+  after: Date,
+  count: number,
+  window: ScheduleWindow = {},
+): Date[] {
+  const times: Date[] = [];
+  let slot = nextFireInWindow(cron, timezone, after, window);
+  while (slot && times.length < count) {
+    times.push(slot);
+    slot = nextFireInWindow(cron, timezone, slot, window);
+  }
+  return times;
+}
+
+export interface DueFires {
+  /** Slots from `first` up to and including `now`, oldest first. */
+  due: Date[];
+  /** True when more than `MAX_MISSED_SCAN` slots were due — `due` is partial. */
+  truncated: boolean;
+  /** First slot after `now`, or null once the window has ended. */
+  next: Date | null;
+}
+
+/**
+ * Enumerate the slots that came due since `first` (the stored `nextFireAt`).
+ * Each slot is derived from the previous one, which keeps fall-back hours
+ * from firing twice and spring-forward gaps from being lost.
+ */
+export function collectDueFires(
+  cron: string,
+  timezone: string | null | undefined,
+  first: Date,
+  now: Date,
+  window: ScheduleWindow = {},
+): DueFires {
+  const due: Date[] = [];
+  let candidate: Date | null = first;
+  if (window.startDate && candidate < window.startDate) {
+    candidate = nextFireInWindow(cron, timezone, candidate, window);
+  }
+  if (candidate && window.endDate && candidate > window.endDate) {
+    candidate = null;
+  }
+
+  let slot: Date | null = candidate;
+  while (slot && slot <= now) {
+    if (due.length >= MAX_MISSED_SCAN) {
+      return {
+        due,
+        truncated: true,
+        next: nextFireInWindow(cron, timezone, now, window),
+      };
+    }
+    due.push(slot);
+    slot = nextFireInWindow(cron, timezone, slot, window);
+  }
+  return { due, truncated: false, next: slot };
+}
+
+export interface ScheduleFirePlan {
+  /** Slots to start a run for, oldest first. */
+  fire: Date[];
+  /** Contiguous slots dropped by the misfire policy, oldest first. */
+  skipped: Date[];
+}
+
+/**
+ * Decide which due slots to fire. Slots no older than `graceMs` are on time;
+ * the policy only matters once at least one slot was missed:
+ *   - SKIP      fire the on-time slots, skip the missed ones
+ *   - FIRE_ONCE one run for the oldest missed slot; every later slot is
+ *               coalesced into it
+ *   - CATCH_UP  fire the newest `catchUpLimit` slots oldest-first, skip the rest
+ */
+export function planScheduleFires(
+  due: Date[],
+  now: Date,
+  policy: ScheduleMisfirePolicy,
+  catchUpLimit: number,
+  graceMs: number,
+): ScheduleFirePlan {
+  const firstOnTime = due.findIndex((slot) => now.getTime() - slot.getTime() <= graceMs);
+  const missed = firstOnTime === -1 ? due.length : firstOnTime;
+  if (missed === 0) return { fire: due, skipped: [] };
+
+  switch (policy) {
+    case "SKIP":
+      return { fire: due.slice(missed), skipped: due.slice(0, missed) };
+    case "CATCH_UP": {
+      const keep = Math.max(1, catchUpLimit);
+      const cut = Math.max(0, due.length - keep);
+      return { fire: due.slice(cut), skipped: due.slice(0, cut) };
+    }
+    case "FIRE_ONCE":
+    default:
+      return { fire: due.slice(0, 1), skipped: due.slice(1) };
+  }
+}
+
+/** Wall-clock rendering of a slot in the schedule's timezone, e.g. "2026-11-01 01:30 EDT". */
+export function formatInTimezone(date: Date, timezone: string | null | undefined): string {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone ?? "UTC",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZoneName: "short",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "";
+  return `${part("year")}-${part("month")}-${part("day")} ${part("hour")}:${part("minute")} ${part("timeZoneName")}`;
+}
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 import {
     buildTemplateContext,
+    collectKvReferences,
     evaluateCondition,
     resolveInputMapping,
     resolveTemplate,
@@ -21,6 +22,8 @@ function makeCtx(overrides: Partial<TemplateContext> = {}): TemplateContext {
     },
     env: {},
     secrets: {},
+    kv: {},
+    vars: {},
     ctx: {
       userId: "u1",
       workflowId: "w1",
@@ -268,3 +271,70 @@ describe("secrets namespace", () => {
     expect(ctx.secrets).toEqual({ A: "1", B: "2" });
   });
 });
+
+// ===========================================================================
+// Phase 8.1: kv namespace
+// ===========================================================================
+describe("kv namespace", () => {
+  it("resolves nested paths into a stored value", () => {
+    const ctx = makeCtx({ kv: { cache: { "user:42": { name: "Ada" } } } });
+    expect(resolveTemplate("Hi {{kv.cache.user:42.name}}", ctx)).toBe("Hi Ada");
+  });
+
+  it("evaluates shorthand kv paths in conditions", () => {
+    const ctx = makeCtx({ kv: { flags: { beta: true } } });
+    expect(evaluateCondition("kv.flags.beta == 'true'", ctx)).toBe(true);
+  });
+
+  it("collectKvReferences returns distinct store/key pairs", () => {
+    expect(
+      collectKvReferences([
+        "{{kv.cache.user:42.name}} and {{kv.cache.user:42.email}}",
+        "kv.flags.beta == true",
+        "{{trigger.kv.ignored}}",
+      ]),
+    ).toEqual([
+      { store: "cache", key: "user:42" },
+      { store: "flags", key: "beta" },
+    ]);
+  });
+});
+
+// ===========================================================================
+// Phase 8.5: foreach item / index bindings
+// ===========================================================================
+describe("foreach bindings", () => {
+  it("resolves {{item}} paths and {{index}} inside a loop body", () => {
+    const ctx = buildTemplateContext({}, {}, 2, {
+      userId: "u",
+      workflowId: "w",
+      runId: "r",
+      loop: { item: { email: "ada@example.com" }, index: 3 },
+    });
+    expect(resolveTemplate("{{item.email}}", ctx)).toBe("ada@example.com");
+    expect(resolveTemplate("{{index}}", ctx)).toBe(3);
+    expect(resolveTemplate("#{{index}}: {{item.email}}", ctx)).toBe("#3: ada@example.com");
+  });
+
+  it("leaves item and index unset outside a loop", () => {
+    const ctx = buildTemplateContext({}, {}, 0, { userId: "u", workflowId: "w", runId: "r" });
+    expect(resolveTemplate("{{item}}", ctx)).toBe("");
+    expect("index" in ctx).toBe(false);
+  });
+});
+
+// ===========================================================================
+// Phase 8.7: wait-for-reply binding
+// ===========================================================================
+describe("reply binding", () => {
+  it("resolves {{reply.*}} after a wait-for-reply step", () => {
+    const ctx = buildTemplateContext({}, {}, 1, {
+      userId: "u",
+      workflowId: "w",
+      runId: "r",
+      reply: { text: "Blue", source: "telegram", message: {}, timedOut: false },
+    });
+    expect(resolveTemplate("You said {{reply.text}}", ctx)).toBe("You said Blue");
+    expect(resolveTemplate("{{reply.timedOut}}", ctx)).toBe(false);
+  });
+});
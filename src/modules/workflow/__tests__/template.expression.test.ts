@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import {
+    evaluateCondition,
+    resolveTemplate,
+    validateCondition,
+    validateTemplate,
+} from "../template.engine";
+import { parseExpression, TemplateSyntaxError } from "../template.expression";
+import { formatDate } from "../template.filters";
+import type { TemplateContext } from "../workflow.types";
+
+function makeCtx(overrides: Partial<TemplateContext> = {}): TemplateContext {
+  return {
+    trigger: {
+      message: { text: "Hello World", chat: { type: "group" }, date: 1704110400 },
+      tags: ["vip", "beta"],
+    },
+    prev: { output: { count: 12, label: "" }, error: undefined },
+    steps: {
+      0: { output: { score: "7.5", items: [] }, error: undefined },
+    },
+    env: {},
+    secrets: {},
+    kv: {},
+    vars: {},
+    ctx: { userId: "u1", workflowId: "w1", runId: "r1", timestamp: new Date("2024-01-01") },
+    ...overrides,
+  };
+}
+
+// ===========================================================================
+// Conditions
+// ===========================================================================
+describe("evaluateCondition operators", () => {
+  const ctx = makeCtx();
+
+  it("compares numbers numerically, including numeric strings", () => {
+    expect(evaluateCondition("{{prev.output.count}} > 9", ctx)).toBe(true);
+    expect(evaluateCondition("{{prev.output.count}} <= 9", ctx)).toBe(false);
+    expect(evaluateCondition("{{steps.0.output.score}} >= 7.5", ctx)).toBe(true);
+    expect(evaluateCondition("{{steps.0.output.score}} == 7.50", ctx)).toBe(true);
+  });
+
+  it("supports &&, || and ! with parentheses", () => {
+    expect(evaluateCondition("{{prev.output.count}} > 10 && !{{prev.error}}", ctx)).toBe(true);
+    expect(evaluateCondition("{{prev.output.count}} > 100 || {{prev.output.count}} == 12", ctx)).toBe(true);
+    expect(evaluateCondition("!({{prev.output.count}} > 10 && {{prev.output.label}})", ctx)).toBe(true);
+  });
+
+  it("accepts bare paths without braces", () => {
+    expect(evaluateCondition("trigger.message.chat.type == 'group'", ctx)).toBe(true);
+  });
+
+  it("checks membership with in and contains", () => {
+    expect(evaluateCondition("trigger.message.chat.type in ['group', 'supergroup']", ctx)).toBe(true);
+    expect(evaluateCondition("'vip' in {{trigger.tags}}", ctx)).toBe(true);
+    expect(evaluateCondition("{{trigger.tags}} contains 'admin'", ctx)).toBe(false);
+  });
+
+  it("checks an object's own keys with contains, not inherited ones", () => {
+    expect(evaluateCondition("{{trigger.message}} contains 'chat'", ctx)).toBe(true);
+    expect(evaluateCondition("{{trigger.message}} contains 'toString'", ctx)).toBe(false);
+    expect(evaluateCondition("{{trigger.message}} contains 'constructor'", ctx)).toBe(false);
+  });
+
+  it("matches regular expressions, with /pattern/flags", () => {
+    expect(evaluateCondition("{{trigger.message.text}} matches '^Hello'", ctx)).toBe(true);
+    expect(evaluateCondition("{{trigger.message.text}} matches '/^hello/i'", ctx)).toBe(true);
+    expect(evaluateCondition("{{trigger.message.text}} matches '^hello'", ctx)).toBe(false);
+  });
+
+  it("treats missing paths as undefined instead of throwing", () => {
+    expect(evaluateCondition("{{trigger.missing?.deep.value}} > 1", ctx)).toBe(false);
+    expect(evaluateCondition("{{steps[5].output.x}} == ''", ctx)).toBe(true);
+    expect(evaluateCondition("{{trigger.message.text.constructor}}", ctx)).toBe(false);
+  });
+
+  it("applies filters inside conditions", () => {
+    expect(evaluateCondition("{{trigger.message.text | lower}} contains 'world'", ctx)).toBe(true);
+    expect(evaluateCondition("{{steps.0.output.items | length}} == 0", ctx)).toBe(true);
+  });
+
+  it("throws TemplateSyntaxError for malformed conditions", () => {
+    expect(() => evaluateCondition("{{prev.output.count}} > ", ctx)).toThrow(TemplateSyntaxError);
+  });
+});
+
+// ===========================================================================
+// Filters
+// ===========================================================================
+describe("resolveTemplate filters", () => {
+  const ctx = makeCtx();
+
+  it("chains string filters", () => {
+    expect(resolveTemplate("{{trigger.message.text | lower | truncate:8}}", ctx)).toBe("hello w…");
+    expect(resolveTemplate("{{trigger.message.text | upper | replace:'WORLD':'there'}}", ctx)).toBe("HELLO there");
+  });
+
+  it("serialises with json and falls back with default", () => {
+    expect(resolveTemplate("{{trigger.tags | json}}", ctx)).toBe('["vip","beta"]');
+    expect(resolveTemplate("Label: {{prev.output.label | default:'none'}}", ctx)).toBe("Label: none");
+    expect(resolveTemplate("{{trigger.nope | default:0}}", ctx)).toBe(0);
+  });
+
+  it("formats dates in a timezone", () => {
+    expect(resolveTemplate("{{trigger.message.date | date:'YYYY-MM-DD HH:mm'}}", ctx)).toBe("2024-01-01 12:00");
+    expect(
+      resolveTemplate("{{trigger.message.date | date:'ddd D MMM, h:mm A':'America/New_York'}}", ctx),
+    ).toBe("Mon 1 Jan, 7:00 AM");
+    expect(resolveTemplate("{{ctx.timestamp | date}}", ctx)).toBe("2024-01-01T00:00:00.000Z");
+  });
+
+  it("keeps bracketed text literal in date formats", () => {
+    expect(formatDate(new Date("2024-03-05T09:04:00Z"), "[Day] D [at] HH:mm")).toBe("Day 5 at 09:04");
+  });
+});
+
+// ===========================================================================
+// Parser errors + validation
+// ===========================================================================
+describe("parseExpression errors", () => {
+  it("reports the position of the problem", () => {
+    try {
+      parseExpression("prev.output == 'oops");
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(TemplateSyntaxError);
+      expect((err as TemplateSyntaxError).position).toBe(15);
+      expect((err as Error).message).toContain("Unterminated string at position 15");
+    }
+  });
+
+  it("rejects unknown filters and wrong argument counts", () => {
+    expect(() => parseExpression("prev.output | shout")).toThrow('Unknown filter "shout"');
+    expect(() => parseExpression("prev.output | truncate")).toThrow(
+      'Filter "truncate" takes 1-2 argument(s), got 0',
+    );
+  });
+
+  it("rejects invalid regex literals at parse time", () => {
+    expect(() => parseExpression("prev.output matches '(unclosed'")).toThrow(TemplateSyntaxError);
+  });
+
+  it("never evaluates code", () => {
+    expect(() => parseExpression("process.exit(1)")).toThrow(TemplateSyntaxError);
+  });
+});
+
+describe("validateTemplate / validateCondition", () => {
+  it("accepts valid templates and conditions", () => {
+    expect(validateTemplate("Hi {{trigger.message.from | default:'there'}}")).toBeNull();
+    expect(validateCondition("{{prev.output.count}} > 3 && kv.flags.beta == 'true'")).toBeNull();
+  });
+
+  it("reports syntax errors", () => {
+    expect(validateTemplate("{{trigger.message.text | lower:}}")).toContain("Unexpected end of expression");
+    expect(validateCondition("(prev.output > 1")).toContain('Expected ")"');
+  });
+
+  it("reports unknown variables", () => {
+    expect(validateCondition("{{prev.output}} == hello")).toContain('Unknown variable "hello"');
+    expect(validateTemplate("{{trigerr.message}}")).toContain('Unknown variable "trigerr"');
+  });
+});
@@ -34,6 +34,13 @@ const mocks = vi.hoisted(() => {
   });
 
   const executeWorkflowMock = vi.fn();
+  const resumeWorkflowRunMock = vi.fn();
+
+  const takeTicketMock = vi.fn();
+  const isTicketTurnMock = vi.fn();
+  const releaseTicketMock = vi.fn();
+
+  class DelayedErrorMock extends Error {}
 
   return {
     queueAddMock,
@@ -43,20 +50,35 @@ const mocks = vi.hoisted(() => {
     WorkerCtorMock,
     state,
     executeWorkflowMock,
+    resumeWorkflowRunMock,
+    takeTicketMock,
+    isTicketTurnMock,
+    releaseTicketMock,
+    DelayedErrorMock,
   };
 });
 
 vi.mock("bullmq", () => ({
   Queue: mocks.QueueCtorMock,
   Worker: mocks.WorkerCtorMock,
+  DelayedError: mocks.DelayedErrorMock,
+}));
+
+vi.mock("../workflow.concurrency", () => ({
+  takeTicket: (...args: unknown[]) => mocks.takeTicketMock(...args),
+  isTicketTurn: (...args: unknown[]) => mocks.isTicketTurnMock(...args),
+  releaseTicket: (...args: unknown[]) => mocks.releaseTicketMock(...args),
 }));
 
 vi.mock("../workflow.executor", () => ({
   executeWorkflow: (...args: unknown[]) => mocks.executeWorkflowMock(...args),
+  resumeWorkflowRun: (...args: unknown[]) => mocks.resumeWorkflowRunMock(...args),
 }));
 
 import {
     __resetWorkflowQueueForTests,
+    enqueueKeyedWorkflowRun,
+    enqueueWorkflowResume,
     enqueueWorkflowRun,
     getWorkflowQueue,
 } from "../workflow-queue";
@@ -70,6 +92,11 @@ const {
   WorkerCtorMock,
   state,
   executeWorkflowMock,
+  resumeWorkflowRunMock,
+  takeTicketMock,
+  isTicketTurnMock,
+  releaseTicketMock,
+  DelayedErrorMock,
 } = mocks;
 
 beforeEach(() => {
@@ -79,6 +106,10 @@ beforeEach(() => {
   WorkerCtorMock.mockClear();
   workerOnMock.mockReset();
   executeWorkflowMock.mockReset();
+  resumeWorkflowRunMock.mockReset();
+  takeTicketMock.mockReset();
+  isTicketTurnMock.mockReset();
+  releaseTicketMock.mockReset().mockResolvedValue(undefined);
   state.workerProcessor = null;
   __resetWorkflowQueueForTests();
 });
@@ -173,6 +204,53 @@ describe("workflow-queue", () => {
     const [, , opts] = queueAddMock.mock.calls[0]!;
     expect(opts.jobId).toBe("explicit");
   });
+
+  it("enqueueWorkflowResume schedules a delayed job keyed by run and time", async () => {
+    queueAddMock.mockResolvedValueOnce({ id: "resume-job" });
+    const resumeAt = new Date(Date.now() + 60_000);
+
+    await enqueueWorkflowResume({ workflowId: "wf-5", runId: "run-5", resumeAt });
+
+    const [, data, opts] = queueAddMock.mock.calls[0]!;
+    expect(data).toMatchObject({
+      workflowId: "wf-5",
+      resumeRunId: "run-5",
+      resumeAt: resumeAt.toISOString(),
+    });
+    expect(opts.jobId).toBe(`wf-resume-run-5-${resumeAt.getTime()}`);
+    expect(opts.delay).toBeGreaterThan(55_000);
+    expect(opts.delay).toBeLessThanOrEqual(60_000);
+  });
+
+  it("enqueueKeyedWorkflowRun takes a ticket and never retries or dedupes by jobId", async () => {
+    takeTicketMock.mockResolvedValueOnce(4);
+    queueAddMock.mockResolvedValueOnce({ id: "keyed-job" });
+
+    await enqueueKeyedWorkflowRun(
+      { workflowId: "wf-6", triggeredBy: "bot_message_telegram", triggerData: {}, idempotencyKey: "u-1" },
+      "chat-42"
+    );
+
+    expect(takeTicketMock).toHaveBeenCalledWith("wf-6", "chat-42");
+    const [, data, opts] = queueAddMock.mock.calls[0]!;
+    expect(data.concurrency).toEqual({ key: "chat-42", ticket: 4 });
+    expect(opts.attempts).toBe(1);
+    expect(opts.jobId).toBeUndefined();
+  });
+
+  it("enqueueKeyedWorkflowRun gives the ticket back when the enqueue fails", async () => {
+    takeTicketMock.mockResolvedValueOnce(7).mockResolvedValueOnce(8);
+    queueAddMock.mockRejectedValueOnce(new Error("Redis down")).mockResolvedValueOnce({ id: "keyed-next" });
+    const data = { workflowId: "wf-7", triggeredBy: "bot_message_telegram", triggerData: {} };
+
+    await expect(enqueueKeyedWorkflowRun(data, "chat-42")).rejects.toThrow("Redis down");
+    expect(releaseTicketMock).toHaveBeenCalledWith("wf-7", { key: "chat-42", ticket: 7 });
+
+    // The next message for the key still queues, and its turn comes once
+    // ticket 7 is released
+    await expect(enqueueKeyedWorkflowRun(data, "chat-42")).resolves.toEqual({ jobId: "keyed-next" });
+    expect(queueAddMock.mock.calls[1]![1].concurrency).toEqual({ key: "chat-42", ticket: 8 });
+  });
 });
 
 describe("workflow-worker", () => {
@@ -197,6 +275,25 @@ describe("workflow-worker", () => {
     );
   });
 
+  it("processWorkflowJob resumes waiting runs for resume jobs", async () => {
+    resumeWorkflowRunMock.mockResolvedValueOnce("run-5");
+
+    const result = await processWorkflowJob({
+      workflowId: "wf-5",
+      triggeredBy: "resume",
+      triggerData: null,
+      resumeRunId: "run-5",
+      resumeAt: "2026-01-01T09:00:00.000Z",
+    });
+
+    expect(result).toEqual({ runId: "run-5" });
+    expect(resumeWorkflowRunMock).toHaveBeenCalledWith(
+      "run-5",
+      new Date("2026-01-01T09:00:00.000Z")
+    );
+    expect(executeWorkflowMock).not.toHaveBeenCalled();
+  });
+
   it("processWorkflowJob propagates executor errors (so BullMQ can retry)", async () => {
     executeWorkflowMock.mockRejectedValueOnce(new Error("boom"));
 
@@ -238,6 +335,34 @@ describe("workflow-worker", () => {
     expect(executeWorkflowMock).toHaveBeenCalled();
   });
 
+  it("processWorkflowJob releases the key of a keyed run, even on failure", async () => {
+    executeWorkflowMock.mockRejectedValueOnce(new Error("boom"));
+    const concurrency = { key: "chat-42", ticket: 4 };
+
+    await expect(
+      processWorkflowJob({ workflowId: "wf-6", triggeredBy: "manual", triggerData: null, concurrency })
+    ).rejects.toThrow("boom");
+    expect(releaseTicketMock).toHaveBeenCalledWith("wf-6", concurrency);
+  });
+
+  it("worker processor delays keyed runs whose ticket isn't up", async () => {
+    isTicketTurnMock.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+    executeWorkflowMock.mockResolvedValueOnce("run-8");
+    createWorkflowWorker();
+    const job = {
+      id: "j2",
+      data: { workflowId: "wf-6", triggeredBy: "manual", triggerData: null, concurrency: { key: "k", ticket: 2 } },
+      moveToDelayed: vi.fn().mockResolvedValue(undefined),
+    };
+    const processor = state.workerProcessor as unknown as (j: typeof job, token: string) => Promise<unknown>;
+
+    await expect(processor(job, "tok")).rejects.toBeInstanceOf(DelayedErrorMock);
+    expect(job.moveToDelayed).toHaveBeenCalledWith(expect.any(Number), "tok");
+    expect(executeWorkflowMock).not.toHaveBeenCalled();
+
+    await expect(processor(job, "tok")).resolves.toEqual({ runId: "run-8" });
+  });
+
   it("respects WORKFLOW_WORKER_CONCURRENCY", () => {
     vi.stubEnv("WORKFLOW_WORKER_CONCURRENCY", "12");
     createWorkflowWorker();
@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    workflowRun: { findMany: vi.fn() },
+    workflowStep: { findMany: vi.fn() },
+    aIUsage: { groupBy: vi.fn() },
+    workflowDailyStats: { deleteMany: vi.fn(), createMany: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}));
+
+import { prisma } from "@/lib/prisma";
+
+import {
+    aggregateRuns,
+    durationPercentile,
+    emptyStats,
+    mergeStats,
+    rollUpLateRun,
+    summarizeAnalytics,
+    type AnalyticsRun,
+    type DayStats,
+} from "../workflow.analytics";
+
+const mockPrisma = prisma as unknown as {
+  workflowRun: { findMany: ReturnType<typeof vi.fn> };
+  workflowStep: { findMany: ReturnType<typeof vi.fn> };
+  aIUsage: { groupBy: ReturnType<typeof vi.fn> };
+  workflowDailyStats: { deleteMany: ReturnType<typeof vi.fn>; createMany: ReturnType<typeof vi.fn> };
+  $transaction: ReturnType<typeof vi.fn>;
+};
+
+function run(id: string, overrides: Partial<AnalyticsRun> = {}): AnalyticsRun {
+  return {
+    id,
+    status: "completed",
+    startedAt: new Date("2026-05-02T10:00:00Z"),
+    durationMs: 400,
+    error: null,
+    stepRuns: [],
+    ...overrides,
+  };
+}
+
+describe("durationPercentile", () => {
+  it("interpolates inside the bucket the rank falls in", () => {
+    // 10 samples in (100, 250], 10 in (250, 500]
+    const buckets = [0, 0, 10, 10, 0, 0, 0, 0, 0, 0, 0, 0];
+    expect(durationPercentile(buckets, 0.5)).toBe(250);
+    expect(durationPercentile(buckets, 0.25)).toBe(175);
+    expect(durationPercentile(buckets, 0.95)).toBe(475);
+  });
+
+  it("returns null without samples and the lower bound for the open bucket", () => {
+    expect(durationPercentile(emptyStats().durationBuckets, 0.5)).toBeNull();
+    const slow = emptyStats().durationBuckets;
+    slow[slow.length - 1] = 3;
+    expect(durationPercentile(slow, 0.99)).toBe(300_000);
+  });
+});
+
+describe("aggregateRuns", () => {
+  it("counts runs and step runs per day with their credits", () => {
+    const days = new Map<string, DayStats>();
+    aggregateRuns(
+      days,
+      [
+        run("r1", {
+          stepRuns: [
+            { stepId: "s1", stepOrder: 0, status: "completed", durationMs: 120, error: null },
+            { stepId: "s2", stepOrder: 1, status: "completed", durationMs: 200, error: null },
+          ],
+        }),
+        run("r2", {
+          status: "failed",
+          durationMs: 1500,
+          error: "Step 2 failed: HTTP 503\nstack…",
+          stepRuns: [
+            { stepId: "s1", stepOrder: 0, status: "completed", durationMs: 90, error: null },
+            { stepId: "s2", stepOrder: 1, status: "failed", durationMs: 1400, error: "HTTP 503" },
+          ],
+        }),
+        run("r3", { startedAt: new Date("2026-05-03T01:00:00Z"), stepRuns: [
+          { stepId: "s1", stepOrder: 0, status: "skipped", durationMs: null, error: null },
+        ] }),
+      ],
+      [
+        { workflowRunId: "r1", workflowStepOrder: 1, creditsUsed: 2 },
+        { workflowRunId: "r2", workflowStepOrder: 1, creditsUsed: 1.5 },
+        { workflowRunId: "r2", workflowStepOrder: null, creditsUsed: 0.5 },
+      ],
+    );
+
+    const day = days.get("2026-05-02")!;
+    expect(day.run).toMatchObject({ count: 2, failed: 1, creditsUsed: 4 });
+    expect(day.run.errors).toEqual({ "Step 2 failed: HTTP 503": 1 });
+    expect(day.steps.get("s1")).toMatchObject({ count: 2, failed: 0, creditsUsed: 0 });
+    expect(day.steps.get("s2")).toMatchObject({ count: 2, failed: 1, creditsUsed: 3.5, errors: { "HTTP 503": 1 } });
+
+    // Skipped step runs aren't executions
+    expect(days.get("2026-05-03")!.run.count).toBe(1);
+    expect(days.get("2026-05-03")!.steps.size).toBe(0);
+  });
+});
+
+describe("summarizeAnalytics", () => {
+  it("merges days into run totals, daily volume and steps slowest first", () => {
+    const days = new Map<string, DayStats>();
+    aggregateRuns(days, [
+      run("r1", { stepRuns: [
+        { stepId: "fast", stepOrder: 0, status: "completed", durationMs: 40, error: null },
+        { stepId: "slow", stepOrder: 1, status: "completed", durationMs: 8000, error: null },
+      ] }),
+    ], [{ workflowRunId: "r1", workflowStepOrder: 1, creditsUsed: 3 }]);
+
+    // A rolled-up day for a step that has since been deleted
+    const rolled = { ...emptyStats(), stepOrder: 2 };
+    mergeStats(rolled, { ...emptyStats(), count: 4, failed: 2, errors: { timeout: 2 } });
+    days.set("2026-04-30", { run: { ...emptyStats(), count: 4, failed: 2 }, steps: new Map([["gone", rolled]]) });
+
+    const result = summarizeAnalytics(
+      days,
+      "2026-04-30",
+      "2026-05-02",
+      new Map([
+        ["fast", { name: "Parse", order: 0, pluginSlug: "transform" }],
+        ["slow", { name: "Ask AI", order: 1, pluginSlug: "ai-prompt" }],
+      ]),
+      new Map([["gone", "http-request"]]),
+    );
+
+    expect(result.runs).toMatchObject({ total: 5, failed: 2, errorRate: 0.4, creditsUsed: 3, creditsPerRun: 0.6 });
+    expect(result.volume).toEqual([
+      { date: "2026-04-30", runs: 4, failed: 2 },
+      { date: "2026-05-01", runs: 0, failed: 0 },
+      { date: "2026-05-02", runs: 1, failed: 0 },
+    ]);
+    expect(result.steps.map((s) => s.stepId)).toEqual(["slow", "fast", "gone"]);
+    expect(result.steps[0]).toMatchObject({ stepName: "Ask AI", pluginSlug: "ai-prompt", creditsUsed: 3 });
+    expect(result.steps[2]).toMatchObject({
+      stepName: undefined,
+      stepOrder: 2,
+      pluginSlug: "http-request",
+      errorRate: 0.5,
+      errors: [{ message: "timeout", count: 2 }],
+    });
+  });
+});
+
+describe("rollUpLateRun", () => {
+  const now = new Date("2026-05-20T12:00:00Z");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.workflowRun.findMany.mockResolvedValue([run("r1", { startedAt: new Date("2026-05-02T10:00:00Z") })]);
+    mockPrisma.aIUsage.groupBy.mockResolvedValue([]);
+    mockPrisma.workflowStep.findMany.mockResolvedValue([]);
+    mockPrisma.$transaction.mockResolvedValue([]);
+  });
+
+  it("leaves days the cron still rewrites to the cron", async () => {
+    await rollUpLateRun({ workflowId: "wf1", startedAt: new Date("2026-05-18T23:00:00Z") }, now);
+
+    expect(mockPrisma.workflowRun.findMany).not.toHaveBeenCalled();
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("rewrites the day a run started on once it ends after the window", async () => {
+    await rollUpLateRun({ workflowId: "wf1", startedAt: new Date("2026-05-02T10:00:00Z") }, now);
+
+    expect(mockPrisma.workflowRun.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({
+        workflowId: "wf1",
+        startedAt: { gte: new Date("2026-05-02T00:00:00Z"), lt: new Date("2026-05-03T00:00:00Z") },
+      }),
+    }));
+    expect(mockPrisma.workflowDailyStats.deleteMany).toHaveBeenCalledWith({
+      where: { workflowId: "wf1", day: new Date("2026-05-02T00:00:00Z") },
+    });
+    expect(mockPrisma.workflowDailyStats.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ workflowId: "wf1", stepId: "", count: 1, failed: 0 })],
+    });
+  });
+});
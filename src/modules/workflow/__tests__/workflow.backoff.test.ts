@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { PluginCircuitOpenError } from "@/modules/plugin/plugin-circuit";
+import { PluginTimeoutError } from "@/modules/plugin/plugin.interface";
+
+import {
+    DEFAULT_RETRY_POLICY,
+    StepTimeoutError,
+    classifyStepError,
+    computeRetryDelay,
+    resolveRetryPolicy,
+} from "../workflow.backoff";
+
+describe("computeRetryDelay", () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, initialDelayMs: 500, multiplier: 3, maxDelayMs: 8000, jitter: false };
+
+  it("grows by the multiplier and caps at the max delay", () => {
+    expect([1, 2, 3, 4, 5].map((retry) => computeRetryDelay(policy, retry))).toEqual([500, 1500, 4500, 8000, 8000]);
+  });
+
+  it("spreads jittered delays between half and all of the delay", () => {
+    const jittered = { ...policy, jitter: true };
+    expect(computeRetryDelay(jittered, 2, () => 0)).toBe(750);
+    expect(computeRetryDelay(jittered, 2, () => 0.5)).toBe(1125);
+    expect(computeRetryDelay(jittered, 2, () => 1)).toBe(1500);
+  });
+});
+
+describe("resolveRetryPolicy", () => {
+  it("uses the defaults for missing policies and fields", () => {
+    expect(resolveRetryPolicy(null)).toEqual(DEFAULT_RETRY_POLICY);
+    expect(resolveRetryPolicy({ multiplier: 1.5, retryOn: ["timeout"] })).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      multiplier: 1.5,
+      retryOn: ["timeout"],
+    });
+  });
+});
+
+describe("classifyStepError", () => {
+  it("classifies timeout and circuit errors by type", () => {
+    expect(classifyStepError(new StepTimeoutError(5000))).toBe("timeout");
+    expect(classifyStepError(new PluginTimeoutError("echo", 5000))).toBe("timeout");
+    expect(classifyStepError(new PluginCircuitOpenError("echo", 30_000))).toBe("circuit_open");
+  });
+
+  it("classifies returned error messages", () => {
+    expect(classifyStepError("Request failed with status 429")).toBe("rate_limit");
+    expect(classifyStepError("connect ECONNREFUSED 10.0.0.1:443")).toBe("network");
+    expect(classifyStepError(new Error("Upstream returned 503 Service Unavailable"))).toBe("server");
+    expect(classifyStepError("Missing required input: chatId")).toBe("plugin");
+    expect(classifyStepError(undefined)).toBe("plugin");
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+
+import { evaluateIfElse } from "@/modules/plugin/handlers/router";
+import { getStepOutputPorts } from "@/shared/constants/workflow-ports";
+
+import {
+    isStepReachable,
+    liveIncomingEdges,
+    type BranchEdge,
+    type BranchState,
+} from "../workflow.branching";
+
+// ---------------------------------------------------------------------------
+// Graph used throughout:
+//
+//   trigger → a → router ─true──→ yes → join
+//                        └false─→ no ──┘
+//                                 └──→ no2
+// ---------------------------------------------------------------------------
+const edges: BranchEdge[] = [
+  { sourceStepId: null, targetStepId: "a", sourcePort: "output" },
+  { sourceStepId: "a", targetStepId: "router", sourcePort: "output" },
+  { sourceStepId: "router", targetStepId: "yes", sourcePort: "true" },
+  { sourceStepId: "router", targetStepId: "no", sourcePort: "false" },
+  { sourceStepId: "yes", targetStepId: "join", sourcePort: "output" },
+  { sourceStepId: "no", targetStepId: "join", sourcePort: "output" },
+  { sourceStepId: "no", targetStepId: "no2", sourcePort: "output" },
+];
+
+function makeState(overrides: Partial<BranchState> = {}): BranchState {
+  return {
+    routers: new Set(["router"]),
+    emittedPorts: new Map(),
+    unreachable: new Set(),
+    ...overrides,
+  };
+}
+
+describe("isStepReachable", () => {
+  it("always runs trigger-fed and edge-less steps", () => {
+    const state = makeState();
+    expect(isStepReachable("a", edges, state)).toBe(true);
+    expect(isStepReachable("orphan", edges, state)).toBe(true);
+  });
+
+  it("follows only the port the router emitted on", () => {
+    const state = makeState({ emittedPorts: new Map([["router", ["true"]]]) });
+    expect(isStepReachable("yes", edges, state)).toBe(true);
+    expect(isStepReachable("no", edges, state)).toBe(false);
+  });
+
+  it("propagates skips down the untaken branch but not past a join", () => {
+    const state = makeState({
+      emittedPorts: new Map([["router", ["true"]]]),
+      unreachable: new Set(["no"]),
+    });
+    expect(isStepReachable("no2", edges, state)).toBe(false);
+    expect(isStepReachable("join", edges, state)).toBe(true);
+    expect(liveIncomingEdges("join", edges, state).map((e) => e.sourceStepId)).toEqual(["yes"]);
+  });
+
+  it("runs neither branch when the router did not complete", () => {
+    const state = makeState();
+    expect(isStepReachable("yes", edges, state)).toBe(false);
+    expect(isStepReachable("no", edges, state)).toBe(false);
+  });
+
+  it("keeps edges from ordinary steps live regardless of port name", () => {
+    const state = makeState({ routers: new Set() });
+    expect(isStepReachable("yes", edges, state)).toBe(true);
+  });
+});
+
+describe("getStepOutputPorts", () => {
+  it("returns named ports for routers and null otherwise", () => {
+    expect(getStepOutputPorts("if-else", {})).toEqual(["true", "false"]);
+    expect(getStepOutputPorts("switch", { cases: ["a", " b ", "a", "", "default"] })).toEqual([
+      "a",
+      "b",
+      "default",
+    ]);
+    expect(getStepOutputPorts("echo-bot", {})).toBeNull();
+  });
+});
+
+describe("evaluateIfElse", () => {
+  it("treats string 'false' and '0' as falsy for mapped inputs", () => {
+    expect(evaluateIfElse("yes", "isTruthy", undefined)).toBe(true);
+    expect(evaluateIfElse("false", "isTruthy", undefined)).toBe(false);
+    expect(evaluateIfElse("0", "isTruthy", undefined)).toBe(false);
+  });
+
+  it("compares as strings for equality and as numbers for ordering", () => {
+    expect(evaluateIfElse(5, "equals", "5")).toBe(true);
+    expect(evaluateIfElse("hello world", "contains", "world")).toBe(true);
+    expect(evaluateIfElse("10", "greaterThan", "9")).toBe(true);
+    expect(evaluateIfElse("10", "lessThan", "9")).toBe(false);
+  });
+});
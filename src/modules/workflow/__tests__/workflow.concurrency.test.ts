@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const hmgetMock = vi.fn();
+const hsetMock = vi.fn();
+const evalMock = vi.fn();
+
+vi.mock("@/lib/redis", () => ({
+  redis: {
+    hmget: (...args: unknown[]) => hmgetMock(...args),
+    hset: (...args: unknown[]) => hsetMock(...args),
+    eval: (...args: unknown[]) => evalMock(...args),
+  },
+}));
+
+import {
+    KEY_TURN_TIMEOUT_MS,
+    isTicketTurn,
+    parseRateLimit,
+    releaseTicket,
+    resolveConcurrencyKey,
+} from "../workflow.concurrency";
+
+const meta = { userId: "user-1", workflowId: "wf-1" };
+
+describe("resolveConcurrencyKey", () => {
+  const triggerData = { message: { chatId: 42, from: { id: 7 } }, source: "telegram" };
+
+  it("resolves the template against the trigger data", () => {
+    expect(resolveConcurrencyKey("{{trigger.message.chatId}}", triggerData, meta)).toBe("42");
+    expect(resolveConcurrencyKey("{{trigger.source}}:{{trigger.message.from.id}}", triggerData, meta)).toBe("telegram:7");
+  });
+
+  it("returns null for no key, empty values and objects", () => {
+    expect(resolveConcurrencyKey(null, triggerData, meta)).toBeNull();
+    expect(resolveConcurrencyKey("  ", triggerData, meta)).toBeNull();
+    expect(resolveConcurrencyKey("{{trigger.message.threadId}}", triggerData, meta)).toBeNull();
+    expect(resolveConcurrencyKey("{{trigger.message}}", triggerData, meta)).toBeNull();
+    expect(resolveConcurrencyKey("{{trigger.(}}", triggerData, meta)).toBeNull();
+  });
+});
+
+describe("parseRateLimit", () => {
+  it("accepts complete limits and drops blank replies", () => {
+    expect(parseRateLimit({ max: 5, windowSeconds: 60, reply: "Slow down" })).toEqual({
+      max: 5,
+      windowSeconds: 60,
+      reply: "Slow down",
+    });
+    expect(parseRateLimit({ max: 5, windowSeconds: 60, reply: " " })).toEqual({ max: 5, windowSeconds: 60 });
+  });
+
+  it("treats missing or malformed limits as unlimited", () => {
+    expect(parseRateLimit(null)).toBeNull();
+    expect(parseRateLimit({ max: 0, windowSeconds: 60 })).toBeNull();
+    expect(parseRateLimit({ max: 5 })).toBeNull();
+  });
+});
+
+describe("isTicketTurn", () => {
+  const now = 1_000_000_000;
+
+  beforeEach(() => {
+    hmgetMock.mockReset();
+    hsetMock.mockReset().mockResolvedValue(1);
+    evalMock.mockReset().mockResolvedValue(1);
+  });
+
+  it("lets the current and earlier tickets start, restarting the turn clock", async () => {
+    hmgetMock.mockResolvedValue(["3", String(now - 1000)]);
+
+    expect(await isTicketTurn("wf-1", { key: "42", ticket: 3 }, now)).toBe(true);
+    expect(hsetMock).toHaveBeenCalledWith("workflow:key-order:wf-1:42", "turnAt", now);
+    expect(await isTicketTurn("wf-1", { key: "42", ticket: 2 }, now)).toBe(true);
+  });
+
+  it("holds later tickets back", async () => {
+    hmgetMock.mockResolvedValue(["3", String(now - 1000)]);
+
+    expect(await isTicketTurn("wf-1", { key: "42", ticket: 4 }, now)).toBe(false);
+    expect(evalMock).not.toHaveBeenCalled();
+  });
+
+  it("skips a turn held past the timeout", async () => {
+    hmgetMock.mockResolvedValue(["3", String(now - KEY_TURN_TIMEOUT_MS - 1)]);
+
+    expect(await isTicketTurn("wf-1", { key: "42", ticket: 4 }, now)).toBe(false);
+    expect(evalMock).toHaveBeenCalledWith(expect.any(String), 1, "workflow:key-order:wf-1:42", 3, now, expect.any(Number));
+  });
+});
+
+describe("releaseTicket", () => {
+  beforeEach(() => {
+    evalMock.mockReset().mockResolvedValue(1);
+  });
+
+  it("hands the ticket to the turn script, which marks tickets released ahead of their turn", async () => {
+    await releaseTicket("wf-1", { key: "42", ticket: 5 });
+
+    const [script, , stateKey, ticket] = evalMock.mock.calls[0]!;
+    expect(stateKey).toBe("workflow:key-order:wf-1:42");
+    expect(ticket).toBe(5);
+    expect(script).toContain("'released:'");
+  });
+
+  it("does not throw when Redis fails", async () => {
+    evalMock.mockRejectedValueOnce(new Error("Redis down"));
+
+    await expect(releaseTicket("wf-1", { key: "42", ticket: 5 })).resolves.toBeUndefined();
+  });
+});
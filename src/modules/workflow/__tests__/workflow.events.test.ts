@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+
+import { matchesPlatformEventTrigger, runEventChain } from "../workflow.events";
+
+describe("matchesPlatformEventTrigger", () => {
+  const event = {
+    name: "alert.fired" as const,
+    data: { alertId: "a-1", type: "quota_warning", severity: "warning", title: "Quota", message: "", percentage: 85 },
+  };
+
+  it("requires the same event name", () => {
+    expect(matchesPlatformEventTrigger({ event: "alert.fired" }, event)).toBe(true);
+    expect(matchesPlatformEventTrigger({ event: "workflow.completed" }, event)).toBe(false);
+    expect(matchesPlatformEventTrigger({}, event)).toBe(false);
+  });
+
+  it("requires every filter to match, arrays matching any value", () => {
+    expect(matchesPlatformEventTrigger({ event: "alert.fired", filters: { type: "quota_warning", percentage: 85 } }, event)).toBe(true);
+    expect(matchesPlatformEventTrigger({ event: "alert.fired", filters: { type: ["quota_critical", "quota_warning"] } }, event)).toBe(true);
+    expect(matchesPlatformEventTrigger({ event: "alert.fired", filters: { type: "quota_warning", severity: "critical" } }, event)).toBe(false);
+    expect(matchesPlatformEventTrigger({ event: "alert.fired", filters: { resource: "workflows" } }, event)).toBe(false);
+  });
+});
+
+describe("runEventChain", () => {
+  it("starts a chain for runs not started by an event", () => {
+    expect(runEventChain("wf-1", "webhook", { body: {} })).toEqual(["wf-1"]);
+  });
+
+  it("extends the chain that started an event-triggered run", () => {
+    const triggerData = { event: "workflow.completed", data: {}, at: "", causedBy: ["wf-0"] };
+    expect(runEventChain("wf-1", "platform_event", triggerData)).toEqual(["wf-0", "wf-1"]);
+  });
+});
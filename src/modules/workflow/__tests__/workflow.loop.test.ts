@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+
+import { getStepOutputPorts } from "@/shared/constants/workflow-ports";
+
+import type { BranchEdge } from "../workflow.branching";
+import {
+    collectLoopBody,
+    getLoopParallelism,
+    parseLoopItems,
+    runWithConcurrency,
+} from "../workflow.loop";
+
+// ---------------------------------------------------------------------------
+// Graph used throughout:
+//
+//   trigger → fetch → loop ─each─→ enrich → save
+//                          └done─→ report
+// ---------------------------------------------------------------------------
+const edges: BranchEdge[] = [
+  { sourceStepId: null, targetStepId: "fetch", sourcePort: "output" },
+  { sourceStepId: "fetch", targetStepId: "loop", sourcePort: "output" },
+  { sourceStepId: "loop", targetStepId: "enrich", sourcePort: "each" },
+  { sourceStepId: "enrich", targetStepId: "save", sourcePort: "output" },
+  { sourceStepId: "loop", targetStepId: "report", sourcePort: "done" },
+];
+
+describe("foreach ports", () => {
+  it("exposes each and done", () => {
+    expect(getStepOutputPorts("foreach", {})).toEqual(["each", "done"]);
+  });
+});
+
+describe("collectLoopBody", () => {
+  it("includes everything downstream of the each port only", () => {
+    expect([...collectLoopBody("loop", edges)].sort()).toEqual(["enrich", "save"]);
+  });
+
+  it("is empty when nothing is wired to each", () => {
+    expect(collectLoopBody("fetch", edges).size).toBe(0);
+  });
+
+  it("does not follow a cycle back into the foreach step", () => {
+    const cyclic = [...edges, { sourceStepId: "save", targetStepId: "loop", sourcePort: "output" }];
+    expect(collectLoopBody("loop", cyclic).has("loop")).toBe(false);
+  });
+});
+
+describe("parseLoopItems", () => {
+  it("accepts arrays and JSON-encoded arrays", () => {
+    expect(parseLoopItems([1, 2])).toEqual([1, 2]);
+    expect(parseLoopItems('["a","b"]')).toEqual(["a", "b"]);
+  });
+
+  it("rejects everything else", () => {
+    expect(parseLoopItems("not json")).toBeNull();
+    expect(parseLoopItems('{"a":1}')).toBeNull();
+    expect(parseLoopItems(undefined)).toBeNull();
+    expect(parseLoopItems({ length: 1 })).toBeNull();
+  });
+});
+
+describe("getLoopParallelism", () => {
+  it("defaults to 1 and clamps to 1..10", () => {
+    expect(getLoopParallelism({})).toBe(1);
+    expect(getLoopParallelism(null)).toBe(1);
+    expect(getLoopParallelism({ maxParallel: 0 })).toBe(1);
+    expect(getLoopParallelism({ maxParallel: 4.7 })).toBe(4);
+    expect(getLoopParallelism({ maxParallel: 50 })).toBe(10);
+  });
+});
+
+describe("runWithConcurrency", () => {
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+
+  it("keeps input order and never exceeds the limit", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await runWithConcurrency([5, 1, 4, 2, 3], 2, async (n, i) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await tick();
+      inFlight--;
+      return `${i}:${n}`;
+    });
+    expect(results).toEqual(["0:5", "1:1", "2:4", "3:2", "4:3"]);
+    expect(peak).toBe(2);
+  });
+
+  it("stops starting items after the first failure", async () => {
+    const started: number[] = [];
+    await expect(
+      runWithConcurrency([0, 1, 2, 3], 1, async (n) => {
+        started.push(n);
+        if (n === 1) throw new Error("boom");
+        return n;
+      }),
+    ).rejects.toThrow("boom");
+    expect(started).toEqual([0, 1]);
+  });
+
+  it("resolves to an empty array for no items", async () => {
+    await expect(runWithConcurrency([], 3, async () => 1)).resolves.toEqual([]);
+  });
+});
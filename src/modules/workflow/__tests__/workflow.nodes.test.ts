@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+
+import { buildTemplateContext } from "../template.engine";
+import {
+    MAX_RUN_VARIABLES,
+    describeCoreNodeProblem,
+    runTransform,
+    setRunVariables,
+} from "../workflow.nodes";
+
+const meta = { userId: "u1", workflowId: "w1", runId: "r1" };
+
+describe("setRunVariables", () => {
+  it("stores each input and outputs what it set", () => {
+    const variables: Record<string, unknown> = { total: 1, name: "a" };
+    const result = setRunVariables(variables, { total: 5, items: [1, 2] });
+
+    expect(result).toEqual({ success: true, output: { total: 5, items: [1, 2] } });
+    expect(variables).toEqual({ total: 5, name: "a", items: [1, 2] });
+  });
+
+  it("rejects empty inputs, bad names and too many variables", () => {
+    const variables: Record<string, unknown> = {};
+    expect(setRunVariables(variables, {})).toMatchObject({ success: false });
+    expect(setRunVariables(variables, { "1st": true })).toEqual({
+      success: false,
+      error: 'Invalid variable name "1st"',
+    });
+
+    const full = Object.fromEntries(Array.from({ length: MAX_RUN_VARIABLES }, (_, i) => [`v${i}`, i]));
+    expect(setRunVariables(full, { extra: 1 })).toMatchObject({ success: false });
+    expect(full.extra).toBeUndefined();
+  });
+});
+
+describe("runTransform", () => {
+  const ctx = buildTemplateContext(
+    { message: { text: "hi" } },
+    { 0: { output: { user: { first: "Ada", last: "Lovelace" }, labels: ["a", "b"] } } },
+    1,
+    { ...meta, vars: { total: 3 } },
+  );
+
+  it("resolves a JSON template, keeping the types of lone expressions", () => {
+    const template = JSON.stringify({
+      name: "{{prev.output.user.first}} {{prev.output.user.last}}",
+      tags: "{{prev.output.labels}}",
+      meta: { total: "{{vars.total}}", fixed: 1 },
+      list: ["{{trigger.message.text}}", true],
+    });
+
+    expect(runTransform({ template }, ctx)).toEqual({
+      success: true,
+      output: {
+        name: "Ada Lovelace",
+        tags: ["a", "b"],
+        meta: { total: 3, fixed: 1 },
+        list: ["hi", true],
+      },
+    });
+  });
+
+  it("accepts a plain template string and stored objects", () => {
+    expect(runTransform({ template: "{{prev.output.labels}}" }, ctx)).toEqual({ success: true, output: ["a", "b"] });
+    expect(runTransform({ template: { n: "{{vars.total}}" } }, ctx)).toEqual({ success: true, output: { n: 3 } });
+  });
+
+  it("fails without a template or on malformed expressions", () => {
+    expect(runTransform({}, ctx)).toMatchObject({ success: false });
+    expect(runTransform({ template: "{{prev.(}}" }, ctx)).toMatchObject({
+      success: false,
+      error: expect.stringContaining("Transform template:"),
+    });
+  });
+});
+
+describe("describeCoreNodeProblem", () => {
+  it("checks set-variable names and transform templates", () => {
+    expect(describeCoreNodeProblem("set-variable", {}, { total: "{{prev.output}}" })).toBeNull();
+    expect(describeCoreNodeProblem("set-variable", {}, {})).toContain("no inputs");
+    expect(describeCoreNodeProblem("set-variable", {}, { "a b": "x" })).toContain('"a b"');
+
+    expect(describeCoreNodeProblem("transform", { template: '{"a": ["{{vars.x}}"]}' }, {})).toBeNull();
+    expect(describeCoreNodeProblem("transform", { template: '{"a": ["{{nope.x}}"]}' }, {})).toContain('Unknown variable "nope"');
+    expect(describeCoreNodeProblem("transform", {}, {})).toContain("no template");
+  });
+
+  it("ignores other steps", () => {
+    expect(describeCoreNodeProblem("http-request", {}, {})).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationError } from "@/shared/errors";
+
+import {
+    parseWorkflowDocument,
+    serializeWorkflowDocument,
+    toExportDocument,
+} from "../workflow.portable";
+
+function makeStep(id: string, order: number, slug: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    order,
+    name: null,
+    positionX: order * 200,
+    positionY: 0,
+    isEnabled: true,
+    inputMapping: {},
+    config: {},
+    gatewayId: null,
+    condition: null,
+    onError: "stop",
+    maxRetries: 0,
+    storageQuotaMb: 50,
+    plugin: { slug },
+    ...overrides,
+  };
+}
+
+const source = {
+  workflow: {
+    name: "Support Bot",
+    description: null,
+    slug: "support-bot",
+    scope: "USER",
+    triggerType: "TELEGRAM_MESSAGE",
+    triggerConfig: { filterType: "text" },
+    gatewayId: "gw_main",
+  },
+  steps: [
+    makeStep("cs_b", 1, "sub-workflow", { config: { workflowId: "wf_notify", timeoutMs: 5000 } }),
+    makeStep("cs_a", 0, "send-message", {
+      name: "Greet",
+      inputMapping: { text: "Hi {{trigger.message.from.first_name}}" },
+      gatewayId: "gw_alerts",
+      condition: { if: "{{trigger.message.text}} != ''" },
+    }),
+    makeStep("cs_c", 2, "http-request", { config: { resourceId: "res_crm", method: "POST" } }),
+  ],
+  edges: [
+    { sourceStepId: null, targetStepId: "cs_a", sourcePort: "output", targetPort: "input" },
+    { sourceStepId: "cs_a", targetStepId: "cs_b", sourcePort: "output", targetPort: "input" },
+  ],
+  gateways: new Map([
+    ["gw_main", { name: "Main Bot", type: "TELEGRAM_BOT" }],
+    ["gw_alerts", { name: "main bot!", type: "TELEGRAM_BOT" }],
+  ]),
+  workflows: new Map([["wf_notify", { name: "Notify team", slug: "notify-team" }]]),
+  resources: new Map([["res_crm", { name: "CRM API", slug: "crm", kind: "EXTERNAL_API" }]]),
+};
+
+describe("toExportDocument", () => {
+  const document = toExportDocument(source);
+
+  it("replaces IDs with step keys, plugin slugs and refs", () => {
+    expect(document.steps.map((s) => [s.key, s.plugin])).toEqual([
+      ["step-1", "send-message"],
+      ["step-2", "sub-workflow"],
+      ["step-3", "http-request"],
+    ]);
+    expect(document.edges).toEqual([
+      { from: null, to: "step-1", fromPort: "output", toPort: "input" },
+      { from: "step-1", to: "step-2", fromPort: "output", toPort: "input" },
+    ]);
+    expect(JSON.stringify(document)).not.toMatch(/cs_|gw_|wf_|res_/);
+  });
+
+  it("gives gateways with clashing names distinct refs", () => {
+    expect(document.workflow.gateway).toBe("main-bot");
+    expect(document.steps[0]?.gateway).toBe("main-bot-2");
+    expect(document.references.gateways).toEqual([
+      { ref: "main-bot", name: "Main Bot", type: "TELEGRAM_BOT" },
+      { ref: "main-bot-2", name: "main bot!", type: "TELEGRAM_BOT" },
+    ]);
+  });
+
+  it("names the workflow a sub-workflow step calls by slug", () => {
+    expect(document.steps[1]?.workflow).toBe("notify-team");
+    expect(document.steps[1]?.config).toEqual({ timeoutMs: 5000 });
+    expect(document.references.workflows).toEqual([{ ref: "notify-team", name: "Notify team" }]);
+  });
+
+  it("moves resource-ID config fields to resource refs", () => {
+    expect(document.steps[2]?.resources).toEqual({ resourceId: "crm" });
+    expect(document.steps[2]?.config).toEqual({ method: "POST" });
+    expect(document.references.resources).toEqual([{ ref: "crm", name: "CRM API", kind: "EXTERNAL_API" }]);
+  });
+
+  it("fails instead of exporting IDs it can't turn into refs", () => {
+    try {
+      toExportDocument({
+        ...source,
+        workflow: { ...source.workflow, onFailureWorkflowId: "wf_gone" },
+        workflows: new Map(),
+        resources: new Map([["res_crm", { name: "CRM DB", slug: "crm", kind: "DATABASE" }]]),
+      });
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(ValidationError);
+      expect((err as ValidationError).errors).toEqual({
+        "workflow.onFailure": ["Workflow not found in this workflow's project"],
+        "steps.1.config.workflowId": ["Workflow not found in this workflow's project"],
+        "steps.2.config.resourceId": ["EXTERNAL_API resource not found in this workflow's project"],
+      });
+    }
+  });
+});
+
+describe("parseWorkflowDocument", () => {
+  const document = toExportDocument(source);
+
+  it("round-trips through JSON and YAML", () => {
+    expect(parseWorkflowDocument(serializeWorkflowDocument(document, "json"))).toEqual(document);
+    expect(parseWorkflowDocument(serializeWorkflowDocument(document, "yaml"))).toEqual(document);
+  });
+
+  it("rejects unparseable text and unknown format versions", () => {
+    expect(() => parseWorkflowDocument("steps: [unclosed")).toThrow("Could not parse workflow document");
+    try {
+      parseWorkflowDocument({ ...document, version: 2 });
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(ValidationError);
+      expect((err as ValidationError).errors).toHaveProperty("version");
+    }
+  });
+
+  it("rejects dangling step keys and refs", () => {
+    try {
+      parseWorkflowDocument({
+        ...document,
+        steps: document.steps.map((s) => ({
+          ...s,
+          gateway: s.gateway && "missing",
+          resources: s.resources && { resourceId: "gone" },
+        })),
+        edges: [...document.edges, { from: "step-9", to: "step-1", fromPort: "output", toPort: "input" }],
+      });
+      expect.unreachable();
+    } catch (err) {
+      expect((err as ValidationError).errors).toEqual({
+        "steps.0.gateway": ['Gateway "missing" is not listed in references'],
+        "steps.2.resources.resourceId": ['Resource "gone" is not listed in references'],
+        "edges.2.from": ['Unknown step "step-9"'],
+      });
+    }
+  });
+});
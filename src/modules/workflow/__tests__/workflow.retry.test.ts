@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import { buildRetryState } from "../workflow.retry";
+
+const steps = [
+  { id: "s0", order: 0, config: {}, plugin: { slug: "fetch" } },
+  { id: "s1", order: 1, config: {}, plugin: { slug: "if-else" } },
+  { id: "s2", order: 2, config: {}, plugin: { slug: "send-message" } },
+  { id: "s3", order: 3, config: {}, plugin: { slug: "foreach" } },
+  { id: "s4", order: 4, config: {}, plugin: { slug: "post-api" } },
+];
+
+function stepRun(stepOrder: number, status: string, output: unknown, at: number, iteration = -1) {
+  return {
+    stepOrder,
+    iteration,
+    status,
+    input: { n: stepOrder },
+    output,
+    durationMs: 10,
+    completedAt: new Date(at),
+  };
+}
+
+describe("buildRetryState", () => {
+  const runs = [
+    stepRun(0, "completed", { data: 1 }, 1000),
+    stepRun(1, "completed", { data: 1 }, 2000),
+    stepRun(2, "completed", "sent", 3000),
+    stepRun(3, "completed", ["a", "b"], 5000),
+    stepRun(2, "completed", "in loop", 4000, 0),
+    stepRun(4, "failed", null, 6000),
+  ];
+
+  it("settles completed steps and rehydrates their results", () => {
+    const { state, reused } = buildRetryState(steps, runs);
+    expect(state.settled).toEqual(["s0", "s2", "s3"]);
+    expect(state.steps[2]).toEqual({
+      input: { n: 2 }, output: "sent", status: "completed", durationMs: 10,
+    });
+    expect(state.outputs).toEqual({ s0: { data: 1 }, s2: "sent", s3: ["a", "b"] });
+    expect(state.lastOutput).toEqual(["a", "b"]);
+    expect(reused.map((r) => r.stepOrder)).toEqual([0, 2, 3]);
+  });
+
+  it("re-evaluates if/else and switch routers and marks finished foreach loops done", () => {
+    const { state } = buildRetryState(steps, runs);
+    expect(state.settled).not.toContain("s1");
+    expect(state.emittedPorts).toEqual({ s3: ["done"] });
+  });
+
+  it("re-runs steps from fromStepOrder on", () => {
+    const { state } = buildRetryState(steps, runs, 2);
+    expect(state.settled).toEqual(["s0"]);
+    expect(state.lastOutput).toEqual({ data: 1 });
+  });
+
+  it("ignores step runs for steps no longer in the workflow", () => {
+    const { state } = buildRetryState(steps.slice(0, 1), runs);
+    expect(state.settled).toEqual(["s0"]);
+  });
+
+  it("restores the reply of a completed wait-for-reply step", () => {
+    const reply = { text: "yes", source: "telegram", message: {}, timedOut: false };
+    const { state } = buildRetryState(
+      [{ id: "w", order: 0, config: {}, plugin: { slug: "wait-for-reply" } }],
+      [stepRun(0, "completed", reply, 1000)],
+    );
+    expect(state.reply).toEqual(reply);
+  });
+
+  it("replays completed set-variable steps in completion order", () => {
+    const { state } = buildRetryState(
+      [
+        { id: "a", order: 0, config: {}, plugin: { slug: "set-variable" } },
+        { id: "b", order: 1, config: {}, plugin: { slug: "set-variable" } },
+      ],
+      [stepRun(1, "completed", { total: 2 }, 2000), stepRun(0, "completed", { total: 1, name: "x" }, 1000)],
+    );
+    expect(state.variables).toEqual({ total: 2, name: "x" });
+  });
+});
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const publishMock = vi.fn();
+const subscribeMock = vi.fn();
+const unsubscribeMock = vi.fn();
+const subscriberHandlers = new Map<string, (...args: unknown[]) => void>();
+
+vi.mock("@/lib/redis", () => ({
+  redis: {
+    publish: (...args: unknown[]) => publishMock(...args),
+    duplicate: () => ({
+      on: (event: string, handler: (...args: unknown[]) => void) => subscriberHandlers.set(event, handler),
+      subscribe: (...args: unknown[]) => subscribeMock(...args),
+      unsubscribe: (...args: unknown[]) => unsubscribeMock(...args),
+    }),
+  },
+}));
+
+// Import AFTER the mock is registered so the SUT picks up the stubbed redis.
+import { emitRunEvent, previewOutput, subscribeRunEvents, type WorkflowRunEvent } from "../workflow.stream";
+
+const CHANNEL = "workflow:run-events:wf-1";
+
+function deliver(message: unknown) {
+  subscriberHandlers.get("message")?.(CHANNEL, JSON.stringify(message));
+}
+
+describe("run event stream", () => {
+  beforeEach(() => {
+    publishMock.mockReset().mockResolvedValue(1);
+    subscribeMock.mockReset().mockResolvedValue(1);
+    unsubscribeMock.mockReset().mockResolvedValue(1);
+  });
+
+  it("delivers local events once, stamped, to that workflow's subscribers", () => {
+    const events: WorkflowRunEvent[] = [];
+    const other: WorkflowRunEvent[] = [];
+    const stop = subscribeRunEvents("wf-1", (e) => events.push(e));
+    const stopOther = subscribeRunEvents("wf-2", (e) => other.push(e));
+
+    emitRunEvent({ type: "run_started", workflowId: "wf-1", runId: "run-1", triggeredBy: "manual", resumed: false });
+    // Redis echoes our own publish back to us — it must not be delivered twice
+    deliver(JSON.parse(publishMock.mock.calls[0]?.[1] as string));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: "run_started", runId: "run-1" });
+    expect(events[0]?.at).toEqual(expect.any(String));
+    expect(other).toHaveLength(0);
+    expect(publishMock).toHaveBeenCalledWith(CHANNEL, expect.any(String));
+    stop();
+    stopOther();
+  });
+
+  it("delivers events published by other processes", () => {
+    const events: WorkflowRunEvent[] = [];
+    const stop = subscribeRunEvents("wf-1", (e) => events.push(e));
+
+    deliver({
+      origin: "another-process",
+      event: { type: "step_started", workflowId: "wf-1", runId: "run-2", at: "2026-01-01T00:00:00.000Z", stepId: "s1", stepOrder: 0, pluginSlug: "echo" },
+    });
+
+    expect(events).toEqual([expect.objectContaining({ type: "step_started", stepId: "s1" })]);
+    stop();
+  });
+
+  it("holds the Redis channel while any subscriber is open", () => {
+    const stopA = subscribeRunEvents("wf-1", () => {});
+    const stopB = subscribeRunEvents("wf-1", () => {});
+    expect(subscribeMock).toHaveBeenCalledTimes(1);
+
+    stopA();
+    stopA();
+    expect(unsubscribeMock).not.toHaveBeenCalled();
+    stopB();
+    expect(unsubscribeMock).toHaveBeenCalledWith(CHANNEL);
+  });
+});
+
+describe("previewOutput", () => {
+  it("serializes and truncates outputs", () => {
+    expect(previewOutput({ ok: true })).toBe('{"ok":true}');
+    expect(previewOutput("plain text")).toBe("plain text");
+    expect(previewOutput(undefined)).toBe("");
+    expect(previewOutput("x".repeat(20), 8)).toBe("xxxxxxxx…");
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    checkSubWorkflowInput,
+    checkSubWorkflowOutput,
+    checkValueAgainstSchema,
+    getSubWorkflowContract,
+} from "../workflow.subflow";
+
+describe("getSubWorkflowContract", () => {
+  it("reads requiredParams and schemas from the trigger config", () => {
+    const contract = getSubWorkflowContract({
+      requiredParams: ["text", 3],
+      paramsSchema: { type: "object", properties: { text: { type: "string" } } },
+      outputSchema: { type: "string" },
+    });
+    expect(contract.requiredParams).toEqual(["text"]);
+    expect(contract.paramsSchema?.properties?.text?.type).toBe("string");
+    expect(contract.outputSchema?.type).toBe("string");
+  });
+
+  it("is empty for configs without a contract", () => {
+    expect(getSubWorkflowContract(null)).toEqual({
+      requiredParams: [],
+      paramsSchema: undefined,
+      outputSchema: undefined,
+    });
+  });
+});
+
+describe("checkValueAgainstSchema", () => {
+  it("checks types, required keys, nested properties and array items", () => {
+    const schema = {
+      type: "object" as const,
+      required: ["lang"],
+      properties: {
+        lang: { type: "string" as const, enum: ["en", "fr"] },
+        tags: { type: "array" as const, items: { type: "string" as const } },
+      },
+    };
+    expect(checkValueAgainstSchema(schema, { lang: "en", tags: ["a"] })).toEqual([]);
+    expect(checkValueAgainstSchema(schema, { tags: ["a", 2] })).toEqual([
+      "lang is required",
+      "tags[1] must be string, got number",
+    ]);
+    expect(checkValueAgainstSchema(schema, { lang: "de" })).toEqual([
+      "lang must be one of en, fr",
+    ]);
+    expect(checkValueAgainstSchema(schema, [])).toEqual(["value must be object, got array"]);
+  });
+});
+
+describe("checkSubWorkflowInput / checkSubWorkflowOutput", () => {
+  const contract = getSubWorkflowContract({
+    requiredParams: ["text"],
+    paramsSchema: { type: "object", properties: { text: { type: "string" } } },
+    outputSchema: { type: "object", required: ["reply"] },
+  });
+
+  it("reports missing and mistyped input", () => {
+    expect(checkSubWorkflowInput(contract, { text: "hi" })).toEqual([]);
+    expect(checkSubWorkflowInput(contract, { text: "" })).toEqual(["text is required"]);
+    expect(checkSubWorkflowInput(contract, { text: 1 })).toEqual([
+      "text must be string, got number",
+    ]);
+  });
+
+  it("reports output that breaks the declared schema", () => {
+    expect(checkSubWorkflowOutput(contract, { reply: "ok" })).toEqual([]);
+    expect(checkSubWorkflowOutput(contract, {})).toEqual(["output.reply is required"]);
+    expect(checkSubWorkflowOutput(contract, undefined)).toEqual([
+      "output must be object, got nothing",
+    ]);
+    expect(checkSubWorkflowOutput(getSubWorkflowContract({}), 42)).toEqual([]);
+  });
+});
@@ -2,7 +2,7 @@
  * Workflow Trigger Tests
  *
  * Tests for unified BOT_MESSAGE trigger system, platform-specific delegates,
- * and the new callback trigger.
+ * the new callback trigger, and platform event triggers.
  *
  * @module modules/workflow/__tests__/workflow.triggers.test
  */
@@ -34,8 +34,29 @@ vi.mock("@/lib/logger", () => ({
 }));
 
 const mockExecuteWorkflow = vi.fn().mockResolvedValue("run-123");
+const mockResumeRunWithReply = vi.fn();
+const mockSendTriggerReply = vi.fn().mockResolvedValue(undefined);
 vi.mock("../workflow.executor", () => ({
   executeWorkflow: (...args: unknown[]) => mockExecuteWorkflow(...args),
+  resumeRunWithReply: (...args: unknown[]) => mockResumeRunWithReply(...args),
+  sendTriggerReply: (...args: unknown[]) => mockSendTriggerReply(...args),
+}));
+
+const mockEnqueueKeyedWorkflowRun = vi.fn();
+vi.mock("../workflow-queue", () => ({
+  enqueueKeyedWorkflowRun: (...args: unknown[]) => mockEnqueueKeyedWorkflowRun(...args),
+}));
+
+// Fixed-window counters for the rate limit
+const rateCounters = new Map<string, number>();
+vi.mock("@/lib/redis", () => ({
+  redis: {
+    incr: async (key: string) => {
+      rateCounters.set(key, (rateCounters.get(key) ?? 0) + 1);
+      return rateCounters.get(key);
+    },
+    expire: async () => 1,
+  },
 }));
 
 // Import after mocking
@@ -47,6 +68,7 @@ import {
     checkTelegramCallbackTrigger,
     checkTelegramMessageTrigger,
     checkWhatsAppMessageTrigger,
+    handlePlatformEventTrigger,
 } from "../workflow.triggers";
 
 const mockedPrisma = prisma as unknown as {
@@ -75,6 +97,9 @@ const activeWorkflow = (id: string, triggerConfig: Record<string, unknown> = {})
 
 beforeEach(() => {
   vi.clearAllMocks();
+  mockResumeRunWithReply.mockResolvedValue(null);
+  mockEnqueueKeyedWorkflowRun.mockResolvedValue({ jobId: "job-1" });
+  rateCounters.clear();
 });
 
 afterEach(() => {
@@ -120,7 +145,7 @@ describe("checkBotMessageTrigger", () => {
         status: "ACTIVE",
         isEnabled: true,
       },
-      select: { id: true, triggerConfig: true },
+      select: { id: true, triggerConfig: true, concurrencyKey: true, rateLimit: true },
     });
   });
 
@@ -157,10 +182,115 @@ describe("checkBotMessageTrigger", () => {
   });
 });
 
+// ===========================================
+// Concurrency keys and rate limits
+// ===========================================
+
+describe("keyed and rate-limited bot message runs", () => {
+  const message = { text: "hi", chatId: 42, from: { id: 7 } };
+
+  it("queues runs with a concurrency key under the resolved key", async () => {
+    mockedPrisma.workflow.findMany.mockResolvedValue([
+      { ...activeWorkflow("wf-1"), concurrencyKey: "{{trigger.message.chatId}}" },
+    ]);
+
+    await checkBotMessageTrigger(GATEWAY_ID, USER_ID, ORG_ID, "telegram", message, undefined, { update_id: 900 });
+
+    expect(mockExecuteWorkflow).not.toHaveBeenCalled();
+    expect(mockEnqueueKeyedWorkflowRun).toHaveBeenCalledWith(
+      expect.objectContaining({
+        workflowId: "wf-1",
+        triggeredBy: "bot_message_telegram",
+        idempotencyKey: `wf-1:${GATEWAY_ID}:900`,
+      }),
+      "42"
+    );
+  });
+
+  it("runs inline when the key resolves to nothing or the queue is down", async () => {
+    mockedPrisma.workflow.findMany.mockResolvedValue([
+      { ...activeWorkflow("wf-1"), concurrencyKey: "{{trigger.message.threadId}}" },
+      { ...activeWorkflow("wf-2"), concurrencyKey: "{{trigger.message.chatId}}" },
+    ]);
+    mockEnqueueKeyedWorkflowRun.mockRejectedValueOnce(new Error("Redis down"));
+
+    await checkBotMessageTrigger(GATEWAY_ID, USER_ID, ORG_ID, "telegram", message);
+
+    expect(mockExecuteWorkflow).toHaveBeenCalledTimes(2);
+  });
+
+  it("drops runs over the limit and sends the over-limit reply", async () => {
+    mockedPrisma.workflow.findMany.mockResolvedValue([
+      {
+        ...activeWorkflow("wf-1"),
+        concurrencyKey: "{{trigger.message.from.id}}",
+        rateLimit: { max: 2, windowSeconds: 60, reply: "Slow down!" },
+      },
+    ]);
+
+    for (let i = 0; i < 3; i++) {
+      await checkBotMessageTrigger(GATEWAY_ID, USER_ID, ORG_ID, "telegram", message);
+    }
+
+    expect(mockEnqueueKeyedWorkflowRun).toHaveBeenCalledTimes(2);
+    expect(mockSendTriggerReply).toHaveBeenCalledTimes(1);
+    expect(mockSendTriggerReply).toHaveBeenCalledWith(GATEWAY_ID, expect.objectContaining({ message }), "Slow down!");
+  });
+});
+
 // ===========================================
 // checkTelegramMessageTrigger
 // ===========================================
 
+describe("wait-for-reply hand-off", () => {
+  const telegramMessage = { text: "Blue", chatId: 42, from: { id: 7 } };
+
+  it("resumes the waiting run instead of matching triggers", async () => {
+    mockResumeRunWithReply.mockResolvedValue("run-waiting");
+    mockedPrisma.workflow.findMany.mockResolvedValue([activeWorkflow("wf-1")]);
+
+    const result = await checkBotMessageTrigger(GATEWAY_ID, USER_ID, ORG_ID, "telegram", telegramMessage);
+
+    expect(result).toBe(true);
+    expect(mockResumeRunWithReply).toHaveBeenCalledWith(`${GATEWAY_ID}:42:7`, {
+      text: "Blue",
+      source: "telegram",
+      message: telegramMessage,
+      timedOut: false,
+    });
+    expect(mockedPrisma.workflow.findMany).not.toHaveBeenCalled();
+    expect(mockExecuteWorkflow).not.toHaveBeenCalled();
+  });
+
+  it("falls through to trigger matching when no run is waiting", async () => {
+    mockedPrisma.workflow.findMany.mockResolvedValue([activeWorkflow("wf-1")]);
+
+    const result = await checkBotMessageTrigger(GATEWAY_ID, USER_ID, ORG_ID, "telegram", telegramMessage);
+
+    expect(result).toBe(true);
+    expect(mockResumeRunWithReply).toHaveBeenCalledTimes(1);
+    expect(mockExecuteWorkflow).toHaveBeenCalledTimes(1);
+  });
+
+  it("keys Slack messages by channel and user", async () => {
+    mockResumeRunWithReply.mockResolvedValue("run-waiting");
+
+    await checkSlackMessageTrigger(GATEWAY_ID, USER_ID, ORG_ID, {
+      type: "event_callback",
+      event: { type: "message", text: "yes", channel: "C1", user: "U1" },
+    });
+
+    expect(mockResumeRunWithReply).toHaveBeenCalledWith(
+      `${GATEWAY_ID}:C1:U1`,
+      expect.objectContaining({ text: "yes", source: "slack" }),
+    );
+  });
+});
+
+// ===========================================
+// Platform delegates
+// ===========================================
+
 describe("checkTelegramMessageTrigger", () => {
   it("delegates to checkBotMessageTrigger with telegram source", async () => {
     mockedPrisma.workflow.findMany.mockResolvedValue([activeWorkflow("wf-1")]);
@@ -374,3 +504,122 @@ describe("checkWhatsAppMessageTrigger", () => {
     expect(noMatch).toBe(false);
   });
 });
+
+// ===========================================
+// handlePlatformEventTrigger
+// ===========================================
+
+describe("handlePlatformEventTrigger", () => {
+  const gatewayDown = {
+    name: "gateway.status_changed" as const,
+    userId: USER_ID,
+    organizationId: null,
+    data: {
+      gatewayId: GATEWAY_ID,
+      gatewayName: "Support bot",
+      gatewayType: "TELEGRAM_BOT",
+      previousStatus: "CONNECTED",
+      status: "ERROR",
+      error: "401 Unauthorized",
+    },
+    at: "2026-05-18T10:00:00.000Z",
+  };
+
+  it("starts the owner's workflows whose event and filters match", async () => {
+    mockedPrisma.workflow.findMany.mockResolvedValue([
+      activeWorkflow("wf-alert", { event: "gateway.status_changed", filters: { status: "ERROR" } }),
+      activeWorkflow("wf-recovered", { event: "gateway.status_changed", filters: { status: "CONNECTED" } }),
+      activeWorkflow("wf-other", { event: "alert.fired" }),
+    ]);
+
+    const started = await handlePlatformEventTrigger(gatewayDown);
+
+    expect(started).toBe(1);
+    expect(mockedPrisma.workflow.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ userId: USER_ID, organizationId: null, triggerType: "PLATFORM_EVENT" }),
+      })
+    );
+    expect(mockExecuteWorkflow).toHaveBeenCalledWith("wf-alert", "platform_event", {
+      event: "gateway.status_changed",
+      data: gatewayDown.data,
+      at: gatewayDown.at,
+      causedBy: [],
+    });
+  });
+
+  it("matches organization events against all of the organization's workflows", async () => {
+    mockedPrisma.workflow.findMany.mockResolvedValue([]);
+
+    await handlePlatformEventTrigger({
+      name: "alert.fired",
+      userId: null,
+      organizationId: "org-1",
+      data: { alertId: "a-1", type: "quota_warning", severity: "warning", title: "Quota", message: "80% used" },
+      at: "2026-05-18T10:00:00.000Z",
+    });
+
+    const { where } = mockedPrisma.workflow.findMany.mock.calls[0]![0] as { where: Record<string, unknown> };
+    expect(where.organizationId).toBe("org-1");
+    expect(where).not.toHaveProperty("userId");
+  });
+
+  it("only starts other members' workflows on a member's event when they opted in to org-wide events", async () => {
+    mockedPrisma.workflow.findMany.mockResolvedValue([
+      { ...activeWorkflow("wf-own", { event: "workflow.completed" }), userId: USER_ID },
+      { ...activeWorkflow("wf-personal", { event: "workflow.completed" }), userId: "user-2" },
+      { ...activeWorkflow("wf-shared", { event: "workflow.completed", orgWide: true }), userId: "user-3" },
+    ]);
+
+    const started = await handlePlatformEventTrigger({
+      name: "workflow.completed",
+      userId: USER_ID,
+      organizationId: "org-1",
+      data: {
+        workflowId: "wf-main", workflowName: "Main", runId: "run-1",
+        status: "completed", triggeredBy: "manual", durationMs: 80,
+      },
+      at: "2026-05-18T10:00:00.000Z",
+    });
+
+    expect(started).toBe(2);
+    expect(mockExecuteWorkflow.mock.calls.map((call) => call[0])).toEqual(["wf-own", "wf-shared"]);
+  });
+
+  it("never starts a workflow from an event its own runs caused", async () => {
+    mockedPrisma.workflow.findMany.mockResolvedValue([
+      activeWorkflow("wf-cleanup", { event: "workflow.completed" }),
+      activeWorkflow("wf-notify", { event: "workflow.completed" }),
+    ]);
+
+    const started = await handlePlatformEventTrigger({
+      name: "workflow.completed",
+      userId: USER_ID,
+      organizationId: null,
+      data: {
+        workflowId: "wf-cleanup", workflowName: "Cleanup", runId: "run-9",
+        status: "completed", triggeredBy: "platform_event", durationMs: 120,
+      },
+      causedBy: ["wf-main", "wf-cleanup"],
+      at: "2026-05-18T10:00:00.000Z",
+    });
+
+    expect(started).toBe(1);
+    expect(mockExecuteWorkflow).toHaveBeenCalledTimes(1);
+    expect(mockExecuteWorkflow).toHaveBeenCalledWith(
+      "wf-notify", "platform_event", expect.objectContaining({ causedBy: ["wf-main", "wf-cleanup"] })
+    );
+  });
+
+  it("stops chains at the maximum depth", async () => {
+    mockedPrisma.workflow.findMany.mockResolvedValue([activeWorkflow("wf-x", { event: "gateway.status_changed" })]);
+
+    const started = await handlePlatformEventTrigger({
+      ...gatewayDown,
+      causedBy: ["wf-1", "wf-2", "wf-3", "wf-4", "wf-5"],
+    });
+
+    expect(started).toBe(0);
+    expect(mockedPrisma.workflow.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    diffWorkflowSnapshots,
+    isEmptyDiff,
+    toWorkflowSnapshot,
+    type SnapshotEdge,
+    type SnapshotStep,
+} from "../workflow.version";
+
+function step(id: string, order: number, overrides: Partial<SnapshotStep> = {}): SnapshotStep {
+  return {
+    id,
+    order,
+    name: null,
+    positionX: 0,
+    positionY: 0,
+    pluginId: "plugin-1",
+    isEnabled: true,
+    inputMapping: {},
+    config: {},
+    gatewayId: null,
+    condition: null,
+    onError: "stop",
+    maxRetries: 0,
+    entryFile: null,
+    storageQuotaMb: 50,
+    userPluginId: null,
+    ...overrides,
+  };
+}
+
+function edge(id: string, sourceStepId: string | null, targetStepId: string): SnapshotEdge {
+  return { id, sourceStepId, targetStepId, sourcePort: "output", targetPort: "input" };
+}
+
+describe("toWorkflowSnapshot", () => {
+  it("orders steps and drops fields that are not part of the definition", () => {
+    const rows = [
+      { ...step("b", 1), executionCount: 9, lastError: "boom" },
+      { ...step("a", 0), inputMapping: null },
+    ];
+    const edges = [{ ...edge("e1", null, "a"), workflowId: "w1" }];
+    const snapshot = toWorkflowSnapshot(rows, edges);
+    expect(snapshot.steps.map((s) => s.id)).toEqual(["a", "b"]);
+    expect(snapshot.steps[0]?.inputMapping).toEqual({});
+    expect(snapshot.steps[1]).not.toHaveProperty("executionCount");
+    expect(snapshot.edges[0]).not.toHaveProperty("workflowId");
+  });
+});
+
+describe("diffWorkflowSnapshots", () => {
+  const published = toWorkflowSnapshot(
+    [step("a", 0, { inputMapping: { text: "{{trigger.text}}", chatId: "1" } }), step("b", 1)],
+    [edge("e1", null, "a"), edge("e2", "a", "b")],
+  );
+
+  it("treats everything as added when nothing is published", () => {
+    const diff = diffWorkflowSnapshots(null, published);
+    expect(diff.steps.added.map((s) => s.id)).toEqual(["a", "b"]);
+    expect(diff.edges.added).toHaveLength(2);
+  });
+
+  it("reports added, removed and changed steps", () => {
+    const draft = toWorkflowSnapshot(
+      [step("a", 0, { inputMapping: { text: "{{trigger.text | upper}}", chatId: "1" } }), step("c", 1)],
+      [edge("e1", null, "a"), edge("e3", "a", "c")],
+    );
+    const diff = diffWorkflowSnapshots(published, draft);
+    expect(diff.steps.added.map((s) => s.id)).toEqual(["c"]);
+    expect(diff.steps.removed.map((s) => s.id)).toEqual(["b"]);
+    expect(diff.steps.changed).toEqual([
+      { id: "a", order: 0, name: null, pluginId: "plugin-1", fields: ["inputMapping"] },
+    ]);
+    expect(diff.edges.added.map((e) => e.id)).toEqual(["e3"]);
+    expect(diff.edges.removed.map((e) => e.id)).toEqual(["e2"]);
+  });
+
+  it("ignores canvas moves, JSON key order and recreated edges", () => {
+    const draft = toWorkflowSnapshot(
+      [
+        step("a", 0, { positionX: 300, inputMapping: { chatId: "1", text: "{{trigger.text}}" } }),
+        step("b", 1, { positionY: 120 }),
+      ],
+      [edge("e1", null, "a"), edge("e9", "a", "b")],
+    );
+    expect(isEmptyDiff(diffWorkflowSnapshots(published, draft))).toBe(true);
+  });
+});
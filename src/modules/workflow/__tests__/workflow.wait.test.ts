@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+
+import {
+    MAX_WAIT_MS,
+    computeResumeAt,
+    getConversation,
+    getTriggerWaitKey,
+    isWaitStep,
+} from "../workflow.wait";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+
+describe("isWaitStep", () => {
+  it("matches only delay, wait-until and wait-for-reply", () => {
+    expect(isWaitStep("delay")).toBe(true);
+    expect(isWaitStep("wait-until")).toBe(true);
+    expect(isWaitStep("wait-for-reply")).toBe(true);
+    expect(isWaitStep("if-else")).toBe(false);
+    expect(isWaitStep(undefined)).toBe(false);
+  });
+});
+
+describe("computeResumeAt — delay", () => {
+  it("adds amount × unit to now", () => {
+    expect(computeResumeAt("delay", { amount: 2, unit: "hours" }, {}, NOW).toISOString()).toBe(
+      "2026-03-10T14:00:00.000Z",
+    );
+    expect(computeResumeAt("delay", { amount: 90, unit: "seconds" }, {}, NOW).toISOString()).toBe(
+      "2026-03-10T12:01:30.000Z",
+    );
+  });
+
+  it("lets the input amount override config", () => {
+    expect(
+      computeResumeAt("delay", { amount: 1, unit: "days" }, { amount: "3" }, NOW).toISOString(),
+    ).toBe("2026-03-13T12:00:00.000Z");
+  });
+
+  it("rejects bad amounts, units and overly long waits", () => {
+    expect(() => computeResumeAt("delay", { amount: 0 }, {}, NOW)).toThrow(/positive/);
+    expect(() => computeResumeAt("delay", { amount: 1, unit: "weeks" }, {}, NOW)).toThrow(/unit/);
+    expect(() => computeResumeAt("delay", { amount: 31, unit: "days" }, {}, NOW)).toThrow(/30 days/);
+  });
+});
+
+describe("computeResumeAt — wait-until", () => {
+  it("waits for an explicit timestamp, resuming at once if it has passed", () => {
+    expect(
+      computeResumeAt("wait-until", {}, { until: "2026-03-11T08:00:00Z" }, NOW).toISOString(),
+    ).toBe("2026-03-11T08:00:00.000Z");
+    expect(computeResumeAt("wait-until", {}, { until: "2020-01-01T00:00:00Z" }, NOW)).toEqual(NOW);
+    expect(() => computeResumeAt("wait-until", {}, { until: "soon" }, NOW)).toThrow(/timestamp/);
+  });
+
+  it("finds the next wall-clock time in the timezone", () => {
+    // 12:00Z is 13:00 in Berlin (CET): 09:00 has passed, so tomorrow 08:00Z.
+    expect(
+      computeResumeAt("wait-until", { time: "09:00", timezone: "Europe/Berlin" }, {}, NOW).toISOString(),
+    ).toBe("2026-03-11T08:00:00.000Z");
+    // 12:00Z is 08:00 in New York (EDT since Mar 8): 09:00 is still today.
+    expect(
+      computeResumeAt("wait-until", { time: "09:00" }, { timezone: "America/New_York" }, NOW).toISOString(),
+    ).toBe("2026-03-10T13:00:00.000Z");
+  });
+
+  it("defaults to UTC and validates time and timezone", () => {
+    expect(computeResumeAt("wait-until", { time: "18:30" }, {}, NOW).toISOString()).toBe(
+      "2026-03-10T18:30:00.000Z",
+    );
+    expect(() => computeResumeAt("wait-until", { time: "9am" }, {}, NOW)).toThrow(/HH:mm/);
+    expect(() => computeResumeAt("wait-until", { timezone: "Mars/Base" }, {}, NOW)).toThrow(
+      /timezone/,
+    );
+  });
+
+  it("caps explicit timestamps at the maximum wait", () => {
+    const far = new Date(NOW.getTime() + MAX_WAIT_MS + 1000).toISOString();
+    expect(() => computeResumeAt("wait-until", {}, { until: far }, NOW)).toThrow(/30 days/);
+  });
+});
+
+describe("computeResumeAt — wait-for-reply", () => {
+  it("times out after the configured amount, 24 hours by default", () => {
+    expect(computeResumeAt("wait-for-reply", {}, {}, NOW).toISOString()).toBe(
+      "2026-03-11T12:00:00.000Z",
+    );
+    expect(
+      computeResumeAt("wait-for-reply", { timeoutAmount: 15, timeoutUnit: "minutes" }, {}, NOW)
+        .toISOString(),
+    ).toBe("2026-03-10T12:15:00.000Z");
+    expect(() => computeResumeAt("wait-for-reply", { timeoutAmount: -1 }, {}, NOW)).toThrow(
+      /timeout/,
+    );
+  });
+});
+
+describe("getConversation", () => {
+  it("reads chat, user and text for each platform", () => {
+    expect(
+      getConversation("telegram", { text: "hi", chatId: 42, from: { id: 7 } }),
+    ).toEqual({ chatId: "42", userId: "7", text: "hi" });
+    expect(
+      getConversation("telegram_callback", { data: "yes", chatId: 42, from: { id: 7 } }),
+    ).toEqual({ chatId: "42", userId: "7", text: "yes" });
+    expect(
+      getConversation("discord", { content: "hi", channel_id: "c1", author: { id: "u1" } }),
+    ).toEqual({ chatId: "c1", userId: "u1", text: "hi" });
+    expect(
+      getConversation("discord", {
+        type: 3,
+        channel_id: "c1",
+        member: { user: { id: "u1" } },
+        data: { custom_id: "btn-yes" },
+      }),
+    ).toEqual({ chatId: "c1", userId: "u1", text: "btn-yes" });
+    expect(
+      getConversation("slack", { event: { type: "message", text: "hi", channel: "C1", user: "U1" } }),
+    ).toEqual({ chatId: "C1", userId: "U1", text: "hi" });
+    expect(
+      getConversation("slack", { command: "/ask", text: "hi", channel_id: "C1", user_id: "U1" }),
+    ).toEqual({ chatId: "C1", userId: "U1", text: "hi" });
+    expect(
+      getConversation("whatsapp", { type: "text", text: { body: "hi" }, from: "15551234" }),
+    ).toEqual({ chatId: "15551234", userId: "15551234", text: "hi" });
+  });
+
+  it("ignores bot-authored messages and messages without a chat user", () => {
+    expect(
+      getConversation("discord", { content: "q?", channel_id: "c1", author: { id: "b", bot: true } }),
+    ).toBeNull();
+    expect(
+      getConversation("slack", { event: { text: "q?", channel: "C1", bot_id: "B1" } }),
+    ).toBeNull();
+    expect(getConversation("telegram", { text: "hi", chatId: 42 })).toBeNull();
+    expect(getConversation("webhook", { chatId: 42, from: { id: 7 } })).toBeNull();
+  });
+});
+
+describe("getTriggerWaitKey", () => {
+  it("keys bot-message runs by gateway, chat and user", () => {
+    expect(
+      getTriggerWaitKey({
+        gatewayId: "gw-1",
+        source: "telegram",
+        message: { text: "start", chatId: 42, from: { id: 7 } },
+      }),
+    ).toBe("gw-1:42:7");
+    expect(getTriggerWaitKey({ body: {} })).toBeNull();
+    expect(getTriggerWaitKey(null)).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+
+import { collectTemplatePaths } from "../template.engine";
+import { checkStepWiring, type WiringStep } from "../workflow.wiring";
+
+const fetchPlugin = {
+  slug: "http-fetch",
+  inputSchema: {
+    type: "object",
+    properties: { url: { type: "string" }, retries: { type: "number", default: 0 } },
+    required: ["url", "retries"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      status: { type: "number" },
+      body: { type: "object", properties: { title: { type: "string" } } },
+      items: { type: "array", items: { type: "object", properties: { id: { type: "string" } } } },
+      url: { type: "string" },
+    },
+  },
+};
+
+const sendPlugin = {
+  slug: "send-message",
+  inputSchema: {
+    type: "object",
+    properties: { text: { type: "string" }, url: { type: "string" }, count: { type: "number" } },
+    required: ["text", "url"],
+  },
+  outputSchema: { type: "object" },
+};
+
+function workflow(mapping: Record<string, unknown>): WiringStep[] {
+  return [
+    { id: "s0", order: 0, inputMapping: { url: "https://example.com" }, plugin: fetchPlugin },
+    { id: "s1", order: 1, inputMapping: mapping, plugin: sendPlugin },
+  ];
+}
+
+describe("collectTemplatePaths", () => {
+  it("lists each path with the block it came from", () => {
+    const refs = collectTemplatePaths("Hi {{prev.output.name}} ({{steps.0.output.count | default:0}}) {{x.(}}");
+
+    expect(refs.map((r) => [r.expression, r.path.root, r.path.segments, r.bare])).toEqual([
+      ["{{prev.output.name}}", "prev", ["output", "name"], true],
+      ["{{steps.0.output.count | default:0}}", "steps", ["0", "output", "count"], false],
+    ]);
+  });
+});
+
+describe("checkStepWiring", () => {
+  it("accepts paths and types that match the schemas", () => {
+    const result = checkStepWiring(workflow({
+      text: "Status {{steps.0.output.status}}: {{prev.output.body.title}}",
+      url: "{{prev.output.url}}",
+      count: "{{prev.output.items.length}}",
+    }));
+
+    expect(result.size).toBe(0);
+  });
+
+  it("flags unknown output fields and suggests the closest one", () => {
+    const result = checkStepWiring(workflow({ text: "{{prev.output.body.titel}}", url: "{{prev.output.url}}" }));
+
+    expect(result.get("s1")).toEqual([
+      expect.objectContaining({
+        severity: "warning",
+        message: expect.stringContaining('has no "titel"'),
+        fixId: "mapping.replace-reference",
+        fixContext: { from: "{{prev.output.body.titel}}", to: "{{prev.output.body.title}}", stepId: "s1", stepOrder: 1, inputKey: "text" },
+      }),
+    ]);
+  });
+
+  it("suggests prev.output for fields read off the step result", () => {
+    const [problem] = checkStepWiring(workflow({ text: "x", url: "{{prev.url}}" })).get("s1") ?? [];
+
+    expect(problem?.message).toContain("Did you mean prev.output.url?");
+    expect(problem?.fixContext).toMatchObject({ from: "{{prev.url}}", to: "{{prev.output.url}}" });
+  });
+
+  it("reports type mismatches for pass-through values only", () => {
+    const problems = checkStepWiring(workflow({
+      text: "{{prev.output.status}}",
+      url: "{{prev.output.url}}",
+      count: "{{prev.output.body.title}} items",
+    })).get("s1");
+
+    expect(problems?.map((p) => p.message)).toEqual([
+      'Step 1 input "text": send-message expects string but gets number.',
+      'Step 1 input "count": send-message expects number but gets string.',
+    ]);
+  });
+
+  it("errors on missing steps and warns on steps that haven't run", () => {
+    const result = checkStepWiring([
+      { id: "s0", order: 0, inputMapping: { url: "{{prev.output.url}}" }, plugin: fetchPlugin },
+      { id: "s1", order: 1, inputMapping: { text: "{{steps.4.output}} {{steps.1.output}}", url: "u" }, plugin: sendPlugin },
+    ]);
+
+    expect(result.get("s0")?.[0]?.message).toContain("has no previous step");
+    expect(result.get("s1")?.map((p) => p.severity)).toEqual(["error", "warning"]);
+  });
+
+  it("reports unmapped required inputs, offering a previous-step field", () => {
+    const problems = checkStepWiring(workflow({ text: "hello" })).get("s1");
+
+    expect(problems).toEqual([
+      expect.objectContaining({
+        message: 'Step 1: send-message requires input "url", which isn\'t mapped. The previous step outputs "url".',
+        fixId: "mapping.add-input",
+        fixContext: { stepId: "s1", stepOrder: 1, inputKey: "url", template: "{{prev.output.url}}" },
+      }),
+    ]);
+  });
+
+  it("skips required inputs with defaults and steps fed by the trigger", () => {
+    const result = checkStepWiring([
+      { id: "s0", order: 0, inputMapping: { url: "https://example.com" }, plugin: fetchPlugin },
+      { id: "s1", order: 1, inputMapping: {}, plugin: sendPlugin },
+    ]);
+
+    expect(result.size).toBe(0);
+  });
+
+  it("doesn't guess about undeclared schemas", () => {
+    const result = checkStepWiring([
+      { id: "s0", order: 0, inputMapping: {}, plugin: { slug: "custom", inputSchema: {}, outputSchema: { type: "object" } } },
+      { id: "s1", order: 1, inputMapping: { text: "{{prev.output.anything.deep}}", url: "{{trigger.message.text}}" }, plugin: sendPlugin },
+    ]);
+
+    expect(result.size).toBe(0);
+  });
+});
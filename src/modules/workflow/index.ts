@@ -13,28 +13,61 @@ export * from "./workflow.types";
 export { workflowService } from "./workflow.service";
 
 // Executor
-export { executeWorkflow } from "./workflow.executor";
+export {
+    executeWorkflow, requeueWaitingRuns, resumeRunWithReply, resumeWorkflowRun, retryWorkflowRun
+} from "./workflow.executor";
+
+// Live run events
+export { subscribeRunEvents, type WorkflowRunEvent, type WorkflowRunEventType } from "./workflow.stream";
 
 // Template engine
-export { buildTemplateContext, evaluateCondition, resolveInputMapping, resolveTemplate } from "./template.engine";
+export {
+    buildTemplateContext, evaluateCondition, resolveInputMapping, resolveTemplate, validateCondition, validateTemplate
+} from "./template.engine";
+export { TemplateSyntaxError } from "./template.expression";
+
+// Step retry policies
+export {
+    DEFAULT_RETRY_POLICY, STEP_ERROR_CLASSES, StepTimeoutError, type StepErrorClass, type StepRetryPolicy
+} from "./workflow.backoff";
+
+// Run ordering & rate limits
+export { resolveConcurrencyKey, type WorkflowRateLimit } from "./workflow.concurrency";
+
+// Export / import format
+export {
+    parseWorkflowDocument, serializeWorkflowDocument, toExportDocument, type WorkflowExportFormat
+} from "./workflow.portable";
+
+// Versions
+export {
+    diffWorkflowSnapshots, type WorkflowSnapshot, type WorkflowSnapshotDiff
+} from "./workflow.version";
 
 // Trigger handlers
-export { checkTelegramMessageTrigger, handleWebhookTrigger } from "./workflow.triggers";
+export {
+    checkTelegramMessageTrigger, handlePlatformEventTrigger, handleWebhookTrigger, registerPlatformEventTriggers
+} from "./workflow.triggers";
+
+// Platform event triggers
+export { MAX_EVENT_CHAIN_DEPTH, PLATFORM_EVENT_TRIGGERED_BY, matchesPlatformEventTrigger } from "./workflow.events";
 
 // Validation schemas
 export {
     // Workflow schemas
-    createWorkflowSchema, createWorkflowStepSchema, errorHandlerSchema,
+    createWorkflowSchema, createWorkflowStepSchema, errorHandlerSchema, importWorkflowSchema, workflowExportDocumentSchema, workflowExportQuerySchema,
     // Step schemas
-    inputMappingSchema, manualTriggerConfigSchema, scheduleTriggerConfigSchema, stepConditionSchema, telegramCallbackTriggerConfigSchema,
+    inputMappingSchema, manualTriggerConfigSchema, platformEventTriggerConfigSchema, publishWorkflowSchema, retryWorkflowRunSchema, scheduleTriggerConfigSchema, stepConditionSchema, stepRetryPolicySchema, telegramCallbackTriggerConfigSchema,
     // Trigger config schemas
     telegramMessageTriggerConfigSchema, triggerConfigSchema, triggerTypeSchema, triggerWorkflowSchema, updateWorkflowSchema, updateWorkflowStepSchema, webhookTriggerConfigSchema,
+    // Run ordering & rate limit schemas
+    concurrencyKeySchema, workflowRateLimitSchema,
     // Query schemas
     workflowListQuerySchema,
     // Common schemas
     workflowNameSchema, workflowRunListQuerySchema, workflowScopeSchema, workflowSlugSchema, workflowStatusSchema,
     // Inferred types
-    type CreateWorkflowInput, type CreateWorkflowStepInput, type TriggerType, type TriggerWorkflowInput, type UpdateWorkflowInput, type UpdateWorkflowStepInput, type WorkflowListQuery,
+    type CreateWorkflowInput, type CreateWorkflowStepInput, type ImportWorkflowInput, type WorkflowExportDocument, type PublishWorkflowInput, type RetryWorkflowRunInput, type TriggerType, type TriggerWorkflowInput, type UpdateWorkflowInput, type UpdateWorkflowStepInput, type WorkflowListQuery,
     type WorkflowRunListQuery, type WorkflowScope, type WorkflowStatus
 } from "./workflow.validation";
 
@@ -204,3 +204,67 @@ registerFix({
     };
   },
 });
+
+// ── mapping.replace-reference ────────────────────────────────────────────────
+// Fires when an input mapping reads a step output path that the upstream
+// plugin's outputSchema doesn't have, and a close match exists (a typo, or
+// `prev.text` written for `prev.output.text`).
+// Fix: swap the `{{...}}` block for the suggested one, if it is still there.
+registerFix({
+  id: "mapping.replace-reference",
+  label: "Use suggested field",
+  description: "Replaces the reference in this input mapping with the suggested output field.",
+  async execute({ workflowId, stepId, inputKey, from, to }) {
+    const step = await prisma.workflowStep.findFirstOrThrow({
+      where: { id: stepId, workflowId },
+      select: { inputMapping: true },
+    });
+    const mapping = (step.inputMapping ?? {}) as Record<string, unknown>;
+    const current = mapping[String(inputKey)];
+    if (typeof current !== "string" || typeof from !== "string" || !current.includes(from)) {
+      return {
+        message: `Input "${String(inputKey)}" has changed since preflight ran — nothing was replaced.`,
+        rerunPreflight: true,
+      };
+    }
+    mapping[String(inputKey)] = current.split(from).join(String(to));
+    await prisma.workflowStep.update({
+      where: { id: stepId },
+      data: { inputMapping: mapping as Prisma.InputJsonValue },
+    });
+    fixLogger.info({ workflowId, stepId, inputKey }, "Fix mapping.replace-reference applied");
+    return {
+      message: `Input "${String(inputKey)}" now reads ${String(to)}.`,
+      rerunPreflight: true,
+    };
+  },
+});
+
+// ── mapping.add-input ────────────────────────────────────────────────────────
+// Fires when a plugin input marked required in its inputSchema isn't mapped
+// but the previous step outputs a field of the same name.
+// Fix: map the input to that field.
+registerFix({
+  id: "mapping.add-input",
+  label: "Map from previous step",
+  description: "Maps the missing input to the previous step's output field of the same name.",
+  async execute({ workflowId, stepId, inputKey, template }) {
+    const step = await prisma.workflowStep.findFirstOrThrow({
+      where: { id: stepId, workflowId },
+      select: { inputMapping: true },
+    });
+    const mapping = (step.inputMapping ?? {}) as Record<string, unknown>;
+    if (mapping[String(inputKey)] === undefined) {
+      mapping[String(inputKey)] = String(template);
+      await prisma.workflowStep.update({
+        where: { id: stepId },
+        data: { inputMapping: mapping as Prisma.InputJsonValue },
+      });
+    }
+    fixLogger.info({ workflowId, stepId, inputKey }, "Fix mapping.add-input applied");
+    return {
+      message: `Input "${String(inputKey)}" is now mapped to ${String(template)}.`,
+      rerunPreflight: true,
+    };
+  },
+});
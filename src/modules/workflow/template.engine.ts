@@ -2,11 +2,26 @@
  * Workflow Template Engine
  *
  * Resolves template strings like `{{trigger.message.text}}` or `{{steps.0.output.result}}`
- * against an execution context. Used for input mappings between workflow steps.
+ * against an execution context. Used for input mappings between workflow steps
+ * and for step conditions.
+ *
+ * Each `{{...}}` holds an expression (see template.expression.ts), so
+ * templates can pipe through filters — `{{trigger.message.text | lower | truncate:100}}`
+ * — and conditions can use `>`, `&&`, `in`, `matches`, parentheses and so on.
  *
  * @module modules/workflow/template.engine
  */
 
+import {
+    collectPathRoots,
+    collectPaths,
+    evaluateExpressionNode,
+    parseExpression,
+    TEMPLATE_ROOTS,
+    TemplateSyntaxError,
+    type ExpressionNode,
+    type PathNode,
+} from "./template.expression";
 import type { TemplateContext } from "./workflow.types";
 
 /** Maximum depth for nested property access to prevent abuse */
@@ -15,87 +30,109 @@ const MAX_PATH_DEPTH = 10;
 /** Maximum template string length */
 const MAX_TEMPLATE_LENGTH = 10_000;
 
-/** Regex to match template expressions: {{path.to.value}} */
-const TEMPLATE_REGEX = /\{\{([^}]+)\}\}/g;
+/** Regex to match template expressions: {{expression}} */
+const TEMPLATE_REGEX = /\{\{([\s\S]+?)\}\}/g;
+
+/** Number of parsed expressions kept for reuse across steps and runs */
+const PARSE_CACHE_SIZE = 500;
 
 /**
- * Safely resolve a dotted path (with bracket notation) against an object.
- * Returns undefined if any segment is missing.
- *
- * Supports both dot and bracket notation:
- * - `a.b.c`          → obj.a.b.c
- * - `steps[0].output` → obj.steps[0].output
- * - `steps.0.output`  → obj.steps["0"].output
- *
- * @example
- * resolvePath({ a: { b: 42 } }, "a.b") // 42
- * resolvePath({ steps: { 0: { output: "hi" } } }, "steps.0.output") // "hi"
- * resolvePath({ 0: "hi" }, "[0]") // "hi"
+ * Matches `kv.<store>.<key>` references, with or without surrounding braces
+ * (conditions accept the shorthand form). Keys never contain dots, so
+ * anything after the key segment is a path into the stored value.
  */
-function resolvePath(obj: unknown, path: string): unknown {
-  // Normalise bracket notation: `steps[0].output` → `steps.0.output`
-  const normalised = path.replace(/\[(\d+)\]/g, ".$1");
-  const segments = normalised.split(".").filter(Boolean);
-  if (segments.length > MAX_PATH_DEPTH) {
-    return undefined;
-  }
+const KV_REFERENCE_REGEX = /(?<![\w.])kv\.([A-Za-z0-9_-]+)\.([A-Za-z0-9_\-:/]+)/g;
 
-  let current: unknown = obj;
-  for (const segment of segments) {
-    if (current === null || current === undefined) {
-      return undefined;
-    }
-    if (typeof current !== "object") {
-      return undefined;
-    }
-    current = (current as Record<string, unknown>)[segment];
+const parseCache = new Map<string, ExpressionNode>();
+
+/** Parse an expression, reusing the AST when the same source was seen before. */
+function parseCached(source: string): ExpressionNode {
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+  const ast = parseExpression(source);
+  if (parseCache.size >= PARSE_CACHE_SIZE) {
+    const oldest = parseCache.keys().next().value;
+    if (oldest !== undefined) parseCache.delete(oldest);
   }
-  return current;
+  parseCache.set(source, ast);
+  return ast;
 }
 
 /**
- * Resolve a single template expression path against the context.
+ * The context value a path root refers to.
  *
- * Supported top-level keys: trigger, prev, steps, env, secrets, ctx
+ * Supported top-level keys: trigger, prev, steps, env, secrets, kv, ctx,
+ * item / index inside a foreach body, reply after a wait-for-reply step,
+ * and vars (run variables written by set-variable steps)
  */
-function resolveExpression(expression: string, context: TemplateContext): unknown {
-  const trimmed = expression.trim();
-  if (!trimmed) return undefined;
-
-  // Normalise bracket notation first so `steps[0].output` → `steps.0.output`
-  const normalised = trimmed.replace(/\[(\d+)\]/g, ".$1");
-
-  // Split into root key and rest
-  const dotIdx = normalised.indexOf(".");
-  const rootKey = dotIdx === -1 ? normalised : normalised.slice(0, dotIdx);
-  const restPath = dotIdx === -1 ? "" : normalised.slice(dotIdx + 1);
-
-  let root: unknown;
+function resolveRoot(rootKey: string, context: TemplateContext): unknown {
   switch (rootKey) {
     case "trigger":
-      root = context.trigger;
-      break;
+      return context.trigger;
     case "prev":
-      root = context.prev;
-      break;
+      return context.prev;
     case "steps":
-      root = context.steps;
-      break;
+      return context.steps;
     case "env":
-      root = context.env;
-      break;
+      return context.env;
     case "secrets":
-      root = context.secrets;
-      break;
+      return context.secrets;
+    case "kv":
+      return context.kv;
     case "ctx":
-      root = context.ctx;
-      break;
+      return context.ctx;
+    case "item":
+      return context.item;
+    case "index":
+      return context.index;
+    case "reply":
+      return context.reply;
+    case "vars":
+      return context.vars;
     default:
       return undefined;
   }
+}
+
+/**
+ * Resolve a parsed path against the context. Returns undefined if any
+ * segment is missing, so every path is null-safe.
+ *
+ * @example
+ * // `steps[0].output` and `steps.0.output` both → context.steps["0"].output
+ */
+function resolvePath(path: PathNode, context: TemplateContext): unknown {
+  if (path.segments.length > MAX_PATH_DEPTH) {
+    return undefined;
+  }
+
+  let current: unknown = resolveRoot(path.root, context);
+  for (const segment of path.segments) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    if (typeof current !== "object" || !Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function evaluate(source: string, context: TemplateContext): unknown {
+  return evaluateExpressionNode(parseCached(source), (path) => resolvePath(path, context));
+}
 
-  if (!restPath) return root;
-  return resolvePath(root, restPath);
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
 }
 
 /**
@@ -110,6 +147,7 @@ function resolveExpression(expression: string, context: TemplateContext): unknow
  *
  * @returns The resolved value — could be any type for single-expression templates,
  *          or a string for mixed templates.
+ * @throws TemplateSyntaxError when an expression is malformed
  */
 export function resolveTemplate(
   template: string,
@@ -121,25 +159,16 @@ export function resolveTemplate(
   }
 
   // Optimisation: if the entire string is a single expression, return the raw value
-  const singleMatch = /^\{\{([^}]+)\}\}$/.exec(template);
-  if (singleMatch && singleMatch[1]) {
-    const value = resolveExpression(singleMatch[1], context);
+  const singleMatch = /^\{\{([\s\S]+?)\}\}$/.exec(template);
+  if (singleMatch && singleMatch[1] && !singleMatch[1].includes("{{")) {
+    const value = evaluate(singleMatch[1], context);
     return value ?? "";
   }
 
   // Mixed template — interpolate all expressions as strings
-  return template.replace(TEMPLATE_REGEX, (_match, expr: string) => {
-    const value = resolveExpression(expr, context);
-    if (value === undefined || value === null) return "";
-    if (typeof value === "object") {
-      try {
-        return JSON.stringify(value);
-      } catch {
-        return String(value);
-      }
-    }
-    return String(value);
-  });
+  return template.replace(TEMPLATE_REGEX, (_match, expr: string) =>
+    stringify(evaluate(expr, context)),
+  );
 }
 
 /**
@@ -160,15 +189,36 @@ export function resolveInputMapping(
 }
 
 /**
- * Evaluate a simple condition expression.
+ * Resolve every template string inside a JSON value (objects and arrays
+ * recursively). Other values are returned as they are.
+ */
+export function resolveTemplateValue(value: unknown, context: TemplateContext): unknown {
+  if (typeof value === "string") return resolveTemplate(value, context);
+  if (Array.isArray(value)) return value.map((item) => resolveTemplateValue(item, context));
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = resolveTemplateValue(item, context);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Evaluate a condition expression.
  *
- * Supports basic comparisons:
- * - `{{path}} == 'value'`
- * - `{{path}} != 'value'`
- * - `{{path}}` (truthy check)
+ * The whole condition is one expression; paths may be written bare or
+ * wrapped in braces:
+ * - `{{trigger.message.text}} == 'hello'`
+ * - `{{steps.1.output.count}} > 3 && !{{prev.error}}`
+ * - `trigger.message.chat.type in ['group', 'supergroup']`
+ * - `{{trigger.message.text}} matches '^/start'`
+ * - `{{prev.output}}` (truthy check)
  *
- * All template expressions inside the condition string are resolved first.
- * For safety, this does NOT use eval(). Only simple operators are supported.
+ * For safety, this does NOT use eval().
+ *
+ * @throws TemplateSyntaxError when the condition is malformed
  */
 export function evaluateCondition(
   conditionExpr: string,
@@ -179,55 +229,86 @@ export function evaluateCondition(
   const trimmed = conditionExpr.trim();
   if (!trimmed) return true;
 
-  // Try equality/inequality/contains comparison: left == right, left != right, left contains right
-  const comparisonMatch = /^(.+?)\s*(==|!=|contains)\s+(.+)$/.exec(trimmed);
-  if (comparisonMatch) {
-    const [, leftExpr = "", operator, rightExpr = ""] = comparisonMatch;
-    const left = resolveTemplateValue(leftExpr.trim(), context);
-    const right = resolveTemplateValue(rightExpr.trim(), context);
+  return Boolean(evaluate(trimmed, context));
+}
 
-    const leftStr = String(left ?? "");
-    const rightStr = String(right ?? "");
+// ===========================================
+// Validation
+// ===========================================
 
-    if (operator === "==") return leftStr === rightStr;
-    if (operator === "!=") return leftStr !== rightStr;
-    if (operator === "contains") return leftStr.includes(rightStr);
-  }
+const KNOWN_ROOTS = new Set<string>(TEMPLATE_ROOTS);
 
-  // Truthy check — resolve the whole thing and check truthiness
-  const value = resolveTemplateValue(trimmed, context);
-  return Boolean(value);
+function describeProblem(source: string): string | null {
+  let ast: ExpressionNode;
+  try {
+    ast = parseCached(source);
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) return error.message;
+    throw error;
+  }
+  for (const root of collectPathRoots(ast)) {
+    if (!KNOWN_ROOTS.has(root)) {
+      return `Unknown variable "${root}" (quote literal text, e.g. '${root}')`;
+    }
+  }
+  return null;
 }
 
 /**
- * Resolve a value that might be a template expression or a literal.
- * Strips surrounding quotes from string literals.
+ * Check every `{{...}}` expression in a template without resolving it.
+ *
+ * @returns The first problem found, or null when the template is valid
  */
-function resolveTemplateValue(expr: string, context: TemplateContext): unknown {
-  // String literal in single or double quotes
-  const quotedMatch = /^(['"])(.*)(\1)$/.exec(expr);
-  if (quotedMatch) {
-    return quotedMatch[2];
+export function validateTemplate(template: string): string | null {
+  if (typeof template !== "string") return null;
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    return `Template string exceeds maximum length of ${MAX_TEMPLATE_LENGTH}`;
   }
-
-  // Numeric literal
-  const num = Number(expr);
-  if (!isNaN(num) && expr.trim() !== "") {
-    return num;
+  for (const match of template.matchAll(TEMPLATE_REGEX)) {
+    const problem = describeProblem(match[1] ?? "");
+    if (problem) return problem;
   }
+  return null;
+}
 
-  // Boolean literals
-  if (expr === "true") return true;
-  if (expr === "false") return false;
-  if (expr === "null") return null;
+/**
+ * Check a condition expression without evaluating it.
+ *
+ * @returns The problem found, or null when the condition is valid
+ */
+export function validateCondition(conditionExpr: string): string | null {
+  if (typeof conditionExpr !== "string" || !conditionExpr.trim()) return null;
+  return describeProblem(conditionExpr.trim());
+}
 
-  // Template expression
-  if (expr.includes("{{")) {
-    return resolveTemplate(expr, context);
-  }
+/** A path read by one `{{...}}` expression of a template. */
+export interface TemplatePathRef {
+  /** The expression block, braces included, exactly as written */
+  expression: string;
+  path: PathNode;
+  /** The expression is this path alone — no operators or filters */
+  bare: boolean;
+}
 
-  // Plain path (shorthand without braces)
-  return resolveExpression(expr, context);
+/**
+ * The paths a template reads, for static analysis. Malformed expressions
+ * are skipped — `validateTemplate` reports them.
+ */
+export function collectTemplatePaths(template: string): TemplatePathRef[] {
+  if (typeof template !== "string" || template.length > MAX_TEMPLATE_LENGTH) return [];
+  const refs: TemplatePathRef[] = [];
+  for (const match of template.matchAll(TEMPLATE_REGEX)) {
+    let ast: ExpressionNode;
+    try {
+      ast = parseCached(match[1] ?? "");
+    } catch {
+      continue;
+    }
+    for (const path of collectPaths(ast)) {
+      refs.push({ expression: match[0], path, bare: ast === path });
+    }
+  }
+  return refs;
 }
 
 /**
@@ -248,6 +329,14 @@ export function buildTemplateContext(
      * an empty object.
      */
     secrets?: Record<string, string>;
+    /** KV_STORE values preloaded via `collectKvReferences()` (store → key → value). */
+    kv?: Record<string, Record<string, unknown>>;
+    /** Current foreach element, when the step runs inside a loop body. */
+    loop?: { item: unknown; index: number };
+    /** Latest wait-for-reply result in this run. */
+    reply?: unknown;
+    /** Run variables set so far. */
+    vars?: Record<string, unknown>;
   }
 ): TemplateContext {
   // Build steps map (step order → { output, error })
@@ -272,6 +361,10 @@ export function buildTemplateContext(
     steps: stepsOutput,
     env: {}, // No user env vars exposed for now (security)
     secrets: meta.secrets ?? {},
+    kv: meta.kv ?? {},
+    ...(meta.loop && { item: meta.loop.item, index: meta.loop.index }),
+    ...(meta.reply !== undefined && { reply: meta.reply }),
+    vars: meta.vars ?? {},
     ctx: {
       userId: meta.userId,
       organizationId: meta.organizationId,
@@ -281,3 +374,26 @@ export function buildTemplateContext(
     },
   };
 }
+
+/**
+ * Collect the distinct `kv.<store>.<key>` references used by a set of
+ * templates (input mapping values, condition expressions). The executor
+ * loads exactly these entries before building the step's TemplateContext.
+ */
+export function collectKvReferences(
+  templates: string[]
+): Array<{ store: string; key: string }> {
+  const seen = new Set<string>();
+  const refs: Array<{ store: string; key: string }> = [];
+  for (const template of templates) {
+    if (typeof template !== "string" || !template.includes("kv.")) continue;
+    for (const match of template.matchAll(KV_REFERENCE_REGEX)) {
+      const [, store = "", key = ""] = match;
+      const id = `${store}\u0000${key}`;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      refs.push({ store, key });
+    }
+  }
+  return refs;
+}
@@ -0,0 +1,508 @@
+/**
+ * Template Expressions
+ *
+ * Parser and evaluator for the expression language used inside `{{...}}`
+ * templates and in step conditions. Expressions are parsed into a small
+ * AST and walked — nothing is ever passed to `eval` / `Function`.
+ *
+ * Grammar (lowest precedence first):
+ *
+ *   pipe       := or ( "|" filter ( ":" operand )* )*
+ *   or         := and ( "||" and )*
+ *   and        := comparison ( "&&" comparison )*
+ *   comparison := unary ( ( "==" | "!=" | ">" | ">=" | "<" | "<=" |
+ *                           "contains" | "in" | "matches" ) unary )?
+ *   unary      := "!" unary | operand
+ *   operand    := string | number | true | false | null | path
+ *               | "[" ( pipe ( "," pipe )* )? "]" | "(" pipe ")" | "{{" pipe "}}"
+ *
+ * Paths (`trigger.message.text`, `steps[0].output`, `item?.name`) are
+ * null-safe: a missing segment yields undefined instead of an error.
+ *
+ * @module modules/workflow/template.expression
+ */
+
+import { TEMPLATE_FILTERS } from "./template.filters";
+
+/** Maximum expression length accepted by the parser */
+const MAX_EXPRESSION_LENGTH = 2_000;
+
+/** Maximum length of a `matches` pattern */
+const MAX_PATTERN_LENGTH = 500;
+
+/** Top-level variables a path may start with */
+export const TEMPLATE_ROOTS = [
+  "trigger", "prev", "steps", "env", "secrets", "kv", "ctx", "item", "index", "reply", "vars",
+] as const;
+
+/**
+ * Thrown for malformed expressions. `position` is the 0-based offset into
+ * the expression where parsing failed.
+ */
+export class TemplateSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly expression: string,
+    public readonly position: number,
+  ) {
+    super(`${message} at position ${position} in "${expression}"`);
+    this.name = "TemplateSyntaxError";
+  }
+}
+
+// ===========================================
+// AST
+// ===========================================
+
+export type ComparisonOperator =
+  | "==" | "!=" | ">" | ">=" | "<" | "<=" | "contains" | "in" | "matches";
+
+export interface PathNode {
+  type: "path";
+  root: string;
+  segments: string[];
+}
+
+export type ExpressionNode =
+  | { type: "literal"; value: unknown }
+  | PathNode
+  | { type: "list"; items: ExpressionNode[] }
+  | { type: "not"; operand: ExpressionNode }
+  | { type: "logical"; operator: "&&" | "||"; left: ExpressionNode; right: ExpressionNode }
+  | { type: "compare"; operator: ComparisonOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: "filter"; name: string; input: ExpressionNode; args: ExpressionNode[] };
+
+// ===========================================
+// Lexer
+// ===========================================
+
+type Token =
+  | { kind: "string"; value: string; pos: number }
+  | { kind: "number"; value: number; pos: number }
+  | { kind: "path"; value: PathNode; pos: number }
+  | { kind: "op"; value: string; pos: number }
+  | { kind: "end"; pos: number };
+
+const WORD_OPERATORS = new Set(["contains", "in", "matches"]);
+const SYMBOL_OPERATORS = [
+  "{{", "}}", "==", "!=", ">=", "<=", "&&", "||",
+  ">", "<", "!", "|", ":", "(", ")", "[", "]", ",",
+];
+const IDENT_START = /[A-Za-z_$]/;
+const SEGMENT_CHAR = /[A-Za-z0-9_$-]/;
+/** `kv.<store>.<key>` keys may also contain ":" and "/" (see KV_REFERENCE_REGEX) */
+const KV_KEY_CHAR = /[A-Za-z0-9_\-:/]/;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const fail = (message: string, pos = i): never => {
+    throw new TemplateSyntaxError(message, source, pos);
+  };
+
+  const readQuoted = (quote: string): string => {
+    const start = i;
+    i++; // opening quote
+    let value = "";
+    while (i < source.length && source[i] !== quote) {
+      if (source[i] === "\\" && i + 1 < source.length) {
+        const next = source[i + 1] as string;
+        value += next === "n" ? "\n" : next === "t" ? "\t" : next;
+        i += 2;
+      } else {
+        value += source[i];
+        i++;
+      }
+    }
+    if (i >= source.length) fail("Unterminated string", start);
+    i++; // closing quote
+    return value;
+  };
+
+  const readSegment = (charset: RegExp): string => {
+    const start = i;
+    while (i < source.length && charset.test(source[i] as string)) i++;
+    return source.slice(start, i);
+  };
+
+  while (i < source.length) {
+    const ch = source[i] as string;
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "'" || ch === "\"") {
+      const pos = i;
+      tokens.push({ kind: "string", value: readQuoted(ch), pos });
+      continue;
+    }
+
+    const numberMatch = /^-?\d+(\.\d+)?/.exec(source.slice(i));
+    if (numberMatch && (ch !== "-" || /\d/.test(source[i + 1] ?? ""))) {
+      tokens.push({ kind: "number", value: Number(numberMatch[0]), pos: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    if (IDENT_START.test(ch)) {
+      const pos = i;
+      const root = readSegment(SEGMENT_CHAR);
+      const segments: string[] = [];
+      for (;;) {
+        if (source.startsWith("?.", i)) i++;
+        if (source[i] === ".") {
+          i++;
+          const charset = root === "kv" && segments.length === 1 ? KV_KEY_CHAR : SEGMENT_CHAR;
+          const segment = readSegment(charset);
+          if (!segment) fail("Expected a property name after \".\"");
+          segments.push(segment);
+        } else if (source[i] === "[" && /^\[\s*(\d+|'[^']*'|"[^"]*")\s*\]/.test(source.slice(i))) {
+          const match = /^\[\s*(\d+|'[^']*'|"[^"]*")\s*\]/.exec(source.slice(i)) as RegExpExecArray;
+          const raw = match[1] as string;
+          segments.push(/^\d/.test(raw) ? raw : raw.slice(1, -1));
+          i += match[0].length;
+        } else {
+          break;
+        }
+      }
+      if (segments.length === 0 && WORD_OPERATORS.has(root)) {
+        tokens.push({ kind: "op", value: root, pos });
+      } else {
+        tokens.push({ kind: "path", value: { type: "path", root, segments }, pos });
+      }
+      continue;
+    }
+
+    const symbol = SYMBOL_OPERATORS.find((op) => source.startsWith(op, i));
+    if (symbol) {
+      tokens.push({ kind: "op", value: symbol, pos: i });
+      i += symbol.length;
+      continue;
+    }
+
+    fail(`Unexpected character "${ch}"`);
+  }
+
+  tokens.push({ kind: "end", pos: source.length });
+  return tokens;
+}
+
+// ===========================================
+// Parser
+// ===========================================
+
+const COMPARISON_OPERATORS = new Set<string>([
+  "==", "!=", ">", ">=", "<", "<=", "contains", "in", "matches",
+]);
+
+/**
+ * Parse an expression (the text inside `{{...}}`, or a whole condition).
+ *
+ * @throws TemplateSyntaxError when the expression is malformed or uses an
+ *         unknown filter
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new TemplateSyntaxError(
+      `Expression exceeds maximum length of ${MAX_EXPRESSION_LENGTH}`, source.slice(0, 40), 0,
+    );
+  }
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = (): Token => tokens[pos] as Token;
+  const next = (): Token => tokens[pos++] as Token;
+  const isOp = (value: string): boolean => {
+    const token = peek();
+    return token.kind === "op" && token.value === value;
+  };
+  const describe = (token: Token): string =>
+    token.kind === "end" ? "end of expression" : `"${source.slice(token.pos).split(/\s/)[0]}"`;
+  const fail = (message: string, token: Token = peek()): never => {
+    throw new TemplateSyntaxError(message, source, token.pos);
+  };
+  const expect = (value: string): void => {
+    if (!isOp(value)) fail(`Expected "${value}" but found ${describe(peek())}`);
+    pos++;
+  };
+
+  const parsePipe = (): ExpressionNode => {
+    let node = parseOr();
+    while (isOp("|")) {
+      pos++;
+      const nameToken = next();
+      if (nameToken.kind !== "path" || nameToken.value.segments.length > 0) {
+        fail("Expected a filter name after \"|\"", nameToken);
+      }
+      const name = (nameToken as { value: PathNode }).value.root;
+      const filter = TEMPLATE_FILTERS.get(name);
+      if (!filter) fail(`Unknown filter "${name}"`, nameToken);
+      const args: ExpressionNode[] = [];
+      while (isOp(":")) {
+        pos++;
+        args.push(parseUnary());
+      }
+      if (filter && (args.length < filter.minArgs || args.length > filter.maxArgs)) {
+        const expected = filter.minArgs === filter.maxArgs
+          ? `${filter.minArgs}`
+          : `${filter.minArgs}-${filter.maxArgs}`;
+        fail(`Filter "${name}" takes ${expected} argument(s), got ${args.length}`, nameToken);
+      }
+      node = { type: "filter", name, input: node, args };
+    }
+    return node;
+  };
+
+  const parseOr = (): ExpressionNode => {
+    let node = parseAnd();
+    while (isOp("||")) {
+      pos++;
+      node = { type: "logical", operator: "||", left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): ExpressionNode => {
+    let node = parseComparison();
+    while (isOp("&&")) {
+      pos++;
+      node = { type: "logical", operator: "&&", left: node, right: parseComparison() };
+    }
+    return node;
+  };
+
+  const parseComparison = (): ExpressionNode => {
+    const left = parseUnary();
+    const token = peek();
+    if (token.kind === "op" && COMPARISON_OPERATORS.has(token.value)) {
+      pos++;
+      const right = parseUnary();
+      if (token.value === "matches" && right.type === "literal") {
+        checkPattern(String(right.value), source, token.pos);
+      }
+      return { type: "compare", operator: token.value as ComparisonOperator, left, right };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (isOp("!")) {
+      pos++;
+      return { type: "not", operand: parseUnary() };
+    }
+    return parseOperand();
+  };
+
+  const parseOperand = (): ExpressionNode => {
+    const token = next();
+    switch (token.kind) {
+      case "string":
+      case "number":
+        return { type: "literal", value: token.value };
+      case "path": {
+        const { root, segments } = token.value;
+        if (segments.length === 0) {
+          if (root === "true") return { type: "literal", value: true };
+          if (root === "false") return { type: "literal", value: false };
+          if (root === "null") return { type: "literal", value: null };
+        }
+        return token.value;
+      }
+      case "op":
+        if (token.value === "(") {
+          const inner = parsePipe();
+          expect(")");
+          return inner;
+        }
+        if (token.value === "{{") {
+          const inner = parsePipe();
+          expect("}}");
+          return inner;
+        }
+        if (token.value === "[") {
+          const items: ExpressionNode[] = [];
+          if (!isOp("]")) {
+            items.push(parsePipe());
+            while (isOp(",")) {
+              pos++;
+              items.push(parsePipe());
+            }
+          }
+          expect("]");
+          return { type: "list", items };
+        }
+        break;
+      case "end":
+        return fail("Unexpected end of expression", token);
+    }
+    return fail(`Unexpected ${describe(token)}`, token);
+  };
+
+  if (peek().kind === "end") fail("Empty expression");
+  const ast = parsePipe();
+  if (peek().kind !== "end") fail(`Unexpected ${describe(peek())}`);
+  return ast;
+}
+
+/**
+ * Compile a `matches` pattern. Accepts a plain pattern or `/pattern/flags`.
+ * Throws a plain Error for overlong or invalid patterns.
+ */
+function compilePattern(pattern: string): RegExp {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new Error(`Regex pattern exceeds maximum length of ${MAX_PATTERN_LENGTH}`);
+  }
+  const match = /^\/([\s\S]*)\/([gimsuy]*)$/.exec(pattern);
+  const body = match ? (match[1] as string) : pattern;
+  const flags = match ? (match[2] as string).replace("g", "") : "";
+  try {
+    return new RegExp(body, flags);
+  } catch (error) {
+    throw new Error(`Invalid regex "${pattern}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function checkPattern(pattern: string, expression: string, position: number): void {
+  try {
+    compilePattern(pattern);
+  } catch (error) {
+    throw new TemplateSyntaxError((error as Error).message, expression, position);
+  }
+}
+
+/** Every path in `node`, in source order (for static analysis). */
+export function collectPaths(node: ExpressionNode, paths: PathNode[] = []): PathNode[] {
+  switch (node.type) {
+    case "path":
+      paths.push(node);
+      break;
+    case "list":
+      node.items.forEach((item) => collectPaths(item, paths));
+      break;
+    case "not":
+      collectPaths(node.operand, paths);
+      break;
+    case "logical":
+    case "compare":
+      collectPaths(node.left, paths);
+      collectPaths(node.right, paths);
+      break;
+    case "filter":
+      collectPaths(node.input, paths);
+      node.args.forEach((arg) => collectPaths(arg, paths));
+      break;
+  }
+  return paths;
+}
+
+/** Root names of every path in `node` (for validation). */
+export function collectPathRoots(node: ExpressionNode): Set<string> {
+  return new Set(collectPaths(node).map((path) => path.root));
+}
+
+// ===========================================
+// Evaluator
+// ===========================================
+
+function isNumeric(value: unknown): boolean {
+  if (typeof value === "number") return Number.isFinite(value);
+  return typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value));
+}
+
+function asComparable(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+}
+
+/**
+ * Equality used by `==`, `!=`, `contains` and `in`: numeric when both sides
+ * are numbers (or numeric strings), otherwise by string form, with null and
+ * undefined equal to "".
+ */
+export function looseEquals(left: unknown, right: unknown): boolean {
+  if (isNumeric(left) && isNumeric(right)) return Number(left) === Number(right);
+  return asComparable(left) === asComparable(right);
+}
+
+function contains(haystack: unknown, needle: unknown): boolean {
+  if (haystack === undefined || haystack === null) return false;
+  if (Array.isArray(haystack)) return haystack.some((item) => looseEquals(item, needle));
+  // Own keys only — `in` would also match inherited ones like "toString"
+  if (typeof haystack === "object") return Object.prototype.hasOwnProperty.call(haystack, asComparable(needle));
+  return String(haystack).includes(asComparable(needle));
+}
+
+function compareOrdered(left: unknown, right: unknown, operator: ">" | ">=" | "<" | "<="): boolean {
+  if (left === undefined || left === null || right === undefined || right === null) return false;
+  let diff: number;
+  if (isNumeric(left) && isNumeric(right)) {
+    diff = Number(left) - Number(right);
+  } else {
+    const a = asComparable(left);
+    const b = asComparable(right);
+    diff = a < b ? -1 : a > b ? 1 : 0;
+  }
+  switch (operator) {
+    case ">": return diff > 0;
+    case ">=": return diff >= 0;
+    case "<": return diff < 0;
+    case "<=": return diff <= 0;
+  }
+}
+
+/**
+ * Evaluate a parsed expression. `lookup` resolves paths against the
+ * caller's context and must return undefined for anything missing.
+ */
+export function evaluateExpressionNode(
+  node: ExpressionNode,
+  lookup: (path: PathNode) => unknown,
+): unknown {
+  const evaluate = (n: ExpressionNode): unknown => evaluateExpressionNode(n, lookup);
+
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "path":
+      return lookup(node);
+    case "list":
+      return node.items.map(evaluate);
+    case "not":
+      return !evaluate(node.operand);
+    case "logical": {
+      const left = evaluate(node.left);
+      if (node.operator === "&&") return left ? evaluate(node.right) : left;
+      return left ? left : evaluate(node.right);
+    }
+    case "compare": {
+      const left = evaluate(node.left);
+      const right = evaluate(node.right);
+      switch (node.operator) {
+        case "==": return looseEquals(left, right);
+        case "!=": return !looseEquals(left, right);
+        case "contains": return contains(left, right);
+        case "in": return contains(right, left);
+        case "matches":
+          if (left === undefined || left === null) return false;
+          return compilePattern(asComparable(right)).test(asComparable(left));
+        default:
+          return compareOrdered(left, right, node.operator);
+      }
+    }
+    case "filter": {
+      const filter = TEMPLATE_FILTERS.get(node.name);
+      if (!filter) throw new Error(`Unknown filter "${node.name}"`);
+      return filter.apply(evaluate(node.input), node.args.map(evaluate));
+    }
+  }
+}
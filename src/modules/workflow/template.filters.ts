@@ -0,0 +1,236 @@
+/**
+ * Template Filters
+ *
+ * Pipe filters for template expressions, e.g.
+ * `{{trigger.message.text | lower | truncate:100}}`. Each filter takes the
+ * piped value plus its `:`-separated arguments and must be pure — filters
+ * run on every resolution and never touch I/O.
+ *
+ * @module modules/workflow/template.filters
+ */
+
+export interface TemplateFilter {
+  minArgs: number;
+  maxArgs: number;
+  apply: (value: unknown, args: unknown[]) => unknown;
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+}
+
+function toInteger(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.trunc(n) : fallback;
+}
+
+// ===========================================
+// Dates
+// ===========================================
+
+/** Parse a Date, ISO string or epoch (seconds below 1e11, else milliseconds). */
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  if (typeof value === "number" || (typeof value === "string" && /^\d+$/.test(value))) {
+    const n = Number(value);
+    return new Date(n < 1e11 ? n * 1000 : n);
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+const DATE_TOKEN_REGEX = /YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|SSS|A/g;
+
+/**
+ * Format a date with moment-style tokens (`YYYY-MM-DD HH:mm`), in `timeZone`
+ * (default UTC). Text inside square brackets is kept literally.
+ */
+export function formatDate(date: Date, format: string, timeZone = "UTC"): string {
+  const partsOf = (options: Intl.DateTimeFormatOptions): Record<string, string> => {
+    const parts: Record<string, string> = {};
+    for (const part of new Intl.DateTimeFormat("en-US", { timeZone, ...options }).formatToParts(date)) {
+      parts[part.type] = part.value;
+    }
+    return parts;
+  };
+  const numeric = partsOf({
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    hourCycle: "h23",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  const names = partsOf({ month: "long", weekday: "long" });
+
+  const year = numeric.year ?? "";
+  const month = Number(numeric.month);
+  const day = Number(numeric.day);
+  const hour = Number(numeric.hour) % 24;
+  const hour12 = hour % 12 === 0 ? 12 : hour % 12;
+  const monthName = names.month ?? "";
+  const weekday = names.weekday ?? "";
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+  const tokens: Record<string, string> = {
+    YYYY: year,
+    YY: year.slice(-2),
+    MMMM: monthName,
+    MMM: monthName.slice(0, 3),
+    MM: pad(month),
+    M: String(month),
+    DD: pad(day),
+    D: String(day),
+    dddd: weekday,
+    ddd: weekday.slice(0, 3),
+    HH: pad(hour),
+    H: String(hour),
+    hh: pad(hour12),
+    h: String(hour12),
+    mm: numeric.minute ?? "",
+    ss: numeric.second ?? "",
+    SSS: pad(date.getUTCMilliseconds(), 3),
+    A: hour < 12 ? "AM" : "PM",
+  };
+
+  return format
+    .split(/(\[[^\]]*\])/)
+    .map((chunk) =>
+      chunk.startsWith("[") && chunk.endsWith("]")
+        ? chunk.slice(1, -1)
+        : chunk.replace(DATE_TOKEN_REGEX, (token) => tokens[token] ?? token),
+    )
+    .join("");
+}
+
+// ===========================================
+// Registry
+// ===========================================
+
+const FILTERS: Record<string, TemplateFilter> = {
+  lower: { minArgs: 0, maxArgs: 0, apply: (v) => toText(v).toLowerCase() },
+  upper: { minArgs: 0, maxArgs: 0, apply: (v) => toText(v).toUpperCase() },
+  trim: { minArgs: 0, maxArgs: 0, apply: (v) => toText(v).trim() },
+  capitalize: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: (v) => {
+      const text = toText(v);
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    },
+  },
+  /** `truncate:length[:suffix]` — suffix defaults to "…" and counts toward length */
+  truncate: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: (v, [length, suffix]) => {
+      const text = toText(v);
+      const max = Math.max(0, toInteger(length, text.length));
+      if (text.length <= max) return text;
+      const tail = suffix === undefined ? "…" : toText(suffix);
+      return text.slice(0, Math.max(0, max - tail.length)) + tail;
+    },
+  },
+  replace: {
+    minArgs: 2,
+    maxArgs: 2,
+    apply: (v, [search, replacement]) => toText(v).split(toText(search)).join(toText(replacement)),
+  },
+  split: {
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (v, [separator]) => toText(v).split(separator === undefined ? "," : toText(separator)),
+  },
+  join: {
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (v, [separator]) =>
+      Array.isArray(v) ? v.map(toText).join(separator === undefined ? ", " : toText(separator)) : toText(v),
+  },
+  /** `json[:indent]` */
+  json: {
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (v, [indent]) => {
+      try {
+        return JSON.stringify(v ?? null, null, indent === undefined ? undefined : toInteger(indent, 0));
+      } catch {
+        return toText(v);
+      }
+    },
+  },
+  /** Replace null, undefined and "" with the fallback */
+  default: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: (v, [fallback]) => (v === undefined || v === null || v === "" ? fallback : v),
+  },
+  length: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: (v) => {
+      if (Array.isArray(v) || typeof v === "string") return v.length;
+      if (v && typeof v === "object") return Object.keys(v).length;
+      return 0;
+    },
+  },
+  first: { minArgs: 0, maxArgs: 0, apply: (v) => (Array.isArray(v) ? v[0] : toText(v).charAt(0)) },
+  last: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: (v) => (Array.isArray(v) ? v[v.length - 1] : toText(v).slice(-1)),
+  },
+  number: {
+    minArgs: 0,
+    maxArgs: 0,
+    apply: (v) => {
+      const n = Number(v);
+      return Number.isFinite(n) ? n : null;
+    },
+  },
+  /** `round[:digits]` */
+  round: {
+    minArgs: 0,
+    maxArgs: 1,
+    apply: (v, [digits]) => {
+      const n = Number(v);
+      if (!Number.isFinite(n)) return null;
+      const factor = 10 ** Math.min(10, Math.max(0, toInteger(digits, 0)));
+      return Math.round(n * factor) / factor;
+    },
+  },
+  urlencode: { minArgs: 0, maxArgs: 0, apply: (v) => encodeURIComponent(toText(v)) },
+  /**
+   * `date[:format[:timeZone]]` — moment-style tokens; without a format the
+   * ISO-8601 string. Unparseable values become "".
+   */
+  date: {
+    minArgs: 0,
+    maxArgs: 2,
+    apply: (v, [format, timeZone]) => {
+      const date = toDate(v);
+      if (!date) return "";
+      if (format === undefined) return date.toISOString();
+      try {
+        return formatDate(date, toText(format), timeZone === undefined ? "UTC" : toText(timeZone));
+      } catch {
+        throw new Error(`Unknown timezone for date filter: ${toText(timeZone)}`);
+      }
+    },
+  },
+};
+
+/** Filters by name. A Map, so names like "constructor" never resolve. */
+export const TEMPLATE_FILTERS: ReadonlyMap<string, TemplateFilter> = new Map(Object.entries(FILTERS));
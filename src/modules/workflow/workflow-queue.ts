@@ -5,13 +5,22 @@
  * the workflow executor so runs can be processed by horizontally scalable
  * worker containers with retries, backoff, and a dead-letter queue.
  *
- * The queue is OPT-IN: code that wants async execution calls
- * `enqueueWorkflowRun(...)`. Existing inline callers (`executeWorkflow` in
- * `workflow.executor.ts`) are unchanged. This makes the migration from inline
- * to queued execution a deployment-time switch with no API surface change.
+ * Trigger sites opt in per call: `enqueueWorkflowRun(...)` queues a run,
+ * while inline callers of `executeWorkflow` in `workflow.executor.ts` keep
+ * running in the calling process.
+ *
+ * Runs paused by delay / wait-until steps are resumed through the same
+ * queue with delayed jobs (`enqueueWorkflowResume`).
+ *
+ * Runs of a workflow with a concurrency key are always queued
+ * (`enqueueKeyedWorkflowRun`) so the worker can run each key's runs in
+ * order — see `workflow.concurrency.ts`.
+ *
+ * Keyed runs and resumes therefore need a worker consuming the queue. The
+ * API server runs one in-process unless WORKFLOW_WORKER_EMBEDDED=false, for
+ * deployments that run dedicated workers (`scripts/start-workflow-worker.ts`).
  *
  * Configuration:
- *   WORKFLOW_QUEUE_ENABLED       enable/disable lazy initialisation (default: false)
  *   WORKFLOW_QUEUE_NAME          BullMQ queue name (default: "workflow-runs")
  *   WORKFLOW_QUEUE_ATTEMPTS      job retry count (default: 3)
  *   WORKFLOW_QUEUE_BACKOFF_MS    initial backoff delay in ms (default: 5000)
@@ -24,6 +33,8 @@ import { Queue, type ConnectionOptions, type JobsOptions } from "bullmq";
 
 import { logger } from "@/lib/logger";
 
+import { releaseTicket, takeTicket, type ConcurrencyTicket } from "./workflow.concurrency";
+
 const queueLogger = logger.child({ module: "workflow-queue" });
 
 /**
@@ -37,6 +48,16 @@ export interface WorkflowJobData {
   triggerData: unknown;
   options?: { dryRun?: boolean; captureLogs?: boolean; allowDraft?: boolean };
   idempotencyKey?: string;
+  /** Set on resume jobs: continue this waiting run instead of starting one. */
+  resumeRunId?: string;
+  /**
+   * ISO time the resume job was scheduled for. A run resumed early (by a
+   * chat reply) and paused again has a different `resumeAt`, so the stale
+   * job is ignored.
+   */
+  resumeAt?: string;
+  /** Set on keyed runs: the worker starts the run when its ticket is up. */
+  concurrency?: ConcurrencyTicket;
 }
 
 export interface WorkflowJobResult {
@@ -121,7 +142,9 @@ export async function enqueueWorkflowRun(
 ): Promise<{ jobId: string }> {
   const queue = getWorkflowQueue();
   const jobOpts: JobsOptions = { ...defaultJobOptions(), ...opts };
-  if (data.idempotencyKey && !jobOpts.jobId) {
+  // Keyed runs hold a ticket, so a deduplicated add would stall the key —
+  // the executor's idempotency guard still drops the duplicate run.
+  if (data.idempotencyKey && !jobOpts.jobId && !data.concurrency) {
     jobOpts.jobId = `wf:${data.idempotencyKey}`;
   }
 
@@ -143,6 +166,52 @@ export async function enqueueWorkflowRun(
   return { jobId: job.id };
 }
 
+/**
+ * Enqueue a run that must wait for earlier runs with the same concurrency
+ * key. The ticket is taken here, so runs start in the order they were
+ * enqueued. Keyed runs are not retried — a failed run releases the key
+ * instead of holding up the runs behind it.
+ */
+export async function enqueueKeyedWorkflowRun(
+  data: Omit<WorkflowJobData, "concurrency" | "resumeRunId" | "resumeAt">,
+  key: string
+): Promise<{ jobId: string }> {
+  const ticket = await takeTicket(data.workflowId, key);
+  try {
+    return await enqueueWorkflowRun({ ...data, concurrency: { key, ticket } }, { attempts: 1 });
+  } catch (err) {
+    // No job will ever release this ticket — give it back so later runs aren't held up
+    await releaseTicket(data.workflowId, { key, ticket });
+    throw err;
+  }
+}
+
+/**
+ * Schedule a waiting run (delay / wait step) to resume at `resumeAt`
+ * via a BullMQ delayed job. Delayed jobs live in Redis, so the wait
+ * survives API and worker restarts.
+ *
+ * The jobId is derived from the run and resume time: re-scheduling the
+ * same wait (e.g. the startup sweep in `requeueWaitingRuns`) is a no-op,
+ * while a later wait in the same run gets a fresh job.
+ */
+export async function enqueueWorkflowResume(
+  data: { workflowId: string; runId: string; resumeAt: Date }
+): Promise<{ jobId: string }> {
+  const delay = Math.max(0, data.resumeAt.getTime() - Date.now());
+  const { jobId } = await enqueueWorkflowRun(
+    {
+      workflowId: data.workflowId,
+      triggeredBy: "resume",
+      triggerData: null,
+      resumeRunId: data.runId,
+      resumeAt: data.resumeAt.toISOString(),
+    },
+    { delay, jobId: `wf-resume-${data.runId}-${data.resumeAt.getTime()}` }
+  );
+  return { jobId };
+}
+
 /**
  * Close the queue connection. Call from process-shutdown hooks; otherwise the
  * Node process won't exit because BullMQ keeps a Redis connection open.
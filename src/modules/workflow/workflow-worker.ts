@@ -11,13 +11,17 @@
  * (for `WorkflowRun` rows) and Redis (for the BullMQ queue + bridge
  * dispatch) so this is a single-process unit of work.
  *
+ * Keyed runs (see `workflow.concurrency.ts`) start only when their ticket is
+ * up; until then the job goes back to the queue as a delayed job, which
+ * doesn't count as an attempt.
+ *
  * Configuration:
  *   WORKFLOW_WORKER_CONCURRENCY  number of jobs processed in parallel (default: 5)
  *
  * @module modules/workflow/workflow-worker
  */
 
-import { Worker, type WorkerOptions } from "bullmq";
+import { DelayedError, Worker, type Job, type WorkerOptions } from "bullmq";
 
 import { logger } from "@/lib/logger";
 import {
@@ -25,7 +29,8 @@ import {
     workflowRunsTotal,
 } from "@/lib/metrics";
 
-import { executeWorkflow } from "./workflow.executor";
+import { isTicketTurn, releaseTicket } from "./workflow.concurrency";
+import { executeWorkflow, resumeWorkflowRun } from "./workflow.executor";
 import {
     WORKFLOW_QUEUE_NAME,
     buildQueueConnection,
@@ -35,13 +40,23 @@ import {
 
 const workerLogger = logger.child({ module: "workflow-worker" });
 
+/** How long a keyed run waits before checking its turn again */
+const KEY_TURN_POLL_MS = 500;
+
 /**
  * Process a single queued workflow run by calling the existing executor.
- * Exported separately for unit testing.
+ * Resume jobs continue a waiting run instead. A keyed run hands its key to
+ * the next run when it ends, whatever the outcome. Exported separately for
+ * unit testing.
  */
 export async function processWorkflowJob(
   data: WorkflowJobData
 ): Promise<WorkflowJobResult> {
+  if (data.resumeRunId) {
+    const resumeAt = data.resumeAt ? new Date(data.resumeAt) : undefined;
+    return { runId: await resumeWorkflowRun(data.resumeRunId, resumeAt) };
+  }
+
   const start = Date.now();
   try {
     const runId = await executeWorkflow(
@@ -58,7 +73,30 @@ export async function processWorkflowJob(
     workflowRunsTotal.inc({ status: "failure", trigger: data.triggeredBy });
     workflowRunDurationMs.observe({ status: "failure" }, Date.now() - start);
     throw err;
+  } finally {
+    if (data.concurrency) await releaseTicket(data.workflowId, data.concurrency);
+  }
+}
+
+/**
+ * Put a keyed run whose ticket isn't up back in the queue. Returns false
+ * when the run may start. If the turn can't be checked (Redis down), the
+ * run starts rather than waiting indefinitely.
+ */
+async function deferUntilTurn(
+  job: Job<WorkflowJobData, WorkflowJobResult>,
+  token: string | undefined
+): Promise<boolean> {
+  const { concurrency, workflowId } = job.data;
+  if (!concurrency) return false;
+  try {
+    if (await isTicketTurn(workflowId, concurrency)) return false;
+  } catch (err) {
+    workerLogger.warn({ err, jobId: job.id, workflowId }, "Could not check concurrency key turn — running now");
+    return false;
   }
+  await job.moveToDelayed(Date.now() + KEY_TURN_POLL_MS, token);
+  return true;
 }
 
 /**
@@ -77,7 +115,13 @@ export function createWorkflowWorker(
 
   const worker = new Worker<WorkflowJobData, WorkflowJobResult>(
     WORKFLOW_QUEUE_NAME,
-    async (job) => processWorkflowJob(job.data),
+    async (job, token) => {
+      if (await deferUntilTurn(job, token)) {
+        // Tells BullMQ the job was moved to delayed, not completed
+        throw new DelayedError();
+      }
+      return processWorkflowJob(job.data);
+    },
     {
       connection: buildQueueConnection(),
       concurrency,
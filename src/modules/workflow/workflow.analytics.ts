@@ -0,0 +1,591 @@
+/**
+ * Workflow Analytics
+ *
+ * Latency percentiles, failure rates, run volume and AI credit cost per
+ * workflow and per step, by UTC day.
+ *
+ * Raw `WorkflowRun` / `WorkflowStepRun` rows only live for the plan's
+ * retention window, so finished days are rolled up into
+ * `WorkflowDailyStats` rows (one for whole runs, one per step). The
+ * analytics cron rewrites the last `ANALYTICS_ROLLUP_DAYS` days every hour;
+ * a run that ends after that (delays and waits can last 30 days) re-rolls
+ * its own day when it ends (`rollUpLateRun`). Queries read rollups for the
+ * days that have them and aggregate raw rows for the rest (today, or days
+ * the cron hasn't reached yet).
+ *
+ * Durations are counted into fixed buckets so percentiles can be merged
+ * across days; they are estimated by interpolating within a bucket.
+ * Credits come from `AIUsage` rows tagged with the run and step.
+ *
+ * @module modules/workflow/workflow.analytics
+ */
+
+import type { Prisma } from "@prisma/client";
+
+import { logger } from "@/lib/logger";
+import { prisma } from "@/lib/prisma";
+
+import type { WorkflowAnalytics, WorkflowDurationStats, WorkflowStepAnalytics } from "./workflow.types";
+
+const analyticsLogger = logger.child({ module: "workflow-analytics" });
+
+/** Upper bounds of the duration buckets; a last, open-ended bucket follows */
+export const ANALYTICS_DURATION_BUCKETS_MS = [
+  50, 100, 250, 500, 1_000, 2_500, 5_000, 10_000, 30_000, 60_000, 300_000,
+];
+
+/** Days the analytics cron re-aggregates; runs ending later re-roll their own day */
+export const ANALYTICS_ROLLUP_DAYS = 3;
+
+/** Longest range a query covers */
+export const MAX_ANALYTICS_DAYS = 90;
+
+/** Distinct error messages kept per row */
+const MAX_ERROR_MESSAGES = 20;
+
+const MAX_ERROR_LENGTH = 200;
+
+const RAW_BATCH_SIZE = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Run statuses counted; running and waiting runs are counted once they end */
+const FINISHED_RUN_STATUSES = ["completed", "failed", "cancelled"];
+
+const FINISHED_STEP_STATUSES = new Set(["completed", "failed"]);
+
+/** Counters for a set of executions (runs or runs of one step) */
+export interface ExecutionStats {
+  count: number;
+  failed: number;
+  totalDurationMs: number;
+  durationBuckets: number[];
+  /** Error message → occurrences */
+  errors: Record<string, number>;
+  creditsUsed: number;
+}
+
+export interface StepExecutionStats extends ExecutionStats {
+  stepOrder: number | null;
+}
+
+/** One UTC day of a workflow: whole runs, and each step by id */
+export interface DayStats {
+  run: ExecutionStats;
+  steps: Map<string, StepExecutionStats>;
+}
+
+/** Raw run as loaded for aggregation */
+export interface AnalyticsRun {
+  id: string;
+  status: string;
+  startedAt: Date;
+  durationMs: number | null;
+  error: string | null;
+  stepRuns: Array<{
+    stepId: string | null;
+    stepOrder: number;
+    status: string;
+    durationMs: number | null;
+    error: string | null;
+  }>;
+}
+
+/** Credits a run spent, summed per step (`workflowStepOrder` null = unknown step) */
+export interface AnalyticsRunCredits {
+  workflowRunId: string | null;
+  workflowStepOrder: number | null;
+  creditsUsed: number;
+}
+
+// ===========================================
+// Counters
+// ===========================================
+
+export function emptyStats(): ExecutionStats {
+  return {
+    count: 0,
+    failed: 0,
+    totalDurationMs: 0,
+    durationBuckets: new Array<number>(ANALYTICS_DURATION_BUCKETS_MS.length + 1).fill(0),
+    errors: {},
+    creditsUsed: 0,
+  };
+}
+
+function recordExecution(
+  stats: ExecutionStats,
+  durationMs: number | null,
+  error: string | null | undefined,
+  failed: boolean,
+): void {
+  stats.count++;
+  if (failed) {
+    stats.failed++;
+    const message = normalizeError(error);
+    stats.errors[message] = (stats.errors[message] ?? 0) + 1;
+  }
+  if (durationMs !== null && durationMs >= 0) {
+    stats.totalDurationMs += durationMs;
+    const bucket = ANALYTICS_DURATION_BUCKETS_MS.findIndex((bound) => durationMs <= bound);
+    const index = bucket === -1 ? ANALYTICS_DURATION_BUCKETS_MS.length : bucket;
+    stats.durationBuckets[index] = (stats.durationBuckets[index] ?? 0) + 1;
+  }
+}
+
+/** Add `from` into `into`. */
+export function mergeStats(into: ExecutionStats, from: ExecutionStats): void {
+  into.count += from.count;
+  into.failed += from.failed;
+  into.totalDurationMs += from.totalDurationMs;
+  from.durationBuckets.forEach((n, i) => {
+    if (i < into.durationBuckets.length) into.durationBuckets[i] = (into.durationBuckets[i] ?? 0) + n;
+  });
+  for (const [message, n] of Object.entries(from.errors)) {
+    into.errors[message] = (into.errors[message] ?? 0) + n;
+  }
+  into.creditsUsed += from.creditsUsed;
+}
+
+/** Error messages are grouped by their first line. */
+function normalizeError(error: string | null | undefined): string {
+  const line = (error ?? "").split("\n", 1)[0]?.trim();
+  if (!line) return "Unknown error";
+  return line.length > MAX_ERROR_LENGTH ? `${line.slice(0, MAX_ERROR_LENGTH)}…` : line;
+}
+
+/** The most frequent messages, most frequent first. */
+function topErrors(errors: Record<string, number>, limit = MAX_ERROR_MESSAGES): Array<{ message: string; count: number }> {
+  return Object.entries(errors)
+    .map(([message, count]) => ({ message, count }))
+    .sort((a, b) => b.count - a.count || a.message.localeCompare(b.message))
+    .slice(0, limit);
+}
+
+/**
+ * Estimate a duration percentile from bucket counts, interpolating
+ * linearly inside the bucket it falls in. The open-ended last bucket
+ * reports its lower bound.
+ *
+ * @param q - Quantile between 0 and 1
+ * @returns Milliseconds, or null when there are no samples
+ */
+export function durationPercentile(buckets: number[], q: number): number | null {
+  const total = buckets.reduce((sum, n) => sum + n, 0);
+  if (total === 0) return null;
+  const rank = q * total;
+  const last = ANALYTICS_DURATION_BUCKETS_MS[ANALYTICS_DURATION_BUCKETS_MS.length - 1] ?? 0;
+  let seen = 0;
+  for (const [i, n] of buckets.entries()) {
+    if (n === 0) continue;
+    if (seen + n >= rank) {
+      const lower = i === 0 ? 0 : ANALYTICS_DURATION_BUCKETS_MS[i - 1] ?? last;
+      const upper = ANALYTICS_DURATION_BUCKETS_MS[i] ?? lower;
+      return Math.round(lower + (upper - lower) * ((rank - seen) / n));
+    }
+    seen += n;
+  }
+  return last;
+}
+
+function durationStats(stats: ExecutionStats): WorkflowDurationStats {
+  const timed = stats.durationBuckets.reduce((sum, n) => sum + n, 0);
+  return {
+    avg: timed > 0 ? Math.round(stats.totalDurationMs / timed) : null,
+    p50: durationPercentile(stats.durationBuckets, 0.5),
+    p95: durationPercentile(stats.durationBuckets, 0.95),
+    p99: durationPercentile(stats.durationBuckets, 0.99),
+  };
+}
+
+// ===========================================
+// Aggregation
+// ===========================================
+
+export function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function dayStart(key: string): Date {
+  return new Date(`${key}T00:00:00.000Z`);
+}
+
+function stepKey(stepId: string | null, stepOrder: number): string {
+  return stepId ?? `#${stepOrder}`;
+}
+
+function getDay(days: Map<string, DayStats>, key: string): DayStats {
+  let day = days.get(key);
+  if (!day) {
+    day = { run: emptyStats(), steps: new Map() };
+    days.set(key, day);
+  }
+  return day;
+}
+
+function getStep(day: DayStats, key: string, stepOrder: number | null): StepExecutionStats {
+  let step = day.steps.get(key);
+  if (!step) {
+    step = { ...emptyStats(), stepOrder };
+    day.steps.set(key, step);
+  }
+  return step;
+}
+
+/**
+ * Count finished runs and their step runs into `days` (keyed by the UTC
+ * day each run started), with the credits they spent.
+ */
+export function aggregateRuns(
+  days: Map<string, DayStats>,
+  runs: AnalyticsRun[],
+  credits: AnalyticsRunCredits[],
+): void {
+  const byRun = new Map<string, AnalyticsRunCredits[]>();
+  for (const row of credits) {
+    if (!row.workflowRunId) continue;
+    const rows = byRun.get(row.workflowRunId) ?? [];
+    rows.push(row);
+    byRun.set(row.workflowRunId, rows);
+  }
+
+  for (const run of runs) {
+    const day = getDay(days, toDayKey(run.startedAt));
+    recordExecution(day.run, run.durationMs, run.error, run.status !== "completed");
+
+    const keyByOrder = new Map<number, string>();
+    for (const sr of run.stepRuns) {
+      const key = stepKey(sr.stepId, sr.stepOrder);
+      keyByOrder.set(sr.stepOrder, key);
+      if (!FINISHED_STEP_STATUSES.has(sr.status)) continue;
+      recordExecution(getStep(day, key, sr.stepOrder), sr.durationMs, sr.error, sr.status === "failed");
+    }
+
+    for (const row of byRun.get(run.id) ?? []) {
+      day.run.creditsUsed += row.creditsUsed;
+      if (row.workflowStepOrder === null) continue;
+      const key = keyByOrder.get(row.workflowStepOrder) ?? stepKey(null, row.workflowStepOrder);
+      getStep(day, key, row.workflowStepOrder).creditsUsed += row.creditsUsed;
+    }
+  }
+}
+
+/**
+ * Analytics response for `days`, oldest day `from`, newest `to`.
+ *
+ * @param steps - The workflow's current steps by id, for names
+ */
+export function summarizeAnalytics(
+  days: Map<string, DayStats>,
+  from: string,
+  to: string,
+  steps: Map<string, { name: string | null; order: number; pluginSlug?: string }>,
+  pluginSlugs: Map<string, string> = new Map(),
+): WorkflowAnalytics {
+  const run = emptyStats();
+  const byStep = new Map<string, StepExecutionStats>();
+  const volume: WorkflowAnalytics["volume"] = [];
+
+  for (let t = dayStart(from).getTime(); t <= dayStart(to).getTime(); t += DAY_MS) {
+    const key = toDayKey(new Date(t));
+    const day = days.get(key);
+    volume.push({ date: key, runs: day?.run.count ?? 0, failed: day?.run.failed ?? 0 });
+    if (!day) continue;
+    mergeStats(run, day.run);
+    for (const [id, stats] of day.steps) {
+      const total = byStep.get(id) ?? { ...emptyStats(), stepOrder: stats.stepOrder };
+      mergeStats(total, stats);
+      byStep.set(id, total);
+    }
+  }
+
+  const stepRows: WorkflowStepAnalytics[] = [...byStep].map(([stepId, stats]) => {
+    const current = steps.get(stepId);
+    return {
+      stepId,
+      stepOrder: current?.order ?? stats.stepOrder,
+      stepName: current?.name ?? undefined,
+      pluginSlug: current?.pluginSlug ?? pluginSlugs.get(stepId),
+      executions: stats.count,
+      failed: stats.failed,
+      errorRate: stats.count > 0 ? stats.failed / stats.count : 0,
+      durationMs: durationStats(stats),
+      creditsUsed: stats.creditsUsed,
+      errors: topErrors(stats.errors, 5),
+    };
+  });
+  stepRows.sort((a, b) => (b.durationMs.p95 ?? -1) - (a.durationMs.p95 ?? -1));
+
+  return {
+    from,
+    to,
+    runs: {
+      total: run.count,
+      failed: run.failed,
+      errorRate: run.count > 0 ? run.failed / run.count : 0,
+      durationMs: durationStats(run),
+      creditsUsed: run.creditsUsed,
+      creditsPerRun: run.count > 0 ? run.creditsUsed / run.count : 0,
+    },
+    volume,
+    steps: stepRows,
+    errors: topErrors(run.errors, 10),
+  };
+}
+
+// ===========================================
+// Loading
+// ===========================================
+
+const ANALYTICS_RUN_SELECT = {
+  id: true,
+  status: true,
+  startedAt: true,
+  durationMs: true,
+  error: true,
+  stepRuns: {
+    select: { stepId: true, stepOrder: true, status: true, durationMs: true, error: true },
+  },
+} satisfies Prisma.WorkflowRunSelect;
+
+/** Aggregate the raw runs of a workflow that started in [start, end). */
+async function aggregateRawRuns(
+  days: Map<string, DayStats>,
+  workflowId: string,
+  start: Date,
+  end: Date,
+): Promise<void> {
+  let cursor: string | undefined;
+  for (;;) {
+    const runs: AnalyticsRun[] = await prisma.workflowRun.findMany({
+      where: {
+        workflowId,
+        startedAt: { gte: start, lt: end },
+        status: { in: FINISHED_RUN_STATUSES },
+      },
+      select: ANALYTICS_RUN_SELECT,
+      orderBy: { id: "asc" },
+      take: RAW_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    if (runs.length === 0) break;
+
+    const credits = await prisma.aIUsage.groupBy({
+      by: ["workflowRunId", "workflowStepOrder"],
+      where: { workflowRunId: { in: runs.map((r) => r.id) } },
+      _sum: { creditsUsed: true },
+    });
+    aggregateRuns(
+      days,
+      runs,
+      credits.map((row) => ({
+        workflowRunId: row.workflowRunId,
+        workflowStepOrder: row.workflowStepOrder,
+        creditsUsed: row._sum.creditsUsed ?? 0,
+      })),
+    );
+
+    if (runs.length < RAW_BATCH_SIZE) break;
+    cursor = runs[runs.length - 1]?.id;
+  }
+}
+
+function readErrors(stored: Prisma.JsonValue): Record<string, number> {
+  const errors: Record<string, number> = {};
+  if (stored && typeof stored === "object" && !Array.isArray(stored)) {
+    for (const [message, n] of Object.entries(stored)) {
+      if (typeof n === "number") errors[message] = n;
+    }
+  }
+  return errors;
+}
+
+/** Consecutive day keys grouped into [start, end) ranges. */
+function toRanges(keys: string[]): Array<{ start: Date; end: Date }> {
+  const ranges: Array<{ start: Date; end: Date }> = [];
+  for (const key of keys) {
+    const start = dayStart(key);
+    const last = ranges[ranges.length - 1];
+    if (last && last.end.getTime() === start.getTime()) {
+      last.end = new Date(start.getTime() + DAY_MS);
+    } else {
+      ranges.push({ start, end: new Date(start.getTime() + DAY_MS) });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Analytics for the last `days` UTC days of a workflow, today included.
+ * The caller checks access.
+ */
+export async function getWorkflowAnalytics(
+  workflowId: string,
+  days: number,
+  now: Date = new Date(),
+): Promise<WorkflowAnalytics> {
+  const span = Math.min(Math.max(Math.trunc(days), 1), MAX_ANALYTICS_DAYS);
+  const to = toDayKey(now);
+  const from = toDayKey(new Date(dayStart(to).getTime() - (span - 1) * DAY_MS));
+
+  const [rollups, steps] = await Promise.all([
+    prisma.workflowDailyStats.findMany({
+      where: { workflowId, day: { gte: dayStart(from), lt: dayStart(to) } },
+    }),
+    prisma.workflowStep.findMany({
+      where: { workflowId },
+      select: { id: true, name: true, order: true, plugin: { select: { slug: true } } },
+    }),
+  ]);
+
+  const stats = new Map<string, DayStats>();
+  const pluginSlugs = new Map<string, string>();
+  for (const row of rollups) {
+    const day = getDay(stats, toDayKey(row.day));
+    const rowStats: ExecutionStats = {
+      count: row.count,
+      failed: row.failed,
+      totalDurationMs: row.totalDurationMs,
+      durationBuckets: row.durationBuckets,
+      errors: readErrors(row.errors),
+      creditsUsed: row.creditsUsed,
+    };
+    if (row.stepId === "") {
+      mergeStats(day.run, rowStats);
+    } else {
+      mergeStats(getStep(day, row.stepId, row.stepOrder), rowStats);
+      if (row.pluginSlug) pluginSlugs.set(row.stepId, row.pluginSlug);
+    }
+  }
+
+  // Today, and earlier days without a rollup yet, come from the raw rows
+  const rawDays: string[] = [];
+  for (let t = dayStart(from).getTime(); t <= dayStart(to).getTime(); t += DAY_MS) {
+    const key = toDayKey(new Date(t));
+    if (!stats.has(key)) rawDays.push(key);
+  }
+  for (const range of toRanges(rawDays)) {
+    await aggregateRawRuns(stats, workflowId, range.start, range.end);
+  }
+
+  return summarizeAnalytics(
+    stats,
+    from,
+    to,
+    new Map(steps.map((s) => [s.id, { name: s.name, order: s.order, pluginSlug: s.plugin.slug }])),
+    pluginSlugs,
+  );
+}
+
+/**
+ * Re-aggregate one UTC day of every workflow that ran that day into
+ * `WorkflowDailyStats`, replacing earlier rollups of the day.
+ *
+ * @returns Number of workflows rolled up
+ */
+export async function rollUpWorkflowStats(day: Date): Promise<number> {
+  const start = dayStart(toDayKey(day));
+  const end = new Date(start.getTime() + DAY_MS);
+
+  const workflows = await prisma.workflowRun.findMany({
+    where: { startedAt: { gte: start, lt: end } },
+    distinct: ["workflowId"],
+    select: { workflowId: true },
+  });
+
+  let rolledUp = 0;
+  for (const { workflowId } of workflows) {
+    if (await rollUpWorkflowDay(workflowId, day)) rolledUp++;
+  }
+  return rolledUp;
+}
+
+/** Rewrite one workflow's rollup rows for one UTC day; false when it failed. */
+async function rollUpWorkflowDay(workflowId: string, day: Date): Promise<boolean> {
+  const key = toDayKey(day);
+  const start = dayStart(key);
+  const end = new Date(start.getTime() + DAY_MS);
+  try {
+    const days = new Map<string, DayStats>();
+    await aggregateRawRuns(days, workflowId, start, end);
+    const stats = days.get(key);
+
+    const steps = await prisma.workflowStep.findMany({
+      where: { workflowId },
+      select: { id: true, plugin: { select: { slug: true } } },
+    });
+    const slugs = new Map(steps.map((s) => [s.id, s.plugin.slug]));
+
+    const rows: Prisma.WorkflowDailyStatsCreateManyInput[] = stats
+      ? [
+          { workflowId, day: start, stepId: "", ...toRow(stats.run) },
+          ...[...stats.steps].map(([stepId, step]) => ({
+            workflowId,
+            day: start,
+            stepId,
+            stepOrder: step.stepOrder,
+            pluginSlug: slugs.get(stepId) ?? null,
+            ...toRow(step),
+          })),
+        ]
+      : [];
+
+    await prisma.$transaction([
+      prisma.workflowDailyStats.deleteMany({ where: { workflowId, day: start } }),
+      prisma.workflowDailyStats.createMany({ data: rows }),
+    ]);
+    return true;
+  } catch (err) {
+    analyticsLogger.error({ err, workflowId, day: key }, "Failed to roll up workflow stats");
+    return false;
+  }
+}
+
+/**
+ * Re-roll the day a run started on when the run ends after the cron
+ * stopped rewriting that day, so runs that waited for days are counted.
+ * No-op for runs whose day the cron will still rewrite at its next tick
+ * (the oldest day in the window may drop out first, so it re-rolls too).
+ * Never throws.
+ */
+export async function rollUpLateRun(run: { workflowId: string; startedAt: Date }, now = new Date()): Promise<void> {
+  const today = dayStart(toDayKey(now));
+  const oldestKeptDay = new Date(today.getTime() - (ANALYTICS_ROLLUP_DAYS - 1) * DAY_MS);
+  if (run.startedAt >= oldestKeptDay) return;
+  await rollUpWorkflowDay(run.workflowId, run.startedAt);
+}
+
+function toRow(stats: ExecutionStats) {
+  return {
+    count: stats.count,
+    failed: stats.failed,
+    totalDurationMs: stats.totalDurationMs,
+    durationBuckets: stats.durationBuckets,
+    errors: Object.fromEntries(topErrors(stats.errors).map((e) => [e.message, e.count])),
+    creditsUsed: stats.creditsUsed,
+  };
+}
+
+/**
+ * 2Bot AI credits one run spent, in total and per step.
+ */
+export async function getRunCredits(
+  runId: string,
+): Promise<{ creditsUsed: number; stepCredits: Array<{ stepOrder: number; creditsUsed: number }> }> {
+  const rows = await prisma.aIUsage.groupBy({
+    by: ["workflowStepOrder"],
+    where: { workflowRunId: runId },
+    _sum: { creditsUsed: true },
+  });
+  let creditsUsed = 0;
+  const stepCredits: Array<{ stepOrder: number; creditsUsed: number }> = [];
+  for (const row of rows) {
+    const credits = row._sum.creditsUsed ?? 0;
+    creditsUsed += credits;
+    if (row.workflowStepOrder !== null && credits > 0) {
+      stepCredits.push({ stepOrder: row.workflowStepOrder, creditsUsed: credits });
+    }
+  }
+  stepCredits.sort((a, b) => a.stepOrder - b.stepOrder);
+  return { creditsUsed, stepCredits };
+}
@@ -0,0 +1,94 @@
+/**
+ * Step Retry Policy
+ *
+ * Backoff and error classification for steps with `onError: "retry"`.
+ * `WorkflowStep.maxRetries` caps the attempts; `WorkflowStep.retryPolicy`
+ * shapes the delay between them and which failures are worth retrying.
+ * Steps without a policy use `DEFAULT_RETRY_POLICY`, which retries every
+ * failure — the behaviour from before policies existed.
+ *
+ * @module modules/workflow/workflow.backoff
+ */
+
+import { PluginCircuitOpenError } from "@/modules/plugin/plugin-circuit";
+import { PluginTimeoutError } from "@/modules/plugin/plugin.interface";
+
+/** Failure categories a retry policy can opt in to. */
+export const STEP_ERROR_CLASSES = ["timeout", "network", "rate_limit", "server", "circuit_open", "plugin"] as const;
+
+export type StepErrorClass = (typeof STEP_ERROR_CLASSES)[number];
+
+/** `WorkflowStep.retryPolicy` */
+export interface StepRetryPolicy {
+  /** Delay before the first retry */
+  initialDelayMs: number;
+  /** Factor applied to the delay after each retry */
+  multiplier: number;
+  /** Upper bound for any single delay */
+  maxDelayMs: number;
+  /** Randomise each delay between half and all of its value */
+  jitter: boolean;
+  /** Failures that are retried; anything else fails the step at once */
+  retryOn: StepErrorClass[];
+}
+
+export const DEFAULT_RETRY_POLICY: StepRetryPolicy = {
+  initialDelayMs: 1_000,
+  multiplier: 2,
+  maxDelayMs: 10_000,
+  jitter: true,
+  retryOn: [...STEP_ERROR_CLASSES],
+};
+
+/** A step's plugin call ran past its timeout and was aborted. */
+export class StepTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Step execution timed out after ${timeoutMs}ms`);
+    this.name = "StepTimeoutError";
+  }
+}
+
+/** Fill the gaps in a stored policy (null / partial) from the defaults. */
+export function resolveRetryPolicy(stored: unknown): StepRetryPolicy {
+  const policy = (stored && typeof stored === "object" ? stored : {}) as Partial<StepRetryPolicy>;
+  return {
+    initialDelayMs: policy.initialDelayMs ?? DEFAULT_RETRY_POLICY.initialDelayMs,
+    multiplier: policy.multiplier ?? DEFAULT_RETRY_POLICY.multiplier,
+    maxDelayMs: policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    jitter: policy.jitter ?? DEFAULT_RETRY_POLICY.jitter,
+    retryOn: Array.isArray(policy.retryOn) ? policy.retryOn : DEFAULT_RETRY_POLICY.retryOn,
+  };
+}
+
+/**
+ * Delay before retry number `retry` (1-based):
+ * `initialDelayMs * multiplier^(retry - 1)`, capped at `maxDelayMs`.
+ */
+export function computeRetryDelay(
+  policy: StepRetryPolicy,
+  retry: number,
+  random: () => number = Math.random,
+): number {
+  const delay = Math.min(policy.initialDelayMs * policy.multiplier ** (retry - 1), policy.maxDelayMs);
+  return Math.round(policy.jitter ? delay / 2 + random() * (delay / 2) : delay);
+}
+
+/**
+ * Put a step failure — a thrown error or the error a plugin returned — in
+ * a retry class. Plugin results only carry a message, so most of this
+ * matches on message text.
+ */
+export function classifyStepError(error: unknown): StepErrorClass {
+  if (error instanceof StepTimeoutError || error instanceof PluginTimeoutError) return "timeout";
+  if (error instanceof PluginCircuitOpenError) return "circuit_open";
+
+  const message = error instanceof Error ? error.message : String(error ?? "");
+  if (/circuit is open/i.test(message)) return "circuit_open";
+  if (/timed out|timeout/i.test(message)) return "timeout";
+  if (/\b429\b|rate.?limit|too many requests/i.test(message)) return "rate_limit";
+  if (/ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|fetch failed|network/i.test(message)) {
+    return "network";
+  }
+  if (/\b5\d\d\b|internal server error|bad gateway|service unavailable/i.test(message)) return "server";
+  return "plugin";
+}
@@ -0,0 +1,61 @@
+/**
+ * Workflow Branching
+ *
+ * Port-aware reachability for graph workflows. A step runs when at least
+ * one of its incoming edges is live:
+ *   - edges from the trigger are always live;
+ *   - an edge from an ordinary step is live unless that step was itself
+ *     skipped as unreachable (skipped-by-condition / disabled / failed with
+ *     onError=continue steps keep their edges live, as before);
+ *   - an edge from a router step is live only if the router completed and
+ *     emitted on the edge's `sourcePort`.
+ *
+ * Steps with no incoming edges are always reachable. Unreachable steps
+ * are skipped and make their own outgoing edges dead, so an untaken branch
+ * is skipped all the way down until it joins a live path again.
+ *
+ * @module modules/workflow/workflow.branching
+ */
+
+export interface BranchEdge {
+  sourceStepId: string | null;
+  targetStepId: string;
+  sourcePort: string;
+}
+
+export interface BranchState {
+  /** Step IDs of router steps (plugins with named output ports). */
+  routers: ReadonlySet<string>;
+  /** Ports each completed router emitted on. */
+  emittedPorts: ReadonlyMap<string, readonly string[]>;
+  /** Steps skipped because no incoming edge was live. */
+  unreachable: ReadonlySet<string>;
+}
+
+export function isEdgeLive(edge: BranchEdge, state: BranchState): boolean {
+  const source = edge.sourceStepId;
+  if (!source) return true;
+  if (state.unreachable.has(source)) return false;
+  if (!state.routers.has(source)) return true;
+  // A router that was skipped or failed emitted nothing — no branch runs.
+  return state.emittedPorts.get(source)?.includes(edge.sourcePort) ?? false;
+}
+
+/** Incoming edges of `stepId` that carry execution, given upstream results. */
+export function liveIncomingEdges<E extends BranchEdge>(
+  stepId: string,
+  edges: readonly E[],
+  state: BranchState,
+): E[] {
+  return edges.filter((e) => e.targetStepId === stepId && isEdgeLive(e, state));
+}
+
+export function isStepReachable(
+  stepId: string,
+  edges: readonly BranchEdge[],
+  state: BranchState,
+): boolean {
+  const incoming = edges.filter((e) => e.targetStepId === stepId);
+  if (incoming.length === 0) return true;
+  return incoming.some((e) => isEdgeLive(e, state));
+}
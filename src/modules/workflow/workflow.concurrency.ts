@@ -0,0 +1,202 @@
+/**
+ * Run Ordering & Rate Limits
+ *
+ * `Workflow.concurrencyKey` is a template resolved against a run's trigger
+ * data (e.g. `{{trigger.message.chatId}}`). Bot-message runs that resolve
+ * to the same key go through the workflow queue and execute one at a time,
+ * in the order the messages arrived; runs for other keys are unaffected.
+ * `MAX_CONCURRENT_RUNS` in the executor still caps the workflow overall.
+ *
+ * Ordering uses tickets: each keyed run takes the next ticket when it is
+ * enqueued, and the worker only starts the run whose ticket is up, putting
+ * the others back as delayed jobs. A turn held for longer than
+ * `KEY_TURN_TIMEOUT_MS` (a lost job) is skipped so one stuck run can't
+ * block the conversation for good. A run that could not be queued gives
+ * its ticket back, and the turn skips it.
+ *
+ * `Workflow.rateLimit` caps runs per key (or per workflow without a key)
+ * in a fixed window, with an optional reply to the chat when a message is
+ * dropped. Both fail open when Redis is unavailable.
+ *
+ * @module modules/workflow/workflow.concurrency
+ */
+
+import { logger } from "@/lib/logger";
+import { redis } from "@/lib/redis";
+
+import { buildTemplateContext, resolveTemplate } from "./template.engine";
+
+const concurrencyLogger = logger.child({ module: "workflow-concurrency" });
+
+/** Longest resolved key; longer values are truncated */
+const MAX_KEY_LENGTH = 200;
+
+/** How long a key's ticket state outlives its last run */
+const KEY_STATE_TTL_S = 24 * 60 * 60;
+
+/** A turn held this long is treated as lost and skipped */
+export const KEY_TURN_TIMEOUT_MS = 15 * 60 * 1000;
+
+const KEY_STATE = (workflowId: string, key: string) => `workflow:key-order:${workflowId}:${key}`;
+const RATE_WINDOW = (workflowId: string, key: string, window: number) =>
+  `workflow:rate:${workflowId}:${key}:${window}`;
+
+/**
+ * Move the turn past `ticket`, unless another caller already did. A ticket
+ * released before its turn (its run was never queued) is marked, and the
+ * turn skips it when it gets there.
+ */
+const ADVANCE_TURN_SCRIPT = `
+local nextTicket = tonumber(redis.call('HGET', KEYS[1], 'next') or '0')
+local ticket = tonumber(ARGV[1])
+if nextTicket == ticket then
+  nextTicket = ticket + 1
+  while redis.call('HDEL', KEYS[1], 'released:' .. nextTicket) == 1 do
+    nextTicket = nextTicket + 1
+  end
+  redis.call('HSET', KEYS[1], 'next', nextTicket, 'turnAt', ARGV[2])
+  redis.call('EXPIRE', KEYS[1], ARGV[3])
+elseif ticket > nextTicket then
+  redis.call('HSET', KEYS[1], 'released:' .. ticket, 1)
+end
+return 1`;
+
+/** `Workflow.rateLimit` */
+export interface WorkflowRateLimit {
+  /** Runs allowed per key in each window */
+  max: number;
+  windowSeconds: number;
+  /** Sent to the chat when a bot message is over the limit */
+  reply?: string;
+}
+
+/** A keyed run's place in its key's order (set on queued jobs). */
+export interface ConcurrencyTicket {
+  key: string;
+  ticket: number;
+}
+
+/**
+ * Resolve a workflow's concurrency key template against trigger data.
+ * Null when the workflow has no key or the key resolves to nothing — such
+ * runs are not ordered.
+ */
+export function resolveConcurrencyKey(
+  template: string | null | undefined,
+  triggerData: unknown,
+  meta: { userId: string; organizationId?: string; workflowId: string },
+): string | null {
+  if (!template?.trim()) return null;
+  try {
+    const value = resolveTemplate(
+      template,
+      buildTemplateContext(triggerData, {}, 0, { ...meta, runId: "" }),
+    );
+    if (value === null || value === undefined || typeof value === "object") return null;
+    const key = String(value).trim();
+    return key ? key.slice(0, MAX_KEY_LENGTH) : null;
+  } catch (err) {
+    concurrencyLogger.warn(
+      { workflowId: meta.workflowId, error: err instanceof Error ? err.message : String(err) },
+      "Concurrency key did not resolve — run is not ordered",
+    );
+    return null;
+  }
+}
+
+/** Read a stored `Workflow.rateLimit`; null when unset or malformed. */
+export function parseRateLimit(stored: unknown): WorkflowRateLimit | null {
+  if (!stored || typeof stored !== "object") return null;
+  const { max, windowSeconds, reply } = stored as Partial<WorkflowRateLimit>;
+  if (typeof max !== "number" || typeof windowSeconds !== "number" || max < 1 || windowSeconds < 1) {
+    return null;
+  }
+  return { max, windowSeconds, ...(typeof reply === "string" && reply.trim() && { reply }) };
+}
+
+/**
+ * Count a run against the limit for `key`.
+ *
+ * @returns false when the window is already full (the run must not start)
+ */
+export async function takeRateLimitSlot(
+  workflowId: string,
+  key: string,
+  limit: WorkflowRateLimit,
+  now: number = Date.now(),
+): Promise<boolean> {
+  const window = Math.floor(now / (limit.windowSeconds * 1000));
+  const redisKey = RATE_WINDOW(workflowId, key, window);
+  try {
+    const count = await redis.incr(redisKey);
+    if (count === 1) {
+      await redis.expire(redisKey, limit.windowSeconds);
+    }
+    return count <= limit.max;
+  } catch (err) {
+    concurrencyLogger.warn({ err, workflowId }, "Rate limit check failed — allowing run");
+    return true;
+  }
+}
+
+/** Take the next place in a key's run order. Call when enqueueing the run. */
+export async function takeTicket(workflowId: string, key: string): Promise<number> {
+  const stateKey = KEY_STATE(workflowId, key);
+  const results = await redis
+    .multi()
+    .hincrby(stateKey, "seq", 1)
+    .hsetnx(stateKey, "next", 1)
+    .hsetnx(stateKey, "turnAt", Date.now())
+    .expire(stateKey, KEY_STATE_TTL_S)
+    .exec();
+  const [err, ticket] = results?.[0] ?? [new Error("Transaction aborted"), null];
+  if (err) throw err;
+  return Number(ticket);
+}
+
+/**
+ * Whether the run holding `ticket` may start now. Tickets before the
+ * current turn (a skipped run, or a job BullMQ re-delivered) may start too.
+ */
+export async function isTicketTurn(
+  workflowId: string,
+  { key, ticket }: ConcurrencyTicket,
+  now: number = Date.now(),
+): Promise<boolean> {
+  const stateKey = KEY_STATE(workflowId, key);
+  const [next, turnAt] = await redis.hmget(stateKey, "next", "turnAt");
+  if (next === null) return true;
+  const turn = Number(next);
+  if (ticket < turn) return true;
+  if (ticket === turn) {
+    // The turn timeout counts from when the run starts
+    await redis.hset(stateKey, "turnAt", now);
+    return true;
+  }
+
+  if (now - Number(turnAt ?? now) > KEY_TURN_TIMEOUT_MS) {
+    concurrencyLogger.warn({ workflowId, key, ticket: turn }, "Run held its key too long — skipping its turn");
+    await advanceTurn(stateKey, turn, now);
+  }
+  return false;
+}
+
+/**
+ * Hand the key to the next run. Call when the run holding `ticket` ends,
+ * or when its run could not be queued.
+ */
+export async function releaseTicket(
+  workflowId: string,
+  { key, ticket }: ConcurrencyTicket,
+): Promise<void> {
+  try {
+    await advanceTurn(KEY_STATE(workflowId, key), ticket, Date.now());
+  } catch (err) {
+    // The waiting runs get the key once the turn times out
+    concurrencyLogger.error({ err, workflowId, key, ticket }, "Failed to release concurrency key");
+  }
+}
+
+async function advanceTurn(stateKey: string, ticket: number, now: number): Promise<void> {
+  await redis.eval(ADVANCE_TURN_SCRIPT, 1, stateKey, ticket, now, KEY_STATE_TTL_S);
+}
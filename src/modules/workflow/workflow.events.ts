@@ -0,0 +1,60 @@
+/**
+ * Platform Event Triggers — matching & loop protection
+ *
+ * PLATFORM_EVENT workflows run when a platform event (see
+ * `lib/platform-events`) of their owner fires and its data matches the
+ * trigger's filters. The dispatcher lives in `workflow.triggers`.
+ *
+ * Events carry `causedBy`, the workflows whose runs led to them. A run
+ * started by an event inherits that chain, and its own `workflow.completed`
+ * event appends the workflow — so a workflow never fires again from an
+ * event it (indirectly) caused, and chains stop at `MAX_EVENT_CHAIN_DEPTH`.
+ *
+ * @module modules/workflow/workflow.events
+ */
+
+import type { PlatformEvent } from "@/lib/platform-events";
+
+import type {
+    PlatformEventFilterValue,
+    PlatformEventTriggerConfig,
+    PlatformEventTriggerData,
+} from "./workflow.types";
+
+/** `triggeredBy` of runs started by a platform event */
+export const PLATFORM_EVENT_TRIGGERED_BY = "platform_event";
+
+/** Longest workflow → event → workflow chain that still starts runs */
+export const MAX_EVENT_CHAIN_DEPTH = 5;
+
+/**
+ * Whether an event satisfies a PLATFORM_EVENT trigger config: same event
+ * name, and every filter equal to the event data field (or one of the
+ * values, for an array filter).
+ */
+export function matchesPlatformEventTrigger(
+  config: Partial<PlatformEventTriggerConfig>,
+  event: Pick<PlatformEvent, "name" | "data">,
+): boolean {
+  if (config.event !== event.name) return false;
+
+  const data = event.data as Record<string, unknown>;
+  for (const [field, expected] of Object.entries(config.filters ?? {})) {
+    const actual = data[field];
+    const allowed: PlatformEventFilterValue[] = Array.isArray(expected) ? expected : [expected];
+    if (!allowed.some((value) => value === actual)) return false;
+  }
+  return true;
+}
+
+/**
+ * The `causedBy` chain of the events a run emits: the chain that started
+ * it (for event-triggered runs) plus its own workflow.
+ */
+export function runEventChain(workflowId: string, triggeredBy: string, triggerData: unknown): string[] {
+  const inherited =
+    triggeredBy === PLATFORM_EVENT_TRIGGERED_BY
+      ? (triggerData as Partial<PlatformEventTriggerData> | null)?.causedBy
+      : undefined;
+  return [...(Array.isArray(inherited) ? inherited : []), workflowId];
+}
@@ -11,28 +11,55 @@
  * 7. Handles errors (stop/continue/retry)
  * 8. Marks run completed/failed
  *
+ * Delay / wait-until steps pause the run instead ("waiting"); it is resumed
+ * later by `resumeWorkflowRun` from a delayed workflow-queue job. A
+ * wait-for-reply step is also resumed early by `resumeRunWithReply` when
+ * the end-user answers in the same chat.
+ *
+ * Sub-workflow steps run the callee in-process as a child run (linked via
+ * `WorkflowRun.parentRunId`) and continue with its final output.
+ *
+ * Set-variable and transform steps run in the executor too: they write the
+ * run's variables (`{{vars}}`) or resolve a template (see workflow.nodes).
+ *
+ * Finished live runs emit a `workflow.completed` platform event, which can
+ * start PLATFORM_EVENT workflows (see workflow.events).
+ *
+ * `retryWorkflowRun` re-runs a failed run as a new run (linked via
+ * `WorkflowRun.retryOfRunId`) that skips the steps which already completed.
+ *
  * @module modules/workflow/workflow.executor
  */
 
 import { logger } from "@/lib/logger";
+import { emitPlatformEvent } from "@/lib/platform-events";
 import { prisma } from "@/lib/prisma";
 import { withIdempotency } from "@/lib/redis-lock";
-import { gatewayRegistry, gatewayService } from "@/modules/gateway";
+import { gatewayMessageService, gatewayRegistry, gatewayService } from "@/modules/gateway";
+import { SET_VARIABLE_PLUGIN_SLUG, TRANSFORM_PLUGIN_SLUG } from "@/modules/plugin/handlers/core";
+import { WAIT_FOR_REPLY_PLUGIN_SLUG } from "@/modules/plugin/handlers/delay";
+import { SUB_WORKFLOW_PLUGIN_SLUG } from "@/modules/plugin/handlers/sub-workflow";
 import { gatewayTypeToPlatform, getPluginEntryPath, isDirectoryLayout } from "@/modules/plugin/plugin-deploy.service";
 import type {
     DiscordInteraction,
     DiscordMessageCreate,
+    EmailInboundMessage,
+    MatrixInboundMessage,
     SlackEventCallback,
     SlackInteractionPayload,
     TelegramUpdate,
+    WebChatInboundMessage,
     WhatsAppIncomingMessage,
 } from "@/modules/plugin/plugin.events";
 import {
     transformDiscordInteraction,
     transformDiscordMessageCreate,
+    transformEmailMessage,
+    transformMatrixMessage,
     transformSlackEventCallback,
     transformSlackInteraction,
     transformTelegramUpdate,
+    transformWebChatMessage,
     transformWhatsAppMessage,
 } from "@/modules/plugin/plugin.events";
 import {
@@ -46,21 +73,67 @@ import type {
     PluginEvent,
     WorkflowMetadata,
 } from "@/modules/plugin/plugin.interface";
+import { loadKvReferences } from "@/modules/project-resource/kv-store.service";
 import { loadProjectSecrets } from "@/modules/project-resource/project-resource.service";
+import {
+    FOREACH_DONE_PORT,
+    FOREACH_EACH_PORT,
+    FOREACH_PLUGIN_SLUG,
+    getStepOutputPorts,
+} from "@/shared/constants/workflow-ports";
 import { BadRequestError, NotFoundError, ServiceUnavailableError } from "@/shared/errors";
-import type { Prisma } from "@prisma/client";
+import { Prisma, type Gateway } from "@prisma/client";
 
 import {
     buildTemplateContext,
+    collectKvReferences,
     evaluateCondition,
     resolveInputMapping,
 } from "./template.engine";
+import { enqueueWorkflowResume } from "./workflow-queue";
+import {
+    StepTimeoutError,
+    classifyStepError,
+    computeRetryDelay,
+    resolveRetryPolicy,
+    type StepRetryPolicy,
+} from "./workflow.backoff";
+import { isStepReachable, liveIncomingEdges } from "./workflow.branching";
+import { runEventChain } from "./workflow.events";
+import {
+    MAX_LOOP_ITEMS,
+    collectLoopBody,
+    getLoopParallelism,
+    parseLoopItems,
+    runWithConcurrency,
+} from "./workflow.loop";
+import { buildRetryState, type RetryState, type ReusedStepRun } from "./workflow.retry";
+import { runTransform, setRunVariables } from "./workflow.nodes";
 import { workflowService } from "./workflow.service";
+import { emitRunEvent, previewOutput } from "./workflow.stream";
+import {
+    MAX_SUB_WORKFLOW_DEPTH,
+    SUB_WORKFLOW_TRIGGERED_BY,
+    checkSubWorkflowInput,
+    checkSubWorkflowOutput,
+    getSubWorkflowContract,
+} from "./workflow.subflow";
 import type {
     InputMapping,
     StepCondition,
     WorkflowExecutionContext,
+    WorkflowFailureTriggerData,
+    WorkflowRunHooks,
 } from "./workflow.types";
+import {
+    TIMED_OUT_REPLY,
+    computeResumeAt,
+    getTriggerWaitKey,
+    isWaitStep,
+    type PausedRunState,
+    type PendingWait,
+    type ReplyPayload,
+} from "./workflow.wait";
 
 const execLogger = logger.child({ module: "workflow-executor" });
 
@@ -70,6 +143,9 @@ const MAX_CONCURRENT_RUNS = 5;
 /** Maximum step execution time in ms */
 const STEP_TIMEOUT_MS = 60_000;
 
+/** `triggeredBy` of runs started by a workflow's on-failure target */
+const ON_FAILURE_TRIGGERED_BY = "workflow_failure";
+
 // ===========================================
 // Per-run in-memory cache
 // ===========================================
@@ -84,6 +160,27 @@ interface WorkflowRunCache {
   userPlugins: Map<string, { id: string; isEnabled: boolean; config: unknown; entryFile: string | null }>;
 }
 
+/**
+ * Execution state steps read and write. The run has one root scope; each
+ * foreach iteration runs its body in a copy so iterations never see each
+ * other's outputs.
+ */
+interface StepScope {
+  /** Results by step order, feeding `{{steps.N}}` templates */
+  steps: WorkflowExecutionContext["steps"];
+  /** Outputs by step ID, feeding `previousOutput` along edges */
+  outputs: Map<string, unknown>;
+  branch: {
+    routers: ReadonlySet<string>;
+    emittedPorts: Map<string, string[]>;
+    unreachable: Set<string>;
+  };
+  lastOutput: unknown;
+  loop?: { index: number; item: unknown; parentStepRunId: string };
+}
+
+type StepExecutionResult = { success: boolean; output?: unknown; error?: string; ports?: string[] };
+
 // ===========================================
 // Public API
 // ===========================================
@@ -98,13 +195,14 @@ interface WorkflowRunCache {
  * @param options.dryRun - If true, skip gateway calls and auto-reply (simulate execution)
  * @param options.captureLogs - If true, capture per-step plugin stdout/stderr into the run record
  * @param options.allowDraft - If true, allow execution of DRAFT/disabled workflows (Test mode)
+ * @param options.hooks - In-process run observers (not carried by queued jobs)
  * @returns The workflow run ID
  */
 export async function executeWorkflow(
   workflowId: string,
   triggeredBy: string,
   triggerData: unknown,
-  options?: { dryRun?: boolean; captureLogs?: boolean; allowDraft?: boolean },
+  options?: { dryRun?: boolean; captureLogs?: boolean; allowDraft?: boolean; hooks?: WorkflowRunHooks },
   idempotencyKey?: string,
 ): Promise<string> {
   // Idempotency guard: if the same trigger event fires twice (webhook retry,
@@ -127,29 +225,218 @@ export async function executeWorkflow(
   return executeWorkflowInternal(workflowId, triggeredBy, triggerData, options);
 }
 
+/**
+ * Continue a run paused by a delay / wait step. Called by the workflow
+ * worker when the run's delayed resume job fires. No-op unless the run is
+ * still waiting (for the same `resumeAt`, when given), so duplicate and
+ * stale resume jobs are harmless. A wait-for-reply step resumed this way
+ * has timed out.
+ *
+ * @returns The workflow run ID
+ */
+export async function resumeWorkflowRun(runId: string, resumeAt?: Date): Promise<string> {
+  const run = await prisma.workflowRun.findUnique({ where: { id: runId } });
+  if (
+    !run ||
+    run.status !== "waiting" ||
+    !run.pausedState ||
+    (resumeAt && run.resumeAt?.getTime() !== resumeAt.getTime())
+  ) {
+    execLogger.info(
+      { runId, status: run?.status },
+      "Resume skipped — run is not waiting",
+    );
+    return runId;
+  }
+
+  // Claim the run so concurrent resume jobs can't both continue it
+  if (!(await claimWaitingRun({ id: runId, status: "waiting" }))) return runId;
+  return continueWaitingRun(run);
+}
+
+/**
+ * Hand an inbound chat message to the run waiting on that conversation
+ * (see `getTriggerWaitKey`). The run is claimed before returning, so the
+ * caller can skip trigger matching; the rest of it executes in the
+ * background.
+ *
+ * @returns The resumed run ID, or null when no run is waiting on `waitKey`
+ */
+export async function resumeRunWithReply(
+  waitKey: string,
+  reply: ReplyPayload,
+): Promise<string | null> {
+  const run = await prisma.workflowRun.findFirst({
+    where: { waitKey, status: "waiting" },
+    orderBy: { startedAt: "desc" },
+  });
+  if (!run?.pausedState) return null;
+  if (!(await claimWaitingRun({ id: run.id, status: "waiting", waitKey }))) return null;
+
+  execLogger.info({ workflowId: run.workflowId, runId: run.id }, "Chat reply resumes waiting run");
+  void continueWaitingRun(run, reply);
+  return run.id;
+}
+
+/** Move a waiting run back to running. False when someone else got it first. */
+async function claimWaitingRun(where: Prisma.WorkflowRunWhereInput): Promise<boolean> {
+  const claimed = await prisma.workflowRun.updateMany({
+    where,
+    data: { status: "running", resumeAt: new Date(), pausedState: Prisma.DbNull, waitKey: null },
+  });
+  return claimed.count > 0;
+}
+
+async function continueWaitingRun(
+  run: {
+    id: string;
+    workflowId: string;
+    triggeredBy: string;
+    triggerData: Prisma.JsonValue;
+    pausedState: Prisma.JsonValue;
+    startedAt: Date;
+    workflowVersion: number | null;
+  },
+  reply?: ReplyPayload,
+): Promise<string> {
+  const state = run.pausedState as unknown as PausedRunState;
+  try {
+    return await executeWorkflowInternal(
+      run.workflowId,
+      run.triggeredBy,
+      run.triggerData ?? undefined,
+      state.options,
+      state.idempotencyKey,
+      { runId: run.id, startedAt: run.startedAt, version: run.workflowVersion, state, reply },
+    );
+  } catch (error) {
+    // The workflow was deleted, disabled or lost its gateway while waiting
+    const message = error instanceof Error ? error.message : String(error);
+    await workflowService.failRun(run.id, message, null, Date.now() - run.startedAt.getTime());
+    execLogger.warn({ runId: run.id, error: message }, "Failed to resume waiting workflow run");
+    return run.id;
+  }
+}
+
+/**
+ * Re-schedule resume jobs for every waiting run. Safe to call repeatedly:
+ * jobs that still exist in the queue are deduplicated by jobId. Covers
+ * resume jobs lost with Redis data; called when a worker (dedicated or
+ * embedded in the API server) starts.
+ */
+export async function requeueWaitingRuns(): Promise<number> {
+  const runs = await prisma.workflowRun.findMany({
+    where: { status: "waiting", resumeAt: { not: null } },
+    select: { id: true, workflowId: true, resumeAt: true },
+  });
+  for (const run of runs) {
+    if (!run.resumeAt) continue;
+    await enqueueWorkflowResume({ workflowId: run.workflowId, runId: run.id, resumeAt: run.resumeAt });
+  }
+  return runs.length;
+}
+
+/**
+ * Re-run a failed run from the step that failed. The new run gets the same
+ * trigger data and starts from the failed run's recorded step results:
+ * completed steps are copied over instead of executing again, so messages
+ * they sent aren't repeated. With `fromStepOrder`, steps from that order
+ * on run again even if they completed.
+ *
+ * @returns The new run's ID
+ */
+export async function retryWorkflowRun(
+  runId: string,
+  options?: { fromStepOrder?: number },
+): Promise<string> {
+  const run = await prisma.workflowRun.findUnique({
+    where: { id: runId },
+    include: { stepRuns: true },
+  });
+  if (!run) {
+    throw new NotFoundError(`Workflow run not found: ${runId}`);
+  }
+  if (run.status !== "failed") {
+    throw new BadRequestError(`Only failed runs can be retried (run is ${run.status})`);
+  }
+  if (run.parentRunId) {
+    throw new BadRequestError("Sub-workflow runs are retried through the run that called them");
+  }
+
+  // The retry runs the version the failed run ran, so its step results
+  // line up with the same steps even if the workflow was republished since.
+  // Runs from before the first publish ran the draft, which no longer
+  // drives live runs once a version exists.
+  if (run.workflowVersion === null) {
+    const workflow = await prisma.workflow.findUnique({
+      where: { id: run.workflowId },
+      select: { publishedVersion: true },
+    });
+    if (!workflow) {
+      throw new NotFoundError(`Workflow not found: ${run.workflowId}`);
+    }
+    if (workflow.publishedVersion !== null) {
+      throw new BadRequestError(
+        "The workflow was published after this run failed; start a new run instead of retrying"
+      );
+    }
+  }
+  const { steps } = await workflowService.loadWorkflowGraph(run.workflowId, run.workflowVersion);
+  if (
+    options?.fromStepOrder !== undefined &&
+    !steps.some((s) => s.order === options.fromStepOrder)
+  ) {
+    throw new BadRequestError(`Workflow has no step ${options.fromStepOrder}`);
+  }
+
+  const { state, reused } = buildRetryState(steps, run.stepRuns, options?.fromStepOrder);
+  execLogger.info(
+    { workflowId: run.workflowId, runId, reusedSteps: reused.length },
+    "Retrying failed workflow run",
+  );
+  return executeWorkflowInternal(run.workflowId, run.triggeredBy, run.triggerData ?? undefined, {
+    retry: { runId, version: run.workflowVersion, state, reused },
+  });
+}
+
 async function executeWorkflowInternal(
   workflowId: string,
   triggeredBy: string,
   triggerData: unknown,
-  options?: { dryRun?: boolean; captureLogs?: boolean; allowDraft?: boolean },
+  options?: {
+    dryRun?: boolean;
+    captureLogs?: boolean;
+    allowDraft?: boolean;
+    hooks?: WorkflowRunHooks;
+    /** Set for child runs started by a sub-workflow step. */
+    parent?: { runId: string; depth: number };
+    /** Set for runs that resume a failed run (see `retryWorkflowRun`). */
+    retry?: { runId: string; version: number | null; state: RetryState; reused: ReusedStepRun[] };
+  },
   idempotencyKey?: string,
+  resume?: {
+    runId: string;
+    startedAt: Date;
+    version: number | null;
+    state: PausedRunState;
+    reply?: ReplyPayload;
+  },
 ): Promise<string> {
-  // Load workflow with steps and edges
-  const workflow = await prisma.workflow.findUnique({
-    where: { id: workflowId },
-    include: {
-      steps: {
-        orderBy: { order: "asc" },
-        include: { plugin: true },
-      },
-      edges: true,
-    },
-  });
+  const stored = await prisma.workflow.findUnique({ where: { id: workflowId } });
 
-  if (!workflow) {
+  if (!stored) {
     throw new NotFoundError(`Workflow not found: ${workflowId}`);
   }
 
+  // Live runs execute the published version; test runs execute the draft.
+  // Workflows never published (null) run their draft rows as before.
+  // Resumed and retried runs stay on the version the run started with.
+  const version = resume
+    ? resume.version
+    : options?.retry ? options.retry.version
+    : options?.allowDraft ? null : stored.publishedVersion;
+  const workflow = { ...stored, ...(await workflowService.loadWorkflowGraph(workflowId, version)) };
+
   if (!options?.allowDraft && (!workflow.isEnabled || workflow.status !== "ACTIVE")) {
     throw new BadRequestError(`Workflow is not active: ${workflowId}`);
   }
@@ -172,8 +459,9 @@ async function executeWorkflowInternal(
     }
   }
 
-  // Safety: limit concurrent runs (atomic check + create to prevent race condition)
-  const runId = await prisma.$transaction(async (tx) => {
+  // Safety: limit concurrent runs (atomic check + create to prevent race condition).
+  // A resumed run already exists and was claimed by resumeWorkflowRun.
+  const runId = resume ? resume.runId : await prisma.$transaction(async (tx) => {
     const runningCount = await tx.workflowRun.count({
       where: { workflowId, status: "running" },
     });
@@ -188,17 +476,32 @@ async function executeWorkflowInternal(
         triggerData: triggerData !== undefined ? (triggerData as object) : undefined,
         status: "running",
         startedAt: new Date(),
+        parentRunId: options?.parent?.runId,
+        depth: options?.parent?.depth ?? 0,
+        retryOfRunId: options?.retry?.runId,
+        workflowVersion: version,
       },
     });
     return run.id;
   });
+  if (options?.retry) {
+    await workflowService.recordReusedStepRuns(runId, options.retry.reused);
+  }
+
+  const hooks = options?.hooks;
+  callHook(runId, "onRunCreated", () => hooks?.onRunCreated?.(runId));
 
   execLogger.info(
-    { workflowId, runId, triggeredBy, stepCount: workflow.steps.length },
-    "Starting workflow execution"
+    {
+      workflowId, runId, triggeredBy, version, stepCount: workflow.steps.length,
+      resumed: !!resume, retryOf: options?.retry?.runId,
+    },
+    resume ? "Resuming workflow execution" : "Starting workflow execution"
   );
 
-  const startTime = Date.now();
+  // Resumed runs report wall-clock duration, including the wait.
+  const startTime = resume ? resume.startedAt.getTime() : Date.now();
+  emitRunEvent({ type: "run_started", workflowId, runId, triggeredBy, resumed: !!resume });
 
   // Per-run cache: avoids redundant DB queries across steps
   const runCache: WorkflowRunCache = { gateways: null, userPlugins: new Map() };
@@ -225,6 +528,9 @@ async function executeWorkflowInternal(
   const stepLogsByOrder: Map<number, Array<{ level: string; message: string; ts?: string | number }>> =
     new Map();
 
+  // A resumed or retried run starts from recorded execution state
+  const seed: RetryState | undefined = resume?.state ?? options?.retry?.state;
+
   // Build execution context
   const executionCtx: WorkflowExecutionContext = {
     workflowId,
@@ -236,228 +542,542 @@ async function executeWorkflowInternal(
       data: triggerData,
       timestamp: new Date(),
     },
-    variables: {},
-    steps: {},
+    variables: { ...seed?.variables },
+    steps: { ...seed?.steps },
   };
 
-  // Execute steps — graph-based (parallel layers) or linear fallback
-  let lastOutput: unknown = undefined;
-
   // Build graph from edges: which steps depend on which
   const hasEdges = workflow.edges.length > 0;
-  const executionLayers = hasEdges
-    ? buildExecutionLayers(workflow.steps, workflow.edges)
-    : [workflow.steps.map((s) => s.id)]; // Fallback: all in order
 
   // Map step IDs to step objects
   const stepMap = new Map(workflow.steps.map((s) => [s.id, s]));
-  // Track outputs per step ID (for graph-based input mapping)
-  const stepOutputs = new Map<string, unknown>();
 
-  for (const layer of executionLayers) {
-    // Execute all steps in this layer in parallel
-    const layerResults = await Promise.allSettled(
-      layer.map(async (stepId) => {
-        const step = stepMap.get(stepId);
-        if (!step) return;
+  // Steps downstream of a foreach `each` port only run inside that loop.
+  const loopBodies = new Map(
+    workflow.steps
+      .filter((s) => s.plugin?.slug === FOREACH_PLUGIN_SLUG)
+      .map((s) => [s.id, collectLoopBody(s.id, workflow.edges)]),
+  );
+  const loopMembers = new Set([...loopBodies.values()].flatMap((body) => [...body]));
 
-        const stepStart = Date.now();
-        const stepRunId = await workflowService.createStepRun(runId, step.order);
+  // Execute steps — graph-based (parallel layers) or linear fallback
+  const executionLayers = hasEdges
+    ? buildExecutionLayers(workflow.steps.filter((s) => !loopMembers.has(s.id)), workflow.edges)
+    : [workflow.steps.map((s) => s.id)]; // Fallback: all in order
 
-        try {
-          // Skip disabled steps
-          if (!step.isEnabled) {
-            await workflowService.skipStepRun(stepRunId);
-            executionCtx.steps[step.order] = {
-              input: null, output: null, status: "skipped",
-              durationMs: Date.now() - stepStart,
-            };
-            return;
-          }
+  // Run-level scope. Router steps (if/else, switch, foreach) only continue
+  // down the port they emit on.
+  const rootScope: StepScope = {
+    steps: executionCtx.steps,
+    outputs: new Map(Object.entries(seed?.outputs ?? {})),
+    branch: {
+      routers: new Set(
+        workflow.steps
+          .filter((s) => getStepOutputPorts(s.plugin?.slug, s.config as Record<string, unknown>))
+          .map((s) => s.id),
+      ),
+      emittedPorts: new Map(Object.entries(seed?.emittedPorts ?? {})),
+      unreachable: new Set(resume?.state.unreachable),
+    },
+    lastOutput: seed?.lastOutput,
+  };
 
-          // Build template context — graph-aware: include outputs from upstream steps
-          const templateCtx = buildTemplateContext(
-            triggerData,
-            executionCtx.steps,
-            step.order,
-            {
-              userId: workflow.userId,
-              organizationId: workflow.organizationId ?? undefined,
-              workflowId,
-              runId,
-              secrets: projectSecrets,
-            }
-          );
+  // Durable waits: steps already run before a pause, and the delay /
+  // wait-until steps that want the run paused after the current layer.
+  const settled = new Set(seed?.settled);
+  const pendingWaits: PendingWait[] = [];
+
+  // Latest wait-for-reply result, bound as `{{reply}}`
+  let reply = seed?.reply;
+
+  // The waits this run was paused on are over — complete those steps.
+  // Wait-for-reply steps output the reply, or a timeout marker.
+  for (const wait of resume?.state.waits ?? []) {
+    const durationMs = Date.now() - new Date(wait.startedAt).getTime();
+    if (wait.awaitsReply) reply = resume?.reply ?? TIMED_OUT_REPLY;
+    const output = wait.awaitsReply ? reply : wait.output;
+    await workflowService.completeStepRun(wait.stepRunId, output, durationMs, wait.input);
+    emitRunEvent({
+      type: "step_completed", workflowId, runId, stepId: wait.stepId, stepOrder: wait.stepOrder,
+      durationMs, outputPreview: previewOutput(output),
+    });
+    rootScope.outputs.set(wait.stepId, output);
+    rootScope.lastOutput = output;
+    rootScope.steps[wait.stepOrder] = {
+      input: wait.input, output,
+      status: "completed", durationMs,
+    };
+  }
 
-          // Evaluate condition
-          if (step.condition) {
-            const condition = step.condition as unknown as StepCondition;
-            const shouldRun = evaluateCondition(condition.if, templateCtx);
-            if (!shouldRun) {
-              await workflowService.skipStepRun(stepRunId);
-              executionCtx.steps[step.order] = {
-                input: null, output: null, status: "skipped",
-                durationMs: Date.now() - stepStart,
-              };
-              return;
-            }
-          }
+  type ExecutableStep = (typeof workflow.steps)[number];
 
-          // Resolve input mapping
-          const inputMapping = (step.inputMapping ?? {}) as InputMapping;
-          const resolvedInput = resolveInputMapping(inputMapping, templateCtx);
-
-          // Orphan guard: if the plugin catalog row is missing, disable the
-          // step and emit an audit trail rather than crashing the run. This
-          // can happen if a plugin was deleted but the step wasn't cleaned up
-          // (FK misconfiguration, legacy data, or manual DB edits).
-          if (!step.plugin?.slug) {
-            execLogger.error(
-              {
-                runId,
-                workflowId,
-                stepId: step.id,
-                pluginId: step.pluginId,
-              },
-              "Workflow step references a missing plugin — auto-disabling step",
-            );
-            await prisma.workflowStep.update({
-              where: { id: step.id },
-              data: {
-                isEnabled: false,
-                lastError: `Plugin ${step.pluginId} not found in catalog (auto-disabled)`,
-              },
-            }).catch(() => {});
-            await workflowService.failStepRun(
-              stepRunId,
-              `Plugin ${step.pluginId} not found — step auto-disabled`,
-              Date.now() - stepStart,
+  /** Run a single step within `scope`: the run itself or one foreach iteration. */
+  const runStep = async (stepId: string, scope: StepScope): Promise<void> => {
+    const step = stepMap.get(stepId);
+    if (!step) return;
+
+    const stepStart = Date.now();
+    const stepRunId = await workflowService.createStepRun(
+      runId,
+      step.order,
+      scope.loop && { iteration: scope.loop.index, parentStepRunId: scope.loop.parentStepRunId },
+    );
+    const stepRef = { workflowId, runId, stepId, stepOrder: step.order, iteration: scope.loop?.index };
+    emitRunEvent({ ...stepRef, type: "step_started", pluginSlug: step.plugin?.slug ?? "" });
+
+    try {
+      // Skip steps on a branch no router chose
+      if (!isStepReachable(stepId, workflow.edges, scope.branch)) {
+        scope.branch.unreachable.add(stepId);
+        await workflowService.skipStepRun(stepRunId);
+        emitRunEvent({ ...stepRef, type: "step_skipped" });
+        scope.steps[step.order] = {
+          input: null, output: null, status: "skipped",
+          durationMs: Date.now() - stepStart,
+        };
+        return;
+      }
+
+      // Skip disabled steps
+      if (!step.isEnabled) {
+        await workflowService.skipStepRun(stepRunId);
+        emitRunEvent({ ...stepRef, type: "step_skipped" });
+        scope.steps[step.order] = {
+          input: null, output: null, status: "skipped",
+          durationMs: Date.now() - stepStart,
+        };
+        return;
+      }
+
+      // KV_STORE entries referenced by this step. Loaded per step (not per
+      // run) so values written by upstream steps are visible downstream.
+      const inputMapping = (step.inputMapping ?? {}) as InputMapping;
+      const condition = step.condition as unknown as StepCondition | null;
+      const kvRefs = workflow.projectId
+        ? collectKvReferences([
+            ...Object.values(inputMapping),
+            ...(condition?.if ? [condition.if] : []),
+          ])
+        : [];
+      const kvValues = kvRefs.length > 0 && workflow.projectId
+        ? await loadKvReferences(
+            { userId: workflow.userId, organizationId: workflow.organizationId ?? null },
+            workflow.projectId,
+            kvRefs,
+          ).catch((err) => {
+            execLogger.warn(
+              { workflowId, runId, stepOrder: step.order, error: (err as Error).message },
+              "loadKvReferences failed \u2014 continuing without kv values",
             );
-            executionCtx.steps[step.order] = {
-              input: null,
-              output: null,
-              status: "failed",
-              durationMs: Date.now() - stepStart,
-              error: `Plugin ${step.pluginId} not found`,
-            };
-            return;
+            return {};
+          })
+        : {};
+
+      // Build template context — graph-aware: include outputs from upstream steps
+      const templateCtx = buildTemplateContext(
+        triggerData,
+        scope.steps,
+        step.order,
+        {
+          userId: workflow.userId,
+          organizationId: workflow.organizationId ?? undefined,
+          workflowId,
+          runId,
+          secrets: projectSecrets,
+          kv: kvValues,
+          loop: scope.loop,
+          reply,
+          vars: executionCtx.variables,
+        }
+      );
+
+      // Evaluate condition
+      if (condition) {
+        const shouldRun = evaluateCondition(condition.if, templateCtx);
+        if (!shouldRun) {
+          await workflowService.skipStepRun(stepRunId);
+          emitRunEvent({ ...stepRef, type: "step_skipped" });
+          scope.steps[step.order] = {
+            input: null, output: null, status: "skipped",
+            durationMs: Date.now() - stepStart,
+          };
+          return;
+        }
+      }
+
+      // Resolve input mapping
+      const resolvedInput = resolveInputMapping(inputMapping, templateCtx);
+
+      // Orphan guard: if the plugin catalog row is missing, disable the
+      // step and emit an audit trail rather than crashing the run. This
+      // can happen if a plugin was deleted but the step wasn't cleaned up
+      // (FK misconfiguration, legacy data, or manual DB edits).
+      if (!step.plugin?.slug) {
+        execLogger.error(
+          {
+            runId,
+            workflowId,
+            stepId: step.id,
+            pluginId: step.pluginId,
+          },
+          "Workflow step references a missing plugin — auto-disabling step",
+        );
+        await prisma.workflowStep.update({
+          where: { id: step.id },
+          data: {
+            isEnabled: false,
+            lastError: `Plugin ${step.pluginId} not found in catalog (auto-disabled)`,
+          },
+        }).catch(() => {});
+        await workflowService.failStepRun(
+          stepRunId,
+          `Plugin ${step.pluginId} not found — step auto-disabled`,
+          Date.now() - stepStart,
+        );
+        emitRunEvent({
+          ...stepRef, type: "step_failed", durationMs: Date.now() - stepStart,
+          error: `Plugin ${step.pluginId} not found`,
+        });
+        scope.steps[step.order] = {
+          input: null,
+          output: null,
+          status: "failed",
+          durationMs: Date.now() - stepStart,
+          error: `Plugin ${step.pluginId} not found`,
+        };
+        return;
+      }
+
+      // Find the previous output for this step: use the output of its
+      // upstream step(s), ignoring edges from untaken branches
+      const incomingEdges = liveIncomingEdges(stepId, workflow.edges, scope.branch);
+      let previousOutput: unknown = scope.lastOutput;
+      const firstIncoming = incomingEdges[0];
+      if (incomingEdges.length === 1 && firstIncoming?.sourceStepId) {
+        previousOutput = scope.outputs.get(firstIncoming.sourceStepId);
+      } else if (incomingEdges.length > 1) {
+        // Multiple inputs: merge outputs from all upstream steps
+        const merged: Record<string, unknown> = {};
+        for (const ie of incomingEdges) {
+          if (ie.sourceStepId) {
+            const srcStep = stepMap.get(ie.sourceStepId);
+            const key = srcStep?.plugin?.slug ?? ie.sourceStepId;
+            merged[key] = scope.outputs.get(ie.sourceStepId);
           }
+        }
+        previousOutput = merged;
+      }
 
-          // Build plugin context
-          const stepCfg = (step.config as Record<string, unknown>) ?? {};
-          const pluginContext = await buildPluginContext(
-            step.pluginId,
-            step.plugin.slug,
+      // Delay / wait steps: pause the run once this layer settles. Dry runs
+      // don't wait and pass the upstream output straight through.
+      const stepCfg = (step.config as Record<string, unknown>) ?? {};
+      if (isWaitStep(step.plugin.slug) && !options?.dryRun) {
+        if (scope.loop) {
+          throw new Error("Delay and wait steps are not supported inside a foreach loop");
+        }
+        if (options?.parent) {
+          // The caller is blocked on this run and can't pause with it
+          throw new Error("Delay and wait steps are not supported in a called sub-workflow");
+        }
+        const resumeAt = computeResumeAt(step.plugin.slug, stepCfg, resolvedInput);
+        const awaitsReply = step.plugin.slug === WAIT_FOR_REPLY_PLUGIN_SLUG;
+        if (awaitsReply) {
+          if (!getTriggerWaitKey(triggerData)) {
+            throw new Error("Wait for reply needs a run triggered by a bot message from a chat user");
+          }
+          // Ask the question before pausing, through the auto-reply path
+          const prompt = (resolvedInput as Record<string, unknown> | null)?.prompt;
+          if (prompt !== undefined && prompt !== null && prompt !== "") {
+            await sendAutoReply(workflow, runId, triggerData, prompt);
+          }
+        }
+        await workflowService.waitStepRun(stepRunId);
+        emitRunEvent({ ...stepRef, type: "step_waiting" });
+        pendingWaits.push({
+          stepId,
+          stepRunId,
+          stepOrder: step.order,
+          input: resolvedInput,
+          output: previousOutput,
+          startedAt: new Date(stepStart).toISOString(),
+          resumeAt: resumeAt.toISOString(),
+          ...(awaitsReply && { awaitsReply }),
+        });
+        return;
+      }
+
+      // Foreach steps run their loop body in-engine instead of a plugin
+      let result: StepExecutionResult;
+      if (step.plugin.slug === FOREACH_PLUGIN_SLUG) {
+        result = await runForeach(step, stepRunId, resolvedInput, scope);
+      } else if (step.plugin.slug === SUB_WORKFLOW_PLUGIN_SLUG) {
+        result = await runSubWorkflow(stepCfg, resolvedInput);
+      } else if (step.plugin.slug === SET_VARIABLE_PLUGIN_SLUG) {
+        result = setRunVariables(executionCtx.variables, resolvedInput);
+      } else if (step.plugin.slug === TRANSFORM_PLUGIN_SLUG) {
+        result = runTransform(stepCfg, templateCtx);
+      } else if (isWaitStep(step.plugin.slug)) {
+        await appendRunLog(runId, `[DRY RUN] Step ${step.order} wait skipped.`);
+        result = { success: true, output: previousOutput };
+      } else {
+        // Build plugin context
+        const pluginContext = await buildPluginContext(
+          step.pluginId,
+          step.plugin.slug,
+          workflow.userId,
+          workflow.organizationId,
+          stepCfg,
+          step.gatewayId ?? workflow.gatewayId,
+          options?.dryRun ? false : stepCfg.gatewayActionsEnabled === true,
+          runCache,
+          {
+            entryFile: step.entryFile,
+            userPluginId: step.userPluginId,
+            runId,
+            idempotencyKey: idempotencyKey
+              ? `${idempotencyKey}:step${step.order}${scope.loop ? `:i${scope.loop.index}` : ""}`
+              : undefined,
+          },
+          projectSecrets,
+        );
+
+        // Build plugin event
+        const pluginEvent = buildStepEvent(
+          triggerData, resolvedInput, previousOutput,
+          step.order, runId, workflow.gatewayId ?? undefined
+        );
+
+        // Execute with timeout and retry
+        result = await executeStepWithRetry(
+          step.plugin.slug, pluginEvent, pluginContext,
+          step.onError as "stop" | "continue" | "retry",
+          step.maxRetries,
+          resolveRetryPolicy(step.retryPolicy),
+          typeof stepCfg.timeoutMs === "number" ? stepCfg.timeoutMs : undefined
+        );
+      }
+
+      const stepDuration = Date.now() - stepStart;
+
+      // Capture plugin stdout/stderr if requested (Test mode).
+      // Best-effort — never blocks the run.
+      if (options?.captureLogs && step.entryFile) {
+        try {
+          const logs = await fetchPluginLogs(
             workflow.userId,
             workflow.organizationId,
-            stepCfg,
-            step.gatewayId ?? workflow.gatewayId,
-            options?.dryRun ? false : stepCfg.gatewayActionsEnabled === true,
-            runCache,
-            {
-              entryFile: step.entryFile,
-              userPluginId: step.userPluginId,
-              idempotencyKey: idempotencyKey ? `${idempotencyKey}:step${step.order}` : undefined,
-            },
-            projectSecrets,
+            step.entryFile,
           );
-
-          // Find the previous output for this step: use the output of its upstream step(s)
-          const incomingEdges = workflow.edges.filter((e) => e.targetStepId === stepId);
-          let previousOutput: unknown = lastOutput;
-          const firstIncoming = incomingEdges[0];
-          if (incomingEdges.length === 1 && firstIncoming?.sourceStepId) {
-            previousOutput = stepOutputs.get(firstIncoming.sourceStepId);
-          } else if (incomingEdges.length > 1) {
-            // Multiple inputs: merge outputs from all upstream steps
-            const merged: Record<string, unknown> = {};
-            for (const ie of incomingEdges) {
-              if (ie.sourceStepId) {
-                const srcStep = stepMap.get(ie.sourceStepId);
-                const key = srcStep?.plugin?.slug ?? ie.sourceStepId;
-                merged[key] = stepOutputs.get(ie.sourceStepId);
-              }
+          if (logs.length > 0) {
+            // Trim very long logs to last 200 entries to bound DB size
+            stepLogsByOrder.set(step.order, logs.slice(-200));
+            for (const line of logs.slice(-200)) {
+              emitRunEvent({ ...stepRef, type: "log", level: line.level, message: line.message });
             }
-            previousOutput = merged;
           }
+        } catch {
+          // Non-fatal — logs are diagnostic, not critical
+        }
+      }
 
-          // Build plugin event
-          const pluginEvent = buildStepEvent(
-            triggerData, resolvedInput, previousOutput,
-            step.order, runId, workflow.gatewayId ?? undefined
+      if (result.success) {
+        await workflowService.completeStepRun(stepRunId, result.output, stepDuration, resolvedInput);
+        emitRunEvent({
+          ...stepRef, type: "step_completed", durationMs: stepDuration,
+          outputPreview: previewOutput(result.output), ports: result.ports,
+        });
+        scope.outputs.set(stepId, result.output);
+        if (result.ports) scope.branch.emittedPorts.set(stepId, result.ports);
+        scope.lastOutput = result.output;
+        scope.steps[step.order] = {
+          input: resolvedInput, output: result.output,
+          status: "completed", durationMs: stepDuration,
+        };
+        void prisma.workflowStep.update({
+          where: { id: step.id },
+          data: { executionCount: { increment: 1 }, lastExecutedAt: new Date(), lastError: null },
+        }).catch(() => {});
+        if (!scope.loop) {
+          const pluginSlug = step.plugin.slug;
+          const output = result.output;
+          callHook(runId, "onStepCompleted", () =>
+            hooks?.onStepCompleted?.({ id: step.id, order: step.order, pluginSlug }, output),
           );
+        }
+      } else {
+        const stepDuration2 = Date.now() - stepStart;
+        await workflowService.failStepRun(
+          stepRunId, result.error ?? "Unknown error", stepDuration2, resolvedInput,
+        );
+        emitRunEvent({
+          ...stepRef, type: "step_failed", durationMs: stepDuration2, error: result.error ?? "Unknown error",
+        });
+        scope.steps[step.order] = {
+          input: resolvedInput, output: null,
+          error: result.error ?? "Unknown error",
+          status: "failed", durationMs: stepDuration2,
+        };
+        void prisma.workflowStep.update({
+          where: { id: step.id },
+          data: { executionCount: { increment: 1 }, lastExecutedAt: new Date(), lastError: result.error ?? "Unknown error" },
+        }).catch(() => {});
+
+        if (step.onError !== "continue") {
+          throw new StepFailedError(step.order, result.error ?? "Step execution failed");
+        }
+      }
+    } catch (error) {
+      if (error instanceof StepFailedError) throw error;
+      const stepDuration = Date.now() - stepStart;
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      await workflowService.failStepRun(stepRunId, errorMsg, stepDuration);
+      emitRunEvent({ ...stepRef, type: "step_failed", durationMs: stepDuration, error: errorMsg });
+      scope.steps[step.order] = {
+        input: null, output: null, error: errorMsg,
+        status: "failed", durationMs: stepDuration,
+      };
+      if (step.onError !== "continue") {
+        throw new StepFailedError(step.order, errorMsg);
+      }
+    }
+  };
 
-          // Execute with timeout and retry
-          const result = await executeStepWithRetry(
-            step.plugin.slug, pluginEvent, pluginContext,
-            step.onError as "stop" | "continue" | "retry",
-            step.maxRetries,
-            typeof stepCfg.timeoutMs === "number" ? stepCfg.timeoutMs : undefined
-          );
+  /**
+   * Call another workflow in this project as a child run and wait for it.
+   * The input becomes the callee's trigger data; its final output is the
+   * step's output. Both are checked against the callee's contract.
+   */
+  const runSubWorkflow = async (
+    config: Record<string, unknown>,
+    input: unknown,
+  ): Promise<StepExecutionResult> => {
+    const calleeId = typeof config.workflowId === "string" ? config.workflowId : "";
+    if (!calleeId) {
+      return { success: false, error: "Sub-workflow step has no workflow selected" };
+    }
+    const depth = (options?.parent?.depth ?? 0) + 1;
+    if (depth > MAX_SUB_WORKFLOW_DEPTH) {
+      return {
+        success: false,
+        error: `Sub-workflow calls nest deeper than ${MAX_SUB_WORKFLOW_DEPTH} levels`,
+      };
+    }
 
-          const stepDuration = Date.now() - stepStart;
-
-          // Capture plugin stdout/stderr if requested (Test mode).
-          // Best-effort — never blocks the run.
-          if (options?.captureLogs && step.entryFile) {
-            try {
-              const logs = await fetchPluginLogs(
-                workflow.userId,
-                workflow.organizationId,
-                step.entryFile,
-              );
-              if (logs.length > 0) {
-                // Trim very long logs to last 200 entries to bound DB size
-                stepLogsByOrder.set(step.order, logs.slice(-200));
-              }
-            } catch {
-              // Non-fatal — logs are diagnostic, not critical
-            }
-          }
+    const callee = await prisma.workflow.findUnique({
+      where: { id: calleeId },
+      select: { projectId: true, triggerConfig: true },
+    });
+    if (!callee || callee.projectId !== workflow.projectId) {
+      return { success: false, error: `Sub-workflow not found in this project: ${calleeId}` };
+    }
+    const contract = getSubWorkflowContract(callee.triggerConfig);
+    const inputProblems = checkSubWorkflowInput(contract, input);
+    if (inputProblems.length > 0) {
+      return { success: false, error: `Invalid sub-workflow input: ${inputProblems.join("; ")}` };
+    }
 
-          if (result.success) {
-            await workflowService.completeStepRun(stepRunId, result.output, stepDuration);
-            stepOutputs.set(stepId, result.output);
-            lastOutput = result.output;
-            executionCtx.steps[step.order] = {
-              input: resolvedInput, output: result.output,
-              status: "completed", durationMs: stepDuration,
-            };
-            void prisma.workflowStep.update({
-              where: { id: step.id },
-              data: { executionCount: { increment: 1 }, lastExecutedAt: new Date(), lastError: null },
-            }).catch(() => {});
-          } else {
-            const stepDuration2 = Date.now() - stepStart;
-            await workflowService.failStepRun(stepRunId, result.error ?? "Unknown error", stepDuration2);
-            executionCtx.steps[step.order] = {
-              input: resolvedInput, output: null,
-              error: result.error ?? "Unknown error",
-              status: "failed", durationMs: stepDuration2,
-            };
-            void prisma.workflowStep.update({
-              where: { id: step.id },
-              data: { executionCount: { increment: 1 }, lastExecutedAt: new Date(), lastError: result.error ?? "Unknown error" },
-            }).catch(() => {});
-
-            if (step.onError !== "continue") {
-              throw new StepFailedError(step.order, result.error ?? "Step execution failed");
-            }
-          }
-        } catch (error) {
-          if (error instanceof StepFailedError) throw error;
-          const stepDuration = Date.now() - stepStart;
-          const errorMsg = error instanceof Error ? error.message : String(error);
-          await workflowService.failStepRun(stepRunId, errorMsg, stepDuration);
-          executionCtx.steps[step.order] = {
-            input: null, output: null, error: errorMsg,
-            status: "failed", durationMs: stepDuration,
+    const outcome: { finished?: Parameters<NonNullable<WorkflowRunHooks["onRunFinished"]>>[0] } = {};
+    try {
+      await executeWorkflowInternal(calleeId, SUB_WORKFLOW_TRIGGERED_BY, input, {
+        dryRun: options?.dryRun,
+        captureLogs: options?.captureLogs,
+        parent: { runId, depth },
+        hooks: { onRunFinished: (finished) => { outcome.finished = finished; } },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, error: `Sub-workflow could not start: ${message}` };
+    }
+
+    const finished = outcome.finished;
+    if (!finished) {
+      return { success: false, error: "Sub-workflow did not finish" };
+    }
+    if (finished.status === "failed") {
+      return { success: false, error: `Sub-workflow failed: ${finished.error}` };
+    }
+    const outputProblems = checkSubWorkflowOutput(contract, finished.output);
+    if (outputProblems.length > 0) {
+      return { success: false, error: `Invalid sub-workflow output: ${outputProblems.join("; ")}` };
+    }
+    return { success: true, output: finished.output };
+  };
+
+  /**
+   * Run a foreach step's body once per item, at most `maxParallel` items at
+   * a time. Each iteration starts from a copy of the enclosing scope with
+   * the foreach step's output set to the item. The step's own output is the
+   * array of iteration outputs (each iteration's last completed step).
+   */
+  const runForeach = async (
+    step: ExecutableStep,
+    stepRunId: string,
+    input: unknown,
+    scope: StepScope,
+  ): Promise<StepExecutionResult> => {
+    if (scope.loop) {
+      return { success: false, error: "Nested foreach steps are not supported" };
+    }
+    const items = parseLoopItems((input as Record<string, unknown> | null)?.items);
+    if (!items) {
+      return { success: false, error: "Foreach input \"items\" must be an array" };
+    }
+    if (items.length > MAX_LOOP_ITEMS) {
+      return {
+        success: false,
+        error: `Foreach received ${items.length} items (max ${MAX_LOOP_ITEMS})`,
+      };
+    }
+
+    const body = loopBodies.get(step.id) ?? new Set<string>();
+    const bodyLayers = buildExecutionLayers(
+      workflow.steps.filter((s) => body.has(s.id)),
+      workflow.edges,
+    );
+
+    try {
+      const outputs = await runWithConcurrency(
+        items,
+        getLoopParallelism(step.config as Record<string, unknown>),
+        async (item, index) => {
+          const iteration: StepScope = {
+            steps: { ...scope.steps },
+            outputs: new Map(scope.outputs).set(step.id, item),
+            branch: {
+              routers: scope.branch.routers,
+              emittedPorts: new Map(scope.branch.emittedPorts).set(step.id, [FOREACH_EACH_PORT]),
+              unreachable: new Set(scope.branch.unreachable),
+            },
+            lastOutput: item,
+            loop: { index, item, parentStepRunId: stepRunId },
           };
-          if (step.onError !== "continue") {
-            throw new StepFailedError(step.order, errorMsg);
+          for (const layer of bodyLayers) {
+            const results = await Promise.allSettled(layer.map((id) => runStep(id, iteration)));
+            const failed = results.find((r) => r.status === "rejected");
+            if (failed?.status === "rejected") {
+              const reason = failed.reason as Error;
+              const at = reason instanceof StepFailedError ? ` at step ${reason.stepOrder}` : "";
+              throw new Error(`Iteration ${index} failed${at}: ${reason.message}`);
+            }
           }
-        }
-      })
+          return iteration.lastOutput;
+        },
+      );
+      return { success: true, output: outputs, ports: [FOREACH_DONE_PORT] };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  };
+
+  for (const layer of executionLayers) {
+    // Execute all steps in this layer in parallel
+    const layerResults = await Promise.allSettled(
+      layer
+        .filter((stepId) => !settled.has(stepId))
+        .map(async (stepId) => {
+          await runStep(stepId, rootScope);
+          settled.add(stepId);
+        }),
     );
 
     // Check if any step in this layer had a fatal failure
@@ -472,18 +1092,84 @@ async function executeWorkflowInternal(
         if (options?.captureLogs && stepLogsByOrder.size > 0) {
           await persistStepLogs(runId, stepLogsByOrder);
         }
+        for (const wait of pendingWaits) {
+          await workflowService.skipStepRun(wait.stepRunId);
+        }
+        const error = result.reason.message;
+        callHook(runId, "onRunFinished", () => hooks?.onRunFinished?.({ status: "failed", error }));
+        emitRunEvent({ type: "run_finished", workflowId, runId, status: "failed", durationMs: totalDuration, error });
+        if (!options?.dryRun && !options?.parent) {
+          emitRunCompleted(workflow, runId, triggeredBy, triggerData, { status: "failed", durationMs: totalDuration, error });
+        }
+        // Sub-workflow failures surface in the caller's run instead, and a
+        // failure handler never triggers another one.
+        if (
+          workflow.onFailureWorkflowId && !options?.dryRun && !options?.parent &&
+          triggeredBy !== ON_FAILURE_TRIGGERED_BY
+        ) {
+          const failedStep = workflow.steps.find((s) => s.order === result.reason.stepOrder);
+          startFailureWorkflow(workflow.onFailureWorkflowId, {
+            workflowId,
+            workflowName: workflow.name,
+            runId,
+            triggeredBy,
+            triggerData,
+            error,
+            failedStepOrder: result.reason.stepOrder,
+            failedStepName: failedStep?.name ?? undefined,
+            failedPluginSlug: failedStep?.plugin.slug,
+            startedAt: new Date(startTime).toISOString(),
+            steps: rootScope.steps,
+          });
+        }
         return runId;
       }
     }
+
+    // A delay / wait step ran: persist state and hand the rest of the run
+    // to a delayed queue job (or the chat reply it waits for).
+    if (pendingWaits.length > 0) {
+      await scheduleResume(workflowId, runId, {
+        options: {
+          dryRun: options?.dryRun,
+          captureLogs: options?.captureLogs,
+          allowDraft: options?.allowDraft,
+        },
+        idempotencyKey,
+        steps: rootScope.steps,
+        outputs: Object.fromEntries(rootScope.outputs),
+        emittedPorts: Object.fromEntries(rootScope.branch.emittedPorts),
+        unreachable: [...rootScope.branch.unreachable],
+        settled: [...settled],
+        lastOutput: rootScope.lastOutput,
+        reply,
+        variables: executionCtx.variables,
+        waits: pendingWaits,
+      }, startTime, pendingWaits.some((w) => w.awaitsReply) ? getTriggerWaitKey(triggerData) : null);
+      emitRunEvent({
+        type: "run_finished", workflowId, runId, status: "waiting", durationMs: Date.now() - startTime,
+      });
+      if (options?.captureLogs && stepLogsByOrder.size > 0) {
+        await persistStepLogs(runId, stepLogsByOrder);
+      }
+      return runId;
+    }
   }
 
   // All steps completed successfully
   const totalDuration = Date.now() - startTime;
-  await workflowService.completeRun(runId, lastOutput, totalDuration);
+  await workflowService.completeRun(runId, rootScope.lastOutput, totalDuration);
   execLogger.info(
     { workflowId, runId, durationMs: totalDuration, stepCount: workflow.steps.length },
     "Workflow execution completed"
   );
+  callHook(runId, "onRunFinished", () =>
+    hooks?.onRunFinished?.({ status: "completed", output: rootScope.lastOutput }),
+  );
+  emitRunEvent({ type: "run_finished", workflowId, runId, status: "completed", durationMs: totalDuration });
+  if (!options?.dryRun && !options?.parent) {
+    emitRunCompleted(workflow, runId, triggeredBy, triggerData, { status: "completed", durationMs: totalDuration });
+  }
 
   // Flush captured plugin logs into the run record (Test mode only)
   if (options?.captureLogs && stepLogsByOrder.size > 0) {
@@ -493,10 +1179,11 @@ async function executeWorkflowInternal(
   // ── Auto-reply for BOT_MESSAGE workflows ──────────────────────────
   // When a BOT_MESSAGE workflow completes, send the last step's output
   // back to the originating chat so the user gets a reply on Telegram/etc.
+  // Sub-workflow runs hand their output back to the caller instead.
   if (options?.dryRun) {
     await appendRunLog(runId, "[DRY RUN] Auto-reply skipped — no real messages sent.");
-  } else {
-    await sendAutoReply(workflow, runId, triggerData, lastOutput);
+  } else if (!options?.parent) {
+    await sendAutoReply(workflow, runId, triggerData, rootScope.lastOutput);
   }
 
   return runId;
@@ -517,6 +1204,86 @@ class StepFailedError extends Error {
   }
 }
 
+/**
+ * Start a workflow's on-failure target with the failed run's context.
+ * Fire-and-forget: the failed run is already recorded, so a handler that
+ * is inactive or fails to start is only logged.
+ */
+function startFailureWorkflow(targetId: string, data: WorkflowFailureTriggerData): void {
+  executeWorkflow(targetId, ON_FAILURE_TRIGGERED_BY, data).then(
+    (handlerRunId) => execLogger.info(
+      { workflowId: data.workflowId, runId: data.runId, handlerWorkflowId: targetId, handlerRunId },
+      "Started on-failure workflow",
+    ),
+    (err) => execLogger.warn(
+      {
+        workflowId: data.workflowId, runId: data.runId, handlerWorkflowId: targetId,
+        error: err instanceof Error ? err.message : String(err),
+      },
+      "Could not start on-failure workflow",
+    ),
+  );
+}
+
+/**
+ * Publish the `workflow.completed` platform event of a finished run.
+ */
+function emitRunCompleted(
+  workflow: { id: string; name: string; userId: string; organizationId: string | null },
+  runId: string,
+  triggeredBy: string,
+  triggerData: unknown,
+  result: { status: "completed" | "failed"; durationMs: number; error?: string },
+): void {
+  emitPlatformEvent({
+    name: "workflow.completed",
+    userId: workflow.userId,
+    organizationId: workflow.organizationId,
+    data: { workflowId: workflow.id, workflowName: workflow.name, runId, triggeredBy, ...result },
+    causedBy: runEventChain(workflow.id, triggeredBy, triggerData),
+  });
+}
+
+/**
+ * Move a run to "waiting" and schedule its resume job for the latest of its
+ * pending waits. If the job can't be queued the run fails rather than
+ * waiting forever. With a `waitKey`, a chat reply resumes the run first.
+ */
+async function scheduleResume(
+  workflowId: string,
+  runId: string,
+  state: PausedRunState,
+  startTime: number,
+  waitKey: string | null,
+): Promise<void> {
+  const resumeAt = new Date(Math.max(...state.waits.map((w) => new Date(w.resumeAt).getTime())));
+  await workflowService.pauseRun(runId, resumeAt, state, waitKey);
+  try {
+    await enqueueWorkflowResume({ workflowId, runId, resumeAt });
+  } catch (err) {
+    const message = `Could not schedule resume: ${err instanceof Error ? err.message : String(err)}`;
+    for (const wait of state.waits) {
+      await workflowService.failStepRun(wait.stepRunId, message, Date.now() - new Date(wait.startedAt).getTime());
+    }
+    await workflowService.failRun(runId, message, state.waits[0]?.stepOrder ?? null, Date.now() - startTime);
+    execLogger.error({ workflowId, runId, error: message }, "Failed to pause workflow run");
+    return;
+  }
+  execLogger.info({ workflowId, runId, resumeAt }, "Workflow run waiting");
+}
+
+/** Invoke a run hook, logging (never propagating) anything it throws. */
+function callHook(runId: string, name: keyof WorkflowRunHooks, fn: () => void): void {
+  try {
+    fn();
+  } catch (err) {
+    execLogger.warn(
+      { runId, hook: name, error: err instanceof Error ? err.message : String(err) },
+      "Workflow run hook threw — ignoring",
+    );
+  }
+}
+
 /**
  * Build execution layers from the workflow graph (topological sort).
  * Each layer contains step IDs that can run in parallel (all their dependencies are in earlier layers).
@@ -684,6 +1451,27 @@ function buildStepEvent(
           gatewayId
         );
         break;
+
+      case "webchat":
+        platformEvent = transformWebChatMessage(
+          td.rawUpdate as WebChatInboundMessage,
+          gatewayId
+        );
+        break;
+
+      case "email":
+        platformEvent = transformEmailMessage(
+          td.rawUpdate as EmailInboundMessage,
+          gatewayId
+        );
+        break;
+
+      case "matrix":
+        platformEvent = transformMatrixMessage(
+          td.rawUpdate as MatrixInboundMessage,
+          gatewayId
+        );
+        break;
     }
 
     if (platformEvent) {
@@ -709,6 +1497,11 @@ function buildStepEvent(
 
 /**
  * Execute a single step with optional retry logic.
+ *
+ * Each attempt gets its own abort signal that fires at the step timeout, so
+ * the plugin is cancelled rather than left running in the background. Both
+ * thrown errors and `{ success: false }` results are retried, following the
+ * step's retry policy for the delay and which failures qualify.
  */
 async function executeStepWithRetry(
   pluginSlug: string,
@@ -716,45 +1509,59 @@ async function executeStepWithRetry(
   context: PluginContext,
   onError: "stop" | "continue" | "retry",
   maxRetries: number,
+  retryPolicy: StepRetryPolicy,
   stepTimeoutMs?: number
-): Promise<{ success: boolean; output?: unknown; error?: string }> {
+): Promise<StepExecutionResult> {
   const executor = getPluginExecutor();
   const attempts = onError === "retry" ? maxRetries + 1 : 1;
   const timeoutMs = stepTimeoutMs && stepTimeoutMs > 0 ? stepTimeoutMs : STEP_TIMEOUT_MS;
 
-  let lastError: string | undefined;
+  let lastResult: StepExecutionResult = { success: false, error: "All retry attempts exhausted" };
+  let attempt = 0;
 
-  for (let attempt = 0; attempt < attempts; attempt++) {
+  while (attempt < attempts) {
     if (attempt > 0) {
+      const delayMs = computeRetryDelay(retryPolicy, attempt);
       execLogger.debug(
-        { pluginSlug, attempt, maxRetries },
+        { pluginSlug, attempt, maxRetries, delayMs },
         "Retrying step execution"
       );
-      // Exponential backoff: 1s, 2s, 4s...
-      await sleep(Math.min(1000 * 2 ** (attempt - 1), 10_000));
+      await sleep(delayMs);
     }
+    attempt++;
 
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new StepTimeoutError(timeoutMs)), timeoutMs);
+    let failure: unknown;
     try {
-      const result = await Promise.race([
-        executor.execute(pluginSlug, event, context),
-        timeout(timeoutMs),
-      ]);
-
-      return {
+      const result = await executor.execute(pluginSlug, event, { ...context, signal: controller.signal });
+      lastResult = {
         success: result.success,
         output: result.output,
         error: result.error,
+        ports: result.ports,
       };
+      if (result.success) return lastResult;
+      failure = result.error;
     } catch (error) {
-      lastError = error instanceof Error ? error.message : String(error);
-      execLogger.warn(
-        { pluginSlug, attempt, error: lastError },
-        "Step execution attempt failed"
-      );
+      failure = error;
+      lastResult = { success: false, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      clearTimeout(timer);
     }
+
+    const errorClass = classifyStepError(failure);
+    execLogger.warn(
+      { pluginSlug, attempt, errorClass, error: lastResult.error },
+      "Step execution attempt failed"
+    );
+    if (!retryPolicy.retryOn.includes(errorClass)) break;
   }
 
-  return { success: false, error: lastError ?? "All retry attempts exhausted" };
+  if (attempt > 1) {
+    lastResult.error = `${lastResult.error ?? "Step execution failed"} (after ${attempt} attempts)`;
+  }
+  return lastResult;
 }
 
 /**
@@ -773,7 +1580,7 @@ async function buildPluginContext(
   gatewayId: string | null | undefined,
   gatewayActionsEnabled = false,
   runCache?: WorkflowRunCache,
-  stepOverrides?: { entryFile?: string | null; userPluginId?: string | null; idempotencyKey?: string },
+  stepOverrides?: { entryFile?: string | null; userPluginId?: string | null; runId?: string; idempotencyKey?: string },
   projectSecrets: Record<string, string> = {}
 ): Promise<PluginContext> {
   // Cache key for userPlugin: scoped to plugin + gateway
@@ -867,6 +1674,7 @@ async function buildPluginContext(
 
   // Gateway actions: muted by default to treat plugins as services.
   // When gatewayActionsEnabled is true, the plugin can send messages to the platform.
+  const actionContext = { workflowRunId: stepOverrides?.runId };
   const executeGateway = gatewayActionsEnabled && gatewayId
     ? async (gId: string, action: string, params: unknown) => {
         const gw = await prisma.gateway.findUnique({ where: { id: gId } });
@@ -874,12 +1682,12 @@ async function buildPluginContext(
         const provider = gatewayRegistry.get(gw.type);
         const credentials = gatewayService.getDecryptedCredentials(gw);
         try {
-          return await provider.execute(gId, action, params);
+          return await provider.execute(gId, action, params, actionContext);
         } catch (execErr) {
           const msg = execErr instanceof Error ? execErr.message : "";
           if (msg.includes("not connected") || msg.includes("Not connected")) {
             await provider.connect(gId, credentials, (gw.config as Record<string, unknown>) ?? {});
-            return provider.execute(gId, action, params);
+            return provider.execute(gId, action, params, actionContext);
           }
           throw execErr;
         }
@@ -921,12 +1729,6 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-function timeout(ms: number): Promise<never> {
-  return new Promise((_, reject) => {
-    setTimeout(() => reject(new Error(`Step execution timed out after ${ms}ms`)), ms);
-  });
-}
-
 // ===========================================
 // Auto-Reply
 // ===========================================
@@ -959,17 +1761,18 @@ async function sendTelegramDirect(
   botToken: string,
   chatId: string | number,
   text: string
-): Promise<void> {
+): Promise<unknown> {
   const url = `https://api.telegram.org/bot${botToken}/sendMessage`;
   const res = await fetch(url, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ chat_id: chatId, text }),
   });
-  const data = (await res.json()) as { ok: boolean; description?: string; error_code?: number };
+  const data = (await res.json()) as { ok: boolean; result?: unknown; description?: string; error_code?: number };
   if (!data.ok) {
     throw new Error(`Telegram API error ${data.error_code}: ${data.description}`);
   }
+  return data.result;
 }
 
 /**
@@ -1001,12 +1804,10 @@ async function sendAutoReply(
     return;
   }
 
-  // Extract chat ID from trigger data
-  const td = triggerData as Record<string, unknown> | undefined;
-  const msgData = (td?.message ?? td) as Record<string, unknown> | undefined;
-  const chatId = msgData?.chatId ?? msgData?.chat_id;
+  const chatId = getReplyChatId(triggerData);
 
   if (!chatId) {
+    const td = triggerData as Record<string, unknown> | undefined;
     execLogger.warn(
       { workflowId: workflow.id, runId, triggerDataKeys: td ? Object.keys(td) : [] },
       "Auto-reply skipped: chatId not found in trigger data"
@@ -1032,29 +1833,7 @@ async function sendAutoReply(
   }
 
   try {
-    if (gw.type === "TELEGRAM_BOT") {
-      // Bypass provider connection system — send directly via Telegram HTTP API
-      const credentials = gatewayService.getDecryptedCredentials(gw) as { botToken?: string };
-      if (!credentials.botToken) {
-        throw new Error("Bot token not found in gateway credentials");
-      }
-      await sendTelegramDirect(credentials.botToken, chatId as string | number, replyText);
-    } else {
-      // For other gateway types, use the provider system with reconnect fallback
-      const provider = gatewayRegistry.get(gw.type);
-      const credentials = gatewayService.getDecryptedCredentials(gw);
-      try {
-        await provider.execute(gw.id, "sendMessage", { chat_id: chatId, text: replyText });
-      } catch (sendErr) {
-        const msg = sendErr instanceof Error ? sendErr.message : "";
-        if (msg.includes("not connected") || msg.includes("Not connected") || msg.includes("unavailable")) {
-          await provider.connect(gw.id, credentials, (gw.config as Record<string, unknown>) ?? {});
-          await provider.execute(gw.id, "sendMessage", { chat_id: chatId, text: replyText });
-        } else {
-          throw sendErr;
-        }
-      }
-    }
+    await deliverChatMessage(gw, chatId, replyText, runId);
 
     execLogger.info(
       { workflowId: workflow.id, runId, gatewayId: gw.id, chatId, gwType: gw.type },
@@ -1071,6 +1850,74 @@ async function sendAutoReply(
   }
 }
 
+/**
+ * Send a message to the chat a bot-message trigger came from, outside any
+ * run — e.g. the over-limit reply for a message a rate limit dropped.
+ * Does nothing when the chat or gateway can't be found.
+ */
+export async function sendTriggerReply(
+  gatewayId: string,
+  triggerData: unknown,
+  text: string
+): Promise<void> {
+  const chatId = getReplyChatId(triggerData);
+  if (!chatId) return;
+  const gw = await prisma.gateway.findUnique({ where: { id: gatewayId } });
+  if (!gw) return;
+  await deliverChatMessage(gw, chatId, text);
+}
+
+/** The chat ID in bot-message trigger data, or null. */
+function getReplyChatId(triggerData: unknown): string | number | null {
+  const td = triggerData as Record<string, unknown> | undefined;
+  const msgData = (td?.message ?? td) as Record<string, unknown> | undefined;
+  const chatId = msgData?.chatId ?? msgData?.chat_id;
+  return typeof chatId === "string" || typeof chatId === "number" ? chatId : null;
+}
+
+/**
+ * Send a text message to a chat through a gateway. Telegram goes straight
+ * to the Bot API; other platforms use their provider, reconnecting once if
+ * the provider has no live connection. `runId` links the message log entry
+ * to the run that replied.
+ */
+async function deliverChatMessage(
+  gw: Gateway,
+  chatId: string | number,
+  text: string,
+  runId?: string
+): Promise<void> {
+  const params = { chat_id: chatId, text };
+
+  if (gw.type === "TELEGRAM_BOT") {
+    // Bypass provider connection system — send directly via Telegram HTTP API
+    const credentials = gatewayService.getDecryptedCredentials(gw) as { botToken?: string };
+    if (!credentials.botToken) {
+      throw new Error("Bot token not found in gateway credentials");
+    }
+    const sent = await sendTelegramDirect(credentials.botToken, chatId, text);
+    // Not through provider.execute, so log here
+    void gatewayMessageService.recordOutbound(gw.id, "sendMessage", params, sent, runId);
+    return;
+  }
+
+  // For other gateway types, use the provider system with reconnect fallback
+  const provider = gatewayRegistry.get(gw.type);
+  const credentials = gatewayService.getDecryptedCredentials(gw);
+  const context = { workflowRunId: runId };
+  try {
+    await provider.execute(gw.id, "sendMessage", params, context);
+  } catch (sendErr) {
+    const msg = sendErr instanceof Error ? sendErr.message : "";
+    if (msg.includes("not connected") || msg.includes("Not connected") || msg.includes("unavailable")) {
+      await provider.connect(gw.id, credentials, (gw.config as Record<string, unknown>) ?? {});
+      await provider.execute(gw.id, "sendMessage", params, context);
+    } else {
+      throw sendErr;
+    }
+  }
+}
+
 /**
  * Persist captured per-step plugin logs into the WorkflowRun.output JSON
  * under the `_stepLogs` key (map of stepOrder → log lines).
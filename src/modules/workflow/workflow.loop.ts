@@ -0,0 +1,98 @@
+/**
+ * Workflow Loops
+ *
+ * Helpers behind the foreach step. The loop body is every step reachable
+ * from the foreach's `each` port; the executor keeps those steps out of
+ * the main pass and runs them once per item instead, each iteration with
+ * its own step outputs and branch state.
+ *
+ * @module modules/workflow/workflow.loop
+ */
+
+import { FOREACH_EACH_PORT } from "@/shared/constants/workflow-ports";
+
+import type { BranchEdge } from "./workflow.branching";
+
+/** Upper bound on items a single foreach step will iterate. */
+export const MAX_LOOP_ITEMS = 1000;
+
+/** Upper bound on the foreach `maxParallel` setting. */
+export const MAX_LOOP_PARALLEL = 10;
+
+/**
+ * Step IDs in the body of a foreach step: the targets of its `each` edges
+ * and everything downstream of them.
+ */
+export function collectLoopBody(
+  foreachStepId: string,
+  edges: readonly BranchEdge[],
+): Set<string> {
+  const body = new Set<string>();
+  const queue = edges
+    .filter((e) => e.sourceStepId === foreachStepId && e.sourcePort === FOREACH_EACH_PORT)
+    .map((e) => e.targetStepId);
+
+  let id: string | undefined;
+  while ((id = queue.shift()) !== undefined) {
+    if (id === foreachStepId || body.has(id)) continue;
+    body.add(id);
+    for (const e of edges) {
+      if (e.sourceStepId === id) queue.push(e.targetStepId);
+    }
+  }
+  return body;
+}
+
+/**
+ * Normalise the foreach `items` input. Accepts an array or a JSON string
+ * encoding one (mixed templates always resolve to strings). Returns null
+ * for anything else.
+ */
+export function parseLoopItems(value: unknown): unknown[] | null {
+  if (Array.isArray(value)) return value;
+  if (typeof value !== "string") return null;
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Clamp the configured `maxParallel` to 1..MAX_LOOP_PARALLEL. */
+export function getLoopParallelism(config: Record<string, unknown> | null | undefined): number {
+  const raw = Number(config?.maxParallel);
+  if (!Number.isFinite(raw)) return 1;
+  return Math.min(MAX_LOOP_PARALLEL, Math.max(1, Math.floor(raw)));
+}
+
+/**
+ * Map `items` through `fn` with at most `limit` calls in flight. Results
+ * keep input order. After the first rejection no further items start; the
+ * call rejects with that error once in-flight items settle.
+ */
+export async function runWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const failures: unknown[] = [];
+
+  async function worker(): Promise<void> {
+    while (failures.length === 0 && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index] as T, index);
+      } catch (error) {
+        failures.push(error);
+      }
+    }
+  }
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, () => worker()));
+  if (failures.length > 0) throw failures[0];
+  return results;
+}
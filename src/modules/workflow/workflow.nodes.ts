@@ -0,0 +1,124 @@
+/**
+ * Core Nodes
+ *
+ * Executor-side helpers for the built-in steps that work on run state
+ * rather than calling anything: set-variable writes the run's variables
+ * (`{{vars.<name>}}`) and transform resolves a JSON template against the
+ * step's template context. HTTP request and AI prompt steps are ordinary
+ * in-process plugins (see `modules/plugin/handlers/core`).
+ *
+ * Variables live on the run: they survive pauses and are rebuilt for
+ * retries from the completed set-variable steps. Foreach iterations share
+ * them, so parallel iterations writing one name race — last write wins.
+ *
+ * @module modules/workflow/workflow.nodes
+ */
+
+import { SET_VARIABLE_PLUGIN_SLUG, TRANSFORM_PLUGIN_SLUG } from "@/modules/plugin/handlers/core";
+
+import { resolveTemplateValue, validateTemplate } from "./template.engine";
+import type { TemplateContext } from "./workflow.types";
+
+/** Upper bound on distinct variables per run */
+export const MAX_RUN_VARIABLES = 100;
+
+/** Names must be readable as a template path segment */
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_-]{0,63}$/;
+
+type NodeResult = { success: true; output: unknown } | { success: false; error: string };
+
+/**
+ * Store each field of a set-variable step's resolved input as a run
+ * variable.
+ *
+ * @returns The variables set, as the step output
+ */
+export function setRunVariables(variables: Record<string, unknown>, input: unknown): NodeResult {
+  const values = input && typeof input === "object" && !Array.isArray(input)
+    ? (input as Record<string, unknown>)
+    : {};
+  const names = Object.keys(values);
+  if (names.length === 0) {
+    return { success: false, error: "Set variable step has no inputs to store" };
+  }
+  const invalid = names.find((name) => !VARIABLE_NAME.test(name));
+  if (invalid !== undefined) {
+    return { success: false, error: `Invalid variable name "${invalid}"` };
+  }
+  const total = new Set([...Object.keys(variables), ...names]).size;
+  if (total > MAX_RUN_VARIABLES) {
+    return { success: false, error: `A run can hold at most ${MAX_RUN_VARIABLES} variables` };
+  }
+  Object.assign(variables, values);
+  return { success: true, output: { ...values } };
+}
+
+/**
+ * A transform step's template: the configured JSON document, or the raw
+ * string when it isn't JSON (a single template like `{{prev.output.items}}`).
+ */
+function readTransformTemplate(config: Record<string, unknown>): unknown {
+  const raw = config.template;
+  if (typeof raw !== "string") return raw;
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return raw;
+  }
+}
+
+/** Resolve a transform step's template; the result is the step output. */
+export function runTransform(config: Record<string, unknown>, context: TemplateContext): NodeResult {
+  const template = readTransformTemplate(config);
+  if (template === undefined || template === null || template === "") {
+    return { success: false, error: "Transform step has no template" };
+  }
+  try {
+    return { success: true, output: resolveTemplateValue(template, context) };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Transform template: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Static check of a core node step's setup, for preflight.
+ *
+ * @returns The first problem found, or null
+ */
+export function describeCoreNodeProblem(
+  pluginSlug: string | undefined,
+  config: unknown,
+  inputMapping: unknown,
+): string | null {
+  if (pluginSlug === SET_VARIABLE_PLUGIN_SLUG) {
+    const names = Object.keys((inputMapping ?? {}) as Record<string, unknown>);
+    if (names.length === 0) return "Set variable step has no inputs to store";
+    const invalid = names.find((name) => !VARIABLE_NAME.test(name));
+    return invalid === undefined
+      ? null
+      : `Variable name "${invalid}" must start with a letter or "_" and use only letters, digits, "_" and "-"`;
+  }
+  if (pluginSlug === TRANSFORM_PLUGIN_SLUG) {
+    const template = readTransformTemplate((config ?? {}) as Record<string, unknown>);
+    if (template === undefined || template === null || template === "") {
+      return "Transform step has no template";
+    }
+    return firstTemplateProblem(template);
+  }
+  return null;
+}
+
+function firstTemplateProblem(value: unknown): string | null {
+  if (typeof value === "string") return validateTemplate(value);
+  const items = Array.isArray(value)
+    ? value
+    : value && typeof value === "object" ? Object.values(value) : [];
+  for (const item of items) {
+    const problem = firstTemplateProblem(item);
+    if (problem) return problem;
+  }
+  return null;
+}
@@ -0,0 +1,306 @@
+/**
+ * Workflow Export / Import Format
+ *
+ * Converts a workflow to and from a portable document (JSON or YAML) that
+ * can move between personal and org workspaces, live in git, or be shared.
+ * Nothing in the document is a database ID: plugins are referenced by slug,
+ * and gateways, called workflows and the project resources step config
+ * points at by symbolic refs listed under `references`, which the importer
+ * binds to their own gateways / workflows / resources.
+ *
+ * Bump `version` (and keep reading the old one) when the shape changes.
+ *
+ * @module modules/workflow/workflow.portable
+ */
+
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+
+import { HTTP_REQUEST_PLUGIN_SLUG } from "@/modules/plugin/handlers/core";
+import { SUB_WORKFLOW_PLUGIN_SLUG } from "@/modules/plugin/handlers/sub-workflow";
+import { ValidationError } from "@/shared/errors";
+
+import { workflowExportDocumentSchema, type WorkflowExportDocument } from "./workflow.validation";
+
+export type WorkflowExportFormat = "json" | "yaml";
+
+/**
+ * Step config fields that hold a project resource ID, with the resource
+ * kind, by plugin slug. Add an entry when a built-in node gains one.
+ */
+const RESOURCE_CONFIG_FIELDS: Readonly<Record<string, Readonly<Record<string, string>>>> = {
+  [HTTP_REQUEST_PLUGIN_SLUG]: { resourceId: "EXTERNAL_API" },
+};
+
+/** Resource-ID config fields of a step's plugin (field → resource kind) */
+export function resourceConfigFields(pluginSlug: string): Readonly<Record<string, string>> {
+  return RESOURCE_CONFIG_FIELDS[pluginSlug] ?? {};
+}
+
+interface ExportSource {
+  workflow: {
+    name: string;
+    description: string | null;
+    slug: string;
+    scope: string;
+    triggerType: string;
+    triggerConfig: unknown;
+    gatewayId: string | null;
+    onFailureWorkflowId?: string | null;
+    concurrencyKey?: string | null;
+    rateLimit?: unknown;
+  };
+  steps: Array<{
+    id: string;
+    order: number;
+    name: string | null;
+    positionX: number;
+    positionY: number;
+    isEnabled: boolean;
+    inputMapping: unknown;
+    config: unknown;
+    gatewayId: string | null;
+    condition: unknown;
+    onError: string;
+    maxRetries: number;
+    retryPolicy?: unknown;
+    storageQuotaMb: number;
+    plugin: { slug: string };
+  }>;
+  edges: Array<{
+    sourceStepId: string | null;
+    targetStepId: string;
+    sourcePort: string;
+    targetPort: string;
+  }>;
+  /** Gateways the workflow or its steps are bound to, by ID */
+  gateways: ReadonlyMap<string, { name: string; type: string }>;
+  /** Workflows its sub-workflow steps call (and its on-failure workflow), by ID */
+  workflows: ReadonlyMap<string, { name: string; slug: string }>;
+  /** Project resources its step configs point at, by ID */
+  resources: ReadonlyMap<string, { name: string; slug: string; kind: string }>;
+}
+
+/** Lowercase, dash-separated ref derived from a display name. */
+function toRef(name: string, fallback: string): string {
+  const ref = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60);
+  return ref || fallback;
+}
+
+/**
+ * Build the portable document for a workflow. Gateway IDs become refs
+ * derived from the gateway name, sub-workflow steps name the workflow they
+ * call by slug instead of `config.workflowId` (as does `onFailure`), and
+ * resource-ID config fields move to the step's `resources`, as refs
+ * derived from the resource slug.
+ *
+ * @throws ValidationError when a gateway, workflow or resource can't be
+ *   found (deleted, or outside the workflow's project) — exporting the raw
+ *   ID would break on import
+ */
+export function toExportDocument(source: ExportSource): WorkflowExportDocument {
+  const gatewayRefs = new Map<string, string>();
+  const resourceRefs = new Map<string, string>();
+  const references: WorkflowExportDocument["references"] = { gateways: [], workflows: [], resources: [] };
+  const errors: Record<string, string[]> = {};
+  const unresolved = (path: string, message: string) => {
+    (errors[path] ??= []).push(message);
+    return undefined;
+  };
+
+  const gatewayRef = (gatewayId: string | null, path: string): string | undefined => {
+    if (!gatewayId) return undefined;
+    const existing = gatewayRefs.get(gatewayId);
+    if (existing) return existing;
+    const gateway = source.gateways.get(gatewayId);
+    if (!gateway) return unresolved(path, "Bound gateway no longer exists");
+
+    const base = toRef(gateway.name, "gateway");
+    let ref = base;
+    for (let n = 2; references.gateways.some((g) => g.ref === ref); n++) ref = `${base}-${n}`;
+    gatewayRefs.set(gatewayId, ref);
+    references.gateways.push({ ref, name: gateway.name, type: gateway.type });
+    return ref;
+  };
+
+  const workflowRef = (workflowId: unknown, path: string): string | undefined => {
+    if (workflowId === undefined || workflowId === null || workflowId === "") return undefined;
+    const callee = typeof workflowId === "string" ? source.workflows.get(workflowId) : undefined;
+    if (!callee) return unresolved(path, "Workflow not found in this workflow's project");
+    if (!references.workflows.some((w) => w.ref === callee.slug)) {
+      references.workflows.push({ ref: callee.slug, name: callee.name });
+    }
+    return callee.slug;
+  };
+
+  const resourceRef = (resourceId: unknown, kind: string, path: string): string | undefined => {
+    if (resourceId === undefined || resourceId === null || resourceId === "") return undefined;
+    const id = String(resourceId);
+    const existing = resourceRefs.get(id);
+    if (existing) return existing;
+    const resource = source.resources.get(id);
+    if (!resource || resource.kind !== kind) {
+      return unresolved(path, `${kind} resource not found in this workflow's project`);
+    }
+
+    let ref = resource.slug;
+    for (let n = 2; references.resources.some((r) => r.ref === ref); n++) ref = `${resource.slug}-${n}`;
+    resourceRefs.set(id, ref);
+    references.resources.push({ ref, name: resource.name, kind: resource.kind });
+    return ref;
+  };
+
+  const steps = [...source.steps].sort((a, b) => a.order - b.order);
+  const keys = new Map(steps.map((s, i) => [s.id, `step-${i + 1}`]));
+
+  const workflowGateway = gatewayRef(source.workflow.gatewayId, "workflow.gateway");
+  const document: WorkflowExportDocument = {
+    format: "2bot.workflow",
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    workflow: {
+      name: source.workflow.name,
+      description: source.workflow.description ?? undefined,
+      slug: source.workflow.slug,
+      scope: source.workflow.scope as WorkflowExportDocument["workflow"]["scope"],
+      triggerType: source.workflow.triggerType as WorkflowExportDocument["workflow"]["triggerType"],
+      triggerConfig: (source.workflow.triggerConfig ?? {}) as Record<string, unknown>,
+      gateway: workflowGateway,
+      onFailure: workflowRef(source.workflow.onFailureWorkflowId, "workflow.onFailure"),
+      concurrencyKey: source.workflow.concurrencyKey ?? undefined,
+      rateLimit: source.workflow.rateLimit
+        ? (source.workflow.rateLimit as WorkflowExportDocument["workflow"]["rateLimit"])
+        : undefined,
+    },
+    steps: steps.map((s, i) => {
+      const config = { ...(s.config as Record<string, unknown> | null) };
+      let workflow: string | undefined;
+      if (s.plugin.slug === SUB_WORKFLOW_PLUGIN_SLUG) {
+        workflow = workflowRef(config.workflowId, `steps.${i}.config.workflowId`);
+        delete config.workflowId;
+      }
+      const resources: Record<string, string> = {};
+      for (const [field, kind] of Object.entries(resourceConfigFields(s.plugin.slug))) {
+        const ref = resourceRef(config[field], kind, `steps.${i}.config.${field}`);
+        if (ref) resources[field] = ref;
+        delete config[field];
+      }
+      const condition = s.condition as { if?: unknown } | null;
+      return {
+        key: keys.get(s.id) as string,
+        order: s.order,
+        name: s.name ?? undefined,
+        plugin: s.plugin.slug,
+        enabled: s.isEnabled,
+        position: { x: s.positionX, y: s.positionY },
+        inputMapping: (s.inputMapping ?? {}) as Record<string, string>,
+        config,
+        gateway: gatewayRef(s.gatewayId, `steps.${i}.gateway`),
+        workflow,
+        resources: Object.keys(resources).length > 0 ? resources : undefined,
+        condition: typeof condition?.if === "string" ? { if: condition.if } : undefined,
+        onError: s.onError as WorkflowExportDocument["steps"][number]["onError"],
+        maxRetries: s.maxRetries,
+        retryPolicy: s.retryPolicy ? (s.retryPolicy as WorkflowExportDocument["steps"][number]["retryPolicy"]) : undefined,
+        storageQuotaMb: s.storageQuotaMb,
+      };
+    }),
+    edges: source.edges
+      .filter((e) => keys.has(e.targetStepId) && (!e.sourceStepId || keys.has(e.sourceStepId)))
+      .map((e) => ({
+        from: e.sourceStepId ? (keys.get(e.sourceStepId) as string) : null,
+        to: keys.get(e.targetStepId) as string,
+        fromPort: e.sourcePort,
+        toPort: e.targetPort,
+      })),
+    references,
+  };
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError("Workflow references can't be exported", errors);
+  }
+  return document;
+}
+
+/** Serialize a document. `undefined` fields are left out of both formats. */
+export function serializeWorkflowDocument(
+  document: WorkflowExportDocument,
+  format: WorkflowExportFormat,
+): string {
+  return format === "json"
+    ? `${JSON.stringify(document, null, 2)}\n`
+    : stringifyYaml(JSON.parse(JSON.stringify(document)), { lineWidth: 0 });
+}
+
+/**
+ * Parse and validate a document: JSON / YAML text, or an already parsed
+ * object. Checks refs as well as shape — every edge endpoint must be a
+ * step key and every gateway / workflow / resource ref must be listed
+ * under `references`.
+ *
+ * @throws ValidationError when the document can't be used
+ */
+export function parseWorkflowDocument(input: string | Record<string, unknown>): WorkflowExportDocument {
+  let raw: unknown = input;
+  if (typeof input === "string") {
+    try {
+      // YAML is a superset of JSON, but JSON.parse gives better errors for JSON
+      raw = input.trimStart().startsWith("{") ? JSON.parse(input) : parseYaml(input);
+    } catch (err) {
+      throw new ValidationError(
+        `Could not parse workflow document: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+
+  const result = workflowExportDocumentSchema.safeParse(raw);
+  if (!result.success) {
+    const errors: Record<string, string[]> = {};
+    for (const issue of result.error.issues) {
+      const path = issue.path.join(".") || "document";
+      (errors[path] ??= []).push(issue.message);
+    }
+    throw new ValidationError("Invalid workflow document", errors);
+  }
+
+  const document = result.data;
+  const errors: Record<string, string[]> = {};
+  const report = (path: string, message: string) => (errors[path] ??= []).push(message);
+
+  const keys = new Set<string>();
+  document.steps.forEach((step, i) => {
+    if (keys.has(step.key)) report(`steps.${i}.key`, `Duplicate step key "${step.key}"`);
+    keys.add(step.key);
+  });
+
+  const gatewayRefs = new Set(document.references.gateways.map((g) => g.ref));
+  const workflowRefs = new Set(document.references.workflows.map((w) => w.ref));
+  const resourceRefs = new Set(document.references.resources.map((r) => r.ref));
+  if (document.workflow.gateway && !gatewayRefs.has(document.workflow.gateway)) {
+    report("workflow.gateway", `Gateway "${document.workflow.gateway}" is not listed in references`);
+  }
+  if (document.workflow.onFailure && !workflowRefs.has(document.workflow.onFailure)) {
+    report("workflow.onFailure", `Workflow "${document.workflow.onFailure}" is not listed in references`);
+  }
+  document.steps.forEach((step, i) => {
+    if (step.gateway && !gatewayRefs.has(step.gateway)) {
+      report(`steps.${i}.gateway`, `Gateway "${step.gateway}" is not listed in references`);
+    }
+    if (step.workflow && !workflowRefs.has(step.workflow)) {
+      report(`steps.${i}.workflow`, `Workflow "${step.workflow}" is not listed in references`);
+    }
+    for (const [field, ref] of Object.entries(step.resources ?? {})) {
+      if (!resourceRefs.has(ref)) {
+        report(`steps.${i}.resources.${field}`, `Resource "${ref}" is not listed in references`);
+      }
+    }
+  });
+  document.edges.forEach((edge, i) => {
+    if (edge.from !== null && !keys.has(edge.from)) report(`edges.${i}.from`, `Unknown step "${edge.from}"`);
+    if (!keys.has(edge.to)) report(`edges.${i}.to`, `Unknown step "${edge.to}"`);
+  });
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError("Invalid workflow document", errors);
+  }
+  return document;
+}
@@ -11,6 +11,10 @@
  *   4. Step ordering has no gaps
  *   5. No disabled-then-enabled gaps in execution chain
  *   6. Per-step plugin file syntax + manifest + lint (via bridge agent)
+ *   7. Sub-workflow steps call an ACTIVE workflow in the same project
+ *   8. Step conditions and input mappings parse as template expressions
+ *   9. Input mappings fit the plugins' input/output schemas (workflow.wiring)
+ *  10. Set-variable and transform steps are set up (workflow.nodes)
  *
  * Returns a structured report — never throws for validation issues.
  *
@@ -19,12 +23,18 @@
 
 import { logger } from "@/lib/logger";
 import { prisma } from "@/lib/prisma";
+import { SUB_WORKFLOW_PLUGIN_SLUG } from "@/modules/plugin/handlers/sub-workflow";
 import { validatePluginInWorkspace } from "@/modules/plugin/plugin.executor";
 import { NotFoundError } from "@/shared/errors";
 // Side-effect import — ensures all built-in fix tasks are registered before
 // any preflight report is produced.
 import "@/modules/workflow/preflight-fix-registry";
 
+import { validateCondition, validateTemplate } from "./template.engine";
+import { describeCoreNodeProblem } from "./workflow.nodes";
+import { getSubWorkflowContract } from "./workflow.subflow";
+import { checkStepWiring } from "./workflow.wiring";
+
 const preflightLogger = logger.child({ module: "workflow-preflight" });
 
 // ===========================================
@@ -110,7 +120,9 @@ export async function preflightWorkflow(
     include: {
       steps: {
         orderBy: { order: "asc" },
-        include: { plugin: { select: { id: true, slug: true, name: true } } },
+        include: {
+          plugin: { select: { id: true, slug: true, name: true, inputSchema: true, outputSchema: true } },
+        },
       },
       edges: { select: { id: true, sourceStepId: true, targetStepId: true } },
     },
@@ -138,6 +150,7 @@ export async function preflightWorkflow(
 
   // Trigger types where an empty / unconfigured config is a genuine problem:
   // - SCHEDULE with no cron expression → will never fire
+  // - PLATFORM_EVENT with no event name → will never fire
   // - Any unrecognised trigger with nothing set → likely a mistake
   // Bot-message triggers (BOT_MESSAGE / *_MESSAGE / *_COMMAND) with blank
   // filters are valid — they mean "match all incoming messages".  We trust
@@ -149,6 +162,7 @@ export async function preflightWorkflow(
     triggerType.endsWith("_MESSAGE") ||
     triggerType.endsWith("_COMMAND");
   const isWebhook = triggerType === "WEBHOOK" || triggerType === "MANUAL";
+  const isPlatformEvent = triggerType === "PLATFORM_EVENT";
 
   const configEmpty = !triggerConfig || Object.keys(triggerConfig).length === 0;
   const matchAllIntent = triggerConfig?.matchAll === true;
@@ -158,6 +172,11 @@ export async function preflightWorkflow(
       severity: "warning",
       message: "Schedule trigger has no cron expression — the workflow will never run automatically.",
     });
+  } else if (isPlatformEvent && !triggerConfig?.event) {
+    warnings.push({
+      severity: "warning",
+      message: "Platform event trigger has no event selected — the workflow will never run automatically.",
+    });
   } else if (!isWebhook && !isBotMessageTrigger && !isSchedule && configEmpty) {
     warnings.push({
       severity: "warning",
@@ -278,6 +297,8 @@ export async function preflightWorkflow(
     })).map((up) => up.pluginId),
   );
 
+  const wiringProblems = checkStepWiring(workflow.steps);
+
   const stepReports: StepPreflightReport[] = await Promise.all(
     workflow.steps.map(async (step): Promise<StepPreflightReport> => {
       const problems: PreflightProblem[] = [];
@@ -306,6 +327,18 @@ export async function preflightWorkflow(
         });
       }
 
+      problems.push(...checkStepTemplates(step));
+      problems.push(...(wiringProblems.get(step.id) ?? []));
+
+      const coreNodeProblem = describeCoreNodeProblem(step.plugin?.slug, step.config, step.inputMapping);
+      if (coreNodeProblem) {
+        problems.push({ severity: "error", message: `Step ${step.order}: ${coreNodeProblem}` });
+      }
+
+      if (step.plugin?.slug === SUB_WORKFLOW_PLUGIN_SLUG) {
+        problems.push(...await checkSubWorkflowStep(workflow, step));
+      }
+
       // Static plugin validation via bridge agent (only for steps with files)
       if (step.entryFile && step.plugin) {
         try {
@@ -399,3 +432,93 @@ export async function preflightWorkflow(
 
   return report;
 }
+
+// ===========================================
+// Templates
+// ===========================================
+
+/**
+ * Parse a step's condition and input-mapping templates, reporting syntax
+ * errors and unknown variables that would otherwise fail the step at run time.
+ */
+function checkStepTemplates(
+  step: { order: number; condition: unknown; inputMapping: unknown },
+): PreflightProblem[] {
+  const problems: PreflightProblem[] = [];
+
+  const condition = step.condition as { if?: unknown } | null;
+  if (typeof condition?.if === "string") {
+    const problem = validateCondition(condition.if);
+    if (problem) {
+      problems.push({ severity: "error", message: `Step ${step.order} condition: ${problem}` });
+    }
+  }
+
+  const mapping = (step.inputMapping ?? {}) as Record<string, unknown>;
+  for (const [key, template] of Object.entries(mapping)) {
+    if (typeof template !== "string") continue;
+    const problem = validateTemplate(template);
+    if (problem) {
+      problems.push({ severity: "error", message: `Step ${step.order} input "${key}": ${problem}` });
+    }
+  }
+  return problems;
+}
+
+// ===========================================
+// Sub-workflow steps
+// ===========================================
+
+/**
+ * Verify a sub-workflow step's callee exists in the caller's project and
+ * is ACTIVE, and that the step maps every parameter the callee requires.
+ */
+async function checkSubWorkflowStep(
+  workflow: { id: string; projectId: string },
+  step: { order: number; config: unknown; inputMapping: unknown },
+): Promise<PreflightProblem[]> {
+  const config = (step.config ?? {}) as Record<string, unknown>;
+  const calleeId = typeof config.workflowId === "string" ? config.workflowId : "";
+  if (!calleeId) {
+    return [{
+      severity: "error",
+      message: `Step ${step.order}: no workflow selected to call.`,
+    }];
+  }
+
+  const callee = await prisma.workflow.findUnique({
+    where: { id: calleeId },
+    select: { name: true, projectId: true, status: true, isEnabled: true, triggerConfig: true },
+  });
+  if (!callee || callee.projectId !== workflow.projectId) {
+    return [{
+      severity: "error",
+      message: `Step ${step.order}: called workflow ${calleeId} does not exist in this project.`,
+    }];
+  }
+
+  const problems: PreflightProblem[] = [];
+  if (callee.status !== "ACTIVE" || !callee.isEnabled) {
+    problems.push({
+      severity: "error",
+      message: `Step ${step.order}: called workflow "${callee.name}" is ${callee.isEnabled ? callee.status : "disabled"} — activate it before running this workflow.`,
+    });
+  }
+  if (calleeId === workflow.id) {
+    problems.push({
+      severity: "warning",
+      message: `Step ${step.order}: workflow calls itself — the run fails once calls nest too deep.`,
+    });
+  }
+
+  const mapped = (step.inputMapping ?? {}) as Record<string, unknown>;
+  const missing = getSubWorkflowContract(callee.triggerConfig).requiredParams
+    .filter((key) => mapped[key] === undefined);
+  if (missing.length > 0) {
+    problems.push({
+      severity: "error",
+      message: `Step ${step.order}: "${callee.name}" requires ${missing.join(", ")} — map ${missing.length === 1 ? "it" : "them"} in the step input.`,
+    });
+  }
+  return problems;
+}
@@ -0,0 +1,109 @@
+/**
+ * Workflow Retries
+ *
+ * Helpers behind "resume from step": re-running a failed run without
+ * repeating the steps that already succeeded. The retry is a new run
+ * (linked via `WorkflowRun.retryOfRunId`) whose execution state is
+ * rehydrated from the failed run's step runs, so completed steps are
+ * settled up front and only the failed branch and everything after it
+ * executes again.
+ *
+ * @module modules/workflow/workflow.retry
+ */
+
+import { SET_VARIABLE_PLUGIN_SLUG } from "@/modules/plugin/handlers/core";
+import { WAIT_FOR_REPLY_PLUGIN_SLUG } from "@/modules/plugin/handlers/delay";
+import {
+    FOREACH_DONE_PORT,
+    FOREACH_PLUGIN_SLUG,
+    getStepOutputPorts,
+} from "@/shared/constants/workflow-ports";
+
+import type { PausedRunState } from "./workflow.wait";
+
+/** Execution state a retry starts from — the subset of a paused run's state it needs. */
+export type RetryState = Pick<
+  PausedRunState,
+  "steps" | "outputs" | "emittedPorts" | "settled" | "lastOutput" | "reply" | "variables"
+>;
+
+/** A completed step run of the failed run, copied into the retry as-is. */
+export interface ReusedStepRun {
+  stepOrder: number;
+  input: unknown;
+  output: unknown;
+  durationMs: number;
+}
+
+interface RetryStep {
+  id: string;
+  order: number;
+  config: unknown;
+  plugin: { slug: string } | null;
+}
+
+interface RecordedStepRun {
+  stepOrder: number;
+  iteration: number;
+  status: string;
+  input: unknown;
+  output: unknown;
+  durationMs: number | null;
+  completedAt: Date | null;
+}
+
+/**
+ * Rebuild execution state from a failed run's step runs. A completed
+ * top-level step is reused when the workflow still has a step at its order
+ * and, with `fromStepOrder`, only when its order is lower — so a retry can
+ * also start earlier than the failing step.
+ *
+ * If/else and switch steps are never reused: the port they chose isn't
+ * recorded, and re-evaluating them has no side effects. Skipped steps are
+ * re-evaluated too, since the reason they were skipped isn't recorded.
+ */
+export function buildRetryState(
+  steps: readonly RetryStep[],
+  stepRuns: readonly RecordedStepRun[],
+  fromStepOrder?: number,
+): { state: RetryState; reused: ReusedStepRun[] } {
+  const stepsByOrder = new Map(steps.map((s) => [s.order, s]));
+  const state: RetryState = {
+    steps: {},
+    outputs: {},
+    emittedPorts: {},
+    settled: [],
+    lastOutput: undefined,
+  };
+  const reused: ReusedStepRun[] = [];
+
+  const completed = stepRuns
+    .filter((sr) => sr.iteration < 0 && sr.status === "completed")
+    .filter((sr) => fromStepOrder === undefined || sr.stepOrder < fromStepOrder)
+    .sort((a, b) => (a.completedAt?.getTime() ?? 0) - (b.completedAt?.getTime() ?? 0));
+
+  for (const sr of completed) {
+    const step = stepsByOrder.get(sr.stepOrder);
+    if (!step) continue;
+    const slug = step.plugin?.slug;
+    const isForeach = slug === FOREACH_PLUGIN_SLUG;
+    if (!isForeach && getStepOutputPorts(slug, step.config as Record<string, unknown>)) continue;
+
+    const durationMs = sr.durationMs ?? 0;
+    state.steps[sr.stepOrder] = {
+      input: sr.input, output: sr.output,
+      status: "completed", durationMs,
+    };
+    state.outputs[step.id] = sr.output;
+    state.settled.push(step.id);
+    state.lastOutput = sr.output;
+    if (isForeach) state.emittedPorts[step.id] = [FOREACH_DONE_PORT];
+    if (slug === WAIT_FOR_REPLY_PLUGIN_SLUG) state.reply = sr.output as RetryState["reply"];
+    if (slug === SET_VARIABLE_PLUGIN_SLUG) {
+      state.variables = { ...state.variables, ...(sr.output as Record<string, unknown>) };
+    }
+    reused.push({ stepOrder: sr.stepOrder, input: sr.input, output: sr.output, durationMs });
+  }
+
+  return { state, reused };
+}
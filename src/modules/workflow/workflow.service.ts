@@ -7,20 +7,29 @@
  * @module modules/workflow/workflow.service
  */
 
-import { Prisma } from "@prisma/client";
+import { Prisma, type Plugin, type WorkflowEdge, type WorkflowStep } from "@prisma/client";
 
 import { logger } from "@/lib/logger";
 import { workflowRunDurationMs, workflowRunsTotal } from "@/lib/metrics";
 import { prisma } from "@/lib/prisma";
 import { marketplaceLoader } from "@/modules/marketplace/marketplace-loader.service";
 import { gatewayTypeToPlatform, getPluginEntryPath, isDirectoryLayout, pluginDeployService } from "@/modules/plugin/plugin-deploy.service";
+import { SUB_WORKFLOW_PLUGIN_SLUG } from "@/modules/plugin/handlers/sub-workflow";
+import { DEFAULT_OUTPUT_PORT, getStepOutputPorts } from "@/shared/constants/workflow-ports";
 import {
+    BadRequestError,
     ConflictError,
     ForbiddenError,
-    NotFoundError
+    NotFoundError,
+    ValidationError
 } from "@/shared/errors";
 
 import { pushWorkflowCache, removeWorkflowCache } from "./workflow-cache.service";
+import type { StepRetryPolicy } from "./workflow.backoff";
+import { getRunCredits, getWorkflowAnalytics, rollUpLateRun } from "./workflow.analytics";
+import { parseRateLimit } from "./workflow.concurrency";
+import { parseWorkflowDocument, resourceConfigFields, toExportDocument } from "./workflow.portable";
+import { preflightWorkflow } from "./workflow.preflight";
 import type {
     CreateWorkflowEdgeRequest,
     CreateWorkflowRequest,
@@ -31,13 +40,26 @@ import type {
     TriggerConfig,
     UpdateWorkflowRequest,
     UpdateWorkflowStepRequest,
+    WorkflowAnalytics,
     WorkflowDefinition,
     WorkflowEdgeDefinition,
+    WorkflowImportBinding,
+    WorkflowImportResult,
     WorkflowRunDetail,
     WorkflowRunSummary,
     WorkflowStepDefinition,
     WorkflowStepRunDetail,
+    WorkflowVersionSummary,
 } from "./workflow.types";
+import type { ImportWorkflowInput, WorkflowExportDocument } from "./workflow.validation";
+import { platformEventTriggerConfigSchema } from "./workflow.validation";
+import {
+    diffWorkflowSnapshots,
+    isEmptyDiff,
+    toWorkflowSnapshot,
+    type WorkflowSnapshot,
+    type WorkflowSnapshotDiff,
+} from "./workflow.version";
 
 const workflowLogger = logger.child({ module: "workflow" });
 
@@ -212,6 +234,33 @@ async function updateWorkflow(
     }
   }
 
+  if (
+    (data.triggerType ?? existing.triggerType) === "PLATFORM_EVENT" && data.triggerConfig &&
+    !platformEventTriggerConfigSchema.safeParse(data.triggerConfig).success
+  ) {
+    throw new ValidationError("Invalid platform event trigger configuration");
+  }
+
+  if (data.onFailureWorkflowId) {
+    if (data.onFailureWorkflowId === workflowId) {
+      throw new BadRequestError("A workflow cannot be its own on-failure workflow");
+    }
+    const target = await prisma.workflow.findUnique({ where: { id: data.onFailureWorkflowId } });
+    if (!target) throw new NotFoundError("On-failure workflow not found");
+    verifyOwner(target, owner);
+    if (target.projectId !== existing.projectId) {
+      throw new BadRequestError("On-failure workflow must belong to the same project");
+    }
+  }
+
+  // First activation publishes the draft, so live runs have a version
+  if (data.status === "ACTIVE" && existing.publishedVersion === null) {
+    const draft = await captureDraftSnapshot(workflowId);
+    if (draft.steps.length > 0) {
+      await createVersion(workflowId, draft, { note: "Published on activation", publishedBy: owner.userId });
+    }
+  }
+
   const workflow = await prisma.workflow.update({
     where: { id: workflowId },
     data: {
@@ -223,6 +272,11 @@ async function updateWorkflow(
       ...(data.gatewayId !== undefined && { gatewayId: data.gatewayId }),
       ...(data.status !== undefined && { status: data.status }),
       ...(data.isEnabled !== undefined && { isEnabled: data.isEnabled }),
+      ...(data.onFailureWorkflowId !== undefined && { onFailureWorkflowId: data.onFailureWorkflowId }),
+      ...(data.concurrencyKey !== undefined && { concurrencyKey: data.concurrencyKey }),
+      ...(data.rateLimit !== undefined && {
+        rateLimit: data.rateLimit ? (data.rateLimit as object) : Prisma.JsonNull,
+      }),
     },
     include: {
       steps: { orderBy: { order: "asc" }, include: { plugin: true } },
@@ -275,32 +329,11 @@ async function addStep(
   // Resolve plugin slug for entry file path
   const plugin = await prisma.plugin.findUnique({
     where: { id: data.pluginId },
-    select: { slug: true, authorType: true },
+    select: { id: true, slug: true, authorType: true },
   });
-  const effectiveGatewayId = data.gatewayId ?? workflow.gatewayId;
-
-  let entryFile: string | null = null;
-  if (plugin) {
-    // For USER plugins, prefer the stored UserPlugin.entryFile — isDirectoryLayout() only works
-    // for BUILTIN/MARKETPLACE bundles and always returns false for USER plugins.
-    if (plugin.authorType === 'USER') {
-      const existingUserPlugin = await prisma.userPlugin.findFirst({
-        where: { pluginId: data.pluginId, userId: owner.userId, organizationId: owner.organizationId ?? null },
-        select: { entryFile: true },
-        orderBy: { createdAt: 'desc' },
-      });
-      entryFile = existingUserPlugin?.entryFile ?? null;
-    }
-    if (!entryFile) {
-      const isDirectoryPlugin = isDirectoryLayout(plugin.slug);
-      let platform: string | undefined;
-      if (effectiveGatewayId) {
-        const gw = await prisma.gateway.findUnique({ where: { id: effectiveGatewayId }, select: { type: true } });
-        if (gw) platform = gatewayTypeToPlatform(gw.type);
-      }
-      entryFile = getPluginEntryPath(effectiveGatewayId, plugin.slug, { platform, isDirectory: isDirectoryPlugin });
-    }
-  }
+  const entryFile = plugin
+    ? await resolveStepEntryFile(owner, plugin, data.gatewayId ?? workflow.gatewayId)
+    : null;
 
   // Shift existing steps at or after the target order to make room
   await prisma.workflowStep.updateMany({
@@ -326,6 +359,7 @@ async function addStep(
       condition: data.condition ? (data.condition as object) : undefined,
       onError: data.onError ?? "stop",
       maxRetries: data.maxRetries ?? 0,
+      retryPolicy: data.retryPolicy ? (data.retryPolicy as object) : undefined,
       entryFile,
       positionX: data.positionX ?? 0,
       positionY: data.positionY ?? 0,
@@ -344,6 +378,33 @@ async function addStep(
   return toStepDefinition(step);
 }
 
+/**
+ * Workspace entry file a step of `plugin` runs.
+ */
+async function resolveStepEntryFile(
+  owner: WorkflowOwnerFilter,
+  plugin: { id: string; slug: string; authorType: string },
+  gatewayId: string | null
+): Promise<string> {
+  // For USER plugins, prefer the stored UserPlugin.entryFile — isDirectoryLayout() only works
+  // for BUILTIN/MARKETPLACE bundles and always returns false for USER plugins.
+  if (plugin.authorType === 'USER') {
+    const existingUserPlugin = await prisma.userPlugin.findFirst({
+      where: { pluginId: plugin.id, userId: owner.userId, organizationId: owner.organizationId ?? null },
+      select: { entryFile: true },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (existingUserPlugin?.entryFile) return existingUserPlugin.entryFile;
+  }
+  const isDirectoryPlugin = isDirectoryLayout(plugin.slug);
+  let platform: string | undefined;
+  if (gatewayId) {
+    const gw = await prisma.gateway.findUnique({ where: { id: gatewayId }, select: { type: true } });
+    if (gw) platform = gatewayTypeToPlatform(gw.type);
+  }
+  return getPluginEntryPath(gatewayId, plugin.slug, { platform, isDirectory: isDirectoryPlugin });
+}
+
 /**
  * Update a workflow step.
  */
@@ -414,6 +475,7 @@ async function updateStep(
   if (data.condition !== undefined) updateData.condition = data.condition ? (data.condition as object) : Prisma.JsonNull;
   if (data.onError !== undefined) updateData.onError = data.onError;
   if (data.maxRetries !== undefined) updateData.maxRetries = data.maxRetries;
+  if (data.retryPolicy !== undefined) updateData.retryPolicy = data.retryPolicy ? (data.retryPolicy as object) : Prisma.JsonNull;
   if (data.positionX !== undefined) updateData.positionX = data.positionX;
   if (data.positionY !== undefined) updateData.positionY = data.positionY;
 
@@ -513,8 +575,21 @@ async function addEdge(
   if (data.sourceStepId) {
     const sourceStep = await prisma.workflowStep.findFirst({
       where: { id: data.sourceStepId, workflowId },
+      include: { plugin: { select: { slug: true } } },
     });
     if (!sourceStep) throw new NotFoundError("Source step not found in workflow");
+
+    // Router steps (if/else, switch) must be wired from one of their named ports
+    const ports = getStepOutputPorts(
+      sourceStep.plugin?.slug,
+      sourceStep.config as Record<string, unknown>,
+    );
+    const sourcePort = data.sourcePort ?? DEFAULT_OUTPUT_PORT;
+    if (ports && !ports.includes(sourcePort)) {
+      throw new ValidationError(
+        `Source step has no output port "${sourcePort}" (expected one of: ${ports.join(", ")})`,
+      );
+    }
   }
 
   // Check for duplicate edge (same source→target→ports)
@@ -647,7 +722,7 @@ async function listRuns(
       where,
       include: {
         workflow: { select: { name: true } },
-        stepRuns: { select: { id: true, status: true } },
+        stepRuns: { select: { id: true, status: true, iteration: true } },
       },
       orderBy: { startedAt: opts.sortOrder ?? "desc" },
       skip,
@@ -669,8 +744,12 @@ async function listRuns(
       startedAt: run.startedAt,
       completedAt: run.completedAt ?? undefined,
       durationMs: run.durationMs ?? undefined,
+      resumeAt: run.status === "waiting" ? run.resumeAt ?? undefined : undefined,
+      parentRunId: run.parentRunId ?? undefined,
+      retryOfRunId: run.retryOfRunId ?? undefined,
+      workflowVersion: run.workflowVersion ?? undefined,
       stepsCompleted: run.stepRuns.filter(
-        (sr) => sr.status === "completed"
+        (sr) => sr.status === "completed" && sr.iteration < 0
       ).length,
       totalSteps,
     })),
@@ -692,7 +771,15 @@ async function getRunDetail(
       workflow: {
         select: { name: true, userId: true, organizationId: true },
       },
-      stepRuns: { orderBy: { stepOrder: "asc" } },
+      stepRuns: { orderBy: [{ stepOrder: "asc" }, { iteration: "asc" }] },
+      childRuns: {
+        select: { id: true, workflowId: true, status: true, workflow: { select: { name: true } } },
+        orderBy: { startedAt: "asc" },
+      },
+      retries: {
+        select: { id: true, status: true, startedAt: true },
+        orderBy: { startedAt: "asc" },
+      },
     },
   });
 
@@ -705,6 +792,7 @@ async function getRunDetail(
   );
 
   const totalSteps = await prisma.workflowStep.count({ where: { workflowId } });
+  const credits = await getRunCredits(run.id);
 
   // Load workflow steps to populate step names and plugin slugs
   const workflowSteps = await prisma.workflowStep.findMany({
@@ -729,14 +817,609 @@ async function getRunDetail(
     startedAt: run.startedAt,
     completedAt: run.completedAt ?? undefined,
     durationMs: run.durationMs ?? undefined,
+    resumeAt: run.status === "waiting" ? run.resumeAt ?? undefined : undefined,
+    parentRunId: run.parentRunId ?? undefined,
+    retryOfRunId: run.retryOfRunId ?? undefined,
+    workflowVersion: run.workflowVersion ?? undefined,
     stepsCompleted: run.stepRuns.filter(
-      (sr) => sr.status === "completed"
+      (sr) => sr.status === "completed" && sr.iteration < 0
     ).length,
     totalSteps,
     stepRuns: run.stepRuns.map((sr) => toStepRunDetail(sr, stepMap)),
+    childRuns: run.childRuns.map((child) => ({
+      id: child.id,
+      workflowId: child.workflowId,
+      workflowName: child.workflow.name,
+      status: child.status.toUpperCase(),
+    })),
+    retries: run.retries.map((retry) => ({
+      id: retry.id,
+      status: retry.status.toUpperCase(),
+      startedAt: retry.startedAt,
+    })),
+    creditsUsed: credits.creditsUsed,
+    stepCredits: credits.stepCredits,
   };
 }
 
+/**
+ * Latency, failure, volume and cost analytics for the last `days` days.
+ */
+async function getAnalytics(
+  owner: WorkflowOwnerFilter,
+  workflowId: string,
+  days: number
+): Promise<WorkflowAnalytics> {
+  await loadOwnedWorkflow(owner, workflowId);
+  return getWorkflowAnalytics(workflowId, days);
+}
+
+// ===========================================
+// Versions (draft / published)
+// ===========================================
+
+async function loadOwnedWorkflow(owner: WorkflowOwnerFilter, workflowId: string) {
+  const workflow = await prisma.workflow.findUnique({ where: { id: workflowId } });
+  if (!workflow) throw new NotFoundError("Workflow not found");
+  verifyOwner(workflow, owner);
+  return workflow;
+}
+
+/** Snapshot the draft (the current step and edge rows). */
+async function captureDraftSnapshot(workflowId: string): Promise<WorkflowSnapshot> {
+  const [steps, edges] = await Promise.all([
+    prisma.workflowStep.findMany({ where: { workflowId }, orderBy: { order: "asc" } }),
+    prisma.workflowEdge.findMany({ where: { workflowId } }),
+  ]);
+  return toWorkflowSnapshot(steps, edges);
+}
+
+async function loadVersion(workflowId: string, version: number) {
+  const row = await prisma.workflowVersion.findUnique({
+    where: { workflowId_version: { workflowId, version } },
+  });
+  if (!row) throw new NotFoundError(`Workflow version ${version} not found`);
+  return row;
+}
+
+/** Store `snapshot` as the next version and make it the published one. */
+async function createVersion(
+  workflowId: string,
+  snapshot: WorkflowSnapshot,
+  meta: { note?: string; publishedBy?: string; revertedFrom?: number }
+) {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const latest = await tx.workflowVersion.findFirst({
+        where: { workflowId },
+        orderBy: { version: "desc" },
+        select: { version: true },
+      });
+      const row = await tx.workflowVersion.create({
+        data: {
+          workflowId,
+          version: (latest?.version ?? 0) + 1,
+          snapshot: snapshot as unknown as Prisma.InputJsonValue,
+          note: meta.note,
+          publishedBy: meta.publishedBy,
+          revertedFrom: meta.revertedFrom,
+        },
+      });
+      await tx.workflow.update({
+        where: { id: workflowId },
+        data: { publishedVersion: row.version },
+      });
+      return row;
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      throw new ConflictError("Another version was published at the same time — try again");
+    }
+    throw err;
+  }
+}
+
+/**
+ * Publish the draft as a new version. Live runs switch to it right away;
+ * runs already waiting keep the version they started on.
+ */
+async function publishWorkflow(
+  owner: WorkflowOwnerFilter,
+  workflowId: string,
+  note?: string
+): Promise<WorkflowVersionSummary> {
+  const workflow = await loadOwnedWorkflow(owner, workflowId);
+
+  const draft = await captureDraftSnapshot(workflowId);
+  if (draft.steps.length === 0) {
+    throw new ValidationError("Add at least one step before publishing");
+  }
+  if (workflow.publishedVersion !== null) {
+    const published = await loadVersion(workflowId, workflow.publishedVersion);
+    if (isEmptyDiff(diffWorkflowSnapshots(published.snapshot as unknown as WorkflowSnapshot, draft))) {
+      throw new ConflictError(`Draft has no changes since version ${workflow.publishedVersion}`);
+    }
+  }
+
+  const row = await createVersion(workflowId, draft, { note, publishedBy: owner.userId });
+  workflowLogger.info({ workflowId, version: row.version, userId: owner.userId }, "Workflow published");
+  return toVersionSummary(row, row.version);
+}
+
+/**
+ * Version history, newest first.
+ */
+async function listVersions(
+  owner: WorkflowOwnerFilter,
+  workflowId: string
+): Promise<WorkflowVersionSummary[]> {
+  const workflow = await loadOwnedWorkflow(owner, workflowId);
+  const rows = await prisma.workflowVersion.findMany({
+    where: { workflowId },
+    orderBy: { version: "desc" },
+  });
+  return rows.map((row) => toVersionSummary(row, workflow.publishedVersion));
+}
+
+/**
+ * Unpublished changes: the published version compared with the draft.
+ */
+async function getDraftDiff(
+  owner: WorkflowOwnerFilter,
+  workflowId: string
+): Promise<{ publishedVersion?: number; diff: WorkflowSnapshotDiff }> {
+  const workflow = await loadOwnedWorkflow(owner, workflowId);
+  const published = workflow.publishedVersion !== null
+    ? await loadVersion(workflowId, workflow.publishedVersion)
+    : null;
+  const draft = await captureDraftSnapshot(workflowId);
+  return {
+    publishedVersion: published?.version,
+    diff: diffWorkflowSnapshots((published?.snapshot ?? null) as unknown as WorkflowSnapshot | null, draft),
+  };
+}
+
+/**
+ * What a version changed compared with the version before it.
+ */
+async function getVersionDiff(
+  owner: WorkflowOwnerFilter,
+  workflowId: string,
+  version: number
+): Promise<{ version: number; previousVersion?: number; diff: WorkflowSnapshotDiff }> {
+  await loadOwnedWorkflow(owner, workflowId);
+  const row = await loadVersion(workflowId, version);
+  const previous = await prisma.workflowVersion.findFirst({
+    where: { workflowId, version: { lt: version } },
+    orderBy: { version: "desc" },
+  });
+  return {
+    version,
+    previousVersion: previous?.version,
+    diff: diffWorkflowSnapshots(
+      (previous?.snapshot ?? null) as unknown as WorkflowSnapshot | null,
+      row.snapshot as unknown as WorkflowSnapshot,
+    ),
+  };
+}
+
+/**
+ * One-click revert: re-publish an older version's snapshot as a new
+ * version. The draft is left as it is.
+ */
+async function revertToVersion(
+  owner: WorkflowOwnerFilter,
+  workflowId: string,
+  version: number
+): Promise<WorkflowVersionSummary> {
+  const workflow = await loadOwnedWorkflow(owner, workflowId);
+  if (workflow.publishedVersion === version) {
+    throw new ConflictError(`Version ${version} is already published`);
+  }
+  const target = await loadVersion(workflowId, version);
+
+  const row = await createVersion(workflowId, target.snapshot as unknown as WorkflowSnapshot, {
+    note: `Reverted to version ${version}`,
+    publishedBy: owner.userId,
+    revertedFrom: version,
+  });
+  workflowLogger.info(
+    { workflowId, version: row.version, revertedFrom: version, userId: owner.userId },
+    "Workflow reverted to earlier version"
+  );
+  return toVersionSummary(row, row.version);
+}
+
+/**
+ * Steps (with their plugin) and edges a run executes: the snapshot of
+ * `version`, or the draft rows when `version` is null. Snapshot steps whose
+ * plugin was since deleted keep a missing plugin, which the executor's
+ * orphan guard handles.
+ */
+async function loadWorkflowGraph(
+  workflowId: string,
+  version: number | null
+): Promise<{ steps: Array<WorkflowStep & { plugin: Plugin }>; edges: WorkflowEdge[] }> {
+  if (version === null) {
+    const [steps, edges] = await Promise.all([
+      prisma.workflowStep.findMany({
+        where: { workflowId },
+        orderBy: { order: "asc" },
+        include: { plugin: true },
+      }),
+      prisma.workflowEdge.findMany({ where: { workflowId } }),
+    ]);
+    return { steps, edges };
+  }
+
+  const row = await loadVersion(workflowId, version);
+  const snapshot = row.snapshot as unknown as WorkflowSnapshot;
+  const plugins = new Map(
+    (await prisma.plugin.findMany({
+      where: { id: { in: [...new Set(snapshot.steps.map((s) => s.pluginId))] } },
+    })).map((p) => [p.id, p])
+  );
+
+  return {
+    steps: snapshot.steps.map((s) => ({
+      ...s,
+      workflowId,
+      inputMapping: s.inputMapping as Prisma.JsonValue,
+      config: s.config as Prisma.JsonValue,
+      condition: s.condition as Prisma.JsonValue,
+      retryPolicy: (s.retryPolicy ?? null) as Prisma.JsonValue,
+      executionCount: 0,
+      lastExecutedAt: null,
+      lastError: null,
+      createdAt: row.createdAt,
+      updatedAt: row.createdAt,
+      plugin: plugins.get(s.pluginId) as Plugin,
+    })),
+    edges: snapshot.edges.map((e) => ({ ...e, workflowId, createdAt: row.createdAt })),
+  };
+}
+
+function toVersionSummary(
+  row: {
+    version: number;
+    snapshot: Prisma.JsonValue;
+    note: string | null;
+    publishedBy: string | null;
+    revertedFrom: number | null;
+    createdAt: Date;
+  },
+  publishedVersion: number | null
+): WorkflowVersionSummary {
+  return {
+    version: row.version,
+    note: row.note ?? undefined,
+    publishedBy: row.publishedBy ?? undefined,
+    revertedFrom: row.revertedFrom ?? undefined,
+    stepCount: (row.snapshot as unknown as WorkflowSnapshot).steps.length,
+    isPublished: row.version === publishedVersion,
+    createdAt: row.createdAt,
+  };
+}
+
+// ===========================================
+// Export / import
+// ===========================================
+
+/**
+ * Export a workflow's draft as a portable document (see workflow.portable).
+ */
+async function exportWorkflow(
+  owner: WorkflowOwnerFilter,
+  workflowId: string
+): Promise<WorkflowExportDocument> {
+  const workflow = await prisma.workflow.findUnique({
+    where: { id: workflowId },
+    include: {
+      steps: { orderBy: { order: "asc" }, include: { plugin: { select: { slug: true } } } },
+      edges: true,
+    },
+  });
+  if (!workflow) throw new NotFoundError("Workflow not found");
+  verifyOwner(workflow, owner);
+
+  const gatewayIds = [workflow.gatewayId, ...workflow.steps.map((s) => s.gatewayId)]
+    .filter((id): id is string => !!id);
+  const calleeIds = workflow.steps
+    .filter((s) => s.plugin.slug === SUB_WORKFLOW_PLUGIN_SLUG)
+    .map((s) => (s.config as Record<string, unknown> | null)?.workflowId)
+    .filter((id): id is string => typeof id === "string");
+
+  if (workflow.onFailureWorkflowId) calleeIds.push(workflow.onFailureWorkflowId);
+
+  const resourceIds = workflow.steps.flatMap((s) => {
+    const config = s.config as Record<string, unknown> | null;
+    return Object.keys(resourceConfigFields(s.plugin.slug))
+      .map((field) => config?.[field])
+      .filter((id): id is string => typeof id === "string" && id !== "");
+  });
+
+  const [gateways, callees, resources] = await Promise.all([
+    prisma.gateway.findMany({
+      where: { id: { in: gatewayIds } },
+      select: { id: true, name: true, type: true },
+    }),
+    prisma.workflow.findMany({
+      where: { id: { in: calleeIds }, projectId: workflow.projectId },
+      select: { id: true, name: true, slug: true },
+    }),
+    resourceIds.length > 0 && workflow.projectId
+      ? prisma.projectResource.findMany({
+          where: { id: { in: resourceIds }, projectId: workflow.projectId },
+          select: { id: true, name: true, slug: true, kind: true },
+        })
+      : [],
+  ]);
+
+  return toExportDocument({
+    workflow,
+    steps: workflow.steps,
+    edges: workflow.edges,
+    gateways: new Map(gateways.map((g) => [g.id, g])),
+    workflows: new Map(callees.map((w) => [w.id, w])),
+    resources: new Map(resources.map((r) => [r.id, r])),
+  });
+}
+
+/**
+ * Bind a document's gateway / workflow / resource refs to the importer's
+ * own: an explicit binding wins, otherwise a unique match by name (gateways
+ * must also match on type, resources on kind in the target project;
+ * workflows match by slug in the target project).
+ */
+async function resolveImportBindings(
+  owner: WorkflowOwnerFilter,
+  projectId: string,
+  document: WorkflowExportDocument,
+  explicit: NonNullable<ImportWorkflowInput["bindings"]>
+): Promise<WorkflowImportBinding[]> {
+  const [gateways, workflows, resources] = await Promise.all([
+    document.references.gateways.length > 0
+      ? prisma.gateway.findMany({
+          where: ownerFilter(owner),
+          select: { id: true, name: true, type: true },
+        })
+      : [],
+    document.references.workflows.length > 0
+      ? prisma.workflow.findMany({
+          where: { ...ownerFilter(owner), projectId },
+          select: { id: true, name: true, slug: true },
+        })
+      : [],
+    document.references.resources.length > 0
+      ? prisma.projectResource.findMany({
+          where: { ...ownerFilter(owner), projectId },
+          select: { id: true, name: true, kind: true },
+        })
+      : [],
+  ]);
+
+  const bindings: WorkflowImportBinding[] = [];
+  for (const ref of document.references.gateways) {
+    const candidates = gateways.filter((g) => g.type === ref.type);
+    const boundId = explicit.gateways?.[ref.ref];
+    const byName = candidates.filter((g) => g.name === ref.name);
+    const resolved = boundId
+      ? candidates.find((g) => g.id === boundId)
+      : byName.length === 1 ? byName[0] : undefined;
+    bindings.push({
+      kind: "gateway",
+      ref: ref.ref,
+      name: ref.name,
+      type: ref.type,
+      resolvedId: resolved?.id,
+      candidates: candidates.map((g) => ({ id: g.id, name: g.name })),
+    });
+  }
+  for (const ref of document.references.workflows) {
+    const boundId = explicit.workflows?.[ref.ref];
+    const resolved = boundId
+      ? workflows.find((w) => w.id === boundId)
+      : workflows.find((w) => w.slug === ref.ref);
+    bindings.push({
+      kind: "workflow",
+      ref: ref.ref,
+      name: ref.name,
+      resolvedId: resolved?.id,
+      candidates: workflows.map((w) => ({ id: w.id, name: w.name })),
+    });
+  }
+  for (const ref of document.references.resources) {
+    const candidates = resources.filter((r) => r.kind === ref.kind);
+    const boundId = explicit.resources?.[ref.ref];
+    const byName = candidates.filter((r) => r.name === ref.name);
+    const resolved = boundId
+      ? candidates.find((r) => r.id === boundId)
+      : byName.length === 1 ? byName[0] : undefined;
+    bindings.push({
+      kind: "resource",
+      ref: ref.ref,
+      name: ref.name,
+      type: ref.kind,
+      resolvedId: resolved?.id,
+      candidates: candidates.map((r) => ({ id: r.id, name: r.name })),
+    });
+  }
+  return bindings;
+}
+
+/**
+ * Import a portable document as a new DRAFT workflow in the owner's
+ * default project. Refs are bound first (see `resolveImportBindings`); then
+ * the workflow is saved and preflighted, and removed again when preflight
+ * finds errors. With `dryRun`, it is always removed and the result is a
+ * preview: bindings with candidates, blocking problems and the preflight.
+ */
+async function importWorkflow(
+  owner: WorkflowOwnerFilter,
+  input: ImportWorkflowInput
+): Promise<WorkflowImportResult> {
+  const document = parseWorkflowDocument(input.document);
+  const name = input.name ?? document.workflow.name;
+  const slug = input.slug ?? document.workflow.slug;
+
+  const { ensureDefaultProject } = await import("@/modules/project/project.service");
+  const { id: projectId } = await ensureDefaultProject({
+    userId: owner.userId,
+    organizationId: owner.organizationId ?? null,
+  });
+
+  const errors: Record<string, string[]> = {};
+
+  const pluginSlugs = [...new Set(document.steps.map((s) => s.plugin))];
+  const plugins = new Map(
+    (await prisma.plugin.findMany({
+      where: { slug: { in: pluginSlugs } },
+      select: { id: true, slug: true, authorType: true },
+    })).map((p) => [p.slug, p])
+  );
+  for (const pluginSlug of pluginSlugs) {
+    if (!plugins.has(pluginSlug)) errors[`plugins.${pluginSlug}`] = [`Plugin "${pluginSlug}" is not available`];
+  }
+
+  const bindings = await resolveImportBindings(owner, projectId, document, input.bindings ?? {});
+  for (const binding of bindings) {
+    if (!binding.resolvedId) {
+      errors[`bindings.${binding.kind}s.${binding.ref}`] = [
+        binding.kind === "gateway"
+          ? `Choose a ${binding.type} gateway for "${binding.name}"`
+          : binding.kind === "resource"
+            ? `Choose a ${binding.type} resource for "${binding.name}"`
+            : `Choose the workflow to call for "${binding.name}"`,
+      ];
+    }
+  }
+
+  const conflict = await prisma.workflow.findFirst({ where: { ...ownerFilter(owner), slug } });
+  if (conflict) {
+    if (!input.dryRun) throw new ConflictError(`Workflow slug "${slug}" already exists`);
+    errors.slug = [`Workflow slug "${slug}" already exists`];
+  }
+
+  if (Object.keys(errors).length > 0) {
+    if (input.dryRun) return { bindings, errors };
+    throw new ValidationError("Workflow document can't be imported as it is", errors);
+  }
+
+  const boundIds = new Map(bindings.map((b) => [`${b.kind}:${b.ref}`, b.resolvedId ?? null]));
+  const gatewayFor = (ref?: string) => (ref ? boundIds.get(`gateway:${ref}`) ?? null : null);
+  const workflowGatewayId = gatewayFor(document.workflow.gateway);
+
+  const steps = await Promise.all(
+    document.steps.map(async (step) => {
+      const plugin = plugins.get(step.plugin) as { id: string; slug: string; authorType: string };
+      const gatewayId = gatewayFor(step.gateway);
+      return {
+        step,
+        pluginId: plugin.id,
+        gatewayId,
+        entryFile: await resolveStepEntryFile(owner, plugin, gatewayId ?? workflowGatewayId),
+        config: {
+          ...step.config,
+          ...(step.workflow && { workflowId: boundIds.get(`workflow:${step.workflow}`) }),
+          ...Object.fromEntries(
+            Object.entries(step.resources ?? {}).map(([field, ref]) => [field, boundIds.get(`resource:${ref}`)])
+          ),
+        },
+      };
+    })
+  );
+
+  const created = await prisma.$transaction(async (tx) => {
+    const workflow = await tx.workflow.create({
+      data: {
+        userId: owner.userId,
+        organizationId: owner.organizationId ?? null,
+        projectId,
+        name,
+        description: document.workflow.description,
+        slug,
+        scope: document.workflow.scope,
+        triggerType: document.workflow.triggerType,
+        triggerConfig: document.workflow.triggerConfig as object,
+        gatewayId: workflowGatewayId,
+        onFailureWorkflowId: document.workflow.onFailure
+          ? boundIds.get(`workflow:${document.workflow.onFailure}`)
+          : undefined,
+        concurrencyKey: document.workflow.concurrencyKey,
+        rateLimit: document.workflow.rateLimit,
+      },
+    });
+
+    const stepIds = new Map<string, string>();
+    for (const { step, pluginId, gatewayId, entryFile, config } of steps) {
+      const row = await tx.workflowStep.create({
+        data: {
+          workflowId: workflow.id,
+          order: step.order,
+          name: step.name,
+          pluginId,
+          isEnabled: step.enabled,
+          inputMapping: step.inputMapping,
+          config: config as object,
+          gatewayId,
+          condition: step.condition,
+          onError: step.onError,
+          maxRetries: step.maxRetries,
+          retryPolicy: step.retryPolicy,
+          entryFile,
+          storageQuotaMb: step.storageQuotaMb,
+          positionX: step.position?.x ?? 0,
+          positionY: step.position?.y ?? 0,
+        },
+      });
+      stepIds.set(step.key, row.id);
+    }
+
+    await tx.workflowEdge.createMany({
+      data: document.edges.map((e) => ({
+        workflowId: workflow.id,
+        sourceStepId: e.from === null ? null : stepIds.get(e.from),
+        targetStepId: stepIds.get(e.to) as string,
+        sourcePort: e.fromPort,
+        targetPort: e.toPort,
+      })),
+      skipDuplicates: true,
+    });
+    return workflow;
+  });
+
+  // Preflight reads the saved rows, so it runs after the insert
+  const preflight = await preflightWorkflow(owner, created.id);
+  if (input.dryRun || !preflight.ok) {
+    await prisma.workflow.delete({ where: { id: created.id } });
+  }
+  if (input.dryRun) return { bindings, preflight };
+  if (!preflight.ok) {
+    const preflightErrors: Record<string, string[]> = {};
+    if (preflight.errors.length > 0) preflightErrors.workflow = preflight.errors.map((p) => p.message);
+    for (const step of preflight.steps) {
+      const messages = step.problems.filter((p) => p.severity === "error").map((p) => p.message);
+      if (messages.length > 0) preflightErrors[`steps.${step.stepOrder}`] = messages;
+    }
+    throw new ValidationError("Imported workflow failed preflight", preflightErrors);
+  }
+
+  workflowLogger.info(
+    { workflowId: created.id, userId: owner.userId, slug, steps: document.steps.length },
+    "Workflow imported"
+  );
+  pushWorkflowCache(created.id, owner.userId, owner.organizationId ?? null);
+
+  const workflow = await prisma.workflow.findUniqueOrThrow({
+    where: { id: created.id },
+    include: {
+      steps: { orderBy: { order: "asc" }, include: { plugin: true } },
+      edges: true,
+    },
+  });
+  return { workflow: toWorkflowDefinition(workflow), bindings, preflight };
+}
+
 // ===========================================
 // Execution recording (called by executor)
 // ===========================================
@@ -762,30 +1445,40 @@ async function createRun(
 }
 
 /**
- * Create a WorkflowStepRun record.
+ * Create a WorkflowStepRun record. Steps inside a foreach body get one
+ * record per item, linked to the foreach step's own record.
  */
 async function createStepRun(
   runId: string,
-  stepOrder: number
+  stepOrder: number,
+  loop?: { iteration: number; parentStepRunId: string }
 ): Promise<string> {
   const sr = await prisma.workflowStepRun.create({
-    data: { runId, stepOrder, status: "running", startedAt: new Date() },
+    data: {
+      runId,
+      stepOrder,
+      status: "running",
+      startedAt: new Date(),
+      ...(loop && { iteration: loop.iteration, parentStepRunId: loop.parentStepRunId }),
+    },
   });
   return sr.id;
 }
 
 /**
- * Mark a step run as completed.
+ * Mark a step run as completed, recording the resolved input it ran with.
  */
 async function completeStepRun(
   stepRunId: string,
   output: unknown,
-  durationMs: number
+  durationMs: number,
+  input?: unknown
 ): Promise<void> {
   await prisma.workflowStepRun.update({
     where: { id: stepRunId },
     data: {
       status: "completed",
+      input: input !== undefined ? (input as object) : undefined,
       output: output !== undefined ? (output as object) : undefined,
       completedAt: new Date(),
       durationMs,
@@ -799,12 +1492,14 @@ async function completeStepRun(
 async function failStepRun(
   stepRunId: string,
   error: string,
-  durationMs: number
+  durationMs: number,
+  input?: unknown
 ): Promise<void> {
   await prisma.workflowStepRun.update({
     where: { id: stepRunId },
     data: {
       status: "failed",
+      input: input !== undefined ? (input as object) : undefined,
       error,
       completedAt: new Date(),
       durationMs,
@@ -812,6 +1507,40 @@ async function failStepRun(
   });
 }
 
+/**
+ * Copy completed step runs of a failed run into its retry, so the retry's
+ * history shows every step it builds on.
+ */
+async function recordReusedStepRuns(
+  runId: string,
+  stepRuns: Array<{ stepOrder: number; input: unknown; output: unknown; durationMs: number }>
+): Promise<void> {
+  if (stepRuns.length === 0) return;
+  const now = new Date();
+  await prisma.workflowStepRun.createMany({
+    data: stepRuns.map((sr) => ({
+      runId,
+      stepOrder: sr.stepOrder,
+      status: "completed",
+      input: sr.input !== undefined && sr.input !== null ? (sr.input as object) : undefined,
+      output: sr.output !== undefined && sr.output !== null ? (sr.output as object) : undefined,
+      startedAt: now,
+      completedAt: now,
+      durationMs: sr.durationMs,
+    })),
+  });
+}
+
+/**
+ * Mark a step run as waiting (delay / wait-until step pausing the run).
+ */
+async function waitStepRun(stepRunId: string): Promise<void> {
+  await prisma.workflowStepRun.update({
+    where: { id: stepRunId },
+    data: { status: "waiting" },
+  });
+}
+
 /**
  * Mark a step run as skipped (condition not met).
  */
@@ -822,6 +1551,27 @@ async function skipStepRun(stepRunId: string): Promise<void> {
   });
 }
 
+/**
+ * Pause a run until `resumeAt`, keeping the state needed to continue it.
+ * `waitKey` is set when the run also waits for a chat reply.
+ */
+async function pauseRun(
+  runId: string,
+  resumeAt: Date,
+  pausedState: unknown,
+  waitKey: string | null = null
+): Promise<void> {
+  await prisma.workflowRun.update({
+    where: { id: runId },
+    data: {
+      status: "waiting",
+      resumeAt,
+      pausedState: pausedState as object,
+      waitKey,
+    },
+  });
+}
+
 /**
  * Complete a workflow run (success).
  */
@@ -852,6 +1602,9 @@ async function completeRun(
       lastError: null,
     },
   });
+
+  // Runs that waited past the analytics cron's window count on their day
+  void rollUpLateRun(run);
 }
 
 /**
@@ -886,6 +1639,9 @@ async function failRun(
       lastError: error,
     },
   });
+
+  // Runs that waited past the analytics cron's window count on their day
+  void rollUpLateRun(run);
 }
 
 // ===========================================
@@ -919,6 +1675,10 @@ function toWorkflowDefinition(workflow: {
   gatewayId: string | null;
   status: string;
   isEnabled: boolean;
+  publishedVersion?: number | null;
+  onFailureWorkflowId?: string | null;
+  concurrencyKey?: string | null;
+  rateLimit?: unknown;
   executionCount: number;
   lastExecutedAt: Date | null;
   lastError: string | null;
@@ -936,6 +1696,7 @@ function toWorkflowDefinition(workflow: {
     condition: unknown;
     onError: string;
     maxRetries: number;
+    retryPolicy?: unknown;
     positionX?: number;
     positionY?: number;
     entryFile?: string | null;
@@ -965,6 +1726,10 @@ function toWorkflowDefinition(workflow: {
     gatewayId: workflow.gatewayId ?? undefined,
     status: workflow.status as WorkflowDefinition["status"],
     isEnabled: workflow.isEnabled,
+    publishedVersion: workflow.publishedVersion ?? undefined,
+    onFailureWorkflowId: workflow.onFailureWorkflowId ?? undefined,
+    concurrencyKey: workflow.concurrencyKey ?? undefined,
+    rateLimit: parseRateLimit(workflow.rateLimit) ?? undefined,
     steps: workflow.steps.map(toStepDefinition),
     edges: (workflow.edges ?? []).map(toEdgeDefinition),
     executionCount: workflow.executionCount,
@@ -987,6 +1752,7 @@ function toStepDefinition(step: {
   condition: unknown;
   onError: string;
   maxRetries: number;
+  retryPolicy?: unknown;
   positionX?: number;
   positionY?: number;
   entryFile?: string | null;
@@ -1013,6 +1779,7 @@ function toStepDefinition(step: {
       : undefined,
     onError: step.onError as StepErrorHandler,
     maxRetries: step.maxRetries,
+    retryPolicy: step.retryPolicy ? (step.retryPolicy as Partial<StepRetryPolicy>) : undefined,
     positionX: step.positionX ?? 0,
     positionY: step.positionY ?? 0,
     entryFile: step.entryFile ?? undefined,
@@ -1044,6 +1811,8 @@ function toStepRunDetail(
   sr: {
     id: string;
     stepOrder: number;
+    iteration: number;
+    parentStepRunId: string | null;
     status: string;
     input: unknown;
     output: unknown;
@@ -1058,6 +1827,8 @@ function toStepRunDetail(
   return {
     id: sr.id,
     stepOrder: sr.stepOrder,
+    iteration: sr.iteration >= 0 ? sr.iteration : undefined,
+    parentStepRunId: sr.parentStepRunId ?? undefined,
     stepName: stepInfo?.name ?? undefined,
     pluginSlug: stepInfo?.pluginSlug ?? "",
     status: sr.status.toUpperCase(),
@@ -1097,11 +1868,12 @@ async function cleanupOrphanedRuns(): Promise<number> {
     },
   });
 
-  // Fail orphaned workflow runs
+  // Fail orphaned workflow runs. A resumed run counts from when it resumed.
   const result = await prisma.workflowRun.updateMany({
     where: {
       status: "running",
       startedAt: { lt: cutoff },
+      OR: [{ resumeAt: null }, { resumeAt: { lt: cutoff } }],
     },
     data: {
       status: "failed",
@@ -1276,16 +2048,32 @@ export const workflowService = {
   deleteEdge,
   replaceEdges,
 
+  // Versions (draft / published)
+  publishWorkflow,
+  listVersions,
+  getDraftDiff,
+  getVersionDiff,
+  revertToVersion,
+
+  // Export / import
+  exportWorkflow,
+  importWorkflow,
+
   // Runs
   listRuns,
   getRunDetail,
+  getAnalytics,
 
   // Execution recording (used by executor)
+  loadWorkflowGraph,
   createRun,
   createStepRun,
   completeStepRun,
   failStepRun,
+  recordReusedStepRuns,
   skipStepRun,
+  waitStepRun,
+  pauseRun,
   completeRun,
   failRun,
 
@@ -0,0 +1,178 @@
+/**
+ * Live Run Events
+ *
+ * Structured progress events emitted by the executor while a run executes
+ * (run / step lifecycle and captured plugin log lines), so the studio can
+ * follow a run as it happens instead of polling for the finished result.
+ *
+ * Runs execute in the API process (manual / test runs) or in the workflow
+ * worker, so events go out on two paths: an in-process emitter and a Redis
+ * channel per workflow. Subscribers receive each event once — Redis copies
+ * of events this process published itself are dropped. Without Redis only
+ * same-process runs are streamed.
+ *
+ * Events are best-effort and never affect the run; the WorkflowRun /
+ * WorkflowStepRun rows stay the source of truth.
+ *
+ * @module modules/workflow/workflow.stream
+ */
+
+import crypto from "node:crypto";
+import { EventEmitter } from "node:events";
+
+import { logger } from "@/lib/logger";
+import { redis, type RedisLikeClient } from "@/lib/redis";
+
+const streamLogger = logger.child({ module: "workflow-stream" });
+
+/** Identifies this process's own events on the shared channel */
+const ORIGIN_ID = crypto.randomBytes(6).toString("hex");
+
+const CHAN_RUN_EVENTS = (workflowId: string) => `workflow:run-events:${workflowId}`;
+
+/** Longest serialized output kept in a step_completed preview */
+const OUTPUT_PREVIEW_LENGTH = 500;
+
+// ===========================================
+// Event types
+// ===========================================
+
+interface RunEventBase {
+  workflowId: string;
+  runId: string;
+  /** ISO timestamp */
+  at: string;
+}
+
+interface StepEventBase extends RunEventBase {
+  stepId: string;
+  stepOrder: number;
+  /** Set for steps running inside a foreach iteration */
+  iteration?: number;
+}
+
+export type WorkflowRunEvent =
+  | (RunEventBase & { type: "run_started"; triggeredBy: string; resumed: boolean })
+  | (StepEventBase & { type: "step_started"; pluginSlug: string })
+  | (StepEventBase & { type: "step_completed"; durationMs: number; outputPreview: string; ports?: string[] })
+  | (StepEventBase & { type: "step_failed"; durationMs: number; error: string })
+  | (StepEventBase & { type: "step_skipped" })
+  | (StepEventBase & { type: "step_waiting" })
+  | (StepEventBase & { type: "log"; level: string; message: string })
+  | (RunEventBase & {
+      type: "run_finished";
+      status: "completed" | "failed" | "waiting";
+      durationMs: number;
+      error?: string;
+    });
+
+export type WorkflowRunEventType = WorkflowRunEvent["type"];
+
+/** An event as passed to `emitRunEvent` — `at` is filled in. */
+type RunEventInput = WorkflowRunEvent extends infer E
+  ? E extends WorkflowRunEvent ? Omit<E, "at"> : never
+  : never;
+
+type RunEventListener = (event: WorkflowRunEvent) => void;
+
+// ===========================================
+// Publishing
+// ===========================================
+
+const localEvents = new EventEmitter();
+// One listener per open stream; the default cap of 10 is too low
+localEvents.setMaxListeners(0);
+
+/** Serialize an output for display, truncated to a bounded length. */
+export function previewOutput(output: unknown, maxLength = OUTPUT_PREVIEW_LENGTH): string {
+  let text: string;
+  try {
+    text = typeof output === "string" ? output : JSON.stringify(output) ?? "";
+  } catch {
+    text = String(output);
+  }
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+/**
+ * Emit a run event to local subscribers and other processes.
+ * Fire-and-forget: never throws and never waits on Redis.
+ */
+export function emitRunEvent(input: RunEventInput): void {
+  const event = { ...input, at: new Date().toISOString() } as WorkflowRunEvent;
+  localEvents.emit(event.workflowId, event);
+  redis
+    .publish(CHAN_RUN_EVENTS(event.workflowId), JSON.stringify({ origin: ORIGIN_ID, event }))
+    .catch((err: unknown) => {
+      streamLogger.debug(
+        { workflowId: event.workflowId, error: err instanceof Error ? err.message : String(err) },
+        "Could not publish run event",
+      );
+    });
+}
+
+// ===========================================
+// Subscribing
+// ===========================================
+
+let subscriberClient: RedisLikeClient | null = null;
+/** Open local subscriptions per workflow — the Redis channel is held while > 0 */
+const channelRefs = new Map<string, number>();
+
+function getSubscriber(): RedisLikeClient | null {
+  if (subscriberClient) return subscriberClient;
+  try {
+    // Separate connection — a subscribed ioredis client can't issue other commands
+    subscriberClient = redis.duplicate();
+    subscriberClient.on("error", (err) => {
+      streamLogger.warn({ err }, "Run event subscriber error");
+    });
+    subscriberClient.on("message", (_channel: string, message: string) => {
+      try {
+        const { origin, event } = JSON.parse(message) as { origin: string; event: WorkflowRunEvent };
+        if (origin !== ORIGIN_ID) localEvents.emit(event.workflowId, event);
+      } catch (err) {
+        streamLogger.warn({ err }, "Malformed run event");
+      }
+    });
+  } catch (err) {
+    streamLogger.warn({ err }, "Failed to start run event subscriber — streaming same-process runs only");
+    subscriberClient = null;
+  }
+  return subscriberClient;
+}
+
+/**
+ * Receive the run events of one workflow, from any process.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeRunEvents(workflowId: string, listener: RunEventListener): () => void {
+  localEvents.on(workflowId, listener);
+
+  const channel = CHAN_RUN_EVENTS(workflowId);
+  const refs = channelRefs.get(channel) ?? 0;
+  channelRefs.set(channel, refs + 1);
+  if (refs === 0) {
+    getSubscriber()?.subscribe(channel).catch((err: unknown) => {
+      streamLogger.warn({ err, workflowId }, "Failed to subscribe to run events");
+    });
+  }
+
+  let active = true;
+  return () => {
+    if (!active) return;
+    active = false;
+    localEvents.off(workflowId, listener);
+
+    const remaining = (channelRefs.get(channel) ?? 1) - 1;
+    if (remaining > 0) {
+      channelRefs.set(channel, remaining);
+      return;
+    }
+    channelRefs.delete(channel);
+    subscriberClient?.unsubscribe(channel).catch(() => {
+      // best-effort
+    });
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Sub-Workflows
+ *
+ * Helpers behind the sub-workflow step. A callee declares its call contract
+ * in its trigger config, reusing the manual-trigger fields:
+ *
+ *   { requiredParams?: string[], paramsSchema?: JSONSchema, outputSchema?: JSONSchema }
+ *
+ * The executor checks the caller's mapped input before starting the child
+ * run and the child's final output before handing it back.
+ *
+ * @module modules/workflow/workflow.subflow
+ */
+
+import type { JSONSchema } from "@/modules/plugin/plugin.types";
+
+/** Deepest a chain of sub-workflow calls may nest (top-level run = 0). */
+export const MAX_SUB_WORKFLOW_DEPTH = 5;
+
+/** `WorkflowRun.triggeredBy` for runs started by a sub-workflow step. */
+export const SUB_WORKFLOW_TRIGGERED_BY = "sub_workflow";
+
+export interface SubWorkflowContract {
+  requiredParams: string[];
+  paramsSchema?: JSONSchema;
+  outputSchema?: JSONSchema;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Read the call contract from a callee's trigger config. */
+export function getSubWorkflowContract(triggerConfig: unknown): SubWorkflowContract {
+  const cfg = isObject(triggerConfig) ? triggerConfig : {};
+  return {
+    requiredParams: Array.isArray(cfg.requiredParams)
+      ? cfg.requiredParams.filter((p): p is string => typeof p === "string")
+      : [],
+    paramsSchema: isObject(cfg.paramsSchema) ? (cfg.paramsSchema as JSONSchema) : undefined,
+    outputSchema: isObject(cfg.outputSchema) ? (cfg.outputSchema as JSONSchema) : undefined,
+  };
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Check `value` against the `type` / `properties` / `required` / `items`
+ * subset of JSON Schema that plugin schemas use. Returns one message per
+ * mismatch, prefixed with its path.
+ */
+export function checkValueAgainstSchema(
+  schema: JSONSchema,
+  value: unknown,
+  path = "",
+): string[] {
+  const at = path || "value";
+  if (value === undefined) return [];
+
+  if (schema.type) {
+    const actual = typeOf(value);
+    if (actual !== schema.type) {
+      return [`${at} must be ${schema.type}, got ${actual}`];
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${at} must be one of ${schema.enum.map(String).join(", ")}`];
+  }
+
+  const problems: string[] = [];
+  if (isObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) problems.push(`${path ? `${path}.` : ""}${key} is required`);
+    }
+    for (const [key, prop] of Object.entries(schema.properties ?? {})) {
+      problems.push(...checkValueAgainstSchema(prop, value[key], path ? `${path}.${key}` : key));
+    }
+  } else if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    value.forEach((item, i) => {
+      problems.push(...checkValueAgainstSchema(items, item, `${at}[${i}]`));
+    });
+  }
+  return problems;
+}
+
+/** Problems with the input a caller passes to a callee. */
+export function checkSubWorkflowInput(contract: SubWorkflowContract, input: unknown): string[] {
+  const params = isObject(input) ? input : {};
+  const problems = contract.requiredParams
+    .filter((key) => params[key] === undefined || params[key] === null || params[key] === "")
+    .map((key) => `${key} is required`);
+  if (contract.paramsSchema) {
+    problems.push(...checkValueAgainstSchema(contract.paramsSchema, params));
+  }
+  return problems;
+}
+
+/** Problems with the final output a callee returns. */
+export function checkSubWorkflowOutput(contract: SubWorkflowContract, output: unknown): string[] {
+  if (!contract.outputSchema) return [];
+  if (output === undefined && contract.outputSchema.type) {
+    return [`output must be ${contract.outputSchema.type}, got nothing`];
+  }
+  return checkValueAgainstSchema(contract.outputSchema, output, "output");
+}
@@ -3,23 +3,49 @@
  *
  * Matches incoming events against active workflows and fires the executor.
  * Uses unified BOT_MESSAGE trigger type for all gateway-originating events.
+ * A bot message that answers a run waiting for a reply resumes that run
+ * instead of matching triggers. Workflows with a concurrency key queue their
+ * bot-message runs so each conversation is handled in order, and rate limits
+ * drop runs over a workflow's limit (see `workflow.concurrency.ts`).
+ * Platform events start the owner's PLATFORM_EVENT workflows (see
+ * `workflow.events.ts`).
  *
  * @module modules/workflow/workflow.triggers
  */
 
 import { logger } from "@/lib/logger";
+import { onPlatformEvent, type PlatformEvent } from "@/lib/platform-events";
 import { prisma } from "@/lib/prisma";
-
-import { executeWorkflow } from "./workflow.executor";
+import { RateLimitError } from "@/shared/errors";
+
+import { enqueueKeyedWorkflowRun } from "./workflow-queue";
+import {
+    parseRateLimit,
+    resolveConcurrencyKey,
+    takeRateLimitSlot,
+} from "./workflow.concurrency";
+import {
+    MAX_EVENT_CHAIN_DEPTH,
+    PLATFORM_EVENT_TRIGGERED_BY,
+    matchesPlatformEventTrigger,
+} from "./workflow.events";
+import { executeWorkflow, resumeRunWithReply, sendTriggerReply } from "./workflow.executor";
 import type {
     DiscordCommandTriggerConfig,
     DiscordMessageTriggerConfig,
+    EmailMessageTriggerConfig,
+    MatrixMessageTriggerConfig,
+    PlatformEventTriggerConfig,
+    PlatformEventTriggerData,
     SlackCommandTriggerConfig,
     SlackMessageTriggerConfig,
     TelegramCallbackTriggerConfig,
     TelegramMessageTriggerConfig,
+    WebChatMessageTriggerConfig,
     WhatsAppMessageTriggerConfig,
+    WorkflowRunHooks,
 } from "./workflow.types";
+import { buildWaitKey, getConversation } from "./workflow.wait";
 
 const triggerLogger = logger.child({ module: "workflow-triggers" });
 
@@ -30,11 +56,13 @@ const triggerLogger = logger.child({ module: "workflow-triggers" });
 /**
  * Unified trigger check for all gateway-originating events.
  * Queries workflows with BOT_MESSAGE trigger type bound to the given gateway.
+ * Messages from a chat user some run is waiting on (wait-for-reply step) go
+ * to that run and start nothing new.
  *
  * @param gatewayId - The gateway that received the message
  * @param userId - Owner of the gateway
  * @param organizationId - Org context (if any)
- * @param eventSource - Platform identifier (e.g. "telegram", "discord", "slack", "whatsapp")
+ * @param eventSource - Platform identifier (e.g. "telegram", "discord", "slack", "whatsapp", "webchat", "email", "matrix")
  * @param messageData - The raw message/event data
  * @param matchFn - Optional platform-specific matching function
  */
@@ -48,6 +76,23 @@ export async function checkBotMessageTrigger(
   rawUpdate?: unknown
 ): Promise<boolean> {
   try {
+    const conversation = getConversation(eventSource, messageData);
+    if (conversation) {
+      const resumedRunId = await resumeRunWithReply(buildWaitKey(gatewayId, conversation), {
+        text: conversation.text,
+        source: eventSource,
+        message: messageData,
+        timedOut: false,
+      });
+      if (resumedRunId) {
+        triggerLogger.info(
+          { runId: resumedRunId, gatewayId, eventSource },
+          "Bot message handed to waiting workflow run"
+        );
+        return true;
+      }
+    }
+
     const workflows = await prisma.workflow.findMany({
       where: {
         userId,
@@ -59,6 +104,8 @@ export async function checkBotMessageTrigger(
       select: {
         id: true,
         triggerConfig: true,
+        concurrencyKey: true,
+        rateLimit: true,
       },
     });
 
@@ -93,17 +140,53 @@ export async function checkBotMessageTrigger(
         ? `${workflow.id}:${gatewayId}:${updateUniqueId}`
         : undefined;
 
-      executeWorkflow(workflow.id, `bot_message_${eventSource}`, {
-        message: messageData,
-        gatewayId,
-        source: eventSource,
-        rawUpdate,
-      }, undefined, runIdempotencyKey).catch((err) => {
-        triggerLogger.error(
-          { workflowId: workflow.id, error: err instanceof Error ? err.message : String(err) },
-          "Workflow execution failed from bot message trigger"
-        );
+      const triggeredBy = `bot_message_${eventSource}`;
+      const triggerData = { message: messageData, gatewayId, source: eventSource, rawUpdate };
+      const key = resolveConcurrencyKey(workflow.concurrencyKey, triggerData, {
+        userId,
+        organizationId: organizationId ?? undefined,
+        workflowId: workflow.id,
       });
+
+      const rateLimit = parseRateLimit(workflow.rateLimit);
+      if (rateLimit && !(await takeRateLimitSlot(workflow.id, key ?? "*", rateLimit))) {
+        triggerLogger.info({ workflowId: workflow.id, gatewayId, key }, "Bot message over workflow rate limit — run dropped");
+        if (rateLimit.reply) {
+          sendTriggerReply(gatewayId, triggerData, rateLimit.reply).catch((err) => {
+            triggerLogger.warn(
+              { workflowId: workflow.id, error: err instanceof Error ? err.message : String(err) },
+              "Failed to send rate limit reply"
+            );
+          });
+        }
+        continue;
+      }
+
+      const runInline = () =>
+        executeWorkflow(workflow.id, triggeredBy, triggerData, undefined, runIdempotencyKey).catch((err) => {
+          triggerLogger.error(
+            { workflowId: workflow.id, error: err instanceof Error ? err.message : String(err) },
+            "Workflow execution failed from bot message trigger"
+          );
+        });
+
+      if (!key) {
+        runInline();
+        continue;
+      }
+      try {
+        await enqueueKeyedWorkflowRun(
+          { workflowId: workflow.id, triggeredBy, triggerData, idempotencyKey: runIdempotencyKey },
+          key
+        );
+      } catch (err) {
+        // Better out of order than lost
+        triggerLogger.warn(
+          { workflowId: workflow.id, key, error: err instanceof Error ? err.message : String(err) },
+          "Could not queue keyed run — running it unordered"
+        );
+        runInline();
+      }
     }
     return matched;
   } catch (error) {
@@ -485,6 +568,172 @@ function matchesWhatsAppTrigger(
   return true;
 }
 
+// ===========================================
+// Web Chat Message Trigger
+// ===========================================
+
+/**
+ * Check if any active workflows should fire for this web chat message.
+ * Delegates to unified BOT_MESSAGE trigger; `chatId` is the widget session,
+ * so auto-replies and wait-for-reply steps address the visitor's session.
+ */
+export async function checkWebChatMessageTrigger(
+  gatewayId: string,
+  userId: string,
+  organizationId: string | null,
+  messageData: {
+    chatId: string;
+    visitorId: string;
+    text: string;
+    messageId: string;
+    visitorName?: string;
+  },
+  rawUpdate?: unknown
+): Promise<boolean> {
+  return checkBotMessageTrigger(
+    gatewayId,
+    userId,
+    organizationId,
+    "webchat",
+    messageData as unknown as Record<string, unknown>,
+    (config, data) => matchesWebChatTrigger(
+      config as WebChatMessageTriggerConfig,
+      data as { text?: string }
+    ),
+    rawUpdate
+  );
+}
+
+function matchesWebChatTrigger(
+  config: WebChatMessageTriggerConfig,
+  message: { text?: string }
+): boolean {
+  if (config.textPattern) {
+    if (!message.text) return false;
+    try {
+      if (!new RegExp(config.textPattern).test(message.text)) return false;
+    } catch {
+      triggerLogger.warn({ textPattern: config.textPattern }, "Invalid regex in web chat trigger config");
+    }
+  }
+  return true;
+}
+
+// ===========================================
+// Email Message Trigger
+// ===========================================
+
+/**
+ * Check if any active workflows should fire for this inbound email.
+ * Delegates to unified BOT_MESSAGE trigger; `chatId` is the thread's root
+ * Message-ID, so auto-replies and wait-for-reply steps stay in the thread.
+ */
+export async function checkEmailMessageTrigger(
+  gatewayId: string,
+  userId: string,
+  organizationId: string | null,
+  messageData: {
+    chatId: string;
+    from: string;
+    subject: string;
+    text: string;
+    messageId: string;
+    fromName?: string;
+  },
+  rawUpdate?: unknown
+): Promise<boolean> {
+  return checkBotMessageTrigger(
+    gatewayId,
+    userId,
+    organizationId,
+    "email",
+    messageData as unknown as Record<string, unknown>,
+    (config, data) => matchesEmailTrigger(
+      config as EmailMessageTriggerConfig,
+      data as { from?: string; subject?: string; text?: string }
+    ),
+    rawUpdate
+  );
+}
+
+function matchesEmailTrigger(
+  config: EmailMessageTriggerConfig,
+  message: { from?: string; subject?: string; text?: string }
+): boolean {
+  const checks: Array<[string | undefined, string | undefined]> = [
+    [config.fromPattern, message.from],
+    [config.subjectPattern, message.subject],
+    [config.textPattern, message.text],
+  ];
+  for (const [pattern, value] of checks) {
+    if (!pattern) continue;
+    try {
+      if (!new RegExp(pattern, "i").test(value ?? "")) return false;
+    } catch {
+      triggerLogger.warn({ pattern }, "Invalid regex in email trigger config");
+    }
+  }
+  return true;
+}
+
+// ===========================================
+// Matrix Message Trigger
+// ===========================================
+
+/**
+ * Check if any active workflows should fire for this Matrix room message.
+ * Delegates to unified BOT_MESSAGE trigger; `chatId` is the room ID.
+ */
+export async function checkMatrixMessageTrigger(
+  gatewayId: string,
+  userId: string,
+  organizationId: string | null,
+  messageData: {
+    chatId: string;
+    sender: string;
+    text: string;
+    messageId: string;
+    isDirect: boolean;
+    mentioned: boolean;
+    senderName?: string;
+  },
+  rawUpdate?: unknown
+): Promise<boolean> {
+  return checkBotMessageTrigger(
+    gatewayId,
+    userId,
+    organizationId,
+    "matrix",
+    messageData as unknown as Record<string, unknown>,
+    (config, data) => matchesMatrixTrigger(
+      config as MatrixMessageTriggerConfig,
+      data as { chatId?: string; text?: string; isDirect?: boolean; mentioned?: boolean }
+    ),
+    rawUpdate
+  );
+}
+
+function matchesMatrixTrigger(
+  config: MatrixMessageTriggerConfig,
+  message: { chatId?: string; text?: string; isDirect?: boolean; mentioned?: boolean }
+): boolean {
+  if (config.roomIds && config.roomIds.length > 0) {
+    if (!message.chatId || !config.roomIds.includes(message.chatId)) return false;
+  }
+  if (config.mentionOnly && !message.isDirect && !message.mentioned) {
+    return false;
+  }
+  if (config.textPattern) {
+    if (!message.text) return false;
+    try {
+      if (!new RegExp(config.textPattern).test(message.text)) return false;
+    } catch {
+      triggerLogger.warn({ textPattern: config.textPattern }, "Invalid regex in Matrix trigger config");
+    }
+  }
+  return true;
+}
+
 // ===========================================
 // Webhook Trigger (external services)
 // ===========================================
@@ -495,6 +744,8 @@ function matchesWhatsAppTrigger(
  *
  * @param workflowId - The workflow to trigger
  * @param requestData - The incoming HTTP request data
+ * @param hooks - Optional in-process run observers (HTTP_ROUTE sync responses)
+ * @throws RateLimitError when the workflow's rate limit is used up
  */
 export async function handleWebhookTrigger(
   workflowId: string,
@@ -503,11 +754,22 @@ export async function handleWebhookTrigger(
     headers: Record<string, string>;
     body: unknown;
     query: Record<string, string>;
-  }
+  },
+  hooks?: WorkflowRunHooks,
 ): Promise<string> {
   const workflow = await prisma.workflow.findUnique({
     where: { id: workflowId },
-    select: { id: true, triggerType: true, triggerConfig: true, status: true, isEnabled: true },
+    select: {
+      id: true,
+      userId: true,
+      organizationId: true,
+      triggerType: true,
+      triggerConfig: true,
+      status: true,
+      isEnabled: true,
+      concurrencyKey: true,
+      rateLimit: true,
+    },
   });
 
   if (!workflow) {
@@ -522,5 +784,122 @@ export async function handleWebhookTrigger(
 
   triggerLogger.info({ workflowId }, "Webhook trigger received");
 
-  return executeWorkflow(workflowId, "webhook", requestData);
+  // Webhook callers wait for the run ID, so keyed webhook runs aren't
+  // queued — the key only scopes the rate limit.
+  const rateLimit = parseRateLimit(workflow.rateLimit);
+  if (rateLimit) {
+    const key = resolveConcurrencyKey(workflow.concurrencyKey, requestData, {
+      userId: workflow.userId,
+      organizationId: workflow.organizationId ?? undefined,
+      workflowId,
+    });
+    if (!(await takeRateLimitSlot(workflowId, key ?? "*", rateLimit))) {
+      throw new RateLimitError("Workflow rate limit exceeded", rateLimit.windowSeconds);
+    }
+  }
+
+  return hooks
+    ? executeWorkflow(workflowId, "webhook", requestData, { hooks })
+    : executeWorkflow(workflowId, "webhook", requestData);
+}
+
+// ===========================================
+// Platform Event Trigger
+// ===========================================
+
+let platformEventsRegistered = false;
+
+/**
+ * Start the owner's active PLATFORM_EVENT workflows that match an event.
+ * In an organization, an event with an owning user (a member's workflow,
+ * gateway or resource) only starts that member's workflows unless the
+ * subscriber opted in with `orgWide`; alerts reach all of them.
+ * Workflows already in the event's `causedBy` chain are skipped, as are
+ * chains at `MAX_EVENT_CHAIN_DEPTH`. Runs start in the background.
+ *
+ * @returns Number of runs started
+ */
+export async function handlePlatformEventTrigger(event: PlatformEvent): Promise<number> {
+  const causedBy = event.causedBy ?? [];
+  if (causedBy.length >= MAX_EVENT_CHAIN_DEPTH) {
+    triggerLogger.warn(
+      { event: event.name, causedBy },
+      "Platform event chain too deep — no workflows started"
+    );
+    return 0;
+  }
+
+  const owner = event.organizationId
+    ? { organizationId: event.organizationId }
+    : event.userId ? { userId: event.userId, organizationId: null } : null;
+  if (!owner) return 0;
+
+  const workflows = await prisma.workflow.findMany({
+    where: { ...owner, triggerType: "PLATFORM_EVENT", status: "ACTIVE", isEnabled: true },
+    select: {
+      id: true,
+      userId: true,
+      organizationId: true,
+      triggerConfig: true,
+      concurrencyKey: true,
+      rateLimit: true,
+    },
+  });
+
+  const triggerData: PlatformEventTriggerData = {
+    event: event.name,
+    data: event.data as unknown as Record<string, unknown>,
+    at: event.at,
+    causedBy,
+  };
+
+  let started = 0;
+  for (const workflow of workflows) {
+    const config = (workflow.triggerConfig ?? {}) as Partial<PlatformEventTriggerConfig>;
+    if (!matchesPlatformEventTrigger(config, event)) continue;
+    if (event.organizationId && event.userId && workflow.userId !== event.userId && config.orgWide !== true) continue;
+
+    if (causedBy.includes(workflow.id)) {
+      triggerLogger.info(
+        { workflowId: workflow.id, event: event.name, causedBy },
+        "Platform event caused by this workflow — run skipped to prevent a loop"
+      );
+      continue;
+    }
+
+    const rateLimit = parseRateLimit(workflow.rateLimit);
+    if (rateLimit) {
+      const key = resolveConcurrencyKey(workflow.concurrencyKey, triggerData, {
+        userId: workflow.userId,
+        organizationId: workflow.organizationId ?? undefined,
+        workflowId: workflow.id,
+      });
+      if (!(await takeRateLimitSlot(workflow.id, key ?? "*", rateLimit))) {
+        triggerLogger.info({ workflowId: workflow.id, event: event.name, key }, "Platform event over workflow rate limit — run dropped");
+        continue;
+      }
+    }
+
+    started++;
+    triggerLogger.info({ workflowId: workflow.id, event: event.name }, "Platform event matched workflow trigger");
+    executeWorkflow(workflow.id, PLATFORM_EVENT_TRIGGERED_BY, triggerData).catch((err) => {
+      triggerLogger.error(
+        { workflowId: workflow.id, event: event.name, error: err instanceof Error ? err.message : String(err) },
+        "Workflow execution failed from platform event trigger"
+      );
+    });
+  }
+  return started;
+}
+
+/**
+ * Subscribe PLATFORM_EVENT workflows to this process's platform events
+ * (idempotent). Called at startup by every process that emits events.
+ */
+export function registerPlatformEventTriggers(): void {
+  if (platformEventsRegistered) return;
+  platformEventsRegistered = true;
+  onPlatformEvent(async (event) => {
+    await handlePlatformEventTrigger(event);
+  });
 }
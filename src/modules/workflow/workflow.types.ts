@@ -13,6 +13,12 @@ import type {
     WorkflowTriggerType
 } from "@prisma/client";
 
+import type { PlatformEventName } from "@/lib/platform-events";
+
+import type { StepRetryPolicy } from "./workflow.backoff";
+import type { WorkflowRateLimit } from "./workflow.concurrency";
+import type { PreflightReport } from "./workflow.preflight";
+
 // Re-export Prisma types
 export type {
     Workflow, WorkflowEdge, WorkflowRun, WorkflowScope, WorkflowStatus, WorkflowStep, WorkflowStepRun,
@@ -81,6 +87,8 @@ export interface ManualTriggerConfig {
   requiredParams?: string[];
   /** Parameter schema (JSON Schema) */
   paramsSchema?: Record<string, unknown>;
+  /** Final output schema (JSON Schema), checked when called as a sub-workflow */
+  outputSchema?: Record<string, unknown>;
 }
 
 // ===========================================
@@ -151,6 +159,60 @@ export interface WhatsAppMessageTriggerConfig {
   textPattern?: string;
 }
 
+/**
+ * Web chat message trigger config
+ */
+export interface WebChatMessageTriggerConfig {
+  /** Text pattern regex */
+  textPattern?: string;
+}
+
+/**
+ * Email message trigger config
+ */
+export interface EmailMessageTriggerConfig {
+  /** Sender address regex */
+  fromPattern?: string;
+  /** Subject line regex */
+  subjectPattern?: string;
+  /** Body text regex (matched against the reply without quoted history) */
+  textPattern?: string;
+}
+
+/**
+ * Matrix message trigger config
+ */
+export interface MatrixMessageTriggerConfig {
+  /** Filter by room IDs */
+  roomIds?: string[];
+  /** Text pattern regex */
+  textPattern?: string;
+  /** In group rooms, only match messages that mention the bot (direct rooms always match) */
+  mentionOnly?: boolean;
+}
+
+// ===========================================
+// Platform Event Trigger Config
+// ===========================================
+
+export type PlatformEventFilterValue = string | number | boolean;
+
+/**
+ * Platform event trigger config. Runs when the owner's `event` fires and
+ * every filter matches the event data (an array matches any of its values).
+ */
+export interface PlatformEventTriggerConfig {
+  event: PlatformEventName;
+  /** Event data field → required value, e.g. `{ status: "ERROR" }` */
+  filters?: Record<string, PlatformEventFilterValue | PlatformEventFilterValue[]>;
+  /**
+   * Also start on other organization members' events (their workflows,
+   * gateways and resources). Off by default: organization workflows only
+   * see their owner's events and organization-wide alerts.
+   */
+  orgWide?: boolean;
+}
+
 /**
  * Union type for all trigger configs
  */
@@ -162,9 +224,13 @@ export type TriggerConfig =
   | SlackMessageTriggerConfig
   | SlackCommandTriggerConfig
   | WhatsAppMessageTriggerConfig
+  | WebChatMessageTriggerConfig
+  | EmailMessageTriggerConfig
+  | MatrixMessageTriggerConfig
   | ScheduleTriggerConfig
   | WebhookTriggerConfig
   | ManualTriggerConfig
+  | PlatformEventTriggerConfig
   | Record<string, unknown>;
 
 // ===========================================
@@ -221,6 +287,15 @@ export interface WorkflowDefinition {
   gatewayId?: string;
   status: WorkflowStatus;
   isEnabled: boolean;
+  /** Version live runs execute; unset until the workflow is first published */
+  publishedVersion?: number;
+  /** Workflow started with a `WorkflowFailureTriggerData` payload when a run fails */
+  onFailureWorkflowId?: string;
+  /** Template over the trigger data; bot-message runs with the same key run in order */
+  concurrencyKey?: string;
+  /** Runs allowed per concurrency key in a time window */
+  rateLimit?: WorkflowRateLimit;
+  /** Steps and edges of the draft (what the canvas edits) */
   steps: WorkflowStepDefinition[];
   edges: WorkflowEdgeDefinition[];
   executionCount: number;
@@ -247,6 +322,8 @@ export interface WorkflowStepDefinition {
   condition?: StepCondition;
   onError: StepErrorHandler;
   maxRetries: number;
+  /** Backoff / retryable errors for onError="retry"; unset = defaults */
+  retryPolicy?: Partial<StepRetryPolicy>;
   // Canvas position (graph layout)
   positionX: number;
   positionY: number;
@@ -293,6 +370,14 @@ export interface WorkflowRunSummary {
   startedAt: Date;
   completedAt?: Date;
   durationMs?: number;
+  /** When a WAITING run (delay / wait-until step) will resume */
+  resumeAt?: Date;
+  /** Run of the calling workflow, when started by a sub-workflow step */
+  parentRunId?: string;
+  /** Failed run this run resumes, when started by "resume from step" */
+  retryOfRunId?: string;
+  /** Published version the run executed; unset for runs of the draft */
+  workflowVersion?: number;
   stepsCompleted: number;
   totalSteps: number;
 }
@@ -305,6 +390,108 @@ export interface WorkflowRunDetail extends WorkflowRunSummary {
   output?: unknown;
   failedStepOrder?: number;
   stepRuns: WorkflowStepRunDetail[];
+  /** Runs started by this run's sub-workflow steps */
+  childRuns: Array<{ id: string; workflowId: string; workflowName: string; status: string }>;
+  /** Runs that resumed this run from its failing step */
+  retries: Array<{ id: string; status: string; startedAt: Date }>;
+  /** 2Bot AI credits the run's steps spent */
+  creditsUsed: number;
+  /** Credits per step that spent any */
+  stepCredits: Array<{ stepOrder: number; creditsUsed: number }>;
+}
+
+/**
+ * Latency summary in workflow analytics; percentiles are estimated from
+ * duration buckets, null when nothing ran
+ */
+export interface WorkflowDurationStats {
+  avg: number | null;
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+/**
+ * Executions of one step in workflow analytics
+ */
+export interface WorkflowStepAnalytics {
+  stepId: string;
+  stepOrder: number | null;
+  /** Unset when the step has since been deleted */
+  stepName?: string;
+  pluginSlug?: string;
+  /** Step runs, counting each foreach iteration */
+  executions: number;
+  failed: number;
+  errorRate: number;
+  durationMs: WorkflowDurationStats;
+  creditsUsed: number;
+  /** Most frequent error messages */
+  errors: Array<{ message: string; count: number }>;
+}
+
+/**
+ * Workflow analytics for a range of days (UTC)
+ */
+export interface WorkflowAnalytics {
+  /** First and last day, YYYY-MM-DD */
+  from: string;
+  to: string;
+  runs: {
+    total: number;
+    failed: number;
+    errorRate: number;
+    durationMs: WorkflowDurationStats;
+    creditsUsed: number;
+    creditsPerRun: number;
+  };
+  /** Finished runs per day, oldest first */
+  volume: Array<{ date: string; runs: number; failed: number }>;
+  /** Slowest steps (p95) first */
+  steps: WorkflowStepAnalytics[];
+  /** Most frequent run errors */
+  errors: Array<{ message: string; count: number }>;
+}
+
+/**
+ * Published workflow version for API responses
+ */
+export interface WorkflowVersionSummary {
+  version: number;
+  note?: string;
+  publishedBy?: string;
+  /** Version this one re-published (one-click revert) */
+  revertedFrom?: number;
+  stepCount: number;
+  /** Whether live runs currently execute this version */
+  isPublished: boolean;
+  createdAt: Date;
+}
+
+/**
+ * A gateway or workflow ref in an imported document, and what it binds to
+ */
+export interface WorkflowImportBinding {
+  kind: "gateway" | "workflow" | "resource";
+  ref: string;
+  /** Name (and gateway type / resource kind) recorded by the exporter */
+  name: string;
+  type?: string;
+  /** Bound gateway / workflow / resource; unset while unresolved */
+  resolvedId?: string;
+  /** The importer's gateways / workflows / resources to pick from when unresolved */
+  candidates: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Import response. A dry run leaves `workflow` unset; problems that block
+ * the import are listed in `errors` (dry run only — otherwise they throw).
+ */
+export interface WorkflowImportResult {
+  workflow?: WorkflowDefinition;
+  bindings: WorkflowImportBinding[];
+  preflight?: PreflightReport;
+  errors?: Record<string, string[]>;
 }
 
 /**
@@ -313,6 +500,10 @@ export interface WorkflowRunDetail extends WorkflowRunSummary {
 export interface WorkflowStepRunDetail {
   id: string;
   stepOrder: number;
+  /** Foreach item index; unset for top-level step runs */
+  iteration?: number;
+  /** Step run of the foreach step this iteration belongs to */
+  parentStepRunId?: string;
   stepName?: string;
   pluginSlug: string;
   status: string;
@@ -361,6 +552,58 @@ export interface WorkflowExecutionContext {
   >;
 }
 
+/**
+ * Trigger data of a run started by a workflow's on-failure target
+ * (`triggeredBy: "workflow_failure"`). Describes the run that failed.
+ */
+export interface WorkflowFailureTriggerData {
+  workflowId: string;
+  workflowName: string;
+  runId: string;
+  /** What triggered the failed run, and with what data */
+  triggeredBy: string;
+  triggerData: unknown;
+  error: string;
+  failedStepOrder: number;
+  failedStepName?: string;
+  failedPluginSlug?: string;
+  startedAt: string;
+  /** Step results of the failed run, by order */
+  steps: WorkflowExecutionContext["steps"];
+}
+
+/**
+ * Trigger data of a run started by a platform event
+ * (`triggeredBy: "platform_event"`).
+ */
+export interface PlatformEventTriggerData {
+  event: PlatformEventName;
+  data: Record<string, unknown>;
+  /** ISO timestamp of the event */
+  at: string;
+  /** Workflows whose runs led to the event, oldest first */
+  causedBy: string[];
+}
+
+/**
+ * In-process observers for a single run. Used by callers that need to react
+ * before `executeWorkflow` resolves (e.g. an HTTP_ROUTE answering from a
+ * mid-run step). Hook errors are logged and never affect the run.
+ */
+export interface WorkflowRunHooks {
+  /** Called once the WorkflowRun row exists. */
+  onRunCreated?: (runId: string) => void;
+  /** Called after each step that completes successfully. */
+  onStepCompleted?: (
+    step: { id: string; order: number; pluginSlug: string },
+    output: unknown,
+  ) => void;
+  /** Called once when the run reaches a terminal status. */
+  onRunFinished?: (
+    result: { status: "completed"; output: unknown } | { status: "failed"; error: string },
+  ) => void;
+}
+
 /**
  * Template context for variable resolution
  * Available variables in input mappings and conditions
@@ -381,6 +624,23 @@ export interface TemplateContext {
    * or no SECRETs.
    */
   secrets: Record<string, string>;
+  /**
+   * KV_STORE values referenced by the current step, keyed by store slug
+   * then entry key (`{{kv.<store>.<key>}}`). Loaded per step by
+   * `loadKvReferences()` so writes from earlier steps are visible.
+   */
+  kv: Record<string, Record<string, unknown>>;
+  /** Current element when running inside a foreach body (`{{item}}`) */
+  item?: unknown;
+  /** Zero-based position of `item` in the foreach array (`{{index}}`) */
+  index?: number;
+  /**
+   * The end-user's answer to the latest wait-for-reply step
+   * (`{{reply.text}}`, `{{reply.timedOut}}`)
+   */
+  reply?: unknown;
+  /** Run variables written by set-variable steps (`{{vars.total}}`) */
+  vars: Record<string, unknown>;
   /** Execution context */
   ctx: {
     userId: string;
@@ -420,6 +680,9 @@ export interface UpdateWorkflowRequest {
   gatewayId?: string | null;
   status?: WorkflowStatus;
   isEnabled?: boolean;
+  onFailureWorkflowId?: string | null;
+  concurrencyKey?: string | null;
+  rateLimit?: WorkflowRateLimit | null;
 }
 
 /**
@@ -436,6 +699,7 @@ export interface CreateWorkflowStepRequest {
   condition?: StepCondition;
   onError?: StepErrorHandler;
   maxRetries?: number;
+  retryPolicy?: Partial<StepRetryPolicy>;
   positionX?: number;
   positionY?: number;
 }
@@ -454,6 +718,7 @@ export interface UpdateWorkflowStepRequest {
   condition?: StepCondition | null;
   onError?: StepErrorHandler;
   maxRetries?: number;
+  retryPolicy?: Partial<StepRetryPolicy> | null;
   positionX?: number;
   positionY?: number;
 }
@@ -8,6 +8,11 @@
 
 import { z } from "zod";
 
+import { PLATFORM_EVENT_NAMES } from "@/lib/platform-events";
+
+import { validateTemplate } from "./template.engine";
+import { STEP_ERROR_CLASSES } from "./workflow.backoff";
+
 // Builtin plugins use UUID, custom plugins use CUID
 const pluginIdSchema = z.string().min(1, "Plugin ID is required").refine(
   (val) => z.string().cuid().safeParse(val).success || z.string().uuid().safeParse(val).success,
@@ -58,6 +63,7 @@ export const triggerTypeSchema = z.enum([
   "SCHEDULE",
   "WEBHOOK",
   "MANUAL",
+  "PLATFORM_EVENT",
 ]);
 
 /**
@@ -75,6 +81,24 @@ export const workflowScopeSchema = z.enum(["USER", "DEPARTMENT", "ORGANIZATION"]
  */
 export const errorHandlerSchema = z.enum(["stop", "continue", "retry"]);
 
+/**
+ * Step retry policy (used with onError="retry"). Omitted fields fall back
+ * to `DEFAULT_RETRY_POLICY`.
+ */
+export const stepRetryPolicySchema = z
+  .object({
+    initialDelayMs: z.number().int().min(0).max(300_000),
+    multiplier: z.number().min(1).max(10),
+    maxDelayMs: z.number().int().min(0).max(3_600_000),
+    jitter: z.boolean(),
+    retryOn: z.array(z.enum(STEP_ERROR_CLASSES)).max(STEP_ERROR_CLASSES.length),
+  })
+  .partial()
+  .refine(
+    (p) => p.initialDelayMs === undefined || p.maxDelayMs === undefined || p.maxDelayMs >= p.initialDelayMs,
+    { message: "Max delay must be at least the initial delay", path: ["maxDelayMs"] }
+  );
+
 // ===========================================
 // Trigger Config Schemas
 // ===========================================
@@ -133,6 +157,24 @@ export const webhookTriggerConfigSchema = z.object({
 export const manualTriggerConfigSchema = z.object({
   requiredParams: z.array(z.string().max(100)).max(20).optional(),
   paramsSchema: z.record(z.string(), z.unknown()).optional(),
+  outputSchema: z.record(z.string(), z.unknown()).optional(),
+});
+
+const platformEventFilterValueSchema = z.union([z.string().max(200), z.number(), z.boolean()]);
+
+/**
+ * Platform event trigger config
+ */
+export const platformEventTriggerConfigSchema = z.object({
+  event: z.enum(PLATFORM_EVENT_NAMES),
+  filters: z
+    .record(
+      z.string().min(1).max(50),
+      z.union([platformEventFilterValueSchema, z.array(platformEventFilterValueSchema).min(1).max(20)])
+    )
+    .refine((filters) => Object.keys(filters).length <= 10, "At most 10 filters")
+    .optional(),
+  orgWide: z.boolean().optional(),
 });
 
 /**
@@ -140,6 +182,33 @@ export const manualTriggerConfigSchema = z.object({
  */
 export const triggerConfigSchema = z.record(z.string(), z.unknown()).optional();
 
+// ===========================================
+// Run Ordering & Rate Limit Schemas
+// ===========================================
+
+/**
+ * Concurrency key — a template over the trigger data, e.g.
+ * `{{trigger.message.chatId}}`
+ */
+export const concurrencyKeySchema = z
+  .string()
+  .trim()
+  .min(1, "Concurrency key is empty")
+  .max(500, "Concurrency key too long")
+  .superRefine((key, ctx) => {
+    const problem = validateTemplate(key);
+    if (problem) ctx.addIssue({ code: "custom", message: problem });
+  });
+
+/**
+ * Per-key run limit
+ */
+export const workflowRateLimitSchema = z.object({
+  max: z.number().int().min(1).max(10_000),
+  windowSeconds: z.number().int().min(1).max(86_400),
+  reply: z.string().max(1000).optional(),
+});
+
 // ===========================================
 // Step Schemas
 // ===========================================
@@ -202,6 +271,7 @@ export const createWorkflowStepSchema = z.object({
   condition: stepConditionSchema,
   onError: errorHandlerSchema.default("stop"),
   maxRetries: z.number().int().min(0).max(10).default(0),
+  retryPolicy: stepRetryPolicySchema.optional(),
 });
 
 /**
@@ -218,6 +288,7 @@ export const updateWorkflowStepSchema = z.object({
   condition: stepConditionSchema.nullish(),
   onError: errorHandlerSchema.optional(),
   maxRetries: z.number().int().min(0).max(10).optional(),
+  retryPolicy: stepRetryPolicySchema.nullish(),
 });
 
 // ===========================================
@@ -250,6 +321,15 @@ export const createWorkflowSchema = z
       message: "Invalid schedule trigger configuration",
       path: ["triggerConfig"],
     }
+  )
+  .refine(
+    (data) =>
+      data.triggerType !== "PLATFORM_EVENT" || !data.triggerConfig ||
+      platformEventTriggerConfigSchema.safeParse(data.triggerConfig).success,
+    {
+      message: "Invalid platform event trigger configuration",
+      path: ["triggerConfig"],
+    }
   );
 
 /**
@@ -264,6 +344,9 @@ export const updateWorkflowSchema = z.object({
   gatewayId: z.string().cuid("Invalid gateway ID").nullish(),
   status: workflowStatusSchema.optional(),
   isEnabled: z.boolean().optional(),
+  onFailureWorkflowId: z.string().cuid("Invalid workflow ID").nullish(),
+  concurrencyKey: concurrencyKeySchema.nullish(),
+  rateLimit: workflowRateLimitSchema.nullish(),
 });
 
 /**
@@ -291,6 +374,124 @@ export const triggerWorkflowSchema = z.object({
   dryRun: z.boolean().optional(),
 });
 
+/**
+ * Resume a failed run. Without `fromStepOrder` every completed step is
+ * reused; with it, steps from that order on run again.
+ */
+export const retryWorkflowRunSchema = z.object({
+  fromStepOrder: z.number().int().min(0).optional(),
+});
+
+/**
+ * Publish the draft as a new version
+ */
+export const publishWorkflowSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
+// ===========================================
+// Export / Import Schemas
+// ===========================================
+
+/** Symbolic name standing in for a cuid in exported documents */
+const portableRefSchema = z.string().min(1).max(100);
+
+/**
+ * Portable workflow document (format version 1). Plugins are referenced by
+ * slug; gateways, called workflows and project resources by the refs
+ * listed in `references`.
+ */
+export const workflowExportDocumentSchema = z.object({
+  format: z.literal("2bot.workflow"),
+  version: z.literal(1),
+  exportedAt: z.string().optional(),
+  workflow: z.object({
+    name: workflowNameSchema,
+    description: z.string().max(500).optional(),
+    slug: workflowSlugSchema,
+    scope: workflowScopeSchema.default("USER"),
+    triggerType: triggerTypeSchema,
+    triggerConfig: z.record(z.string(), z.unknown()).default({}),
+    gateway: portableRefSchema.optional(),
+    /** Workflow started when a run fails */
+    onFailure: portableRefSchema.optional(),
+    concurrencyKey: concurrencyKeySchema.optional(),
+    rateLimit: workflowRateLimitSchema.optional(),
+  }),
+  steps: z
+    .array(
+      z.object({
+        key: portableRefSchema,
+        order: z.number().int().min(0).max(99),
+        name: z.string().min(1).max(100).optional(),
+        plugin: z.string().min(1).max(100),
+        enabled: z.boolean().default(true),
+        position: z.object({ x: z.number(), y: z.number() }).optional(),
+        inputMapping: z.record(z.string(), z.string().max(2000)).default({}),
+        config: z.record(z.string(), z.unknown()).default({}),
+        gateway: portableRefSchema.optional(),
+        workflow: portableRefSchema.optional(),
+        /** Resource-ID config fields, as resource refs (field → ref) */
+        resources: z.record(z.string(), portableRefSchema).optional(),
+        condition: z.object({ if: z.string().min(1).max(1000) }).optional(),
+        onError: errorHandlerSchema.default("stop"),
+        maxRetries: z.number().int().min(0).max(10).default(0),
+        retryPolicy: stepRetryPolicySchema.optional(),
+        storageQuotaMb: z.number().int().min(0).optional(),
+      })
+    )
+    .max(100, "Maximum 100 steps allowed"),
+  edges: z.array(
+    z.object({
+      from: portableRefSchema.nullable(),
+      to: portableRefSchema,
+      fromPort: z.string().min(1).max(100).default("output"),
+      toPort: z.string().min(1).max(100).default("input"),
+    })
+  ),
+  references: z
+    .object({
+      gateways: z
+        .array(z.object({ ref: portableRefSchema, name: z.string().max(100), type: z.string().max(50) }))
+        .default([]),
+      workflows: z
+        .array(z.object({ ref: portableRefSchema, name: z.string().max(100) }))
+        .default([]),
+      resources: z
+        .array(z.object({ ref: portableRefSchema, name: z.string().max(100), kind: z.string().max(50) }))
+        .default([]),
+    })
+    .default({ gateways: [], workflows: [], resources: [] }),
+});
+
+/**
+ * Export query: document format
+ */
+export const workflowExportQuerySchema = z.object({
+  format: z.enum(["json", "yaml"]).default("yaml"),
+});
+
+/**
+ * Import request. `document` is the JSON / YAML text or the parsed object;
+ * `bindings` maps document refs to the importer's gateway / workflow /
+ * resource IDs.
+ * Refs without a binding are matched by name. With `dryRun`, nothing is
+ * kept: the response lists the bindings and the preflight report.
+ */
+export const importWorkflowSchema = z.object({
+  document: z.union([z.string().min(1).max(1_000_000), z.record(z.string(), z.unknown())]),
+  name: workflowNameSchema.optional(),
+  slug: workflowSlugSchema.optional(),
+  bindings: z
+    .object({
+      gateways: z.record(z.string(), z.string().cuid("Invalid gateway ID")).optional(),
+      workflows: z.record(z.string(), z.string().cuid("Invalid workflow ID")).optional(),
+      resources: z.record(z.string(), z.string().cuid("Invalid resource ID")).optional(),
+    })
+    .optional(),
+  dryRun: z.boolean().optional(),
+});
+
 // ===========================================
 // Query Schemas
 // ===========================================
@@ -315,7 +516,7 @@ export const workflowListQuerySchema = z.object({
  */
 export const workflowRunListQuerySchema = z.object({
   workflowId: z.string().cuid().optional(),
-  status: z.enum(["PENDING", "RUNNING", "COMPLETED", "FAILED", "CANCELLED"]).optional(),
+  status: z.enum(["PENDING", "RUNNING", "WAITING", "COMPLETED", "FAILED", "CANCELLED"]).optional(),
   triggeredBy: z.string().max(100).optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
@@ -324,6 +525,13 @@ export const workflowRunListQuerySchema = z.object({
   sortOrder: z.enum(["asc", "desc"]).default("desc"),
 });
 
+/**
+ * Schema for workflow analytics query: the last `days` UTC days
+ */
+export const workflowAnalyticsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30),
+});
+
 // ===========================================
 // Type Exports
 // ===========================================
@@ -333,6 +541,10 @@ export type UpdateWorkflowInput = z.infer<typeof updateWorkflowSchema>;
 export type CreateWorkflowStepInput = z.infer<typeof createWorkflowStepSchema>;
 export type UpdateWorkflowStepInput = z.infer<typeof updateWorkflowStepSchema>;
 export type TriggerWorkflowInput = z.infer<typeof triggerWorkflowSchema>;
+export type RetryWorkflowRunInput = z.infer<typeof retryWorkflowRunSchema>;
+export type PublishWorkflowInput = z.infer<typeof publishWorkflowSchema>;
+export type WorkflowExportDocument = z.infer<typeof workflowExportDocumentSchema>;
+export type ImportWorkflowInput = z.infer<typeof importWorkflowSchema>;
 export type WorkflowListQuery = z.infer<typeof workflowListQuerySchema>;
 export type WorkflowRunListQuery = z.infer<typeof workflowRunListQuerySchema>;
 export type TriggerType = z.infer<typeof triggerTypeSchema>;
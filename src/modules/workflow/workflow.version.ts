@@ -0,0 +1,177 @@
+/**
+ * Workflow Versions
+ *
+ * Snapshots and diffs behind draft / published workflows. The
+ * `WorkflowStep` / `WorkflowEdge` rows are the draft the canvas edits;
+ * publishing freezes them into a `WorkflowVersion` snapshot, and live runs
+ * execute the snapshot of `Workflow.publishedVersion`. Test runs
+ * (`allowDraft`) keep executing the rows.
+ *
+ * @module modules/workflow/workflow.version
+ */
+
+/** Step fields a snapshot keeps — everything that affects execution or layout. */
+export interface SnapshotStep {
+  id: string;
+  order: number;
+  name: string | null;
+  positionX: number;
+  positionY: number;
+  pluginId: string;
+  isEnabled: boolean;
+  inputMapping: unknown;
+  config: unknown;
+  gatewayId: string | null;
+  condition: unknown;
+  onError: string;
+  maxRetries: number;
+  /** Absent from snapshots taken before steps had retry policies */
+  retryPolicy?: unknown;
+  entryFile: string | null;
+  storageQuotaMb: number;
+  userPluginId: string | null;
+}
+
+export interface SnapshotEdge {
+  id: string;
+  sourceStepId: string | null;
+  targetStepId: string;
+  sourcePort: string;
+  targetPort: string;
+}
+
+/** `WorkflowVersion.snapshot` */
+export interface WorkflowSnapshot {
+  steps: SnapshotStep[];
+  edges: SnapshotEdge[];
+}
+
+/** Fields compared for "changed" steps; canvas position only moves nodes. */
+const COMPARED_STEP_FIELDS = [
+  "order", "name", "pluginId", "isEnabled", "inputMapping", "config", "gatewayId",
+  "condition", "onError", "maxRetries", "retryPolicy", "entryFile", "storageQuotaMb", "userPluginId",
+] as const;
+
+type ComparedStepField = (typeof COMPARED_STEP_FIELDS)[number];
+
+export interface StepDiffEntry {
+  id: string;
+  order: number;
+  name: string | null;
+  pluginId: string;
+}
+
+export interface WorkflowSnapshotDiff {
+  steps: {
+    added: StepDiffEntry[];
+    removed: StepDiffEntry[];
+    changed: Array<StepDiffEntry & { fields: ComparedStepField[] }>;
+  };
+  edges: {
+    added: SnapshotEdge[];
+    removed: SnapshotEdge[];
+  };
+}
+
+/** Freeze step and edge rows into a snapshot. */
+export function toWorkflowSnapshot(
+  steps: ReadonlyArray<SnapshotStep>,
+  edges: ReadonlyArray<SnapshotEdge>,
+): WorkflowSnapshot {
+  return {
+    steps: [...steps]
+      .sort((a, b) => a.order - b.order)
+      .map((s) => ({
+        id: s.id,
+        order: s.order,
+        name: s.name,
+        positionX: s.positionX,
+        positionY: s.positionY,
+        pluginId: s.pluginId,
+        isEnabled: s.isEnabled,
+        inputMapping: s.inputMapping ?? {},
+        config: s.config ?? {},
+        gatewayId: s.gatewayId,
+        condition: s.condition ?? null,
+        onError: s.onError,
+        maxRetries: s.maxRetries,
+        retryPolicy: s.retryPolicy ?? null,
+        entryFile: s.entryFile,
+        storageQuotaMb: s.storageQuotaMb,
+        userPluginId: s.userPluginId,
+      })),
+    edges: edges.map((e) => ({
+      id: e.id,
+      sourceStepId: e.sourceStepId,
+      targetStepId: e.targetStepId,
+      sourcePort: e.sourcePort,
+      targetPort: e.targetPort,
+    })),
+  };
+}
+
+/** JSON with sorted object keys, so key order never counts as a change. */
+function canonical(value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v,
+  );
+}
+
+function edgeKey(edge: SnapshotEdge): string {
+  return [edge.sourceStepId ?? "trigger", edge.targetStepId, edge.sourcePort, edge.targetPort].join("\u0000");
+}
+
+function toEntry(step: SnapshotStep): StepDiffEntry {
+  return { id: step.id, order: step.order, name: step.name, pluginId: step.pluginId };
+}
+
+/**
+ * What changed going from `from` to `to`. Steps are matched by ID, edges
+ * by their endpoints and ports. `from` may be null (nothing published yet).
+ */
+export function diffWorkflowSnapshots(
+  from: WorkflowSnapshot | null,
+  to: WorkflowSnapshot,
+): WorkflowSnapshotDiff {
+  const before = new Map((from?.steps ?? []).map((s) => [s.id, s]));
+  const after = new Map(to.steps.map((s) => [s.id, s]));
+
+  const diff: WorkflowSnapshotDiff = {
+    steps: { added: [], removed: [], changed: [] },
+    edges: { added: [], removed: [] },
+  };
+
+  for (const step of to.steps) {
+    const previous = before.get(step.id);
+    if (!previous) {
+      diff.steps.added.push(toEntry(step));
+      continue;
+    }
+    const fields = COMPARED_STEP_FIELDS.filter(
+      (field) => canonical(previous[field]) !== canonical(step[field]),
+    );
+    if (fields.length > 0) diff.steps.changed.push({ ...toEntry(step), fields });
+  }
+  for (const step of from?.steps ?? []) {
+    if (!after.has(step.id)) diff.steps.removed.push(toEntry(step));
+  }
+
+  const edgesBefore = new Set((from?.edges ?? []).map(edgeKey));
+  const edgesAfter = new Set(to.edges.map(edgeKey));
+  diff.edges.added = to.edges.filter((e) => !edgesBefore.has(edgeKey(e)));
+  diff.edges.removed = (from?.edges ?? []).filter((e) => !edgesAfter.has(edgeKey(e)));
+
+  return diff;
+}
+
+export function isEmptyDiff(diff: WorkflowSnapshotDiff): boolean {
+  return (
+    diff.steps.added.length === 0 &&
+    diff.steps.removed.length === 0 &&
+    diff.steps.changed.length === 0 &&
+    diff.edges.added.length === 0 &&
+    diff.edges.removed.length === 0
+  );
+}
@@ -0,0 +1,268 @@
+/**
+ * Workflow Waits
+ *
+ * Durable pauses for delay, wait-until and wait-for-reply steps. When a run
+ * reaches one, the executor records the run's execution state as a
+ * `PausedRunState`, moves the run to "waiting" and ends the current job. A
+ * delayed job on the workflow queue resumes it at `resumeAt`, restoring the
+ * state and running the remaining steps.
+ *
+ * Wait-for-reply runs also carry a `waitKey` (gateway + chat + end-user);
+ * an inbound bot message with the same key resumes the run early, with the
+ * message as the step output.
+ *
+ * @module modules/workflow/workflow.wait
+ */
+
+import { parseExpression as parseCron } from "cron-parser";
+
+import {
+    DELAY_PLUGIN_SLUG,
+    WAIT_FOR_REPLY_PLUGIN_SLUG,
+    WAIT_UNTIL_PLUGIN_SLUG,
+    type DelayUnit,
+} from "@/modules/plugin/handlers/delay";
+
+import type { WorkflowExecutionContext } from "./workflow.types";
+
+/** Longest a single delay / wait-until step may pause a run. */
+export const MAX_WAIT_MS = 30 * 24 * 60 * 60 * 1000;
+
+const UNIT_MS: Record<DelayUnit, number> = {
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+};
+
+const TIME_OF_DAY_RE = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/** A wait step the run is currently paused on. */
+export interface PendingWait {
+  stepId: string;
+  stepRunId: string;
+  stepOrder: number;
+  input: unknown;
+  /** Passed through to downstream steps once the wait is over. */
+  output: unknown;
+  startedAt: string;
+  resumeAt: string;
+  /** Wait-for-reply: output is the reply (or a timeout marker) instead. */
+  awaitsReply?: boolean;
+}
+
+/** Output of a wait-for-reply step, also bound as `{{reply}}`. */
+export interface ReplyPayload {
+  text: string | null;
+  source: string | null;
+  message: unknown;
+  timedOut: boolean;
+}
+
+export const TIMED_OUT_REPLY: ReplyPayload = {
+  text: null,
+  source: null,
+  message: null,
+  timedOut: true,
+};
+
+/**
+ * Everything the executor needs to continue a run in a later job. Stored
+ * as JSON on `WorkflowRun.pausedState`.
+ */
+export interface PausedRunState {
+  options: { dryRun?: boolean; captureLogs?: boolean; allowDraft?: boolean };
+  idempotencyKey?: string;
+  steps: WorkflowExecutionContext["steps"];
+  outputs: Record<string, unknown>;
+  emittedPorts: Record<string, string[]>;
+  unreachable: string[];
+  /** Step IDs that already ran (or were skipped) before the pause. */
+  settled: string[];
+  lastOutput: unknown;
+  /** Latest wait-for-reply result, for `{{reply}}`. */
+  reply?: ReplyPayload;
+  /** Run variables set before the pause, for `{{vars}}`. */
+  variables?: Record<string, unknown>;
+  waits: PendingWait[];
+}
+
+export function isWaitStep(pluginSlug: string | undefined): boolean {
+  return (
+    pluginSlug === DELAY_PLUGIN_SLUG ||
+    pluginSlug === WAIT_UNTIL_PLUGIN_SLUG ||
+    pluginSlug === WAIT_FOR_REPLY_PLUGIN_SLUG
+  );
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * When a delay / wait-until step should resume. Input values (from the
+ * step's input mapping) take precedence over config. Throws with a
+ * user-facing message when the settings are invalid.
+ */
+export function computeResumeAt(
+  pluginSlug: string,
+  config: Record<string, unknown>,
+  input: unknown,
+  now: Date = new Date(),
+): Date {
+  const inp = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  let resumeAt: Date;
+
+  if (pluginSlug === DELAY_PLUGIN_SLUG || pluginSlug === WAIT_FOR_REPLY_PLUGIN_SLUG) {
+    const isReply = pluginSlug === WAIT_FOR_REPLY_PLUGIN_SLUG;
+    const amount = isReply
+      ? Number(config.timeoutAmount ?? 24)
+      : Number(inp.amount ?? config.amount);
+    const unit = ((isReply ? config.timeoutUnit : config.unit) ?? "hours") as DelayUnit;
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error(
+        isReply
+          ? "Reply timeout must be a positive number"
+          : "Delay amount must be a positive number",
+      );
+    }
+    if (!(unit in UNIT_MS)) {
+      throw new Error(`Unknown delay unit: ${String(unit)}`);
+    }
+    resumeAt = new Date(now.getTime() + amount * UNIT_MS[unit]);
+  } else if (inp.until !== undefined && inp.until !== null && inp.until !== "") {
+    resumeAt = new Date(String(inp.until));
+    if (Number.isNaN(resumeAt.getTime())) {
+      throw new Error(`Wait-until "until" is not a valid timestamp: ${String(inp.until)}`);
+    }
+    // Already past: resume right away.
+    if (resumeAt < now) resumeAt = now;
+  } else {
+    const time = String(config.time ?? "09:00");
+    const match = TIME_OF_DAY_RE.exec(time);
+    if (!match) {
+      throw new Error(`Wait-until time must be HH:mm, got "${time}"`);
+    }
+    const timezone = String(inp.timezone || config.timezone || "UTC");
+    if (!isValidTimezone(timezone)) {
+      throw new Error(`Unknown timezone: ${timezone}`);
+    }
+    const [, hour, minute] = match;
+    resumeAt = parseCron(`${Number(minute)} ${Number(hour)} * * *`, {
+      tz: timezone,
+      currentDate: now,
+    })
+      .next()
+      .toDate();
+  }
+
+  if (resumeAt.getTime() - now.getTime() > MAX_WAIT_MS) {
+    throw new Error("Waits longer than 30 days are not supported");
+  }
+  return resumeAt;
+}
+
+// ===========================================
+// Conversations (wait for reply)
+// ===========================================
+
+type Obj = Record<string, unknown>;
+
+function asObj(value: unknown): Obj {
+  return value && typeof value === "object" ? (value as Obj) : {};
+}
+
+function idOf(value: unknown): string | null {
+  return typeof value === "string" || typeof value === "number" ? String(value) : null;
+}
+
+/**
+ * The chat, end-user and text of an inbound bot message, from the
+ * `messageData` each platform passes to `checkBotMessageTrigger`. Returns
+ * null when the message has no chat/user (or was sent by a bot).
+ */
+export function getConversation(
+  source: string,
+  message: unknown,
+): { chatId: string; userId: string; text: string | null } | null {
+  const m = asObj(message);
+  let chatId: string | null = null;
+  let userId: string | null = null;
+  let text: unknown = null;
+
+  switch (source) {
+    case "telegram":
+    case "telegram_callback":
+      chatId = idOf(m.chatId);
+      userId = idOf(asObj(m.from).id);
+      text = source === "telegram" ? m.text : m.data;
+      break;
+    case "discord": {
+      const author = asObj(m.author);
+      if (author.bot) return null;
+      chatId = idOf(m.channel_id);
+      userId = idOf(author.id) ?? idOf(asObj(asObj(m.member).user).id);
+      text = m.content ?? asObj(m.data).custom_id ?? asObj(m.data).name;
+      break;
+    }
+    case "slack": {
+      const event = asObj(m.event);
+      if (event.bot_id || event.subtype === "bot_message") return null;
+      chatId = idOf(event.channel) ?? idOf(m.channel_id) ?? idOf(asObj(m.channel).id);
+      userId = idOf(event.user) ?? idOf(m.user_id) ?? idOf(asObj(m.user).id);
+      const action = asObj((m.actions as unknown[] | undefined)?.[0]);
+      text = event.text ?? m.text ?? action.value ?? action.action_id;
+      break;
+    }
+    case "whatsapp":
+      chatId = idOf(m.from);
+      userId = chatId;
+      text = asObj(m.text).body;
+      break;
+    case "webchat":
+      chatId = idOf(m.chatId);
+      userId = idOf(m.visitorId);
+      text = m.text;
+      break;
+    case "email":
+      chatId = idOf(m.chatId);
+      userId = idOf(m.from);
+      text = m.text;
+      break;
+    case "matrix":
+      chatId = idOf(m.chatId);
+      userId = idOf(m.sender);
+      text = m.text;
+      break;
+    default:
+      return null;
+  }
+
+  if (!chatId || !userId) return null;
+  return { chatId, userId, text: typeof text === "string" ? text : null };
+}
+
+/** Key linking a waiting run to the conversation it waits on. */
+export function buildWaitKey(
+  gatewayId: string,
+  conversation: { chatId: string; userId: string },
+): string {
+  return `${gatewayId}:${conversation.chatId}:${conversation.userId}`;
+}
+
+/**
+ * The wait key for the conversation that started a run, from the trigger
+ * data `checkBotMessageTrigger` passes to the executor. Null for runs not
+ * triggered by a bot message.
+ */
+export function getTriggerWaitKey(triggerData: unknown): string | null {
+  const td = asObj(triggerData);
+  if (typeof td.gatewayId !== "string" || typeof td.source !== "string") return null;
+  const conversation = getConversation(td.source, td.message);
+  return conversation && buildWaitKey(td.gatewayId, conversation);
+}
@@ -0,0 +1,284 @@
+/**
+ * Step Wiring Check
+ *
+ * Static type-check of the data passed between steps, run as part of
+ * preflight. Every `{{steps.N.output.x}}` / `{{prev.output.x}}` path in an
+ * input mapping is resolved against the upstream plugin's `outputSchema`,
+ * and mapped values are compared with the step plugin's `inputSchema`:
+ *
+ *   - paths to steps that don't exist, or to fields the schema doesn't have
+ *   - a value whose type differs from the input property it feeds
+ *   - required input properties left unmapped
+ *
+ * Schemas are often partial, so only what a schema declares is checked —
+ * an object without `properties` accepts any field. Findings about fields
+ * and types are warnings; a path to a missing step is an error.
+ *
+ * @module modules/workflow/workflow.wiring
+ */
+
+import type { JSONSchema } from "@/modules/plugin/plugin.types";
+
+import { collectTemplatePaths, type TemplatePathRef } from "./template.engine";
+import type { PathNode } from "./template.expression";
+import type { PreflightProblem } from "./workflow.preflight";
+
+/** Fields of the `{ output, error }` object each step result is bound as */
+const STEP_RESULT_FIELDS = ["output", "error"];
+
+/** Largest edit distance at which an unknown field gets a "did you mean" */
+const MAX_SUGGESTION_DISTANCE = 2;
+
+export interface WiringStep {
+  id: string;
+  order: number;
+  inputMapping: unknown;
+  plugin: { slug: string; inputSchema: unknown; outputSchema: unknown } | null;
+}
+
+type SchemaType = NonNullable<JSONSchema["type"]>;
+
+/** Where a path lands in a schema: a (possibly unknown) schema, or a field the schema lacks. */
+type SchemaLookup =
+  | { found: true; schema: JSONSchema | null }
+  | { found: false; field: string; parent: string[]; options: string[] };
+
+function asSchema(value: unknown): JSONSchema | null {
+  return value && typeof value === "object" ? (value as JSONSchema) : null;
+}
+
+/** Resolve path segments inside a schema, mirroring the template engine's lookups. */
+function lookupSchema(schema: JSONSchema | null, segments: string[]): SchemaLookup {
+  let current = schema;
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i] ?? "";
+    const parent = segments.slice(0, i);
+    if (!current?.type && !current?.properties) return { found: true, schema: null };
+
+    if (current.type === "array") {
+      if (/^\d+$/.test(segment)) {
+        current = current.items ?? null;
+        continue;
+      }
+      if (segment === "length") return { found: true, schema: { type: "number" } };
+      return { found: false, field: segment, parent, options: [] };
+    }
+    if (current.properties) {
+      const next = current.properties[segment];
+      if (!next) return { found: false, field: segment, parent, options: Object.keys(current.properties) };
+      current = next;
+      continue;
+    }
+    if (current.type === "object") return { found: true, schema: null };
+    // Primitives have no fields
+    return { found: false, field: segment, parent, options: [] };
+  }
+  return { found: true, schema: current };
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0] ?? 0;
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j] ?? 0;
+      row[j] = Math.min(above + 1, (row[j - 1] ?? 0) + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length] ?? 0;
+}
+
+/** The option closest to `field`, when it is close enough to be a typo. */
+function closestOption(field: string, options: string[]): string | null {
+  let best: string | null = null;
+  let bestDistance = MAX_SUGGESTION_DISTANCE + 1;
+  for (const option of options) {
+    const distance = option.toLowerCase() === field.toLowerCase() ? 0 : editDistance(field, option);
+    if (distance < bestDistance) {
+      best = option;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function formatPath(path: Pick<PathNode, "root" | "segments">): string {
+  return [path.root, ...path.segments].join(".");
+}
+
+/**
+ * Check the input mappings of a workflow's steps against their plugins'
+ * schemas.
+ *
+ * @returns Problems per step ID (steps without problems are absent)
+ */
+export function checkStepWiring(steps: WiringStep[]): Map<string, PreflightProblem[]> {
+  const byOrder = new Map(steps.map((s) => [s.order, s]));
+  const results = new Map<string, PreflightProblem[]>();
+
+  for (const step of steps) {
+    const problems: PreflightProblem[] = [];
+    const mapping = (step.inputMapping ?? {}) as Record<string, unknown>;
+    const inputSchema = asSchema(step.plugin?.inputSchema);
+    const label = `Step ${step.order}`;
+
+    for (const [inputKey, template] of Object.entries(mapping)) {
+      if (typeof template !== "string") continue;
+      const refs = collectTemplatePaths(template);
+
+      // A lone `{{...}}` passes its value through; anything else is interpolated into a string
+      const single = /^\{\{[\s\S]+\}\}$/.test(template) && !template.slice(2).includes("{{");
+      let valueType: SchemaType | null = single ? null : "string";
+      for (const ref of refs) {
+        const checked = checkReference(step, ref, byOrder);
+        if (checked.problem) {
+          problems.push({
+            ...checked.problem,
+            message: `${label} input "${inputKey}": ${checked.problem.message}`,
+            ...(checked.problem.fixId && {
+              fixContext: { ...checked.problem.fixContext, stepId: step.id, stepOrder: step.order, inputKey },
+            }),
+          });
+        }
+        if (single && ref.bare) valueType = checked.type;
+      }
+
+      const expected = inputSchema?.properties?.[inputKey]?.type;
+      // Literal values are taken as typed
+      if (refs.length > 0 && valueType && expected && valueType !== expected) {
+        problems.push({
+          severity: "warning",
+          message: `${label} input "${inputKey}": ${step.plugin?.slug} expects ${expected} but gets ${valueType}.`,
+        });
+      }
+    }
+
+    problems.push(...checkRequiredInputs(step, mapping, inputSchema, byOrder.get(step.order - 1)));
+    if (problems.length > 0) results.set(step.id, problems);
+  }
+  return results;
+}
+
+/** Resolve one `steps.*` / `prev.*` reference; other roots aren't typed. */
+function checkReference(
+  step: WiringStep,
+  ref: TemplatePathRef,
+  byOrder: Map<number, WiringStep>,
+): { problem?: PreflightProblem; type: SchemaType | null } {
+  const { root, segments } = ref.path;
+  let source: WiringStep | undefined;
+  let resultPath: string[];
+  let prefix: string[];
+
+  if (root === "steps") {
+    const order = Number(segments[0]);
+    if (segments.length === 0 || !Number.isInteger(order)) return { type: null };
+    source = byOrder.get(order);
+    if (!source) {
+      return {
+        problem: { severity: "error", message: `${formatPath(ref.path)} refers to step ${segments[0]}, which doesn't exist.` },
+        type: null,
+      };
+    }
+    if (order >= step.order) {
+      return {
+        problem: {
+          severity: "warning",
+          message: `${formatPath(ref.path)} reads step ${order}, which comes after this step — it has no output yet.`,
+        },
+        type: null,
+      };
+    }
+    prefix = [segments[0] ?? ""];
+    resultPath = segments.slice(1);
+  } else if (root === "prev") {
+    source = byOrder.get(step.order - 1);
+    if (!source) {
+      return {
+        problem: { severity: "warning", message: `${formatPath(ref.path)} is always empty — this step has no previous step.` },
+        type: null,
+      };
+    }
+    prefix = [];
+    resultPath = segments;
+  } else {
+    return { type: null };
+  }
+
+  // Step results are `{ output, error }`
+  const [field, ...outputPath] = resultPath;
+  if (field === undefined) return { type: "object" };
+  if (field === "error") return { type: outputPath.length === 0 ? "string" : null };
+  if (field !== "output") {
+    // `prev.text` for `prev.output.text` is the usual slip
+    const fixed = { root, segments: [...prefix, "output", ...resultPath] };
+    const lookup = lookupSchema(asSchema(source.plugin?.outputSchema), resultPath);
+    return {
+      problem: {
+        severity: "warning",
+        message: `${formatPath(ref.path)} is always empty — step results only have ${STEP_RESULT_FIELDS.join(" and ")}.` +
+          (lookup.found ? ` Did you mean ${formatPath(fixed)}?` : ""),
+        ...(lookup.found && ref.bare && replaceFix(ref, fixed)),
+      },
+      type: null,
+    };
+  }
+
+  const lookup = lookupSchema(asSchema(source.plugin?.outputSchema), outputPath);
+  if (lookup.found) return { type: lookup.schema?.type ?? null };
+
+  const suggestion = closestOption(lookup.field, lookup.options);
+  const known = lookup.options.length > 0
+    ? `it has ${lookup.options.slice(0, 8).join(", ")}`
+    : "it has no fields there";
+  const fixed = suggestion
+    ? { root, segments: [...prefix, "output", ...lookup.parent, suggestion, ...outputPath.slice(lookup.parent.length + 1)] }
+    : null;
+  return {
+    problem: {
+      severity: "warning",
+      message: `${formatPath(ref.path)} — ${source.plugin?.slug ?? "the step"}'s output has no "${lookup.field}" (${known}).` +
+        (fixed ? ` Did you mean ${formatPath(fixed)}?` : ""),
+      ...(fixed && ref.bare && replaceFix(ref, fixed)),
+    },
+    type: null,
+  };
+}
+
+function replaceFix(ref: TemplatePathRef, fixed: Pick<PathNode, "root" | "segments">): Partial<PreflightProblem> {
+  return {
+    fixId: "mapping.replace-reference",
+    fixContext: { from: ref.expression, to: `{{${formatPath(fixed)}}}` },
+  };
+}
+
+/**
+ * Required input properties with no mapping and no default. Steps with an
+ * empty mapping are skipped — they receive the trigger message as input.
+ */
+function checkRequiredInputs(
+  step: WiringStep,
+  mapping: Record<string, unknown>,
+  inputSchema: JSONSchema | null,
+  previous: WiringStep | undefined,
+): PreflightProblem[] {
+  if (!inputSchema?.required?.length || Object.keys(mapping).length === 0) return [];
+  const previousOutput = asSchema(previous?.plugin?.outputSchema);
+
+  return inputSchema.required
+    .filter((key) => mapping[key] === undefined && inputSchema.properties?.[key]?.default === undefined)
+    .map((key): PreflightProblem => {
+      const offered = previousOutput?.properties?.[key];
+      return {
+        severity: "warning",
+        message: `Step ${step.order}: ${step.plugin?.slug} requires input "${key}", which isn't mapped.` +
+          (offered ? ` The previous step outputs "${key}".` : ""),
+        ...(offered && {
+          fixId: "mapping.add-input",
+          fixContext: { stepId: step.id, stepOrder: step.order, inputKey: key, template: `{{prev.output.${key}}}` },
+        }),
+      };
+    });
+}
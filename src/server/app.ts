@@ -5,15 +5,21 @@ import { BUILTIN_PLUGINS } from "@/modules/plugin/handlers";
 import { registerPlugin } from "@/modules/plugin/plugin.executor";
 import { initializeScheduleTick } from "@/modules/project-resource/schedule-tick.service";
 import { workflowService } from "@/modules/workflow/workflow.service";
+import { registerPlatformEventTriggers } from "@/modules/workflow/workflow.triggers";
 import cors from "cors";
 import express, { type Express } from "express";
 import helmet from "helmet";
 import { initializeBridgeTokenRotationCron } from "./cron/bridge-token-rotation-cron";
 import { initializeCreditCron } from "./cron/credit-cron";
+import { initializeEmailPollCron } from "./cron/email-poll-cron";
 import { initializeHealthMonitorCron } from "./cron/health-monitor-cron";
+import { initializeMatrixSyncCron } from "./cron/matrix-sync-cron";
+import { initializeMessageRetentionCron } from "./cron/message-retention-cron";
 import { initializePluginReconcileCron } from "./cron/plugin-reconcile-cron";
 import { initializePricingMonitorCron } from "./cron/pricing-monitor-cron";
 import { initializeRunRetentionCron } from "./cron/run-retention-cron";
+import { initializeTelegramPollCron } from "./cron/telegram-poll-cron";
+import { initializeWorkflowAnalyticsCron } from "./cron/workflow-analytics-cron";
 import { corsOptions } from "./middleware/cors";
 import { errorHandler } from "./middleware/error-handler";
 import { metricsMiddleware } from "./middleware/metrics";
@@ -23,6 +29,7 @@ import { router } from "./routes";
 import { internalRouter } from "./routes/internal";
 import { internalCostRouter } from "./routes/internal-cost";
 import stripeWebhookRouter from "./routes/stripe-webhook";
+import { webChatRouter } from "./routes/web-chat";
 
 const serverLogger = loggers.server;
 
@@ -46,6 +53,12 @@ const API_PREFIX = process.env.API_PREFIX ?? "";
 export function createApp(): Express {
   const app = express();
 
+  // Web chat widget endpoints are called from customer sites, so they are
+  // mounted ahead of helmet and the dashboard CORS allowlist — the router
+  // applies each gateway's allowed origins and its own rate limits.
+  const webChatPath = API_PREFIX ? `${API_PREFIX}/web-chat` : "/web-chat";
+  app.use(webChatPath, webChatRouter);
+
   // Security middleware
   app.use(helmet());
   app.use(cors(corsOptions));
@@ -130,6 +143,9 @@ export function startServer(app: Express): ReturnType<Express['listen']> {
       registerPlugin(slug, reg.handler);
     }
 
+    // Start PLATFORM_EVENT workflows on events emitted in this process
+    registerPlatformEventTriggers();
+
     // Initialize AI provider health checks (blocks model serving until complete)
     initializeProviderHealth().then(() => {
       serverLogger.info("AI provider health checks complete — models ready to serve");
@@ -152,6 +168,21 @@ export function startServer(app: Express): ReturnType<Express['listen']> {
     // Initialize workflow run retention cron (deletes runs older than per-plan window)
     initializeRunRetentionCron();
 
+    // Initialize workflow analytics cron (daily rollups that outlive retention)
+    initializeWorkflowAnalyticsCron();
+
+    // Initialize message retention cron (deletes logged messages older than per-plan window)
+    initializeMessageRetentionCron();
+
+    // Initialize email poll cron (IMAP inbox → email.message triggers)
+    initializeEmailPollCron();
+
+    // Initialize Matrix sync cron (supervises per-gateway /sync loops → matrix.message triggers)
+    initializeMatrixSyncCron();
+
+    // Initialize Telegram poll cron (getUpdates loops for polling-mode gateways)
+    initializeTelegramPollCron();
+
     // Initialize bridge token rotation cron (rotates BRIDGE_AUTH_TOKEN daily)
     initializeBridgeTokenRotationCron();
 
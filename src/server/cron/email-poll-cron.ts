@@ -0,0 +1,137 @@
+/**
+ * Email Poll Cron
+ *
+ * Pulls new mail for every EMAIL gateway over IMAP and feeds each message
+ * into the BOT_MESSAGE trigger path as an `email.message` event.
+ *
+ * The tick runs every 30s; each gateway is polled at most once per its
+ * configured interval. The per-gateway lock is acquired with that interval
+ * as its TTL and never released, so it doubles as the "last polled" marker
+ * across replicas.
+ *
+ * Gateway status follows the outcome: a failed login or fetch marks the
+ * gateway ERROR, and the next successful poll brings it back to CONNECTED.
+ *
+ * @module server/cron/email-poll-cron
+ */
+
+import type { Gateway } from "@prisma/client";
+
+import { decryptJson } from "@/lib/encryption";
+import { logger } from "@/lib/logger";
+import { prisma } from "@/lib/prisma";
+import { acquireLock, withDistributedLock } from "@/lib/redis-lock";
+import { fetchNewEmails, pollIntervalSeconds } from "@/modules/gateway/email.service";
+import { gatewayMessageService } from "@/modules/gateway/gateway-messages.service";
+import { gatewayService } from "@/modules/gateway/gateway.service";
+import type { EmailConfig, EmailCredentials } from "@/modules/gateway/gateway.types";
+import { checkEmailMessageTrigger } from "@/modules/workflow/workflow.triggers";
+
+const log = logger.child({ module: "email-poll-cron" });
+
+const CHECK_INTERVAL_MS = 30_000;
+const LOCK_KEY = "cron:email-poll";
+const LOCK_TTL_SECONDS = 25;
+
+let cronTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Poll one mailbox and dispatch its new messages.
+ * Returns the number of messages dispatched.
+ */
+async function pollGateway(gateway: Gateway): Promise<number> {
+  const credentials = decryptJson<EmailCredentials>(gateway.credentialsEnc);
+  const config = (gateway.config ?? {}) as EmailConfig;
+
+  const messages = await fetchNewEmails(gateway.id, credentials, config);
+
+  void gatewayMessageService.recordInbound(gateway.id, messages.map((message) => ({
+    chatId: message.threadId,
+    kind: "email",
+    senderId: message.from,
+    senderName: message.fromName ?? null,
+    text: message.replyText || message.text || message.subject,
+    platformMessageId: message.messageId,
+  })));
+
+  for (const message of messages) {
+    try {
+      await checkEmailMessageTrigger(
+        gateway.id,
+        gateway.userId,
+        gateway.organizationId,
+        {
+          chatId: message.threadId,
+          from: message.from,
+          fromName: message.fromName,
+          subject: message.subject,
+          // Quoted history would otherwise match text patterns on every reply
+          text: message.replyText || message.text,
+          messageId: message.messageId,
+        },
+        message,
+      );
+    } catch (err) {
+      log.error({ err, gatewayId: gateway.id, messageId: message.messageId }, "Email trigger dispatch failed");
+    }
+  }
+
+  return messages.length;
+}
+
+async function pollMailboxes(): Promise<void> {
+  const gateways = await prisma.gateway.findMany({ where: { type: "EMAIL" } });
+
+  for (const gateway of gateways) {
+    const interval = pollIntervalSeconds((gateway.config ?? {}) as EmailConfig);
+    // Held until it expires — another poll of this mailbox waits a full interval
+    const token = await acquireLock(`email-poll:${gateway.id}`, interval);
+    if (!token) continue;
+
+    try {
+      const dispatched = await pollGateway(gateway);
+      if (dispatched > 0) {
+        log.info({ gatewayId: gateway.id, dispatched }, "Dispatched inbound email");
+      }
+      if (gateway.status !== "CONNECTED") {
+        await gatewayService.updateStatus(gateway.id, "CONNECTED");
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      log.warn({ gatewayId: gateway.id, error: message }, "Email poll failed");
+      await gatewayService.updateStatus(gateway.id, "ERROR", `Email poll failed: ${message}`).catch((updateErr) => {
+        log.error({ err: updateErr, gatewayId: gateway.id }, "Failed to record email poll error");
+      });
+    }
+  }
+}
+
+/**
+ * Initialize the email poll cron (idempotent).
+ * Each tick runs under a distributed lock so only one replica polls.
+ */
+export function initializeEmailPollCron(): void {
+  if (cronTimer) {
+    log.warn("Email poll cron already initialized");
+    return;
+  }
+
+  log.info({ intervalSeconds: CHECK_INTERVAL_MS / 1000 }, "Initializing email poll cron");
+
+  const runWithLock = () =>
+    withDistributedLock(LOCK_KEY, LOCK_TTL_SECONDS, pollMailboxes).catch((err) => {
+      log.error({ err }, "Email poll tick failed");
+    });
+
+  setTimeout(() => void runWithLock(), 15_000);
+
+  cronTimer = setInterval(() => void runWithLock(), CHECK_INTERVAL_MS);
+}
+
+export function stopEmailPollCron(): void {
+  if (cronTimer) {
+    clearInterval(cronTimer);
+    cronTimer = null;
+    log.info("Email poll cron stopped");
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Matrix Sync Cron
+ *
+ * Supervises the `/sync` long-poll loops of MATRIX gateways. Every tick it
+ * starts a loop for each gateway that has none, stops loops whose gateway
+ * was deleted, and restarts loops whose credentials or config changed.
+ * Inbound messages are fed into the BOT_MESSAGE trigger path as
+ * `matrix.message` events.
+ *
+ * Unlike the other crons, the tick is not under a distributed lock: every
+ * replica supervises, and the per-gateway sync lease (see matrix.service)
+ * decides which replica runs each loop. When a replica dies its leases
+ * expire and another one picks the loops up on its next tick.
+ *
+ * A loop that stopped on a rejected access token is not restarted until
+ * the gateway's credentials change.
+ *
+ * @module server/cron/matrix-sync-cron
+ */
+
+import type { Gateway } from "@prisma/client";
+
+import { decryptJson } from "@/lib/encryption";
+import { logger } from "@/lib/logger";
+import { prisma } from "@/lib/prisma";
+import { gatewayMessageService } from "@/modules/gateway/gateway-messages.service";
+import { gatewayService } from "@/modules/gateway/gateway.service";
+import type { MatrixConfig, MatrixCredentials } from "@/modules/gateway/gateway.types";
+import {
+    runningMatrixSyncs,
+    startMatrixSync,
+    stopMatrixSync,
+    type MatrixSyncHandlers,
+} from "@/modules/gateway/matrix.service";
+import { checkMatrixMessageTrigger } from "@/modules/workflow/workflow.triggers";
+
+const log = logger.child({ module: "matrix-sync-cron" });
+
+const CHECK_INTERVAL_MS = 30_000;
+
+let cronTimer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+/** Credentials + config each local loop was started with, by gateway ID */
+const startedWith = new Map<string, string>();
+/** Encrypted credentials the homeserver rejected, by gateway ID */
+const rejectedCredentials = new Map<string, string>();
+
+function fingerprint(gateway: Gateway): string {
+  return `${gateway.credentialsEnc}|${JSON.stringify(gateway.config ?? {})}`;
+}
+
+function syncHandlers(gateway: Gateway): MatrixSyncHandlers {
+  let errored = false;
+
+  return {
+    async onMessage(message) {
+      void gatewayMessageService.recordInbound(gateway.id, [{
+        chatId: message.roomId,
+        kind: "message",
+        senderId: message.sender,
+        senderName: message.senderName ?? null,
+        text: message.text,
+        platformMessageId: message.eventId,
+      }]);
+
+      await checkMatrixMessageTrigger(
+        gateway.id,
+        gateway.userId,
+        gateway.organizationId,
+        {
+          chatId: message.roomId,
+          sender: message.sender,
+          senderName: message.senderName,
+          text: message.text,
+          messageId: message.eventId,
+          isDirect: message.isDirect,
+          mentioned: message.mentioned,
+        },
+        message,
+      );
+    },
+
+    async onHealthy() {
+      errored = false;
+      await gatewayService.updateStatus(gateway.id, "CONNECTED").catch((err) => {
+        log.error({ err, gatewayId: gateway.id }, "Failed to record Matrix sync recovery");
+      });
+    },
+
+    async onError(error, fatal) {
+      if (fatal) rejectedCredentials.set(gateway.id, gateway.credentialsEnc);
+      // One status write per failure streak; the loop retries with backoff
+      if (errored && !fatal) return;
+      errored = true;
+      await gatewayService.updateStatus(gateway.id, "ERROR", `Matrix sync failed: ${error.message}`).catch((err) => {
+        log.error({ err, gatewayId: gateway.id }, "Failed to record Matrix sync error");
+      });
+    },
+  };
+}
+
+async function superviseSyncLoops(): Promise<void> {
+  const gateways = await prisma.gateway.findMany({ where: { type: "MATRIX" } });
+  const byId = new Map(gateways.map((g) => [g.id, g]));
+
+  // Stop loops for deleted gateways and for edited ones (restarted below)
+  for (const gatewayId of runningMatrixSyncs()) {
+    const gateway = byId.get(gatewayId);
+    if (gateway && startedWith.get(gatewayId) === fingerprint(gateway)) continue;
+    log.info({ gatewayId, deleted: !gateway }, "Stopping Matrix sync loop");
+    await stopMatrixSync(gatewayId);
+    startedWith.delete(gatewayId);
+  }
+
+  for (const gateway of gateways) {
+    if (runningMatrixSyncs().includes(gateway.id)) continue;
+    if (rejectedCredentials.get(gateway.id) === gateway.credentialsEnc) continue;
+    rejectedCredentials.delete(gateway.id);
+
+    try {
+      const credentials = decryptJson<MatrixCredentials>(gateway.credentialsEnc);
+      const config = (gateway.config ?? {}) as MatrixConfig;
+      const started = await startMatrixSync(gateway.id, credentials, config, syncHandlers(gateway));
+      if (started) startedWith.set(gateway.id, fingerprint(gateway));
+    } catch (err) {
+      log.error({ err, gatewayId: gateway.id }, "Failed to start Matrix sync loop");
+    }
+  }
+}
+
+/**
+ * Initialize the Matrix sync supervisor (idempotent).
+ */
+export function initializeMatrixSyncCron(): void {
+  if (cronTimer) {
+    log.warn("Matrix sync cron already initialized");
+    return;
+  }
+
+  log.info({ intervalSeconds: CHECK_INTERVAL_MS / 1000 }, "Initializing Matrix sync cron");
+
+  const tick = async () => {
+    // Stopping a loop waits for its in-flight /sync; don't overlap ticks
+    if (ticking) return;
+    ticking = true;
+    try {
+      await superviseSyncLoops();
+    } catch (err) {
+      log.error({ err }, "Matrix sync supervision failed");
+    } finally {
+      ticking = false;
+    }
+  };
+
+  setTimeout(() => void tick(), 15_000);
+
+  cronTimer = setInterval(() => void tick(), CHECK_INTERVAL_MS);
+}
+
+export async function stopMatrixSyncCron(): Promise<void> {
+  if (cronTimer) {
+    clearInterval(cronTimer);
+    cronTimer = null;
+  }
+  await Promise.all(runningMatrixSyncs().map((id) => stopMatrixSync(id)));
+  startedWith.clear();
+  log.info("Matrix sync cron stopped");
+}
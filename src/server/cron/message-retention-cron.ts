@@ -0,0 +1,130 @@
+/**
+ * Message Retention Cron
+ *
+ * Deletes GatewayMessage rows older than the per-plan retention window of
+ * the gateway owner, so the message log behind the inbox stays bounded.
+ *
+ * Retention windows (configurable via env):
+ *   FREE         → 7 days   (MESSAGE_RETENTION_DAYS_FREE)
+ *   STARTER      → 30 days  (MESSAGE_RETENTION_DAYS_STARTER)
+ *   PRO          → 90 days  (MESSAGE_RETENTION_DAYS_PRO)
+ *   BUSINESS     → 180 days (MESSAGE_RETENTION_DAYS_BUSINESS)
+ *   ENTERPRISE   → 365 days (MESSAGE_RETENTION_DAYS_ENTERPRISE)
+ *
+ * Runs once a day under a distributed lock so only one replica deletes.
+ *
+ * @module server/cron/message-retention-cron
+ */
+
+import { logger } from "@/lib/logger";
+import { prisma } from "@/lib/prisma";
+import { withDistributedLock } from "@/lib/redis-lock";
+
+const log = logger.child({ module: "message-retention-cron" });
+
+const CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000; // 24h
+const LOCK_KEY = "cron:message-retention";
+// 90% of the interval so a crashed replica's lock auto-expires before next tick.
+const LOCK_TTL_SECONDS = Math.floor((CHECK_INTERVAL_MS / 1000) * 0.9);
+const DELETE_BATCH_SIZE = parseInt(process.env.MESSAGE_RETENTION_BATCH_SIZE || "5000", 10);
+
+let cronTimer: ReturnType<typeof setInterval> | null = null;
+
+interface PlanRetention {
+  plan: string;
+  days: number;
+}
+
+function getPlanRetentions(): PlanRetention[] {
+  return [
+    { plan: "FREE", days: parseInt(process.env.MESSAGE_RETENTION_DAYS_FREE || "7", 10) },
+    { plan: "STARTER", days: parseInt(process.env.MESSAGE_RETENTION_DAYS_STARTER || "30", 10) },
+    { plan: "PRO", days: parseInt(process.env.MESSAGE_RETENTION_DAYS_PRO || "90", 10) },
+    { plan: "BUSINESS", days: parseInt(process.env.MESSAGE_RETENTION_DAYS_BUSINESS || "180", 10) },
+    { plan: "ENTERPRISE", days: parseInt(process.env.MESSAGE_RETENTION_DAYS_ENTERPRISE || "365", 10) },
+  ];
+}
+
+/**
+ * Delete messages of gateways owned by users on `plan` older than `days`.
+ * Batched like the run retention sweep. Returns total deleted count.
+ */
+async function deleteOldMessagesForPlan(plan: string, days: number): Promise<number> {
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  let totalDeleted = 0;
+
+  // gateways.user_id is the owner (also for org gateways, like workflow runs)
+  for (;;) {
+    const result = await prisma.$executeRaw`
+      DELETE FROM gateway_messages
+      WHERE id IN (
+        SELECT gm.id
+        FROM gateway_messages gm
+        JOIN gateways g ON g.id = gm.gateway_id
+        JOIN users u ON u.id = g.user_id
+        WHERE u.plan = ${plan}::"PlanType"
+          AND gm.created_at < ${cutoff}
+        LIMIT ${DELETE_BATCH_SIZE}
+      )
+    `;
+
+    totalDeleted += result;
+    if (result < DELETE_BATCH_SIZE) break;
+  }
+
+  return totalDeleted;
+}
+
+async function runRetention(): Promise<void> {
+  const start = Date.now();
+  const summary: Record<string, number> = {};
+  let total = 0;
+
+  for (const { plan, days } of getPlanRetentions()) {
+    try {
+      const deleted = await deleteOldMessagesForPlan(plan, days);
+      summary[plan] = deleted;
+      total += deleted;
+      if (deleted > 0) {
+        log.info({ plan, retentionDays: days, deleted }, "Retention sweep deleted old messages");
+      }
+    } catch (err) {
+      log.error({ err, plan, retentionDays: days }, "Message retention sweep failed for plan");
+    }
+  }
+
+  log.info({ summary, total, durationMs: Date.now() - start }, "Message retention complete");
+}
+
+/**
+ * Initialize the message retention cron (idempotent).
+ * Each tick runs under a distributed lock so only one replica deletes.
+ */
+export function initializeMessageRetentionCron(): void {
+  if (cronTimer) {
+    log.warn("Message retention cron already initialized");
+    return;
+  }
+
+  log.info(
+    { intervalHours: CHECK_INTERVAL_MS / 3600000, retentions: getPlanRetentions() },
+    "Initializing message retention cron"
+  );
+
+  const runWithLock = () =>
+    withDistributedLock(LOCK_KEY, LOCK_TTL_SECONDS, runRetention).catch((err) => {
+      log.error({ err }, "Message retention sweep failed");
+    });
+
+  setTimeout(() => void runWithLock(), 45_000);
+
+  cronTimer = setInterval(() => void runWithLock(), CHECK_INTERVAL_MS);
+}
+
+export function stopMessageRetentionCron(): void {
+  if (cronTimer) {
+    clearInterval(cronTimer);
+    cronTimer = null;
+    log.info("Message retention cron stopped");
+  }
+}
@@ -12,6 +12,10 @@
  *   BUSINESS     → 180 days (RUN_RETENTION_DAYS_BUSINESS)
  *   ENTERPRISE   → 365 days (RUN_RETENTION_DAYS_ENTERPRISE)
  *
+ * Analytics history isn't lost: the analytics cron rolls runs up into
+ * `workflow_daily_stats` within ANALYTICS_ROLLUP_DAYS, and windows are never
+ * shorter than that.
+ *
  * Runs once a day under a distributed lock so only one replica deletes.
  *
  * @module server/cron/run-retention-cron
@@ -20,6 +24,7 @@
 import { logger } from "@/lib/logger";
 import { prisma } from "@/lib/prisma";
 import { withDistributedLock } from "@/lib/redis-lock";
+import { ANALYTICS_ROLLUP_DAYS } from "@/modules/workflow/workflow.analytics";
 
 const log = logger.child({ module: "run-retention-cron" });
 
@@ -43,7 +48,11 @@ function getPlanRetentions(): PlanRetention[] {
     { plan: "PRO", days: parseInt(process.env.RUN_RETENTION_DAYS_PRO || "90", 10) },
     { plan: "BUSINESS", days: parseInt(process.env.RUN_RETENTION_DAYS_BUSINESS || "180", 10) },
     { plan: "ENTERPRISE", days: parseInt(process.env.RUN_RETENTION_DAYS_ENTERPRISE || "365", 10) },
-  ];
+  ].map((r) => ({
+    ...r,
+    // Runs must outlive the days the analytics rollup still rewrites
+    days: Math.max(r.days, ANALYTICS_ROLLUP_DAYS + 2),
+  }));
 }
 
 /**
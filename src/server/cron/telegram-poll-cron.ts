@@ -0,0 +1,169 @@
+/**
+ * Telegram Poll Cron
+ *
+ * Supervises the getUpdates loops of TELEGRAM_BOT gateways in polling mode
+ * (`config.updateMode: "polling"`). Polled updates go through the same
+ * dispatch as the webhook route (see telegram-dispatch).
+ *
+ * Every tick it starts a loop for each polling gateway that has none, and
+ * stops loops whose gateway was deleted, edited, or switched back to
+ * webhook mode. On a switch back the provider is reconnected, which sets
+ * the webhook again.
+ *
+ * Like the Matrix sync cron, the tick is not under a distributed lock: every
+ * replica supervises, and the per-gateway poll lease decides which replica
+ * runs each loop.
+ *
+ * @module server/cron/telegram-poll-cron
+ */
+
+import type { Gateway } from "@prisma/client";
+
+import { decryptJson } from "@/lib/encryption";
+import { logger } from "@/lib/logger";
+import { prisma } from "@/lib/prisma";
+import { gatewayRegistry } from "@/modules/gateway/gateway.registry";
+import { gatewayService } from "@/modules/gateway/gateway.service";
+import type { TelegramBotConfig, TelegramBotCredentials } from "@/modules/gateway/gateway.types";
+import {
+    isPollingMode,
+    runningTelegramPollers,
+    startTelegramPoller,
+    stopTelegramPoller,
+    type TelegramPollHandlers,
+} from "@/modules/gateway/telegram-polling.service";
+
+import { dispatchTelegramUpdate, type TelegramUpdate } from "../telegram-dispatch";
+
+const log = logger.child({ module: "telegram-poll-cron" });
+
+const CHECK_INTERVAL_MS = 30_000;
+
+let cronTimer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+/** Credentials + config each local loop was started with, by gateway ID */
+const startedWith = new Map<string, string>();
+/** Encrypted credentials Telegram rejected, by gateway ID */
+const rejectedCredentials = new Map<string, string>();
+
+function fingerprint(gateway: Gateway): string {
+  return `${gateway.credentialsEnc}|${JSON.stringify(gateway.config ?? {})}`;
+}
+
+function pollHandlers(gateway: Gateway): TelegramPollHandlers {
+  let errored = false;
+
+  return {
+    onUpdate: (update) => dispatchTelegramUpdate(gateway, update as unknown as TelegramUpdate, "polling"),
+
+    async onHealthy() {
+      errored = false;
+      await gatewayService.updateStatus(gateway.id, "CONNECTED").catch((err) => {
+        log.error({ err, gatewayId: gateway.id }, "Failed to record Telegram polling recovery");
+      });
+    },
+
+    async onError(error, fatal) {
+      if (fatal) rejectedCredentials.set(gateway.id, gateway.credentialsEnc);
+      // One status write per failure streak; the loop retries with backoff
+      if (errored && !fatal) return;
+      errored = true;
+      await gatewayService.updateStatus(gateway.id, "ERROR", `Telegram polling failed: ${error.message}`).catch((err) => {
+        log.error({ err, gatewayId: gateway.id }, "Failed to record Telegram polling error");
+      });
+    },
+  };
+}
+
+/** Put the webhook back for a gateway that left polling mode */
+async function restoreWebhook(gateway: Gateway): Promise<void> {
+  try {
+    const provider = gatewayRegistry.get("TELEGRAM_BOT");
+    const credentials = gatewayService.getDecryptedCredentials(gateway);
+    await provider.connect(gateway.id, credentials, (gateway.config as Record<string, unknown>) ?? {});
+    log.info({ gatewayId: gateway.id }, "Telegram gateway switched back to webhook mode");
+  } catch (err) {
+    log.error({ err, gatewayId: gateway.id }, "Failed to restore Telegram webhook");
+  }
+}
+
+async function supervisePollers(): Promise<void> {
+  const gateways = await prisma.gateway.findMany({
+    where: { type: "TELEGRAM_BOT", config: { path: ["updateMode"], equals: "polling" } },
+  });
+  const byId = new Map(gateways.map((g) => [g.id, g]));
+
+  // Stop loops for gateways that were deleted, edited or left polling mode
+  const stale = runningTelegramPollers().filter((id) => {
+    const gateway = byId.get(id);
+    return !gateway || startedWith.get(id) !== fingerprint(gateway);
+  });
+  if (stale.length > 0) {
+    const current = await prisma.gateway.findMany({ where: { id: { in: stale } } });
+    for (const gatewayId of stale) {
+      log.info({ gatewayId }, "Stopping Telegram poller");
+      await stopTelegramPoller(gatewayId);
+      startedWith.delete(gatewayId);
+
+      const gateway = current.find((g) => g.id === gatewayId);
+      if (gateway && !isPollingMode(gateway.config as TelegramBotConfig | null)) {
+        await restoreWebhook(gateway);
+      }
+    }
+  }
+
+  for (const gateway of gateways) {
+    if (runningTelegramPollers().includes(gateway.id)) continue;
+    if (rejectedCredentials.get(gateway.id) === gateway.credentialsEnc) continue;
+    rejectedCredentials.delete(gateway.id);
+
+    try {
+      const credentials = decryptJson<TelegramBotCredentials>(gateway.credentialsEnc);
+      const config = (gateway.config ?? {}) as TelegramBotConfig;
+      const started = await startTelegramPoller(gateway.id, credentials, config, pollHandlers(gateway));
+      if (started) startedWith.set(gateway.id, fingerprint(gateway));
+    } catch (err) {
+      log.error({ err, gatewayId: gateway.id }, "Failed to start Telegram poller");
+    }
+  }
+}
+
+/**
+ * Initialize the Telegram poll supervisor (idempotent).
+ */
+export function initializeTelegramPollCron(): void {
+  if (cronTimer) {
+    log.warn("Telegram poll cron already initialized");
+    return;
+  }
+
+  log.info({ intervalSeconds: CHECK_INTERVAL_MS / 1000 }, "Initializing Telegram poll cron");
+
+  const tick = async () => {
+    // Stopping a loop waits for its in-flight getUpdates; don't overlap ticks
+    if (ticking) return;
+    ticking = true;
+    try {
+      await supervisePollers();
+    } catch (err) {
+      log.error({ err }, "Telegram poll supervision failed");
+    } finally {
+      ticking = false;
+    }
+  };
+
+  setTimeout(() => void tick(), 15_000);
+
+  cronTimer = setInterval(() => void tick(), CHECK_INTERVAL_MS);
+}
+
+export async function stopTelegramPollCron(): Promise<void> {
+  if (cronTimer) {
+    clearInterval(cronTimer);
+    cronTimer = null;
+  }
+  await Promise.all(runningTelegramPollers().map((id) => stopTelegramPoller(id)));
+  startedWith.clear();
+  log.info("Telegram poll cron stopped");
+}
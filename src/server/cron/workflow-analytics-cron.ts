@@ -0,0 +1,69 @@
+/**
+ * Workflow Analytics Rollup Cron
+ *
+ * Rolls the raw runs of the last few finished UTC days up into
+ * `WorkflowDailyStats` so analytics history survives the run retention
+ * sweep. Each tick rewrites those days, picking up runs that finished
+ * late (delays, waits for a reply); runs ending after the window re-roll
+ * their own day (`rollUpLateRun`).
+ *
+ * Runs hourly under a distributed lock so only one replica aggregates.
+ *
+ * @module server/cron/workflow-analytics-cron
+ */
+
+import { logger } from "@/lib/logger";
+import { withDistributedLock } from "@/lib/redis-lock";
+import { ANALYTICS_ROLLUP_DAYS, rollUpWorkflowStats } from "@/modules/workflow/workflow.analytics";
+
+const log = logger.child({ module: "workflow-analytics-cron" });
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000; // 1h
+const LOCK_KEY = "cron:workflow-analytics";
+// 90% of the interval so a crashed replica's lock auto-expires before next tick.
+const LOCK_TTL_SECONDS = Math.floor((CHECK_INTERVAL_MS / 1000) * 0.9);
+
+let cronTimer: ReturnType<typeof setInterval> | null = null;
+
+async function runRollup(): Promise<void> {
+  const start = Date.now();
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+
+  let workflows = 0;
+  for (let daysAgo = 1; daysAgo <= ANALYTICS_ROLLUP_DAYS; daysAgo++) {
+    const day = new Date(today.getTime() - daysAgo * 24 * 60 * 60 * 1000);
+    workflows += await rollUpWorkflowStats(day);
+  }
+
+  log.info({ workflows, days: ANALYTICS_ROLLUP_DAYS, durationMs: Date.now() - start }, "Workflow analytics rollup complete");
+}
+
+/**
+ * Initialize the workflow analytics rollup cron (idempotent).
+ */
+export function initializeWorkflowAnalyticsCron(): void {
+  if (cronTimer) {
+    log.warn("Workflow analytics cron already initialized");
+    return;
+  }
+
+  log.info({ intervalMinutes: CHECK_INTERVAL_MS / 60000, days: ANALYTICS_ROLLUP_DAYS }, "Initializing workflow analytics cron");
+
+  const runWithLock = () =>
+    withDistributedLock(LOCK_KEY, LOCK_TTL_SECONDS, runRollup).catch((err) => {
+      log.error({ err }, "Workflow analytics rollup failed");
+    });
+
+  setTimeout(() => void runWithLock(), 45_000);
+
+  cronTimer = setInterval(() => void runWithLock(), CHECK_INTERVAL_MS);
+}
+
+export function stopWorkflowAnalyticsCron(): void {
+  if (cronTimer) {
+    clearInterval(cronTimer);
+    cronTimer = null;
+    log.info("Workflow analytics cron stopped");
+  }
+}
@@ -10,8 +10,11 @@ import { loggers } from "@/lib/logger";
 import { gatewayRegistry } from "@/modules/gateway/gateway.registry";
 import {
     discordBotProvider,
+    emailProvider,
+    matrixProvider,
     slackBotProvider,
     telegramBotProvider,
+    webChatProvider,
     whatsAppBotProvider,
 } from "@/modules/gateway/providers";
 
@@ -39,6 +42,15 @@ export function initializeGatewayProviders(): void {
     // Register WhatsApp Bot provider
     gatewayRegistry.register(whatsAppBotProvider);
 
+    // Register Web Chat provider
+    gatewayRegistry.register(webChatProvider);
+
+    // Register Email provider
+    gatewayRegistry.register(emailProvider);
+
+    // Register Matrix provider
+    gatewayRegistry.register(matrixProvider);
+
     // Log registered providers
     const types = gatewayRegistry.getTypes();
     logger.info(
@@ -129,7 +129,7 @@ function getLimiter(key: string, config: RateLimitConfig): RateLimiterRedis {
 /**
  * Get client IP from request (handles proxies)
  */
-function getClientIP(req: Request): string {
+export function getClientIP(req: Request): string {
   // Trust X-Forwarded-For if behind proxy (Cloudflare, nginx, etc.)
   const forwarded = req.headers['x-forwarded-for'];
   if (forwarded) {
@@ -119,7 +119,7 @@ function getPathParam(req: Request, name: string): string {
  *
  * @deprecated Use /api/user/gateways for personal or /api/orgs/:orgId/gateways for organization
  *
- * @query {string} [type] - Filter by gateway type (TELEGRAM_BOT, DISCORD_BOT, SLACK_BOT, WHATSAPP_BOT)
+ * @query {string} [type] - Filter by gateway type (TELEGRAM_BOT, DISCORD_BOT, SLACK_BOT, WHATSAPP_BOT, WEB_CHAT, EMAIL, MATRIX)
  * @query {string} [status] - Filter by status (CONNECTED, DISCONNECTED, ERROR)
  * @query {number} [page] - Page number (default 1)
  * @query {number} [limit] - Max results (default 50)
@@ -180,7 +180,7 @@ gatewayRouter.get(
  * Create a new gateway
  *
  * @body {string} name - Gateway name
- * @body {GatewayType} type - Gateway type (TELEGRAM_BOT, DISCORD_BOT, SLACK_BOT, WHATSAPP_BOT)
+ * @body {GatewayType} type - Gateway type (TELEGRAM_BOT, DISCORD_BOT, SLACK_BOT, WHATSAPP_BOT, WEB_CHAT, EMAIL, MATRIX)
  * @body {object} credentials - Type-specific credentials
  * @body {object} [config] - Optional type-specific config
  *
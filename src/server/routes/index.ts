@@ -26,6 +26,8 @@ import { invitesRouter } from "./invites";
 import { kbRouter } from "./kb";
 import { marketplaceRouter } from "./marketplace";
 import { mcpRouter } from "./mcp";
+import { messagesRouter } from "./messages";
+import { objectStoreRouter } from "./object-store";
 import { organizationRouter } from "./organization";
 import { orgsRouter } from "./orgs";
 import { pluginRouter } from "./plugin";
@@ -105,6 +107,11 @@ router.use("/gateways", gatewayRouter);
  */
 router.use("/webhooks", webhookRouter);
 
+/**
+ * Message log routes - Inbox of gateway conversations
+ */
+router.use("/messages", messagesRouter);
+
 /**
  * Plugin routes
  */
@@ -202,6 +209,13 @@ router.use("/projects/:projectId/resources", projectResourceRouter);
  */
 router.use("/projects/:projectId/topology", projectTopologyRouter);
 
+/**
+ * Object Store signed downloads (Phase 8.2) - public, HMAC-signed URLs
+ * for LOCAL-backend OBJECT_STORE resources.
+ * Gated by FEATURE_PROJECT_RESOURCES.
+ */
+router.use("/object-store", objectStoreRouter);
+
 /**
  * Cursor BuildSpec Orchestrator — apply layer for the unified Cursor chat.
  * Gated by FEATURE_CURSOR_BUILDSPEC (or legacy FEATURE_AI_BUILDER fallback).
@@ -0,0 +1,92 @@
+/**
+ * Message Routes
+ *
+ * Read access to the gateway message log behind the dashboard inbox.
+ * Covers the personal gateways of the user, or an organization's gateways
+ * when the `x-organization-id` header is set.
+ *
+ * Routes:
+ *   GET /messages               - Search / list logged messages (cursor paginated)
+ *   GET /messages/conversations - Chats with logged messages, most recent first
+ *
+ * @module server/routes/messages
+ */
+
+import { gatewayMessageService } from "@/modules/gateway";
+import {
+    conversationListQuerySchema,
+    messageListQuerySchema,
+} from "@/modules/gateway/gateway.validation";
+import { BadRequestError, ValidationError } from "@/shared/errors";
+import { Router, type Request, type Response } from "express";
+import { requireAuth } from "../middleware/auth";
+import { asyncHandler } from "../middleware/error-handler";
+import { requireOrgHeaderMembership } from "../middleware/org-auth";
+
+export const messagesRouter = Router();
+
+messagesRouter.use(requireAuth);
+messagesRouter.use(requireOrgHeaderMembership);
+
+// ===========================================
+// Helpers
+// ===========================================
+
+function getScope(req: Request) {
+  if (!req.user) throw new BadRequestError("User not authenticated");
+  const organizationId = req.headers["x-organization-id"] as string | undefined;
+  return { userId: req.user.id, organizationId: organizationId || undefined };
+}
+
+function formatZodErrors(
+  error: { issues: Array<{ path: readonly (string | number | symbol)[]; message: string }> }
+): Record<string, string[]> {
+  const errors: Record<string, string[]> = {};
+  for (const issue of error.issues) {
+    const path = issue.path.map((p) => String(p)).join(".") || "_root";
+    if (!errors[path]) errors[path] = [];
+    errors[path].push(issue.message);
+  }
+  return errors;
+}
+
+// ===========================================
+// Routes
+// ===========================================
+
+/**
+ * GET /messages
+ * Logged messages, newest first. `q` is a full-text query; pass the
+ * returned `nextCursor` as `cursor` for the next page.
+ */
+messagesRouter.get(
+  "/",
+  asyncHandler(async (req: Request, res: Response) => {
+    const parseResult = messageListQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      throw new ValidationError("Invalid query parameters", formatZodErrors(parseResult.error));
+    }
+
+    const result = await gatewayMessageService.listMessages(getScope(req), parseResult.data);
+
+    res.json({ success: true, data: result });
+  })
+);
+
+/**
+ * GET /messages/conversations
+ * Chats with logged messages, with their latest message
+ */
+messagesRouter.get(
+  "/conversations",
+  asyncHandler(async (req: Request, res: Response) => {
+    const parseResult = conversationListQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      throw new ValidationError("Invalid query parameters", formatZodErrors(parseResult.error));
+    }
+
+    const conversations = await gatewayMessageService.listConversations(getScope(req), parseResult.data);
+
+    res.json({ success: true, data: conversations });
+  })
+);
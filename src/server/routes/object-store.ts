@@ -0,0 +1,86 @@
+/**
+ * Object Store Download Routes (Phase 8.2)
+ *
+ * Public endpoint behind the signed URLs minted for LOCAL-backend
+ * OBJECT_STORE resources. No session auth — the HMAC signature and expiry
+ * in the query string are the credential.
+ *
+ *   GET /object-store/download/:resourceId?key=&expires=&signature=
+ *
+ * S3-backed stores hand out native presigned URLs and never hit this route.
+ *
+ * The uploader picks the stored Content-Type, so only media types that
+ * can't run script are served inline; everything else (HTML, SVG, XML…)
+ * is sent as an attachment, and all responses carry a sandboxing CSP so
+ * nothing renders as active content on the API origin.
+ *
+ * Behind FEATURE_PROJECT_RESOURCES env flag (default: disabled).
+ *
+ * @module server/routes/object-store
+ */
+
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+
+import { readSignedObject } from "@/modules/project-resource/object-store.service";
+import { ForbiddenError } from "@/shared/errors";
+
+import { asyncHandler } from "../middleware/error-handler";
+
+export const objectStoreRouter = Router();
+
+objectStoreRouter.use((_req, _res, next) => {
+  const flag = process.env.FEATURE_PROJECT_RESOURCES ?? "disabled";
+  if (flag === "disabled") {
+    return next(new ForbiddenError("FEATURE_PROJECT_RESOURCES is disabled"));
+  }
+  next();
+});
+
+/** Content types a browser may display inline without running script */
+const INLINE_SAFE_TYPES = new Set([
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "image/avif",
+  "audio/mpeg",
+  "audio/ogg",
+  "audio/wav",
+  "video/mp4",
+  "video/webm",
+  "application/pdf",
+  "text/plain",
+]);
+
+function isInlineSafe(contentType: string): boolean {
+  const mediaType = contentType.split(";")[0]?.trim().toLowerCase() ?? "";
+  return INLINE_SAFE_TYPES.has(mediaType);
+}
+
+const DownloadQuerySchema = z.object({
+  key: z.string().min(1).max(512),
+  expires: z.coerce.number().int(),
+  signature: z.string().regex(/^[0-9a-f]{64}$/, "signature must be hex"),
+});
+
+objectStoreRouter.get(
+  "/download/:resourceId",
+  asyncHandler(async (req: Request, res: Response) => {
+    const query = DownloadQuerySchema.parse(req.query ?? {});
+    const object = await readSignedObject({
+      resourceId: String(req.params.resourceId),
+      ...query,
+    });
+    if (!isInlineSafe(object.contentType)) {
+      res.attachment(query.key.split("/").pop() || "download");
+    }
+    res.setHeader("Content-Type", object.contentType);
+    res.setHeader("Content-Length", String(object.sizeBytes));
+    res.setHeader("ETag", `"${object.sha256}"`);
+    res.setHeader("Cache-Control", "private, no-store");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("Content-Security-Policy", "default-src 'none'; sandbox");
+    res.end(object.body);
+  }),
+);
@@ -10,40 +10,72 @@
  *   POST   /projects/:projectId/resources/:resourceId/archive  Archive
  *   DELETE /projects/:projectId/resources/:resourceId  Delete (non-GATEWAY_BOT only)
  *
+ * OBJECT_STORE data plane (bodies travel base64-encoded in JSON):
+ *
+ *   GET    /projects/:projectId/resources/:resourceId/objects           List (prefix/cursor)
+ *   POST   /projects/:projectId/resources/:resourceId/objects           Put
+ *   GET    /projects/:projectId/resources/:resourceId/objects/content   Get (raw bytes)
+ *   DELETE /projects/:projectId/resources/:resourceId/objects           Delete (?key=)
+ *   POST   /projects/:projectId/resources/:resourceId/objects/sign      Signed download URL
+ *
+ * SCHEDULE timing:
+ *
+ *   GET    /projects/:projectId/resources/:resourceId/schedule/preview  Next fire times (?count=10)
+ *   GET    /projects/:projectId/resources/:resourceId/schedule/fires    Fire history (?limit=50)
+ *
  * ships GATEWAY_BOT only; create endpoint is exposed but rejects
  * non-GATEWAY_BOT kinds until later phases wire their sidecars.
  *
+ * Updates and archives are published as `resource.updated` platform events.
+ *
  * Behind FEATURE_PROJECT_RESOURCES env flag (default: disabled).
  *
  * @module server/routes/project-resource
  */
 
+import type { ProjectResource } from "@prisma/client";
 import { Router, type Request, type Response } from "express";
 import { z } from "zod";
 
+import { emitPlatformEvent } from "@/lib/platform-events";
+
 import {
     archiveProjectResource,
     createDatabaseResource,
     createExternalApiResource,
     createHttpRouteResource,
+    createKvStoreResource,
+    createObjectStoreResource,
     createProjectResource,
     createScheduleResource,
     createSecretResource,
     deleteProjectResource,
+    getProjectResource,
     getProjectResourceWithGateway,
     listProjectResources,
+    listScheduleFires,
+    previewScheduleFires,
     updateDatabaseSidecar,
     updateExternalApiSidecar,
     updateHttpRouteSidecar,
+    updateKvStoreSidecar,
+    updateObjectStoreSidecar,
     updateProjectResource,
     updateScheduleSidecar,
     updateSecretSidecar,
 } from "@/modules/project-resource/project-resource.service";
+import {
+    createSignedObjectUrl,
+    objectDelete,
+    objectGet,
+    objectList,
+    objectPut,
+} from "@/modules/project-resource/object-store.service";
 import {
     getCachedProjectTopology,
     invalidateTopologyCache,
 } from "@/modules/project-resource/topology-cache";
-import { BadRequestError, ForbiddenError } from "@/shared/errors";
+import { BadRequestError, ForbiddenError, NotFoundError } from "@/shared/errors";
 
 import { requireAuth } from "../middleware/auth";
 import { asyncHandler } from "../middleware/error-handler";
@@ -83,6 +115,39 @@ function getParam(req: Request, name: string): string {
   return value;
 }
 
+/**
+ * Resolve the OBJECT_STORE addressed by `:resourceId` to the
+ * (projectId, slug) pair the object-store service is keyed on.
+ */
+async function getObjectStoreTarget(req: Request) {
+  const owner = getOwner(req);
+  const resourceId = getParam(req, "resourceId");
+  const resource = await getProjectResource(owner, resourceId);
+  if (resource.kind !== "OBJECT_STORE") {
+    throw new BadRequestError(
+      `Resource ${resourceId} is not an OBJECT_STORE (kind=${resource.kind})`,
+    );
+  }
+  return { owner, projectId: resource.projectId, store: resource.slug };
+}
+
+function emitResourceUpdated(resource: ProjectResource, change: "updated" | "archived"): void {
+  emitPlatformEvent({
+    name: "resource.updated",
+    userId: resource.userId,
+    organizationId: resource.organizationId,
+    data: {
+      resourceId: resource.id,
+      projectId: resource.projectId,
+      kind: resource.kind,
+      name: resource.name,
+      slug: resource.slug,
+      status: resource.status,
+      change,
+    },
+  });
+}
+
 // ===========================================
 // Schemas
 // ===========================================
@@ -113,11 +178,16 @@ const HttpMethodSchema = z.enum([
 
 const HttpAuthModeSchema = z.enum(["NONE", "API_KEY", "HMAC", "BEARER_JWT"]);
 
+const HttpRouteResponseModeSchema = z.enum(["ASYNC", "WORKFLOW_OUTPUT"]);
+
 const HttpRouteSpecSchema = z.object({
   method: HttpMethodSchema.optional(),
   path: z.string().min(1).max(512),
   targetUserPluginId: z.string().min(1).nullable().optional(),
   targetExport: z.string().min(1).max(128).nullable().optional(),
+  targetWorkflowId: z.string().min(1).nullable().optional(),
+  responseMode: HttpRouteResponseModeSchema.optional(),
+  responseStepId: z.string().min(1).nullable().optional(),
   authMode: HttpAuthModeSchema.optional(),
   authConfig: z.record(z.string(), z.unknown()).optional(),
   maxBodyKb: z.number().int().min(0).max(10_000).optional(),
@@ -131,6 +201,18 @@ const ScheduleSpecSchema = z.object({
   timezone: z.string().min(1).max(64).nullable().optional(),
   targetWorkflowId: z.string().min(1).nullable().optional(),
   enabled: z.boolean().optional(),
+  startDate: z.string().datetime().nullable().optional(),
+  endDate: z.string().datetime().nullable().optional(),
+  misfirePolicy: z.enum(["SKIP", "FIRE_ONCE", "CATCH_UP"]).optional(),
+  catchUpLimit: z.number().int().min(1).max(100).optional(),
+});
+
+const SchedulePreviewQuerySchema = z.object({
+  count: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+const ScheduleFiresQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional(),
 });
 
 const SECRET_KEY_RE = /^[A-Z0-9_]{1,128}$/;
@@ -180,6 +262,47 @@ const DatabaseSpecSchema = z.object({
   poolMax: z.number().int().min(1).max(1000).optional(),
 });
 
+const KvStoreSpecSchema = z.object({
+  maxBytes: z.number().int().min(1024).max(100 * 1024 * 1024).optional(),
+  maxKeys: z.number().int().min(1).max(1_000_000).optional(),
+  defaultTtlSeconds: z.number().int().min(0).max(365 * 24 * 60 * 60).optional(),
+});
+
+const ObjectStoreBackendSchema = z.enum(["LOCAL", "S3"]);
+
+const ObjectStoreSpecSchema = z.object({
+  backend: ObjectStoreBackendSchema.optional(),
+  bucket: z.string().min(3).max(63).nullable().optional(),
+  region: z.string().min(1).max(32).nullable().optional(),
+  endpoint: z.string().min(1).max(2048).nullable().optional(),
+  forcePathStyle: z.boolean().optional(),
+  keyPrefix: z.string().max(256).optional(),
+  accessKeyId: z.string().min(1).max(128).nullable().optional(),
+  secretAccessKey: z.string().min(1).max(256).nullable().optional(),
+});
+
+const ObjectKeySchema = z.string().min(1).max(512);
+
+const ObjectListQuerySchema = z.object({
+  prefix: z.string().max(512).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+  cursor: ObjectKeySchema.optional(),
+});
+
+const ObjectKeyQuerySchema = z.object({ key: ObjectKeySchema });
+
+const ObjectPutBodySchema = z.object({
+  key: ObjectKeySchema,
+  contentType: z.string().min(1).max(255).optional(),
+  /** Object bytes, base64-encoded. */
+  dataBase64: z.string(),
+});
+
+const ObjectSignBodySchema = z.object({
+  key: ObjectKeySchema,
+  expiresInSeconds: z.number().int().min(1).max(7 * 24 * 60 * 60).optional(),
+});
+
 const ListQuerySchema = z.object({
   kind: ResourceKindSchema.optional(),
   status: ResourceStatusSchema.optional(),
@@ -203,6 +326,10 @@ const CreateBodySchema = z.object({
   externalApi: ExternalApiSpecSchema.optional(),
   /** Required when kind === 'DATABASE'. */
   database: DatabaseSpecSchema.optional(),
+  /** Optional when kind === 'KV_STORE' (defaults: 10MB, 10k keys, no TTL). */
+  kvStore: KvStoreSpecSchema.optional(),
+  /** Optional when kind === 'OBJECT_STORE' (default: LOCAL backend). */
+  objectStore: ObjectStoreSpecSchema.optional(),
 });
 
 const UpdateBodySchema = z.object({
@@ -221,6 +348,10 @@ const UpdateBodySchema = z.object({
   externalApi: ExternalApiSpecSchema.partial().optional(),
   /** When set, also patches the DATABASE sidecar. */
   database: DatabaseSpecSchema.partial().optional(),
+  /** When set, also patches the KV_STORE sidecar. */
+  kvStore: KvStoreSpecSchema.optional(),
+  /** When set, also patches the OBJECT_STORE sidecar. */
+  objectStore: ObjectStoreSpecSchema.optional(),
 });
 
 // ===========================================
@@ -352,11 +483,30 @@ projectResourceRouter.post(
       return;
     }
 
-    // Other kinds (KV_STORE, OBJECT_STORE) are reserved enum values until
-    // Phase 8.x ships their sidecars.
-    throw new BadRequestError(
-      `ProjectResource kind ${body.kind} is reserved for a later phase`,
-    );
+    if (body.kind === "KV_STORE") {
+      const resource = await createKvStoreResource(owner, {
+        projectId,
+        name: body.name,
+        slug: body.slug,
+        status: body.status,
+        metadata: body.metadata ?? null,
+        kvStore: body.kvStore ?? {},
+      });
+      await invalidateTopologyCache(owner, projectId);
+      res.status(201).json({ success: true, data: resource });
+      return;
+    }
+
+    const resource = await createObjectStoreResource(owner, {
+      projectId,
+      name: body.name,
+      slug: body.slug,
+      status: body.status,
+      metadata: body.metadata ?? null,
+      objectStore: body.objectStore ?? {},
+    });
+    await invalidateTopologyCache(owner, projectId);
+    res.status(201).json({ success: true, data: resource });
   }),
 );
 
@@ -403,7 +553,14 @@ projectResourceRouter.patch(
     if (body.database) {
       await updateDatabaseSidecar(owner, resourceId, body.database);
     }
+    if (body.kvStore) {
+      await updateKvStoreSidecar(owner, resourceId, body.kvStore);
+    }
+    if (body.objectStore) {
+      await updateObjectStoreSidecar(owner, resourceId, body.objectStore);
+    }
     await invalidateTopologyCache(owner, projectId);
+    emitResourceUpdated(resource, "updated");
     res.json({ success: true, data: resource });
   }),
 );
@@ -416,6 +573,7 @@ projectResourceRouter.post(
     const resourceId = getParam(req, "resourceId");
     const resource = await archiveProjectResource(owner, resourceId);
     await invalidateTopologyCache(owner, projectId);
+    emitResourceUpdated(resource, "archived");
     res.json({ success: true, data: resource });
   }),
 );
@@ -432,6 +590,99 @@ projectResourceRouter.delete(
   }),
 );
 
+// ===========================================
+// SCHEDULE timing
+// ===========================================
+
+projectResourceRouter.get(
+  "/:resourceId/schedule/preview",
+  asyncHandler(async (req: Request, res: Response) => {
+    const owner = getOwner(req);
+    const resourceId = getParam(req, "resourceId");
+    const { count } = SchedulePreviewQuerySchema.parse(req.query ?? {});
+    const fires = await previewScheduleFires(owner, resourceId, count);
+    res.json({ success: true, data: fires });
+  }),
+);
+
+projectResourceRouter.get(
+  "/:resourceId/schedule/fires",
+  asyncHandler(async (req: Request, res: Response) => {
+    const owner = getOwner(req);
+    const resourceId = getParam(req, "resourceId");
+    const { limit } = ScheduleFiresQuerySchema.parse(req.query ?? {});
+    const fires = await listScheduleFires(owner, resourceId, limit);
+    res.json({ success: true, data: fires });
+  }),
+);
+
+// ===========================================
+// OBJECT_STORE data plane
+// ===========================================
+
+projectResourceRouter.get(
+  "/:resourceId/objects",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { owner, projectId, store } = await getObjectStoreTarget(req);
+    const query = ObjectListQuerySchema.parse(req.query ?? {});
+    const page = await objectList(owner, projectId, store, query);
+    res.json({ success: true, data: page });
+  }),
+);
+
+projectResourceRouter.post(
+  "/:resourceId/objects",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { owner, projectId, store } = await getObjectStoreTarget(req);
+    const body = ObjectPutBodySchema.parse(req.body ?? {});
+    const object = await objectPut(
+      owner,
+      projectId,
+      store,
+      body.key,
+      Buffer.from(body.dataBase64, "base64"),
+      { contentType: body.contentType },
+    );
+    res.status(201).json({ success: true, data: object });
+  }),
+);
+
+projectResourceRouter.get(
+  "/:resourceId/objects/content",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { owner, projectId, store } = await getObjectStoreTarget(req);
+    const { key } = ObjectKeyQuerySchema.parse(req.query ?? {});
+    const object = await objectGet(owner, projectId, store, key);
+    if (!object) throw new NotFoundError(`Object "${key}" not found`);
+    res.setHeader("Content-Type", object.contentType);
+    res.setHeader("Content-Length", String(object.sizeBytes));
+    res.setHeader("ETag", `"${object.sha256}"`);
+    res.end(object.body);
+  }),
+);
+
+projectResourceRouter.delete(
+  "/:resourceId/objects",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { owner, projectId, store } = await getObjectStoreTarget(req);
+    const { key } = ObjectKeyQuerySchema.parse(req.query ?? {});
+    const deleted = await objectDelete(owner, projectId, store, key);
+    res.json({ success: true, data: { deleted } });
+  }),
+);
+
+projectResourceRouter.post(
+  "/:resourceId/objects/sign",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { owner, projectId, store } = await getObjectStoreTarget(req);
+    const body = ObjectSignBodySchema.parse(req.body ?? {});
+    const signed = await createSignedObjectUrl(owner, projectId, store, body.key, {
+      expiresInSeconds: body.expiresInSeconds,
+    });
+    res.json({ success: true, data: signed });
+  }),
+);
+
 // ===========================================
 // Project Topology Router
 // ===========================================
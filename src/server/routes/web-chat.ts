@@ -0,0 +1,396 @@
+/**
+ * Web Chat Routes (public)
+ *
+ * Endpoints behind the embeddable chat widget of WEB_CHAT gateways. They are
+ * called from customer sites by anonymous visitors, so they sit outside the
+ * dashboard CORS allowlist and user auth: each gateway's `allowedOrigins`
+ * decides which sites may use them, and visitors authenticate with session
+ * tokens signed by the gateway.
+ *
+ * Routes:
+ *   GET  /web-chat/widget.js                 - Drop-in widget script
+ *   POST /web-chat/:gatewayId/sessions       - Start or resume a visitor session
+ *   POST /web-chat/:gatewayId/messages       - Send a visitor message (Bearer session token)
+ *   GET  /web-chat/:gatewayId/stream?token=  - Session history + live replies (SSE)
+ *
+ * @module server/routes/web-chat
+ */
+
+import type { NextFunction, Request, Response } from "express";
+import express, { Router } from "express";
+import { RateLimiterRes } from "rate-limiter-flexible";
+import { z } from "zod";
+
+import { logger } from "@/lib/logger";
+import { prisma } from "@/lib/prisma";
+import { gatewayMessageService } from "@/modules/gateway/gateway-messages.service";
+import {
+    getWebChatHistory,
+    isOriginAllowed,
+    issueSessionToken,
+    loadWebChatGateway,
+    MAX_WEB_CHAT_MESSAGE_LENGTH,
+    postWebChatMessage,
+    sessionTtlHours,
+    subscribeWebChat,
+    verifySessionToken,
+    type WebChatGateway,
+    type WebChatSession,
+} from "@/modules/gateway/web-chat.service";
+import { WEB_CHAT_WIDGET_JS } from "@/modules/gateway/web-chat.widget";
+import type { WebChatInboundMessage } from "@/modules/plugin/plugin.events";
+import { checkWebChatMessageTrigger } from "@/modules/workflow/workflow.triggers";
+import {
+    ForbiddenError,
+    NotFoundError,
+    RateLimitError,
+    ServiceUnavailableError,
+    UnauthorizedError,
+    ValidationError,
+} from "@/shared/errors";
+
+import { asyncHandler } from "../middleware/error-handler";
+import { createRateLimiter, getClientIP } from "../middleware/rate-limit";
+
+const webChatLogger = logger.child({ module: "web-chat-routes" });
+
+export const webChatRouter = Router();
+
+// Mounted ahead of the global body parser — visitor payloads are small
+webChatRouter.use(express.json({ limit: "16kb" }));
+
+const DEFAULT_TITLE = "Chat with us";
+const DEFAULT_PRIMARY_COLOR = "#2563eb";
+
+/** Streams are recycled at least this often; the widget reconnects */
+const STREAM_MAX_AGE_MS = 60 * 60 * 1000;
+
+/** Session starts per visitor IP */
+const sessionRateLimiter = createRateLimiter({
+  keyPrefix: "webchat-session",
+  points: 20,
+  duration: 60,
+  blockDuration: 60,
+});
+
+/** Visitor messages per session */
+const messageRateLimiter = createRateLimiter({
+  keyPrefix: "webchat-message",
+  points: 20,
+  duration: 60,
+  blockDuration: 60,
+});
+
+/** Stream (re)connects per visitor IP */
+const streamRateLimiter = createRateLimiter({
+  keyPrefix: "webchat-stream",
+  points: 30,
+  duration: 60,
+});
+
+// ===========================================
+// Helpers
+// ===========================================
+
+function formatZodErrors(error: { issues: Array<{ path: readonly (string | number | symbol)[]; message: string }> }): Record<string, string[]> {
+  const errors: Record<string, string[]> = {};
+  for (const issue of error.issues) {
+    const path = issue.path.map(p => String(p)).join(".") || "_root";
+    if (!errors[path]) {
+      errors[path] = [];
+    }
+    errors[path].push(issue.message);
+  }
+  return errors;
+}
+
+async function consume(
+  limiter: ReturnType<typeof createRateLimiter>,
+  key: string,
+): Promise<void> {
+  try {
+    await limiter.consume(key);
+  } catch (err) {
+    if (err instanceof RateLimiterRes) {
+      const retryAfter = Math.ceil(err.msBeforeNext / 1000);
+      throw new RateLimitError(`Too many requests. Try again in ${retryAfter} seconds.`, retryAfter);
+    }
+    // Redis error — fail open
+  }
+}
+
+function getGateway(res: Response): WebChatGateway {
+  return res.locals.webChatGateway as WebChatGateway;
+}
+
+function requireSession(gateway: WebChatGateway, token: unknown): WebChatSession {
+  const session =
+    typeof token === "string" && token
+      ? verifySessionToken(gateway.sessionSecret, gateway.id, token)
+      : null;
+  if (!session) {
+    throw new UnauthorizedError("Invalid or expired chat session", "WEB_CHAT_SESSION_INVALID");
+  }
+  return session;
+}
+
+function bearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  return header?.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : undefined;
+}
+
+// ===========================================
+// Widget script
+// ===========================================
+
+/**
+ * GET /web-chat/widget.js
+ * The drop-in widget. Embed with
+ *   <script src="https://<api>/web-chat/widget.js" data-gateway-id="<id>" async></script>
+ */
+webChatRouter.get("/widget.js", (_req: Request, res: Response) => {
+  res.setHeader("Content-Type", "application/javascript; charset=utf-8");
+  res.setHeader("Cache-Control", "public, max-age=3600");
+  res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.send(WEB_CHAT_WIDGET_JS);
+});
+
+// ===========================================
+// Per-gateway CORS
+// ===========================================
+
+/**
+ * Resolve the gateway and apply its origin rules. Answers preflights itself.
+ */
+webChatRouter.use(
+  "/:gatewayId",
+  asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const gateway = await loadWebChatGateway(String(req.params.gatewayId));
+    if (!gateway) {
+      throw new NotFoundError("Chat not found");
+    }
+
+    const origin = req.headers.origin;
+    if (!isOriginAllowed(gateway.config, origin)) {
+      webChatLogger.warn({ gatewayId: gateway.id, origin }, "Web chat request from disallowed origin");
+      throw new ForbiddenError("This site may not use this chat", "WEB_CHAT_ORIGIN_NOT_ALLOWED");
+    }
+
+    res.setHeader("Vary", "Origin");
+    res.setHeader("Access-Control-Allow-Origin", origin ?? "*");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+
+    if (req.method === "OPTIONS") {
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+      res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+      res.setHeader("Access-Control-Max-Age", "86400");
+      res.status(204).end();
+      return;
+    }
+
+    // The owner disconnected the chat (or its health check failed)
+    if (gateway.status !== "CONNECTED") {
+      throw new ServiceUnavailableError("This chat is currently unavailable", "WEB_CHAT_UNAVAILABLE");
+    }
+
+    res.locals.webChatGateway = gateway;
+    next();
+  })
+);
+
+// ===========================================
+// Sessions
+// ===========================================
+
+const startSessionSchema = z.object({
+  /** A previous session token — resumed while still valid */
+  token: z.string().max(2_000).optional(),
+  /** A previous visitor ID, kept across sessions */
+  visitorId: z.string().max(64).optional(),
+});
+
+/**
+ * POST /web-chat/:gatewayId/sessions
+ * Start a visitor session, or extend the one in `token`.
+ *
+ * @returns {token, sessionId, visitorId, expiresAt, config}
+ */
+webChatRouter.post(
+  "/:gatewayId/sessions",
+  asyncHandler(async (req: Request, res: Response) => {
+    const gateway = getGateway(res);
+    await consume(sessionRateLimiter, `${gateway.id}:${getClientIP(req)}`);
+
+    const parseResult = startSessionSchema.safeParse(req.body ?? {});
+    if (!parseResult.success) {
+      throw new ValidationError("Invalid session request", formatZodErrors(parseResult.error));
+    }
+    const { token: previousToken, visitorId } = parseResult.data;
+
+    const previous = previousToken
+      ? verifySessionToken(gateway.sessionSecret, gateway.id, previousToken)
+      : null;
+    const { token, session } = issueSessionToken(gateway.sessionSecret, gateway.id, {
+      ttlHours: sessionTtlHours(gateway.config),
+      sessionId: previous?.sessionId,
+      visitorId: previous?.visitorId ?? visitorId,
+    });
+
+    res.status(previous ? 200 : 201).json({
+      success: true,
+      data: {
+        token,
+        sessionId: session.sessionId,
+        visitorId: session.visitorId,
+        expiresAt: new Date(session.exp * 1000).toISOString(),
+        config: {
+          title: gateway.config.title || DEFAULT_TITLE,
+          welcomeMessage: gateway.config.welcomeMessage ?? null,
+          primaryColor: gateway.config.primaryColor || DEFAULT_PRIMARY_COLOR,
+        },
+      },
+    });
+  })
+);
+
+// ===========================================
+// Messages
+// ===========================================
+
+const sendMessageSchema = z.object({
+  text: z.string().trim().min(1, "Message is empty").max(MAX_WEB_CHAT_MESSAGE_LENGTH),
+  visitorName: z.string().trim().max(80).optional(),
+  pageUrl: z.string().url().max(2_000).optional(),
+});
+
+/**
+ * POST /web-chat/:gatewayId/messages
+ * Send a visitor message. It is echoed to the session's open streams and
+ * dispatched to the gateway's BOT_MESSAGE workflows; replies arrive on the
+ * stream.
+ *
+ * @header Authorization - Bearer <session token>
+ * @returns {WebChatMessage} The stored visitor message
+ */
+webChatRouter.post(
+  "/:gatewayId/messages",
+  asyncHandler(async (req: Request, res: Response) => {
+    const gateway = getGateway(res);
+    const session = requireSession(gateway, bearerToken(req));
+    await consume(messageRateLimiter, session.sessionId);
+
+    const parseResult = sendMessageSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      throw new ValidationError("Invalid message", formatZodErrors(parseResult.error));
+    }
+    const { text, visitorName, pageUrl } = parseResult.data;
+
+    const message = await postWebChatMessage(session.sessionId, "visitor", text);
+    const inbound: WebChatInboundMessage = {
+      id: message.id,
+      sessionId: session.sessionId,
+      visitorId: session.visitorId,
+      text: message.text,
+      timestamp: message.at,
+      visitorName,
+      pageUrl,
+    };
+
+    void gatewayMessageService.recordInbound(gateway.id, [{
+      chatId: session.sessionId,
+      kind: "message",
+      senderId: session.visitorId,
+      senderName: visitorName ?? null,
+      text: message.text,
+      platformMessageId: message.id,
+    }]);
+
+    void checkWebChatMessageTrigger(
+      gateway.id,
+      gateway.userId,
+      gateway.organizationId,
+      {
+        chatId: session.sessionId,
+        visitorId: session.visitorId,
+        text: message.text,
+        messageId: message.id,
+        visitorName,
+      },
+      inbound,
+    ).catch((err: unknown) => {
+      webChatLogger.error(
+        { gatewayId: gateway.id, error: err instanceof Error ? err.message : String(err) },
+        "Web chat dispatch failed",
+      );
+    });
+
+    res.status(202).json({ success: true, data: message });
+
+    // Update last activity timestamp (fire and forget)
+    void prisma.gateway
+      .update({
+        where: { id: gateway.id },
+        data: { lastConnectedAt: new Date() },
+      })
+      .catch((err: Error) => {
+        webChatLogger.error({ gatewayId: gateway.id, err }, "Failed to update gateway timestamp");
+      });
+  })
+);
+
+// ===========================================
+// Stream
+// ===========================================
+
+/**
+ * GET /web-chat/:gatewayId/stream?token=
+ * Server-Sent Events for one session: a `history` event with the recent
+ * messages, then `message` and `typing` events as they happen. The token is
+ * a query parameter because EventSource cannot send headers.
+ */
+webChatRouter.get(
+  "/:gatewayId/stream",
+  asyncHandler(async (req: Request, res: Response) => {
+    const gateway = getGateway(res);
+    const session = requireSession(gateway, req.query.token);
+    await consume(streamRateLimiter, `${gateway.id}:${getClientIP(req)}`);
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.write(": connected\n\n");
+
+    // The visitor may already be gone (e.g. during the rate limit check)
+    if (req.destroyed) return;
+
+    // Subscribe before reading history so nothing falls in between; the
+    // widget de-duplicates by message ID
+    const unsubscribe = subscribeWebChat(session.sessionId, (event) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.type === "message" ? event.message : {})}\n\n`);
+    });
+
+    const keepaliveTimer = setInterval(() => {
+      res.write(": keepalive\n\n");
+    }, 15_000);
+
+    // Close at token expiry (or max age) — the widget reconnects with a fresh token
+    const expiryTimer = setTimeout(() => {
+      res.end();
+    }, Math.max(0, Math.min(session.exp * 1000 - Date.now(), STREAM_MAX_AGE_MS)));
+
+    // Registered before the history read, so a disconnect during it still cleans up
+    req.on("close", () => {
+      clearInterval(keepaliveTimer);
+      clearTimeout(expiryTimer);
+      unsubscribe();
+    });
+
+    const history = await getWebChatHistory(session.sessionId);
+    if (req.destroyed) return;
+    res.write(`event: history\ndata: ${JSON.stringify(history)}\n\n`);
+  })
+);
@@ -14,182 +14,28 @@ import { Router } from "express";
 import { decryptJson } from "@/lib/encryption";
 import { logger } from "@/lib/logger";
 import { prisma } from "@/lib/prisma";
-import { redis } from "@/lib/redis";
 import { wasReplayed } from "@/lib/webhook-replay-cache";
 import { gatewayRegistry, gatewayService } from "@/modules/gateway";
-import { gatewayChatService } from "@/modules/gateway/gateway-chats.service";
+import {
+    discordInboundMessages,
+    gatewayMessageService,
+    slackInboundMessages,
+    whatsAppInboundMessages,
+} from "@/modules/gateway/gateway-messages.service";
 import type { DiscordBotCredentials, SlackBotCredentials, WhatsAppBotCredentials } from "@/modules/gateway/gateway.types";
 import type { DiscordInteraction } from "@/modules/plugin/plugin.events";
-import { handleDiscordWebhook, handleSlackWebhook, handleTelegramWebhook, handleWhatsAppWebhook } from "@/modules/plugin/plugin.events";
+import { handleDiscordWebhook, handleSlackWebhook, handleWhatsAppWebhook } from "@/modules/plugin/plugin.events";
 import { recordV1Dispatch, shouldRunV1Dispatch } from "@/modules/workflow/v1-dispatch-telemetry";
-import { checkDiscordMessageTrigger, checkSlackMessageTrigger, checkTelegramCallbackTrigger, checkTelegramMessageTrigger, checkWhatsAppMessageTrigger, handleWebhookTrigger } from "@/modules/workflow/workflow.triggers";
+import { checkDiscordMessageTrigger, checkSlackMessageTrigger, checkWhatsAppMessageTrigger, handleWebhookTrigger } from "@/modules/workflow/workflow.triggers";
+import { RateLimitError } from "@/shared/errors";
 import type { ApiResponse } from "@/shared/types";
 
 import { RateLimiterRes } from 'rate-limiter-flexible';
 import { createRateLimiter } from "../middleware/rate-limit";
+import { dispatchTelegramUpdate, type TelegramUpdate } from "../telegram-dispatch";
 
 const webhookLogger = logger.child({ module: "webhook" });
 
-// ===========================================
-// Telegram Update Types
-// ===========================================
-
-/**
- * Telegram Chat object
- */
-interface TelegramChat {
-  id: number;
-  type: "private" | "group" | "supergroup" | "channel";
-  title?: string;
-  username?: string;
-  first_name?: string;
-  last_name?: string;
-}
-
-/**
- * Telegram User object
- */
-interface TelegramUser {
-  id: number;
-  is_bot: boolean;
-  first_name: string;
-  last_name?: string;
-  username?: string;
-  language_code?: string;
-}
-
-/**
- * Telegram Message object
- */
-interface TelegramMessage {
-  message_id: number;
-  date: number;
-  chat: TelegramChat;
-  from?: TelegramUser;
-  text?: string;
-  caption?: string;
-  reply_to_message?: TelegramMessage;
-  entities?: Array<{
-    type: string;
-    offset: number;
-    length: number;
-  }>;
-}
-
-/**
- * Telegram CallbackQuery object
- */
-interface TelegramCallbackQuery {
-  id: string;
-  from: TelegramUser;
-  message?: TelegramMessage;
-  chat_instance: string;
-  data?: string;
-}
-
-/**
- * Telegram ChatMemberUpdated object
- * Fires when a chat member's status changes (bot added/removed, user promoted, etc.)
- */
-interface TelegramChatMemberUpdated {
-  chat: TelegramChat;
-  from: TelegramUser;
-  date: number;
-  old_chat_member: TelegramChatMember;
-  new_chat_member: TelegramChatMember;
-  invite_link?: {
-    invite_link: string;
-    creator: TelegramUser;
-    creates_join_request: boolean;
-    is_primary: boolean;
-    is_revoked: boolean;
-  };
-}
-
-/**
- * Telegram ChatMember object (simplified union)
- */
-interface TelegramChatMember {
-  status: "creator" | "administrator" | "member" | "restricted" | "left" | "kicked";
-  user: TelegramUser;
-  is_anonymous?: boolean;
-  custom_title?: string;
-  until_date?: number;
-}
-
-/**
- * Telegram InlineQuery object
- */
-interface TelegramInlineQuery {
-  id: string;
-  from: TelegramUser;
-  query: string;
-  offset: string;
-  chat_type?: "sender" | "private" | "group" | "supergroup" | "channel";
-  location?: { latitude: number; longitude: number };
-}
-
-/**
- * Telegram ChosenInlineResult object
- */
-interface TelegramChosenInlineResult {
-  result_id: string;
-  from: TelegramUser;
-  query: string;
-  location?: { latitude: number; longitude: number };
-  inline_message_id?: string;
-}
-
-/**
- * Telegram Poll object
- */
-interface TelegramPoll {
-  id: string;
-  question: string;
-  options: Array<{ text: string; voter_count: number }>;
-  total_voter_count: number;
-  is_closed: boolean;
-  is_anonymous: boolean;
-  type: "regular" | "quiz";
-  allows_multiple_answers: boolean;
-  correct_option_id?: number;
-  explanation?: string;
-}
-
-/**
- * Telegram PollAnswer object
- */
-interface TelegramPollAnswer {
-  poll_id: string;
-  user: TelegramUser;
-  option_ids: number[];
-}
-
-/**
- * Telegram Update object - the main payload from webhooks
- *
- * Covers all update types that Telegram can send:
- * - Messages (new, edited, channel posts)
- * - Callback queries (inline keyboard button presses)
- * - Chat member updates (bot added/removed from chats)
- * - Inline queries and chosen inline results
- * - Polls and poll answers
- */
-interface TelegramUpdate {
-  update_id: number;
-  message?: TelegramMessage;
-  edited_message?: TelegramMessage;
-  channel_post?: TelegramMessage;
-  edited_channel_post?: TelegramMessage;
-  callback_query?: TelegramCallbackQuery;
-  my_chat_member?: TelegramChatMemberUpdated;
-  chat_member?: TelegramChatMemberUpdated;
-  inline_query?: TelegramInlineQuery;
-  chosen_inline_result?: TelegramChosenInlineResult;
-  poll?: TelegramPoll;
-  poll_answer?: TelegramPollAnswer;
-}
-
 // ===========================================
 // Route Parameter Types
 // ===========================================
@@ -239,17 +85,6 @@ webhookRouter.post(
     }
 
     try {
-      // Deduplicate Telegram updates — skip if we've already processed this update_id
-      const dedupKey = `tg:dedup:${gatewayId}:${update.update_id}`;
-      const alreadySeen = await redis.set(dedupKey, "1", "EX", 120, "NX");
-      if (!alreadySeen) {
-        webhookLogger.debug(
-          { gatewayId, updateId: update.update_id },
-          "Duplicate Telegram update — skipping"
-        );
-        return res.status(200).json({ success: true, data: { received: true } });
-      }
-
       // Find the gateway (no auth required - webhook auth is via gatewayId)
       const gateway = await prisma.gateway.findUnique({
         where: { id: gatewayId },
@@ -323,185 +158,7 @@ webhookRouter.post(
         });
       }
 
-      // Replay protection: Telegram update_id is unique per bot.
-      // Short TTL (10 min) so legitimate retries after a transient handler
-      // failure are still processed. ACK with 200 on replay.
-      if (await wasReplayed("telegram", `${gatewayId}:${update.update_id}`, 600)) {
-        webhookLogger.warn({ gatewayId, updateId: update.update_id }, "Telegram replay rejected");
-        return res.status(200).json({ success: true, data: { received: true } });
-      }
-
-      // Log the update for processing
-      const updateInfo = extractUpdateInfo(update);
-      webhookLogger.info(
-        {
-          gatewayId,
-          updateId: update.update_id,
-          type: updateInfo.type,
-          chatId: updateInfo.chatId,
-          userId: updateInfo.userId,
-        },
-        "Processing Telegram update"
-      );
-
-      // Route to plugin system (non-blocking)
-      // Plugins receive the update event if they require TELEGRAM_BOT gateway type
-      if (gateway.userId) {
-        const executeGateway = async (gId: string, action: string, params: unknown) => {
-          const provider = gatewayRegistry.get("TELEGRAM_BOT");
-          const gw = await prisma.gateway.findUnique({ where: { id: gId } });
-          if (!gw) throw new Error(`Gateway not found: ${gId}`);
-          const credentials = gatewayService.getDecryptedCredentials(gw);
-          try {
-            return await provider.execute(gId, action, params);
-          } catch (execErr) {
-            const msg = execErr instanceof Error ? execErr.message : '';
-            if (msg.includes('not connected') || msg.includes('Not connected')) {
-              await provider.connect(gId, credentials, (gw.config as Record<string, unknown>) ?? {});
-              return provider.execute(gId, action, params);
-            }
-            throw execErr;
-          }
-        };
-
-        void (async () => {
-          try {
-            // Unified engine: run workflow triggers AND direct UserPlugin dispatch concurrently.
-            // Workflows execute their step pipeline; UserPlugins not managed by a workflow step fire independently.
-            const dispatches: Promise<void>[] = [];
-
-            // 1. Check workflow triggers (if any active workflows exist on this gateway)
-            if (update.message) {
-              dispatches.push(
-                checkTelegramMessageTrigger(
-                  gatewayId,
-                  gateway.userId,
-                  gateway.organizationId ?? null,
-                  {
-                    text: update.message.text,
-                    chatType: update.message.chat.type,
-                    chatId: update.message.chat.id,
-                    messageId: update.message.message_id,
-                    from: update.message.from ? {
-                      id: update.message.from.id,
-                      firstName: update.message.from.first_name,
-                      lastName: update.message.from.last_name,
-                      username: update.message.from.username,
-                    } : undefined,
-                  },
-                  update
-                ).then(() => {}),
-              );
-            } else if (update.callback_query) {
-              dispatches.push(
-                checkTelegramCallbackTrigger(
-                  gatewayId,
-                  gateway.userId,
-                  gateway.organizationId ?? null,
-                  {
-                    data: update.callback_query.data,
-                    chatId: update.callback_query.message?.chat.id,
-                    messageId: update.callback_query.message?.message_id,
-                    from: update.callback_query.from ? {
-                      id: update.callback_query.from.id,
-                      firstName: update.callback_query.from.first_name,
-                      lastName: update.callback_query.from.last_name,
-                      username: update.callback_query.from.username,
-                    } : undefined,
-                  },
-                  update
-                ).then(() => {}),
-              );
-            } else if (update.edited_message) {
-              dispatches.push(
-                checkTelegramMessageTrigger(
-                  gatewayId,
-                  gateway.userId,
-                  gateway.organizationId ?? null,
-                  {
-                    text: update.edited_message.text,
-                    chatType: update.edited_message.chat.type,
-                    chatId: update.edited_message.chat.id,
-                    messageId: update.edited_message.message_id,
-                    from: update.edited_message.from ? {
-                      id: update.edited_message.from.id,
-                      firstName: update.edited_message.from.first_name,
-                      lastName: update.edited_message.from.last_name,
-                      username: update.edited_message.from.username,
-                    } : undefined,
-                  },
-                  update
-                ).then(() => {}),
-              );
-            }
-
-            // 2. Route directly to UserPlugins not managed by an active workflow step (legacy V1 path, gated)
-            if (shouldRunV1Dispatch()) {
-              dispatches.push(
-                handleTelegramWebhook(
-                  gatewayId,
-                  gateway.userId,
-                  gateway.organizationId ?? null,
-                  update,
-                  executeGateway
-                ).then((result) => {
-                  recordV1Dispatch('telegram', result.pluginsExecuted);
-                  if (result.pluginsExecuted > 0) {
-                    webhookLogger.info(
-                      { gatewayId, pluginsExecuted: result.pluginsExecuted, success: result.successCount, failures: result.failureCount },
-                      'Webhook routed to unmanaged UserPlugins',
-                    );
-                  }
-                }),
-              );
-            } else {
-              recordV1Dispatch('telegram', 0);
-            }
-
-            await Promise.allSettled(dispatches);
-          } catch (err) {
-            webhookLogger.error({ gatewayId, error: err instanceof Error ? err.message : String(err) }, 'Webhook dispatch failed');
-          }
-        })();
-      }
-
-      // ── Track chat membership changes (fire-and-forget) ──
-      if (update.my_chat_member) {
-        const mcm = update.my_chat_member;
-        const newStatus = mcm.new_chat_member.status;
-        const chatPayload = {
-          gatewayId,
-          chatId: mcm.chat.id,
-          chatType: mcm.chat.type,
-          chatTitle: mcm.chat.title,
-          chatUsername: mcm.chat.username,
-          newStatus,
-        };
-
-        // "member" | "administrator" | "creator" → bot is in the chat
-        // "left" | "kicked" | "restricted" → bot left / was removed
-        const isActive = ["member", "administrator", "creator"].includes(newStatus);
-
-        void (isActive
-          ? gatewayChatService.recordChatJoin(chatPayload)
-          : gatewayChatService.recordChatLeave(chatPayload)
-        ).catch((err: Error) => {
-          webhookLogger.error({ gatewayId, error: err.message }, "Chat tracking failed");
-        });
-      }
-
-      // Update last activity timestamp (fire and forget)
-      void prisma.gateway
-        .update({
-          where: { id: gatewayId },
-          data: {
-            lastConnectedAt: new Date(),
-            status: "CONNECTED" as GatewayStatus,
-          },
-        })
-        .catch((err: Error) => {
-          webhookLogger.error({ gatewayId, err }, "Failed to update gateway timestamp");
-        });
+      await dispatchTelegramUpdate(gateway, update, "webhook");
 
       // Always return 200 to Telegram
       return res.status(200).json({
@@ -812,6 +469,9 @@ webhookRouter.post(
         res.status(200).json({ type: 1 }); // Default ACK
       }
 
+      // Message log (fire and forget)
+      void gatewayMessageService.recordInbound(gatewayId, discordInboundMessages(interaction));
+
       // Update last activity timestamp (fire and forget)
       void prisma.gateway
         .update({
@@ -1127,6 +787,9 @@ webhookRouter.post(
       // Respond 200 immediately — Slack requires fast responses
       res.status(200).json({ ok: true });
 
+      // Message log (fire and forget)
+      void gatewayMessageService.recordInbound(gatewayId, slackInboundMessages(payload));
+
       // Update last activity timestamp (fire and forget)
       void prisma.gateway
         .update({
@@ -1473,6 +1136,9 @@ webhookRouter.post(
       // Respond 200 immediately — Meta requires fast responses
       res.status(200).json({ ok: true });
 
+      // Message log (fire and forget)
+      void gatewayMessageService.recordInbound(gatewayId, whatsAppInboundMessages(payload));
+
       // Update last activity timestamp (fire and forget)
       void prisma.gateway
         .update({
@@ -1524,6 +1190,14 @@ webhookRouter.post(
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : "Failed to trigger workflow";
+      if (error instanceof RateLimitError) {
+        if (error.retryAfter) res.setHeader("Retry-After", String(error.retryAfter));
+        res.status(429).json({
+          success: false,
+          error: { code: error.code, message },
+        });
+        return;
+      }
       webhookLogger.error({ workflowId, error: message }, "Workflow webhook trigger failed");
       res.status(400).json({
         success: false,
@@ -1532,104 +1206,3 @@ webhookRouter.post(
     }
   }
 );
-
-// ===========================================
-// Helper Functions
-// ===========================================
-
-/**
- * Extract useful info from a Telegram update
- */
-function extractUpdateInfo(update: TelegramUpdate): {
-  type: string;
-  chatId?: number;
-  userId?: number;
-  text?: string;
-} {
-  if (update.message) {
-    return {
-      type: "message",
-      chatId: update.message.chat.id,
-      userId: update.message.from?.id,
-      text: update.message.text,
-    };
-  }
-
-  if (update.edited_message) {
-    return {
-      type: "edited_message",
-      chatId: update.edited_message.chat.id,
-      userId: update.edited_message.from?.id,
-      text: update.edited_message.text,
-    };
-  }
-
-  if (update.channel_post) {
-    return {
-      type: "channel_post",
-      chatId: update.channel_post.chat.id,
-      text: update.channel_post.text,
-    };
-  }
-
-  if (update.edited_channel_post) {
-    return {
-      type: "edited_channel_post",
-      chatId: update.edited_channel_post.chat.id,
-      text: update.edited_channel_post.text,
-    };
-  }
-
-  if (update.callback_query) {
-    return {
-      type: "callback_query",
-      chatId: update.callback_query.message?.chat.id,
-      userId: update.callback_query.from.id,
-    };
-  }
-
-  if (update.my_chat_member) {
-    return {
-      type: "my_chat_member",
-      chatId: update.my_chat_member.chat.id,
-      userId: update.my_chat_member.from.id,
-    };
-  }
-
-  if (update.chat_member) {
-    return {
-      type: "chat_member",
-      chatId: update.chat_member.chat.id,
-      userId: update.chat_member.from.id,
-    };
-  }
-
-  if (update.inline_query) {
-    return {
-      type: "inline_query",
-      userId: update.inline_query.from.id,
-    };
-  }
-
-  if (update.chosen_inline_result) {
-    return {
-      type: "chosen_inline_result",
-      userId: update.chosen_inline_result.from.id,
-    };
-  }
-
-  if (update.poll) {
-    return {
-      type: "poll",
-    };
-  }
-
-  if (update.poll_answer) {
-    return {
-      type: "poll_answer",
-      userId: update.poll_answer.user.id,
-    };
-  }
-
-  return { type: "unknown" };
-}
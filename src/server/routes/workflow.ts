@@ -6,31 +6,48 @@
  * Routes:
  *   GET    /workflows              - List workflows
  *   POST   /workflows              - Create workflow
+ *   POST   /workflows/import       - Import a workflow document (JSON / YAML)
  *   GET    /workflows/:id          - Get workflow
  *   PATCH  /workflows/:id          - Update workflow
  *   DELETE /workflows/:id          - Delete workflow
+ *   GET    /workflows/:id/export   - Export as a portable document
  *   POST   /workflows/:id/steps    - Add step
  *   PATCH  /workflows/:id/steps/:stepId - Update step
  *   DELETE /workflows/:id/steps/:stepId - Delete step
  *   POST   /workflows/:id/preflight - Static validation (no execution)
  *   POST   /workflows/:id/trigger  - Trigger workflow manually (supports test modes)
  *   GET    /workflows/:id/runs     - List runs
+ *   GET    /workflows/:id/runs/stream - Live run events (SSE)
  *   GET    /workflows/:id/runs/:runId - Get run detail
+ *   POST   /workflows/:id/runs/:runId/retry - Resume a failed run from its failing step
+ *   GET    /workflows/:id/analytics - Latency, failure, volume and cost analytics
+ *   GET    /workflows/:id/versions - List published versions
+ *   POST   /workflows/:id/versions - Publish the draft as a new version
+ *   GET    /workflows/:id/draft/diff - Unpublished changes in the draft
+ *   GET    /workflows/:id/versions/:version/diff - Changes a version made
+ *   POST   /workflows/:id/versions/:version/revert - Re-publish an earlier version
  *
  * @module server/routes/workflow
  */
 
-import { executeWorkflow } from "@/modules/workflow/workflow.executor";
+import { executeWorkflow, retryWorkflowRun } from "@/modules/workflow/workflow.executor";
+import { serializeWorkflowDocument } from "@/modules/workflow/workflow.portable";
+import { subscribeRunEvents } from "@/modules/workflow/workflow.stream";
 import { preflightWorkflow } from "@/modules/workflow/workflow.preflight";
 import { getFix } from "@/modules/workflow/preflight-fix-registry";
 import { workflowService } from "@/modules/workflow/workflow.service";
 import {
     createWorkflowSchema,
     createWorkflowStepSchema,
+    importWorkflowSchema,
     installPluginStepSchema,
+    publishWorkflowSchema,
+    retryWorkflowRunSchema,
     triggerWorkflowSchema,
     updateWorkflowSchema,
     updateWorkflowStepSchema,
+    workflowAnalyticsQuerySchema,
+    workflowExportQuerySchema,
     workflowListQuerySchema,
     workflowRunListQuerySchema,
 } from "@/modules/workflow/workflow.validation";
@@ -137,6 +154,65 @@ workflowRouter.post(
   })
 );
 
+/**
+ * POST /workflows/import
+ * Import a portable workflow document as a new DRAFT workflow. Gateway and
+ * workflow refs are bound from `bindings` or matched by name; the workflow
+ * is only kept when preflight passes. `dryRun` previews bindings (with
+ * candidates to choose from) and preflight without keeping anything.
+ *
+ * Body: { document, name?, slug?, bindings?: { gateways?, workflows? }, dryRun? }
+ */
+workflowRouter.post(
+  "/import",
+  asyncHandler(async (req: Request, res: Response) => {
+    const owner = getOwner(req);
+
+    const parseResult = importWorkflowSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      throw new ValidationError("Validation failed", formatZodErrors(parseResult.error));
+    }
+
+    const result = await workflowService.importWorkflow(owner, parseResult.data);
+
+    res.status(parseResult.data.dryRun ? 200 : 201).json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+/**
+ * GET /workflows/:id/export
+ * Export the draft as a portable document
+ *
+ * Query: { format?: "yaml" | "json" } (default yaml)
+ * Response: { format, filename, content }
+ */
+workflowRouter.get(
+  "/:id/export",
+  asyncHandler(async (req: Request, res: Response) => {
+    const owner = getOwner(req);
+
+    const parseResult = workflowExportQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      throw new ValidationError("Invalid query parameters", formatZodErrors(parseResult.error));
+    }
+    const { format } = parseResult.data;
+
+    const document = await workflowService.exportWorkflow(owner, getParam(req, "id"));
+
+    res.json({
+      success: true,
+      data: {
+        format,
+        filename: `${document.workflow.slug}.workflow.${format}`,
+        content: serializeWorkflowDocument(document, format),
+      },
+    });
+  })
+);
+
 /**
  * GET /workflows/:id
  * Get workflow by ID
@@ -558,6 +634,46 @@ workflowRouter.get(
   })
 );
 
+/**
+ * GET /workflows/:id/runs/stream
+ * Server-Sent Events stream of live run events for this workflow: run and
+ * step lifecycle plus captured log lines. `?runId=` limits it to one run.
+ * Open the stream before triggering so `run_started` isn't missed.
+ */
+workflowRouter.get(
+  "/:id/runs/stream",
+  asyncHandler(async (req: Request, res: Response) => {
+    const owner = getOwner(req);
+    const workflowId = getParam(req, "id");
+    await workflowService.getWorkflow(owner, workflowId);
+    const runId = typeof req.query.runId === "string" ? req.query.runId : undefined;
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.write(": connected\n\n");
+
+    let eventId = 0;
+    const unsubscribe = subscribeRunEvents(workflowId, (event) => {
+      if (runId && event.runId !== runId) return;
+      eventId++;
+      res.write(`id: ${eventId}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+
+    const keepaliveTimer = setInterval(() => {
+      res.write(": keepalive\n\n");
+    }, 15_000);
+
+    req.on("close", () => {
+      clearInterval(keepaliveTimer);
+      unsubscribe();
+    });
+  })
+);
+
 /**
  * GET /workflows/:id/runs/:runId
  * Get detailed run result
@@ -579,3 +695,191 @@ workflowRouter.get(
     });
   })
 );
+
+/**
+ * POST /workflows/:id/runs/:runId/retry
+ * Re-run a failed run from the step that failed, reusing the recorded
+ * results of the steps that completed. Creates a new run linked to the
+ * failed one.
+ *
+ * Body: { fromStepOrder? } — re-run from this step instead
+ * Response: { runId }
+ */
+workflowRouter.post(
+  "/:id/runs/:runId/retry",
+  asyncHandler(async (req: Request, res: Response) => {
+    const owner = getOwner(req);
+
+    const parseResult = retryWorkflowRunSchema.safeParse(req.body ?? {});
+    if (!parseResult.success) {
+      throw new ValidationError("Validation failed", formatZodErrors(parseResult.error));
+    }
+
+    // Verifies ownership and that the run belongs to this workflow
+    const original = await workflowService.getRunDetail(
+      owner,
+      getParam(req, "id"),
+      getParam(req, "runId")
+    );
+
+    const runId = await retryWorkflowRun(original.id, parseResult.data);
+
+    res.status(202).json({
+      success: true,
+      data: { runId },
+    });
+  })
+);
+
+// ===========================================
+// Analytics
+// ===========================================
+
+/**
+ * GET /workflows/:id/analytics
+ * Run and per-step latency percentiles, error rates, run volume per day
+ * and AI credits per run, over the last `?days=` days (default 30, max 90)
+ */
+workflowRouter.get(
+  "/:id/analytics",
+  asyncHandler(async (req: Request, res: Response) => {
+    const owner = getOwner(req);
+
+    const parseResult = workflowAnalyticsQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      throw new ValidationError("Invalid query parameters", formatZodErrors(parseResult.error));
+    }
+
+    const analytics = await workflowService.getAnalytics(
+      owner,
+      getParam(req, "id"),
+      parseResult.data.days
+    );
+
+    res.json({
+      success: true,
+      data: analytics,
+    });
+  })
+);
+
+// ===========================================
+// Versions
+// ===========================================
+
+function getVersionParam(req: Request): number {
+  const version = Number(getParam(req, "version"));
+  if (!Number.isInteger(version) || version < 1) {
+    throw new BadRequestError("Invalid version");
+  }
+  return version;
+}
+
+/**
+ * GET /workflows/:id/versions
+ * Published versions, newest first
+ */
+workflowRouter.get(
+  "/:id/versions",
+  asyncHandler(async (req: Request, res: Response) => {
+    const owner = getOwner(req);
+
+    const versions = await workflowService.listVersions(owner, getParam(req, "id"));
+
+    res.json({
+      success: true,
+      data: versions,
+    });
+  })
+);
+
+/**
+ * POST /workflows/:id/versions
+ * Publish the draft. Live triggers run the new version from now on.
+ *
+ * Body: { note? }
+ */
+workflowRouter.post(
+  "/:id/versions",
+  asyncHandler(async (req: Request, res: Response) => {
+    const owner = getOwner(req);
+
+    const parseResult = publishWorkflowSchema.safeParse(req.body ?? {});
+    if (!parseResult.success) {
+      throw new ValidationError("Validation failed", formatZodErrors(parseResult.error));
+    }
+
+    const version = await workflowService.publishWorkflow(
+      owner,
+      getParam(req, "id"),
+      parseResult.data.note
+    );
+
+    res.status(201).json({
+      success: true,
+      data: version,
+    });
+  })
+);
+
+/**
+ * GET /workflows/:id/draft/diff
+ * Changes in the draft that aren't published yet
+ */
+workflowRouter.get(
+  "/:id/draft/diff",
+  asyncHandler(async (req: Request, res: Response) => {
+    const owner = getOwner(req);
+
+    const result = await workflowService.getDraftDiff(owner, getParam(req, "id"));
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+/**
+ * GET /workflows/:id/versions/:version/diff
+ * What a version changed compared with the one before it
+ */
+workflowRouter.get(
+  "/:id/versions/:version/diff",
+  asyncHandler(async (req: Request, res: Response) => {
+    const owner = getOwner(req);
+
+    const result = await workflowService.getVersionDiff(
+      owner,
+      getParam(req, "id"),
+      getVersionParam(req)
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+/**
+ * POST /workflows/:id/versions/:version/revert
+ * Re-publish an earlier version as a new version. The draft is unchanged.
+ */
+workflowRouter.post(
+  "/:id/versions/:version/revert",
+  asyncHandler(async (req: Request, res: Response) => {
+    const owner = getOwner(req);
+
+    const version = await workflowService.revertToVersion(
+      owner,
+      getParam(req, "id"),
+      getVersionParam(req)
+    );
+
+    res.status(201).json({
+      success: true,
+      data: version,
+    });
+  })
+);
@@ -21,6 +21,9 @@ dotenv.config({ path: path.resolve(process.cwd(), ".env") });
 import { loggers } from "@/lib/logger";
 import { prisma } from "@/lib/prisma";
 import { pluginIpcService } from "@/modules/plugin/plugin-ipc.service";
+import { requeueWaitingRuns } from "@/modules/workflow/workflow.executor";
+import { closeWorkflowQueue } from "@/modules/workflow/workflow-queue";
+import { createWorkflowWorker } from "@/modules/workflow/workflow-worker";
 import { bridgeClientManager } from "@/modules/workspace";
 import { appRouteService } from "@/modules/workspace/app-route.service";
 import { bridgeLeaseService, SERVER_INSTANCE_ID } from "@/modules/workspace/bridge-lease.service";
@@ -50,6 +53,22 @@ serverLogger.info('Plugin IPC handler registered for workspace bridge clients');
 const app = createApp();
 const server = startServer(app);
 
+// Run queued workflow jobs (keyed runs, delay / wait-until resumes) in this
+// process unless dedicated workers consume the queue. Started once the
+// listen callback has registered the built-in plugins the steps run.
+let workflowWorker: ReturnType<typeof createWorkflowWorker> | null = null;
+if (process.env.WORKFLOW_WORKER_EMBEDDED !== "false") {
+  server.once("listening", () => {
+    workflowWorker = createWorkflowWorker();
+    serverLogger.info("Embedded workflow worker started");
+
+    // Waiting runs whose resume jobs were lost are re-scheduled
+    requeueWaitingRuns()
+      .then((count) => serverLogger.info({ count }, "Re-scheduled waiting workflow runs"))
+      .catch((err) => serverLogger.error({ err }, "Failed to re-schedule waiting workflow runs"));
+  });
+}
+
 // Initialize workspace terminal WebSocket handler
 initWorkspaceWebSocket(server);
 
@@ -117,6 +136,13 @@ const gracefulShutdown = async (signal: string) => {
       await bridgeLeaseService.stop();
       serverLogger.info('Bridge leases released.');
 
+      // Let in-flight workflow jobs finish before the connections go away
+      if (workflowWorker) {
+        await workflowWorker.close();
+        await closeWorkflowQueue();
+        serverLogger.info("Embedded workflow worker stopped.");
+      }
+
       // Disconnect database connections
       serverLogger.info("Disconnecting from database...");
       await prisma.$disconnect();
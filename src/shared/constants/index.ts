@@ -7,6 +7,7 @@ export * from "./org-plans";
 export * from "./permissions";
 export * from "./plans";
 export * from "./rate-limits";
+export * from "./workflow-ports";
 export * from "./workspace-addons";
 
 /**
@@ -138,6 +138,7 @@ export interface OrgPlanLimits {
   sharedGateways: number;         // -1 = unlimited
   sharedPlugins: number;
   sharedWorkflows: number;
+  sharedObjectStorageMb: number;  // OBJECT_STORE (LOCAL backend), -1 = unlimited
   sharedCreditsPerMonth: number;
   
   // Credit claim configuration
@@ -180,6 +181,7 @@ export const ORG_PLAN_LIMITS: Record<OrgPlanType, OrgPlanLimits> = {
     sharedGateways: 2,
     sharedPlugins: 5,
     sharedWorkflows: 5,
+    sharedObjectStorageMb: 250,
     sharedCreditsPerMonth: 100,
     creditClaimType: 'daily',
     dailyCreditClaim: 3.3,
@@ -206,6 +208,7 @@ export const ORG_PLAN_LIMITS: Record<OrgPlanType, OrgPlanLimits> = {
     sharedGateways: 5,
     sharedPlugins: 20,
     sharedWorkflows: 25,
+    sharedObjectStorageMb: 5120,
     sharedCreditsPerMonth: 2500,
     creditClaimType: 'monthly',
     dailyCreditClaim: 0,
@@ -234,6 +237,7 @@ export const ORG_PLAN_LIMITS: Record<OrgPlanType, OrgPlanLimits> = {
     sharedGateways: 15,
     sharedPlugins: 50,
     sharedWorkflows: 75,
+    sharedObjectStorageMb: 20480,
     sharedCreditsPerMonth: 10000,
     creditClaimType: 'monthly',
     dailyCreditClaim: 0,
@@ -262,6 +266,7 @@ export const ORG_PLAN_LIMITS: Record<OrgPlanType, OrgPlanLimits> = {
     sharedGateways: 50,
     sharedPlugins: 150,
     sharedWorkflows: 250,
+    sharedObjectStorageMb: 51200,
     sharedCreditsPerMonth: 50000,
     creditClaimType: 'monthly',
     dailyCreditClaim: 0,
@@ -290,6 +295,7 @@ export const ORG_PLAN_LIMITS: Record<OrgPlanType, OrgPlanLimits> = {
     sharedGateways: 150,
     sharedPlugins: 500,
     sharedWorkflows: 1000,
+    sharedObjectStorageMb: 204800,
     sharedCreditsPerMonth: 100000,
     creditClaimType: 'monthly',
     dailyCreditClaim: 0,
@@ -318,6 +324,7 @@ export const ORG_PLAN_LIMITS: Record<OrgPlanType, OrgPlanLimits> = {
     sharedGateways: -1,     // Unlimited
     sharedPlugins: -1,
     sharedWorkflows: -1,
+    sharedObjectStorageMb: -1,
     sharedCreditsPerMonth: -1,
     creditClaimType: 'none',
     dailyCreditClaim: 0,
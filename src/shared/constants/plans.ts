@@ -154,6 +154,7 @@ export interface PlanLimits {
   workflows: number;          // -1 = unlimited
   workflowSteps: number;
   plugins: number;            // -1 = unlimited
+  objectStorageMb: number;    // OBJECT_STORE (LOCAL backend) MB, -1 = unlimited
   creditsPerMonth: number;    // -1 = unlimited
   creditClaimType: CreditClaimType;  // How credits are distributed
   dailyCreditClaim: number;   // Credits per daily claim (for 'daily' type)
@@ -198,6 +199,7 @@ export const PLAN_LIMITS: Record<PlanType, PlanLimits> = {
     workflows: 3,
     workflowSteps: 5,
     plugins: 3,
+    objectStorageMb: 100,
     creditsPerMonth: 100,
     creditClaimType: 'daily',
     dailyCreditClaim: 3.3,
@@ -222,6 +224,7 @@ export const PLAN_LIMITS: Record<PlanType, PlanLimits> = {
     workflows: 10,
     workflowSteps: 10,
     plugins: 10,
+    objectStorageMb: 1024,
     creditsPerMonth: 500,
     creditClaimType: 'daily',
     dailyCreditClaim: 17,
@@ -246,6 +249,7 @@ export const PLAN_LIMITS: Record<PlanType, PlanLimits> = {
     workflows: 50,
     workflowSteps: 15,
     plugins: 25,
+    objectStorageMb: 10240,
     creditsPerMonth: 2000,
     creditClaimType: 'monthly',
     dailyCreditClaim: 0,
@@ -270,6 +274,7 @@ export const PLAN_LIMITS: Record<PlanType, PlanLimits> = {
     workflows: 200,
     workflowSteps: 25,
     plugins: 100,
+    objectStorageMb: 51200,
     creditsPerMonth: 6000,
     creditClaimType: 'monthly',
     dailyCreditClaim: 0,
@@ -294,6 +299,7 @@ export const PLAN_LIMITS: Record<PlanType, PlanLimits> = {
     workflows: -1,
     workflowSteps: 30,
     plugins: -1,
+    objectStorageMb: -1,
     creditsPerMonth: -1,
     creditClaimType: 'none',
     dailyCreditClaim: 0,
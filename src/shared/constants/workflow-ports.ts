@@ -0,0 +1,56 @@
+/**
+ * Workflow Output Ports
+ *
+ * Every step has a single `output` port unless its plugin is a router.
+ * Router steps (if/else, switch) emit on exactly one named port per run and
+ * only the edges leaving that port carry execution onward. A foreach step
+ * runs everything downstream of `each` once per item, then continues on
+ * `done`. Shared between the executor and the canvas so both agree on the
+ * port names.
+ *
+ * @module shared/constants/workflow-ports
+ */
+
+/** Port used by `WorkflowEdge.sourcePort` for ordinary steps. */
+export const DEFAULT_OUTPUT_PORT = "output";
+
+export const IF_ELSE_PLUGIN_SLUG = "if-else";
+export const SWITCH_PLUGIN_SLUG = "switch";
+export const FOREACH_PLUGIN_SLUG = "foreach";
+
+/** Fallback port a switch emits on when no case matches. */
+export const SWITCH_DEFAULT_PORT = "default";
+
+/** Foreach ports: the per-item loop body, and the continuation after it. */
+export const FOREACH_EACH_PORT = "each";
+export const FOREACH_DONE_PORT = "done";
+
+/**
+ * Case values configured on a switch step. Blank and duplicate entries are
+ * dropped, as is anything that would collide with the default port.
+ */
+export function getSwitchCases(config: Record<string, unknown> | null | undefined): string[] {
+  const raw = config?.cases;
+  if (!Array.isArray(raw)) return [];
+  const cases: string[] = [];
+  for (const value of raw) {
+    const name = String(value ?? "").trim();
+    if (!name || name === SWITCH_DEFAULT_PORT || cases.includes(name)) continue;
+    cases.push(name);
+  }
+  return cases;
+}
+
+/**
+ * Named output ports for a step, or null when the step has only the
+ * default `output` port.
+ */
+export function getStepOutputPorts(
+  pluginSlug: string | null | undefined,
+  config: Record<string, unknown> | null | undefined,
+): string[] | null {
+  if (pluginSlug === IF_ELSE_PLUGIN_SLUG) return ["true", "false"];
+  if (pluginSlug === SWITCH_PLUGIN_SLUG) return [...getSwitchCases(config), SWITCH_DEFAULT_PORT];
+  if (pluginSlug === FOREACH_PLUGIN_SLUG) return [FOREACH_EACH_PORT, FOREACH_DONE_PORT];
+  return null;
+}